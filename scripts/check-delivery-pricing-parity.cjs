@@ -0,0 +1,74 @@
+/* eslint-disable no-console */
+/**
+ * Replays the delivery pricing test table against `calculate_order_pricing`.
+ *
+ * Prints a SQL script that borrows one shop's delivery logic, sets it to the
+ * table's rules, checks every case and rolls everything back. Run it against
+ * a local or staging database:
+ *
+ *   node scripts/check-delivery-pricing-parity.cjs | psql "$DATABASE_URL" -v ON_ERROR_STOP=1
+ *
+ * Any mismatch aborts with the case name and both results.
+ */
+const fs = require('fs');
+const path = require('path');
+
+const TABLE_PATH = path.resolve(__dirname, '..', 'src', 'utils', '__tests__', 'deliveryPricingCases.json');
+
+const { rules, cases } = JSON.parse(fs.readFileSync(TABLE_PATH, 'utf8'));
+
+const quote = (value) => `'${String(value).replace(/'/g, "''")}'`;
+
+const caseChecks = cases
+  .map((testCase) => {
+    const { expected } = testCase;
+    const expectedRow = [
+      expected.deliveryFeeCents,
+      expected.surchargeCents,
+      expected.tierFeeCents,
+      expected.beyondTierUnits,
+      expected.beyondTierFeeCents,
+      expected.capApplied,
+      expected.freeDeliveryApplied,
+      expected.outOfZone,
+    ].join(', ');
+
+    return `
+  SELECT * INTO v_result FROM public.calculate_order_pricing(v_shop_id, ${testCase.subtotalCents}, ${testCase.distanceInMeters});
+  IF (v_result.delivery_fee_cents, v_result.surcharge_cents, v_result.tier_fee_cents, v_result.beyond_tier_units,
+      v_result.beyond_tier_fee_cents, v_result.cap_applied, v_result.free_delivery_applied, v_result.out_of_zone)
+     IS DISTINCT FROM (${expectedRow}) THEN
+    RAISE EXCEPTION 'Pricing mismatch for "%": database % expected (%)', ${quote(testCase.name)}, v_result, ${quote(expectedRow)};
+  END IF;`;
+  })
+  .join('\n');
+
+console.log(`BEGIN;
+
+DO $$
+DECLARE
+  v_shop_id UUID;
+  v_result RECORD;
+BEGIN
+  SELECT shop_id INTO v_shop_id FROM public.shop_delivery_logic LIMIT 1;
+  IF v_shop_id IS NULL THEN
+    RAISE EXCEPTION 'Parity check needs at least one shop with delivery logic';
+  END IF;
+
+  UPDATE public.shop_delivery_logic
+  SET minimum_order_value = ${rules.minimumOrderValue},
+      small_order_surcharge = ${rules.smallOrderSurcharge},
+      max_delivery_fee = ${rules.maxDeliveryFee},
+      distance_tiers = ${quote(JSON.stringify(rules.distanceTiers))}::JSONB,
+      beyond_tier_fee_per_unit = ${rules.beyondTierFeePerUnit},
+      beyond_tier_distance_unit = ${rules.beyondTierDistanceUnit},
+      free_delivery_threshold = ${rules.freeDeliveryThreshold},
+      free_delivery_radius = ${rules.freeDeliveryRadius}
+  WHERE shop_id = v_shop_id;
+${caseChecks}
+
+  RAISE NOTICE 'calculate_order_pricing matches all % cases', ${cases.length};
+END;
+$$;
+
+ROLLBACK;`);
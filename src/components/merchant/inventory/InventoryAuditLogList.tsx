@@ -24,6 +24,7 @@ const actionLabels: Record<InventoryAuditLogEntry['actionType'], string> = {
   DEACTIVATE: 'Marked Inactive',
   IMPORT: 'Imported',
   TEMPLATE_UPDATE: 'Synced from template',
+  LOW_STOCK: 'Low stock alert',
 };
 
 function formatPrice(value: unknown, currency?: string) {
@@ -6,6 +6,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import type { InventoryItem, InventoryTemplateItem } from '../../../types/inventory';
 
 const centsRegex = /^\d+(\.\d{0,2})?$/;
+const stockRegex = /^\d+$/;
 
 const baseSchema = z.object({
   templateId: z.string().uuid().optional().nullable(),
@@ -24,12 +25,27 @@ const baseSchema = z.object({
     .min(1, 'Price is required')
     .regex(centsRegex, 'Enter a valid price'),
   isActive: z.boolean(),
+  trackStock: z.boolean(),
+  stockDisplay: z.string(),
+  reorderDisplay: z.string(),
   categoryIds: z.array(z.string()).min(1, 'Select at least one category'),
-});
+})
+  .refine((values) => !values.trackStock || stockRegex.test(values.stockDisplay), {
+    message: 'Enter a whole number',
+    path: ['stockDisplay'],
+  })
+  .refine((values) => !values.trackStock || values.reorderDisplay === '' || stockRegex.test(values.reorderDisplay), {
+    message: 'Enter a whole number',
+    path: ['reorderDisplay'],
+  });
 
 type InventoryItemFormState = z.infer<typeof baseSchema>;
 
-export type InventoryItemFormValues = InventoryItemFormState & { priceCents: number };
+export type InventoryItemFormValues = InventoryItemFormState & {
+  priceCents: number;
+  stockQuantity: number | null;
+  reorderThreshold: number | null;
+};
 
 type CategoryOption = {
   id: string;
@@ -71,6 +87,9 @@ export function InventoryItemFormSheet({
         sku: defaultItem.sku,
         priceDisplay: (defaultItem.priceCents / 100).toFixed(2),
         isActive: defaultItem.isActive,
+        trackStock: defaultItem.stockQuantity != null,
+        stockDisplay: defaultItem.stockQuantity != null ? String(defaultItem.stockQuantity) : '',
+        reorderDisplay: defaultItem.reorderThreshold != null ? String(defaultItem.reorderThreshold) : '',
         categoryIds: defaultItem.categories.map((c) => c.id),
       };
     }
@@ -83,6 +102,9 @@ export function InventoryItemFormSheet({
         sku: '',
         priceDisplay: '',
         isActive: true,
+        trackStock: false,
+        stockDisplay: '',
+        reorderDisplay: '',
         categoryIds: [],
       };
     }
@@ -94,6 +116,9 @@ export function InventoryItemFormSheet({
       sku: '',
       priceDisplay: '',
       isActive: true,
+      trackStock: false,
+      stockDisplay: '',
+      reorderDisplay: '',
       categoryIds: [] as string[],
     };
   }, [defaultItem, template]);
@@ -213,6 +238,78 @@ export function InventoryItemFormSheet({
             )}
           />
 
+          <Controller
+            control={control}
+            name="trackStock"
+            render={({ field: { value, onChange } }) => (
+              <View className="mt-5 flex-row justify-between items-center">
+                <View className="flex-1 pr-4">
+                  <Text className="text-sm font-semibold text-gray-700">Track stock</Text>
+                  <Text className="text-xs text-gray-500 mt-1">Orders are rejected once tracked stock runs out.</Text>
+                </View>
+                <Switch value={value} onValueChange={onChange} />
+              </View>
+            )}
+          />
+
+          {watch('trackStock') ? (
+            <Controller
+              control={control}
+              name="stockDisplay"
+              render={({ field: { value, onChange }, fieldState }) => (
+                <View className="mt-3">
+                  <Text className="text-sm font-semibold text-gray-700">Quantity in stock</Text>
+                  <TextInput
+                    value={value}
+                    onChangeText={(text) => {
+                      if (text === '' || stockRegex.test(text)) {
+                        onChange(text);
+                      }
+                    }}
+                    keyboardType="number-pad"
+                    className="mt-2 border border-gray-200 rounded-xl px-4 py-3 text-base text-gray-900"
+                    placeholder="0"
+                  />
+                  {defaultItem && defaultItem.reservedQuantity > 0 ? (
+                    <Text className="text-xs text-gray-500 mt-1">
+                      {defaultItem.reservedQuantity} reserved by open orders
+                    </Text>
+                  ) : null}
+                  {fieldState.error ? (
+                    <Text className="text-xs text-red-500 mt-1">{fieldState.error.message}</Text>
+                  ) : null}
+                </View>
+              )}
+            />
+          ) : null}
+
+          {watch('trackStock') ? (
+            <Controller
+              control={control}
+              name="reorderDisplay"
+              render={({ field: { value, onChange }, fieldState }) => (
+                <View className="mt-3">
+                  <Text className="text-sm font-semibold text-gray-700">Reorder threshold</Text>
+                  <TextInput
+                    value={value}
+                    onChangeText={(text) => {
+                      if (text === '' || stockRegex.test(text)) {
+                        onChange(text);
+                      }
+                    }}
+                    keyboardType="number-pad"
+                    className="mt-2 border border-gray-200 rounded-xl px-4 py-3 text-base text-gray-900"
+                    placeholder="Optional"
+                  />
+                  <Text className="text-xs text-gray-500 mt-1">You'll get a low-stock alert at this level.</Text>
+                  {fieldState.error ? (
+                    <Text className="text-xs text-red-500 mt-1">{fieldState.error.message}</Text>
+                  ) : null}
+                </View>
+              )}
+            />
+          ) : null}
+
           <Controller
             control={control}
             name="description"
@@ -306,7 +403,13 @@ export function InventoryItemFormSheet({
                 if (loading || deleteLoading) {
                   return;
                 }
-                onSubmit({ ...values, priceCents: Math.round(parseFloat(values.priceDisplay) * 100) });
+                onSubmit({
+                  ...values,
+                  priceCents: Math.round(parseFloat(values.priceDisplay) * 100),
+                  stockQuantity: values.trackStock ? parseInt(values.stockDisplay, 10) : null,
+                  reorderThreshold:
+                    values.trackStock && values.reorderDisplay !== '' ? parseInt(values.reorderDisplay, 10) : null,
+                });
               })}
               disabled={loading}
             >
@@ -0,0 +1,53 @@
+import React from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import { useLowStockItems } from '../../../hooks/merchant/useLowStockItems';
+
+type InventoryLowStockCardProps = {
+  shopId: string;
+};
+
+export function InventoryLowStockCard({ shopId }: InventoryLowStockCardProps) {
+  const { data: items = [], latestAlert, dismissAlert } = useLowStockItems(shopId);
+
+  if (items.length === 0 && !latestAlert) {
+    return null;
+  }
+
+  const alertItem = latestAlert ? items.find((item) => item.id === latestAlert.merchantItemId) : undefined;
+  const alertQuantity = latestAlert?.changedFields.available_quantity?.to;
+
+  return (
+    <View className="bg-white border border-orange-200 rounded-2xl p-4 space-y-3">
+      {latestAlert ? (
+        <View className="flex-row items-start justify-between bg-orange-50 rounded-xl px-3 py-2">
+          <Text className="flex-1 text-sm text-orange-800">
+            {alertItem?.name ?? 'An item'} is running low
+            {typeof alertQuantity === 'number' ? ` (${alertQuantity} left)` : ''}.
+          </Text>
+          <TouchableOpacity onPress={dismissAlert} className="ml-3">
+            <Text className="text-sm font-semibold text-orange-600">Dismiss</Text>
+          </TouchableOpacity>
+        </View>
+      ) : null}
+
+      <View className="flex-row items-center justify-between">
+        <Text className="text-base font-semibold text-gray-900">Low stock</Text>
+        <Text className="text-xs font-semibold text-orange-600">
+          {items.length} {items.length === 1 ? 'item' : 'items'}
+        </Text>
+      </View>
+
+      {items.map((item) => (
+        <View key={item.id} className="flex-row items-center justify-between">
+          <Text className="flex-1 text-sm text-gray-800" numberOfLines={1}>
+            {item.name}
+          </Text>
+          <Text className={`text-sm font-semibold ml-3 ${item.availableQuantity === 0 ? 'text-red-600' : 'text-orange-600'}`}>
+            {item.availableQuantity === 0 ? 'Sold out' : `${item.availableQuantity} left`}
+          </Text>
+          <Text className="text-xs text-gray-500 ml-3">Reorder at {item.reorderThreshold}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
@@ -1,17 +1,26 @@
 import React, { createContext, useContext, ReactNode, useMemo, useEffect } from 'react';
 import { useCartStore, CartItem, ShopCart } from '../stores/cartStore';
+import { startCartSync } from '../stores/cartSync';
 import { useAuth } from './AuthContext';
+import type { SubstitutionPreference } from '../types/orders';
 
 type CartContextValue = {
   items: CartItem[]; // All items from all shops (for backward compatibility)
   shopId: string | null; // Current shop ID
   addItem: (item: Omit<CartItem, 'quantity'>) => void;
-  removeItem: (shopId: string, itemId: string) => void;
-  updateQuantity: (shopId: string, itemId: string, quantity: number) => void;
+  removeItem: (shopId: string, itemId: string, variantId?: string | null) => void;
+  updateQuantity: (shopId: string, itemId: string, quantity: number, variantId?: string | null) => void;
+  setSubstitutionPreference: (
+    shopId: string,
+    itemId: string,
+    preference: SubstitutionPreference,
+    variantId?: string | null
+  ) => void;
   clearCart: (shopId?: string) => void;
+  setShopCart: (shopId: string, shopName: string, items: CartItem[]) => void;
   getTotalPrice: (shopId?: string) => number;
   getItemCount: (shopId?: string) => number;
-  getItemQuantity: (shopId: string, itemId: string) => number;
+  getItemQuantity: (shopId: string, itemId: string, variantId?: string | null) => number;
   getAllItems: () => CartItem[];
   getShopIds: () => string[];
   getShopCart: (shopId: string) => ShopCart | null;
@@ -33,7 +42,14 @@ function CartUserSync() {
     }
     
     const userId = user?.id || null;
+    // A cart built before signing in is a guest cart; it merges into the account's carts
+    const wasGuest = useCartStore.getState().currentUserId === null;
     setUserId(userId);
+
+    if (!userId) {
+      return;
+    }
+    return startCartSync(userId, wasGuest);
   }, [user?.id, authLoading, setUserId]);
 
   return null;
@@ -48,7 +64,9 @@ export function CartProvider({ children }: { children: ReactNode }) {
   const addItem = useCartStore((state) => state.addItem);
   const removeItem = useCartStore((state) => state.removeItem);
   const updateQuantity = useCartStore((state) => state.updateQuantity);
+  const setSubstitutionPreference = useCartStore((state) => state.setSubstitutionPreference);
   const clearCart = useCartStore((state) => state.clearCart);
+  const setShopCart = useCartStore((state) => state.setShopCart);
   const getTotalPrice = useCartStore((state) => state.getTotalPrice);
   const getItemCount = useCartStore((state) => state.getItemCount);
   const getItemQuantity = useCartStore((state) => state.getItemQuantity);
@@ -67,7 +85,9 @@ export function CartProvider({ children }: { children: ReactNode }) {
     addItem,
     removeItem,
     updateQuantity,
+    setSubstitutionPreference,
     clearCart,
+    setShopCart,
     getTotalPrice,
     getItemCount,
     getItemQuantity,
@@ -0,0 +1,31 @@
+import { useQuery } from 'react-query';
+
+import { validateShopCart } from '../../services/consumer/cartValidationService';
+import type { ShopCart } from '../../stores/cartStore';
+import type { LatLngLiteral } from '../../types/delivery';
+
+/**
+ * Validate a shop cart whenever its lines or the delivery location change.
+ * Accepting the corrected cart changes its lines, which re-runs the check.
+ */
+export function useCartValidation(shopCart: ShopCart | null, location?: LatLngLiteral | null, enabled: boolean = true) {
+  const lines = (shopCart?.items ?? [])
+    .map((item) => `${item.id}:${item.variant_id ?? ''}:${item.quantity}:${item.price_cents}`)
+    .join('|');
+
+  return useQuery(
+    ['cart-validation', shopCart?.shopId, lines, location?.latitude, location?.longitude],
+    async () => {
+      const { data, error } = await validateShopCart(shopCart!, location);
+      if (error || !data) {
+        throw error ?? new Error('Unable to validate cart');
+      }
+      return data;
+    },
+    {
+      enabled: enabled && Boolean(shopCart && shopCart.items.length > 0),
+      keepPreviousData: true,
+      staleTime: 60 * 1000, // 1 minute
+    }
+  );
+}
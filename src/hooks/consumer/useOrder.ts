@@ -1,6 +1,6 @@
 import { useEffect, useRef } from 'react';
 import { useQuery, useQueryClient } from 'react-query';
-import { getOrderById, subscribeToOrder } from '../../services/consumer/orderService';
+import { getOrderById, getOrderGroupOrders, subscribeToOrder } from '../../services/consumer/orderService';
 import type { OrderWithAll } from '../../types/orders';
 
 // Query keys for orders
@@ -8,6 +8,7 @@ export const orderKeys = {
   all: ['orders'] as const,
   detail: (orderId: string | undefined) => ['orders', 'detail', orderId] as const,
   list: () => ['orders', 'list'] as const,
+  group: (orderGroupId: string | undefined) => ['orders', 'group', orderGroupId] as const,
 };
 
 /**
@@ -50,6 +51,15 @@ export function useOrder(orderId: string | undefined) {
     // No debouncing, no polling - WebSocket is primary mechanism
     const unsubscribeRealtime = subscribeToOrder(orderId, (updatedOrder) => {
       console.log('⚡ useOrder: WebSocket update received, updating cache IMMEDIATELY');
+
+      // Packed weights and substitutions change order_items too, which the orders row does not carry
+      const cached = (queryClient as any).getQueryData(orderKeys.detail(orderId)) as OrderWithAll | null | undefined;
+      if (
+        (updatedOrder.weight_adjusted_at && updatedOrder.weight_adjusted_at !== cached?.weight_adjusted_at) ||
+        (updatedOrder.fulfilment_changed_at && updatedOrder.fulfilment_changed_at !== cached?.fulfilment_changed_at)
+      ) {
+        refetchRef.current();
+      }
       
       // Update cache IMMEDIATELY - no delays, no debouncing, no requestAnimationFrame
       (queryClient as any).setQueryData(orderKeys.detail(orderId), (old: OrderWithAll | null) => {
@@ -79,3 +89,21 @@ export function useOrder(orderId: string | undefined) {
   return query;
 }
 
+
+/**
+ * Hook to fetch every order of a grouped checkout, so each shop's status can be
+ * shown side by side. Only the tracked order has a live subscription; siblings
+ * refresh when the query is revisited.
+ *
+ * @param orderGroupId - The order_group_id shared by the grouped orders
+ */
+export function useOrderGroupOrders(orderGroupId: string | null | undefined) {
+  return useQuery<OrderWithAll[]>(
+    orderKeys.group(orderGroupId ?? undefined),
+    () => getOrderGroupOrders(orderGroupId!),
+    {
+      enabled: !!orderGroupId,
+      staleTime: 30 * 1000,
+    }
+  );
+}
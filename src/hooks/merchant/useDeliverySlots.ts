@@ -0,0 +1,55 @@
+import { useMutation, useQuery, useQueryClient } from 'react-query';
+
+import type { DeliverySlotPayload } from '../../services/merchant/deliverySlotService';
+import {
+  createDeliverySlot,
+  deleteDeliverySlot,
+  fetchDeliverySlots,
+  updateDeliverySlot,
+} from '../../services/merchant/deliverySlotService';
+
+export function useDeliverySlots(shopId: string) {
+  return useQuery(['delivery-slots', shopId], async () => {
+    const { data, error } = await fetchDeliverySlots(shopId);
+    if (error) {
+      throw error;
+    }
+    return data ?? [];
+  }, {
+    enabled: Boolean(shopId),
+  });
+}
+
+export function useSaveDeliverySlot(shopId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation(async ({ slotId, payload }: { slotId?: string; payload: DeliverySlotPayload }) => {
+    const { data, error } = slotId
+      ? await updateDeliverySlot(slotId, payload)
+      : await createDeliverySlot(shopId, payload);
+    if (error) {
+      throw error;
+    }
+    return data;
+  }, {
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['delivery-slots', shopId] });
+    },
+  });
+}
+
+export function useDeleteDeliverySlot(shopId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation(async (slotId: string) => {
+    const { error } = await deleteDeliverySlot(slotId);
+    if (error) {
+      throw error;
+    }
+    return slotId;
+  }, {
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['delivery-slots', shopId] });
+    },
+  });
+}
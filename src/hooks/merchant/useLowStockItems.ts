@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from 'react-query';
+import { loogin } from '../../lib/loogin';
+import type { InventoryAuditLogEntry, InventoryItem } from '../../types/inventory';
+import { fetchLowStockItems, subscribeToLowStockAlerts } from '../../services/merchant/inventoryService';
+
+const log = loogin.scope('useLowStockItems');
+
+export function useLowStockItems(shopId: string) {
+  const queryClient = useQueryClient();
+  const [latestAlert, setLatestAlert] = useState<InventoryAuditLogEntry | null>(null);
+
+  const query = useQuery(
+    ['inventory', shopId, 'low-stock'],
+    async (): Promise<InventoryItem[]> => {
+      const { data, error } = await fetchLowStockItems(shopId);
+      if (error) {
+        log.error('Failed to load low-stock items', error);
+        throw error;
+      }
+      return data ?? [];
+    },
+    {
+      enabled: Boolean(shopId),
+      staleTime: 1 * 60 * 1000,
+    }
+  );
+
+  useEffect(() => {
+    if (!shopId) {
+      return;
+    }
+
+    setLatestAlert(null);
+    return subscribeToLowStockAlerts(shopId, (entry) => {
+      setLatestAlert(entry);
+      queryClient.invalidateQueries({ queryKey: ['inventory', shopId] });
+    });
+  }, [shopId, queryClient]);
+
+  return {
+    ...query,
+    latestAlert,
+    dismissAlert: () => setLatestAlert(null),
+  };
+}
@@ -0,0 +1,19 @@
+import { useQuery } from 'react-query';
+
+import { getOrderPaymentIssue } from '../../services/payments/paymentService';
+
+/**
+ * A capture/void of the order that has not gone through. Only orders whose
+ * intent is still open can have one, so pass `enabled` false for the rest.
+ */
+export function useOrderPaymentIssue(orderId: string, enabled: boolean = true) {
+  return useQuery(['order-payment-issue', orderId], async () => {
+    const { data, error } = await getOrderPaymentIssue(orderId);
+    if (error) {
+      throw error;
+    }
+    return data;
+  }, {
+    enabled: Boolean(orderId) && enabled,
+  });
+}
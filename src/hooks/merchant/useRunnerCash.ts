@@ -0,0 +1,67 @@
+import { useMutation, useQuery, useQueryClient } from 'react-query';
+
+import {
+  closeRunnerShift,
+  fetchLatestShiftSettlement,
+  fetchRunnerCashBalances,
+  openRunnerShift,
+} from '../../services/merchant/runnerCashService';
+
+export function useRunnerCashBalances(shopId?: string) {
+  return useQuery(['runner-cash-balances', shopId], async () => {
+    const { data, error } = await fetchRunnerCashBalances(shopId as string);
+    if (error) {
+      throw error;
+    }
+    return data ?? [];
+  }, {
+    enabled: Boolean(shopId),
+  });
+}
+
+export function useRunnerShiftSettlement(runnerId: string | null) {
+  return useQuery(['runner-shift-settlement', runnerId], async () => {
+    const { data, error } = await fetchLatestShiftSettlement(runnerId as string);
+    if (error) {
+      throw error;
+    }
+    return data;
+  }, {
+    enabled: Boolean(runnerId),
+  });
+}
+
+export function useRunnerShiftMutations(shopId?: string) {
+  const queryClient = useQueryClient();
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['runner-cash-balances', shopId] });
+    queryClient.invalidateQueries({ queryKey: ['runner-shift-settlement'] });
+  };
+
+  const openShift = useMutation(async ({ runnerId, openingFloatCents }: { runnerId: string; openingFloatCents: number }) => {
+    const { data, error } = await openRunnerShift(runnerId, openingFloatCents);
+    if (error) {
+      throw error;
+    }
+    return data;
+  }, {
+    onSuccess: invalidate,
+  });
+
+  const closeShift = useMutation(async ({ shiftId, handedOverCents, note }: {
+    shiftId: string;
+    handedOverCents: number;
+    note?: string;
+  }) => {
+    const { data, error } = await closeRunnerShift(shiftId, handedOverCents, note);
+    if (error) {
+      throw error;
+    }
+    return data;
+  }, {
+    onSuccess: invalidate,
+  });
+
+  return { openShift, closeShift };
+}
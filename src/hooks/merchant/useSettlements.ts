@@ -0,0 +1,45 @@
+import { useQuery } from 'react-query';
+
+import {
+  fetchLedgerEntries,
+  fetchSettlementStatements,
+  fetchShopCommissionRate,
+} from '../../services/merchant/settlementService';
+
+export function useSettlementStatements(shopId: string) {
+  return useQuery(['settlement-statements', shopId], async () => {
+    const { data, error } = await fetchSettlementStatements(shopId);
+    if (error) {
+      throw error;
+    }
+    return data ?? [];
+  }, {
+    enabled: Boolean(shopId),
+  });
+}
+
+/** `statementId` null loads the current, not yet settled period */
+export function useLedgerEntries(shopId: string, statementId: string | null) {
+  return useQuery(['shop-ledger-entries', shopId, statementId ?? 'current'], async () => {
+    const { data, error } = await fetchLedgerEntries(shopId, statementId);
+    if (error) {
+      throw error;
+    }
+    return data ?? [];
+  }, {
+    enabled: Boolean(shopId),
+  });
+}
+
+export function useShopCommissionRate(shopId: string) {
+  return useQuery(['shop-commission-rate', shopId], async () => {
+    const { data, error } = await fetchShopCommissionRate(shopId);
+    if (error) {
+      throw error;
+    }
+    return data;
+  }, {
+    enabled: Boolean(shopId),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
@@ -0,0 +1,50 @@
+import { useMutation, useQuery, useQueryClient } from 'react-query';
+
+import type { OrderReturnStatus } from '../../types/returns';
+import { getReturnPhotoUrl, getShopReturns, resolveOrderReturn } from '../../services/merchant/returnService';
+
+export function useShopReturns(shopId: string, status?: OrderReturnStatus) {
+  return useQuery(['shop-returns', shopId, status ?? 'all'], async () => {
+    const { data, error } = await getShopReturns(shopId, status);
+    if (error) {
+      throw error;
+    }
+    return data ?? [];
+  }, {
+    enabled: Boolean(shopId),
+  });
+}
+
+export function useReturnPhotoUrl(photoPath?: string | null) {
+  return useQuery(['return-photo-url', photoPath], async () => {
+    const { data, error } = await getReturnPhotoUrl(photoPath as string);
+    if (error) {
+      throw error;
+    }
+    return data;
+  }, {
+    enabled: Boolean(photoPath),
+    staleTime: 50 * 60 * 1000, // 50 minutes, inside the link's hour
+  });
+}
+
+export function useResolveOrderReturn(shopId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation(async ({ returnId, approve, refundCents, note }: {
+    returnId: string;
+    approve: boolean;
+    refundCents?: number;
+    note?: string;
+  }) => {
+    const { data, error } = await resolveOrderReturn(returnId, approve, { refundCents, note });
+    if (error) {
+      throw error;
+    }
+    return data;
+  }, {
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shop-returns', shopId] });
+    },
+  });
+}
@@ -0,0 +1,16 @@
+import { useQuery } from 'react-query';
+
+import { fetchSubscriptionVolume } from '../../services/merchant/subscriptionService';
+
+export function useSubscriptionVolume(shopId: string, days: number = 7) {
+  return useQuery(['subscription-volume', shopId, days], async () => {
+    const { data, error } = await fetchSubscriptionVolume(shopId, days);
+    if (error) {
+      throw error;
+    }
+    return data ?? [];
+  }, {
+    enabled: Boolean(shopId),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
@@ -6,6 +6,7 @@ import { InventoryEmptyState } from '../../../../components/merchant/inventory/I
 import { InventoryList } from '../../../../components/merchant/inventory/InventoryList';
 import { InventoryAuditLogList } from '../../../../components/merchant/inventory/InventoryAuditLogList';
 import { InventoryCategoryList } from '../../../../components/merchant/inventory/InventoryCategoryList';
+import { InventoryLowStockCard } from '../../../../components/merchant/inventory/InventoryLowStockCard';
 import { InventoryItemFormSheet, type InventoryItemFormValues } from '../../../../components/merchant/inventory/InventoryItemFormSheet';
 import { InventoryFilterSheet } from '../../../../components/merchant/inventory/InventoryFilterSheet';
 import { InventoryCategoryFormSheet, type InventoryCategoryFormSubmit } from '../../../../components/merchant/inventory/InventoryCategoryFormSheet';
@@ -241,6 +242,8 @@ export default function InventorySection({ shop }: InventorySectionProps) {
           sku: values.sku,
           priceCents: values.priceCents,
           isActive: values.isActive,
+          stockQuantity: values.stockQuantity,
+          reorderThreshold: values.reorderThreshold,
           categoryIds: values.categoryIds ?? [],
         });
         setFormOpen(false);
@@ -263,6 +266,8 @@ export default function InventorySection({ shop }: InventorySectionProps) {
             sku: values.sku,
             priceCents: values.priceCents,
             isActive: values.isActive,
+            stockQuantity: values.stockQuantity,
+            reorderThreshold: values.reorderThreshold,
             categoryIds: values.categoryIds,
           },
         });
@@ -475,6 +480,7 @@ export default function InventorySection({ shop }: InventorySectionProps) {
 
         {activeTab === 'items' ? (
           <View className="space-y-3">
+            <InventoryLowStockCard shopId={shop.id} />
             <TextInput
               value={search}
               onChangeText={setSearch}
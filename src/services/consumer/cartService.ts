@@ -0,0 +1,116 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from '../supabase';
+import type { ShopCart } from '../../stores/cartStore';
+
+type ServiceResult<T> = { data: T | null; error: PostgrestError | null };
+
+function mapRow(row: any): ShopCart {
+  return {
+    shopId: row.shop_id,
+    shopName: row.shop_name ?? '',
+    items: Array.isArray(row.items) ? row.items : [],
+  };
+}
+
+/**
+ * Fetch the signed-in user's carts saved from any device
+ */
+export async function fetchUserCarts(userId: string): Promise<ServiceResult<ShopCart[]>> {
+  try {
+    const { data, error } = await supabase
+      .from('user_carts')
+      .select('shop_id, shop_name, items')
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error fetching user carts:', error);
+      return { data: null, error };
+    }
+
+    return { data: (data || []).map(mapRow), error: null };
+  } catch (error: any) {
+    console.error('Exception fetching user carts:', error);
+    return { data: null, error: error as PostgrestError };
+  }
+}
+
+export async function saveUserCart(userId: string, shopCart: ShopCart): Promise<ServiceResult<null>> {
+  try {
+    const { error } = await (supabase as any)
+      .from('user_carts')
+      .upsert(
+        {
+          user_id: userId,
+          shop_id: shopCart.shopId,
+          shop_name: shopCart.shopName,
+          items: shopCart.items,
+        },
+        { onConflict: 'user_id,shop_id' }
+      );
+
+    if (error) {
+      console.error('Error saving user cart:', error);
+      return { data: null, error };
+    }
+
+    return { data: null, error: null };
+  } catch (error: any) {
+    console.error('Exception saving user cart:', error);
+    return { data: null, error: error as PostgrestError };
+  }
+}
+
+export async function deleteUserCart(userId: string, shopId: string): Promise<ServiceResult<null>> {
+  try {
+    const { error } = await supabase
+      .from('user_carts')
+      .delete()
+      .eq('user_id', userId)
+      .eq('shop_id', shopId);
+
+    if (error) {
+      console.error('Error deleting user cart:', error);
+      return { data: null, error };
+    }
+
+    return { data: null, error: null };
+  } catch (error: any) {
+    console.error('Exception deleting user cart:', error);
+    return { data: null, error: error as PostgrestError };
+  }
+}
+
+/**
+ * Follow cart changes made on the user's other devices
+ */
+export function subscribeToUserCarts(
+  userId: string,
+  handlers: { onUpsert: (shopCart: ShopCart) => void; onDelete: (shopId: string) => void }
+) {
+  const channel = supabase
+    .channel(`user-carts:${userId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'user_carts',
+        filter: `user_id=eq.${userId}`,
+      },
+      (payload) => {
+        if (payload.eventType === 'DELETE') {
+          const shopId = (payload.old as any)?.shop_id;
+          if (shopId) {
+            handlers.onDelete(shopId);
+          }
+          return;
+        }
+        handlers.onUpsert(mapRow(payload.new));
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
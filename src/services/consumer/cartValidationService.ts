@@ -0,0 +1,93 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from '../supabase';
+import { fetchDeliveryAreas } from '../merchant/deliveryAreaService';
+import { fetchShopItemsByIds } from './shopService';
+import type { ShopCart, CartItem } from '../../stores/cartStore';
+import type { LatLngLiteral } from '../../types/delivery';
+import { isPointInsidePolygon } from '../../utils/polygons';
+import { reconcileCartItems, type CartLineChange } from '../../utils/cartReconciliation';
+
+type ServiceResult<T> = { data: T | null; error: PostgrestError | null };
+
+export type CartValidation = {
+  shopId: string;
+  /** False when the shop has been removed */
+  shopAvailable: boolean;
+  shopOpen: boolean;
+  /** Null when no delivery location is known yet */
+  insideDeliveryArea: boolean | null;
+  /** The cart corrected to current prices, stock and availability */
+  items: CartItem[];
+  changes: CartLineChange[];
+};
+
+/**
+ * Whether the consumer has to act before the cart can be ordered as-is.
+ * A closed shop still takes orders scheduled for a delivery slot, and
+ * pickup orders are not bound by the delivery area.
+ */
+export function cartNeedsAttention(validation: CartValidation, scheduled: boolean = false, pickup: boolean = false) {
+  return (
+    validation.changes.length > 0 ||
+    !validation.shopAvailable ||
+    (!validation.shopOpen && !scheduled) ||
+    (validation.insideDeliveryArea === false && !pickup)
+  );
+}
+
+/**
+ * Re-check a persisted shop cart against the live catalog and shop state:
+ * whether the shop still exists and is open, whether the delivery location
+ * falls inside one of its delivery areas, and whether each line is still
+ * sold at the same price and quantity.
+ */
+export async function validateShopCart(
+  shopCart: ShopCart,
+  location?: LatLngLiteral | null
+): Promise<ServiceResult<CartValidation>> {
+  const { shopId } = shopCart;
+
+  try {
+    const [shopResult, itemsResult, areasResult] = await Promise.all([
+      supabase.from('shops').select('id, is_open').eq('id', shopId).maybeSingle(),
+      fetchShopItemsByIds(
+        shopId,
+        Array.from(new Set(shopCart.items.map((item) => item.id)))
+      ),
+      location ? fetchDeliveryAreas(shopId) : Promise.resolve({ data: null, error: null }),
+    ]);
+
+    if (shopResult.error) {
+      console.error('Error validating cart shop:', shopResult.error);
+      return { data: null, error: shopResult.error };
+    }
+    if (itemsResult.error || !itemsResult.data) {
+      return { data: null, error: itemsResult.error };
+    }
+    if (areasResult.error) {
+      return { data: null, error: areasResult.error };
+    }
+
+    const shop = shopResult.data as { id: string; is_open: boolean } | null;
+    // A removed shop sells nothing, whatever its items still say
+    const { items, changes } = reconcileCartItems(shopCart.items, shop ? itemsResult.data : []);
+
+    return {
+      data: {
+        shopId,
+        shopAvailable: Boolean(shop),
+        shopOpen: Boolean(shop?.is_open),
+        insideDeliveryArea:
+          location && areasResult.data
+            ? areasResult.data.some((area) => isPointInsidePolygon(location, area.coordinates))
+            : null,
+        items,
+        changes,
+      },
+      error: null,
+    };
+  } catch (error: any) {
+    console.error('Exception validating cart:', error);
+    return { data: null, error: error as PostgrestError };
+  }
+}
@@ -2,9 +2,9 @@ import type { ConsumerShop } from './shopService';
 import type { DeliveryLogic } from '../merchant/deliveryLogicService';
 import { 
   fetchDeliveryLogic, 
-  calculateDistance, 
-  calculateDeliveryFee 
+  calculateDistance 
 } from '../merchant/deliveryLogicService';
+import { calculateDeliveryPricing } from '../../utils/deliveryPricing';
 
 /**
  * Calculate delivery fee for a single shop based on consumer location
@@ -39,9 +39,9 @@ export async function calculateShopDeliveryFee(
   // Calculate delivery fee based on distance and delivery logic
   // For display purposes, we use orderValue = 0 (base fee only, no surcharge)
   // The actual order value surcharge will be calculated at checkout
-  const baseFee = calculateDeliveryFee(distanceInMeters, deliveryLogic);
+  const pricing = calculateDeliveryPricing({ subtotalCents: 0, distanceInMeters }, deliveryLogic);
 
-  return baseFee;
+  return pricing.deliveryFeeCents / 100;
 }
 
 /**
@@ -87,7 +87,8 @@ export async function calculateShopsDeliveryFees(
     );
 
     // Calculate base delivery fee (without order value surcharge)
-    const baseFee = calculateDeliveryFee(distanceInMeters, deliveryLogic);
+    const pricing = calculateDeliveryPricing({ subtotalCents: 0, distanceInMeters }, deliveryLogic);
+    const baseFee = pricing.deliveryFeeCents / 100;
 
     console.log(`Shop ${shop.id} (${shop.name}): distance=${distanceInMeters.toFixed(0)}m, fee=Rs ${baseFee.toFixed(0)}`);
 
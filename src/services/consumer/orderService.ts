@@ -12,26 +12,21 @@ import {
   OrderWithAll,
   PlaceOrderRequest,
   PlaceOrderResponse,
-  OrderItem,
-  DeliveryAddress,
+  PlaceOrderErrorCode,
+  PlaceOrderGroupRequest,
+  PlaceOrderGroupResponse,
+  OrderGroup,
   OrderCalculation,
 } from '../../types/orders';
+import { fetchDeliveryLogic, calculateDistance } from '../merchant/deliveryLogicService';
+import { calculateDeliveryPricing } from '../../utils/deliveryPricing';
+import { lineSubtotalCents } from '../../utils/quantity';
+import { settleOrderPayment } from '../payments/paymentService';
 
 type MerchantItemRow = {
   id: string;
   price_cents: number;
-};
-
-type DeliveryLogicRow = {
-  distance_tiers: Array<{ max_distance: number; fee: number }>;
-  free_delivery_threshold: number;
-  free_delivery_radius: number;
-  beyond_tier_distance_unit: number;
-  beyond_tier_fee_per_unit: number;
-  max_delivery_fee: number;
-  minimum_order_value: number;
-  small_order_surcharge: number;
-  least_order_value?: number;
+  merchant_item_variants?: Array<{ id: string; price_cents: number }> | null;
 };
 
 type AddressRow = {
@@ -60,7 +55,7 @@ type ShopLocationRow = {
  */
 export async function calculateOrderTotals(
   shopId: string,
-  items: Array<{ merchant_item_id: string; quantity: number }>,
+  items: Array<{ merchant_item_id: string; variant_id?: string | null; quantity: number }>,
   addressId: string
 ): Promise<OrderCalculation> {
   try {
@@ -68,7 +63,7 @@ export async function calculateOrderTotals(
     const itemIds = items.map((item) => item.merchant_item_id);
     const { data: merchantItemsRaw, error: itemsError } = await supabase
       .from('merchant_items')
-      .select('id, price_cents')
+      .select('id, price_cents, merchant_item_variants(id, price_cents)')
       .in('id', itemIds);
 
     if (itemsError) throw itemsError;
@@ -79,20 +74,18 @@ export async function calculateOrderTotals(
     items.forEach((item) => {
       const merchantItem = merchantItems?.find((mi) => mi.id === item.merchant_item_id);
       if (merchantItem) {
-        subtotal_cents += merchantItem.price_cents * item.quantity;
+        const variant = item.variant_id
+          ? merchantItem.merchant_item_variants?.find((v) => v.id === item.variant_id)
+          : undefined;
+        subtotal_cents += lineSubtotalCents(variant?.price_cents ?? merchantItem.price_cents, item.quantity);
       }
     });
 
     // Get delivery logic
-    const { data: deliveryLogicRaw, error: logicError } = await supabase
-      .from('shop_delivery_logic')
-      .select('*')
-      .eq('shop_id', shopId)
-      .single();
+    const { data: deliveryLogic, error: logicError } = await fetchDeliveryLogic(shopId);
 
     if (logicError) throw logicError;
-    if (!deliveryLogicRaw) throw new Error('Delivery logic not found');
-    const deliveryLogic = deliveryLogicRaw as unknown as DeliveryLogicRow;
+    if (!deliveryLogic) throw new Error('Delivery logic not found');
 
     // Get address for distance calculation
     const { data: addressRaw, error: addressError } = await supabase
@@ -124,56 +117,14 @@ export async function calculateOrderTotals(
       shop.longitude
     );
 
-    // Calculate delivery fee based on distance tiers
-    let delivery_fee_cents = 0;
-    const tiers = deliveryLogic.distance_tiers as Array<{
-      max_distance: number;
-      fee: number;
-    }>;
-
-    // Check if within free delivery radius
-    if (
-      subtotal_cents >= deliveryLogic.free_delivery_threshold * 100 &&
-      distance_meters <= deliveryLogic.free_delivery_radius
-    ) {
-      delivery_fee_cents = 0;
-    } else {
-      // Find appropriate tier
-      let tierFound = false;
-      for (const tier of tiers) {
-        if (distance_meters <= tier.max_distance) {
-          delivery_fee_cents = tier.fee * 100; // Convert to cents
-          tierFound = true;
-          break;
-        }
-      }
-
-      // If beyond all tiers, calculate using beyond_tier formula
-      if (!tierFound) {
-        const lastTier = tiers[tiers.length - 1];
-        const excessDistance = distance_meters - lastTier.max_distance;
-        const excessUnits = Math.ceil(
-          excessDistance / deliveryLogic.beyond_tier_distance_unit
-        );
-        delivery_fee_cents =
-          lastTier.fee * 100 +
-          excessUnits * deliveryLogic.beyond_tier_fee_per_unit * 100;
-      }
-
-      // Cap at max delivery fee
-      delivery_fee_cents = Math.min(
-        delivery_fee_cents,
-        deliveryLogic.max_delivery_fee * 100
-      );
-    }
-
-    // Calculate surcharge for small orders
-    let surcharge_cents = 0;
-    if (subtotal_cents < deliveryLogic.minimum_order_value * 100) {
-      surcharge_cents = deliveryLogic.small_order_surcharge * 100;
-    }
-
-    const total_cents = subtotal_cents + delivery_fee_cents + surcharge_cents;
+    // Delivery fee and surcharge from the shared pricing engine
+    const pricing = calculateDeliveryPricing(
+      { subtotalCents: subtotal_cents, distanceInMeters: distance_meters },
+      deliveryLogic
+    );
+    const delivery_fee_cents = pricing.deliveryFeeCents;
+    const surcharge_cents = pricing.surchargeCents;
+    const total_cents = pricing.totalCents;
 
     return {
       subtotal_cents,
@@ -188,258 +139,170 @@ export async function calculateOrderTotals(
   }
 }
 
+const PLACE_ORDER_ERROR_MESSAGES: Record<PlaceOrderErrorCode, string> = {
+  NOT_AUTHENTICATED: 'You must be logged in to place an order.',
+  ADDRESS_NOT_FOUND: "Address not found or you don't have access to it. Please select a valid delivery address.",
+  ADDRESS_INVALID: 'This delivery address is incomplete. Please update it and try again.',
+  SHOP_NOT_FOUND: 'This shop could not be found.',
+  SHOP_CLOSED: 'This shop is currently closed and not accepting orders.',
+  EMPTY_ORDER: 'Your cart is empty for this shop.',
+  INVALID_QUANTITY: 'One or more items have an invalid quantity for how they are sold (e.g. below the minimum weight).',
+  ITEM_NOT_FOUND: 'One or more items are no longer sold by this shop.',
+  ITEM_UNAVAILABLE: 'One or more items are currently unavailable.',
+  INSUFFICIENT_STOCK: 'Some items in your cart are low on stock. Please reduce the quantity and try again.',
+  VARIANT_REQUIRED: 'Please choose a size or option for every item in your cart.',
+  VARIANT_UNAVAILABLE: 'One or more selected options are no longer available.',
+  INVALID_SUBSTITUTION_PREFERENCE: 'Please choose what should happen if an item is out of stock.',
+  SLOT_UNAVAILABLE: 'The selected delivery slot is no longer available. Please choose another time.',
+  SLOT_FULL: 'The selected delivery slot just filled up. Please choose another time.',
+  DELIVERY_LOGIC_MISSING: 'This shop has not configured delivery yet.',
+  DUPLICATE_SHOP: 'Each shop can only appear once in a checkout.',
+  INVALID_FULFILMENT_TYPE: 'Please choose delivery or pickup.',
+  PICKUP_UNAVAILABLE: 'This shop does not offer pickup. Please choose delivery instead.',
+  INVALID_WALLET_AMOUNT: 'Enter an amount of more than zero.',
+  INSUFFICIENT_WALLET_BALANCE: 'Your wallet balance is too low for this order.',
+  UNKNOWN: 'Failed to place order',
+};
+
 /**
- * Haversine formula to calculate distance between two coordinates
+ * Generate a fresh idempotency key for an order submission
  */
-function calculateDistance(
-  lat1: number,
-  lon1: number,
-  lat2: number,
-  lon2: number
-): number {
-  const R = 6371e3; // Earth's radius in meters
-  const φ1 = (lat1 * Math.PI) / 180;
-  const φ2 = (lat2 * Math.PI) / 180;
-  const Δφ = ((lat2 - lat1) * Math.PI) / 180;
-  const Δλ = ((lon2 - lon1) * Math.PI) / 180;
-
-  const a =
-    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-  return R * c; // Distance in meters
+export function createOrderIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+function toPlaceOrderErrorCode(message?: string | null): PlaceOrderErrorCode {
+  if (message && Object.prototype.hasOwnProperty.call(PLACE_ORDER_ERROR_MESSAGES, message)) {
+    return message as PlaceOrderErrorCode;
+  }
+  return 'UNKNOWN';
 }
 
 /**
  * Place a new order
+ *
+ * Delegates to the `place_order` database function, which locks item prices,
+ * recomputes subtotal, delivery fee and surcharge from the shop's delivery logic
+ * (pickup orders pay no delivery fee),
+ * reserves tracked stock, spends any store credit given, and writes the order and its
+ * items in a single transaction.
+ * Resubmitting with the same idempotency key returns the original order.
  */
 export async function placeOrder(
   request: PlaceOrderRequest
 ): Promise<PlaceOrderResponse> {
   try {
-    // Get current user
-    const {
-      data: { user },
-      error: userError,
-    } = await supabase.auth.getUser();
-    if (userError || !user) throw new Error('User not authenticated');
-
-    // Get user profile
-    const { data: profileRaw, error: profileError } = await supabase
-      .from('user_profiles')
-      .select('name, email')
-      .eq('id', user.id)
-      .single();
-
-    if (profileError) throw profileError;
-    const profile = (profileRaw ?? null) as { name?: string | null; email?: string | null } | null;
-
-    // Get address details for snapshot
-    // Use .maybeSingle() instead of .single() to handle cases where address doesn't exist
-    // Also verify the address belongs to the current user (RLS should handle this, but we check explicitly)
-    const { data: addressRaw, error: addressError } = await supabase
-      .from('consumer_addresses')
-      .select('*')
-      .eq('id', request.consumer_address_id)
-      .eq('user_id', user.id) // Ensure address belongs to current user
-      .maybeSingle();
+    const { data, error } = await supabase.rpc('place_order', {
+      p_shop_id: request.shop_id,
+      p_consumer_address_id: request.consumer_address_id,
+      p_items: request.items,
+      p_payment_method: request.payment_method,
+      p_special_instructions: request.special_instructions ?? null,
+      p_idempotency_key: request.idempotency_key,
+      p_delivery_slot_id: request.delivery_slot_id ?? null,
+      p_scheduled_for: request.scheduled_for ?? null,
+      p_fulfilment_type: request.fulfilment_type ?? 'delivery',
+      p_wallet_credit_cents: request.wallet_credit_cents ?? 0,
+    } as any);
 
-    if (addressError) {
-      console.error('Error fetching address:', {
-        code: addressError.code,
-        message: addressError.message,
-        details: addressError.details,
-        hint: addressError.hint,
-        addressId: request.consumer_address_id,
-        userId: user.id,
-      });
-      throw new Error(`Failed to fetch address: ${addressError.message}`);
-    }
-    
-    if (!addressRaw) {
-      console.error('Address not found or access denied:', {
-        addressId: request.consumer_address_id,
-        userId: user.id,
-        possibleReasons: [
-          'Address does not exist',
-          'Address belongs to a different user (RLS blocking)',
-          'Address was deleted',
-        ],
+    if (error) {
+      const errorCode = toPlaceOrderErrorCode(error.message);
+      console.error('Error placing order:', {
+        code: error.code,
+        message: error.message,
+        details: error.details,
+        hint: error.hint,
+        errorCode,
       });
-      throw new Error(`Address not found or you don't have access to it. Please select a valid delivery address.`);
-    }
-    
-    // Cast to AddressRow type
-    // Note: We already filtered by user_id in the query, so this address belongs to the current user
-    const address = addressRaw as unknown as AddressRow;
-
-    // Calculate totals
-    const calculation = await calculateOrderTotals(
-      request.shop_id,
-      request.items,
-      request.consumer_address_id
-    );
 
-    // Check minimum order value
-    // The order totals already include surcharge handling and distance checks.
-    // Skip the legacy least_order_value guard that causes false warnings on web.
+      return {
+        success: false,
+        error_code: errorCode,
+        message: errorCode === 'UNKNOWN' ? error.message || PLACE_ORDER_ERROR_MESSAGES.UNKNOWN : PLACE_ORDER_ERROR_MESSAGES[errorCode],
+        order: null,
+      };
+    }
 
-    // Get item details for snapshots
-    const itemIds = request.items.map((item) => item.merchant_item_id);
-    const { data: merchantItemsRaw, error: itemsError } = await supabase
-      .from('merchant_items')
-      .select('id, name, description, image_url, price_cents')
-      .in('id', itemIds);
+    if (!data) throw new Error('Failed to create order');
 
-    if (itemsError) throw itemsError;
-    const merchantItems = (merchantItemsRaw ?? []) as Array<{
-      id: string;
-      name?: string | null;
-      description?: string | null;
-      image_url?: string | null;
-      price_cents: number;
-    }>;
-
-    // Create delivery address snapshot
-    // Ensure all required fields are present and valid
-    if (!address.street_address || !address.city) {
-      throw new Error('Address is missing required fields (street_address or city)');
-    }
-    if (typeof address.latitude !== 'number' || typeof address.longitude !== 'number') {
-      throw new Error('Address coordinates are invalid');
-    }
-    
-    const deliveryAddressSnapshot: DeliveryAddress = {
-      id: address.id,
-      title: address.title ?? null,
-      street_address: address.street_address,
-      city: address.city,
-      region: address.region ?? null,
-      latitude: address.latitude,
-      longitude: address.longitude,
-      landmark: address.landmark ?? null,
-      formatted_address: address.formatted_address ?? null,
+    return {
+      success: true,
+      order: data as unknown as OrderWithItems,
     };
+  } catch (error) {
+    console.error('Error placing order:', error);
 
-    // Create order
-    const orderData = {
-      shop_id: request.shop_id,
-      user_id: user.id,
-      consumer_address_id: request.consumer_address_id,
-      status: 'pending',
-      subtotal_cents: calculation.subtotal_cents,
-      delivery_fee_cents: calculation.delivery_fee_cents,
-      surcharge_cents: calculation.surcharge_cents,
-      total_cents: calculation.total_cents,
-      payment_method: request.payment_method,
-      special_instructions: request.special_instructions,
-      delivery_address: deliveryAddressSnapshot,
-      customer_name: profile?.name ?? null,
-      customer_email: profile?.email ?? null,
+    return {
+      success: false,
+      error_code: 'UNKNOWN',
+      message: error instanceof Error ? error.message : PLACE_ORDER_ERROR_MESSAGES.UNKNOWN,
+      order: null,
     };
-    
-    console.log('Placing order with data:', {
-      ...orderData,
-      delivery_address: deliveryAddressSnapshot, // Log separately for clarity
-    });
-    
-    const { data: orderRow, error: orderError } = await supabase
-      .from('orders')
-      .insert([orderData] as any)
-      .select()
-      .single();
+  }
+}
 
-    if (orderError) {
-      console.error('Order insert error:', {
-        code: orderError.code,
-        message: orderError.message,
-        details: orderError.details,
-        hint: orderError.hint,
-      });
-      throw orderError;
-    }
-    if (!orderRow) throw new Error('Failed to create order');
-    const insertedOrder = orderRow as Order;
+/**
+ * Place one order per shop in a single step
+ *
+ * Delegates to `place_order_group`, which runs `place_order` for every shop in
+ * one transaction: either all shops' orders are placed under a shared order
+ * group or none is, and `failed_shop_id` names the shop that stopped it.
+ */
+export async function placeOrderGroup(
+  request: PlaceOrderGroupRequest
+): Promise<PlaceOrderGroupResponse> {
+  try {
+    const { data, error } = await supabase.rpc('place_order_group', {
+      p_consumer_address_id: request.consumer_address_id,
+      p_shop_orders: request.shop_orders.map((shopOrder) => ({
+        shop_id: shopOrder.shop_id,
+        items: shopOrder.items,
+        delivery_slot_id: shopOrder.delivery_slot_id ?? null,
+        scheduled_for: shopOrder.scheduled_for ?? null,
+        fulfilment_type: shopOrder.fulfilment_type ?? 'delivery',
+      })),
+      p_payment_method: request.payment_method,
+      p_special_instructions: request.special_instructions ?? null,
+      p_idempotency_key: request.idempotency_key,
+      p_wallet_credit_cents: request.wallet_credit_cents ?? 0,
+    } as any);
 
-    // Create order items
-    const orderItemsToInsert = request.items.map((item) => {
-      const merchantItem = merchantItems?.find(
-        (mi) => mi.id === item.merchant_item_id
-      );
-      if (!merchantItem) throw new Error('Merchant item not found');
+    if (error) {
+      const errorCode = toPlaceOrderErrorCode(error.message);
+      console.error('Error placing order group:', {
+        code: error.code,
+        message: error.message,
+        details: error.details,
+        hint: error.hint,
+        errorCode,
+      });
 
       return {
-        order_id: insertedOrder.id,
-        merchant_item_id: item.merchant_item_id,
-        item_name: merchantItem.name || '',
-        item_description: merchantItem.description,
-        item_image_url: merchantItem.image_url,
-        item_price_cents: merchantItem.price_cents,
-        quantity: item.quantity,
-        subtotal_cents: merchantItem.price_cents * item.quantity,
+        success: false,
+        error_code: errorCode,
+        message: errorCode === 'UNKNOWN' ? error.message || PLACE_ORDER_ERROR_MESSAGES.UNKNOWN : PLACE_ORDER_ERROR_MESSAGES[errorCode],
+        failed_shop_id: error.hint || null,
+        group: null,
       };
-    });
-
-    console.log('Inserting order items:', orderItemsToInsert);
-    
-    const { data: orderItemsRaw, error: itemsInsertError } = await supabase
-      .from('order_items')
-      .insert(orderItemsToInsert as any)
-      .select();
-
-    if (itemsInsertError) {
-      console.error('Order items insert error:', {
-        code: itemsInsertError.code,
-        message: itemsInsertError.message,
-        details: itemsInsertError.details,
-        hint: itemsInsertError.hint,
-      });
-      throw itemsInsertError;
     }
-    const orderItems = (orderItemsRaw ?? []) as OrderItem[];
+
+    if (!data) throw new Error('Failed to create order group');
 
     return {
       success: true,
-      order: {
-        ...insertedOrder,
-        order_items: orderItems,
-      } as OrderWithItems,
+      group: data as unknown as OrderGroup,
     };
   } catch (error) {
-    // Log detailed error information
-    console.error('Error placing order:', error);
-    
-    // Extract more details from Supabase errors
-    let errorMessage = 'Failed to place order';
-    if (error instanceof Error) {
-      errorMessage = error.message;
-    } else if (error && typeof error === 'object') {
-      // Handle Supabase PostgrestError
-      const supabaseError = error as any;
-      if (supabaseError.message) {
-        errorMessage = supabaseError.message;
-      } else if (supabaseError.error) {
-        errorMessage = supabaseError.error;
-      } else if (supabaseError.details) {
-        errorMessage = supabaseError.details;
-      }
-      
-      // Log additional error details
-      console.error('Error details:', {
-        code: supabaseError.code,
-        message: supabaseError.message,
-        details: supabaseError.details,
-        hint: supabaseError.hint,
-        status: supabaseError.status,
-        statusText: supabaseError.statusText,
-      });
-    }
-    
+    console.error('Error placing order group:', error);
+
     return {
       success: false,
-      message: errorMessage,
-      order: null as any,
+      error_code: 'UNKNOWN',
+      message: error instanceof Error ? error.message : PLACE_ORDER_ERROR_MESSAGES.UNKNOWN,
+      group: null,
     };
   }
 }
@@ -507,6 +370,12 @@ export async function cancelOrder(
       };
     }
 
+    // The cancel queued the release of any card hold; the server retries it if this fails
+    const voidResult = await settleOrderPayment(orderId);
+    if (!voidResult.success) {
+      console.error('[cancelOrder] Failed to void payment', { orderId, message: voidResult.message });
+    }
+
     return { success: true };
   } catch (err) {
     console.error('[cancelOrder] Unexpected error', err);
@@ -517,6 +386,61 @@ export async function cancelOrder(
   }
 }
 
+// ============================================================================
+// EDIT PENDING ORDER (CONSUMER)
+// ============================================================================
+
+const EDIT_ORDER_ERROR_MESSAGES: Record<string, string> = {
+  ORDER_NOT_FOUND: 'This order could not be found.',
+  ORDER_NOT_EDITABLE: 'The shop has started confirming this order, so it can no longer be changed.',
+  ORDER_PAID_BY_CARD: 'Card and wallet orders cannot be changed. Cancel this order and place a new one instead.',
+  EMPTY_ORDER: 'Your order needs at least one item. Cancel the order instead.',
+};
+
+/**
+ * Replace the items of a pending order.
+ *
+ * Delegates to `update_pending_order_items`, which reprices every line at
+ * current prices, recomputes delivery fee and surcharge, and refuses once the
+ * merchant has started confirming or when the order is paid by card/wallet.
+ */
+export async function updatePendingOrderItems(
+  orderId: string,
+  items: PlaceOrderRequest['items']
+): Promise<{ success: boolean; message?: string; order?: OrderWithItems }> {
+  try {
+    const { data, error } = await supabase.rpc('update_pending_order_items', {
+      p_order_id: orderId,
+      p_items: items,
+    } as any);
+
+    if (error) {
+      console.error('[updatePendingOrderItems] RPC error', {
+        code: error.code,
+        message: error.message,
+        details: error.details,
+        orderId,
+      });
+
+      const errorCode = toPlaceOrderErrorCode(error.message);
+      return {
+        success: false,
+        message:
+          EDIT_ORDER_ERROR_MESSAGES[error.message] ||
+          (errorCode === 'UNKNOWN' ? 'Failed to update order. Please try again.' : PLACE_ORDER_ERROR_MESSAGES[errorCode]),
+      };
+    }
+
+    return { success: true, order: data as unknown as OrderWithItems };
+  } catch (err) {
+    console.error('[updatePendingOrderItems] Unexpected error', err);
+    return {
+      success: false,
+      message: err instanceof Error ? err.message : 'Failed to update order. Please try again.',
+    };
+  }
+}
+
 // ============================================================================
 // GET ORDERS
 // ============================================================================
@@ -580,6 +504,33 @@ export async function getOrderById(orderId: string): Promise<OrderWithAll | null
   }
 }
 
+/**
+ * Get every order placed in the same grouped checkout, oldest first
+ */
+export async function getOrderGroupOrders(orderGroupId: string): Promise<OrderWithAll[]> {
+  try {
+    const { data, error } = await supabase
+      .from('orders')
+      .select(
+        `
+        *,
+        order_items(*),
+        shop:shops(id, name, image_url, shop_type, address, latitude, longitude),
+        delivery_runner:delivery_runners(id, name, phone_number)
+      `
+      )
+      .eq('order_group_id', orderGroupId)
+      .order('placed_at', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []) as any;
+  } catch (error) {
+    console.error('Error getting order group orders:', error);
+    return [];
+  }
+}
+
 /**
  * Get active order for current user (non-terminal status)
  */
@@ -601,7 +552,7 @@ export async function getActiveOrder(): Promise<OrderWithAll | null> {
       `
       )
       .eq('user_id', user.id)
-      .not('status', 'in', '(delivered,cancelled)')
+      .not('status', 'in', '(delivered,cancelled,rejected)')
       .order('placed_at', { ascending: false })
       .limit(1)
       // maybeSingle() avoids 406/Not Acceptable when there is no active order
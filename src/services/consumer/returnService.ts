@@ -0,0 +1,103 @@
+import { supabase } from '../supabase';
+import type { OrderReturn, RequestOrderReturnInput } from '../../types/returns';
+
+const BUCKET = 'return-photos';
+
+/** Days after delivery a return can be opened; matches request_order_return */
+export const RETURN_WINDOW_DAYS = 7;
+
+const RETURN_ERROR_MESSAGES: Record<string, string> = {
+  ORDER_NOT_FOUND: 'This order could not be found.',
+  ORDER_NOT_DELIVERED: 'Problems can be reported once the order has been delivered.',
+  RETURN_WINDOW_CLOSED: `Problems can only be reported within ${RETURN_WINDOW_DAYS} days of delivery.`,
+  RETURN_ALREADY_OPEN: 'You already have a request open for this order.',
+  INVALID_RETURN_REASON: 'Choose what went wrong.',
+  EMPTY_RETURN: 'Select at least one item.',
+  ITEM_NOT_FOUND: 'One of the selected items is not part of this delivery.',
+  INVALID_RETURN_QUANTITY: 'You cannot return more than was delivered.',
+  INVALID_RETURN_PHOTO: 'The photo could not be attached. Please upload it again.',
+};
+
+/**
+ * Whether a delivered order is still inside the return window
+ */
+export function canRequestReturn(deliveredAt?: string | null) {
+  if (!deliveredAt) return false;
+  return Date.now() - new Date(deliveredAt).getTime() <= RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Upload a photo of the problem; returns its path in the private bucket
+ */
+export async function uploadReturnPhoto(file: File): Promise<{ path: string | null; error: Error | null }> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return { path: null, error: new Error('User not authenticated') };
+    }
+
+    const extension = file.name.split('.').pop() || 'jpg';
+    // The storage policy only lets users write into their own folder
+    const filePath = `${user.id}/${Date.now()}-${Math.random().toString(36).substring(2, 8)}.${extension}`;
+
+    const { error } = await supabase.storage.from(BUCKET).upload(filePath, file, {
+      contentType: file.type,
+      upsert: false,
+    });
+
+    if (error) {
+      return { path: null, error: new Error(error.message) };
+    }
+
+    return { path: filePath, error: null };
+  } catch (err) {
+    return { path: null, error: err instanceof Error ? err : new Error('Failed to upload photo') };
+  }
+}
+
+/**
+ * Open a return/refund request for lines of a delivered order
+ */
+export async function requestOrderReturn(
+  orderId: string,
+  input: RequestOrderReturnInput
+): Promise<{ data: OrderReturn | null; error: Error | null }> {
+  try {
+    const { data, error } = await supabase.rpc('request_order_return', {
+      p_order_id: orderId,
+      p_lines: input.lines,
+      p_reason_code: input.reason_code,
+      p_note: input.note?.trim() || null,
+      p_photo_path: input.photo_path ?? null,
+    } as any);
+
+    if (error) {
+      return { data: null, error: new Error(RETURN_ERROR_MESSAGES[error.message] || error.message) };
+    }
+
+    return { data: data as unknown as OrderReturn, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error('Failed to submit request') };
+  }
+}
+
+/**
+ * Return requests for one of the current user's orders, newest first
+ */
+export async function getOrderReturns(orderId: string): Promise<{ data: OrderReturn[] | null; error: Error | null }> {
+  try {
+    const { data, error } = await supabase
+      .from('order_returns')
+      .select('*, items:order_return_items(*)')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    return { data: (data || []) as unknown as OrderReturn[], error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error('Failed to fetch return requests') };
+  }
+}
@@ -3,6 +3,7 @@ import type { Shop } from '../supabase';
 import type { PostgrestError } from '@supabase/supabase-js';
 import type { DeliveryLogic } from '../merchant/deliveryLogicService';
 import { isPointInsidePolygon } from '../../utils/polygons';
+import type { UnitType } from '../../types/inventory';
 
 export type ConsumerShop = Shop;
 
@@ -28,6 +29,12 @@ export type ShopCategory = {
   is_active: boolean;
 };
 
+export type ShopItemVariant = {
+  id: string;
+  name: string;
+  price_cents: number;
+};
+
 export type ShopItem = {
   id: string;
   name: string;
@@ -36,9 +43,29 @@ export type ShopItem = {
   price_cents: number;
   currency: string;
   is_active: boolean;
+  /** Units left to order; null when the shop does not track stock for the item */
+  available_quantity: number | null;
+  /** price_cents is per piece, kg or litre */
+  unit_type: UnitType;
+  quantity_step: number;
+  min_quantity: number;
+  /** Option group name for the variant picker, e.g. "Pack size" */
+  variant_label: string | null;
+  /** Active variants in display order; empty when the item has a single price */
+  variants: ShopItemVariant[];
   categories: string[];
 };
 
+/** One upcoming occurrence of a shop's delivery slot */
+export type DeliverySlotOccurrence = {
+  slot_id: string;
+  starts_at: string;
+  ends_at: string;
+  max_orders: number;
+  booked_orders: number;
+  is_full: boolean;
+};
+
 type ServiceResult<T> = { data: T | null; error: PostgrestError | null };
 
 /**
@@ -350,6 +377,8 @@ export async function fetchShopDetails(shopId: string): Promise<ServiceResult<Sh
         beyondTierDistanceUnit: Number(deliveryData.beyond_tier_distance_unit || 250),
         freeDeliveryThreshold: Number(deliveryData.free_delivery_threshold || 800),
         freeDeliveryRadius: Number(deliveryData.free_delivery_radius || 1000),
+        scheduledLeadMinutes: Number(deliveryData.scheduled_lead_minutes ?? 60),
+        pickupEnabled: Boolean(deliveryData.pickup_enabled),
         createdAt: deliveryData.created_at,
         updatedAt: deliveryData.updated_at,
       };
@@ -408,6 +437,87 @@ export async function fetchShopCategories(shopId: string): Promise<ServiceResult
   }
 }
 
+/**
+ * Fetch upcoming delivery slot occurrences for a shop, including full ones
+ */
+export async function fetchDeliverySlotAvailability(
+  shopId: string,
+  days: number = 7
+): Promise<ServiceResult<DeliverySlotOccurrence[]>> {
+  try {
+    const { data, error } = await supabase.rpc('get_delivery_slot_availability', {
+      p_shop_id: shopId,
+      p_days: days,
+    } as any);
+
+    if (error) {
+      console.error('Error fetching delivery slots:', error);
+      return { data: null, error };
+    }
+
+    const slots: DeliverySlotOccurrence[] = ((data as any[]) || []).map((row: any) => ({
+      slot_id: row.slot_id,
+      starts_at: row.starts_at,
+      ends_at: row.ends_at,
+      max_orders: Number(row.max_orders),
+      booked_orders: Number(row.booked_orders),
+      is_full: Number(row.booked_orders) >= Number(row.max_orders),
+    }));
+
+    return { data: slots, error: null };
+  } catch (error: any) {
+    console.error('Exception fetching delivery slots:', error);
+    return { data: null, error: error as PostgrestError };
+  }
+}
+
+const SHOP_ITEM_COLUMNS = `
+  id,
+  name,
+  description,
+  image_url,
+  template_id,
+  price_cents,
+  currency,
+  is_active,
+  available_quantity,
+  unit_type,
+  quantity_step,
+  min_quantity,
+  variant_label,
+  item_templates!left(image_url),
+  merchant_item_variants(id, name, price_cents, sort_order, is_active)
+`;
+
+function mapShopItemRow(row: any, categories: string[]): ShopItem {
+  // Handle template image fallback (template can be object or array)
+  const templateData = row.item_templates;
+  const templateImageUrl = Array.isArray(templateData)
+    ? templateData[0]?.image_url
+    : templateData?.image_url;
+  const finalImageUrl = row.image_url || templateImageUrl || null;
+
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    image_url: finalImageUrl,
+    price_cents: row.price_cents,
+    currency: row.currency,
+    is_active: row.is_active,
+    available_quantity: row.available_quantity ?? null,
+    unit_type: row.unit_type ?? 'piece',
+    quantity_step: row.quantity_step ?? 1,
+    min_quantity: row.min_quantity ?? 1,
+    variant_label: row.variant_label ?? null,
+    variants: (row.merchant_item_variants ?? [])
+      .filter((variant: any) => variant.is_active)
+      .sort((a: any, b: any) => a.sort_order - b.sort_order)
+      .map((variant: any) => ({ id: variant.id, name: variant.name, price_cents: variant.price_cents })),
+    categories,
+  };
+}
+
 /**
  * Fetch items for a shop, optionally filtered by category
  * Optimized for performance with efficient queries and limits
@@ -422,17 +532,7 @@ export async function fetchShopItems(
     // First, get items with basic info and template fallback
     let query = supabase
       .from('merchant_items')
-      .select(`
-        id,
-        name,
-        description,
-        image_url,
-        template_id,
-        price_cents,
-        currency,
-        is_active,
-        item_templates!left(image_url)
-      `)
+      .select(SHOP_ITEM_COLUMNS)
       .eq('shop_id', shopId)
       .eq('is_active', true);
 
@@ -497,25 +597,7 @@ export async function fetchShopItems(
     }
 
     // Process items efficiently (single pass)
-    const items: ShopItem[] = data.map((row: any) => {
-      // Handle template image fallback (template can be object or array)
-      const templateData = row.item_templates;
-      const templateImageUrl = Array.isArray(templateData) 
-        ? templateData[0]?.image_url 
-        : templateData?.image_url;
-      const finalImageUrl = row.image_url || templateImageUrl || null;
-      
-      return {
-        id: row.id,
-        name: row.name,
-        description: row.description,
-        image_url: finalImageUrl,
-        price_cents: row.price_cents,
-        currency: row.currency,
-        is_active: row.is_active,
-        categories: categoryMap.get(row.id) || [],
-      };
-    });
+    const items: ShopItem[] = data.map((row: any) => mapShopItemRow(row, categoryMap.get(row.id) || []));
 
     return { data: items, error: null };
   } catch (error: any) {
@@ -524,3 +606,32 @@ export async function fetchShopItems(
   }
 }
 
+/**
+ * Fetch the current state of specific items of a shop. Items that were
+ * deactivated or deleted are simply missing from the result.
+ */
+export async function fetchShopItemsByIds(shopId: string, itemIds: string[]): Promise<ServiceResult<ShopItem[]>> {
+  if (itemIds.length === 0) {
+    return { data: [], error: null };
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('merchant_items')
+      .select(SHOP_ITEM_COLUMNS)
+      .eq('shop_id', shopId)
+      .eq('is_active', true)
+      .in('id', itemIds);
+
+    if (error) {
+      console.error('Error fetching shop items by id:', error);
+      return { data: null, error };
+    }
+
+    return { data: (data || []).map((row: any) => mapShopItemRow(row, [])), error: null };
+  } catch (error: any) {
+    console.error('Exception fetching shop items by id:', error);
+    return { data: null, error: error as PostgrestError };
+  }
+}
+
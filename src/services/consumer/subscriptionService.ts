@@ -0,0 +1,114 @@
+import { supabase } from '../supabase';
+import type {
+  CreateSubscriptionInput,
+  OrderSubscription,
+  OrderSubscriptionWithShop,
+  UpdateSubscriptionInput,
+} from '../../types/subscriptions';
+
+const TABLE = 'order_subscriptions';
+
+/** Readable messages for the error codes a failed run leaves in last_error */
+export const SUBSCRIPTION_RUN_ERRORS: Record<string, string> = {
+  MISSED: 'This delivery was missed.',
+  SHOP_CLOSED: 'The shop was closed.',
+  INSUFFICIENT_STOCK: 'Some items were out of stock.',
+  ITEM_UNAVAILABLE: 'Some items are no longer available.',
+  ITEM_NOT_FOUND: 'Some items are no longer sold by this shop.',
+  VARIANT_UNAVAILABLE: 'A selected option is no longer available.',
+  ADDRESS_NOT_FOUND: 'The delivery address was removed.',
+  ADDRESS_INVALID: 'The delivery address is incomplete.',
+};
+
+/**
+ * Get all subscriptions of the current user, newest first
+ */
+export async function getUserSubscriptions(): Promise<{ data: OrderSubscriptionWithShop[] | null; error: Error | null }> {
+  try {
+    const { data, error } = await supabase
+      .from(TABLE)
+      .select('*, shop:shops(id, name, image_url)')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    return { data: (data || []) as unknown as OrderSubscriptionWithShop[], error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error('Failed to fetch subscriptions') };
+  }
+}
+
+/**
+ * Create a subscription for the current user. The first delivery is scheduled by the database.
+ */
+export async function createSubscription(
+  input: CreateSubscriptionInput
+): Promise<{ data: OrderSubscription | null; error: Error | null }> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return { data: null, error: new Error('User not authenticated') };
+    }
+
+    if (input.items.length === 0) {
+      return { data: null, error: new Error('A subscription needs at least one item.') };
+    }
+
+    if (input.recurrence === 'weekly' && (input.days_of_week ?? []).length === 0) {
+      return { data: null, error: new Error('Choose at least one day for a weekly subscription.') };
+    }
+
+    const { data, error } = await (supabase as any)
+      .from(TABLE)
+      .insert({
+        user_id: user.id,
+        shop_id: input.shop_id,
+        consumer_address_id: input.consumer_address_id,
+        items: input.items,
+        payment_method: input.payment_method ?? 'cash',
+        special_instructions: input.special_instructions || null,
+        recurrence: input.recurrence,
+        days_of_week: input.recurrence === 'weekly' ? input.days_of_week : [],
+        delivery_time: input.delivery_time,
+        starts_on: input.starts_on,
+        ends_on: input.ends_on || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    return { data: data as OrderSubscription, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error('Failed to create subscription') };
+  }
+}
+
+/**
+ * Update the schedule or status of a subscription (pause, resume, cancel, skip dates, end date)
+ */
+export async function updateSubscription(
+  subscriptionId: string,
+  input: UpdateSubscriptionInput
+): Promise<{ data: OrderSubscription | null; error: Error | null }> {
+  try {
+    const { data, error } = await (supabase as any)
+      .from(TABLE)
+      .update(input)
+      .eq('id', subscriptionId)
+      .select()
+      .single();
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    return { data: data as OrderSubscription, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error('Failed to update subscription') };
+  }
+}
@@ -0,0 +1,60 @@
+import { supabase } from '../supabase';
+import type { WalletTransaction, WalletTransactionType } from '../../types/wallet';
+
+export const WALLET_TRANSACTION_LABELS: Record<WalletTransactionType, string> = {
+  order_payment: 'Paid for an order',
+  order_cancelled: 'Order cancelled',
+  order_adjustment: 'Order adjustment',
+  refund: 'Refund',
+  goodwill: 'Goodwill credit',
+  promotion: 'Promotion',
+};
+
+/**
+ * Store-credit balance of the current user; users without a wallet yet have 0
+ */
+export async function getWalletBalance(): Promise<{ data: number | null; error: Error | null }> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return { data: null, error: new Error('User not authenticated') };
+    }
+
+    const { data, error } = await supabase
+      .from('consumer_wallets')
+      .select('balance_cents')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    return { data: Number((data as { balance_cents: number } | null)?.balance_cents ?? 0), error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error('Failed to fetch wallet balance') };
+  }
+}
+
+/**
+ * Wallet transactions of the current user, newest first
+ */
+export async function getWalletTransactions(
+  limit: number = 50
+): Promise<{ data: WalletTransaction[] | null; error: Error | null }> {
+  try {
+    const { data, error } = await supabase
+      .from('wallet_transactions')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    return { data: (data || []) as unknown as WalletTransaction[], error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error('Failed to fetch wallet history') };
+  }
+}
@@ -4,6 +4,11 @@ import { supabase } from '../supabase';
 
 type ServiceResult<T> = { data: T | null; error: PostgrestError | null };
 
+type OrderRow = { id: string; total_cents: number | null; refunded_cents: number | null; status: string; created_at: string };
+
+// Approved refunds count against the revenue of the order they came from
+const orderRevenueCents = (order: OrderRow) => (order.total_cents || 0) - (order.refunded_cents || 0);
+
 export type DailyRevenue = {
   date: string;
   revenue: number;
@@ -43,7 +48,7 @@ export async function getShopAnalytics(shopId: string): Promise<ServiceResult<An
     // Get all orders for these shops
     const { data: orders, error: ordersError } = await supabase
       .from('orders')
-      .select('id, total_cents, status, created_at')
+      .select('id, total_cents, refunded_cents, status, created_at')
       .in('shop_id', shopIds)
       .order('created_at', { ascending: false });
 
@@ -90,7 +95,6 @@ export async function getShopAnalytics(shopId: string): Promise<ServiceResult<An
     }
 
     // Type assertion for orders array
-    type OrderRow = { id: string; total_cents: number | null; status: string; created_at: string };
     const typedOrders = (orders || []) as OrderRow[];
 
     const now = new Date();
@@ -100,7 +104,7 @@ export async function getShopAnalytics(shopId: string): Promise<ServiceResult<An
     const lastMonthEnd = new Date(now.getFullYear(), now.getMonth(), 0);
 
     // Calculate totals
-    const totalRevenue = typedOrders.reduce((sum, order) => sum + (order.total_cents || 0), 0) / 100;
+    const totalRevenue = typedOrders.reduce((sum, order) => sum + orderRevenueCents(order), 0) / 100;
     const totalOrders = typedOrders.length;
 
     // Today's stats
@@ -108,21 +112,21 @@ export async function getShopAnalytics(shopId: string): Promise<ServiceResult<An
       const orderDate = new Date(order.created_at);
       return orderDate >= today;
     });
-    const todayRevenue = todayOrders.reduce((sum, order) => sum + (order.total_cents || 0), 0) / 100;
+    const todayRevenue = todayOrders.reduce((sum, order) => sum + orderRevenueCents(order), 0) / 100;
 
     // This month's stats
     const thisMonthOrders = typedOrders.filter((order) => {
       const orderDate = new Date(order.created_at);
       return orderDate >= thisMonthStart;
     });
-    const thisMonthRevenue = thisMonthOrders.reduce((sum, order) => sum + (order.total_cents || 0), 0) / 100;
+    const thisMonthRevenue = thisMonthOrders.reduce((sum, order) => sum + orderRevenueCents(order), 0) / 100;
 
     // Last month's stats
     const lastMonthOrders = typedOrders.filter((order) => {
       const orderDate = new Date(order.created_at);
       return orderDate >= lastMonthStart && orderDate <= lastMonthEnd;
     });
-    const lastMonthRevenue = lastMonthOrders.reduce((sum, order) => sum + (order.total_cents || 0), 0) / 100;
+    const lastMonthRevenue = lastMonthOrders.reduce((sum, order) => sum + orderRevenueCents(order), 0) / 100;
 
     // Daily revenue (last 30 days)
     const dailyRevenueMap = new Map<string, { revenue: number; count: number }>();
@@ -138,7 +142,7 @@ export async function getShopAnalytics(shopId: string): Promise<ServiceResult<An
         const dateKey = new Date(order.created_at).toISOString().split('T')[0];
         const existing = dailyRevenueMap.get(dateKey) || { revenue: 0, count: 0 };
         dailyRevenueMap.set(dateKey, {
-          revenue: existing.revenue + ((order.total_cents || 0) / 100),
+          revenue: existing.revenue + (orderRevenueCents(order) / 100),
           count: existing.count + 1,
         });
       });
@@ -166,7 +170,7 @@ export async function getShopAnalytics(shopId: string): Promise<ServiceResult<An
         const monthKey = `${orderDate.getFullYear()}-${String(orderDate.getMonth() + 1).padStart(2, '0')}`;
         const existing = monthlyRevenueMap.get(monthKey) || { revenue: 0, count: 0 };
         monthlyRevenueMap.set(monthKey, {
-          revenue: existing.revenue + ((order.total_cents || 0) / 100),
+          revenue: existing.revenue + (orderRevenueCents(order) / 100),
           count: existing.count + 1,
         });
       });
@@ -252,7 +256,7 @@ export async function getMerchantAnalytics(merchantId: string): Promise<ServiceR
     // Get all orders for these shops
     const { data: orders, error: ordersError } = await supabase
       .from('orders')
-      .select('id, total_cents, status, created_at')
+      .select('id, total_cents, refunded_cents, status, created_at')
       .in('shop_id', shopIds)
       .order('created_at', { ascending: false });
 
@@ -299,7 +303,6 @@ export async function getMerchantAnalytics(merchantId: string): Promise<ServiceR
     }
 
     // Type assertion for orders array
-    type OrderRow = { id: string; total_cents: number | null; status: string; created_at: string };
     const typedOrders = (orders || []) as OrderRow[];
 
     const now = new Date();
@@ -309,7 +312,7 @@ export async function getMerchantAnalytics(merchantId: string): Promise<ServiceR
     const lastMonthEnd = new Date(now.getFullYear(), now.getMonth(), 0);
 
     // Calculate totals (convert cents to rupees)
-    const totalRevenue = typedOrders.reduce((sum, order) => sum + (order.total_cents || 0), 0) / 100;
+    const totalRevenue = typedOrders.reduce((sum, order) => sum + orderRevenueCents(order), 0) / 100;
     const totalOrders = typedOrders.length;
 
     // Today's stats
@@ -317,21 +320,21 @@ export async function getMerchantAnalytics(merchantId: string): Promise<ServiceR
       const orderDate = new Date(order.created_at);
       return orderDate >= today;
     });
-    const todayRevenue = todayOrders.reduce((sum, order) => sum + (order.total_cents || 0), 0) / 100;
+    const todayRevenue = todayOrders.reduce((sum, order) => sum + orderRevenueCents(order), 0) / 100;
 
     // This month's stats
     const thisMonthOrders = typedOrders.filter((order) => {
       const orderDate = new Date(order.created_at);
       return orderDate >= thisMonthStart;
     });
-    const thisMonthRevenue = thisMonthOrders.reduce((sum, order) => sum + (order.total_cents || 0), 0) / 100;
+    const thisMonthRevenue = thisMonthOrders.reduce((sum, order) => sum + orderRevenueCents(order), 0) / 100;
 
     // Last month's stats
     const lastMonthOrders = typedOrders.filter((order) => {
       const orderDate = new Date(order.created_at);
       return orderDate >= lastMonthStart && orderDate <= lastMonthEnd;
     });
-    const lastMonthRevenue = lastMonthOrders.reduce((sum, order) => sum + (order.total_cents || 0), 0) / 100;
+    const lastMonthRevenue = lastMonthOrders.reduce((sum, order) => sum + orderRevenueCents(order), 0) / 100;
 
     // Daily revenue (last 30 days)
     const dailyRevenueMap = new Map<string, { revenue: number; count: number }>();
@@ -347,7 +350,7 @@ export async function getMerchantAnalytics(merchantId: string): Promise<ServiceR
         const dateKey = new Date(order.created_at).toISOString().split('T')[0];
         const existing = dailyRevenueMap.get(dateKey) || { revenue: 0, count: 0 };
         dailyRevenueMap.set(dateKey, {
-          revenue: existing.revenue + ((order.total_cents || 0) / 100),
+          revenue: existing.revenue + (orderRevenueCents(order) / 100),
           count: existing.count + 1,
         });
       });
@@ -375,7 +378,7 @@ export async function getMerchantAnalytics(merchantId: string): Promise<ServiceR
         const monthKey = `${orderDate.getFullYear()}-${String(orderDate.getMonth() + 1).padStart(2, '0')}`;
         const existing = monthlyRevenueMap.get(monthKey) || { revenue: 0, count: 0 };
         monthlyRevenueMap.set(monthKey, {
-          revenue: existing.revenue + ((order.total_cents || 0) / 100),
+          revenue: existing.revenue + (orderRevenueCents(order) / 100),
           count: existing.count + 1,
         });
       });
@@ -30,6 +30,10 @@ export type DeliveryLogic = {
   // Free Delivery Discount Layer
   freeDeliveryThreshold: number;
   freeDeliveryRadius: number;
+  // Scheduled orders surface this many minutes before their slot
+  scheduledLeadMinutes: number;
+  // Customers may collect orders themselves, without a delivery fee
+  pickupEnabled: boolean;
   createdAt: string;
   updatedAt: string;
 };
@@ -45,6 +49,8 @@ export type DeliveryLogicPayload = {
   beyondTierDistanceUnit?: number;
   freeDeliveryThreshold?: number;
   freeDeliveryRadius?: number;
+  scheduledLeadMinutes?: number;
+  pickupEnabled?: boolean;
 };
 
 const DEFAULT_DISTANCE_TIERS: DistanceTier[] = [
@@ -63,12 +69,14 @@ function mapRow(row: any): DeliveryLogic {
     smallOrderSurcharge: Number(row.small_order_surcharge),
     leastOrderValue: Number(row.least_order_value),
     distanceMode: row.distance_mode || 'auto',
-    maxDeliveryFee: Number(row.max_delivery_fee || 130),
-    distanceTiers: row.distance_tiers || DEFAULT_DISTANCE_TIERS,
-    beyondTierFeePerUnit: Number(row.beyond_tier_fee_per_unit || 10),
-    beyondTierDistanceUnit: Number(row.beyond_tier_distance_unit || 250),
-    freeDeliveryThreshold: Number(row.free_delivery_threshold || 800),
-    freeDeliveryRadius: Number(row.free_delivery_radius || 1000),
+    maxDeliveryFee: Number(row.max_delivery_fee ?? 130),
+    distanceTiers: row.distance_tiers ?? DEFAULT_DISTANCE_TIERS,
+    beyondTierFeePerUnit: Number(row.beyond_tier_fee_per_unit ?? 10),
+    beyondTierDistanceUnit: Number(row.beyond_tier_distance_unit ?? 250),
+    freeDeliveryThreshold: Number(row.free_delivery_threshold ?? 800),
+    freeDeliveryRadius: Number(row.free_delivery_radius ?? 1000),
+    scheduledLeadMinutes: Number(row.scheduled_lead_minutes ?? 60),
+    pickupEnabled: Boolean(row.pickup_enabled),
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
@@ -116,6 +124,8 @@ export async function createDeliveryLogic(
   if (payload.beyondTierDistanceUnit !== undefined) insertData.beyond_tier_distance_unit = payload.beyondTierDistanceUnit;
   if (payload.freeDeliveryThreshold !== undefined) insertData.free_delivery_threshold = payload.freeDeliveryThreshold;
   if (payload.freeDeliveryRadius !== undefined) insertData.free_delivery_radius = payload.freeDeliveryRadius;
+  if (payload.scheduledLeadMinutes !== undefined) insertData.scheduled_lead_minutes = payload.scheduledLeadMinutes;
+  if (payload.pickupEnabled !== undefined) insertData.pickup_enabled = payload.pickupEnabled;
 
   const { data, error } = await supabase
     .from(TABLE)
@@ -151,6 +161,8 @@ export async function updateDeliveryLogic(
   if (payload.beyondTierDistanceUnit !== undefined) updateData.beyond_tier_distance_unit = payload.beyondTierDistanceUnit;
   if (payload.freeDeliveryThreshold !== undefined) updateData.free_delivery_threshold = payload.freeDeliveryThreshold;
   if (payload.freeDeliveryRadius !== undefined) updateData.free_delivery_radius = payload.freeDeliveryRadius;
+  if (payload.scheduledLeadMinutes !== undefined) updateData.scheduled_lead_minutes = payload.scheduledLeadMinutes;
+  if (payload.pickupEnabled !== undefined) updateData.pickup_enabled = payload.pickupEnabled;
 
   const { data, error } = await (supabase as any)
     .from(TABLE)
@@ -191,14 +203,6 @@ export async function saveDeliveryLogic(
   return createDeliveryLogic(shopId, payload);
 }
 
-// Helper function to calculate order surcharge based on order value
-export function calculateOrderSurcharge(orderValue: number, logic: DeliveryLogic): number {
-  if (orderValue < logic.minimumOrderValue) {
-    return logic.smallOrderSurcharge;
-  }
-  return 0;
-}
-
 // Helper function to validate if order meets minimum requirements
 export function validateOrderValue(orderValue: number, logic: DeliveryLogic): {
   valid: boolean;
@@ -233,92 +237,3 @@ export function calculateDistance(
 
   return R * c; // Distance in meters
 }
-
-// Helper function to calculate delivery fee based on distance
-export function calculateDeliveryFee(
-  distanceInMeters: number,
-  logic: DeliveryLogic
-): number {
-  const tiers = logic.distanceTiers.sort((a, b) => a.max_distance - b.max_distance);
-  
-  // Find matching tier
-  for (const tier of tiers) {
-    if (distanceInMeters <= tier.max_distance) {
-      return Math.min(tier.fee, logic.maxDeliveryFee);
-    }
-  }
-
-  // Beyond all tiers - calculate extra fee
-  const lastTier = tiers[tiers.length - 1];
-  const extraDistance = distanceInMeters - lastTier.max_distance;
-  const extraUnits = Math.ceil(extraDistance / logic.beyondTierDistanceUnit);
-  const totalFee = lastTier.fee + (extraUnits * logic.beyondTierFeePerUnit);
-
-  return Math.min(totalFee, logic.maxDeliveryFee);
-}
-
-// Helper function to check if order qualifies for free delivery
-export function checkFreeDelivery(
-  orderValue: number,
-  distanceInMeters: number,
-  logic: DeliveryLogic
-): boolean {
-  return (
-    orderValue >= logic.freeDeliveryThreshold &&
-    distanceInMeters <= logic.freeDeliveryRadius
-  );
-}
-
-// Complete delivery fee calculation with all layers applied
-export function calculateTotalDeliveryFee(
-  orderValue: number,
-  distanceInMeters: number,
-  logic: DeliveryLogic
-): {
-  baseFee: number;
-  surcharge: number;
-  freeDeliveryApplied: boolean;
-  finalFee: number;
-  outOfZone: boolean;
-} {
-  const tiers: DistanceTier[] = logic.distanceTiers ?? [];
-  let maxTierDistance: number | null = null;
-  if (tiers.length > 0) {
-    let runningMax = 0;
-    for (const tier of tiers) {
-      if (tier.max_distance > runningMax) {
-        runningMax = tier.max_distance;
-      }
-    }
-    maxTierDistance = runningMax;
-  }
-  const outOfZone = maxTierDistance != null ? distanceInMeters > maxTierDistance : false;
-
-  // Check free delivery first
-  const freeDeliveryApplied = checkFreeDelivery(orderValue, distanceInMeters, logic);
-  
-  if (freeDeliveryApplied) {
-    return {
-      baseFee: 0,
-      surcharge: 0,
-      freeDeliveryApplied: true,
-      finalFee: 0,
-      outOfZone,
-    };
-  }
-
-  // Calculate base delivery fee from distance
-  const baseFee = calculateDeliveryFee(distanceInMeters, logic);
-
-  // Calculate order value surcharge
-  const surcharge = calculateOrderSurcharge(orderValue, logic);
-
-  return {
-    baseFee,
-    surcharge,
-    freeDeliveryApplied: false,
-    finalFee: baseFee + surcharge,
-    outOfZone,
-  };
-}
-
@@ -41,6 +41,7 @@ export async function fetchDeliveryRunners(shopId: string): Promise<ServiceResul
     .from(TABLE)
     .select('id, shop_id, name, phone_number, created_at, updated_at')
     .eq('shop_id', shopId)
+    .is('archived_at', null)
     .order('created_at', { ascending: true });
 
   if (error) {
@@ -100,10 +101,17 @@ export async function updateDeliveryRunner(
   return { data: mapRow(data), error: null };
 }
 
+/**
+ * Removes a runner from the shop. The row is archived rather than deleted so
+ * the runner's cash ledger and shifts stay intact.
+ */
 export async function deleteDeliveryRunner(runnerId: string): Promise<ServiceResult<null>> {
   log.debug('deleteDeliveryRunner', { runnerId });
 
-  const { error } = await supabase.from(TABLE).delete().eq('id', runnerId);
+  const { error } = await supabase
+    .from(TABLE)
+    .update({ archived_at: new Date().toISOString() })
+    .eq('id', runnerId);
 
   if (error) {
     log.error('Failed to delete delivery runner', error);
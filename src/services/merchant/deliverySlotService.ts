@@ -0,0 +1,132 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+
+import { loogin } from '../../lib/loogin';
+import { supabase } from '../supabase';
+
+const log = loogin.scope('deliverySlotService');
+
+type ServiceResult<T> = { data: T | null; error: PostgrestError | null };
+
+const TABLE = 'shop_delivery_slots';
+
+export type DeliverySlot = {
+  id: string;
+  shopId: string;
+  // 0 = Sunday ... 6 = Saturday
+  dayOfWeek: number;
+  // "HH:MM" in the shop's timezone
+  startTime: string;
+  endTime: string;
+  maxOrders: number;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type DeliverySlotPayload = {
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+  maxOrders: number;
+  isActive?: boolean;
+};
+
+function mapRow(row: any): DeliverySlot {
+  return {
+    id: row.id,
+    shopId: row.shop_id,
+    dayOfWeek: Number(row.day_of_week),
+    startTime: String(row.start_time).slice(0, 5),
+    endTime: String(row.end_time).slice(0, 5),
+    maxOrders: Number(row.max_orders),
+    isActive: Boolean(row.is_active),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toRow(payload: DeliverySlotPayload) {
+  return {
+    day_of_week: payload.dayOfWeek,
+    start_time: payload.startTime,
+    end_time: payload.endTime,
+    max_orders: payload.maxOrders,
+    is_active: payload.isActive ?? true,
+  };
+}
+
+export async function fetchDeliverySlots(shopId: string): Promise<ServiceResult<DeliverySlot[]>> {
+  log.debug('fetchDeliverySlots', { shopId });
+
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select('*')
+    .eq('shop_id', shopId)
+    .order('day_of_week', { ascending: true })
+    .order('start_time', { ascending: true });
+
+  if (error) {
+    log.error('Failed to fetch delivery slots', error);
+    return { data: null, error };
+  }
+
+  return { data: (data ?? []).map(mapRow), error: null };
+}
+
+export async function createDeliverySlot(
+  shopId: string,
+  payload: DeliverySlotPayload
+): Promise<ServiceResult<DeliverySlot>> {
+  log.debug('createDeliverySlot', { shopId, payload });
+
+  const { data, error } = await (supabase as any)
+    .from(TABLE)
+    .insert({ shop_id: shopId, ...toRow(payload) })
+    .select('*')
+    .single();
+
+  if (error) {
+    log.error('Failed to create delivery slot', error);
+    return { data: null, error };
+  }
+
+  return { data: mapRow(data), error: null };
+}
+
+export async function updateDeliverySlot(
+  slotId: string,
+  payload: DeliverySlotPayload
+): Promise<ServiceResult<DeliverySlot>> {
+  log.debug('updateDeliverySlot', { slotId, payload });
+
+  const { data, error } = await (supabase as any)
+    .from(TABLE)
+    .update(toRow(payload))
+    .eq('id', slotId)
+    .select('*')
+    .single();
+
+  if (error) {
+    log.error('Failed to update delivery slot', error);
+    return { data: null, error };
+  }
+
+  return { data: mapRow(data), error: null };
+}
+
+// Orders already booked into a deleted slot keep their scheduled_for time
+export async function deleteDeliverySlot(slotId: string): Promise<ServiceResult<null>> {
+  log.debug('deleteDeliverySlot', { slotId });
+
+  const { error } = await supabase
+    .from(TABLE)
+    .delete()
+    .eq('id', slotId);
+
+  if (error) {
+    log.error('Failed to delete delivery slot', error);
+    return { data: null, error };
+  }
+
+  return { data: null, error: null };
+}
@@ -0,0 +1,445 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+import { loogin } from '../../lib/loogin';
+import { supabase } from '../supabase';
+import type {
+  InventoryImportChange,
+  InventoryImportColumnMapping,
+  InventoryImportField,
+  InventoryImportPlan,
+  InventoryImportRowError,
+} from '../../types/inventory';
+import { splitCsvCategories } from '../../utils/inventoryCsv';
+
+const log = loogin.scope('inventoryImportService');
+
+type ServiceResult<T> = { data: T | null; error: PostgrestError | null };
+
+const PAGE_SIZE = 1000;
+const LOOKUP_CHUNK_SIZE = 200;
+
+export const IMPORT_FIELDS: InventoryImportField[] = ['name', 'sku', 'barcode', 'price', 'category', 'active'];
+
+const FIELD_ALIASES: Record<InventoryImportField, string[]> = {
+  name: ['name', 'item name', 'product', 'product name', 'title'],
+  sku: ['sku', 'item code', 'code', 'product code'],
+  barcode: ['barcode', 'ean', 'upc', 'gtin'],
+  price: ['price', 'unit price', 'sale price', 'retail price'],
+  category: ['category', 'categories', 'department'],
+  active: ['active', 'is active', 'status', 'enabled'],
+};
+
+const TRUE_VALUES = new Set(['1', 'true', 'yes', 'y', 'active', 'enabled']);
+const FALSE_VALUES = new Set(['0', 'false', 'no', 'n', 'inactive', 'disabled']);
+
+type ExistingItem = {
+  id: string;
+  sku: string;
+  name: string | null;
+  barcode: string | null;
+  priceCents: number;
+  isActive: boolean;
+  categoryNames: string[];
+};
+
+type TemplateMatch = {
+  id: string;
+  name: string;
+  barcode: string | null;
+  normalizedName: string;
+};
+
+type ParsedRow = {
+  rowNumber: number;
+  name: string | null;
+  sku: string;
+  barcode: string | null;
+  priceCents: number | null;
+  isActive: boolean | null;
+  categoryNames: string[] | null;
+};
+
+/**
+ * Mirrors item_templates.match_key (not the stricter name_normalized) so
+ * client and database agree on which uploaded names match a catalog template.
+ */
+export function normalizeItemName(value: string) {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+export function suggestImportColumnMapping(headers: string[]): InventoryImportColumnMapping {
+  const mapping: InventoryImportColumnMapping = {};
+  const normalizedHeaders = headers.map((header) => normalizeItemName(header));
+
+  IMPORT_FIELDS.forEach((field) => {
+    const index = normalizedHeaders.findIndex((header) => FIELD_ALIASES[field].includes(header));
+    if (index !== -1) {
+      mapping[field] = index;
+    }
+  });
+
+  return mapping;
+}
+
+function readCell(row: string[], index: number | undefined) {
+  if (index === undefined) {
+    return null;
+  }
+  const value = (row[index] ?? '').trim();
+  return value.length > 0 ? value : null;
+}
+
+function parsePriceCents(value: string) {
+  const numeric = Number(value.replace(/[^0-9.-]/g, ''));
+  if (!Number.isFinite(numeric) || numeric < 0 || value.replace(/[^0-9]/g, '').length === 0) {
+    return null;
+  }
+  return Math.round(numeric * 100);
+}
+
+function parseRows(rows: string[][], mapping: InventoryImportColumnMapping) {
+  const parsed: ParsedRow[] = [];
+  const errors: InventoryImportRowError[] = [];
+  const seenSkus = new Map<string, number>();
+
+  rows.forEach((row, index) => {
+    // Row 1 is the header, so data rows start at 2 like they do in a spreadsheet
+    const rowNumber = index + 2;
+
+    if (row.every((cell) => (cell ?? '').trim() === '')) {
+      return;
+    }
+
+    const sku = readCell(row, mapping.sku);
+    if (!sku) {
+      errors.push({ rowNumber, sku: null, message: 'SKU is required' });
+      return;
+    }
+
+    const duplicateOf = seenSkus.get(sku.toLowerCase());
+    if (duplicateOf !== undefined) {
+      errors.push({ rowNumber, sku, message: `Duplicate SKU (first seen on row ${duplicateOf})` });
+      return;
+    }
+    seenSkus.set(sku.toLowerCase(), rowNumber);
+
+    const rawPrice = readCell(row, mapping.price);
+    const priceCents = rawPrice ? parsePriceCents(rawPrice) : null;
+    if (rawPrice && priceCents === null) {
+      errors.push({ rowNumber, sku, message: `Invalid price "${rawPrice}"` });
+      return;
+    }
+
+    const rawActive = readCell(row, mapping.active);
+    let isActive: boolean | null = null;
+    if (rawActive) {
+      const normalized = rawActive.toLowerCase();
+      if (TRUE_VALUES.has(normalized)) {
+        isActive = true;
+      } else if (FALSE_VALUES.has(normalized)) {
+        isActive = false;
+      } else {
+        errors.push({ rowNumber, sku, message: `Invalid active value "${rawActive}" (use yes or no)` });
+        return;
+      }
+    }
+
+    const rawCategories = readCell(row, mapping.category);
+
+    parsed.push({
+      rowNumber,
+      name: readCell(row, mapping.name),
+      sku,
+      barcode: readCell(row, mapping.barcode),
+      priceCents,
+      isActive,
+      categoryNames: rawCategories ? splitCsvCategories(rawCategories) : null,
+    });
+  });
+
+  return { parsed, errors };
+}
+
+function chunk<T>(values: T[], size: number) {
+  const chunks: T[][] = [];
+  for (let index = 0; index < values.length; index += size) {
+    chunks.push(values.slice(index, index + size));
+  }
+  return chunks;
+}
+
+async function fetchExistingItems(shopId: string): Promise<ServiceResult<ExistingItem[]>> {
+  const items: ExistingItem[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('merchant_item_view')
+      .select('id, sku, name, barcode, price_cents, is_active, categories')
+      .eq('shop_id', shopId)
+      .not('sku', 'is', null)
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      log.error('Failed to load existing items for import', error);
+      return { data: null, error };
+    }
+
+    (data ?? []).forEach((row: any) => {
+      items.push({
+        id: row.id,
+        sku: row.sku,
+        name: row.name ?? null,
+        barcode: row.barcode ?? null,
+        priceCents: row.price_cents ?? 0,
+        isActive: row.is_active ?? true,
+        categoryNames: (row.categories ?? []).map((category: any) => category.name as string),
+      });
+    });
+
+    if (!data || data.length < PAGE_SIZE) {
+      break;
+    }
+  }
+
+  return { data: items, error: null };
+}
+
+async function fetchTemplateMatches(
+  barcodes: string[],
+  normalizedNames: string[]
+): Promise<ServiceResult<TemplateMatch[]>> {
+  const matches: TemplateMatch[] = [];
+  const lookups: Array<{ column: 'barcode' | 'match_key'; values: string[] }> = [
+    ...chunk(barcodes, LOOKUP_CHUNK_SIZE).map((values) => ({ column: 'barcode' as const, values })),
+    ...chunk(normalizedNames, LOOKUP_CHUNK_SIZE).map((values) => ({ column: 'match_key' as const, values })),
+  ];
+
+  for (const lookup of lookups) {
+    const { data, error } = await supabase
+      .from('item_templates')
+      .select('id, name, barcode, match_key')
+      .in(lookup.column, lookup.values);
+
+    if (error) {
+      log.error('Failed to match import rows to templates', error);
+      return { data: null, error };
+    }
+
+    (data ?? []).forEach((row: any) => {
+      matches.push({
+        id: row.id,
+        name: row.name,
+        barcode: row.barcode ?? null,
+        normalizedName: row.match_key ?? normalizeItemName(row.name ?? ''),
+      });
+    });
+  }
+
+  return { data: matches, error: null };
+}
+
+function sameCategories(current: string[], next: string[]) {
+  const normalize = (names: string[]) =>
+    Array.from(new Set(names.map((name) => name.trim().toLowerCase()))).sort().join('\n');
+  return normalize(current) === normalize(next);
+}
+
+/**
+ * Dry run: compares the uploaded rows with the shop's inventory and the
+ * template catalog without writing anything. The returned plan is what
+ * applyInventoryImportPlan() sends to the database.
+ */
+export async function buildInventoryImportPlan(
+  shopId: string,
+  rows: string[][],
+  mapping: InventoryImportColumnMapping
+): Promise<ServiceResult<InventoryImportPlan>> {
+  log.debug('buildInventoryImportPlan', { shopId, rowCount: rows.length });
+
+  const { parsed, errors } = parseRows(rows, mapping);
+
+  const existingResult = await fetchExistingItems(shopId);
+  if (existingResult.error || !existingResult.data) {
+    return { data: null, error: existingResult.error };
+  }
+  const existingBySku = new Map(existingResult.data.map((item) => [item.sku.toLowerCase(), item]));
+
+  const unmatched = parsed.filter((row) => !existingBySku.has(row.sku.toLowerCase()));
+  const barcodes = Array.from(new Set(unmatched.map((row) => row.barcode).filter((value): value is string => !!value)));
+  const normalizedNames = Array.from(
+    new Set(
+      unmatched
+        .map((row) => (row.name ? normalizeItemName(row.name) : ''))
+        .filter((value) => value.length > 0)
+    )
+  );
+
+  const templatesResult = await fetchTemplateMatches(barcodes, normalizedNames);
+  if (templatesResult.error || !templatesResult.data) {
+    return { data: null, error: templatesResult.error };
+  }
+  const templatesByBarcode = new Map<string, TemplateMatch>();
+  const templatesByName = new Map<string, TemplateMatch>();
+  templatesResult.data.forEach((template) => {
+    if (template.barcode && !templatesByBarcode.has(template.barcode)) {
+      templatesByBarcode.set(template.barcode, template);
+    }
+    if (!templatesByName.has(template.normalizedName)) {
+      templatesByName.set(template.normalizedName, template);
+    }
+  });
+
+  const plan: InventoryImportPlan = { creates: [], updates: [], unchangedCount: 0, errors };
+
+  parsed.forEach((row) => {
+    const existing = existingBySku.get(row.sku.toLowerCase());
+
+    if (existing) {
+      const changedFields: InventoryImportChange['changedFields'] = {};
+      if (row.name && row.name !== existing.name) {
+        changedFields.name = { from: existing.name, to: row.name };
+      }
+      if (row.barcode && row.barcode !== existing.barcode) {
+        changedFields.barcode = { from: existing.barcode, to: row.barcode };
+      }
+      if (row.priceCents !== null && row.priceCents !== existing.priceCents) {
+        changedFields.price_cents = { from: existing.priceCents, to: row.priceCents };
+      }
+      if (row.isActive !== null && row.isActive !== existing.isActive) {
+        changedFields.is_active = { from: existing.isActive, to: row.isActive };
+      }
+      if (row.categoryNames && !sameCategories(existing.categoryNames, row.categoryNames)) {
+        changedFields.categories = { from: existing.categoryNames, to: row.categoryNames };
+      }
+
+      if (Object.keys(changedFields).length === 0) {
+        plan.unchangedCount += 1;
+        return;
+      }
+
+      plan.updates.push({
+        rowNumber: row.rowNumber,
+        action: 'update',
+        merchantItemId: existing.id,
+        templateId: null,
+        name: row.name ?? existing.name ?? existing.sku,
+        sku: existing.sku,
+        barcode: changedFields.barcode ? row.barcode : null,
+        priceCents: changedFields.price_cents ? row.priceCents : null,
+        isActive: changedFields.is_active ? row.isActive : null,
+        categoryNames: changedFields.categories ? row.categoryNames : null,
+        changedFields,
+      });
+      return;
+    }
+
+    const template =
+      (row.barcode ? templatesByBarcode.get(row.barcode) : undefined) ??
+      (row.name ? templatesByName.get(normalizeItemName(row.name)) : undefined);
+    const name = row.name ?? template?.name ?? null;
+
+    if (!name) {
+      plan.errors.push({ rowNumber: row.rowNumber, sku: row.sku, message: 'Name is required for new items' });
+      return;
+    }
+    if (row.priceCents === null) {
+      plan.errors.push({ rowNumber: row.rowNumber, sku: row.sku, message: 'Price is required for new items' });
+      return;
+    }
+
+    const isActive = row.isActive ?? true;
+    const changedFields: InventoryImportChange['changedFields'] = {
+      name: { from: null, to: name },
+      sku: { from: null, to: row.sku },
+      price_cents: { from: null, to: row.priceCents },
+      is_active: { from: null, to: isActive },
+    };
+    if (row.barcode) {
+      changedFields.barcode = { from: null, to: row.barcode };
+    }
+    if (row.categoryNames && row.categoryNames.length > 0) {
+      changedFields.categories = { from: [], to: row.categoryNames };
+    }
+    if (template) {
+      changedFields.template_id = { from: null, to: template.id };
+    }
+
+    plan.creates.push({
+      rowNumber: row.rowNumber,
+      action: 'create',
+      merchantItemId: null,
+      templateId: template?.id ?? null,
+      name,
+      sku: row.sku,
+      barcode: row.barcode,
+      priceCents: row.priceCents,
+      isActive,
+      categoryNames: row.categoryNames,
+      changedFields,
+    });
+  });
+
+  plan.errors.sort((a, b) => a.rowNumber - b.rowNumber);
+
+  return { data: plan, error: null };
+}
+
+function toImportPayload(change: InventoryImportChange) {
+  if (change.action === 'create') {
+    return {
+      template_id: change.templateId,
+      name: change.name,
+      sku: change.sku,
+      barcode: change.barcode,
+      price_cents: change.priceCents,
+      is_active: change.isActive,
+      category_names: change.categoryNames,
+    };
+  }
+
+  const payload: Record<string, unknown> = { merchant_item_id: change.merchantItemId };
+  if (change.changedFields.name) {
+    payload.name = change.name;
+  }
+  if (change.changedFields.barcode) {
+    payload.barcode = change.barcode;
+  }
+  if (change.changedFields.price_cents) {
+    payload.price_cents = change.priceCents;
+  }
+  if (change.changedFields.is_active) {
+    payload.is_active = change.isActive;
+  }
+  if (change.changedFields.categories) {
+    payload.category_names = change.categoryNames;
+  }
+  return payload;
+}
+
+export async function applyInventoryImportPlan(
+  shopId: string,
+  plan: InventoryImportPlan
+): Promise<ServiceResult<{ createdCount: number; updatedCount: number }>> {
+  log.debug('applyInventoryImportPlan', { shopId, creates: plan.creates.length, updates: plan.updates.length });
+
+  const { data, error } = await supabase
+    .rpc('apply_inventory_import', {
+      p_shop_id: shopId,
+      p_changes: [...plan.creates, ...plan.updates].map(toImportPayload),
+    })
+    .single();
+
+  if (error) {
+    log.error('Failed to apply inventory import', error);
+    return { data: null, error };
+  }
+
+  const result = (data as { created_count?: number; updated_count?: number } | null) ?? {};
+  return {
+    data: { createdCount: result.created_count ?? 0, updatedCount: result.updated_count ?? 0 },
+    error: null,
+  };
+}
@@ -10,7 +10,9 @@ import type {
   InventoryTemplateItem,
   InventoryTemplateCategory,
   InventoryItem,
+  InventoryItemVariant,
 } from '../../types/inventory';
+import { INVENTORY_CSV_HEADERS, toCsvLine, toInventoryCsvLine } from '../../utils/inventoryCsv';
 
 const log = loogin.scope('inventoryService');
 
@@ -35,6 +37,17 @@ function mapCategory(row: any): InventoryCategory {
   };
 }
 
+function mapVariant(row: any): InventoryItemVariant {
+  return {
+    id: row.id,
+    name: row.name,
+    sku: row.sku ?? null,
+    priceCents: row.priceCents ?? row.price_cents ?? 0,
+    isActive: row.isActive ?? row.is_active ?? true,
+    sortOrder: row.sortOrder ?? row.sort_order ?? 0,
+  };
+}
+
 function mapItem(row: any): InventoryItem {
   return {
     id: row.id,
@@ -49,6 +62,21 @@ function mapItem(row: any): InventoryItem {
     currency: row.currency ?? 'PKR',
     isActive: row.is_active ?? true,
     isCustom: row.is_custom ?? false,
+    unitType: row.unit_type ?? 'piece',
+    quantityStep: row.quantity_step ?? 1,
+    minQuantity: row.min_quantity ?? 1,
+    stockQuantity: row.stock_quantity ?? null,
+    reservedQuantity: row.reserved_quantity ?? 0,
+    availableQuantity: row.available_quantity ?? null,
+    reorderThreshold: row.reorder_threshold ?? null,
+    isLowStock:
+      row.is_low_stock ??
+      (row.available_quantity != null && row.reorder_threshold != null && row.available_quantity <= row.reorder_threshold),
+    templateName: row.template_name ?? null,
+    timesSold: row.times_sold ?? 0,
+    totalRevenueCents: row.total_revenue_cents ?? 0,
+    variantLabel: row.variant_label ?? null,
+    variants: (row.variants ?? []).map(mapVariant),
     categories: (row.categories ?? []).map(mapCategory),
     createdAt: row.created_at,
     updatedAt: row.updated_at,
@@ -141,17 +169,8 @@ export async function updateInventoryCategory(
   return { data: mapCategory({ ...data, item_count: data.item_count ?? 0 }), error: null };
 }
 
-export async function fetchInventoryItems(
-  shopId: string,
-  params: InventoryListParams = {}
-): Promise<ServiceResult<InventoryListResponse>> {
-  log.debug('fetchInventoryItems', { shopId, params });
-
-  let query = supabase
-    .from('merchant_item_view')
-    .select('*')
-    .eq('shop_id', shopId)
-    .limit(params.limit ?? 50);
+function buildInventoryItemsQuery(shopId: string, params: InventoryListParams) {
+  let query = supabase.from('merchant_item_view').select('*').eq('shop_id', shopId);
 
   if (params.search) {
     const trimmed = params.search.trim();
@@ -180,6 +199,18 @@ export async function fetchInventoryItems(
   if (params.templateFilter === 'custom') {
     query = query.is('template_id', null);
   }
+
+  return query;
+}
+
+export async function fetchInventoryItems(
+  shopId: string,
+  params: InventoryListParams = {}
+): Promise<ServiceResult<InventoryListResponse>> {
+  log.debug('fetchInventoryItems', { shopId, params });
+
+  let query = buildInventoryItemsQuery(shopId, params).limit(params.limit ?? 50);
+
   if (params.cursor) {
     query = query.gt('updated_at', params.cursor);
   }
@@ -197,6 +228,62 @@ export async function fetchInventoryItems(
   return { data: { items, nextCursor }, error: null };
 }
 
+/**
+ * Pages through every item matching the list filters (limit and cursor are
+ * ignored). Pages are ordered by name then id so offsets stay stable while
+ * the catalog is being read.
+ */
+export async function* streamInventoryItems(
+  shopId: string,
+  params: InventoryListParams = {},
+  pageSize = 500
+): AsyncGenerator<InventoryItem[], void, undefined> {
+  log.debug('streamInventoryItems', { shopId, params });
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await buildInventoryItemsQuery(shopId, params)
+      .order('name', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + pageSize - 1);
+
+    if (error) {
+      log.error('Failed to stream inventory items', error);
+      throw error;
+    }
+
+    const items = (data ?? []).map(mapItem);
+    if (items.length > 0) {
+      yield items;
+    }
+    if (items.length < pageSize) {
+      return;
+    }
+  }
+}
+
+/**
+ * Exports the filtered catalog as CSV chunks (header first, then one chunk
+ * per page) in the layout the bulk import reads back.
+ */
+export async function exportInventoryItemsCsv(
+  shopId: string,
+  params: InventoryListParams = {}
+): Promise<ServiceResult<{ chunks: string[]; itemCount: number }>> {
+  const chunks = [toCsvLine(INVENTORY_CSV_HEADERS)];
+  let itemCount = 0;
+
+  try {
+    for await (const items of streamInventoryItems(shopId, params)) {
+      chunks.push(items.map(toInventoryCsvLine).join(''));
+      itemCount += items.length;
+    }
+  } catch (error) {
+    return { data: null, error: error as PostgrestError };
+  }
+
+  return { data: { chunks, itemCount }, error: null };
+}
+
 export async function createInventoryItem(payload: {
   shopId: string;
   templateId?: string | null;
@@ -207,6 +294,8 @@ export async function createInventoryItem(payload: {
   sku: string;
   priceCents: number;
   isActive: boolean;
+  stockQuantity?: number | null;
+  reorderThreshold?: number | null;
   categoryIds: string[];
 }): Promise<ServiceResult<InventoryItem>> {
   log.debug('createInventoryItem', { shopId: payload.shopId, templateId: payload.templateId });
@@ -224,6 +313,8 @@ export async function createInventoryItem(payload: {
       price_cents: payload.priceCents,
       is_active: payload.isActive,
       is_custom: !payload.templateId,
+      stock_quantity: payload.stockQuantity ?? null,
+      reorder_threshold: payload.reorderThreshold ?? null,
     })
     .select('*, categories:merchant_item_categories(merchant_categories(*))')
     .single();
@@ -248,7 +339,20 @@ export async function createInventoryItem(payload: {
 
 export async function updateInventoryItem(
   itemId: string,
-  updates: Partial<Pick<InventoryItem, 'description' | 'sku' | 'priceCents' | 'isActive'>> & {
+  updates: Partial<
+    Pick<
+      InventoryItem,
+      | 'description'
+      | 'sku'
+      | 'priceCents'
+      | 'isActive'
+      | 'stockQuantity'
+      | 'reorderThreshold'
+      | 'unitType'
+      | 'quantityStep'
+      | 'minQuantity'
+    >
+  > & {
     categoryIds?: string[];
   }
 ): Promise<ServiceResult<InventoryItem>> {
@@ -263,6 +367,11 @@ export async function updateInventoryItem(
       sku: itemUpdates.sku,
       price_cents: itemUpdates.priceCents,
       is_active: itemUpdates.isActive,
+      stock_quantity: itemUpdates.stockQuantity,
+      reorder_threshold: itemUpdates.reorderThreshold,
+      unit_type: itemUpdates.unitType,
+      quantity_step: itemUpdates.quantityStep,
+      min_quantity: itemUpdates.minQuantity,
     })
     .eq('id', itemId)
     .select('*, categories:merchant_item_categories(merchant_categories(*))')
@@ -289,6 +398,69 @@ export async function updateInventoryItem(
   return { data: mapItem({ ...data, categories: data.categories?.map((c: any) => c.merchant_categories) ?? [] }), error: null };
 }
 
+/**
+ * Replaces an item's option group and variants. Variants with an id are
+ * updated, new ones inserted, and any not in the list are deleted.
+ */
+export async function saveInventoryItemVariants(
+  itemId: string,
+  payload: {
+    variantLabel: string | null;
+    variants: Array<Omit<InventoryItemVariant, 'id' | 'sortOrder'> & { id?: string }>;
+  }
+): Promise<ServiceResult<InventoryItemVariant[]>> {
+  log.debug('saveInventoryItemVariants', { itemId, count: payload.variants.length });
+
+  const { error: labelError } = await supabase
+    .from('merchant_items')
+    .update({ variant_label: payload.variants.length > 0 ? payload.variantLabel : null })
+    .eq('id', itemId);
+
+  if (labelError) {
+    log.error('Failed to update variant label', labelError);
+    return { data: null, error: labelError };
+  }
+
+  const keepIds = payload.variants.map((variant) => variant.id).filter((id): id is string => !!id);
+  let deleteQuery = supabase.from('merchant_item_variants').delete().eq('merchant_item_id', itemId);
+  if (keepIds.length > 0) {
+    deleteQuery = deleteQuery.not('id', 'in', `(${keepIds.join(',')})`);
+  }
+  const { error: deleteError } = await deleteQuery;
+
+  if (deleteError) {
+    log.error('Failed to remove variants', deleteError);
+    return { data: null, error: deleteError };
+  }
+
+  if (payload.variants.length === 0) {
+    return { data: [], error: null };
+  }
+
+  const rows = payload.variants.map((variant, index) => ({
+    ...(variant.id ? { id: variant.id } : {}),
+    merchant_item_id: itemId,
+    name: variant.name.trim(),
+    sku: variant.sku?.trim() || null,
+    price_cents: variant.priceCents,
+    is_active: variant.isActive,
+    sort_order: index,
+  }));
+
+  const { data, error } = await supabase
+    .from('merchant_item_variants')
+    .upsert(rows, { onConflict: 'id', defaultToNull: false })
+    .select('*');
+
+  if (error) {
+    log.error('Failed to save variants', error);
+    return { data: null, error };
+  }
+
+  const variants = (data ?? []).map(mapVariant).sort((a, b) => a.sortOrder - b.sortOrder);
+  return { data: variants, error: null };
+}
+
 export async function toggleInventoryItemActive(itemId: string, isActive: boolean): Promise<ServiceResult<InventoryItem>> {
   return updateInventoryItem(itemId, { isActive });
 }
@@ -412,6 +584,49 @@ export async function fetchInventoryAuditLog(
   return { data: { entries, nextCursor }, error: null };
 }
 
+export async function fetchLowStockItems(shopId: string): Promise<ServiceResult<InventoryItem[]>> {
+  log.debug('fetchLowStockItems', { shopId });
+
+  const { data, error } = await supabase
+    .from('merchant_item_view')
+    .select('*')
+    .eq('shop_id', shopId)
+    .eq('is_low_stock', true)
+    .order('available_quantity', { ascending: true });
+
+  if (error) {
+    log.error('Failed to fetch low-stock items', error);
+    return { data: null, error };
+  }
+
+  return { data: (data ?? []).map(mapItem), error: null };
+}
+
+export function subscribeToLowStockAlerts(shopId: string, callback: (entry: InventoryAuditLogEntry) => void) {
+  const channel = supabase
+    .channel(`low-stock-alerts:${shopId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'audit_logs',
+        filter: `shop_id=eq.${shopId}`,
+      },
+      (payload) => {
+        const entry = mapAudit(payload.new);
+        if (entry.actionType === 'LOW_STOCK') {
+          callback(entry);
+        }
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
 export async function bulkAdoptTemplates(payload: {
   shopId: string;
   templateIds: string[];
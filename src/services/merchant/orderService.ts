@@ -9,11 +9,15 @@ import { supabase } from '../supabase';
 import {
   Order,
   OrderWithAll,
+  OrderWithItems,
   OrderStatus,
   DeliveryRunnerWithStatus,
   OrderFilters,
   OrderAnalytics,
+  OrderLineChange,
+  RejectionReasonCode,
 } from '../../types/orders';
+import { settleOrderPayment } from '../payments/paymentService';
 
 // ============================================================================
 // GET SHOP ORDERS
@@ -29,6 +33,7 @@ export async function getShopOrders(shopId: string): Promise<OrderWithAll[]> {
       .select(`
         *,
         order_items(*),
+        order_edits(*),
         shop:shops(id, name, image_url, shop_type, address, latitude, longitude),
         delivery_runner:delivery_runners(id, name, phone_number)
       `)
@@ -60,6 +65,7 @@ export async function getOrderById(orderId: string, shopId?: string): Promise<Or
       .select(`
         *,
         order_items(*),
+        order_edits(*),
         shop:shops(id, name, image_url, shop_type, address, latitude, longitude),
         delivery_runner:delivery_runners(id, name, phone_number)
       `)
@@ -207,17 +213,55 @@ export async function getFilteredShopOrders(
 // UPDATE ORDER STATUS
 // ============================================================================
 
+const CONFIRM_ERROR_MESSAGES: Record<string, string> = {
+  ORDER_NOT_FOUND: 'This order could not be found.',
+  ORDER_NOT_PENDING: 'This order has already been confirmed or cancelled.',
+  INVALID_CHANGES: 'Choose unavailable or a substitute for each changed line.',
+  ITEM_NOT_FOUND: 'One of the lines is no longer part of this order.',
+  SUBSTITUTION_NOT_ALLOWED: 'The customer asked for this item to be removed rather than substituted.',
+  SUBSTITUTE_UNAVAILABLE: 'The chosen substitute is not available.',
+  VARIANT_REQUIRED: 'Choose an option for the substitute item.',
+  INVALID_QUANTITY: 'The substitute quantity does not match how that item is sold.',
+  INSUFFICIENT_STOCK: 'There is not enough stock of the substitute item.',
+  NO_ITEMS_LEFT: 'Every item is unavailable. Cancel the order instead.',
+  PAYMENT_NOT_AUTHORIZED: "The customer's payment hasn't been authorized yet.",
+  PAYMENT_AMOUNT_EXCEEDED: 'The new total is more than the customer authorized on their card. Choose a cheaper substitute or mark the item unavailable.',
+};
+
 /**
  * Confirm an order
  * Fast update without .select() - WebSocket will confirm the update
  * Note: Timestamps are set automatically by database triggers
+ *
+ * With line changes, confirmation goes through `confirm_order_with_changes`,
+ * which marks lines unavailable or substitutes them and recomputes the total
+ * in the same transaction.
  */
 export async function confirmOrder(
-  orderId: string
+  orderId: string,
+  changes: OrderLineChange[] = []
 ): Promise<{ success: boolean; message?: string }> {
-  console.log('[confirmOrder] Starting update for order:', orderId);
+  console.log('[confirmOrder] Starting update for order:', orderId, changes);
   
   try {
+    if (changes.length > 0) {
+      const { error } = await supabase.rpc('confirm_order_with_changes', {
+        p_order_id: orderId,
+        p_changes: changes,
+      } as any);
+
+      if (error) {
+        console.error('[confirmOrder] RPC error:', error);
+        return {
+          success: false,
+          message: CONFIRM_ERROR_MESSAGES[error.message] || error.message || 'Failed to confirm order',
+        };
+      }
+
+      console.log('[confirmOrder] Confirmed with line changes');
+      return { success: true };
+    }
+
     // Fast update without .select() - no timeout needed, WebSocket confirms
     const { error } = await supabase
       .from('orders')
@@ -231,7 +275,7 @@ export async function confirmOrder(
       console.error('[confirmOrder] Update error:', error);
       return { 
         success: false, 
-        message: error.message || 'Failed to confirm order' 
+        message: CONFIRM_ERROR_MESSAGES[error.message] || error.message || 'Failed to confirm order' 
       };
     }
 
@@ -246,6 +290,34 @@ export async function confirmOrder(
   }
 }
 
+/**
+ * Mark a pending order as being confirmed (or release it again).
+ * While set, the consumer can no longer edit the order's items.
+ */
+export async function setOrderConfirmationStarted(
+  orderId: string,
+  started: boolean
+): Promise<{ success: boolean; message?: string }> {
+  console.log('[setOrderConfirmationStarted]', orderId, started);
+
+  try {
+    const { error } = await supabase.rpc('set_order_confirmation_started', {
+      p_order_id: orderId,
+      p_started: started,
+    } as any);
+
+    if (error) {
+      console.error('[setOrderConfirmationStarted] RPC error:', error);
+      return { success: false, message: error.message || 'Failed to update order' };
+    }
+
+    return { success: true };
+  } catch (err: any) {
+    console.error('[setOrderConfirmationStarted] Exception:', err);
+    return { success: false, message: err.message || 'Failed to update order' };
+  }
+}
+
 /**
  * Assign runner and mark order as out for delivery
  * Fast update without .select() - WebSocket will confirm the update
@@ -287,6 +359,212 @@ export async function assignRunnerAndDispatch(
   }
 }
 
+/**
+ * Mark a confirmed order as being prepared
+ * Fast update without .select() - WebSocket will confirm the update
+ * Note: preparing_at is set automatically by database triggers
+ */
+export async function markOrderPreparing(
+  orderId: string
+): Promise<{ success: boolean; message?: string }> {
+  console.log('[markOrderPreparing] Starting update for order:', orderId);
+
+  try {
+    const { error } = await supabase
+      .from('orders')
+      .update({
+        status: 'preparing',
+      } as Record<string, unknown>)
+      .eq('id', orderId);
+
+    if (error) {
+      console.error('[markOrderPreparing] Update error:', error);
+      return {
+        success: false,
+        message: error.message || 'Failed to mark order as preparing',
+      };
+    }
+
+    return { success: true };
+  } catch (err: any) {
+    console.error('[markOrderPreparing] Exception:', err);
+    return {
+      success: false,
+      message: err.message || 'Failed to mark order as preparing',
+    };
+  }
+}
+
+/**
+ * Mark a delivery order as packed and waiting for a runner
+ * Fast update without .select() - WebSocket will confirm the update
+ * Note: ready_at is set automatically by database triggers
+ */
+export async function markOrderReady(
+  orderId: string
+): Promise<{ success: boolean; message?: string }> {
+  console.log('[markOrderReady] Starting update for order:', orderId);
+
+  try {
+    const { error } = await supabase
+      .from('orders')
+      .update({
+        status: 'ready',
+      } as Record<string, unknown>)
+      .eq('id', orderId);
+
+    if (error) {
+      console.error('[markOrderReady] Update error:', error);
+      return {
+        success: false,
+        message: error.message || 'Failed to mark order as ready',
+      };
+    }
+
+    return { success: true };
+  } catch (err: any) {
+    console.error('[markOrderReady] Exception:', err);
+    return {
+      success: false,
+      message: err.message || 'Failed to mark order as ready',
+    };
+  }
+}
+
+/**
+ * Mark a confirmed pickup order as packed and waiting at the counter
+ * Fast update without .select() - WebSocket will confirm the update
+ * Note: ready_for_pickup_at is set automatically by database triggers
+ */
+export async function markOrderReadyForPickup(
+  orderId: string
+): Promise<{ success: boolean; message?: string }> {
+  console.log('[markOrderReadyForPickup] Starting update for order:', orderId);
+
+  try {
+    const { error } = await supabase
+      .from('orders')
+      .update({
+        status: 'ready_for_pickup',
+      } as Record<string, unknown>)
+      .eq('id', orderId);
+
+    if (error) {
+      console.error('[markOrderReadyForPickup] Update error:', error);
+      return {
+        success: false,
+        message: error.message || 'Failed to mark order as ready for pickup',
+      };
+    }
+
+    return { success: true };
+  } catch (err: any) {
+    console.error('[markOrderReadyForPickup] Exception:', err);
+    return {
+      success: false,
+      message: err.message || 'Failed to mark order as ready for pickup',
+    };
+  }
+}
+
+const PICKUP_ERROR_MESSAGES: Record<string, string> = {
+  ORDER_NOT_FOUND: 'This order could not be found.',
+  ORDER_NOT_READY_FOR_PICKUP: 'Only pickup orders that are ready at the counter can be handed over.',
+  INVALID_PICKUP_CODE: "That code doesn't match this order. Ask the customer to check their order screen.",
+};
+
+/**
+ * Hand a pickup order over once the customer's pickup code checks out.
+ * `verify_pickup_code` is the only way a pickup order becomes delivered.
+ */
+export async function verifyPickupCode(
+  orderId: string,
+  pickupCode: string
+): Promise<{ success: boolean; message?: string; order?: OrderWithItems }> {
+  console.log('[verifyPickupCode] Verifying pickup for order:', orderId);
+
+  try {
+    const { data, error } = await supabase.rpc('verify_pickup_code', {
+      p_order_id: orderId,
+      p_pickup_code: pickupCode,
+    } as any);
+
+    if (error) {
+      console.error('[verifyPickupCode] RPC error:', error);
+      return {
+        success: false,
+        message: PICKUP_ERROR_MESSAGES[error.message] || error.message || 'Failed to verify pickup code',
+      };
+    }
+
+    await runQueuedOrderPayment(orderId);
+    return { success: true, order: data as unknown as OrderWithItems };
+  } catch (err: any) {
+    console.error('[verifyPickupCode] Exception:', err);
+    return {
+      success: false,
+      message: err.message || 'Failed to verify pickup code',
+    };
+  }
+}
+
+const ADJUSTMENT_ERROR_MESSAGES: Record<string, string> = {
+  ORDER_NOT_FOUND: 'This order could not be found.',
+  ORDER_NOT_ADJUSTABLE: 'Weights can only be recorded while the order is confirmed and not yet dispatched.',
+  ITEM_NOT_FOUND: 'One of the lines is no longer part of this order.',
+  LINE_NOT_WEIGHED: 'Only items sold by weight or volume can be adjusted.',
+  ADJUSTMENT_OUT_OF_TOLERANCE: 'Packed amounts must stay within 10% of what was ordered.',
+  INVALID_QUANTITY: 'Enter a valid packed amount for each line.',
+  PAYMENT_AMOUNT_EXCEEDED: 'The new total is more than the customer authorized on their card.',
+};
+
+/**
+ * Record the packed weight/volume of kg and litre lines before dispatch.
+ * The database reprices the lines and the order total, keeps the original
+ * values, and the orders UPDATE reaches the consumer's order subscription.
+ */
+export async function adjustOrderItemQuantities(
+  orderId: string,
+  lines: Array<{ order_item_id: string; quantity: number }>
+): Promise<{ success: boolean; message?: string; order?: OrderWithItems }> {
+  console.log('[adjustOrderItemQuantities] Recording packed amounts for order:', orderId, lines);
+
+  try {
+    const { data, error } = await supabase.rpc('adjust_order_item_quantities', {
+      p_order_id: orderId,
+      p_lines: lines,
+    } as any);
+
+    if (error) {
+      console.error('[adjustOrderItemQuantities] RPC error:', error);
+      return {
+        success: false,
+        message: ADJUSTMENT_ERROR_MESSAGES[error.message] || error.message || 'Failed to record packed amounts',
+      };
+    }
+
+    return { success: true, order: data as unknown as OrderWithItems };
+  } catch (err: any) {
+    console.error('[adjustOrderItemQuantities] Exception:', err);
+    return {
+      success: false,
+      message: err.message || 'Failed to record packed amounts',
+    };
+  }
+}
+
+/**
+ * Run the capture/void a status change just queued for a card/wallet order.
+ * The status change stands if it fails: the server retries the task and the
+ * order shows its error (see getOrderPaymentIssue).
+ */
+async function runQueuedOrderPayment(orderId: string) {
+  const result = await settleOrderPayment(orderId);
+  if (!result.success) {
+    console.error('[runQueuedOrderPayment] Payment task failed:', orderId, result.message);
+  }
+}
+
 /**
  * Mark order as delivered
  * Fast update without .select() - WebSocket will confirm the update
@@ -316,6 +594,7 @@ export async function markOrderDelivered(
     }
 
     console.log('[markOrderDelivered] Update successful');
+    await runQueuedOrderPayment(orderId);
     return { success: true };
   } catch (err: any) {
     console.error('[markOrderDelivered] Exception:', err);
@@ -350,6 +629,7 @@ export async function cancelOrder(
 
     if (error) throw error;
 
+    await runQueuedOrderPayment(orderId);
     return { success: true };
   } catch (error) {
     console.error('Error cancelling order:', error);
@@ -360,6 +640,49 @@ export async function cancelOrder(
   }
 }
 
+const REJECTION_ERROR_MESSAGES: Record<string, string> = {
+  ORDER_NOT_FOUND: 'This order could not be found.',
+  ORDER_NOT_PENDING: 'Only orders that have not been confirmed yet can be rejected.',
+  INVALID_REJECTION_REASON: 'Choose a reason for rejecting the order.',
+};
+
+/**
+ * Turn down a pending order with a structured reason code.
+ * `reject_order` releases reserved stock and the delivery slot, like a cancel.
+ */
+export async function rejectOrder(
+  orderId: string,
+  reasonCode: RejectionReasonCode,
+  note?: string
+): Promise<{ success: boolean; message?: string; order?: OrderWithItems }> {
+  console.log('[rejectOrder] Rejecting order:', orderId, reasonCode);
+
+  try {
+    const { data, error } = await supabase.rpc('reject_order', {
+      p_order_id: orderId,
+      p_reason_code: reasonCode,
+      p_note: note?.trim() || null,
+    } as any);
+
+    if (error) {
+      console.error('[rejectOrder] RPC error:', error);
+      return {
+        success: false,
+        message: REJECTION_ERROR_MESSAGES[error.message] || error.message || 'Failed to reject order',
+      };
+    }
+
+    await runQueuedOrderPayment(orderId);
+    return { success: true, order: data as unknown as OrderWithItems };
+  } catch (err: any) {
+    console.error('[rejectOrder] Exception:', err);
+    return {
+      success: false,
+      message: err.message || 'Failed to reject order',
+    };
+  }
+}
+
 // ============================================================================
 // DELIVERY RUNNERS
 // ============================================================================
@@ -396,6 +719,7 @@ export async function getDeliveryRunnersWithStatus(
         .from('delivery_runners')
         .select('id, shop_id, name, phone_number')
         .eq('shop_id', shopId)
+        .is('archived_at', null)
         .limit(20); // Smaller limit for faster response
 
     const runnersTimeoutPromise = new Promise<{ data: null; error: any }>((resolve) => {
@@ -492,7 +816,7 @@ export async function getShopOrderAnalytics(
   try {
     let query = supabase
       .from('orders')
-      .select('status, total_cents, confirmation_time_seconds, preparation_time_seconds, delivery_time_seconds, confirmed_at, out_for_delivery_at, delivered_at, placed_at')
+      .select('status, total_cents, refunded_cents, confirmation_time_seconds, preparation_time_seconds, delivery_time_seconds, confirmed_at, ready_at, ready_for_pickup_at, out_for_delivery_at, delivered_at, placed_at')
       .eq('shop_id', shopId);
 
     // Apply time filter if provided
@@ -550,10 +874,13 @@ export async function getShopOrderAnalytics(
     const orders = (ordersRaw ?? []) as Array<{
       status: OrderStatus;
       total_cents: number;
+      refunded_cents?: number | null;
       confirmation_time_seconds?: number | null;
       preparation_time_seconds?: number | null;
       delivery_time_seconds?: number | null;
       confirmed_at?: string | null;
+      ready_at?: string | null;
+      ready_for_pickup_at?: string | null;
       out_for_delivery_at?: string | null;
       delivered_at?: string | null;
       placed_at: string;
@@ -563,22 +890,29 @@ export async function getShopOrderAnalytics(
       return {
         total_orders: 0,
         total_revenue_cents: 0,
+        total_refunded_cents: 0,
         average_order_value_cents: 0,
         status_breakdown: {
           pending: 0,
           confirmed: 0,
+          preparing: 0,
+          ready: 0,
+          ready_for_pickup: 0,
           out_for_delivery: 0,
           delivered: 0,
           cancelled: 0,
+          rejected: 0,
         },
       };
     }
 
     // Calculate metrics
     const total_orders = orders.length;
+    // Approved refunds come off the revenue of the order they belong to
+    const total_refunded_cents = orders.reduce((sum, o) => sum + (o.refunded_cents || 0), 0);
     const total_revenue_cents = orders
       .filter((o) => o.status === 'delivered')
-      .reduce((sum, o) => sum + o.total_cents, 0);
+      .reduce((sum, o) => sum + o.total_cents, 0) - total_refunded_cents;
     const average_order_value_cents =
       total_orders > 0 ? Math.round(total_revenue_cents / total_orders) : 0;
 
@@ -586,9 +920,13 @@ export async function getShopOrderAnalytics(
     const status_breakdown: Record<OrderStatus, number> = {
       pending: 0,
       confirmed: 0,
+      preparing: 0,
+      ready: 0,
+      ready_for_pickup: 0,
       out_for_delivery: 0,
       delivered: 0,
       cancelled: 0,
+      rejected: 0,
     };
     orders.forEach((order) => {
       status_breakdown[order.status as OrderStatus]++;
@@ -626,12 +964,13 @@ export async function getShopOrderAnalytics(
       }
 
       if (preparationTimes.length === 0) {
+        // Preparation ends when the order is ready, ready for pickup or dispatched, whichever came first
         preparationTimes = deliveredOrders
-          .filter((o) => o.out_for_delivery_at && o.confirmed_at)
+          .filter((o) => (o.ready_at || o.ready_for_pickup_at || o.out_for_delivery_at) && o.confirmed_at)
           .map((o) => {
-            const outForDelivery = new Date(o.out_for_delivery_at!);
+            const prepared = new Date((o.ready_at || o.ready_for_pickup_at || o.out_for_delivery_at)!);
             const confirmed = new Date(o.confirmed_at!);
-            return Math.round((outForDelivery.getTime() - confirmed.getTime()) / 1000);
+            return Math.round((prepared.getTime() - confirmed.getTime()) / 1000);
           });
       }
 
@@ -669,6 +1008,7 @@ export async function getShopOrderAnalytics(
     return {
       total_orders,
       total_revenue_cents,
+      total_refunded_cents,
       average_order_value_cents,
       average_confirmation_time_seconds,
       average_preparation_time_seconds,
@@ -698,7 +1038,7 @@ export async function getShopOrderTimeSeries(
   try {
     let query = supabase
       .from('orders')
-      .select('placed_at, total_cents, status')
+      .select('placed_at, total_cents, refunded_cents, status')
       .eq('shop_id', shopId);
 
     const now = new Date();
@@ -767,9 +1107,14 @@ export async function getShopOrderTimeSeries(
     const orders = (ordersRaw ?? []) as Array<{
       placed_at: string;
       total_cents: number;
+      refunded_cents?: number | null;
       status: OrderStatus;
     }>;
 
+    // Delivered totals less approved refunds
+    const orderRevenueCents = (order: (typeof orders)[number]) =>
+      order.status === 'delivered' ? order.total_cents - (order.refunded_cents || 0) : 0;
+
     if (orders.length === 0) {
       return {
         xLabels: [],
@@ -781,9 +1126,7 @@ export async function getShopOrderTimeSeries(
 
     // Calculate total orders and revenue
     const totalOrders = orders.length;
-    const totalRevenue = orders
-      .filter((o) => o.status === 'delivered')
-      .reduce((sum, o) => sum + o.total_cents, 0);
+    const totalRevenue = orders.reduce((sum, o) => sum + orderRevenueCents(o), 0);
 
     // Group orders by time period based on filter
     let xLabels: string[] = [];
@@ -824,7 +1167,7 @@ export async function getShopOrderTimeSeries(
         
         const currentValue = dataMap.get(closestHour) || 0;
         // Use revenue for chart data (in cents, convert to rupees for display)
-        const revenue = order.status === 'delivered' ? order.total_cents : 0;
+        const revenue = orderRevenueCents(order);
         dataMap.set(closestHour, currentValue + revenue);
       });
     } else if (daysDiff <= 7) {
@@ -847,7 +1190,7 @@ export async function getShopOrderTimeSeries(
         const orderDate = new Date(order.placed_at);
         const dateKey = orderDate.toISOString().split('T')[0];
         const currentValue = dayMap.get(dateKey) || 0;
-        const revenue = order.status === 'delivered' ? order.total_cents : 0;
+        const revenue = orderRevenueCents(order);
         dayMap.set(dateKey, currentValue + revenue);
       });
       
@@ -878,7 +1221,7 @@ export async function getShopOrderTimeSeries(
         );
         const weekKey = `week_${Math.min(weekIndex, numWeeks - 1)}`;
         const currentValue = weekMap.get(weekKey) || 0;
-        const revenue = order.status === 'delivered' ? order.total_cents : 0;
+        const revenue = orderRevenueCents(order);
         weekMap.set(weekKey, currentValue + revenue);
       });
       
@@ -906,7 +1249,7 @@ export async function getShopOrderTimeSeries(
         const orderDate = new Date(order.placed_at);
         const monthKey = `${orderDate.getFullYear()}-${String(orderDate.getMonth() + 1).padStart(2, '0')}`;
         const currentValue = monthMap.get(monthKey) || 0;
-        const revenue = order.status === 'delivered' ? order.total_cents : 0;
+        const revenue = orderRevenueCents(order);
         monthMap.set(monthKey, currentValue + revenue);
       });
       
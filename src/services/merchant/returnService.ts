@@ -0,0 +1,91 @@
+import { supabase } from '../supabase';
+import type { OrderReturn, OrderReturnStatus, OrderReturnWithOrder } from '../../types/returns';
+
+const PHOTO_BUCKET = 'return-photos';
+/** Signed photo links stay valid this long */
+const PHOTO_URL_TTL_SECONDS = 60 * 60;
+
+const RESOLVE_ERROR_MESSAGES: Record<string, string> = {
+  RETURN_NOT_FOUND: 'This request could not be found.',
+  RETURN_NOT_OPEN: 'This request has already been handled.',
+  INVALID_REFUND_AMOUNT: 'The refund must be more than zero and no more than was requested.',
+};
+
+/**
+ * Return requests for a shop, newest first, optionally limited to one status
+ */
+export async function getShopReturns(
+  shopId: string,
+  status?: OrderReturnStatus
+): Promise<{ data: OrderReturnWithOrder[] | null; error: Error | null }> {
+  try {
+    let query = supabase
+      .from('order_returns')
+      .select(
+        '*, items:order_return_items(*), order:orders(id, order_number, total_cents, refunded_cents, delivered_at, order_items(id, item_name, variant_name, unit_type, quantity))'
+      )
+      .eq('shop_id', shopId)
+      .order('created_at', { ascending: false });
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    return { data: (data || []) as unknown as OrderReturnWithOrder[], error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error('Failed to fetch return requests') };
+  }
+}
+
+/**
+ * Short-lived link to a return photo; the bucket is private and the storage
+ * policy only signs photos of the merchant's own orders
+ */
+export async function getReturnPhotoUrl(
+  photoPath: string
+): Promise<{ data: string | null; error: Error | null }> {
+  try {
+    const { data, error } = await supabase.storage.from(PHOTO_BUCKET).createSignedUrl(photoPath, PHOTO_URL_TTL_SECONDS);
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    return { data: data.signedUrl, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error('Failed to load photo') };
+  }
+}
+
+/**
+ * Approve or reject an open return. An approval records the refund in the
+ * shop ledger and on the order; `refundCents` defaults to the requested amount.
+ */
+export async function resolveOrderReturn(
+  returnId: string,
+  approve: boolean,
+  options: { refundCents?: number; note?: string } = {}
+): Promise<{ data: OrderReturn | null; error: Error | null }> {
+  try {
+    const { data, error } = await supabase.rpc('resolve_order_return', {
+      p_return_id: returnId,
+      p_approve: approve,
+      p_refund_cents: approve ? options.refundCents ?? null : null,
+      p_merchant_note: options.note?.trim() || null,
+    } as any);
+
+    if (error) {
+      return { data: null, error: new Error(RESOLVE_ERROR_MESSAGES[error.message] || error.message) };
+    }
+
+    return { data: data as unknown as OrderReturn, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error('Failed to resolve request') };
+  }
+}
@@ -0,0 +1,205 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+
+import { loogin } from '../../lib/loogin';
+import { supabase } from '../supabase';
+
+const log = loogin.scope('runnerCashService');
+
+type ServiceResult<T> = { data: T | null; error: PostgrestError | null };
+
+export type RunnerCashEntryType = 'cash_collected' | 'float_issued' | 'handover';
+
+export type RunnerCashBalance = {
+  runnerId: string;
+  /** Cash the runner holds for the shop; negative if they handed over more */
+  balanceCents: number;
+  openShiftId: string | null;
+  lastHandoverAt: string | null;
+};
+
+export type RunnerShift = {
+  id: string;
+  shopId: string;
+  runnerId: string;
+  status: 'open' | 'closed';
+  openingFloatCents: number;
+  openedAt: string;
+  expectedCents: number | null;
+  handedOverCents: number | null;
+  /** handedOver - expected; negative is a shortfall */
+  varianceCents: number | null;
+  note: string | null;
+  closedAt: string | null;
+};
+
+export type RunnerCashEntry = {
+  id: string;
+  entryType: RunnerCashEntryType;
+  amountCents: number;
+  orderId: string | null;
+  orderNumber: string | null;
+  createdAt: string;
+};
+
+export type RunnerShiftSettlement = {
+  shift: RunnerShift;
+  entries: RunnerCashEntry[];
+  /** Balance carried into the shift from earlier ones */
+  carriedOverCents: number;
+};
+
+const SHIFT_COLUMNS =
+  'id, shop_id, runner_id, status, opening_float_cents, opened_at, expected_cents, handed_over_cents, variance_cents, note, closed_at';
+
+const SHIFT_ERROR_MESSAGES: Record<string, string> = {
+  RUNNER_NOT_FOUND: 'This runner could not be found.',
+  RUNNER_ARCHIVED: 'This runner has been removed from the shop.',
+  SHIFT_ALREADY_OPEN: 'This runner already has a shift open.',
+  SHIFT_NOT_FOUND: 'This shift could not be found.',
+  SHIFT_NOT_OPEN: 'This shift has already been closed.',
+  INVALID_CASH_AMOUNT: 'Enter an amount of zero or more.',
+};
+
+function mapShiftRow(row: any): RunnerShift {
+  return {
+    id: row.id,
+    shopId: row.shop_id,
+    runnerId: row.runner_id,
+    status: row.status,
+    openingFloatCents: Number(row.opening_float_cents ?? 0),
+    openedAt: row.opened_at,
+    expectedCents: row.expected_cents == null ? null : Number(row.expected_cents),
+    handedOverCents: row.handed_over_cents == null ? null : Number(row.handed_over_cents),
+    varianceCents: row.variance_cents == null ? null : Number(row.variance_cents),
+    note: row.note ?? null,
+    closedAt: row.closed_at ?? null,
+  };
+}
+
+function mapEntryRow(row: any): RunnerCashEntry {
+  return {
+    id: row.id,
+    entryType: row.entry_type,
+    amountCents: Number(row.amount_cents ?? 0),
+    orderId: row.order_id ?? null,
+    orderNumber: row.order?.order_number ?? null,
+    createdAt: row.created_at,
+  };
+}
+
+function withFriendlyMessage(error: PostgrestError): PostgrestError {
+  const message = SHIFT_ERROR_MESSAGES[error.message];
+  return message ? { ...error, message } : error;
+}
+
+export async function fetchRunnerCashBalances(shopId: string): Promise<ServiceResult<RunnerCashBalance[]>> {
+  log.debug('fetchRunnerCashBalances', { shopId });
+
+  const { data, error } = await supabase.rpc('get_runner_cash_balances', { p_shop_id: shopId } as any);
+
+  if (error) {
+    log.error('Failed to fetch runner cash balances', error);
+    return { data: null, error };
+  }
+
+  const rows = ((data as any[]) ?? []).map((row) => ({
+    runnerId: row.runner_id,
+    balanceCents: Number(row.balance_cents ?? 0),
+    openShiftId: row.open_shift_id ?? null,
+    lastHandoverAt: row.last_handover_at ?? null,
+  }));
+
+  return { data: rows, error: null };
+}
+
+export async function openRunnerShift(
+  runnerId: string,
+  openingFloatCents: number = 0
+): Promise<ServiceResult<RunnerShift>> {
+  log.debug('openRunnerShift', { runnerId, openingFloatCents });
+
+  const { data, error } = await supabase.rpc('open_runner_shift', {
+    p_runner_id: runnerId,
+    p_opening_float_cents: openingFloatCents,
+  } as any);
+
+  if (error) {
+    log.error('Failed to open runner shift', error);
+    return { data: null, error: withFriendlyMessage(error) };
+  }
+
+  return { data: mapShiftRow(data), error: null };
+}
+
+export async function closeRunnerShift(
+  shiftId: string,
+  handedOverCents: number,
+  note?: string
+): Promise<ServiceResult<RunnerShift>> {
+  log.debug('closeRunnerShift', { shiftId, handedOverCents });
+
+  const { data, error } = await supabase.rpc('close_runner_shift', {
+    p_shift_id: shiftId,
+    p_handed_over_cents: handedOverCents,
+    p_note: note?.trim() || null,
+  } as any);
+
+  if (error) {
+    log.error('Failed to close runner shift', error);
+    return { data: null, error: withFriendlyMessage(error) };
+  }
+
+  return { data: mapShiftRow(data), error: null };
+}
+
+/**
+ * A runner's current shift, or their latest closed one, with its ledger
+ * entries for the settlement report
+ */
+export async function fetchLatestShiftSettlement(runnerId: string): Promise<ServiceResult<RunnerShiftSettlement>> {
+  log.debug('fetchLatestShiftSettlement', { runnerId });
+
+  const { data: shiftRow, error: shiftError } = await supabase
+    .from('runner_shifts')
+    .select(SHIFT_COLUMNS)
+    .eq('runner_id', runnerId)
+    .order('opened_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (shiftError) {
+    log.error('Failed to fetch runner shift', shiftError);
+    return { data: null, error: shiftError };
+  }
+
+  if (!shiftRow) {
+    return { data: null, error: null };
+  }
+
+  const shift = mapShiftRow(shiftRow);
+
+  const { data: entryRows, error: entriesError } = await supabase
+    .from('runner_cash_entries')
+    .select('id, entry_type, amount_cents, order_id, created_at, shift_id, order:orders(order_number)')
+    .eq('runner_id', runnerId)
+    .order('created_at', { ascending: true });
+
+  if (entriesError) {
+    log.error('Failed to fetch runner cash entries', entriesError);
+    return { data: null, error: entriesError };
+  }
+
+  // Everything before the shift (including collections made while no shift
+  // was open) is the balance the runner started it with
+  const rows = (entryRows ?? []) as any[];
+  const shiftRows = rows.filter((row) => row.shift_id === shift.id);
+  const openedAt = new Date(shift.openedAt).getTime();
+  const carriedOverCents = rows
+    .filter((row) => row.shift_id !== shift.id && new Date(row.created_at).getTime() < openedAt)
+    .reduce((sum, row) => sum + Number(row.amount_cents ?? 0), 0);
+
+  return {
+    data: { shift, entries: shiftRows.map(mapEntryRow), carriedOverCents },
+    error: null,
+  };
+}
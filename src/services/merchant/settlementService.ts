@@ -0,0 +1,220 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+
+import { loogin } from '../../lib/loogin';
+import { supabase } from '../supabase';
+
+const log = loogin.scope('settlementService');
+
+type ServiceResult<T> = { data: T | null; error: PostgrestError | null };
+
+export type ShopLedgerEntryType = 'order_revenue' | 'cash_collected' | 'commission' | 'refund' | 'adjustment' | 'payout';
+
+/** Signed: positive entries are owed to the shop, negative ones reduce it */
+export type ShopLedgerEntry = {
+  id: string;
+  entryType: ShopLedgerEntryType;
+  amountCents: number;
+  orderId: string | null;
+  orderNumber: string | null;
+  description: string | null;
+  statementId: string | null;
+  createdAt: string;
+};
+
+export type SettlementTotals = {
+  orderCount: number;
+  orderRevenueCents: number;
+  cashCollectedCents: number;
+  commissionCents: number;
+  refundCents: number;
+  adjustmentCents: number;
+  payoutCents: number;
+};
+
+export type SettlementStatement = SettlementTotals & {
+  id: string;
+  shopId: string;
+  /** First day of the period */
+  periodStart: string;
+  /** Day after the period ends */
+  periodEnd: string;
+  openingBalanceCents: number;
+  closingBalanceCents: number;
+  createdAt: string;
+};
+
+export type ShopCommissionRate = {
+  rateBps: number;
+  fixedFeeCents: number;
+  scope: 'shop' | 'shop_type' | 'default';
+};
+
+const STATEMENT_COLUMNS =
+  'id, shop_id, period_start, period_end, opening_balance_cents, order_count, order_revenue_cents, cash_collected_cents, commission_cents, refund_cents, adjustment_cents, payout_cents, closing_balance_cents, created_at';
+
+function mapStatementRow(row: any): SettlementStatement {
+  return {
+    id: row.id,
+    shopId: row.shop_id,
+    periodStart: row.period_start,
+    periodEnd: row.period_end,
+    openingBalanceCents: Number(row.opening_balance_cents ?? 0),
+    orderCount: Number(row.order_count ?? 0),
+    orderRevenueCents: Number(row.order_revenue_cents ?? 0),
+    cashCollectedCents: Number(row.cash_collected_cents ?? 0),
+    commissionCents: Number(row.commission_cents ?? 0),
+    refundCents: Number(row.refund_cents ?? 0),
+    adjustmentCents: Number(row.adjustment_cents ?? 0),
+    payoutCents: Number(row.payout_cents ?? 0),
+    closingBalanceCents: Number(row.closing_balance_cents ?? 0),
+    createdAt: row.created_at,
+  };
+}
+
+function mapEntryRow(row: any): ShopLedgerEntry {
+  return {
+    id: row.id,
+    entryType: row.entry_type,
+    amountCents: Number(row.amount_cents ?? 0),
+    orderId: row.order_id ?? null,
+    orderNumber: row.order?.order_number ?? null,
+    description: row.description ?? null,
+    statementId: row.statement_id ?? null,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Per-type totals of ledger entries, the same way generate_settlement_statements
+ * sums a period
+ */
+export function summariseLedgerEntries(entries: ShopLedgerEntry[]): SettlementTotals {
+  const totals: SettlementTotals = {
+    orderCount: 0,
+    orderRevenueCents: 0,
+    cashCollectedCents: 0,
+    commissionCents: 0,
+    refundCents: 0,
+    adjustmentCents: 0,
+    payoutCents: 0,
+  };
+
+  entries.forEach((entry) => {
+    switch (entry.entryType) {
+      case 'order_revenue':
+        totals.orderCount += 1;
+        totals.orderRevenueCents += entry.amountCents;
+        break;
+      case 'cash_collected':
+        totals.cashCollectedCents += entry.amountCents;
+        break;
+      case 'commission':
+        totals.commissionCents += entry.amountCents;
+        break;
+      case 'refund':
+        totals.refundCents += entry.amountCents;
+        break;
+      case 'adjustment':
+        totals.adjustmentCents += entry.amountCents;
+        break;
+      case 'payout':
+        totals.payoutCents += entry.amountCents;
+        break;
+    }
+  });
+
+  return totals;
+}
+
+export async function fetchSettlementStatements(shopId: string): Promise<ServiceResult<SettlementStatement[]>> {
+  log.debug('fetchSettlementStatements', { shopId });
+
+  const { data, error } = await supabase
+    .from('settlement_statements')
+    .select(STATEMENT_COLUMNS)
+    .eq('shop_id', shopId)
+    .order('period_start', { ascending: false });
+
+  if (error) {
+    log.error('Failed to fetch settlement statements', error);
+    return { data: null, error };
+  }
+
+  return { data: (data ?? []).map(mapStatementRow), error: null };
+}
+
+/**
+ * Entries of one statement, or the shop's not yet settled entries when
+ * `statementId` is null
+ */
+export async function fetchLedgerEntries(
+  shopId: string,
+  statementId: string | null
+): Promise<ServiceResult<ShopLedgerEntry[]>> {
+  log.debug('fetchLedgerEntries', { shopId, statementId });
+
+  let query = supabase
+    .from('shop_ledger_entries')
+    .select('id, entry_type, amount_cents, order_id, description, statement_id, created_at, order:orders(order_number)')
+    .eq('shop_id', shopId)
+    .order('created_at', { ascending: true });
+
+  query = statementId ? query.eq('statement_id', statementId) : query.is('statement_id', null);
+
+  const { data, error } = await query;
+
+  if (error) {
+    log.error('Failed to fetch ledger entries', error);
+    return { data: null, error };
+  }
+
+  return { data: (data ?? []).map(mapEntryRow), error: null };
+}
+
+/**
+ * The commission in force for a shop: its own rate, then its shop type's,
+ * then the platform default
+ */
+export async function fetchShopCommissionRate(shopId: string): Promise<ServiceResult<ShopCommissionRate>> {
+  log.debug('fetchShopCommissionRate', { shopId });
+
+  const { data: shop, error: shopError } = await supabase
+    .from('shops')
+    .select('shop_type')
+    .eq('id', shopId)
+    .single();
+
+  if (shopError) {
+    log.error('Failed to fetch shop type', shopError);
+    return { data: null, error: shopError };
+  }
+
+  const { data, error } = await supabase
+    .from('commission_rates')
+    .select('shop_id, shop_type, rate_bps, fixed_fee_cents');
+
+  if (error) {
+    log.error('Failed to fetch commission rates', error);
+    return { data: null, error };
+  }
+
+  const rows = (data ?? []) as any[];
+  const shopType = (shop as any)?.shop_type;
+  const match =
+    rows.find((row) => row.shop_id === shopId) ??
+    rows.find((row) => row.shop_type && row.shop_type === shopType) ??
+    rows.find((row) => !row.shop_id && !row.shop_type);
+
+  if (!match) {
+    return { data: { rateBps: 0, fixedFeeCents: 0, scope: 'default' }, error: null };
+  }
+
+  return {
+    data: {
+      rateBps: Number(match.rate_bps ?? 0),
+      fixedFeeCents: Number(match.fixed_fee_cents ?? 0),
+      scope: match.shop_id ? 'shop' : match.shop_type ? 'shop_type' : 'default',
+    },
+    error: null,
+  };
+}
@@ -580,7 +580,7 @@ export async function getMerchantShops(
     // Use placed_at instead of created_at and total_cents instead of total_amount
     const { data: ordersStats, error: ordersError } = await supabase
       .from('orders')
-      .select('shop_id, status, total_cents, placed_at')
+      .select('shop_id, status, total_cents, refunded_cents, placed_at')
       .in('shop_id', shopIds)
       .gte('placed_at', `${today}T00:00:00.000Z`)
       .lt('placed_at', `${today}T23:59:59.999Z`);
@@ -596,12 +596,12 @@ export async function getMerchantShops(
         }
         const stats = statsMap.get(shopId)!;
         stats.orders_today++;
-        if (order.status === 'cancelled') {
+        if (order.status === 'cancelled' || order.status === 'rejected') {
           stats.orders_cancelled_today++;
         }
         if ((order.status === 'completed' || order.status === 'delivered') && order.total_cents) {
           // Convert cents to rupees
-          stats.revenue_today += (Number(order.total_cents) || 0) / 100;
+          stats.revenue_today += ((Number(order.total_cents) || 0) - (Number(order.refunded_cents) || 0)) / 100;
         }
       });
     }
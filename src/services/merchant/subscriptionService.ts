@@ -0,0 +1,34 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+
+import { loogin } from '../../lib/loogin';
+import { supabase } from '../supabase';
+import type { SubscriptionVolumeDay } from '../../types/subscriptions';
+
+const log = loogin.scope('subscriptionService');
+
+type ServiceResult<T> = { data: T | null; error: PostgrestError | null };
+
+export async function fetchSubscriptionVolume(
+  shopId: string,
+  days: number = 7
+): Promise<ServiceResult<SubscriptionVolumeDay[]>> {
+  log.debug('fetchSubscriptionVolume', { shopId, days });
+
+  const { data, error } = await supabase.rpc('get_shop_subscription_volume', {
+    p_shop_id: shopId,
+    p_days: days,
+  } as any);
+
+  if (error) {
+    log.error('Failed to fetch subscription volume', error);
+    return { data: null, error };
+  }
+
+  const volume = ((data as any[]) ?? []).map((row) => ({
+    delivery_date: row.delivery_date,
+    subscription_count: Number(row.subscription_count),
+    items: (row.items ?? []).map((item: any) => ({ ...item, quantity: Number(item.quantity) })),
+  }));
+
+  return { data: volume, error: null };
+}
@@ -0,0 +1,117 @@
+/**
+ * Payment Service
+ *
+ * Moves a card/wallet order's payment intent along with the order:
+ * authorized at checkout, captured once delivered, voided when the order is
+ * cancelled or rejected. The gateway is only reached from the
+ * `order-payments` edge function, which also records each result. Captures
+ * and voids are queued by the database when the order's status changes;
+ * the app only asks for them to run straight away.
+ */
+
+import { supabase } from '../supabase';
+import type { PaymentTask } from '../../types/payments';
+
+const PAYMENT_ERROR_MESSAGES: Record<string, string> = {
+  NOT_AUTHENTICATED: 'Please sign in again to continue.',
+  ORDER_NOT_FOUND: 'This order could not be found.',
+  ORDER_NOT_PAYABLE: 'This order can no longer be paid for.',
+  PAYMENT_NOT_FOUND: 'The payment for this order could not be found.',
+  PAYMENT_STATE_CONFLICT: 'The payment has already moved on. Refresh and try again.',
+  CAPTURE_EXCEEDS_AUTHORIZATION: 'The order total is more than was authorized on the card.',
+  INVALID_PAYMENT_PROVIDER: 'Card and wallet payments are not available right now.',
+};
+
+type PaymentAction = 'authorize' | 'settle';
+
+type PaymentActionResult = { success: boolean; message?: string; declined?: boolean };
+
+async function requestPaymentAction(
+  action: PaymentAction,
+  orderId: string,
+  fallbackMessage: string
+): Promise<PaymentActionResult> {
+  try {
+    const { data, error } = await supabase.functions.invoke('order-payments', {
+      body: { action, orderId },
+    });
+
+    if (error) {
+      console.error(`[requestPaymentAction] ${action} error:`, error);
+      return { success: false, message: error.message || fallbackMessage };
+    }
+
+    const result = data as { success: boolean; error?: string; message?: string; declined?: boolean };
+    if (result.success) {
+      return { success: true };
+    }
+
+    return {
+      success: false,
+      declined: result.declined,
+      message: (result.error && PAYMENT_ERROR_MESSAGES[result.error]) || result.message || result.error || fallbackMessage,
+    };
+  } catch (err: any) {
+    console.error(`[requestPaymentAction] ${action} exception:`, err);
+    return { success: false, message: err.message || fallbackMessage };
+  }
+}
+
+/**
+ * Authorize the payment for a freshly placed card/wallet order.
+ * A declined authorization cancels the order in the database (`declined`);
+ * on any other failure the order is still pending and the caller decides
+ * whether to cancel it.
+ */
+export async function authorizeOrderPayment(
+  orderId: string
+): Promise<{ success: boolean; message?: string; declined?: boolean }> {
+  return requestPaymentAction('authorize', orderId, 'Failed to authorize payment');
+}
+
+/**
+ * Run the capture or void queued by an order's latest status change now.
+ * A failure is kept on the task and retried on the server, so the status
+ * change stands either way.
+ */
+export async function settleOrderPayment(
+  orderId: string
+): Promise<{ success: boolean; message?: string }> {
+  return requestPaymentAction('settle', orderId, 'Failed to settle payment');
+}
+
+/**
+ * The order's capture/void that has not gone through, if any: still being
+ * retried (`queued`) or given up on (`failed`).
+ */
+export async function getOrderPaymentIssue(
+  orderId: string
+): Promise<{ data: (PaymentTask & { message: string }) | null; error: Error | null }> {
+  try {
+    const { data, error } = await supabase
+      .from('payment_tasks')
+      .select('*')
+      .eq('order_id', orderId)
+      .neq('status', 'done')
+      .not('last_error', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[getOrderPaymentIssue] Query error:', error);
+      return { data: null, error: new Error(error.message) };
+    }
+
+    if (!data) {
+      return { data: null, error: null };
+    }
+
+    const task = data as PaymentTask;
+    const reason = task.last_error ? PAYMENT_ERROR_MESSAGES[task.last_error] || task.last_error : '';
+    return { data: { ...task, message: reason }, error: null };
+  } catch (err: any) {
+    console.error('[getOrderPaymentIssue] Exception:', err);
+    return { data: null, error: err instanceof Error ? err : new Error('Failed to load payment status') };
+  }
+}
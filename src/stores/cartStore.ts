@@ -1,5 +1,8 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
+import type { UnitType } from '../types/inventory';
+import type { SubstitutionPreference } from '../types/orders';
+import { getMinQuantity, increaseQuantity, isWeightedUnit, lineSubtotalCents, roundQuantity } from '../utils/quantity';
 
 export interface CartItem {
   id: string;
@@ -8,8 +11,17 @@ export interface CartItem {
   name: string;
   description?: string;
   image_url?: string;
+  /** Chosen variant; each variant of an item is its own cart line */
+  variant_id?: string | null;
+  variant_name?: string | null;
+  /** Price per unit_type (piece when absent) */
   price_cents: number;
+  unit_type?: UnitType;
+  quantity_step?: number;
+  min_quantity?: number;
   quantity: number;
+  /** Chosen at checkout; the shop substitutes when absent */
+  substitution_preference?: SubstitutionPreference;
 }
 
 export interface ShopCart {
@@ -23,18 +35,71 @@ interface CartState {
   currentShopId: string | null; // Currently active shop for adding items
   currentUserId: string | null; // Current user ID to track user changes
   addItem: (item: Omit<CartItem, 'quantity'>) => void;
-  removeItem: (shopId: string, itemId: string) => void;
-  updateQuantity: (shopId: string, itemId: string, quantity: number) => void;
+  removeItem: (shopId: string, itemId: string, variantId?: string | null) => void;
+  updateQuantity: (shopId: string, itemId: string, quantity: number, variantId?: string | null) => void;
+  setSubstitutionPreference: (
+    shopId: string,
+    itemId: string,
+    preference: SubstitutionPreference,
+    variantId?: string | null
+  ) => void;
   clearCart: (shopId?: string) => void; // Clear specific shop or all carts
+  setShopCart: (shopId: string, shopName: string, items: CartItem[]) => void; // Replace a shop's cart in one update
+  setShopCarts: (shopCarts: Record<string, ShopCart>) => void; // Replace every cart, e.g. with the synced account carts
   setUserId: (userId: string | null) => void; // Set user ID and clear cart if user changed
   getTotalPrice: (shopId?: string) => number; // Total for specific shop or all shops
-  getItemCount: (shopId?: string) => number; // Count for specific shop or all shops
-  getItemQuantity: (shopId: string, itemId: string) => number;
+  getItemCount: (shopId?: string) => number; // Count for specific shop or all shops (weighted lines count once)
+  getItemQuantity: (shopId: string, itemId: string, variantId?: string | null) => number;
   getAllItems: () => CartItem[]; // Get all items from all shops
   getShopIds: () => string[]; // Get list of shop IDs with items
   getShopCart: (shopId: string) => ShopCart | null;
 }
 
+/**
+ * Cart lines are identified by item id plus variant id (null for items
+ * without variants), so two packs of the same item stay separate.
+ */
+export function isSameCartLine(item: CartItem, itemId: string, variantId?: string | null) {
+  return item.id === itemId && (item.variant_id ?? null) === (variantId ?? null);
+}
+
+/** Pieces count individually; a weighted line counts as one item */
+export function countCartLine(item: CartItem) {
+  return isWeightedUnit(item.unit_type) ? 1 : item.quantity;
+}
+
+/**
+ * Combine the account's saved carts with a cart built on this device (e.g.
+ * as a guest). Lines in both keep the larger quantity and this device's
+ * details; everything else is kept from either side.
+ */
+export function mergeShopCarts(
+  accountCarts: Record<string, ShopCart>,
+  localCarts: Record<string, ShopCart>
+): Record<string, ShopCart> {
+  const merged: Record<string, ShopCart> = { ...accountCarts };
+
+  Object.values(localCarts).forEach((localCart) => {
+    const accountCart = merged[localCart.shopId];
+    if (!accountCart) {
+      merged[localCart.shopId] = localCart;
+      return;
+    }
+
+    const items = accountCart.items.filter(
+      (item) => !localCart.items.some((localItem) => isSameCartLine(localItem, item.id, item.variant_id))
+    );
+    localCart.items.forEach((localItem) => {
+      const accountItem = accountCart.items.find((item) => isSameCartLine(item, localItem.id, localItem.variant_id));
+      items.push(accountItem ? { ...localItem, quantity: Math.max(localItem.quantity, accountItem.quantity) } : localItem);
+    });
+
+    merged[localCart.shopId] = { ...accountCart, shopName: localCart.shopName || accountCart.shopName, items };
+  });
+
+  return merged;
+}
+
 export const useCartStore = create<CartState>()(
   persist(
     (set, get) => ({
@@ -56,21 +121,21 @@ export const useCartStore = create<CartState>()(
         }
         
         // Find existing item index for faster lookup
-        const existingItemIndex = shopCart.items.findIndex((i) => i.id === item.id);
+        const existingItemIndex = shopCart.items.findIndex((i) => isSameCartLine(i, item.id, item.variant_id));
         
         if (existingItemIndex >= 0) {
-          // Increase quantity if item already exists - update in place for performance
+          // Step up the quantity if item already exists - update in place for performance
           const updatedItems = [...shopCart.items];
           updatedItems[existingItemIndex] = {
             ...updatedItems[existingItemIndex],
-            quantity: updatedItems[existingItemIndex].quantity + 1,
+            quantity: increaseQuantity(updatedItems[existingItemIndex].quantity, updatedItems[existingItemIndex]),
           };
           shopCart = { ...shopCart, items: updatedItems };
         } else {
-          // Add new item with quantity 1
+          // Add new item at its minimum quantity (1 for pieces)
           shopCart = {
             ...shopCart,
-            items: [...shopCart.items, { ...item, quantity: 1 }],
+            items: [...shopCart.items, { ...item, quantity: getMinQuantity(item) }],
           };
         }
         
@@ -80,12 +145,12 @@ export const useCartStore = create<CartState>()(
           currentShopId: shopId,
         });
       },
-      removeItem: (shopId, itemId) => {
+      removeItem: (shopId, itemId, variantId) => {
         const state = get();
         const shopCart = state.shopCarts[shopId];
         if (!shopCart) return;
         
-        const newItems = shopCart.items.filter((i) => i.id !== itemId);
+        const newItems = shopCart.items.filter((i) => !isSameCartLine(i, itemId, variantId));
         
         if (newItems.length === 0) {
           // Remove shop cart if empty
@@ -103,9 +168,9 @@ export const useCartStore = create<CartState>()(
           });
         }
       },
-      updateQuantity: (shopId, itemId, quantity) => {
+      updateQuantity: (shopId, itemId, quantity, variantId) => {
         if (quantity <= 0) {
-          get().removeItem(shopId, itemId);
+          get().removeItem(shopId, itemId, variantId);
           return;
         }
         const state = get();
@@ -113,12 +178,12 @@ export const useCartStore = create<CartState>()(
         if (!shopCart) return;
         
         // Find item index for faster update
-        const itemIndex = shopCart.items.findIndex((i) => i.id === itemId);
+        const itemIndex = shopCart.items.findIndex((i) => isSameCartLine(i, itemId, variantId));
         if (itemIndex < 0) return;
         
         // Update in place for better performance
         const updatedItems = [...shopCart.items];
-        updatedItems[itemIndex] = { ...updatedItems[itemIndex], quantity };
+        updatedItems[itemIndex] = { ...updatedItems[itemIndex], quantity: roundQuantity(quantity) };
         
         // Update state immediately
         set({
@@ -131,6 +196,23 @@ export const useCartStore = create<CartState>()(
           },
         });
       },
+      setSubstitutionPreference: (shopId, itemId, preference, variantId) => {
+        const state = get();
+        const shopCart = state.shopCarts[shopId];
+        if (!shopCart) return;
+
+        set({
+          shopCarts: {
+            ...state.shopCarts,
+            [shopId]: {
+              ...shopCart,
+              items: shopCart.items.map((i) =>
+                isSameCartLine(i, itemId, variantId) ? { ...i, substitution_preference: preference } : i
+              ),
+            },
+          },
+        });
+      },
       clearCart: (shopId) => {
         const state = get();
         if (shopId) {
@@ -145,6 +227,29 @@ export const useCartStore = create<CartState>()(
           set({ shopCarts: {}, currentShopId: null });
         }
       },
+      setShopCart: (shopId, shopName, items) => {
+        if (items.length === 0) {
+          get().clearCart(shopId);
+          return;
+        }
+        const state = get();
+        set({
+          shopCarts: { ...state.shopCarts, [shopId]: { shopId, shopName, items } },
+          currentShopId: shopId,
+        });
+      },
+      setShopCarts: (shopCarts) => {
+        const state = get();
+        const nonEmpty = Object.fromEntries(
+          Object.entries(shopCarts).filter(([, shopCart]) => shopCart.items.length > 0)
+        );
+        const shopIds = Object.keys(nonEmpty);
+        set({
+          shopCarts: nonEmpty,
+          currentShopId:
+            state.currentShopId && nonEmpty[state.currentShopId] ? state.currentShopId : shopIds[0] ?? null,
+        });
+      },
       setUserId: (userId) => {
         const state = get();
         
@@ -181,11 +286,11 @@ export const useCartStore = create<CartState>()(
         if (shopId) {
           const shopCart = state.shopCarts[shopId];
           if (!shopCart) return 0;
-          return shopCart.items.reduce((total, item) => total + item.price_cents * item.quantity, 0);
+          return shopCart.items.reduce((total, item) => total + lineSubtotalCents(item.price_cents, item.quantity), 0);
         } else {
           // Total for all shops
           return Object.values(state.shopCarts).reduce((total, shopCart) => {
-            return total + shopCart.items.reduce((sum, item) => sum + item.price_cents * item.quantity, 0);
+            return total + shopCart.items.reduce((sum, item) => sum + lineSubtotalCents(item.price_cents, item.quantity), 0);
           }, 0);
         }
       },
@@ -194,19 +299,19 @@ export const useCartStore = create<CartState>()(
         if (shopId) {
           const shopCart = state.shopCarts[shopId];
           if (!shopCart) return 0;
-          return shopCart.items.reduce((count, item) => count + item.quantity, 0);
+          return shopCart.items.reduce((count, item) => count + countCartLine(item), 0);
         } else {
           // Count for all shops
           return Object.values(state.shopCarts).reduce((count, shopCart) => {
-            return count + shopCart.items.reduce((sum, item) => sum + item.quantity, 0);
+            return count + shopCart.items.reduce((sum, item) => sum + countCartLine(item), 0);
           }, 0);
         }
       },
-      getItemQuantity: (shopId, itemId) => {
+      getItemQuantity: (shopId, itemId, variantId) => {
         const state = get();
         const shopCart = state.shopCarts[shopId];
         if (!shopCart) return 0;
-        const item = shopCart.items.find((i) => i.id === itemId);
+        const item = shopCart.items.find((i) => isSameCartLine(i, itemId, variantId));
         return item?.quantity || 0;
       },
       getAllItems: () => {
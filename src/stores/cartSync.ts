@@ -0,0 +1,125 @@
+import { loogin } from '../lib/loogin';
+import { deleteUserCart, fetchUserCarts, saveUserCart, subscribeToUserCarts } from '../services/consumer/cartService';
+import { mergeShopCarts, useCartStore } from './cartStore';
+import type { CartItem, ShopCart } from './cartStore';
+
+const log = loogin.scope('cartSync');
+
+// Coalesce quick "+" taps into one write per shop
+const SAVE_DEBOUNCE_MS = 800;
+
+// Fixed key order, so the same cart always serialises the same way whichever side wrote it
+const CART_ITEM_KEYS: Array<keyof CartItem> = [
+  'id',
+  'shopId',
+  'shopName',
+  'name',
+  'description',
+  'image_url',
+  'variant_id',
+  'variant_name',
+  'price_cents',
+  'unit_type',
+  'quantity_step',
+  'min_quantity',
+  'quantity',
+  'substitution_preference',
+];
+
+function serialiseCart(shopCart: ShopCart) {
+  return `${shopCart.shopName}\n${JSON.stringify(shopCart.items, CART_ITEM_KEYS as string[])}`;
+}
+
+/**
+ * Keep the signed-in user's carts in step with the server.
+ *
+ * The account's saved carts are loaded first; when `mergeLocal` is set (the
+ * device had a guest cart) the local cart is merged into them, otherwise the
+ * account's carts replace the local copy. From then on local changes are
+ * saved per shop and changes from other devices are applied as they arrive.
+ * Returns a function that stops syncing.
+ */
+export function startCartSync(userId: string, mergeLocal: boolean): () => void {
+  // What the server is known to hold, per shop, so echoes are not written back
+  const synced: Record<string, string> = {};
+  let ready = false;
+  let stopped = false;
+  let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = async () => {
+    saveTimer = null;
+    if (stopped || !ready) return;
+
+    const { shopCarts } = useCartStore.getState();
+    const writes: Array<Promise<unknown>> = [];
+
+    Object.values(shopCarts).forEach((shopCart) => {
+      const serialised = serialiseCart(shopCart);
+      if (synced[shopCart.shopId] !== serialised) {
+        synced[shopCart.shopId] = serialised;
+        writes.push(saveUserCart(userId, shopCart));
+      }
+    });
+    Object.keys(synced).forEach((shopId) => {
+      if (!shopCarts[shopId]) {
+        delete synced[shopId];
+        writes.push(deleteUserCart(userId, shopId));
+      }
+    });
+
+    await Promise.all(writes);
+  };
+
+  const scheduleFlush = () => {
+    if (saveTimer) clearTimeout(saveTimer);
+    saveTimer = setTimeout(flush, SAVE_DEBOUNCE_MS);
+  };
+
+  const unsubscribeStore = useCartStore.subscribe((state, prevState) => {
+    if (state.shopCarts !== prevState.shopCarts) {
+      scheduleFlush();
+    }
+  });
+
+  const unsubscribeRemote = subscribeToUserCarts(userId, {
+    onUpsert: (shopCart) => {
+      if (!ready || synced[shopCart.shopId] === serialiseCart(shopCart)) return;
+      synced[shopCart.shopId] = serialiseCart(shopCart);
+      useCartStore.getState().setShopCart(shopCart.shopId, shopCart.shopName, shopCart.items);
+    },
+    onDelete: (shopId) => {
+      if (!ready || !(shopId in synced)) return;
+      delete synced[shopId];
+      useCartStore.getState().clearCart(shopId);
+    },
+  });
+
+  fetchUserCarts(userId).then(({ data, error }) => {
+    if (stopped) return;
+    if (error || !data) {
+      // Without the account's carts, saving could overwrite them; stay local until the next sign-in
+      log.warn('Failed to load account carts; cart stays on this device', { error });
+      return;
+    }
+
+    const accountCarts: Record<string, ShopCart> = {};
+    data.forEach((shopCart) => {
+      accountCarts[shopCart.shopId] = shopCart;
+      synced[shopCart.shopId] = serialiseCart(shopCart);
+    });
+
+    // An account with nothing saved yet adopts this device's cart
+    const { shopCarts, setShopCarts } = useCartStore.getState();
+    setShopCarts(mergeLocal || data.length === 0 ? mergeShopCarts(accountCarts, shopCarts) : accountCarts);
+    ready = true;
+    // Save whatever the merge added
+    flush();
+  });
+
+  return () => {
+    stopped = true;
+    if (saveTimer) clearTimeout(saveTimer);
+    unsubscribeStore();
+    unsubscribeRemote();
+  };
+}
@@ -5,7 +5,8 @@ export type InventoryActionType =
   | 'ACTIVATE'
   | 'DEACTIVATE'
   | 'IMPORT'
-  | 'TEMPLATE_UPDATE';
+  | 'TEMPLATE_UPDATE'
+  | 'LOW_STOCK';
 
 export type InventoryChangeSource = 'manual' | 'bulk_import' | 'system_sync' | 'backfill' | 'template_update';
 
@@ -41,6 +42,18 @@ export interface InventoryTemplateItem {
   updatedAt: string;
 }
 
+/** Unit price_cents refers to; kg and litre items allow fractional quantities */
+export type UnitType = 'piece' | 'kg' | 'litre';
+
+export interface InventoryItemVariant {
+  id: string;
+  name: string;
+  sku?: string | null;
+  priceCents: number;
+  isActive: boolean;
+  sortOrder: number;
+}
+
 export interface InventoryItem {
   id: string;
   shopId: string;
@@ -54,6 +67,23 @@ export interface InventoryItem {
   currency?: string;
   isActive: boolean;
   isCustom: boolean;
+  unitType: UnitType;
+  /** Increment the item can be ordered in, e.g. 0.25 for quarter kilograms */
+  quantityStep: number;
+  minQuantity: number;
+  /** On-hand stock; null when the item is not stock-tracked */
+  stockQuantity: number | null;
+  reservedQuantity: number;
+  availableQuantity: number | null;
+  /** Low-stock alert fires once availableQuantity drops to this level */
+  reorderThreshold: number | null;
+  isLowStock: boolean;
+  templateName?: string | null;
+  timesSold: number;
+  totalRevenueCents: number;
+  /** Option group shown to consumers, e.g. "Pack size" */
+  variantLabel: string | null;
+  variants: InventoryItemVariant[];
   categories: InventoryCategory[];
   createdAt: string;
   updatedAt: string;
@@ -106,3 +136,39 @@ export interface InventoryAuditLogFilters {
 }
 
 
+
+export type InventoryImportField = 'name' | 'sku' | 'barcode' | 'price' | 'category' | 'active';
+
+export type InventoryImportColumnMapping = Partial<Record<InventoryImportField, number>>;
+
+export interface InventoryImportFieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface InventoryImportChange {
+  rowNumber: number;
+  action: 'create' | 'update';
+  merchantItemId: string | null;
+  templateId: string | null;
+  name: string;
+  sku: string;
+  barcode: string | null;
+  priceCents: number | null;
+  isActive: boolean | null;
+  categoryNames: string[] | null;
+  changedFields: Record<string, InventoryImportFieldChange>;
+}
+
+export interface InventoryImportRowError {
+  rowNumber: number;
+  sku: string | null;
+  message: string;
+}
+
+export interface InventoryImportPlan {
+  creates: InventoryImportChange[];
+  updates: InventoryImportChange[];
+  unchangedCount: number;
+  errors: InventoryImportRowError[];
+}
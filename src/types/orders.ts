@@ -1,11 +1,37 @@
+import type { UnitType } from './inventory';
+
 export type PaymentMethod = 'cash' | 'card' | 'wallet';
 
+/** not_required for cash; card and wallet orders follow their payment intent */
+export type PaymentStatus = 'not_required' | 'pending' | 'authorized' | 'captured' | 'voided' | 'failed';
+
 export type OrderStatus =
   | 'pending'
   | 'confirmed'
+  | 'preparing'
+  | 'ready'
+  | 'ready_for_pickup'
   | 'out_for_delivery'
   | 'delivered'
-  | 'cancelled';
+  | 'cancelled'
+  | 'rejected';
+
+/** Why a merchant turned a pending order down */
+export type RejectionReasonCode =
+  | 'out_of_stock'
+  | 'shop_closed'
+  | 'too_busy'
+  | 'outside_delivery_area'
+  | 'other';
+
+/** How the order reaches the customer; pickup orders are collected at the shop */
+export type FulfilmentType = 'delivery' | 'pickup';
+
+/** What the consumer wants when an item turns out to be unavailable */
+export type SubstitutionPreference = 'substitute' | 'call_me' | 'remove';
+
+/** unavailable/substituted lines are kept for the record but not charged */
+export type OrderItemFulfilmentStatus = 'fulfilled' | 'unavailable' | 'substituted';
 
 export interface DeliveryAddress {
   id: string;
@@ -23,12 +49,25 @@ export interface OrderItem {
   id: string;
   order_id: string;
   merchant_item_id: string;
+  variant_id?: string | null;
+  /** Variant name at order time, e.g. "500g" */
+  variant_name?: string | null;
   item_name: string;
   item_description?: string | null;
   item_image_url?: string | null;
+  /** Price per unit_type at order time */
   item_price_cents: number;
+  unit_type?: UnitType;
+  /** Pieces, or kilograms/litres for weighted items (up to 3 decimals) */
   quantity: number;
   subtotal_cents: number;
+  /** Originally ordered amount; set once the packed weight has been recorded */
+  ordered_quantity?: number | null;
+  ordered_subtotal_cents?: number | null;
+  substitution_preference?: SubstitutionPreference;
+  fulfilment_status?: OrderItemFulfilmentStatus;
+  /** Set on substitute lines: the line they replace */
+  substitute_for_id?: string | null;
   created_at?: string;
 }
 
@@ -45,14 +84,28 @@ export interface Order {
   surcharge_cents: number;
   total_cents: number;
   payment_method: PaymentMethod;
+  payment_status?: PaymentStatus;
   special_instructions?: string | null;
   placed_at: string;
   confirmed_at?: string | null;
+  preparing_at?: string | null;
+  /** Delivery orders packed and waiting for a runner */
+  ready_at?: string | null;
   out_for_delivery_at?: string | null;
+  ready_for_pickup_at?: string | null;
+  /** For pickup orders, when the customer collected it */
   delivered_at?: string | null;
   cancelled_at?: string | null;
   cancellation_reason?: string | null;
   cancelled_by?: string | null;
+  rejected_at?: string | null;
+  rejection_reason_code?: RejectionReasonCode | null;
+  /** Optional note to the customer alongside the reason code */
+  rejection_note?: string | null;
+  /** Sum of approved return refunds */
+  refunded_cents?: number;
+  /** Store credit spent on the order; the rest is paid with payment_method */
+  wallet_credit_cents?: number;
   confirmation_time_seconds?: number | null;
   preparation_time_seconds?: number | null;
   delivery_time_seconds?: number | null;
@@ -60,6 +113,26 @@ export interface Order {
   customer_name?: string | null;
   customer_email?: string | null;
   customer_phone?: string | null;
+  idempotency_key?: string | null;
+  /** Checkout amounts, kept when packed weights or substitutions change the order */
+  original_subtotal_cents?: number | null;
+  original_total_cents?: number | null;
+  weight_adjusted_at?: string | null;
+  fulfilment_changed_at?: string | null;
+  /** Set while the merchant is confirming; the consumer can no longer edit */
+  confirmation_started_at?: string | null;
+  last_edited_at?: string | null;
+  /** Booked delivery slot; null for ASAP orders */
+  delivery_slot_id?: string | null;
+  /** Start of the booked slot occurrence */
+  scheduled_for?: string | null;
+  /** Subscription that placed the order, if any */
+  subscription_id?: string | null;
+  /** Grouped multi-shop checkout the order was placed in, if any */
+  order_group_id?: string | null;
+  fulfilment_type?: FulfilmentType;
+  /** Shown by the customer when collecting a pickup order */
+  pickup_code?: string | null;
   created_at?: string;
   updated_at?: string;
 }
@@ -68,6 +141,27 @@ export interface OrderWithItems extends Order {
   order_items: OrderItem[];
 }
 
+export interface OrderEditChange {
+  item_name: string;
+  variant_name?: string | null;
+  unit_type?: UnitType;
+  /** 0 when the line was added */
+  previous_quantity: number;
+  /** 0 when the line was removed */
+  new_quantity: number;
+}
+
+/** Lines the consumer changed while the order was pending */
+export interface OrderEdit {
+  id: string;
+  order_id: string;
+  changes: OrderEditChange[];
+  previous_total_cents: number;
+  new_total_cents: number;
+  edited_by?: string | null;
+  created_at: string;
+}
+
 export interface ShopSummary {
   id: string;
   name: string;
@@ -87,19 +181,104 @@ export interface DeliveryRunnerSummary {
 export interface OrderWithAll extends OrderWithItems {
   shop?: ShopSummary | null;
   delivery_runner?: DeliveryRunnerSummary | null;
+  order_edits?: OrderEdit[];
 }
 
 export interface PlaceOrderRequest {
   shop_id: string;
   consumer_address_id: string;
-  items: Array<{ merchant_item_id: string; quantity: number }>;
+  items: Array<{
+    merchant_item_id: string;
+    variant_id?: string | null;
+    quantity: number;
+    substitution_preference?: SubstitutionPreference;
+  }>;
   payment_method: PaymentMethod;
   special_instructions?: string | null;
+  /** Client-generated key; retries with the same key return the original order */
+  idempotency_key: string;
+  /** Omit both for an ASAP order */
+  delivery_slot_id?: string | null;
+  scheduled_for?: string | null;
+  /** Defaults to delivery */
+  fulfilment_type?: FulfilmentType;
+  /** Store credit to spend on the order, capped at its total; debited with the order */
+  wallet_credit_cents?: number;
+}
+
+/** One shop's part of a grouped checkout */
+export type PlaceOrderGroupShopOrder = Pick<
+  PlaceOrderRequest,
+  'shop_id' | 'items' | 'delivery_slot_id' | 'scheduled_for' | 'fulfilment_type'
+>;
+
+export interface PlaceOrderGroupRequest {
+  consumer_address_id: string;
+  shop_orders: PlaceOrderGroupShopOrder[];
+  payment_method: PaymentMethod;
+  special_instructions?: string | null;
+  /** Client-generated key; retries with the same key return the original group */
+  idempotency_key: string;
+  /** Store credit to spend, shop by shop until used up; debited with the orders */
+  wallet_credit_cents?: number;
+}
+
+export interface OrderGroup {
+  id: string;
+  user_id: string;
+  consumer_address_id?: string | null;
+  payment_method: PaymentMethod;
+  created_at: string;
+  orders: OrderWithItems[];
+}
+
+export interface PlaceOrderGroupResponse {
+  success: boolean;
+  message?: string;
+  error_code?: PlaceOrderErrorCode;
+  /** Shop whose order failed; the whole group is rolled back */
+  failed_shop_id?: string | null;
+  group: OrderGroup | null;
+}
+
+export type PlaceOrderErrorCode =
+  | 'NOT_AUTHENTICATED'
+  | 'ADDRESS_NOT_FOUND'
+  | 'ADDRESS_INVALID'
+  | 'SHOP_NOT_FOUND'
+  | 'SHOP_CLOSED'
+  | 'EMPTY_ORDER'
+  | 'INVALID_QUANTITY'
+  | 'ITEM_NOT_FOUND'
+  | 'ITEM_UNAVAILABLE'
+  | 'INSUFFICIENT_STOCK'
+  | 'VARIANT_REQUIRED'
+  | 'VARIANT_UNAVAILABLE'
+  | 'INVALID_SUBSTITUTION_PREFERENCE'
+  | 'SLOT_UNAVAILABLE'
+  | 'SLOT_FULL'
+  | 'DELIVERY_LOGIC_MISSING'
+  | 'DUPLICATE_SHOP'
+  | 'INVALID_FULFILMENT_TYPE'
+  | 'PICKUP_UNAVAILABLE'
+  | 'INVALID_WALLET_AMOUNT'
+  | 'INSUFFICIENT_WALLET_BALANCE'
+  | 'UNKNOWN';
+
+/** A line the merchant cannot supply as ordered, sent when confirming */
+export interface OrderLineChange {
+  order_item_id: string;
+  action: 'unavailable' | 'substitute';
+  substitute_item_id?: string;
+  substitute_variant_id?: string | null;
+  /** Defaults to the quantity of the replaced line */
+  quantity?: number;
 }
 
 export interface PlaceOrderResponse {
   success: boolean;
   message?: string;
+  error_code?: PlaceOrderErrorCode;
   order: OrderWithItems | null;
 }
 
@@ -130,7 +309,9 @@ export interface DeliveryRunnerWithStatus {
 
 export interface OrderAnalytics {
   total_orders: number;
+  /** Delivered order totals less approved refunds */
   total_revenue_cents: number;
+  total_refunded_cents?: number;
   average_order_value_cents: number;
   average_confirmation_time_seconds?: number;
   average_preparation_time_seconds?: number;
@@ -0,0 +1,40 @@
+import type { PaymentMethod } from './orders';
+
+export type PaymentIntentStatus = 'requires_authorization' | 'authorized' | 'captured' | 'voided' | 'failed';
+
+export interface PaymentIntent {
+  id: string;
+  order_id: string;
+  user_id: string;
+  /** Name of the PaymentProvider that handled it, e.g. "mock" */
+  provider: string;
+  payment_method: PaymentMethod;
+  /** Authorized amount: the order total plus headroom for packed weights */
+  amount_cents: number;
+  captured_amount_cents?: number | null;
+  status: PaymentIntentStatus;
+  provider_reference?: string | null;
+  failure_reason?: string | null;
+  authorized_at?: string | null;
+  captured_at?: string | null;
+  voided_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type PaymentTaskStatus = 'queued' | 'done' | 'failed';
+
+/** Capture or void of an intent, queued when its order is delivered, cancelled or rejected */
+export interface PaymentTask {
+  id: string;
+  intent_id: string;
+  order_id: string;
+  action: 'capture' | 'void';
+  /** queued is also used between retries; failed means retries ran out */
+  status: PaymentTaskStatus;
+  attempts: number;
+  last_error?: string | null;
+  next_attempt_at: string;
+  created_at: string;
+  updated_at: string;
+}
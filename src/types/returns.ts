@@ -0,0 +1,53 @@
+import type { Order, OrderItem } from './orders';
+
+export type OrderReturnStatus = 'requested' | 'approved' | 'rejected';
+
+/** Why the consumer is asking for a refund */
+export type ReturnReasonCode = 'missing' | 'damaged' | 'wrong_item' | 'poor_quality' | 'other';
+
+export interface OrderReturnItem {
+  id: string;
+  return_id: string;
+  order_item_id: string;
+  /** Pieces, or kilograms/litres for weighted items */
+  quantity: number;
+  /** Value of the returned quantity at the price paid */
+  amount_cents: number;
+}
+
+export interface OrderReturn {
+  id: string;
+  order_id: string;
+  shop_id: string;
+  user_id: string;
+  status: OrderReturnStatus;
+  reason_code: ReturnReasonCode;
+  note?: string | null;
+  /** Path in the private return-photos bucket; see getReturnPhotoUrl */
+  photo_path?: string | null;
+  requested_cents: number;
+  /** Set once approved; may be less than requested */
+  refund_cents?: number | null;
+  merchant_note?: string | null;
+  resolved_by?: string | null;
+  resolved_at?: string | null;
+  created_at: string;
+  updated_at: string;
+  items: OrderReturnItem[];
+}
+
+/** A return with the order details the merchant needs to decide on it */
+export interface OrderReturnWithOrder extends OrderReturn {
+  order:
+    | (Pick<Order, 'id' | 'order_number' | 'total_cents' | 'refunded_cents' | 'delivered_at'> & {
+        order_items: Array<Pick<OrderItem, 'id' | 'item_name' | 'variant_name' | 'unit_type' | 'quantity'>>;
+      })
+    | null;
+}
+
+export interface RequestOrderReturnInput {
+  lines: Array<{ order_item_id: string; quantity: number }>;
+  reason_code: ReturnReasonCode;
+  note?: string;
+  photo_path?: string | null;
+}
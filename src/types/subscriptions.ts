@@ -0,0 +1,79 @@
+import type { UnitType } from './inventory';
+import type { PaymentMethod, PlaceOrderRequest } from './orders';
+
+export type SubscriptionRecurrence = 'daily' | 'weekdays' | 'weekly';
+
+export type SubscriptionStatus = 'active' | 'paused' | 'cancelled' | 'ended';
+
+/** A place_order line, plus names kept for display */
+export type SubscriptionItem = PlaceOrderRequest['items'][number] & {
+  item_name?: string;
+  variant_name?: string | null;
+  unit_type?: UnitType;
+};
+
+export interface OrderSubscription {
+  id: string;
+  user_id: string;
+  shop_id: string;
+  consumer_address_id: string;
+  items: SubscriptionItem[];
+  payment_method: PaymentMethod;
+  special_instructions?: string | null;
+  recurrence: SubscriptionRecurrence;
+  /** 0 = Sunday ... 6 = Saturday; used for weekly subscriptions */
+  days_of_week: number[];
+  /** "HH:MM:SS" in the shop's timezone */
+  delivery_time: string;
+  starts_on: string;
+  ends_on?: string | null;
+  skip_dates: string[];
+  status: SubscriptionStatus;
+  /** Next delivery date; null unless active */
+  next_run_on?: string | null;
+  last_run_on?: string | null;
+  last_run_at?: string | null;
+  last_order_id?: string | null;
+  /** place_order error code of the last run, or MISSED */
+  last_error?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface OrderSubscriptionWithShop extends OrderSubscription {
+  shop?: { id: string; name: string; image_url?: string | null } | null;
+}
+
+export interface CreateSubscriptionInput {
+  shop_id: string;
+  consumer_address_id: string;
+  items: SubscriptionItem[];
+  /** Repeats have nobody at checkout to authorize a card, so only cash */
+  payment_method?: Extract<PaymentMethod, 'cash'>;
+  special_instructions?: string | null;
+  recurrence: SubscriptionRecurrence;
+  days_of_week?: number[];
+  delivery_time: string;
+  starts_on: string;
+  ends_on?: string | null;
+}
+
+export type UpdateSubscriptionInput = Partial<
+  Pick<OrderSubscription, 'recurrence' | 'days_of_week' | 'delivery_time' | 'ends_on' | 'skip_dates' | 'status'>
+>;
+
+export interface SubscriptionVolumeItem {
+  merchant_item_id: string;
+  variant_id?: string | null;
+  item_name: string;
+  variant_name?: string | null;
+  unit_type?: UnitType;
+  quantity: number;
+}
+
+/** Subscription deliveries a shop should expect on one day */
+export interface SubscriptionVolumeDay {
+  delivery_date: string;
+  subscription_count: number;
+  items: SubscriptionVolumeItem[];
+}
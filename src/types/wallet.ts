@@ -0,0 +1,27 @@
+export type WalletTransactionType =
+  | 'order_payment'
+  | 'order_cancelled'
+  | 'order_adjustment'
+  | 'refund'
+  | 'goodwill'
+  | 'promotion';
+
+export interface ConsumerWallet {
+  user_id: string;
+  balance_cents: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WalletTransaction {
+  id: string;
+  user_id: string;
+  transaction_type: WalletTransactionType;
+  /** Signed: credits are positive, spending is negative */
+  amount_cents: number;
+  balance_after_cents: number;
+  order_id?: string | null;
+  source_id?: string | null;
+  description?: string | null;
+  created_at: string;
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+
+import { calculateDeliveryPricing, type DeliveryPricingRules } from '../deliveryPricing';
+import pricingTable from './deliveryPricingCases.json';
+
+// The same table is replayed against `calculate_order_pricing` by
+// scripts/check-delivery-pricing-parity.cjs, so both sides stay in step.
+const rules: DeliveryPricingRules = pricingTable.rules;
+
+describe('calculateDeliveryPricing', () => {
+  it.each(pricingTable.cases)('$name', ({ subtotalCents, distanceInMeters, expected }) => {
+    const pricing = calculateDeliveryPricing({ subtotalCents, distanceInMeters }, rules);
+
+    expect({
+      tierFeeCents: pricing.tierFeeCents,
+      beyondTierUnits: pricing.beyondTierUnits,
+      beyondTierFeeCents: pricing.beyondTierFeeCents,
+      capApplied: pricing.capApplied,
+      freeDeliveryApplied: pricing.freeDeliveryApplied,
+      deliveryFeeCents: pricing.deliveryFeeCents,
+      surchargeCents: pricing.surchargeCents,
+      outOfZone: pricing.outOfZone,
+    }).toEqual(expected);
+    expect(pricing.totalCents).toBe(subtotalCents + expected.deliveryFeeCents + expected.surchargeCents);
+    expect(pricing.estimated).toBe(false);
+  });
+
+  it('estimates with the capped maximum fee when the distance is unknown', () => {
+    const pricing = calculateDeliveryPricing({ subtotalCents: 10000, distanceInMeters: null }, rules);
+
+    expect(pricing.estimated).toBe(true);
+    expect(pricing.matchedTier).toBeNull();
+    expect(pricing.deliveryFeeCents).toBe(6000);
+    expect(pricing.surchargeCents).toBe(2500);
+    expect(pricing.totalCents).toBe(18500);
+  });
+
+  it('charges only the surcharge when no tiers are configured', () => {
+    const pricing = calculateDeliveryPricing(
+      { subtotalCents: 10000, distanceInMeters: 900 },
+      { ...rules, distanceTiers: [] }
+    );
+
+    expect(pricing.matchedTier).toBeNull();
+    expect(pricing.deliveryFeeCents).toBe(0);
+    expect(pricing.outOfZone).toBe(false);
+    expect(pricing.totalCents).toBe(12500);
+  });
+
+  it('leaves the given tiers in their original order', () => {
+    const tiers = [...rules.distanceTiers];
+    calculateDeliveryPricing({ subtotalCents: 50000, distanceInMeters: 250 }, { ...rules, distanceTiers: tiers });
+
+    expect(tiers).toEqual(rules.distanceTiers);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+
+import { suggestImportColumnMapping } from '../../services/merchant/inventoryImportService';
+import type { InventoryItem } from '../../types/inventory';
+import { escapeCsvCell, INVENTORY_CSV_HEADERS, splitCsvCategories, toInventoryCsvLine } from '../inventoryCsv';
+
+describe('escapeCsvCell', () => {
+  it('quotes cells with delimiters, quotes or line breaks', () => {
+    expect(escapeCsvCell('Milk, full cream')).toBe('"Milk, full cream"');
+    expect(escapeCsvCell('Tea; green')).toBe('"Tea; green"');
+    expect(escapeCsvCell('12" pizza')).toBe('"12"" pizza"');
+    expect(escapeCsvCell('two\nlines')).toBe('"two\nlines"');
+  });
+
+  it('writes plain values as they are and missing values as empty cells', () => {
+    expect(escapeCsvCell('Bread')).toBe('Bread');
+    expect(escapeCsvCell(42)).toBe('42');
+    expect(escapeCsvCell(null)).toBe('');
+    expect(escapeCsvCell(undefined)).toBe('');
+  });
+});
+
+describe('toInventoryCsvLine', () => {
+  const item = {
+    name: 'Milk, "full cream"',
+    sku: 'MLK-1',
+    barcode: null,
+    priceCents: 12050,
+    categories: [{ name: 'Dairy' }, { name: 'Breakfast' }],
+    isActive: false,
+    currency: 'PKR',
+    templateId: null,
+    templateName: null,
+    timesSold: 3,
+    totalRevenueCents: 36150,
+  } as unknown as InventoryItem;
+
+  it('writes the columns in header order, quoting cells that need it', () => {
+    expect(toInventoryCsvLine(item)).toBe('"Milk, ""full cream""",MLK-1,,120.50,"Dairy; Breakfast",no,PKR,,,3,361.50\r\n');
+  });
+
+  it('uses headers the importer maps back onto the same columns', () => {
+    expect(suggestImportColumnMapping(INVENTORY_CSV_HEADERS)).toEqual({
+      name: 0,
+      sku: 1,
+      barcode: 2,
+      price: 3,
+      category: 4,
+      active: 5,
+    });
+  });
+
+  it('joins categories so the importer splits them into the exported names', () => {
+    expect(splitCsvCategories('Dairy; Breakfast')).toEqual(['Dairy', 'Breakfast']);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+
+import { suggestImportColumnMapping } from '../../services/merchant/inventoryImportService';
+
+describe('suggestImportColumnMapping', () => {
+  it('matches headers regardless of case, spacing and punctuation', () => {
+    expect(suggestImportColumnMapping(['  Item-Name ', 'PRODUCT CODE', 'EAN', 'Unit Price', 'Department', 'Is Active'])).toEqual({
+      name: 0,
+      sku: 1,
+      barcode: 2,
+      price: 3,
+      category: 4,
+      active: 5,
+    });
+  });
+
+  it('follows the columns when a sheet orders them differently', () => {
+    expect(suggestImportColumnMapping(['Price', 'Notes', 'SKU', 'Title'])).toEqual({ price: 0, sku: 2, name: 3 });
+  });
+
+  it('leaves fields without a recognised header unmapped', () => {
+    expect(suggestImportColumnMapping(['Description', 'Cost', 'Qty'])).toEqual({});
+    expect(suggestImportColumnMapping([])).toEqual({});
+  });
+
+  it('uses the first column when two headers match the same field', () => {
+    expect(suggestImportColumnMapping(['SKU', 'Code'])).toEqual({ sku: 0 });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+
+import type { OrderStatus } from '../../types/orders';
+import { canTransitionOrderStatus, getNextOrderStatuses, isTerminalOrderStatus } from '../orderStatus';
+
+const ALL_STATUSES: OrderStatus[] = [
+  'pending',
+  'confirmed',
+  'preparing',
+  'ready',
+  'ready_for_pickup',
+  'out_for_delivery',
+  'delivered',
+  'cancelled',
+  'rejected',
+];
+
+describe('canTransitionOrderStatus', () => {
+  it.each([
+    ['pending', 'preparing'],
+    ['pending', 'out_for_delivery'],
+    ['pending', 'delivered'],
+    ['confirmed', 'delivered'],
+    ['confirmed', 'rejected'],
+    ['preparing', 'confirmed'],
+    ['ready', 'preparing'],
+    ['ready', 'delivered'],
+    ['ready', 'ready_for_pickup'],
+    ['out_for_delivery', 'ready'],
+    ['out_for_delivery', 'rejected'],
+  ] as [OrderStatus, OrderStatus][])('refuses %s → %s for a delivery order', (from, to) => {
+    expect(canTransitionOrderStatus(from, to, 'delivery')).toBe(false);
+  });
+
+  it.each([
+    ['confirmed', 'ready'],
+    ['confirmed', 'out_for_delivery'],
+    ['preparing', 'ready'],
+    ['preparing', 'out_for_delivery'],
+    ['ready_for_pickup', 'out_for_delivery'],
+    ['ready_for_pickup', 'rejected'],
+  ] as [OrderStatus, OrderStatus][])('refuses %s → %s for a pickup order', (from, to) => {
+    expect(canTransitionOrderStatus(from, to, 'pickup')).toBe(false);
+  });
+
+  it('refuses the pickup counter for a delivery order', () => {
+    expect(canTransitionOrderStatus('confirmed', 'ready_for_pickup', 'delivery')).toBe(false);
+    expect(canTransitionOrderStatus('preparing', 'ready_for_pickup')).toBe(false);
+  });
+
+  it('refuses every move out of a terminal status', () => {
+    ALL_STATUSES.filter(isTerminalOrderStatus).forEach((from) => {
+      expect(getNextOrderStatuses(from, 'delivery')).toEqual([]);
+      expect(getNextOrderStatuses(from, 'pickup')).toEqual([]);
+    });
+  });
+
+  it('allows the delivery flow step by step', () => {
+    expect(canTransitionOrderStatus('pending', 'confirmed')).toBe(true);
+    expect(canTransitionOrderStatus('confirmed', 'preparing')).toBe(true);
+    expect(canTransitionOrderStatus('preparing', 'ready')).toBe(true);
+    expect(canTransitionOrderStatus('ready', 'out_for_delivery')).toBe(true);
+    expect(canTransitionOrderStatus('out_for_delivery', 'delivered')).toBe(true);
+  });
+
+  it('allows the pickup flow step by step', () => {
+    expect(canTransitionOrderStatus('confirmed', 'preparing', 'pickup')).toBe(true);
+    expect(canTransitionOrderStatus('preparing', 'ready_for_pickup', 'pickup')).toBe(true);
+    expect(canTransitionOrderStatus('ready_for_pickup', 'delivered', 'pickup')).toBe(true);
+  });
+
+  it('allows cancelling until the order is finished and rejecting only while pending', () => {
+    ALL_STATUSES.forEach((from) => {
+      expect(canTransitionOrderStatus(from, 'cancelled')).toBe(!isTerminalOrderStatus(from));
+      expect(canTransitionOrderStatus(from, 'rejected')).toBe(from === 'pending');
+    });
+  });
+});
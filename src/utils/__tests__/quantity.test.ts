@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  decreaseQuantity,
+  formatQuantity,
+  increaseQuantity,
+  isWithinAdjustmentTolerance,
+  lineSubtotalCents,
+  roundQuantity,
+} from '../quantity';
+
+const quarterKilo = { unit_type: 'kg' as const, quantity_step: 0.25, min_quantity: 0.5 };
+const tenthLitre = { unit_type: 'litre' as const, quantity_step: 0.1, min_quantity: null };
+
+describe('roundQuantity', () => {
+  it('keeps quantities to grams and millilitres', () => {
+    expect(roundQuantity(0.1 + 0.2)).toBe(0.3);
+    expect(roundQuantity(1.23456)).toBe(1.235);
+    expect(roundQuantity(2)).toBe(2);
+  });
+});
+
+describe('increaseQuantity / decreaseQuantity', () => {
+  it('starts an empty line at the minimum and steps from there', () => {
+    expect(increaseQuantity(0, quarterKilo)).toBe(0.5);
+    expect(increaseQuantity(0.5, quarterKilo)).toBe(0.75);
+    expect(decreaseQuantity(0.75, quarterKilo)).toBe(0.5);
+  });
+
+  it('removes the line when stepping below the minimum', () => {
+    expect(decreaseQuantity(0.5, quarterKilo)).toBe(0);
+  });
+
+  it('uses the step as the minimum and does not drift on repeated steps', () => {
+    let quantity = 0;
+    for (let press = 0; press < 7; press += 1) {
+      quantity = increaseQuantity(quantity, tenthLitre);
+    }
+    expect(quantity).toBe(0.7);
+
+    for (let press = 0; press < 6; press += 1) {
+      quantity = decreaseQuantity(quantity, tenthLitre);
+    }
+    expect(quantity).toBe(0.1);
+    expect(decreaseQuantity(quantity, tenthLitre)).toBe(0);
+  });
+
+  it('steps pieces one at a time when no rules are set', () => {
+    expect(increaseQuantity(0, {})).toBe(1);
+    expect(increaseQuantity(2, { unit_type: 'piece' })).toBe(3);
+    expect(decreaseQuantity(1, {})).toBe(0);
+  });
+});
+
+describe('lineSubtotalCents', () => {
+  it('rounds weighted lines to the nearest cent', () => {
+    expect(lineSubtotalCents(1999, 0.333)).toBe(666);
+    expect(lineSubtotalCents(45000, 0.75)).toBe(33750);
+    expect(lineSubtotalCents(1250, 1.5)).toBe(1875);
+    expect(lineSubtotalCents(1, 0.5)).toBe(1);
+  });
+});
+
+describe('formatQuantity', () => {
+  it('labels kilograms and litres and leaves pieces bare', () => {
+    expect(formatQuantity(0.75, 'kg')).toBe('0.75 kg');
+    expect(formatQuantity(0.1 + 0.2, 'litre')).toBe('0.3 L');
+    expect(formatQuantity(3, 'piece')).toBe('3');
+    expect(formatQuantity(2)).toBe('2');
+  });
+});
+
+describe('isWithinAdjustmentTolerance', () => {
+  it('accepts packed weights up to 10% either side of the order', () => {
+    expect(isWithinAdjustmentTolerance(1, 1.1)).toBe(true);
+    expect(isWithinAdjustmentTolerance(1, 0.9)).toBe(true);
+    expect(isWithinAdjustmentTolerance(0.5, 0.55)).toBe(true);
+  });
+
+  it('rejects weights outside the tolerance and empty packs', () => {
+    expect(isWithinAdjustmentTolerance(1, 1.101)).toBe(false);
+    expect(isWithinAdjustmentTolerance(1, 0.899)).toBe(false);
+    expect(isWithinAdjustmentTolerance(1, 0)).toBe(false);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+
+import type { ShopItem } from '../../services/consumer/shopService';
+import type { OrderItem, OrderWithAll } from '../../types/orders';
+import { describeCartLineChange } from '../cartReconciliation';
+import { reconcileReorder } from '../reorder';
+
+function shopItem(overrides: Partial<ShopItem> & Pick<ShopItem, 'id' | 'name'>): ShopItem {
+  return {
+    description: null,
+    image_url: null,
+    price_cents: 1000,
+    currency: 'PKR',
+    is_active: true,
+    available_quantity: null,
+    unit_type: 'piece',
+    quantity_step: 1,
+    min_quantity: 1,
+    variant_label: null,
+    variants: [],
+    categories: [],
+    ...overrides,
+  };
+}
+
+function orderItem(overrides: Partial<OrderItem> & Pick<OrderItem, 'id' | 'merchant_item_id' | 'item_name'>): OrderItem {
+  return {
+    order_id: 'order-1',
+    item_price_cents: 1000,
+    unit_type: 'piece',
+    quantity: 1,
+    subtotal_cents: 1000,
+    ...overrides,
+  };
+}
+
+function pastOrder(items: OrderItem[]) {
+  return {
+    id: 'order-1',
+    shop_id: 'shop-1',
+    shop: { name: 'Corner Store' },
+    order_items: items,
+  } as unknown as OrderWithAll;
+}
+
+describe('reconcileReorder', () => {
+  it('reorders unchanged items as they were', () => {
+    const { items, changes } = reconcileReorder(
+      pastOrder([orderItem({ id: 'line-1', merchant_item_id: 'bread', item_name: 'Bread', quantity: 2 })]),
+      [shopItem({ id: 'bread', name: 'Bread' })]
+    );
+
+    expect(changes).toEqual([]);
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ id: 'bread', shopId: 'shop-1', shopName: 'Corner Store', quantity: 2, price_cents: 1000 });
+  });
+
+  it('prices lines at the current price and lists the change', () => {
+    const { items, changes } = reconcileReorder(
+      pastOrder([orderItem({ id: 'line-1', merchant_item_id: 'milk', item_name: 'Milk', item_price_cents: 12000 })]),
+      [shopItem({ id: 'milk', name: 'Milk', price_cents: 15000 })]
+    );
+
+    expect(items[0].price_cents).toBe(15000);
+    expect(changes).toEqual([
+      expect.objectContaining({ kind: 'price_changed', previous_price_cents: 12000, price_cents: 15000 }),
+    ]);
+    expect(describeCartLineChange(changes[0])).toBe('Milk Rs 120 → Rs 150');
+  });
+
+  it('cuts quantities down to the stock left', () => {
+    const { items, changes } = reconcileReorder(
+      pastOrder([orderItem({ id: 'line-1', merchant_item_id: 'eggs', item_name: 'Eggs', quantity: 5 })]),
+      [shopItem({ id: 'eggs', name: 'Eggs', available_quantity: 3 })]
+    );
+
+    expect(items[0].quantity).toBe(3);
+    expect(changes).toEqual([
+      expect.objectContaining({ kind: 'quantity_changed', previous_quantity: 5, quantity: 3, reason: 'stock' }),
+    ]);
+    expect(describeCartLineChange(changes[0])).toBe('Eggs 5 → 3 (limited stock)');
+  });
+
+  it('shares stock between variant lines of one item', () => {
+    const variants = [
+      { id: 'small', name: '500g', price_cents: 500 },
+      { id: 'large', name: '1kg', price_cents: 900 },
+    ];
+    const { items, changes } = reconcileReorder(
+      pastOrder([
+        orderItem({ id: 'line-1', merchant_item_id: 'rice', item_name: 'Rice', variant_id: 'small', variant_name: '500g', item_price_cents: 500, quantity: 2 }),
+        orderItem({ id: 'line-2', merchant_item_id: 'rice', item_name: 'Rice', variant_id: 'large', variant_name: '1kg', item_price_cents: 900, quantity: 2 }),
+      ]),
+      [shopItem({ id: 'rice', name: 'Rice', available_quantity: 3, variants })]
+    );
+
+    expect(items.map((line) => [line.variant_id, line.quantity])).toEqual([
+      ['small', 2],
+      ['large', 1],
+    ]);
+    expect(changes).toEqual([expect.objectContaining({ kind: 'quantity_changed', variant_name: '1kg', quantity: 1 })]);
+  });
+
+  it('rounds weighted lines down to a whole step of the stock left', () => {
+    const { items, changes } = reconcileReorder(
+      pastOrder([
+        orderItem({ id: 'line-1', merchant_item_id: 'beef', item_name: 'Beef', unit_type: 'kg', quantity: 1.5, ordered_quantity: 1.5 }),
+      ]),
+      [shopItem({ id: 'beef', name: 'Beef', unit_type: 'kg', quantity_step: 0.25, min_quantity: 0.5, available_quantity: 1.1 })]
+    );
+
+    expect(items[0].quantity).toBe(1);
+    expect(describeCartLineChange(changes[0])).toBe('Beef 1.5 kg → 1 kg (limited stock)');
+  });
+
+  it('drops items that are out of stock, deactivated or in a retired option', () => {
+    const { items, changes } = reconcileReorder(
+      pastOrder([
+        orderItem({ id: 'line-1', merchant_item_id: 'eggs', item_name: 'Eggs' }),
+        orderItem({ id: 'line-2', merchant_item_id: 'gone', item_name: 'Cake' }),
+        orderItem({ id: 'line-3', merchant_item_id: 'rice', item_name: 'Rice', variant_id: 'old', variant_name: '5kg' }),
+      ]),
+      [
+        shopItem({ id: 'eggs', name: 'Eggs', available_quantity: 0 }),
+        shopItem({ id: 'rice', name: 'Rice', variants: [{ id: 'small', name: '500g', price_cents: 500 }] }),
+      ]
+    );
+
+    expect(items).toEqual([]);
+    expect(changes.map((change) => change.kind)).toEqual(['out_of_stock', 'unavailable', 'variant_unavailable']);
+  });
+
+  it('reorders what was ordered rather than its substitutes', () => {
+    const { items, changes } = reconcileReorder(
+      pastOrder([
+        orderItem({ id: 'line-1', merchant_item_id: 'milk', item_name: 'Milk', fulfilment_status: 'substituted' }),
+        orderItem({ id: 'line-2', merchant_item_id: 'oat-milk', item_name: 'Oat milk', substitute_for_id: 'line-1' }),
+      ]),
+      [shopItem({ id: 'milk', name: 'Milk' }), shopItem({ id: 'oat-milk', name: 'Oat milk' })]
+    );
+
+    expect(changes).toEqual([]);
+    expect(items.map((line) => line.id)).toEqual(['milk']);
+  });
+});
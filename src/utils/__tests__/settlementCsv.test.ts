@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+
+import type { SettlementTotals, ShopLedgerEntry } from '../../services/merchant/settlementService';
+import { formatCentsForCsv } from '../inventoryCsv';
+import { toSettlementCsv } from '../settlementCsv';
+
+function entry(overrides: Partial<ShopLedgerEntry> & Pick<ShopLedgerEntry, 'entryType' | 'amountCents'>): ShopLedgerEntry {
+  return {
+    id: 'entry-1',
+    orderId: null,
+    orderNumber: null,
+    description: null,
+    statementId: null,
+    createdAt: '2026-10-01T09:30:00Z',
+    ...overrides,
+  };
+}
+
+const totals: SettlementTotals = {
+  orderCount: 1,
+  orderRevenueCents: 250000,
+  cashCollectedCents: -100000,
+  commissionCents: -25005,
+  refundCents: -1050,
+  adjustmentCents: 5,
+  payoutCents: -99995,
+};
+
+describe('formatCentsForCsv', () => {
+  it('keeps the sign and two decimals', () => {
+    expect(formatCentsForCsv(12345)).toBe('123.45');
+    expect(formatCentsForCsv(-12345)).toBe('-123.45');
+    expect(formatCentsForCsv(-5)).toBe('-0.05');
+    expect(formatCentsForCsv(0)).toBe('0.00');
+  });
+});
+
+describe('toSettlementCsv', () => {
+  const entries = [
+    entry({ entryType: 'order_revenue', amountCents: 250000, orderNumber: 'ab12cd', description: 'Order AB12CD' }),
+    entry({ entryType: 'commission', amountCents: -25005, orderNumber: 'ab12cd', description: '10% commission' }),
+    entry({ entryType: 'refund', amountCents: -1050, description: 'Refund: "damaged", eggs' }),
+    entry({ entryType: 'adjustment', amountCents: 5, description: 'Rounding\ncorrection' }),
+  ];
+
+  const lines = toSettlementCsv(entries, totals, -2000, 22855).split('\r\n');
+
+  it('writes one row per entry with signed amounts', () => {
+    expect(lines.slice(0, 5)).toEqual([
+      'Date,Type,Order,Description,Amount',
+      '2026-10-01,Order revenue,AB12CD,Order AB12CD,2500.00',
+      '2026-10-01,Commission,AB12CD,10% commission,-250.05',
+      '2026-10-01,Refund,,"Refund: ""damaged"", eggs",-10.50',
+      '2026-10-01,Adjustment,,"Rounding\ncorrection",0.05',
+    ]);
+  });
+
+  it('ends with the opening balance, signed totals and the closing balance', () => {
+    expect(lines.slice(5)).toEqual([
+      '',
+      ',Opening balance,,,-20.00',
+      ',Order revenue,1,orders,2500.00',
+      ',Cash collected by shop,,,-1000.00',
+      ',Commission,,,-250.05',
+      ',Refund,,,-10.50',
+      ',Adjustment,,,0.05',
+      ',Payout,,,-999.95',
+      ',Closing balance,,,228.55',
+      '',
+    ]);
+  });
+});
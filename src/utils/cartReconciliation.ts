@@ -0,0 +1,136 @@
+import type { CartItem } from '../stores/cartStore';
+import type { ShopItem } from '../services/consumer/shopService';
+import type { UnitType } from '../types/inventory';
+import { formatQuantity, getMinQuantity, getQuantityStep, roundQuantity } from './quantity';
+
+export type CartLineChangeKind = 'unavailable' | 'variant_unavailable' | 'out_of_stock' | 'quantity_changed' | 'price_changed';
+
+export interface CartLineChange {
+  kind: CartLineChangeKind;
+  item_name: string;
+  variant_name?: string | null;
+  unit_type?: UnitType;
+  previous_price_cents?: number;
+  price_cents?: number;
+  previous_quantity?: number;
+  quantity?: number;
+  /** Why a quantity changed: limited stock, or the item's new quantity rules */
+  reason?: 'stock' | 'rules';
+}
+
+export interface CartReconciliation {
+  /** Lines that can still be ordered, at current prices and quantities */
+  items: CartItem[];
+  changes: CartLineChange[];
+}
+
+/** Largest multiple of the item's step not above `limit` */
+function floorToStep(limit: number, step: number) {
+  return roundQuantity(Math.floor(roundQuantity(limit / step)) * step);
+}
+
+/** Bring a quantity in line with the item's current minimum and step */
+function fitQuantityRules(quantity: number, item: ShopItem) {
+  const min = getMinQuantity(item);
+  if (quantity <= min) return min;
+  const step = getQuantityStep(item);
+  return roundQuantity(min + Math.round(roundQuantity((quantity - min) / step)) * step);
+}
+
+/**
+ * Check cart lines against the shop's current items and list every
+ * difference. `currentItems` holds the shop's active items only, so a line
+ * whose item is missing was deactivated or deleted.
+ */
+export function reconcileCartItems(lines: CartItem[], currentItems: ShopItem[]): CartReconciliation {
+  const itemsById = new Map(currentItems.map((item) => [item.id, item]));
+  // Stock is tracked per item, so variant lines of one item share it
+  const remainingStock = new Map<string, number>();
+  const items: CartItem[] = [];
+  const changes: CartLineChange[] = [];
+
+  lines.forEach((line) => {
+    const base = {
+      item_name: line.name,
+      variant_name: line.variant_name ?? null,
+      unit_type: line.unit_type,
+    };
+    const current = itemsById.get(line.id);
+    if (!current) {
+      changes.push({ ...base, kind: 'unavailable' });
+      return;
+    }
+
+    // Items that gained options need one picked; retired options can't be ordered
+    const variant = line.variant_id ? current.variants.find((option) => option.id === line.variant_id) : null;
+    if ((line.variant_id && !variant) || (!line.variant_id && current.variants.length > 0)) {
+      changes.push({ ...base, kind: 'variant_unavailable' });
+      return;
+    }
+
+    let quantity = fitQuantityRules(line.quantity, current);
+    let reason: CartLineChange['reason'] = 'rules';
+
+    if (current.available_quantity !== null) {
+      const stock = remainingStock.get(current.id) ?? current.available_quantity;
+      if (quantity > stock) {
+        quantity = floorToStep(stock, getQuantityStep(current));
+        reason = 'stock';
+      }
+      if (quantity < getMinQuantity(current)) {
+        changes.push({ ...base, kind: 'out_of_stock' });
+        return;
+      }
+      remainingStock.set(current.id, roundQuantity(stock - quantity));
+    }
+
+    if (quantity !== roundQuantity(line.quantity)) {
+      changes.push({ ...base, kind: 'quantity_changed', previous_quantity: line.quantity, quantity, reason });
+    }
+
+    const priceCents = variant ? variant.price_cents : current.price_cents;
+    if (priceCents !== line.price_cents) {
+      changes.push({ ...base, kind: 'price_changed', previous_price_cents: line.price_cents, price_cents: priceCents });
+    }
+
+    items.push({
+      ...line,
+      name: current.name,
+      description: current.description ?? undefined,
+      image_url: current.image_url ?? undefined,
+      variant_id: variant?.id ?? null,
+      variant_name: variant?.name ?? null,
+      price_cents: priceCents,
+      unit_type: current.unit_type,
+      quantity_step: current.quantity_step,
+      min_quantity: current.min_quantity,
+      quantity,
+    });
+  });
+
+  return { items, changes };
+}
+
+const formatRupees = (cents: number) => `Rs ${Math.round(cents / 100).toLocaleString()}`;
+
+/** "Eggs is no longer available", "Milk 3 → 2 (limited stock)", "Bread Rs 120 → Rs 150" */
+export function describeCartLineChange(change: CartLineChange) {
+  const name = change.variant_name ? `${change.item_name} (${change.variant_name})` : change.item_name;
+  switch (change.kind) {
+    case 'unavailable':
+      return `${name} is no longer available`;
+    case 'variant_unavailable':
+      return change.variant_name
+        ? `${name} is no longer offered in this option`
+        : `${name} now comes in options; pick one in the shop`;
+    case 'out_of_stock':
+      return `${name} is out of stock`;
+    case 'quantity_changed':
+      return `${name} ${formatQuantity(change.previous_quantity ?? 0, change.unit_type)} → ${formatQuantity(
+        change.quantity ?? 0,
+        change.unit_type
+      )} (${change.reason === 'stock' ? 'limited stock' : 'new quantity rules'})`;
+    case 'price_changed':
+      return `${name} ${formatRupees(change.previous_price_cents ?? 0)} → ${formatRupees(change.price_cents ?? 0)}`;
+  }
+}
@@ -0,0 +1,147 @@
+import type { DeliveryLogic, DistanceTier } from '../services/merchant/deliveryLogicService';
+
+/**
+ * Delivery pricing engine
+ *
+ * The one place delivery fees and small-order surcharges are computed on the
+ * client. `calculate_order_pricing` in the database mirrors these rules
+ * exactly, so the shop list, the side cart, checkout and `place_order` all
+ * agree on what a customer pays.
+ *
+ * Rules (all amounts in cents):
+ * 1. Tiers are matched in ascending `max_distance` order; the first tier whose
+ *    `max_distance` covers the distance sets the fee.
+ * 2. Past the last tier the fee is the last tier's fee plus
+ *    `ceil(excess / beyondTierDistanceUnit) * beyondTierFeePerUnit`.
+ * 3. `maxDeliveryFee` caps the resulting delivery fee.
+ * 4. Free delivery (subtotal >= threshold and distance <= radius) waives the
+ *    delivery fee only.
+ * 5. The small-order surcharge applies whenever the subtotal is below
+ *    `minimumOrderValue` and is never folded into the delivery fee.
+ */
+
+export type DeliveryPricingRules = Pick<
+  DeliveryLogic,
+  | 'minimumOrderValue'
+  | 'smallOrderSurcharge'
+  | 'maxDeliveryFee'
+  | 'distanceTiers'
+  | 'beyondTierFeePerUnit'
+  | 'beyondTierDistanceUnit'
+  | 'freeDeliveryThreshold'
+  | 'freeDeliveryRadius'
+>;
+
+export type DeliveryPricingInput = {
+  subtotalCents: number;
+  /** Straight-line distance; null when either location is unknown */
+  distanceInMeters: number | null;
+};
+
+export type DeliveryPricingBreakdown = {
+  subtotalCents: number;
+  distanceInMeters: number | null;
+  /** Tier that covered the distance, or the last tier when beyond all tiers */
+  matchedTier: DistanceTier | null;
+  tierFeeCents: number;
+  beyondTierUnits: number;
+  beyondTierFeeCents: number;
+  capApplied: boolean;
+  freeDeliveryApplied: boolean;
+  deliveryFeeCents: number;
+  surchargeCents: number;
+  totalCents: number;
+  /** Distance lies past the furthest configured tier */
+  outOfZone: boolean;
+  /** No distance was available, so the capped maximum fee was used */
+  estimated: boolean;
+};
+
+export function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+/**
+ * Tiers in ascending distance order, without mutating the caller's array
+ */
+export function sortDistanceTiers(tiers: DistanceTier[] | null | undefined): DistanceTier[] {
+  return [...(tiers ?? [])].sort((a, b) => a.max_distance - b.max_distance);
+}
+
+/**
+ * Small-order surcharge for a subtotal
+ */
+export function calculateSurchargeCents(subtotalCents: number, rules: DeliveryPricingRules): number {
+  return subtotalCents < toCents(rules.minimumOrderValue) ? toCents(rules.smallOrderSurcharge) : 0;
+}
+
+/**
+ * Itemized delivery fee, surcharge and total for a shop order
+ */
+export function calculateDeliveryPricing(
+  input: DeliveryPricingInput,
+  rules: DeliveryPricingRules
+): DeliveryPricingBreakdown {
+  const { subtotalCents, distanceInMeters } = input;
+  const maxFeeCents = toCents(rules.maxDeliveryFee);
+  const surchargeCents = calculateSurchargeCents(subtotalCents, rules);
+
+  // Without a distance we can only estimate with the highest possible fee
+  if (distanceInMeters == null) {
+    return {
+      subtotalCents,
+      distanceInMeters: null,
+      matchedTier: null,
+      tierFeeCents: maxFeeCents,
+      beyondTierUnits: 0,
+      beyondTierFeeCents: 0,
+      capApplied: false,
+      freeDeliveryApplied: false,
+      deliveryFeeCents: maxFeeCents,
+      surchargeCents,
+      totalCents: subtotalCents + maxFeeCents + surchargeCents,
+      outOfZone: false,
+      estimated: true,
+    };
+  }
+
+  const tiers = sortDistanceTiers(rules.distanceTiers);
+  const lastTier = tiers.length > 0 ? tiers[tiers.length - 1] : null;
+
+  let matchedTier: DistanceTier | null = tiers.find((tier) => distanceInMeters <= tier.max_distance) ?? null;
+  let beyondTierUnits = 0;
+
+  if (!matchedTier && lastTier) {
+    matchedTier = lastTier;
+    beyondTierUnits =
+      rules.beyondTierDistanceUnit > 0
+        ? Math.ceil((distanceInMeters - lastTier.max_distance) / rules.beyondTierDistanceUnit)
+        : 0;
+  }
+
+  const tierFeeCents = matchedTier ? toCents(matchedTier.fee) : 0;
+  const beyondTierFeeCents = beyondTierUnits * toCents(rules.beyondTierFeePerUnit);
+  const uncappedFeeCents = tierFeeCents + beyondTierFeeCents;
+  const capApplied = uncappedFeeCents > maxFeeCents;
+
+  const freeDeliveryApplied =
+    subtotalCents >= toCents(rules.freeDeliveryThreshold) && distanceInMeters <= rules.freeDeliveryRadius;
+
+  const deliveryFeeCents = freeDeliveryApplied ? 0 : Math.min(uncappedFeeCents, maxFeeCents);
+
+  return {
+    subtotalCents,
+    distanceInMeters,
+    matchedTier,
+    tierFeeCents,
+    beyondTierUnits,
+    beyondTierFeeCents,
+    capApplied: !freeDeliveryApplied && capApplied,
+    freeDeliveryApplied,
+    deliveryFeeCents,
+    surchargeCents,
+    totalCents: subtotalCents + deliveryFeeCents + surchargeCents,
+    outOfZone: lastTier != null && distanceInMeters > lastTier.max_distance,
+    estimated: false,
+  };
+}
@@ -0,0 +1,63 @@
+import type { InventoryItem } from '../types/inventory';
+
+/**
+ * Shared CSV layout for inventory export and import. The first six columns
+ * use headers that suggestImportColumnMapping() recognises, so an exported
+ * file can be edited and uploaded again without remapping.
+ */
+
+/** Separates several category names inside one Category cell */
+export const INVENTORY_CSV_CATEGORY_SEPARATOR = ';';
+
+export const INVENTORY_CSV_HEADERS = [
+  'Name',
+  'SKU',
+  'Barcode',
+  'Price',
+  'Category',
+  'Active',
+  'Currency',
+  'Template ID',
+  'Template Name',
+  'Times Sold',
+  'Total Revenue',
+];
+
+export function escapeCsvCell(value: string | number | null | undefined) {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n;]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvLine(values: Array<string | number | null | undefined>) {
+  return `${values.map(escapeCsvCell).join(',')}\r\n`;
+}
+
+export function formatCentsForCsv(cents: number) {
+  return (cents / 100).toFixed(2);
+}
+
+export function splitCsvCategories(value: string) {
+  return value
+    .split(INVENTORY_CSV_CATEGORY_SEPARATOR)
+    .map((name) => name.trim())
+    .filter((name) => name.length > 0);
+}
+
+export function toInventoryCsvLine(item: InventoryItem) {
+  return toCsvLine([
+    item.name,
+    item.sku,
+    item.barcode,
+    formatCentsForCsv(item.priceCents),
+    item.categories.map((category) => category.name).join(`${INVENTORY_CSV_CATEGORY_SEPARATOR} `),
+    item.isActive ? 'yes' : 'no',
+    item.currency,
+    item.templateId,
+    item.templateName,
+    item.timesSold,
+    formatCentsForCsv(item.totalRevenueCents),
+  ]);
+}
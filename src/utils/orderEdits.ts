@@ -0,0 +1,20 @@
+import type { OrderEdit, OrderEditChange } from '../types/orders';
+import { formatQuantity } from './quantity';
+
+/** Most recent consumer edit of an order, if any */
+export function getLatestOrderEdit(edits?: OrderEdit[] | null): OrderEdit | null {
+  if (!edits || edits.length === 0) return null;
+  return edits.reduce((latest, edit) => (edit.created_at > latest.created_at ? edit : latest));
+}
+
+/** "Added Milk × 2", "Removed Eggs", "Bread 2 → 3" */
+export function describeOrderEditChange(change: OrderEditChange) {
+  const name = change.variant_name ? `${change.item_name} (${change.variant_name})` : change.item_name;
+  if (change.previous_quantity === 0) {
+    return `Added ${name} × ${formatQuantity(change.new_quantity, change.unit_type)}`;
+  }
+  if (change.new_quantity === 0) {
+    return `Removed ${name}`;
+  }
+  return `${name} ${formatQuantity(change.previous_quantity, change.unit_type)} → ${formatQuantity(change.new_quantity, change.unit_type)}`;
+}
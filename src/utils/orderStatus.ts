@@ -0,0 +1,73 @@
+import type { FulfilmentType, Order, OrderStatus, PaymentStatus, RejectionReasonCode } from '../types/orders';
+import type { OrderReturnStatus, ReturnReasonCode } from '../types/returns';
+
+/** Statuses an order never leaves */
+export function isTerminalOrderStatus(status: OrderStatus | string) {
+  return status === 'delivered' || status === 'cancelled' || status === 'rejected';
+}
+
+/**
+ * Statuses an order may move to next. Mirrors validate_order_status_transition;
+ * rejections still go through reject_order and pickup hand-overs through
+ * verify_pickup_code.
+ */
+export function getNextOrderStatuses(status: OrderStatus | string, fulfilmentType: FulfilmentType = 'delivery'): OrderStatus[] {
+  switch (status) {
+    case 'pending':
+      return ['confirmed', 'cancelled', 'rejected'];
+    case 'confirmed':
+    case 'preparing':
+      return fulfilmentType === 'pickup'
+        ? ['preparing', 'ready_for_pickup', 'cancelled']
+        : ['preparing', 'ready', 'out_for_delivery', 'cancelled'];
+    case 'ready':
+      return ['out_for_delivery', 'cancelled'];
+    case 'out_for_delivery':
+    case 'ready_for_pickup':
+      return ['delivered', 'cancelled'];
+    default:
+      return [];
+  }
+}
+
+export function canTransitionOrderStatus(from: OrderStatus | string, to: OrderStatus, fulfilmentType?: FulfilmentType) {
+  return getNextOrderStatuses(from, fulfilmentType).includes(to);
+}
+
+export const REJECTION_REASON_LABELS: Record<RejectionReasonCode, string> = {
+  out_of_stock: 'Items out of stock',
+  shop_closed: 'Shop is closed',
+  too_busy: 'Shop is too busy',
+  outside_delivery_area: 'Outside the delivery area',
+  other: 'Other reason',
+};
+
+/** "Items out of stock — Milk ran out this morning" */
+export function describeOrderRejection(order: Pick<Order, 'rejection_reason_code' | 'rejection_note'>) {
+  if (!order.rejection_reason_code) return null;
+  const label = REJECTION_REASON_LABELS[order.rejection_reason_code] ?? order.rejection_reason_code;
+  return order.rejection_note ? `${label} — ${order.rejection_note}` : label;
+}
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  not_required: 'Pay on delivery',
+  pending: 'Awaiting authorization',
+  authorized: 'Authorized',
+  captured: 'Charged',
+  voided: 'Released',
+  failed: 'Declined',
+};
+
+export const RETURN_REASON_LABELS: Record<ReturnReasonCode, string> = {
+  missing: 'Items missing',
+  damaged: 'Items damaged',
+  wrong_item: 'Wrong item delivered',
+  poor_quality: 'Poor quality',
+  other: 'Something else',
+};
+
+export const RETURN_STATUS_LABELS: Record<OrderReturnStatus, string> = {
+  requested: 'Awaiting the shop',
+  approved: 'Refund approved',
+  rejected: 'Declined',
+};
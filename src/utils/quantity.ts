@@ -0,0 +1,74 @@
+import type { UnitType } from '../types/inventory';
+
+/**
+ * Quantity helpers for items sold by the piece, kilogram or litre.
+ *
+ * Quantities are kept to three decimals (grams / millilitres) so repeated
+ * steps such as 0.1 + 0.2 never drift, and line subtotals are rounded to
+ * the nearest cent exactly like `place_order` does.
+ */
+
+export interface QuantityRules {
+  unit_type?: UnitType | null;
+  quantity_step?: number | null;
+  min_quantity?: number | null;
+}
+
+export const UNIT_LABELS: Record<UnitType, string> = {
+  piece: 'pc',
+  kg: 'kg',
+  litre: 'L',
+};
+
+export function isWeightedUnit(unitType?: UnitType | null) {
+  return unitType === 'kg' || unitType === 'litre';
+}
+
+export function roundQuantity(quantity: number) {
+  return Math.round(quantity * 1000) / 1000;
+}
+
+export function getQuantityStep(rules: QuantityRules) {
+  return rules.quantity_step && rules.quantity_step > 0 ? rules.quantity_step : 1;
+}
+
+export function getMinQuantity(rules: QuantityRules) {
+  return rules.min_quantity && rules.min_quantity > 0 ? rules.min_quantity : getQuantityStep(rules);
+}
+
+/** Next quantity after pressing "+"; an empty line starts at the minimum */
+export function increaseQuantity(current: number, rules: QuantityRules) {
+  if (current <= 0) {
+    return getMinQuantity(rules);
+  }
+  return roundQuantity(current + getQuantityStep(rules));
+}
+
+/** Next quantity after pressing "−"; 0 means the line should be removed */
+export function decreaseQuantity(current: number, rules: QuantityRules) {
+  const next = roundQuantity(current - getQuantityStep(rules));
+  return next < getMinQuantity(rules) ? 0 : next;
+}
+
+/**
+ * Packed weights may differ from the ordered amount by at most this fraction.
+ * Mirrors v_tolerance in adjust_order_item_quantities.
+ */
+export const WEIGHT_ADJUSTMENT_TOLERANCE = 0.1;
+
+export function isWithinAdjustmentTolerance(orderedQuantity: number, packedQuantity: number) {
+  return (
+    packedQuantity > 0 &&
+    Math.abs(roundQuantity(packedQuantity) - orderedQuantity) <= orderedQuantity * WEIGHT_ADJUSTMENT_TOLERANCE + 1e-9
+  );
+}
+
+export function lineSubtotalCents(priceCents: number, quantity: number) {
+  return Math.round(priceCents * quantity);
+}
+
+/** "3" for pieces, "0.75 kg" / "1.5 L" for weighted units */
+export function formatQuantity(quantity: number, unitType?: UnitType | null) {
+  const amount = String(roundQuantity(quantity));
+  return isWeightedUnit(unitType) ? `${amount} ${UNIT_LABELS[unitType!]}` : amount;
+}
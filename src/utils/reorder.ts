@@ -0,0 +1,30 @@
+import type { CartItem } from '../stores/cartStore';
+import type { ShopItem } from '../services/consumer/shopService';
+import type { OrderWithAll } from '../types/orders';
+import { reconcileCartItems, type CartReconciliation } from './cartReconciliation';
+
+/**
+ * Rebuild a past order as cart lines priced against the shop's current items.
+ * Substitutes are left out in favour of what was originally ordered, and every
+ * difference from the old order is listed so the consumer can review it
+ * before checkout. `currentItems` holds the shop's active items only.
+ */
+export function reconcileReorder(order: OrderWithAll, currentItems: ShopItem[]): CartReconciliation {
+  const shopName = order.shop?.name ?? 'Shop';
+  const orderedLines: CartItem[] = (order.order_items ?? [])
+    .filter((orderItem) => !orderItem.substitute_for_id)
+    .map((orderItem) => ({
+      id: orderItem.merchant_item_id,
+      shopId: order.shop_id,
+      shopName,
+      name: orderItem.item_name,
+      variant_id: orderItem.variant_id ?? null,
+      variant_name: orderItem.variant_name ?? null,
+      price_cents: orderItem.item_price_cents,
+      unit_type: orderItem.unit_type,
+      quantity: orderItem.ordered_quantity ?? orderItem.quantity,
+      substitution_preference: orderItem.substitution_preference,
+    }));
+
+  return reconcileCartItems(orderedLines, currentItems);
+}
@@ -0,0 +1,50 @@
+import type { SettlementTotals, ShopLedgerEntry, ShopLedgerEntryType } from '../services/merchant/settlementService';
+import { formatCentsForCsv, toCsvLine } from './inventoryCsv';
+
+export const LEDGER_ENTRY_LABELS: Record<ShopLedgerEntryType, string> = {
+  order_revenue: 'Order revenue',
+  cash_collected: 'Cash collected by shop',
+  commission: 'Commission',
+  refund: 'Refund',
+  adjustment: 'Adjustment',
+  payout: 'Payout',
+};
+
+export const SETTLEMENT_CSV_HEADERS = ['Date', 'Type', 'Order', 'Description', 'Amount'];
+
+/**
+ * One settlement period as CSV: the ledger entries, then a summary block
+ * with the opening balance, per-type totals and the closing balance.
+ */
+export function toSettlementCsv(
+  entries: ShopLedgerEntry[],
+  totals: SettlementTotals,
+  openingBalanceCents: number,
+  closingBalanceCents: number
+) {
+  const lines = [toCsvLine(SETTLEMENT_CSV_HEADERS)];
+
+  entries.forEach((entry) => {
+    lines.push(
+      toCsvLine([
+        entry.createdAt.slice(0, 10),
+        LEDGER_ENTRY_LABELS[entry.entryType],
+        entry.orderNumber ? entry.orderNumber.toUpperCase() : '',
+        entry.description,
+        formatCentsForCsv(entry.amountCents),
+      ])
+    );
+  });
+
+  lines.push(toCsvLine([]));
+  lines.push(toCsvLine(['', 'Opening balance', '', '', formatCentsForCsv(openingBalanceCents)]));
+  lines.push(toCsvLine(['', LEDGER_ENTRY_LABELS.order_revenue, totals.orderCount, 'orders', formatCentsForCsv(totals.orderRevenueCents)]));
+  lines.push(toCsvLine(['', LEDGER_ENTRY_LABELS.cash_collected, '', '', formatCentsForCsv(totals.cashCollectedCents)]));
+  lines.push(toCsvLine(['', LEDGER_ENTRY_LABELS.commission, '', '', formatCentsForCsv(totals.commissionCents)]));
+  lines.push(toCsvLine(['', LEDGER_ENTRY_LABELS.refund, '', '', formatCentsForCsv(totals.refundCents)]));
+  lines.push(toCsvLine(['', LEDGER_ENTRY_LABELS.adjustment, '', '', formatCentsForCsv(totals.adjustmentCents)]));
+  lines.push(toCsvLine(['', LEDGER_ENTRY_LABELS.payout, '', '', formatCentsForCsv(totals.payoutCents)]));
+  lines.push(toCsvLine(['', 'Closing balance', '', '', formatCentsForCsv(closingBalanceCents)]));
+
+  return lines.join('');
+}
@@ -0,0 +1,386 @@
+/**
+ * order-payments
+ *
+ * Moves a card/wallet order's payment intent along with the order:
+ * authorized at checkout, captured once delivered, voided when the order is
+ * cancelled or rejected. The gateway is called here, on the server, and
+ * each result is recorded with `record_payment_event`, which only the
+ * service role may call.
+ *
+ * Captures and voids are queued in `payment_tasks` by the order's status
+ * change. They are worked off here, either for one order as soon as the app
+ * has changed its status, or for every due task when pg_cron calls in with
+ * the service role key:
+ *
+ *   POST { action: 'authorize' | 'settle', orderId }   (customer / merchant)
+ *   POST { action: 'process' }                         (service role)
+ *   -> { success, error?, message?, declined? }
+ *
+ * `error` carries the database error code (ORDER_NOT_FOUND, ...) so the app
+ * can show its own message for it.
+ */
+
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { getPaymentProvider } from './paymentProvider.ts';
+
+type PaymentAction = 'authorize' | 'settle' | 'process';
+
+type PaymentEvent = 'authorized' | 'authorization_failed' | 'captured' | 'voided';
+
+type ActionResult = { success: boolean; error?: string; message?: string; declined?: boolean };
+
+type PaymentIntent = {
+  id: string;
+  provider: string;
+  payment_method: 'cash' | 'card' | 'wallet';
+  amount_cents: number;
+  status: 'requires_authorization' | 'authorized' | 'captured' | 'voided' | 'failed';
+  provider_reference: string | null;
+  failure_reason: string | null;
+};
+
+type PaymentTask = {
+  id: string;
+  order_id: string;
+  action: 'capture' | 'void';
+};
+
+type OrderPayment = {
+  order: {
+    id: string;
+    user_id: string;
+    shop_id: string;
+    status: string;
+    total_cents: number;
+    wallet_credit_cents: number | null;
+  };
+  intent: PaymentIntent | null;
+};
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const serviceClient = createClient(SUPABASE_URL, SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+});
+
+function respond(body: ActionResult, status: number = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+  });
+}
+
+async function recordPaymentEvent(
+  intentId: string,
+  event: PaymentEvent,
+  actorId: string | null,
+  details: { reference?: string; amountCents?: number; failureReason?: string } = {}
+) {
+  return serviceClient.rpc('record_payment_event', {
+    p_intent_id: intentId,
+    p_event: event,
+    p_actor_id: actorId,
+    p_provider_reference: details.reference ?? null,
+    p_amount_cents: details.amountCents ?? null,
+    p_failure_reason: details.failureReason ?? null,
+  });
+}
+
+async function loadOrderPayment(orderId: string): Promise<OrderPayment | null> {
+  const [{ data: order, error: orderError }, { data: intent, error: intentError }] = await Promise.all([
+    serviceClient
+      .from('orders')
+      .select('id, user_id, shop_id, status, total_cents, wallet_credit_cents')
+      .eq('id', orderId)
+      .maybeSingle(),
+    serviceClient.from('payment_intents').select('*').eq('order_id', orderId).maybeSingle(),
+  ]);
+
+  if (orderError || intentError) {
+    throw new Error((orderError || intentError)!.message);
+  }
+
+  return order ? { order, intent } : null;
+}
+
+async function isShopMerchant(shopId: string, userId: string) {
+  const { data, error } = await serviceClient
+    .from('shops')
+    .select('id, merchant_accounts!inner(user_id)')
+    .eq('id', shopId)
+    .eq('merchant_accounts.user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return Boolean(data);
+}
+
+/**
+ * Authorize a freshly placed order for its customer. A declined
+ * authorization cancels the order (`declined`); on any other failure the
+ * order is still pending and the app decides whether to cancel it.
+ */
+async function authorize(userClient: SupabaseClient, userId: string, orderId: string): Promise<ActionResult> {
+  const provider = getPaymentProvider();
+  if (!provider) {
+    return { success: false, error: 'INVALID_PAYMENT_PROVIDER' };
+  }
+
+  // As the caller, so the function's ownership checks apply
+  const { data, error } = await userClient.rpc('create_payment_intent', {
+    p_order_id: orderId,
+    p_provider: provider.name,
+  });
+
+  if (error) {
+    console.error('[authorize] create_payment_intent error:', error);
+    return { success: false, error: error.message };
+  }
+
+  const intent = data as PaymentIntent;
+  // Retried checkout for an order that already went through
+  if (intent.status === 'authorized') {
+    return { success: true };
+  }
+  if (intent.status !== 'requires_authorization') {
+    return {
+      success: false,
+      declined: intent.status === 'failed',
+      message: intent.failure_reason || 'Payment was not authorized.',
+    };
+  }
+
+  const result = await provider.authorize({
+    intentId: intent.id,
+    amountCents: intent.amount_cents,
+    method: intent.payment_method,
+  });
+
+  const { error: recordError } = await recordPaymentEvent(
+    intent.id,
+    result.success ? 'authorized' : 'authorization_failed',
+    userId,
+    { reference: result.reference, failureReason: result.failureReason }
+  );
+
+  if (recordError) {
+    console.error('[authorize] Record error:', recordError);
+    // The order moved on meanwhile (cancelled or expired): do not leave a hold behind
+    if (result.success && result.reference) {
+      await provider.void({ reference: result.reference });
+    }
+    return { success: false, error: recordError.message };
+  }
+
+  if (!result.success) {
+    return {
+      success: false,
+      declined: true,
+      message: result.failureReason ? `Payment was declined: ${result.failureReason}` : 'Payment was declined.',
+    };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Charge a delivered order's authorization for its final total. Everything
+ * is checked before the gateway is called, so the gateway and the database
+ * never disagree about a capture. Returns the failure, if any.
+ */
+async function capture(orderId: string): Promise<string | null> {
+  const payment = await loadOrderPayment(orderId);
+  if (!payment) {
+    return 'ORDER_NOT_FOUND';
+  }
+
+  const { order, intent } = payment;
+  // Already captured by an earlier attempt
+  if (!intent || intent.status !== 'authorized') {
+    return null;
+  }
+
+  if (order.status !== 'delivered') {
+    return 'PAYMENT_STATE_CONFLICT';
+  }
+
+  // Store credit spent on the order is not charged to the card
+  const amountCents = Math.max(0, order.total_cents - (order.wallet_credit_cents ?? 0));
+  if (amountCents > intent.amount_cents) {
+    return 'CAPTURE_EXCEEDS_AUTHORIZATION';
+  }
+
+  const provider = getPaymentProvider(intent.provider);
+  if (!provider || !intent.provider_reference) {
+    return 'INVALID_PAYMENT_PROVIDER';
+  }
+
+  const result = await provider.capture({ reference: intent.provider_reference, amountCents });
+  if (!result.success) {
+    return result.failureReason || 'Failed to capture payment';
+  }
+
+  const { error } = await recordPaymentEvent(intent.id, 'captured', null, {
+    reference: result.reference,
+    amountCents,
+  });
+  return error ? error.message : null;
+}
+
+/**
+ * Release the payment of a cancelled or rejected order. Returns the
+ * failure, if any.
+ */
+async function voidPayment(orderId: string): Promise<string | null> {
+  const payment = await loadOrderPayment(orderId);
+  if (!payment) {
+    return 'ORDER_NOT_FOUND';
+  }
+
+  const { order, intent } = payment;
+  if (!intent || (intent.status !== 'requires_authorization' && intent.status !== 'authorized')) {
+    return null;
+  }
+
+  if (order.status !== 'cancelled' && order.status !== 'rejected') {
+    return 'PAYMENT_STATE_CONFLICT';
+  }
+
+  // Only an authorization holds funds at the gateway
+  if (intent.status === 'authorized' && intent.provider_reference) {
+    const provider = getPaymentProvider(intent.provider);
+    if (!provider) {
+      return 'INVALID_PAYMENT_PROVIDER';
+    }
+
+    const result = await provider.void({ reference: intent.provider_reference });
+    if (!result.success) {
+      return result.failureReason || 'Failed to void payment';
+    }
+  }
+
+  const { error } = await recordPaymentEvent(intent.id, 'voided', null);
+  return error ? error.message : null;
+}
+
+/**
+ * Run one claimed task and finish it: done, or queued again with its error
+ * for the merchant to see.
+ */
+async function runTask(task: PaymentTask): Promise<string | null> {
+  let failure: string | null;
+  try {
+    failure = task.action === 'capture' ? await capture(task.order_id) : await voidPayment(task.order_id);
+  } catch (err) {
+    failure = err instanceof Error ? err.message : 'Payment task failed';
+  }
+
+  if (failure) {
+    console.error(`[runTask] ${task.action} failed for order ${task.order_id}:`, failure);
+  }
+
+  const { error } = await serviceClient.rpc('finish_payment_task', {
+    p_task_id: task.id,
+    p_error: failure,
+  });
+  if (error) {
+    console.error('[runTask] finish_payment_task error:', error);
+  }
+
+  return failure;
+}
+
+async function runTasks(orderId: string | null): Promise<ActionResult> {
+  const { data, error } = await serviceClient.rpc('claim_payment_tasks', { p_order_id: orderId });
+  if (error) {
+    console.error('[runTasks] claim_payment_tasks error:', error);
+    return { success: false, error: error.message };
+  }
+
+  const failures: string[] = [];
+  for (const task of (data ?? []) as PaymentTask[]) {
+    const failure = await runTask(task);
+    if (failure) {
+      failures.push(failure);
+    }
+  }
+
+  return failures.length === 0 ? { success: true } : { success: false, error: failures[0] };
+}
+
+/**
+ * Run an order's queued capture/void now, for its customer or the shop's
+ * merchant, rather than waiting for the next scheduled run.
+ */
+async function settle(userId: string, orderId: string): Promise<ActionResult> {
+  const payment = await loadOrderPayment(orderId);
+  if (
+    !payment ||
+    (payment.order.user_id !== userId && !(await isShopMerchant(payment.order.shop_id, userId)))
+  ) {
+    return { success: false, error: 'ORDER_NOT_FOUND' };
+  }
+
+  return runTasks(orderId);
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: CORS_HEADERS });
+  }
+
+  const body = await req.json().catch(() => null);
+  const action = body?.action as PaymentAction | undefined;
+
+  // pg_cron, with the service role key
+  if (action === 'process') {
+    if (req.headers.get('Authorization') !== `Bearer ${SERVICE_ROLE_KEY}`) {
+      return respond({ success: false, error: 'NOT_AUTHENTICATED' }, 401);
+    }
+    try {
+      return respond(await runTasks(null));
+    } catch (err) {
+      console.error('[order-payments] process failed:', err);
+      return respond({ success: false, message: err instanceof Error ? err.message : 'Payment tasks failed' }, 500);
+    }
+  }
+
+  const userClient = createClient(SUPABASE_URL, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    auth: { persistSession: false },
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  });
+
+  const {
+    data: { user },
+  } = await userClient.auth.getUser();
+  if (!user) {
+    return respond({ success: false, error: 'NOT_AUTHENTICATED' }, 401);
+  }
+
+  const orderId = body?.orderId;
+  if (typeof orderId !== 'string' || !orderId) {
+    return respond({ success: false, error: 'ORDER_NOT_FOUND' }, 400);
+  }
+
+  try {
+    switch (action) {
+      case 'authorize':
+        return respond(await authorize(userClient, user.id, orderId));
+      case 'settle':
+        return respond(await settle(user.id, orderId));
+      default:
+        return respond({ success: false, message: `Unknown payment action: ${action}` }, 400);
+    }
+  } catch (err) {
+    console.error(`[order-payments] ${action} failed:`, err);
+    return respond({ success: false, message: err instanceof Error ? err.message : 'Payment failed' }, 500);
+  }
+});
@@ -0,0 +1,41 @@
+/**
+ * Mock Payment Provider
+ *
+ * Local stand-in for a gateway. Every call succeeds after a short delay;
+ * set the PAYMENT_MOCK_DECLINE secret to true to have authorizations declined
+ * instead.
+ */
+
+import type { PaymentProvider } from './paymentProvider.ts';
+
+const MOCK_LATENCY_MS = 400;
+
+function delay() {
+  return new Promise((resolve) => setTimeout(resolve, MOCK_LATENCY_MS));
+}
+
+export const mockPaymentProvider: PaymentProvider = {
+  name: 'mock',
+
+  async authorize({ intentId, amountCents, method }) {
+    await delay();
+    if (Deno.env.get('PAYMENT_MOCK_DECLINE') === 'true') {
+      console.log('[mockPaymentProvider] Declining authorization:', intentId, amountCents, method);
+      return { success: false, failureReason: 'Card declined (mock)' };
+    }
+    console.log('[mockPaymentProvider] Authorized:', intentId, amountCents, method);
+    return { success: true, reference: `mock_auth_${intentId}` };
+  },
+
+  async capture({ reference, amountCents }) {
+    await delay();
+    console.log('[mockPaymentProvider] Captured:', reference, amountCents);
+    return { success: true, reference };
+  },
+
+  async void({ reference }) {
+    await delay();
+    console.log('[mockPaymentProvider] Voided:', reference);
+    return { success: true, reference };
+  },
+};
@@ -0,0 +1,52 @@
+/**
+ * Payment Provider
+ *
+ * The order-payments function talks to a payment gateway only through this
+ * interface, so a real gateway can replace the mock without touching the
+ * payment flow. The provider is picked by the PAYMENT_PROVIDER secret.
+ */
+
+import { mockPaymentProvider } from './mockPaymentProvider.ts';
+
+/** Mirrors the payment_method enum */
+export type PaymentMethod = 'cash' | 'card' | 'wallet';
+
+export interface PaymentProviderResult {
+  success: boolean;
+  /** The gateway's id for the authorization, used to capture or void it later */
+  reference?: string;
+  failureReason?: string;
+}
+
+export interface PaymentProvider {
+  /** Stored on the payment intent, e.g. "mock" */
+  name: string;
+  /** Hold the amount on the customer's card or wallet */
+  authorize(request: {
+    intentId: string;
+    amountCents: number;
+    method: PaymentMethod;
+  }): Promise<PaymentProviderResult>;
+  /** Charge up to the authorized amount */
+  capture(request: { reference: string; amountCents: number }): Promise<PaymentProviderResult>;
+  /** Release the hold without charging */
+  void(request: { reference: string }): Promise<PaymentProviderResult>;
+}
+
+const PROVIDERS: Record<string, PaymentProvider> = {
+  [mockPaymentProvider.name]: mockPaymentProvider,
+};
+
+/**
+ * The named provider (by default the one in PAYMENT_PROVIDER), or null when
+ * this deployment doesn't include it. Captures and voids pass the intent's
+ * own provider so they reach the gateway that authorized it.
+ */
+export function getPaymentProvider(name: string = Deno.env.get('PAYMENT_PROVIDER') ?? 'mock'): PaymentProvider | null {
+  const provider = PROVIDERS[name];
+  if (!provider) {
+    console.error('[getPaymentProvider] Unknown payment provider:', name);
+    return null;
+  }
+  return provider;
+}
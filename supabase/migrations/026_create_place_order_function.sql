@@ -0,0 +1,309 @@
+-- ============================================================================
+-- TRANSACTIONAL ORDER PLACEMENT
+-- ============================================================================
+-- Moves order placement into a single database function so that:
+-- - The order row and its items are written atomically (no orphan orders)
+-- - Item prices are read and locked server-side instead of trusted from the client
+-- - Subtotal, delivery fee and small-order surcharge are recomputed from
+--   shop_delivery_logic at placement time
+--
+-- Rejections are raised as P0001 exceptions whose MESSAGE is a stable error
+-- code (e.g. 'ITEM_UNAVAILABLE'); the client maps these to typed errors.
+-- ============================================================================
+
+-- Haversine distance in meters (matches calculateDistance on the client)
+CREATE OR REPLACE FUNCTION public.haversine_distance_meters(
+  lat1 DOUBLE PRECISION,
+  lon1 DOUBLE PRECISION,
+  lat2 DOUBLE PRECISION,
+  lon2 DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 2 * 6371000 * asin(sqrt(
+    power(sin(radians(lat2 - lat1) / 2), 2) +
+    cos(radians(lat1)) * cos(radians(lat2)) * power(sin(radians(lon2 - lon1) / 2), 2)
+  ));
+$$;
+
+-- Delivery fee and small-order surcharge (in cents) for a shop, order subtotal and distance
+CREATE OR REPLACE FUNCTION public.calculate_order_pricing(
+  p_shop_id UUID,
+  p_subtotal_cents INTEGER,
+  p_distance_meters DOUBLE PRECISION
+)
+RETURNS TABLE (
+  delivery_fee_cents INTEGER,
+  surcharge_cents INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_logic public.shop_delivery_logic%ROWTYPE;
+  v_tier RECORD;
+  v_last_max NUMERIC;
+  v_last_fee NUMERIC;
+  v_fee NUMERIC := NULL;
+BEGIN
+  SELECT * INTO v_logic FROM public.shop_delivery_logic WHERE shop_id = p_shop_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'DELIVERY_LOGIC_MISSING',
+      DETAIL = format('Shop %s has no delivery logic configured', p_shop_id);
+  END IF;
+
+  IF p_subtotal_cents >= v_logic.free_delivery_threshold * 100
+     AND p_distance_meters <= v_logic.free_delivery_radius THEN
+    v_fee := 0;
+  ELSE
+    FOR v_tier IN
+      SELECT (t ->> 'max_distance')::NUMERIC AS max_distance, (t ->> 'fee')::NUMERIC AS fee
+      FROM jsonb_array_elements(COALESCE(v_logic.distance_tiers, '[]'::JSONB)) AS t
+      ORDER BY (t ->> 'max_distance')::NUMERIC
+    LOOP
+      v_last_max := v_tier.max_distance;
+      v_last_fee := v_tier.fee;
+      IF v_fee IS NULL AND p_distance_meters <= v_tier.max_distance THEN
+        v_fee := v_tier.fee;
+      END IF;
+    END LOOP;
+
+    IF v_fee IS NULL THEN
+      IF v_last_max IS NULL THEN
+        v_fee := 0;
+      ELSE
+        v_fee := v_last_fee
+          + ceil((p_distance_meters - v_last_max) / v_logic.beyond_tier_distance_unit)
+          * v_logic.beyond_tier_fee_per_unit;
+      END IF;
+    END IF;
+
+    v_fee := LEAST(v_fee, v_logic.max_delivery_fee);
+  END IF;
+
+  delivery_fee_cents := round(v_fee * 100)::INTEGER;
+  surcharge_cents := CASE
+    WHEN p_subtotal_cents < v_logic.minimum_order_value * 100
+      THEN round(v_logic.small_order_surcharge * 100)::INTEGER
+    ELSE 0
+  END;
+
+  RETURN NEXT;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_shop_id UUID,
+  p_consumer_address_id UUID,
+  p_items JSONB,
+  p_payment_method payment_method DEFAULT 'cash',
+  p_special_instructions TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_address public.consumer_addresses%ROWTYPE;
+  v_shop public.shops%ROWTYPE;
+  v_profile RECORD;
+  v_requested_count INTEGER;
+  v_found_count INTEGER;
+  v_missing_item UUID;
+  v_inactive_item UUID;
+  v_subtotal_cents INTEGER;
+  v_distance DOUBLE PRECISION;
+  v_pricing RECORD;
+  v_order public.orders%ROWTYPE;
+  v_order_items JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'NOT_AUTHENTICATED';
+  END IF;
+
+  -- Address must exist and belong to the caller
+  SELECT * INTO v_address
+  FROM public.consumer_addresses
+  WHERE id = p_consumer_address_id AND user_id = v_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ADDRESS_NOT_FOUND',
+      DETAIL = format('Address %s not found for user', p_consumer_address_id);
+  END IF;
+
+  IF v_address.street_address IS NULL OR v_address.city IS NULL
+     OR v_address.latitude IS NULL OR v_address.longitude IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ADDRESS_INVALID',
+      DETAIL = 'Address is missing street, city or coordinates';
+  END IF;
+
+  SELECT * INTO v_shop FROM public.shops WHERE id = p_shop_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SHOP_NOT_FOUND';
+  END IF;
+
+  IF v_shop.is_open IS DISTINCT FROM TRUE THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SHOP_CLOSED';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'EMPTY_ORDER';
+  END IF;
+
+  -- Normalise requested lines (merge duplicates of the same item)
+  DROP TABLE IF EXISTS _requested_lines;
+  CREATE TEMP TABLE _requested_lines ON COMMIT DROP AS
+  SELECT
+    (line ->> 'merchant_item_id')::UUID AS merchant_item_id,
+    SUM((line ->> 'quantity')::NUMERIC) AS quantity
+  FROM jsonb_array_elements(p_items) AS line
+  GROUP BY (line ->> 'merchant_item_id')::UUID;
+
+  IF EXISTS (
+    SELECT 1 FROM _requested_lines
+    WHERE merchant_item_id IS NULL OR quantity IS NULL OR quantity <= 0 OR quantity <> trunc(quantity)
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_QUANTITY';
+  END IF;
+
+  -- Lock item rows so prices cannot change while the order is written
+  DROP TABLE IF EXISTS _priced_lines;
+  CREATE TEMP TABLE _priced_lines ON COMMIT DROP AS
+  SELECT
+    mi.id AS merchant_item_id,
+    COALESCE(mi.name, it.name, '') AS item_name,
+    COALESCE(mi.description, it.description) AS item_description,
+    COALESCE(mi.image_url, it.image_url) AS item_image_url,
+    mi.price_cents AS item_price_cents,
+    mi.is_active,
+    rl.quantity::INTEGER AS quantity
+  FROM _requested_lines rl
+  JOIN public.merchant_items mi ON mi.id = rl.merchant_item_id AND mi.shop_id = p_shop_id
+  LEFT JOIN public.item_templates it ON it.id = mi.template_id
+  FOR SHARE OF mi;
+
+  SELECT COUNT(*) INTO v_requested_count FROM _requested_lines;
+  SELECT COUNT(*) INTO v_found_count FROM _priced_lines;
+
+  IF v_found_count < v_requested_count THEN
+    SELECT rl.merchant_item_id INTO v_missing_item
+    FROM _requested_lines rl
+    LEFT JOIN _priced_lines pl ON pl.merchant_item_id = rl.merchant_item_id
+    WHERE pl.merchant_item_id IS NULL
+    LIMIT 1;
+
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ITEM_NOT_FOUND',
+      DETAIL = format('Item %s does not belong to shop %s', v_missing_item, p_shop_id);
+  END IF;
+
+  SELECT merchant_item_id INTO v_inactive_item FROM _priced_lines WHERE NOT is_active LIMIT 1;
+
+  IF v_inactive_item IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ITEM_UNAVAILABLE',
+      DETAIL = format('Item %s is no longer available', v_inactive_item);
+  END IF;
+
+  SELECT COALESCE(SUM(item_price_cents * quantity), 0)::INTEGER INTO v_subtotal_cents FROM _priced_lines;
+
+  v_distance := public.haversine_distance_meters(
+    v_address.latitude::DOUBLE PRECISION,
+    v_address.longitude::DOUBLE PRECISION,
+    v_shop.latitude,
+    v_shop.longitude
+  );
+
+  SELECT * INTO v_pricing FROM public.calculate_order_pricing(p_shop_id, v_subtotal_cents, v_distance);
+
+  SELECT name, email INTO v_profile FROM public.user_profiles WHERE id = v_user_id;
+
+  INSERT INTO public.orders (
+    shop_id,
+    user_id,
+    consumer_address_id,
+    status,
+    subtotal_cents,
+    delivery_fee_cents,
+    surcharge_cents,
+    total_cents,
+    payment_method,
+    special_instructions,
+    delivery_address,
+    customer_name,
+    customer_email
+  ) VALUES (
+    p_shop_id,
+    v_user_id,
+    v_address.id,
+    'pending',
+    v_subtotal_cents,
+    v_pricing.delivery_fee_cents,
+    v_pricing.surcharge_cents,
+    v_subtotal_cents + v_pricing.delivery_fee_cents + v_pricing.surcharge_cents,
+    COALESCE(p_payment_method, 'cash'),
+    NULLIF(btrim(p_special_instructions), ''),
+    jsonb_build_object(
+      'id', v_address.id,
+      'title', v_address.title,
+      'street_address', v_address.street_address,
+      'city', v_address.city,
+      'region', v_address.region,
+      'latitude', v_address.latitude,
+      'longitude', v_address.longitude,
+      'landmark', v_address.landmark,
+      'formatted_address', v_address.formatted_address
+    ),
+    v_profile.name,
+    v_profile.email
+  )
+  RETURNING * INTO v_order;
+
+  WITH inserted AS (
+    INSERT INTO public.order_items (
+      order_id,
+      merchant_item_id,
+      item_name,
+      item_description,
+      item_image_url,
+      item_price_cents,
+      quantity,
+      subtotal_cents
+    )
+    SELECT
+      v_order.id,
+      merchant_item_id,
+      item_name,
+      item_description,
+      item_image_url,
+      item_price_cents,
+      quantity,
+      item_price_cents * quantity
+    FROM _priced_lines
+    RETURNING *
+  )
+  SELECT COALESCE(jsonb_agg(to_jsonb(inserted)), '[]'::JSONB) INTO v_order_items FROM inserted;
+
+  RETURN to_jsonb(v_order) || jsonb_build_object('order_items', v_order_items);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.haversine_distance_meters(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.calculate_order_pricing(UUID, INTEGER, DOUBLE PRECISION) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.place_order(UUID, UUID, JSONB, payment_method, TEXT) TO authenticated;
+
+-- ============================================================================
+-- Orders are now only written through place_order
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Consumers can insert their own orders" ON public.orders;
+DROP POLICY IF EXISTS "Consumers can insert order items for their orders" ON public.order_items;
+
+COMMENT ON FUNCTION public.place_order IS 'Atomically places an order: locks item prices, recomputes totals from shop_delivery_logic and writes orders + order_items';
+COMMENT ON FUNCTION public.calculate_order_pricing IS 'Delivery fee and small-order surcharge in cents for a shop, subtotal and distance';
+COMMENT ON FUNCTION public.haversine_distance_meters IS 'Great-circle distance in meters between two coordinates';
@@ -0,0 +1,255 @@
+-- ============================================================================
+-- IDEMPOTENT ORDER PLACEMENT
+-- ============================================================================
+-- Retries on flaky networks could create duplicate orders for the same cart.
+-- place_order now accepts a client-generated idempotency key; a repeat
+-- submission with the same key returns the original order instead of
+-- inserting a new one.
+-- ============================================================================
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.table_constraints WHERE constraint_schema = 'public' AND table_name = 'orders' AND constraint_name = 'orders_user_idempotency_key_unique') THEN
+    ALTER TABLE public.orders
+      ADD CONSTRAINT orders_user_idempotency_key_unique UNIQUE (user_id, idempotency_key);
+  END IF;
+END $$;
+
+-- Order row plus its line items, in the shape returned by place_order
+CREATE OR REPLACE FUNCTION public.order_with_items_json(p_order_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT to_jsonb(o) || jsonb_build_object(
+    'order_items',
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(oi) ORDER BY oi.created_at) FROM public.order_items oi WHERE oi.order_id = o.id),
+      '[]'::JSONB
+    )
+  )
+  FROM public.orders o
+  WHERE o.id = p_order_id;
+$$;
+
+DROP FUNCTION IF EXISTS public.place_order(UUID, UUID, JSONB, payment_method, TEXT);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_shop_id UUID,
+  p_consumer_address_id UUID,
+  p_items JSONB,
+  p_payment_method payment_method DEFAULT 'cash',
+  p_special_instructions TEXT DEFAULT NULL,
+  p_idempotency_key TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_address public.consumer_addresses%ROWTYPE;
+  v_shop public.shops%ROWTYPE;
+  v_profile RECORD;
+  v_requested_count INTEGER;
+  v_found_count INTEGER;
+  v_missing_item UUID;
+  v_inactive_item UUID;
+  v_subtotal_cents INTEGER;
+  v_distance DOUBLE PRECISION;
+  v_pricing RECORD;
+  v_order public.orders%ROWTYPE;
+  v_existing_order_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'NOT_AUTHENTICATED';
+  END IF;
+
+  -- Replayed submission: return the order created by the first attempt.
+  -- The advisory lock serialises concurrent retries carrying the same key.
+  IF p_idempotency_key IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtextextended(v_user_id::TEXT || ':' || p_idempotency_key, 0));
+
+    SELECT id INTO v_existing_order_id
+    FROM public.orders
+    WHERE user_id = v_user_id AND idempotency_key = p_idempotency_key;
+
+    IF v_existing_order_id IS NOT NULL THEN
+      RETURN public.order_with_items_json(v_existing_order_id);
+    END IF;
+  END IF;
+
+  -- Address must exist and belong to the caller
+  SELECT * INTO v_address
+  FROM public.consumer_addresses
+  WHERE id = p_consumer_address_id AND user_id = v_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ADDRESS_NOT_FOUND',
+      DETAIL = format('Address %s not found for user', p_consumer_address_id);
+  END IF;
+
+  IF v_address.street_address IS NULL OR v_address.city IS NULL
+     OR v_address.latitude IS NULL OR v_address.longitude IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ADDRESS_INVALID',
+      DETAIL = 'Address is missing street, city or coordinates';
+  END IF;
+
+  SELECT * INTO v_shop FROM public.shops WHERE id = p_shop_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SHOP_NOT_FOUND';
+  END IF;
+
+  IF v_shop.is_open IS DISTINCT FROM TRUE THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SHOP_CLOSED';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'EMPTY_ORDER';
+  END IF;
+
+  -- Normalise requested lines (merge duplicates of the same item)
+  DROP TABLE IF EXISTS _requested_lines;
+  CREATE TEMP TABLE _requested_lines ON COMMIT DROP AS
+  SELECT
+    (line ->> 'merchant_item_id')::UUID AS merchant_item_id,
+    SUM((line ->> 'quantity')::NUMERIC) AS quantity
+  FROM jsonb_array_elements(p_items) AS line
+  GROUP BY (line ->> 'merchant_item_id')::UUID;
+
+  IF EXISTS (
+    SELECT 1 FROM _requested_lines
+    WHERE merchant_item_id IS NULL OR quantity IS NULL OR quantity <= 0 OR quantity <> trunc(quantity)
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_QUANTITY';
+  END IF;
+
+  -- Lock item rows so prices cannot change while the order is written
+  DROP TABLE IF EXISTS _priced_lines;
+  CREATE TEMP TABLE _priced_lines ON COMMIT DROP AS
+  SELECT
+    mi.id AS merchant_item_id,
+    COALESCE(mi.name, it.name, '') AS item_name,
+    COALESCE(mi.description, it.description) AS item_description,
+    COALESCE(mi.image_url, it.image_url) AS item_image_url,
+    mi.price_cents AS item_price_cents,
+    mi.is_active,
+    rl.quantity::INTEGER AS quantity
+  FROM _requested_lines rl
+  JOIN public.merchant_items mi ON mi.id = rl.merchant_item_id AND mi.shop_id = p_shop_id
+  LEFT JOIN public.item_templates it ON it.id = mi.template_id
+  FOR SHARE OF mi;
+
+  SELECT COUNT(*) INTO v_requested_count FROM _requested_lines;
+  SELECT COUNT(*) INTO v_found_count FROM _priced_lines;
+
+  IF v_found_count < v_requested_count THEN
+    SELECT rl.merchant_item_id INTO v_missing_item
+    FROM _requested_lines rl
+    LEFT JOIN _priced_lines pl ON pl.merchant_item_id = rl.merchant_item_id
+    WHERE pl.merchant_item_id IS NULL
+    LIMIT 1;
+
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ITEM_NOT_FOUND',
+      DETAIL = format('Item %s does not belong to shop %s', v_missing_item, p_shop_id);
+  END IF;
+
+  SELECT merchant_item_id INTO v_inactive_item FROM _priced_lines WHERE NOT is_active LIMIT 1;
+
+  IF v_inactive_item IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ITEM_UNAVAILABLE',
+      DETAIL = format('Item %s is no longer available', v_inactive_item);
+  END IF;
+
+  SELECT COALESCE(SUM(item_price_cents * quantity), 0)::INTEGER INTO v_subtotal_cents FROM _priced_lines;
+
+  v_distance := public.haversine_distance_meters(
+    v_address.latitude::DOUBLE PRECISION,
+    v_address.longitude::DOUBLE PRECISION,
+    v_shop.latitude,
+    v_shop.longitude
+  );
+
+  SELECT * INTO v_pricing FROM public.calculate_order_pricing(p_shop_id, v_subtotal_cents, v_distance);
+
+  SELECT name, email INTO v_profile FROM public.user_profiles WHERE id = v_user_id;
+
+  INSERT INTO public.orders (
+    shop_id,
+    user_id,
+    consumer_address_id,
+    status,
+    subtotal_cents,
+    delivery_fee_cents,
+    surcharge_cents,
+    total_cents,
+    payment_method,
+    special_instructions,
+    delivery_address,
+    customer_name,
+    customer_email,
+    idempotency_key
+  ) VALUES (
+    p_shop_id,
+    v_user_id,
+    v_address.id,
+    'pending',
+    v_subtotal_cents,
+    v_pricing.delivery_fee_cents,
+    v_pricing.surcharge_cents,
+    v_subtotal_cents + v_pricing.delivery_fee_cents + v_pricing.surcharge_cents,
+    COALESCE(p_payment_method, 'cash'),
+    NULLIF(btrim(p_special_instructions), ''),
+    jsonb_build_object(
+      'id', v_address.id,
+      'title', v_address.title,
+      'street_address', v_address.street_address,
+      'city', v_address.city,
+      'region', v_address.region,
+      'latitude', v_address.latitude,
+      'longitude', v_address.longitude,
+      'landmark', v_address.landmark,
+      'formatted_address', v_address.formatted_address
+    ),
+    v_profile.name,
+    v_profile.email,
+    p_idempotency_key
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO public.order_items (
+    order_id,
+    merchant_item_id,
+    item_name,
+    item_description,
+    item_image_url,
+    item_price_cents,
+    quantity,
+    subtotal_cents
+  )
+  SELECT
+    v_order.id,
+    merchant_item_id,
+    item_name,
+    item_description,
+    item_image_url,
+    item_price_cents,
+    quantity,
+    item_price_cents * quantity
+  FROM _priced_lines;
+
+  RETURN public.order_with_items_json(v_order.id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.order_with_items_json(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.place_order(UUID, UUID, JSONB, payment_method, TEXT, TEXT) TO authenticated;
+
+COMMENT ON COLUMN public.orders.idempotency_key IS 'Client-generated key; repeat placements with the same key return the original order';
+COMMENT ON FUNCTION public.place_order IS 'Atomically and idempotently places an order: locks item prices, recomputes totals from shop_delivery_logic and writes orders + order_items';
@@ -0,0 +1,102 @@
+-- ============================================================================
+-- SHARED DELIVERY PRICING RULES
+-- ============================================================================
+-- calculate_order_pricing now mirrors src/utils/deliveryPricing.ts exactly
+-- and returns the same itemized breakdown:
+--   1. Tiers are matched in ascending max_distance order.
+--   2. Past the last tier: last tier fee + ceil(excess / unit) * fee per unit.
+--   3. max_delivery_fee caps the delivery fee.
+--   4. Free delivery (threshold + radius) waives the delivery fee only.
+--   5. The small-order surcharge is charged separately whenever the
+--      subtotal is below minimum_order_value.
+-- All arithmetic is done in cents so both sides round identically.
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS public.calculate_order_pricing(UUID, INTEGER, DOUBLE PRECISION);
+
+CREATE OR REPLACE FUNCTION public.calculate_order_pricing(
+  p_shop_id UUID,
+  p_subtotal_cents INTEGER,
+  p_distance_meters DOUBLE PRECISION
+)
+RETURNS TABLE (
+  delivery_fee_cents INTEGER,
+  surcharge_cents INTEGER,
+  tier_fee_cents INTEGER,
+  beyond_tier_units INTEGER,
+  beyond_tier_fee_cents INTEGER,
+  cap_applied BOOLEAN,
+  free_delivery_applied BOOLEAN,
+  out_of_zone BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_logic public.shop_delivery_logic%ROWTYPE;
+  v_tier RECORD;
+  v_last_max NUMERIC;
+  v_last_fee NUMERIC;
+  v_matched_fee NUMERIC := NULL;
+  v_max_fee_cents INTEGER;
+  v_uncapped_cents INTEGER;
+BEGIN
+  SELECT * INTO v_logic FROM public.shop_delivery_logic WHERE shop_id = p_shop_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'DELIVERY_LOGIC_MISSING',
+      DETAIL = format('Shop %s has no delivery logic configured', p_shop_id);
+  END IF;
+
+  surcharge_cents := CASE
+    WHEN p_subtotal_cents < round(v_logic.minimum_order_value * 100)
+      THEN round(v_logic.small_order_surcharge * 100)::INTEGER
+    ELSE 0
+  END;
+
+  FOR v_tier IN
+    SELECT (t ->> 'max_distance')::NUMERIC AS max_distance, (t ->> 'fee')::NUMERIC AS fee
+    FROM jsonb_array_elements(COALESCE(v_logic.distance_tiers, '[]'::JSONB)) AS t
+    ORDER BY (t ->> 'max_distance')::NUMERIC
+  LOOP
+    v_last_max := v_tier.max_distance;
+    v_last_fee := v_tier.fee;
+    IF v_matched_fee IS NULL AND p_distance_meters <= v_tier.max_distance THEN
+      v_matched_fee := v_tier.fee;
+    END IF;
+  END LOOP;
+
+  beyond_tier_units := 0;
+  IF v_matched_fee IS NULL AND v_last_max IS NOT NULL THEN
+    v_matched_fee := v_last_fee;
+    IF v_logic.beyond_tier_distance_unit > 0 THEN
+      beyond_tier_units := ceil((p_distance_meters - v_last_max) / v_logic.beyond_tier_distance_unit)::INTEGER;
+    END IF;
+  END IF;
+
+  tier_fee_cents := COALESCE(round(v_matched_fee * 100)::INTEGER, 0);
+  beyond_tier_fee_cents := beyond_tier_units * round(v_logic.beyond_tier_fee_per_unit * 100)::INTEGER;
+  v_uncapped_cents := tier_fee_cents + beyond_tier_fee_cents;
+  v_max_fee_cents := round(v_logic.max_delivery_fee * 100)::INTEGER;
+
+  free_delivery_applied := p_subtotal_cents >= round(v_logic.free_delivery_threshold * 100)
+    AND p_distance_meters <= v_logic.free_delivery_radius;
+
+  IF free_delivery_applied THEN
+    delivery_fee_cents := 0;
+    cap_applied := FALSE;
+  ELSE
+    delivery_fee_cents := LEAST(v_uncapped_cents, v_max_fee_cents);
+    cap_applied := v_uncapped_cents > v_max_fee_cents;
+  END IF;
+
+  out_of_zone := v_last_max IS NOT NULL AND p_distance_meters > v_last_max;
+
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.calculate_order_pricing(UUID, INTEGER, DOUBLE PRECISION) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.calculate_order_pricing IS 'Itemized delivery fee and small-order surcharge in cents; mirrors src/utils/deliveryPricing.ts';
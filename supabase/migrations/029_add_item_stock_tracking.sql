@@ -0,0 +1,446 @@
+-- ============================================================================
+-- ITEM STOCK TRACKING
+-- ============================================================================
+-- Optional per-item stock. stock_quantity NULL means the item is not tracked.
+--   * place_order reserves stock and rejects lines that exceed availability
+--   * cancelling an order releases its reservation
+--   * delivering an order consumes the reserved stock
+-- available_quantity = stock_quantity - reserved_quantity (never negative).
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'merchant_items' AND column_name = 'stock_quantity') THEN
+    ALTER TABLE public.merchant_items ADD COLUMN stock_quantity INTEGER DEFAULT NULL;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'merchant_items' AND column_name = 'reserved_quantity') THEN
+    ALTER TABLE public.merchant_items ADD COLUMN reserved_quantity INTEGER NOT NULL DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'merchant_items' AND column_name = 'available_quantity') THEN
+    ALTER TABLE public.merchant_items ADD COLUMN available_quantity INTEGER GENERATED ALWAYS AS (
+      CASE WHEN stock_quantity IS NULL THEN NULL ELSE GREATEST(stock_quantity - reserved_quantity, 0) END
+    ) STORED;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.table_constraints WHERE constraint_schema = 'public' AND table_name = 'merchant_items' AND constraint_name = 'check_stock_quantity') THEN
+    ALTER TABLE public.merchant_items ADD CONSTRAINT check_stock_quantity CHECK (stock_quantity IS NULL OR stock_quantity >= 0);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.table_constraints WHERE constraint_schema = 'public' AND table_name = 'merchant_items' AND constraint_name = 'check_reserved_quantity') THEN
+    ALTER TABLE public.merchant_items ADD CONSTRAINT check_reserved_quantity CHECK (reserved_quantity >= 0);
+  END IF;
+END $$;
+
+-- ============================================================================
+-- Inventory view exposes stock to the merchant inventory screens
+-- ============================================================================
+
+DROP VIEW IF EXISTS public.merchant_item_view;
+
+CREATE VIEW public.merchant_item_view AS
+SELECT
+  mi.id,
+  mi.shop_id,
+  mi.template_id,
+  mi.sku,
+  mi.price_cents,
+  mi.currency,
+  mi.is_active,
+  mi.is_custom,
+  mi.stock_quantity,
+  mi.reserved_quantity,
+  mi.available_quantity,
+  mi.created_at,
+  mi.updated_at,
+  COALESCE(mi.name, it.name) AS name,
+  COALESCE(mi.description, it.description) AS description,
+  COALESCE(mi.barcode, it.barcode) AS barcode,
+  COALESCE(mi.image_url, it.image_url) AS image_url,
+  COALESCE(mi.last_updated_by, jsonb_build_object()) AS last_updated_by,
+  COALESCE(jsonb_agg(DISTINCT jsonb_build_object(
+    'id', mc.id,
+    'name', mc.name,
+    'description', mc.description,
+    'isActive', mc.is_active
+  )) FILTER (WHERE mc.id IS NOT NULL), '[]'::JSONB) AS categories,
+  COALESCE(array_agg(DISTINCT mc.id) FILTER (WHERE mc.id IS NOT NULL), ARRAY[]::UUID[]) AS category_ids,
+  (
+    setweight(to_tsvector('simple', COALESCE(mi.name, it.name, '')), 'A') ||
+    setweight(to_tsvector('simple', COALESCE(mi.sku, '')), 'B') ||
+    setweight(to_tsvector('simple', COALESCE(mi.barcode, '')), 'B')
+  ) AS search_vector
+FROM public.merchant_items mi
+LEFT JOIN public.item_templates it ON it.id = mi.template_id
+LEFT JOIN public.merchant_item_categories mic ON mic.merchant_item_id = mi.id
+LEFT JOIN public.merchant_categories mc ON mc.id = mic.merchant_category_id
+GROUP BY mi.id, mi.shop_id, mi.template_id, mi.sku, mi.price_cents, mi.currency, mi.is_active, mi.is_custom, mi.stock_quantity, mi.reserved_quantity, mi.available_quantity, mi.created_at, mi.updated_at, mi.name, mi.description, mi.barcode, mi.image_url, mi.last_updated_by, it.name, it.description, it.barcode, it.image_url;
+
+COMMENT ON VIEW public.merchant_item_view IS 'Computed view merging merchant overrides with global item templates';
+
+-- ============================================================================
+-- Audit manual stock edits; skip updates that change no audited field
+-- (reservation bookkeeping and sales counters would otherwise flood the log)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.log_inventory_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  diff JSONB := '{}'::JSONB;
+  actor_id UUID := auth.uid();
+  actor_role TEXT := current_setting('request.jwt.claim.role', true);
+  actor_email TEXT := current_setting('request.jwt.claim.email', true);
+  source_hint TEXT := COALESCE((current_setting('request.headers', true)::JSON ->> 'x-change-source'), 'manual');
+  target_shop UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  ELSIF TG_OP = 'INSERT' THEN
+    diff := jsonb_strip_nulls(jsonb_build_object(
+      'sku', jsonb_build_object('from', NULL, 'to', NEW.sku),
+      'price_cents', jsonb_build_object('from', NULL, 'to', NEW.price_cents),
+      'is_active', jsonb_build_object('from', NULL, 'to', NEW.is_active),
+      'stock_quantity', jsonb_build_object('from', NULL, 'to', NEW.stock_quantity)
+    ));
+    target_shop := NEW.shop_id;
+  ELSIF TG_OP = 'UPDATE' THEN
+    IF NEW.sku IS DISTINCT FROM OLD.sku THEN
+      diff := diff || jsonb_build_object('sku', jsonb_build_object('from', OLD.sku, 'to', NEW.sku));
+    END IF;
+    IF NEW.price_cents IS DISTINCT FROM OLD.price_cents THEN
+      diff := diff || jsonb_build_object('price_cents', jsonb_build_object('from', OLD.price_cents, 'to', NEW.price_cents));
+    END IF;
+    IF NEW.is_active IS DISTINCT FROM OLD.is_active THEN
+      diff := diff || jsonb_build_object('is_active', jsonb_build_object('from', OLD.is_active, 'to', NEW.is_active));
+    END IF;
+    IF NEW.description IS DISTINCT FROM OLD.description THEN
+      diff := diff || jsonb_build_object('description', jsonb_build_object('from', OLD.description, 'to', NEW.description));
+    END IF;
+    IF NEW.template_id IS DISTINCT FROM OLD.template_id THEN
+      diff := diff || jsonb_build_object('template_id', jsonb_build_object('from', OLD.template_id, 'to', NEW.template_id));
+    END IF;
+    IF NEW.stock_quantity IS DISTINCT FROM OLD.stock_quantity THEN
+      diff := diff || jsonb_build_object('stock_quantity', jsonb_build_object('from', OLD.stock_quantity, 'to', NEW.stock_quantity));
+    END IF;
+    target_shop := NEW.shop_id;
+
+    IF diff = '{}'::JSONB THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  INSERT INTO public.audit_logs (
+    shop_id,
+    merchant_item_id,
+    actor,
+    action_type,
+    changed_fields,
+    source
+  ) VALUES (
+    target_shop,
+    NEW.id,
+    jsonb_strip_nulls(jsonb_build_object(
+      'id', actor_id,
+      'role', actor_role,
+      'email', actor_email
+    )),
+    TG_OP,
+    diff,
+    source_hint
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- Release / consume reservations as orders leave the active states
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.apply_order_stock_movements()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status NOT IN ('cancelled', 'delivered') THEN
+    UPDATE public.merchant_items mi
+    SET reserved_quantity = GREATEST(mi.reserved_quantity - oi.quantity, 0)
+    FROM (
+      SELECT merchant_item_id, SUM(quantity)::INTEGER AS quantity
+      FROM public.order_items
+      WHERE order_id = NEW.id
+      GROUP BY merchant_item_id
+    ) oi
+    WHERE mi.id = oi.merchant_item_id
+      AND mi.stock_quantity IS NOT NULL;
+  ELSIF NEW.status = 'delivered' AND OLD.status <> 'delivered' THEN
+    UPDATE public.merchant_items mi
+    SET
+      stock_quantity = GREATEST(mi.stock_quantity - oi.quantity, 0),
+      reserved_quantity = GREATEST(mi.reserved_quantity - oi.quantity, 0)
+    FROM (
+      SELECT merchant_item_id, SUM(quantity)::INTEGER AS quantity
+      FROM public.order_items
+      WHERE order_id = NEW.id
+      GROUP BY merchant_item_id
+    ) oi
+    WHERE mi.id = oi.merchant_item_id
+      AND mi.stock_quantity IS NOT NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_apply_stock_movements ON public.orders;
+CREATE TRIGGER orders_apply_stock_movements
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.apply_order_stock_movements();
+
+-- ============================================================================
+-- place_order: lock item rows for update, reject oversells, reserve stock
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_shop_id UUID,
+  p_consumer_address_id UUID,
+  p_items JSONB,
+  p_payment_method payment_method DEFAULT 'cash',
+  p_special_instructions TEXT DEFAULT NULL,
+  p_idempotency_key TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_address public.consumer_addresses%ROWTYPE;
+  v_shop public.shops%ROWTYPE;
+  v_profile RECORD;
+  v_requested_count INTEGER;
+  v_found_count INTEGER;
+  v_missing_item UUID;
+  v_inactive_item UUID;
+  v_short_line RECORD;
+  v_subtotal_cents INTEGER;
+  v_distance DOUBLE PRECISION;
+  v_pricing RECORD;
+  v_order public.orders%ROWTYPE;
+  v_existing_order_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'NOT_AUTHENTICATED';
+  END IF;
+
+  -- Replayed submission: return the order created by the first attempt.
+  -- The advisory lock serialises concurrent retries carrying the same key.
+  IF p_idempotency_key IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtextextended(v_user_id::TEXT || ':' || p_idempotency_key, 0));
+
+    SELECT id INTO v_existing_order_id
+    FROM public.orders
+    WHERE user_id = v_user_id AND idempotency_key = p_idempotency_key;
+
+    IF v_existing_order_id IS NOT NULL THEN
+      RETURN public.order_with_items_json(v_existing_order_id);
+    END IF;
+  END IF;
+
+  -- Address must exist and belong to the caller
+  SELECT * INTO v_address
+  FROM public.consumer_addresses
+  WHERE id = p_consumer_address_id AND user_id = v_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ADDRESS_NOT_FOUND',
+      DETAIL = format('Address %s not found for user', p_consumer_address_id);
+  END IF;
+
+  IF v_address.street_address IS NULL OR v_address.city IS NULL
+     OR v_address.latitude IS NULL OR v_address.longitude IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ADDRESS_INVALID',
+      DETAIL = 'Address is missing street, city or coordinates';
+  END IF;
+
+  SELECT * INTO v_shop FROM public.shops WHERE id = p_shop_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SHOP_NOT_FOUND';
+  END IF;
+
+  IF v_shop.is_open IS DISTINCT FROM TRUE THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SHOP_CLOSED';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'EMPTY_ORDER';
+  END IF;
+
+  -- Normalise requested lines (merge duplicates of the same item)
+  DROP TABLE IF EXISTS _requested_lines;
+  CREATE TEMP TABLE _requested_lines ON COMMIT DROP AS
+  SELECT
+    (line ->> 'merchant_item_id')::UUID AS merchant_item_id,
+    SUM((line ->> 'quantity')::NUMERIC) AS quantity
+  FROM jsonb_array_elements(p_items) AS line
+  GROUP BY (line ->> 'merchant_item_id')::UUID;
+
+  IF EXISTS (
+    SELECT 1 FROM _requested_lines
+    WHERE merchant_item_id IS NULL OR quantity IS NULL OR quantity <= 0 OR quantity <> trunc(quantity)
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_QUANTITY';
+  END IF;
+
+  -- Lock item rows so prices and stock cannot change while the order is written
+  DROP TABLE IF EXISTS _priced_lines;
+  CREATE TEMP TABLE _priced_lines ON COMMIT DROP AS
+  SELECT
+    mi.id AS merchant_item_id,
+    COALESCE(mi.name, it.name, '') AS item_name,
+    COALESCE(mi.description, it.description) AS item_description,
+    COALESCE(mi.image_url, it.image_url) AS item_image_url,
+    mi.price_cents AS item_price_cents,
+    mi.is_active,
+    mi.available_quantity,
+    rl.quantity::INTEGER AS quantity
+  FROM _requested_lines rl
+  JOIN public.merchant_items mi ON mi.id = rl.merchant_item_id AND mi.shop_id = p_shop_id
+  LEFT JOIN public.item_templates it ON it.id = mi.template_id
+  ORDER BY mi.id
+  FOR UPDATE OF mi;
+
+  SELECT COUNT(*) INTO v_requested_count FROM _requested_lines;
+  SELECT COUNT(*) INTO v_found_count FROM _priced_lines;
+
+  IF v_found_count < v_requested_count THEN
+    SELECT rl.merchant_item_id INTO v_missing_item
+    FROM _requested_lines rl
+    LEFT JOIN _priced_lines pl ON pl.merchant_item_id = rl.merchant_item_id
+    WHERE pl.merchant_item_id IS NULL
+    LIMIT 1;
+
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ITEM_NOT_FOUND',
+      DETAIL = format('Item %s does not belong to shop %s', v_missing_item, p_shop_id);
+  END IF;
+
+  SELECT merchant_item_id INTO v_inactive_item FROM _priced_lines WHERE NOT is_active LIMIT 1;
+
+  IF v_inactive_item IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ITEM_UNAVAILABLE',
+      DETAIL = format('Item %s is no longer available', v_inactive_item);
+  END IF;
+
+  SELECT merchant_item_id, available_quantity, quantity INTO v_short_line
+  FROM _priced_lines
+  WHERE available_quantity IS NOT NULL AND quantity > available_quantity
+  LIMIT 1;
+
+  IF v_short_line.merchant_item_id IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INSUFFICIENT_STOCK',
+      DETAIL = format('Item %s has %s available, %s requested',
+        v_short_line.merchant_item_id, v_short_line.available_quantity, v_short_line.quantity);
+  END IF;
+
+  SELECT COALESCE(SUM(item_price_cents * quantity), 0)::INTEGER INTO v_subtotal_cents FROM _priced_lines;
+
+  v_distance := public.haversine_distance_meters(
+    v_address.latitude::DOUBLE PRECISION,
+    v_address.longitude::DOUBLE PRECISION,
+    v_shop.latitude,
+    v_shop.longitude
+  );
+
+  SELECT * INTO v_pricing FROM public.calculate_order_pricing(p_shop_id, v_subtotal_cents, v_distance);
+
+  SELECT name, email INTO v_profile FROM public.user_profiles WHERE id = v_user_id;
+
+  INSERT INTO public.orders (
+    shop_id,
+    user_id,
+    consumer_address_id,
+    status,
+    subtotal_cents,
+    delivery_fee_cents,
+    surcharge_cents,
+    total_cents,
+    payment_method,
+    special_instructions,
+    delivery_address,
+    customer_name,
+    customer_email,
+    idempotency_key
+  ) VALUES (
+    p_shop_id,
+    v_user_id,
+    v_address.id,
+    'pending',
+    v_subtotal_cents,
+    v_pricing.delivery_fee_cents,
+    v_pricing.surcharge_cents,
+    v_subtotal_cents + v_pricing.delivery_fee_cents + v_pricing.surcharge_cents,
+    COALESCE(p_payment_method, 'cash'),
+    NULLIF(btrim(p_special_instructions), ''),
+    jsonb_build_object(
+      'id', v_address.id,
+      'title', v_address.title,
+      'street_address', v_address.street_address,
+      'city', v_address.city,
+      'region', v_address.region,
+      'latitude', v_address.latitude,
+      'longitude', v_address.longitude,
+      'landmark', v_address.landmark,
+      'formatted_address', v_address.formatted_address
+    ),
+    v_profile.name,
+    v_profile.email,
+    p_idempotency_key
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO public.order_items (
+    order_id,
+    merchant_item_id,
+    item_name,
+    item_description,
+    item_image_url,
+    item_price_cents,
+    quantity,
+    subtotal_cents
+  )
+  SELECT
+    v_order.id,
+    merchant_item_id,
+    item_name,
+    item_description,
+    item_image_url,
+    item_price_cents,
+    quantity,
+    item_price_cents * quantity
+  FROM _priced_lines;
+
+  -- Reserve tracked stock until the order is delivered or cancelled
+  UPDATE public.merchant_items mi
+  SET reserved_quantity = mi.reserved_quantity + pl.quantity
+  FROM _priced_lines pl
+  WHERE mi.id = pl.merchant_item_id
+    AND mi.stock_quantity IS NOT NULL;
+
+  RETURN public.order_with_items_json(v_order.id);
+END;
+$$;
+
+COMMENT ON COLUMN public.merchant_items.stock_quantity IS 'On-hand stock; NULL when the item is not stock-tracked';
+COMMENT ON COLUMN public.merchant_items.reserved_quantity IS 'Units held by pending, confirmed or in-transit orders';
+COMMENT ON COLUMN public.merchant_items.available_quantity IS 'stock_quantity minus reserved_quantity; NULL when untracked';
+COMMENT ON FUNCTION public.apply_order_stock_movements IS 'Releases reserved stock on cancellation and consumes it on delivery';
@@ -0,0 +1,202 @@
+-- ============================================================================
+-- REORDER THRESHOLDS AND LOW-STOCK ALERTS
+-- ============================================================================
+-- Stock-tracked items can carry a reorder threshold. When available stock
+-- drops to or below it, a LOW_STOCK entry is written to audit_logs with
+-- source 'system_sync'. audit_logs joins the realtime publication so the
+-- merchant portal can surface the alert live.
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'merchant_items' AND column_name = 'reorder_threshold') THEN
+    ALTER TABLE public.merchant_items ADD COLUMN reorder_threshold INTEGER DEFAULT NULL;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.table_constraints WHERE constraint_schema = 'public' AND table_name = 'merchant_items' AND constraint_name = 'check_reorder_threshold') THEN
+    ALTER TABLE public.merchant_items ADD CONSTRAINT check_reorder_threshold CHECK (reorder_threshold IS NULL OR reorder_threshold >= 0);
+  END IF;
+END $$;
+
+-- ============================================================================
+-- Inventory view: expose threshold and a filterable low-stock flag
+-- ============================================================================
+
+DROP VIEW IF EXISTS public.merchant_item_view;
+
+CREATE VIEW public.merchant_item_view AS
+SELECT
+  mi.id,
+  mi.shop_id,
+  mi.template_id,
+  mi.sku,
+  mi.price_cents,
+  mi.currency,
+  mi.is_active,
+  mi.is_custom,
+  mi.stock_quantity,
+  mi.reserved_quantity,
+  mi.available_quantity,
+  mi.reorder_threshold,
+  COALESCE(mi.available_quantity <= mi.reorder_threshold, FALSE) AS is_low_stock,
+  mi.created_at,
+  mi.updated_at,
+  COALESCE(mi.name, it.name) AS name,
+  COALESCE(mi.description, it.description) AS description,
+  COALESCE(mi.barcode, it.barcode) AS barcode,
+  COALESCE(mi.image_url, it.image_url) AS image_url,
+  COALESCE(mi.last_updated_by, jsonb_build_object()) AS last_updated_by,
+  COALESCE(jsonb_agg(DISTINCT jsonb_build_object(
+    'id', mc.id,
+    'name', mc.name,
+    'description', mc.description,
+    'isActive', mc.is_active
+  )) FILTER (WHERE mc.id IS NOT NULL), '[]'::JSONB) AS categories,
+  COALESCE(array_agg(DISTINCT mc.id) FILTER (WHERE mc.id IS NOT NULL), ARRAY[]::UUID[]) AS category_ids,
+  (
+    setweight(to_tsvector('simple', COALESCE(mi.name, it.name, '')), 'A') ||
+    setweight(to_tsvector('simple', COALESCE(mi.sku, '')), 'B') ||
+    setweight(to_tsvector('simple', COALESCE(mi.barcode, '')), 'B')
+  ) AS search_vector
+FROM public.merchant_items mi
+LEFT JOIN public.item_templates it ON it.id = mi.template_id
+LEFT JOIN public.merchant_item_categories mic ON mic.merchant_item_id = mi.id
+LEFT JOIN public.merchant_categories mc ON mc.id = mic.merchant_category_id
+GROUP BY mi.id, mi.shop_id, mi.template_id, mi.sku, mi.price_cents, mi.currency, mi.is_active, mi.is_custom, mi.stock_quantity, mi.reserved_quantity, mi.available_quantity, mi.reorder_threshold, mi.created_at, mi.updated_at, mi.name, mi.description, mi.barcode, mi.image_url, mi.last_updated_by, it.name, it.description, it.barcode, it.image_url;
+
+COMMENT ON VIEW public.merchant_item_view IS 'Computed view merging merchant overrides with global item templates';
+
+-- ============================================================================
+-- Audit threshold edits alongside the other item fields
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.log_inventory_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  diff JSONB := '{}'::JSONB;
+  actor_id UUID := auth.uid();
+  actor_role TEXT := current_setting('request.jwt.claim.role', true);
+  actor_email TEXT := current_setting('request.jwt.claim.email', true);
+  source_hint TEXT := COALESCE((current_setting('request.headers', true)::JSON ->> 'x-change-source'), 'manual');
+  target_shop UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  ELSIF TG_OP = 'INSERT' THEN
+    diff := jsonb_strip_nulls(jsonb_build_object(
+      'sku', jsonb_build_object('from', NULL, 'to', NEW.sku),
+      'price_cents', jsonb_build_object('from', NULL, 'to', NEW.price_cents),
+      'is_active', jsonb_build_object('from', NULL, 'to', NEW.is_active),
+      'stock_quantity', jsonb_build_object('from', NULL, 'to', NEW.stock_quantity),
+      'reorder_threshold', jsonb_build_object('from', NULL, 'to', NEW.reorder_threshold)
+    ));
+    target_shop := NEW.shop_id;
+  ELSIF TG_OP = 'UPDATE' THEN
+    IF NEW.sku IS DISTINCT FROM OLD.sku THEN
+      diff := diff || jsonb_build_object('sku', jsonb_build_object('from', OLD.sku, 'to', NEW.sku));
+    END IF;
+    IF NEW.price_cents IS DISTINCT FROM OLD.price_cents THEN
+      diff := diff || jsonb_build_object('price_cents', jsonb_build_object('from', OLD.price_cents, 'to', NEW.price_cents));
+    END IF;
+    IF NEW.is_active IS DISTINCT FROM OLD.is_active THEN
+      diff := diff || jsonb_build_object('is_active', jsonb_build_object('from', OLD.is_active, 'to', NEW.is_active));
+    END IF;
+    IF NEW.description IS DISTINCT FROM OLD.description THEN
+      diff := diff || jsonb_build_object('description', jsonb_build_object('from', OLD.description, 'to', NEW.description));
+    END IF;
+    IF NEW.template_id IS DISTINCT FROM OLD.template_id THEN
+      diff := diff || jsonb_build_object('template_id', jsonb_build_object('from', OLD.template_id, 'to', NEW.template_id));
+    END IF;
+    IF NEW.stock_quantity IS DISTINCT FROM OLD.stock_quantity THEN
+      diff := diff || jsonb_build_object('stock_quantity', jsonb_build_object('from', OLD.stock_quantity, 'to', NEW.stock_quantity));
+    END IF;
+    IF NEW.reorder_threshold IS DISTINCT FROM OLD.reorder_threshold THEN
+      diff := diff || jsonb_build_object('reorder_threshold', jsonb_build_object('from', OLD.reorder_threshold, 'to', NEW.reorder_threshold));
+    END IF;
+    target_shop := NEW.shop_id;
+
+    IF diff = '{}'::JSONB THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  INSERT INTO public.audit_logs (
+    shop_id,
+    merchant_item_id,
+    actor,
+    action_type,
+    changed_fields,
+    source
+  ) VALUES (
+    target_shop,
+    NEW.id,
+    jsonb_strip_nulls(jsonb_build_object(
+      'id', actor_id,
+      'role', actor_role,
+      'email', actor_email
+    )),
+    TG_OP,
+    diff,
+    source_hint
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- Low-stock alert when available stock crosses the reorder threshold
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.log_low_stock_alert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  was_low BOOLEAN := COALESCE(OLD.available_quantity <= OLD.reorder_threshold, FALSE);
+  is_low BOOLEAN := COALESCE(NEW.available_quantity <= NEW.reorder_threshold, FALSE);
+BEGIN
+  IF is_low AND NOT was_low THEN
+    INSERT INTO public.audit_logs (
+      shop_id,
+      merchant_item_id,
+      actor,
+      action_type,
+      changed_fields,
+      source
+    ) VALUES (
+      NEW.shop_id,
+      NEW.id,
+      jsonb_build_object('id', 'system', 'role', 'system'),
+      'LOW_STOCK',
+      jsonb_build_object(
+        'available_quantity', jsonb_build_object('from', OLD.available_quantity, 'to', NEW.available_quantity),
+        'reorder_threshold', jsonb_build_object('from', NEW.reorder_threshold, 'to', NEW.reorder_threshold)
+      ),
+      'system_sync'
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS merchant_items_low_stock_alert ON public.merchant_items;
+CREATE TRIGGER merchant_items_low_stock_alert
+  AFTER UPDATE OF stock_quantity, reserved_quantity, reorder_threshold ON public.merchant_items
+  FOR EACH ROW EXECUTE FUNCTION public.log_low_stock_alert();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'audit_logs'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.audit_logs;
+  END IF;
+END $$;
+
+COMMENT ON COLUMN public.merchant_items.reorder_threshold IS 'Raise a low-stock alert once available_quantity drops to this level';
+COMMENT ON FUNCTION public.log_low_stock_alert IS 'Writes a LOW_STOCK audit entry when an item crosses its reorder threshold';
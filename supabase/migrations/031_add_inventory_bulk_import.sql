@@ -0,0 +1,235 @@
+-- ============================================================================
+-- BULK INVENTORY IMPORT
+-- ============================================================================
+-- Merchants upload a CSV/XLSX, review a dry-run diff in the portal, then
+-- apply it through apply_inventory_import(). The function tags its writes
+-- with app.inventory_change_source = 'bulk_import' so log_inventory_change
+-- records them as IMPORT entries with source 'bulk_import'.
+-- item_templates gains a match_key column so uploaded rows without a barcode
+-- can still be matched to the catalog by name. It is looser than the unique
+-- name_normalized from 011 (which only lowercases and trims): punctuation
+-- and repeated whitespace collapse to single spaces.
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'item_templates' AND column_name = 'match_key') THEN
+    ALTER TABLE public.item_templates
+      ADD COLUMN match_key TEXT GENERATED ALWAYS AS (
+        btrim(regexp_replace(lower(name), '[^a-z0-9]+', ' ', 'g'))
+      ) STORED;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS item_templates_match_key_idx ON public.item_templates (match_key);
+CREATE INDEX IF NOT EXISTS item_templates_barcode_idx ON public.item_templates (barcode) WHERE barcode IS NOT NULL;
+
+COMMENT ON COLUMN public.item_templates.match_key IS 'Lowercased name with punctuation collapsed to single spaces; used to match imported rows';
+
+-- ============================================================================
+-- Audit: honour the transaction-local change source and log name/barcode
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.log_inventory_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  diff JSONB := '{}'::JSONB;
+  actor_id UUID := auth.uid();
+  actor_role TEXT := current_setting('request.jwt.claim.role', true);
+  actor_email TEXT := current_setting('request.jwt.claim.email', true);
+  source_hint TEXT := COALESCE(
+    NULLIF(current_setting('app.inventory_change_source', true), ''),
+    (current_setting('request.headers', true)::JSON ->> 'x-change-source'),
+    'manual'
+  );
+  target_shop UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  ELSIF TG_OP = 'INSERT' THEN
+    diff := jsonb_strip_nulls(jsonb_build_object(
+      'sku', jsonb_build_object('from', NULL, 'to', NEW.sku),
+      'price_cents', jsonb_build_object('from', NULL, 'to', NEW.price_cents),
+      'is_active', jsonb_build_object('from', NULL, 'to', NEW.is_active),
+      'stock_quantity', jsonb_build_object('from', NULL, 'to', NEW.stock_quantity),
+      'reorder_threshold', jsonb_build_object('from', NULL, 'to', NEW.reorder_threshold)
+    ));
+    target_shop := NEW.shop_id;
+  ELSIF TG_OP = 'UPDATE' THEN
+    IF NEW.sku IS DISTINCT FROM OLD.sku THEN
+      diff := diff || jsonb_build_object('sku', jsonb_build_object('from', OLD.sku, 'to', NEW.sku));
+    END IF;
+    IF NEW.name IS DISTINCT FROM OLD.name THEN
+      diff := diff || jsonb_build_object('name', jsonb_build_object('from', OLD.name, 'to', NEW.name));
+    END IF;
+    IF NEW.barcode IS DISTINCT FROM OLD.barcode THEN
+      diff := diff || jsonb_build_object('barcode', jsonb_build_object('from', OLD.barcode, 'to', NEW.barcode));
+    END IF;
+    IF NEW.price_cents IS DISTINCT FROM OLD.price_cents THEN
+      diff := diff || jsonb_build_object('price_cents', jsonb_build_object('from', OLD.price_cents, 'to', NEW.price_cents));
+    END IF;
+    IF NEW.is_active IS DISTINCT FROM OLD.is_active THEN
+      diff := diff || jsonb_build_object('is_active', jsonb_build_object('from', OLD.is_active, 'to', NEW.is_active));
+    END IF;
+    IF NEW.description IS DISTINCT FROM OLD.description THEN
+      diff := diff || jsonb_build_object('description', jsonb_build_object('from', OLD.description, 'to', NEW.description));
+    END IF;
+    IF NEW.template_id IS DISTINCT FROM OLD.template_id THEN
+      diff := diff || jsonb_build_object('template_id', jsonb_build_object('from', OLD.template_id, 'to', NEW.template_id));
+    END IF;
+    IF NEW.stock_quantity IS DISTINCT FROM OLD.stock_quantity THEN
+      diff := diff || jsonb_build_object('stock_quantity', jsonb_build_object('from', OLD.stock_quantity, 'to', NEW.stock_quantity));
+    END IF;
+    IF NEW.reorder_threshold IS DISTINCT FROM OLD.reorder_threshold THEN
+      diff := diff || jsonb_build_object('reorder_threshold', jsonb_build_object('from', OLD.reorder_threshold, 'to', NEW.reorder_threshold));
+    END IF;
+    target_shop := NEW.shop_id;
+
+    IF diff = '{}'::JSONB THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  INSERT INTO public.audit_logs (
+    shop_id,
+    merchant_item_id,
+    actor,
+    action_type,
+    changed_fields,
+    source
+  ) VALUES (
+    target_shop,
+    NEW.id,
+    jsonb_strip_nulls(jsonb_build_object(
+      'id', actor_id,
+      'role', actor_role,
+      'email', actor_email
+    )),
+    CASE WHEN source_hint = 'bulk_import' THEN 'IMPORT' ELSE TG_OP END,
+    diff,
+    source_hint
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- Apply a reviewed import plan in one transaction
+-- ============================================================================
+-- p_changes is an array of objects produced by the portal's dry run:
+--   { merchant_item_id?, template_id?, name?, sku, barcode?, price_cents?,
+--     is_active?, category_name? }
+-- Rows without merchant_item_id are created; the rest update only the keys
+-- present. Runs as the caller so the merchant_items RLS policies still apply.
+
+CREATE OR REPLACE FUNCTION public.apply_inventory_import(
+  p_shop_id UUID,
+  p_changes JSONB
+)
+RETURNS TABLE (created_count INTEGER, updated_count INTEGER)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_change JSONB;
+  v_item_id UUID;
+  v_category_id UUID;
+  v_previous_categories JSONB;
+BEGIN
+  PERFORM set_config('app.inventory_change_source', 'bulk_import', true);
+
+  created_count := 0;
+  updated_count := 0;
+
+  FOR v_change IN SELECT value FROM jsonb_array_elements(COALESCE(p_changes, '[]'::JSONB))
+  LOOP
+    IF v_change ->> 'merchant_item_id' IS NULL THEN
+      INSERT INTO public.merchant_items (
+        shop_id,
+        template_id,
+        name,
+        barcode,
+        sku,
+        price_cents,
+        is_active,
+        is_custom
+      ) VALUES (
+        p_shop_id,
+        (v_change ->> 'template_id')::UUID,
+        v_change ->> 'name',
+        v_change ->> 'barcode',
+        v_change ->> 'sku',
+        COALESCE((v_change ->> 'price_cents')::INTEGER, 0),
+        COALESCE((v_change ->> 'is_active')::BOOLEAN, TRUE),
+        v_change ->> 'template_id' IS NULL
+      ) RETURNING id INTO v_item_id;
+
+      created_count := created_count + 1;
+    ELSE
+      UPDATE public.merchant_items SET
+        name = CASE WHEN v_change ? 'name' THEN v_change ->> 'name' ELSE name END,
+        barcode = CASE WHEN v_change ? 'barcode' THEN v_change ->> 'barcode' ELSE barcode END,
+        sku = CASE WHEN v_change ? 'sku' THEN v_change ->> 'sku' ELSE sku END,
+        price_cents = CASE WHEN v_change ? 'price_cents' THEN (v_change ->> 'price_cents')::INTEGER ELSE price_cents END,
+        is_active = CASE WHEN v_change ? 'is_active' THEN (v_change ->> 'is_active')::BOOLEAN ELSE is_active END,
+        updated_at = timezone('utc'::TEXT, now())
+      WHERE id = (v_change ->> 'merchant_item_id')::UUID
+        AND shop_id = p_shop_id
+      RETURNING id INTO v_item_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'IMPORT_ITEM_NOT_FOUND',
+          DETAIL = format('Item %s no longer exists in shop %s', v_change ->> 'merchant_item_id', p_shop_id);
+      END IF;
+
+      updated_count := updated_count + 1;
+    END IF;
+
+    IF NULLIF(btrim(v_change ->> 'category_name'), '') IS NOT NULL THEN
+      SELECT id INTO v_category_id
+      FROM public.merchant_categories
+      WHERE shop_id = p_shop_id AND lower(name) = lower(btrim(v_change ->> 'category_name'));
+
+      IF v_category_id IS NULL THEN
+        INSERT INTO public.merchant_categories (shop_id, name)
+        VALUES (p_shop_id, btrim(v_change ->> 'category_name'))
+        RETURNING id INTO v_category_id;
+      END IF;
+
+      SELECT COALESCE(jsonb_agg(mc.name ORDER BY mc.name), '[]'::JSONB) INTO v_previous_categories
+      FROM public.merchant_item_categories mic
+      JOIN public.merchant_categories mc ON mc.id = mic.merchant_category_id
+      WHERE mic.merchant_item_id = v_item_id;
+
+      DELETE FROM public.merchant_item_categories WHERE merchant_item_id = v_item_id;
+      INSERT INTO public.merchant_item_categories (merchant_item_id, merchant_category_id)
+      VALUES (v_item_id, v_category_id);
+
+      -- Category links live outside merchant_items, so the trigger never sees them
+      INSERT INTO public.audit_logs (shop_id, merchant_item_id, actor, action_type, changed_fields, source)
+      VALUES (
+        p_shop_id,
+        v_item_id,
+        jsonb_strip_nulls(jsonb_build_object(
+          'id', auth.uid(),
+          'role', current_setting('request.jwt.claim.role', true),
+          'email', current_setting('request.jwt.claim.email', true)
+        )),
+        'IMPORT',
+        jsonb_build_object('categories', jsonb_build_object(
+          'from', v_previous_categories,
+          'to', jsonb_build_array(btrim(v_change ->> 'category_name'))
+        )),
+        'bulk_import'
+      );
+    END IF;
+  END LOOP;
+
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.apply_inventory_import(UUID, JSONB) TO authenticated;
+
+COMMENT ON FUNCTION public.apply_inventory_import IS 'Applies a reviewed bulk import plan atomically; writes are audit-logged as IMPORT';
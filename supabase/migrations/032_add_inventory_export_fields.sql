@@ -0,0 +1,184 @@
+-- ============================================================================
+-- INVENTORY EXPORT
+-- ============================================================================
+-- merchant_item_view gains the sales counters and the linked template's
+-- name so the portal can export the full catalog as CSV.
+-- apply_inventory_import now takes category_names (an array) instead of a
+-- single category_name, so exported rows with several categories import
+-- back unchanged.
+-- ============================================================================
+
+DROP VIEW IF EXISTS public.merchant_item_view;
+
+CREATE VIEW public.merchant_item_view AS
+SELECT
+  mi.id,
+  mi.shop_id,
+  mi.template_id,
+  mi.sku,
+  mi.price_cents,
+  mi.currency,
+  mi.is_active,
+  mi.is_custom,
+  mi.stock_quantity,
+  mi.reserved_quantity,
+  mi.available_quantity,
+  mi.reorder_threshold,
+  COALESCE(mi.available_quantity <= mi.reorder_threshold, FALSE) AS is_low_stock,
+  mi.times_sold,
+  mi.total_revenue_cents,
+  mi.created_at,
+  mi.updated_at,
+  COALESCE(mi.name, it.name) AS name,
+  COALESCE(mi.description, it.description) AS description,
+  COALESCE(mi.barcode, it.barcode) AS barcode,
+  COALESCE(mi.image_url, it.image_url) AS image_url,
+  COALESCE(mi.last_updated_by, jsonb_build_object()) AS last_updated_by,
+  it.name AS template_name,
+  COALESCE(jsonb_agg(DISTINCT jsonb_build_object(
+    'id', mc.id,
+    'name', mc.name,
+    'description', mc.description,
+    'isActive', mc.is_active
+  )) FILTER (WHERE mc.id IS NOT NULL), '[]'::JSONB) AS categories,
+  COALESCE(array_agg(DISTINCT mc.id) FILTER (WHERE mc.id IS NOT NULL), ARRAY[]::UUID[]) AS category_ids,
+  (
+    setweight(to_tsvector('simple', COALESCE(mi.name, it.name, '')), 'A') ||
+    setweight(to_tsvector('simple', COALESCE(mi.sku, '')), 'B') ||
+    setweight(to_tsvector('simple', COALESCE(mi.barcode, '')), 'B')
+  ) AS search_vector
+FROM public.merchant_items mi
+LEFT JOIN public.item_templates it ON it.id = mi.template_id
+LEFT JOIN public.merchant_item_categories mic ON mic.merchant_item_id = mi.id
+LEFT JOIN public.merchant_categories mc ON mc.id = mic.merchant_category_id
+GROUP BY mi.id, mi.shop_id, mi.template_id, mi.sku, mi.price_cents, mi.currency, mi.is_active, mi.is_custom, mi.stock_quantity, mi.reserved_quantity, mi.available_quantity, mi.reorder_threshold, mi.times_sold, mi.total_revenue_cents, mi.created_at, mi.updated_at, mi.name, mi.description, mi.barcode, mi.image_url, mi.last_updated_by, it.name, it.description, it.barcode, it.image_url;
+
+COMMENT ON VIEW public.merchant_item_view IS 'Computed view merging merchant overrides with global item templates';
+
+-- ============================================================================
+-- Import: accept several categories per row
+-- ============================================================================
+-- p_changes objects now carry category_names (TEXT[] as JSON) in place of
+-- category_name. An empty array clears the item's categories.
+
+CREATE OR REPLACE FUNCTION public.apply_inventory_import(
+  p_shop_id UUID,
+  p_changes JSONB
+)
+RETURNS TABLE (created_count INTEGER, updated_count INTEGER)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_change JSONB;
+  v_item_id UUID;
+  v_category_name TEXT;
+  v_category_id UUID;
+  v_sort_order INTEGER;
+  v_previous_categories JSONB;
+BEGIN
+  PERFORM set_config('app.inventory_change_source', 'bulk_import', true);
+
+  created_count := 0;
+  updated_count := 0;
+
+  FOR v_change IN SELECT value FROM jsonb_array_elements(COALESCE(p_changes, '[]'::JSONB))
+  LOOP
+    IF v_change ->> 'merchant_item_id' IS NULL THEN
+      INSERT INTO public.merchant_items (
+        shop_id,
+        template_id,
+        name,
+        barcode,
+        sku,
+        price_cents,
+        is_active,
+        is_custom
+      ) VALUES (
+        p_shop_id,
+        (v_change ->> 'template_id')::UUID,
+        v_change ->> 'name',
+        v_change ->> 'barcode',
+        v_change ->> 'sku',
+        COALESCE((v_change ->> 'price_cents')::INTEGER, 0),
+        COALESCE((v_change ->> 'is_active')::BOOLEAN, TRUE),
+        v_change ->> 'template_id' IS NULL
+      ) RETURNING id INTO v_item_id;
+
+      created_count := created_count + 1;
+    ELSE
+      UPDATE public.merchant_items SET
+        name = CASE WHEN v_change ? 'name' THEN v_change ->> 'name' ELSE name END,
+        barcode = CASE WHEN v_change ? 'barcode' THEN v_change ->> 'barcode' ELSE barcode END,
+        sku = CASE WHEN v_change ? 'sku' THEN v_change ->> 'sku' ELSE sku END,
+        price_cents = CASE WHEN v_change ? 'price_cents' THEN (v_change ->> 'price_cents')::INTEGER ELSE price_cents END,
+        is_active = CASE WHEN v_change ? 'is_active' THEN (v_change ->> 'is_active')::BOOLEAN ELSE is_active END,
+        updated_at = timezone('utc'::TEXT, now())
+      WHERE id = (v_change ->> 'merchant_item_id')::UUID
+        AND shop_id = p_shop_id
+      RETURNING id INTO v_item_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'IMPORT_ITEM_NOT_FOUND',
+          DETAIL = format('Item %s no longer exists in shop %s', v_change ->> 'merchant_item_id', p_shop_id);
+      END IF;
+
+      updated_count := updated_count + 1;
+    END IF;
+
+    IF jsonb_typeof(v_change -> 'category_names') = 'array' THEN
+      SELECT COALESCE(jsonb_agg(mc.name ORDER BY mc.name), '[]'::JSONB) INTO v_previous_categories
+      FROM public.merchant_item_categories mic
+      JOIN public.merchant_categories mc ON mc.id = mic.merchant_category_id
+      WHERE mic.merchant_item_id = v_item_id;
+
+      DELETE FROM public.merchant_item_categories WHERE merchant_item_id = v_item_id;
+
+      v_sort_order := 0;
+      FOR v_category_name IN
+        SELECT DISTINCT ON (lower(btrim(value))) btrim(value)
+        FROM jsonb_array_elements_text(v_change -> 'category_names')
+        WHERE btrim(value) <> ''
+      LOOP
+        SELECT id INTO v_category_id
+        FROM public.merchant_categories
+        WHERE shop_id = p_shop_id AND lower(name) = lower(v_category_name);
+
+        IF v_category_id IS NULL THEN
+          INSERT INTO public.merchant_categories (shop_id, name)
+          VALUES (p_shop_id, v_category_name)
+          RETURNING id INTO v_category_id;
+        END IF;
+
+        INSERT INTO public.merchant_item_categories (merchant_item_id, merchant_category_id, sort_order)
+        VALUES (v_item_id, v_category_id, v_sort_order);
+        v_sort_order := v_sort_order + 1;
+      END LOOP;
+
+      -- Category links live outside merchant_items, so the trigger never sees them
+      INSERT INTO public.audit_logs (shop_id, merchant_item_id, actor, action_type, changed_fields, source)
+      VALUES (
+        p_shop_id,
+        v_item_id,
+        jsonb_strip_nulls(jsonb_build_object(
+          'id', auth.uid(),
+          'role', current_setting('request.jwt.claim.role', true),
+          'email', current_setting('request.jwt.claim.email', true)
+        )),
+        'IMPORT',
+        jsonb_build_object('categories', jsonb_build_object(
+          'from', v_previous_categories,
+          'to', v_change -> 'category_names'
+        )),
+        'bulk_import'
+      );
+    END IF;
+  END LOOP;
+
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.apply_inventory_import(UUID, JSONB) TO authenticated;
+
+COMMENT ON FUNCTION public.apply_inventory_import IS 'Applies a reviewed bulk import plan atomically; writes are audit-logged as IMPORT';
@@ -0,0 +1,510 @@
+-- ============================================================================
+-- WEIGHT-BASED PRICING
+-- ============================================================================
+-- Items are sold by the piece, kilogram or litre. price_cents is the price of
+-- one unit; quantity_step and min_quantity control what can be ordered
+-- (e.g. 0.25kg steps from 0.5kg). Quantities, stock and reservations become
+-- NUMERIC(12,3) so fractional amounts survive end to end. Line subtotals are
+-- rounded to the nearest cent.
+-- ============================================================================
+
+-- Dependants of the integer columns are dropped here and recreated below
+DROP VIEW IF EXISTS public.merchant_item_view;
+DROP TRIGGER IF EXISTS merchant_items_low_stock_alert ON public.merchant_items;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'merchant_items' AND column_name = 'unit_type') THEN
+    ALTER TABLE public.merchant_items ADD COLUMN unit_type TEXT NOT NULL DEFAULT 'piece';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'merchant_items' AND column_name = 'quantity_step') THEN
+    ALTER TABLE public.merchant_items ADD COLUMN quantity_step NUMERIC(12,3) NOT NULL DEFAULT 1;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'merchant_items' AND column_name = 'min_quantity') THEN
+    ALTER TABLE public.merchant_items ADD COLUMN min_quantity NUMERIC(12,3) NOT NULL DEFAULT 1;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.table_constraints WHERE constraint_schema = 'public' AND table_name = 'merchant_items' AND constraint_name = 'check_unit_type') THEN
+    ALTER TABLE public.merchant_items ADD CONSTRAINT check_unit_type CHECK (unit_type IN ('piece', 'kg', 'litre'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.table_constraints WHERE constraint_schema = 'public' AND table_name = 'merchant_items' AND constraint_name = 'check_quantity_rules') THEN
+    ALTER TABLE public.merchant_items ADD CONSTRAINT check_quantity_rules CHECK (
+      quantity_step > 0
+      AND min_quantity > 0
+      AND (unit_type <> 'piece' OR (quantity_step = trunc(quantity_step) AND min_quantity = trunc(min_quantity)))
+    );
+  END IF;
+END $$;
+
+COMMENT ON COLUMN public.merchant_items.unit_type IS 'Unit price_cents refers to: piece, kg or litre';
+COMMENT ON COLUMN public.merchant_items.quantity_step IS 'Increment consumers can order in, e.g. 0.25 for quarter kilograms';
+COMMENT ON COLUMN public.merchant_items.min_quantity IS 'Smallest quantity a single order line may request';
+
+-- ============================================================================
+-- Fractional stock
+-- ============================================================================
+-- available_quantity is generated from the other two, so it is re-added.
+
+ALTER TABLE public.merchant_items DROP COLUMN IF EXISTS available_quantity;
+
+ALTER TABLE public.merchant_items
+  ALTER COLUMN stock_quantity TYPE NUMERIC(12,3),
+  ALTER COLUMN reserved_quantity TYPE NUMERIC(12,3),
+  ALTER COLUMN reorder_threshold TYPE NUMERIC(12,3),
+  ALTER COLUMN times_sold TYPE NUMERIC(14,3);
+
+ALTER TABLE public.merchant_items ADD COLUMN available_quantity NUMERIC(12,3) GENERATED ALWAYS AS (
+  CASE WHEN stock_quantity IS NULL THEN NULL ELSE GREATEST(stock_quantity - reserved_quantity, 0) END
+) STORED;
+
+CREATE TRIGGER merchant_items_low_stock_alert
+  AFTER UPDATE OF stock_quantity, reserved_quantity, reorder_threshold ON public.merchant_items
+  FOR EACH ROW EXECUTE FUNCTION public.log_low_stock_alert();
+
+-- ============================================================================
+-- Order lines carry fractional quantities and the unit they were sold in
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'order_items' AND column_name = 'unit_type') THEN
+    ALTER TABLE public.order_items ADD COLUMN unit_type TEXT NOT NULL DEFAULT 'piece';
+  END IF;
+END $$;
+
+ALTER TABLE public.order_items DROP CONSTRAINT IF EXISTS valid_subtotal;
+ALTER TABLE public.order_items ALTER COLUMN quantity TYPE NUMERIC(12,3);
+ALTER TABLE public.order_items
+  ADD CONSTRAINT valid_subtotal CHECK (subtotal_cents = round(item_price_cents * quantity));
+
+COMMENT ON COLUMN public.order_items.unit_type IS 'Unit of quantity at order time: piece, kg or litre';
+
+-- ============================================================================
+-- Inventory view: expose the unit rules
+-- ============================================================================
+
+CREATE VIEW public.merchant_item_view AS
+SELECT
+  mi.id,
+  mi.shop_id,
+  mi.template_id,
+  mi.sku,
+  mi.price_cents,
+  mi.currency,
+  mi.is_active,
+  mi.is_custom,
+  mi.stock_quantity,
+  mi.reserved_quantity,
+  mi.available_quantity,
+  mi.reorder_threshold,
+  mi.unit_type,
+  mi.quantity_step,
+  mi.min_quantity,
+  COALESCE(mi.available_quantity <= mi.reorder_threshold, FALSE) AS is_low_stock,
+  mi.times_sold,
+  mi.total_revenue_cents,
+  mi.variant_label,
+  (
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'id', v.id,
+      'name', v.name,
+      'sku', v.sku,
+      'priceCents', v.price_cents,
+      'isActive', v.is_active,
+      'sortOrder', v.sort_order
+    ) ORDER BY v.sort_order, v.name), '[]'::JSONB)
+    FROM public.merchant_item_variants v
+    WHERE v.merchant_item_id = mi.id
+  ) AS variants,
+  mi.created_at,
+  mi.updated_at,
+  COALESCE(mi.name, it.name) AS name,
+  COALESCE(mi.description, it.description) AS description,
+  COALESCE(mi.barcode, it.barcode) AS barcode,
+  COALESCE(mi.image_url, it.image_url) AS image_url,
+  COALESCE(mi.last_updated_by, jsonb_build_object()) AS last_updated_by,
+  it.name AS template_name,
+  COALESCE(jsonb_agg(DISTINCT jsonb_build_object(
+    'id', mc.id,
+    'name', mc.name,
+    'description', mc.description,
+    'isActive', mc.is_active
+  )) FILTER (WHERE mc.id IS NOT NULL), '[]'::JSONB) AS categories,
+  COALESCE(array_agg(DISTINCT mc.id) FILTER (WHERE mc.id IS NOT NULL), ARRAY[]::UUID[]) AS category_ids,
+  (
+    setweight(to_tsvector('simple', COALESCE(mi.name, it.name, '')), 'A') ||
+    setweight(to_tsvector('simple', COALESCE(mi.sku, '')), 'B') ||
+    setweight(to_tsvector('simple', COALESCE(mi.barcode, '')), 'B')
+  ) AS search_vector
+FROM public.merchant_items mi
+LEFT JOIN public.item_templates it ON it.id = mi.template_id
+LEFT JOIN public.merchant_item_categories mic ON mic.merchant_item_id = mi.id
+LEFT JOIN public.merchant_categories mc ON mc.id = mic.merchant_category_id
+GROUP BY mi.id, mi.shop_id, mi.template_id, mi.sku, mi.price_cents, mi.currency, mi.is_active, mi.is_custom, mi.stock_quantity, mi.reserved_quantity, mi.available_quantity, mi.reorder_threshold, mi.unit_type, mi.quantity_step, mi.min_quantity, mi.times_sold, mi.total_revenue_cents, mi.variant_label, mi.created_at, mi.updated_at, mi.name, mi.description, mi.barcode, mi.image_url, mi.last_updated_by, it.name, it.description, it.barcode, it.image_url;
+
+COMMENT ON VIEW public.merchant_item_view IS 'Computed view merging merchant overrides with global item templates';
+
+-- ============================================================================
+-- Stock movements and analytics: stop truncating summed quantities
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.apply_order_stock_movements()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status NOT IN ('cancelled', 'delivered') THEN
+    UPDATE public.merchant_items mi
+    SET reserved_quantity = GREATEST(mi.reserved_quantity - oi.quantity, 0)
+    FROM (
+      SELECT merchant_item_id, SUM(quantity) AS quantity
+      FROM public.order_items
+      WHERE order_id = NEW.id
+      GROUP BY merchant_item_id
+    ) oi
+    WHERE mi.id = oi.merchant_item_id
+      AND mi.stock_quantity IS NOT NULL;
+  ELSIF NEW.status = 'delivered' AND OLD.status <> 'delivered' THEN
+    UPDATE public.merchant_items mi
+    SET
+      stock_quantity = GREATEST(mi.stock_quantity - oi.quantity, 0),
+      reserved_quantity = GREATEST(mi.reserved_quantity - oi.quantity, 0)
+    FROM (
+      SELECT merchant_item_id, SUM(quantity) AS quantity
+      FROM public.order_items
+      WHERE order_id = NEW.id
+      GROUP BY merchant_item_id
+    ) oi
+    WHERE mi.id = oi.merchant_item_id
+      AND mi.stock_quantity IS NOT NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_item_analytics_on_delivery()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Only increment when order transitions to delivered
+  IF NEW.status = 'delivered' AND OLD.status != 'delivered' THEN
+    UPDATE public.merchant_items mi
+    SET
+      times_sold = times_sold + oi.quantity,
+      total_revenue_cents = total_revenue_cents + oi.subtotal_cents
+    FROM (
+      SELECT merchant_item_id, SUM(quantity) AS quantity, SUM(subtotal_cents)::BIGINT AS subtotal_cents
+      FROM public.order_items
+      WHERE order_id = NEW.id
+      GROUP BY merchant_item_id
+    ) oi
+    WHERE oi.merchant_item_id = mi.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- place_order: enforce unit rules and price fractional quantities
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_shop_id UUID,
+  p_consumer_address_id UUID,
+  p_items JSONB,
+  p_payment_method payment_method DEFAULT 'cash',
+  p_special_instructions TEXT DEFAULT NULL,
+  p_idempotency_key TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_address public.consumer_addresses%ROWTYPE;
+  v_shop public.shops%ROWTYPE;
+  v_profile RECORD;
+  v_requested_count INTEGER;
+  v_found_count INTEGER;
+  v_missing_item UUID;
+  v_inactive_item UUID;
+  v_variant_line RECORD;
+  v_bad_quantity_line RECORD;
+  v_short_line RECORD;
+  v_subtotal_cents INTEGER;
+  v_distance DOUBLE PRECISION;
+  v_pricing RECORD;
+  v_order public.orders%ROWTYPE;
+  v_existing_order_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'NOT_AUTHENTICATED';
+  END IF;
+
+  -- Replayed submission: return the order created by the first attempt.
+  -- The advisory lock serialises concurrent retries carrying the same key.
+  IF p_idempotency_key IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtextextended(v_user_id::TEXT || ':' || p_idempotency_key, 0));
+
+    SELECT id INTO v_existing_order_id
+    FROM public.orders
+    WHERE user_id = v_user_id AND idempotency_key = p_idempotency_key;
+
+    IF v_existing_order_id IS NOT NULL THEN
+      RETURN public.order_with_items_json(v_existing_order_id);
+    END IF;
+  END IF;
+
+  -- Address must exist and belong to the caller
+  SELECT * INTO v_address
+  FROM public.consumer_addresses
+  WHERE id = p_consumer_address_id AND user_id = v_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ADDRESS_NOT_FOUND',
+      DETAIL = format('Address %s not found for user', p_consumer_address_id);
+  END IF;
+
+  IF v_address.street_address IS NULL OR v_address.city IS NULL
+     OR v_address.latitude IS NULL OR v_address.longitude IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ADDRESS_INVALID',
+      DETAIL = 'Address is missing street, city or coordinates';
+  END IF;
+
+  SELECT * INTO v_shop FROM public.shops WHERE id = p_shop_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SHOP_NOT_FOUND';
+  END IF;
+
+  IF v_shop.is_open IS DISTINCT FROM TRUE THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SHOP_CLOSED';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'EMPTY_ORDER';
+  END IF;
+
+  -- Normalise requested lines (merge duplicates of the same item and variant)
+  DROP TABLE IF EXISTS _requested_lines;
+  CREATE TEMP TABLE _requested_lines ON COMMIT DROP AS
+  SELECT
+    (line ->> 'merchant_item_id')::UUID AS merchant_item_id,
+    NULLIF(line ->> 'variant_id', '')::UUID AS variant_id,
+    SUM((line ->> 'quantity')::NUMERIC) AS quantity
+  FROM jsonb_array_elements(p_items) AS line
+  GROUP BY (line ->> 'merchant_item_id')::UUID, NULLIF(line ->> 'variant_id', '')::UUID;
+
+  IF EXISTS (
+    SELECT 1 FROM _requested_lines
+    WHERE merchant_item_id IS NULL OR quantity IS NULL OR quantity <= 0 OR quantity <> round(quantity, 3)
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_QUANTITY';
+  END IF;
+
+  -- Lock item rows so prices and stock cannot change while the order is written
+  DROP TABLE IF EXISTS _priced_lines;
+  CREATE TEMP TABLE _priced_lines ON COMMIT DROP AS
+  SELECT
+    mi.id AS merchant_item_id,
+    rl.variant_id AS requested_variant_id,
+    v.id AS variant_id,
+    v.name AS variant_name,
+    v.is_active AS variant_is_active,
+    EXISTS (
+      SELECT 1 FROM public.merchant_item_variants av
+      WHERE av.merchant_item_id = mi.id AND av.is_active
+    ) AS has_active_variants,
+    COALESCE(mi.name, it.name, '') AS item_name,
+    COALESCE(mi.description, it.description) AS item_description,
+    COALESCE(mi.image_url, it.image_url) AS item_image_url,
+    COALESCE(v.price_cents, mi.price_cents) AS item_price_cents,
+    mi.is_active,
+    mi.available_quantity,
+    mi.unit_type,
+    mi.quantity_step,
+    mi.min_quantity,
+    rl.quantity AS quantity
+  FROM _requested_lines rl
+  JOIN public.merchant_items mi ON mi.id = rl.merchant_item_id AND mi.shop_id = p_shop_id
+  LEFT JOIN public.item_templates it ON it.id = mi.template_id
+  LEFT JOIN public.merchant_item_variants v ON v.id = rl.variant_id AND v.merchant_item_id = mi.id
+  ORDER BY mi.id
+  FOR UPDATE OF mi;
+
+  SELECT COUNT(*) INTO v_requested_count FROM _requested_lines;
+  SELECT COUNT(*) INTO v_found_count FROM _priced_lines;
+
+  IF v_found_count < v_requested_count THEN
+    SELECT rl.merchant_item_id INTO v_missing_item
+    FROM _requested_lines rl
+    WHERE NOT EXISTS (SELECT 1 FROM _priced_lines pl WHERE pl.merchant_item_id = rl.merchant_item_id)
+    LIMIT 1;
+
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ITEM_NOT_FOUND',
+      DETAIL = format('Item %s does not belong to shop %s', v_missing_item, p_shop_id);
+  END IF;
+
+  SELECT merchant_item_id INTO v_inactive_item FROM _priced_lines WHERE NOT is_active LIMIT 1;
+
+  IF v_inactive_item IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ITEM_UNAVAILABLE',
+      DETAIL = format('Item %s is no longer available', v_inactive_item);
+  END IF;
+
+  -- A chosen variant must exist and be on sale; items with variants need one
+  SELECT merchant_item_id, requested_variant_id INTO v_variant_line
+  FROM _priced_lines
+  WHERE (requested_variant_id IS NOT NULL AND (variant_id IS NULL OR NOT variant_is_active))
+     OR (requested_variant_id IS NULL AND has_active_variants)
+  LIMIT 1;
+
+  IF v_variant_line.merchant_item_id IS NOT NULL THEN
+    IF v_variant_line.requested_variant_id IS NULL THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'VARIANT_REQUIRED',
+        DETAIL = format('Item %s must be ordered as one of its variants', v_variant_line.merchant_item_id);
+    END IF;
+
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'VARIANT_UNAVAILABLE',
+      DETAIL = format('Variant %s of item %s is not available',
+        v_variant_line.requested_variant_id, v_variant_line.merchant_item_id);
+  END IF;
+
+  -- Each line must respect the item's minimum and step (whole units for pieces)
+  SELECT merchant_item_id, quantity, unit_type, quantity_step, min_quantity INTO v_bad_quantity_line
+  FROM _priced_lines
+  WHERE quantity < min_quantity OR mod(quantity, quantity_step) <> 0
+  LIMIT 1;
+
+  IF v_bad_quantity_line.merchant_item_id IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_QUANTITY',
+      DETAIL = format('Item %s is sold in steps of %s %s from %s %s; %s requested',
+        v_bad_quantity_line.merchant_item_id,
+        v_bad_quantity_line.quantity_step, v_bad_quantity_line.unit_type,
+        v_bad_quantity_line.min_quantity, v_bad_quantity_line.unit_type,
+        v_bad_quantity_line.quantity);
+  END IF;
+
+  -- Stock is tracked per item, so variant lines of the same item share it
+  SELECT merchant_item_id, available_quantity, SUM(quantity) AS quantity INTO v_short_line
+  FROM _priced_lines
+  WHERE available_quantity IS NOT NULL
+  GROUP BY merchant_item_id, available_quantity
+  HAVING SUM(quantity) > available_quantity
+  LIMIT 1;
+
+  IF v_short_line.merchant_item_id IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INSUFFICIENT_STOCK',
+      DETAIL = format('Item %s has %s available, %s requested',
+        v_short_line.merchant_item_id, v_short_line.available_quantity, v_short_line.quantity);
+  END IF;
+
+  SELECT COALESCE(SUM(round(item_price_cents * quantity)), 0)::INTEGER INTO v_subtotal_cents FROM _priced_lines;
+
+  v_distance := public.haversine_distance_meters(
+    v_address.latitude::DOUBLE PRECISION,
+    v_address.longitude::DOUBLE PRECISION,
+    v_shop.latitude,
+    v_shop.longitude
+  );
+
+  SELECT * INTO v_pricing FROM public.calculate_order_pricing(p_shop_id, v_subtotal_cents, v_distance);
+
+  SELECT name, email INTO v_profile FROM public.user_profiles WHERE id = v_user_id;
+
+  INSERT INTO public.orders (
+    shop_id,
+    user_id,
+    consumer_address_id,
+    status,
+    subtotal_cents,
+    delivery_fee_cents,
+    surcharge_cents,
+    total_cents,
+    payment_method,
+    special_instructions,
+    delivery_address,
+    customer_name,
+    customer_email,
+    idempotency_key
+  ) VALUES (
+    p_shop_id,
+    v_user_id,
+    v_address.id,
+    'pending',
+    v_subtotal_cents,
+    v_pricing.delivery_fee_cents,
+    v_pricing.surcharge_cents,
+    v_subtotal_cents + v_pricing.delivery_fee_cents + v_pricing.surcharge_cents,
+    COALESCE(p_payment_method, 'cash'),
+    NULLIF(btrim(p_special_instructions), ''),
+    jsonb_build_object(
+      'id', v_address.id,
+      'title', v_address.title,
+      'street_address', v_address.street_address,
+      'city', v_address.city,
+      'region', v_address.region,
+      'latitude', v_address.latitude,
+      'longitude', v_address.longitude,
+      'landmark', v_address.landmark,
+      'formatted_address', v_address.formatted_address
+    ),
+    v_profile.name,
+    v_profile.email,
+    p_idempotency_key
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO public.order_items (
+    order_id,
+    merchant_item_id,
+    variant_id,
+    variant_name,
+    item_name,
+    item_description,
+    item_image_url,
+    item_price_cents,
+    unit_type,
+    quantity,
+    subtotal_cents
+  )
+  SELECT
+    v_order.id,
+    merchant_item_id,
+    variant_id,
+    variant_name,
+    item_name,
+    item_description,
+    item_image_url,
+    item_price_cents,
+    unit_type,
+    quantity,
+    round(item_price_cents * quantity)::INTEGER
+  FROM _priced_lines;
+
+  -- Reserve tracked stock until the order is delivered or cancelled
+  UPDATE public.merchant_items mi
+  SET reserved_quantity = mi.reserved_quantity + pl.quantity
+  FROM (
+    SELECT merchant_item_id, SUM(quantity) AS quantity
+    FROM _priced_lines
+    GROUP BY merchant_item_id
+  ) pl
+  WHERE mi.id = pl.merchant_item_id
+    AND mi.stock_quantity IS NOT NULL;
+
+  RETURN public.order_with_items_json(v_order.id);
+END;
+$$;
+
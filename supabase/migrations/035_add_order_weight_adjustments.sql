@@ -0,0 +1,226 @@
+-- ============================================================================
+-- FINAL WEIGHT ADJUSTMENT
+-- ============================================================================
+-- Before dispatch, merchants record the packed weight/volume of kg and litre
+-- lines. adjust_order_item_quantities() accepts values within 10% of what
+-- was ordered, reprices the lines and updates the order total. Delivery fee
+-- and surcharge stay as charged at checkout.
+--   * order_items / orders keep the original values on first adjustment
+--   * order_item_adjustments records every change and who made it
+--   * the orders UPDATE reaches consumers through the order subscription
+-- The 10% band is mirrored by WEIGHT_ADJUSTMENT_TOLERANCE in
+-- src/utils/quantity.ts.
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'order_items' AND column_name = 'ordered_quantity') THEN
+    ALTER TABLE public.order_items ADD COLUMN ordered_quantity NUMERIC(12,3) DEFAULT NULL;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'order_items' AND column_name = 'ordered_subtotal_cents') THEN
+    ALTER TABLE public.order_items ADD COLUMN ordered_subtotal_cents INTEGER DEFAULT NULL;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'orders' AND column_name = 'original_subtotal_cents') THEN
+    ALTER TABLE public.orders ADD COLUMN original_subtotal_cents INTEGER DEFAULT NULL;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'orders' AND column_name = 'original_total_cents') THEN
+    ALTER TABLE public.orders ADD COLUMN original_total_cents INTEGER DEFAULT NULL;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'orders' AND column_name = 'weight_adjusted_at') THEN
+    ALTER TABLE public.orders ADD COLUMN weight_adjusted_at TIMESTAMPTZ DEFAULT NULL;
+  END IF;
+END $$;
+
+COMMENT ON COLUMN public.order_items.ordered_quantity IS 'Quantity the consumer ordered; set when the packed weight is recorded';
+COMMENT ON COLUMN public.order_items.ordered_subtotal_cents IS 'Line subtotal before the packed weight was recorded';
+COMMENT ON COLUMN public.orders.original_total_cents IS 'Total charged at checkout, before weight adjustments';
+COMMENT ON COLUMN public.orders.weight_adjusted_at IS 'Last time packed weights changed the order';
+
+CREATE TABLE IF NOT EXISTS public.order_item_adjustments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  order_item_id UUID NOT NULL REFERENCES public.order_items(id) ON DELETE CASCADE,
+  previous_quantity NUMERIC(12,3) NOT NULL,
+  adjusted_quantity NUMERIC(12,3) NOT NULL,
+  previous_subtotal_cents INTEGER NOT NULL,
+  adjusted_subtotal_cents INTEGER NOT NULL,
+  adjusted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc'::TEXT, now())
+);
+
+CREATE INDEX IF NOT EXISTS order_item_adjustments_order_idx
+  ON public.order_item_adjustments (order_id, created_at);
+
+ALTER TABLE public.order_item_adjustments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Consumers can view adjustments to their orders" ON public.order_item_adjustments;
+CREATE POLICY "Consumers can view adjustments to their orders"
+  ON public.order_item_adjustments
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.orders o
+      WHERE o.id = order_item_adjustments.order_id
+        AND o.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Merchants can view adjustments for their shops" ON public.order_item_adjustments;
+CREATE POLICY "Merchants can view adjustments for their shops"
+  ON public.order_item_adjustments
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.orders o
+      JOIN public.shops s ON s.id = o.shop_id
+      JOIN public.merchant_accounts ma ON ma.id = s.merchant_id
+      WHERE o.id = order_item_adjustments.order_id
+        AND ma.user_id = auth.uid()
+    )
+  );
+
+COMMENT ON TABLE public.order_item_adjustments IS 'Audit trail of packed-weight changes made to order lines before dispatch';
+
+-- ============================================================================
+-- Record packed weights
+-- ============================================================================
+-- p_lines: [{ order_item_id, quantity }]. Only kg/litre lines of a confirmed
+-- order can be adjusted, always relative to the originally ordered amount.
+
+CREATE OR REPLACE FUNCTION public.adjust_order_item_quantities(
+  p_order_id UUID,
+  p_lines JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tolerance CONSTANT NUMERIC := 0.10;
+  v_user_id UUID := auth.uid();
+  v_order public.orders%ROWTYPE;
+  v_line JSONB;
+  v_item public.order_items%ROWTYPE;
+  v_quantity NUMERIC;
+  v_ordered_quantity NUMERIC;
+  v_line_subtotal INTEGER;
+  v_subtotal_cents INTEGER;
+  v_changed BOOLEAN := FALSE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'NOT_AUTHENTICATED';
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM public.shops s
+    JOIN public.merchant_accounts ma ON ma.id = s.merchant_id
+    WHERE s.id = v_order.shop_id
+      AND ma.user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ORDER_NOT_FOUND';
+  END IF;
+
+  IF v_order.status <> 'confirmed' THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ORDER_NOT_ADJUSTABLE',
+      DETAIL = format('Order %s is %s; weights can only be recorded before dispatch', p_order_id, v_order.status);
+  END IF;
+
+  IF p_lines IS NULL OR jsonb_typeof(p_lines) <> 'array' THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_QUANTITY';
+  END IF;
+
+  FOR v_line IN SELECT value FROM jsonb_array_elements(p_lines)
+  LOOP
+    SELECT * INTO v_item
+    FROM public.order_items
+    WHERE id = (v_line ->> 'order_item_id')::UUID AND order_id = p_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ITEM_NOT_FOUND',
+        DETAIL = format('Line %s is not part of order %s', v_line ->> 'order_item_id', p_order_id);
+    END IF;
+
+    IF v_item.unit_type NOT IN ('kg', 'litre') THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'LINE_NOT_WEIGHED',
+        DETAIL = format('Line %s is sold by the piece', v_item.id);
+    END IF;
+
+    v_quantity := round((v_line ->> 'quantity')::NUMERIC, 3);
+    v_ordered_quantity := COALESCE(v_item.ordered_quantity, v_item.quantity);
+
+    IF v_quantity IS NULL OR v_quantity <= 0
+       OR abs(v_quantity - v_ordered_quantity) > v_ordered_quantity * v_tolerance THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ADJUSTMENT_OUT_OF_TOLERANCE',
+        DETAIL = format('Line %s was ordered as %s %s; %s is outside the allowed range',
+          v_item.id, v_ordered_quantity, v_item.unit_type, v_line ->> 'quantity');
+    END IF;
+
+    CONTINUE WHEN v_quantity = v_item.quantity;
+
+    v_line_subtotal := round(v_item.item_price_cents * v_quantity)::INTEGER;
+
+    INSERT INTO public.order_item_adjustments (
+      order_id,
+      order_item_id,
+      previous_quantity,
+      adjusted_quantity,
+      previous_subtotal_cents,
+      adjusted_subtotal_cents,
+      adjusted_by
+    ) VALUES (
+      p_order_id,
+      v_item.id,
+      v_item.quantity,
+      v_quantity,
+      v_item.subtotal_cents,
+      v_line_subtotal,
+      v_user_id
+    );
+
+    UPDATE public.order_items
+    SET
+      ordered_quantity = COALESCE(ordered_quantity, quantity),
+      ordered_subtotal_cents = COALESCE(ordered_subtotal_cents, subtotal_cents),
+      quantity = v_quantity,
+      subtotal_cents = v_line_subtotal
+    WHERE id = v_item.id;
+
+    -- Keep the stock reservation in line with what was actually packed
+    UPDATE public.merchant_items
+    SET reserved_quantity = GREATEST(reserved_quantity + (v_quantity - v_item.quantity), 0)
+    WHERE id = v_item.merchant_item_id
+      AND stock_quantity IS NOT NULL;
+
+    v_changed := TRUE;
+  END LOOP;
+
+  IF v_changed THEN
+    SELECT COALESCE(SUM(subtotal_cents), 0)::INTEGER INTO v_subtotal_cents
+    FROM public.order_items
+    WHERE order_id = p_order_id;
+
+    UPDATE public.orders
+    SET
+      original_subtotal_cents = COALESCE(original_subtotal_cents, subtotal_cents),
+      original_total_cents = COALESCE(original_total_cents, total_cents),
+      subtotal_cents = v_subtotal_cents,
+      total_cents = v_subtotal_cents + delivery_fee_cents + surcharge_cents,
+      weight_adjusted_at = timezone('utc'::TEXT, now())
+    WHERE id = p_order_id;
+  END IF;
+
+  RETURN public.order_with_items_json(p_order_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.adjust_order_item_quantities(UUID, JSONB) TO authenticated;
+
+COMMENT ON FUNCTION public.adjust_order_item_quantities IS 'Records packed weights for kg/litre lines before dispatch and reprices the order';
@@ -0,0 +1,792 @@
+-- ============================================================================
+-- SUBSTITUTIONS AND PARTIAL FULFILMENT
+-- ============================================================================
+-- Consumers choose per line what should happen when an item is out of stock
+-- (substitute, call me, or remove). When confirming, merchants can mark
+-- lines unavailable or replace them with another item from the shop through
+-- confirm_order_with_changes(); the order total is recomputed from the lines
+-- that will actually be delivered.
+--   * replaced and unavailable lines stay on the order for the record and
+--     are excluded from totals, stock movements and analytics
+--   * substitute lines point at the line they replace (substitute_for_id)
+--   * orders keep the checkout amounts in original_subtotal_cents /
+--     original_total_cents, shared with packed-weight adjustments
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'order_items' AND column_name = 'substitution_preference') THEN
+    ALTER TABLE public.order_items ADD COLUMN substitution_preference TEXT NOT NULL DEFAULT 'substitute';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'order_items' AND column_name = 'fulfilment_status') THEN
+    ALTER TABLE public.order_items ADD COLUMN fulfilment_status TEXT NOT NULL DEFAULT 'fulfilled';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'order_items' AND column_name = 'substitute_for_id') THEN
+    ALTER TABLE public.order_items ADD COLUMN substitute_for_id UUID REFERENCES public.order_items(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'orders' AND column_name = 'fulfilment_changed_at') THEN
+    ALTER TABLE public.orders ADD COLUMN fulfilment_changed_at TIMESTAMPTZ DEFAULT NULL;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.table_constraints WHERE constraint_schema = 'public' AND table_name = 'order_items' AND constraint_name = 'check_substitution_preference') THEN
+    ALTER TABLE public.order_items ADD CONSTRAINT check_substitution_preference
+      CHECK (substitution_preference IN ('substitute', 'call_me', 'remove'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.table_constraints WHERE constraint_schema = 'public' AND table_name = 'order_items' AND constraint_name = 'check_fulfilment_status') THEN
+    ALTER TABLE public.order_items ADD CONSTRAINT check_fulfilment_status
+      CHECK (fulfilment_status IN ('fulfilled', 'unavailable', 'substituted'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS order_items_substitute_for_idx
+  ON public.order_items (substitute_for_id)
+  WHERE substitute_for_id IS NOT NULL;
+
+COMMENT ON COLUMN public.order_items.substitution_preference IS 'What the consumer wants if the item is out of stock: substitute, call_me or remove';
+COMMENT ON COLUMN public.order_items.fulfilment_status IS 'fulfilled, or unavailable/substituted when the merchant could not supply the line';
+COMMENT ON COLUMN public.order_items.substitute_for_id IS 'Line this substitute replaces';
+COMMENT ON COLUMN public.orders.fulfilment_changed_at IS 'Set when the merchant confirmed the order with unavailable or substituted lines';
+COMMENT ON COLUMN public.orders.original_total_cents IS 'Total charged at checkout, before weight adjustments or substitutions';
+
+-- ============================================================================
+-- Stock movements and analytics: only count lines that are delivered
+-- ============================================================================
+-- Unavailable and replaced lines already released their reservation in
+-- confirm_order_with_changes().
+
+CREATE OR REPLACE FUNCTION public.apply_order_stock_movements()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status NOT IN ('cancelled', 'delivered') THEN
+    UPDATE public.merchant_items mi
+    SET reserved_quantity = GREATEST(mi.reserved_quantity - oi.quantity, 0)
+    FROM (
+      SELECT merchant_item_id, SUM(quantity) AS quantity
+      FROM public.order_items
+      WHERE order_id = NEW.id AND fulfilment_status = 'fulfilled'
+      GROUP BY merchant_item_id
+    ) oi
+    WHERE mi.id = oi.merchant_item_id
+      AND mi.stock_quantity IS NOT NULL;
+  ELSIF NEW.status = 'delivered' AND OLD.status <> 'delivered' THEN
+    UPDATE public.merchant_items mi
+    SET
+      stock_quantity = GREATEST(mi.stock_quantity - oi.quantity, 0),
+      reserved_quantity = GREATEST(mi.reserved_quantity - oi.quantity, 0)
+    FROM (
+      SELECT merchant_item_id, SUM(quantity) AS quantity
+      FROM public.order_items
+      WHERE order_id = NEW.id AND fulfilment_status = 'fulfilled'
+      GROUP BY merchant_item_id
+    ) oi
+    WHERE mi.id = oi.merchant_item_id
+      AND mi.stock_quantity IS NOT NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_item_analytics_on_delivery()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Only increment when order transitions to delivered
+  IF NEW.status = 'delivered' AND OLD.status != 'delivered' THEN
+    UPDATE public.merchant_items mi
+    SET
+      times_sold = times_sold + oi.quantity,
+      total_revenue_cents = total_revenue_cents + oi.subtotal_cents
+    FROM (
+      SELECT merchant_item_id, SUM(quantity) AS quantity, SUM(subtotal_cents)::BIGINT AS subtotal_cents
+      FROM public.order_items
+      WHERE order_id = NEW.id AND fulfilment_status = 'fulfilled'
+      GROUP BY merchant_item_id
+    ) oi
+    WHERE oi.merchant_item_id = mi.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- Confirm with unavailable / substituted lines
+-- ============================================================================
+-- p_changes: [{ order_item_id, action: 'unavailable' | 'substitute',
+--               substitute_item_id?, substitute_variant_id?, quantity? }]
+-- Lines not listed are confirmed as ordered. A substitute defaults to the
+-- quantity of the line it replaces and is priced at the shop's current price.
+
+CREATE OR REPLACE FUNCTION public.confirm_order_with_changes(
+  p_order_id UUID,
+  p_changes JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_order public.orders%ROWTYPE;
+  v_change JSONB;
+  v_action TEXT;
+  v_line public.order_items%ROWTYPE;
+  v_item RECORD;
+  v_variant public.merchant_item_variants%ROWTYPE;
+  v_quantity NUMERIC;
+  v_price_cents INTEGER;
+  v_subtotal_cents INTEGER;
+  v_changed BOOLEAN := FALSE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'NOT_AUTHENTICATED';
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM public.shops s
+    JOIN public.merchant_accounts ma ON ma.id = s.merchant_id
+    WHERE s.id = v_order.shop_id
+      AND ma.user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ORDER_NOT_FOUND';
+  END IF;
+
+  IF v_order.status <> 'pending' THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ORDER_NOT_PENDING',
+      DETAIL = format('Order %s is already %s', p_order_id, v_order.status);
+  END IF;
+
+  IF p_changes IS NULL OR jsonb_typeof(p_changes) <> 'array' THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_CHANGES';
+  END IF;
+
+  FOR v_change IN SELECT value FROM jsonb_array_elements(p_changes)
+  LOOP
+    v_action := v_change ->> 'action';
+
+    IF v_action IS NULL OR v_action NOT IN ('unavailable', 'substitute') THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_CHANGES',
+        DETAIL = format('Unknown action %s', v_action);
+    END IF;
+
+    SELECT * INTO v_line
+    FROM public.order_items
+    WHERE id = (v_change ->> 'order_item_id')::UUID
+      AND order_id = p_order_id
+      AND fulfilment_status = 'fulfilled'
+      AND substitute_for_id IS NULL
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ITEM_NOT_FOUND',
+        DETAIL = format('Line %s is not an open line of order %s', v_change ->> 'order_item_id', p_order_id);
+    END IF;
+
+    IF v_action = 'substitute' AND v_line.substitution_preference = 'remove' THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SUBSTITUTION_NOT_ALLOWED',
+        DETAIL = format('The customer asked for line %s to be removed if unavailable', v_line.id);
+    END IF;
+
+    -- The original line no longer needs its stock
+    UPDATE public.merchant_items
+    SET reserved_quantity = GREATEST(reserved_quantity - v_line.quantity, 0)
+    WHERE id = v_line.merchant_item_id
+      AND stock_quantity IS NOT NULL;
+
+    IF v_action = 'substitute' THEN
+      SELECT
+        mi.id,
+        mi.is_active,
+        mi.available_quantity,
+        mi.unit_type,
+        mi.quantity_step,
+        mi.min_quantity,
+        mi.price_cents,
+        COALESCE(mi.name, it.name, '') AS item_name,
+        COALESCE(mi.description, it.description) AS item_description,
+        COALESCE(mi.image_url, it.image_url) AS item_image_url
+      INTO v_item
+      FROM public.merchant_items mi
+      LEFT JOIN public.item_templates it ON it.id = mi.template_id
+      WHERE mi.id = NULLIF(v_change ->> 'substitute_item_id', '')::UUID
+        AND mi.shop_id = v_order.shop_id
+      FOR UPDATE OF mi;
+
+      IF NOT FOUND OR NOT v_item.is_active THEN
+        RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SUBSTITUTE_UNAVAILABLE',
+          DETAIL = format('Item %s cannot be offered as a substitute', v_change ->> 'substitute_item_id');
+      END IF;
+
+      v_variant := NULL;
+      IF NULLIF(v_change ->> 'substitute_variant_id', '') IS NOT NULL THEN
+        SELECT * INTO v_variant
+        FROM public.merchant_item_variants
+        WHERE id = (v_change ->> 'substitute_variant_id')::UUID
+          AND merchant_item_id = v_item.id
+          AND is_active;
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SUBSTITUTE_UNAVAILABLE',
+            DETAIL = format('Variant %s of item %s is not available', v_change ->> 'substitute_variant_id', v_item.id);
+        END IF;
+      ELSIF EXISTS (
+        SELECT 1 FROM public.merchant_item_variants
+        WHERE merchant_item_id = v_item.id AND is_active
+      ) THEN
+        RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'VARIANT_REQUIRED',
+          DETAIL = format('Item %s must be substituted as one of its variants', v_item.id);
+      END IF;
+
+      v_quantity := round(COALESCE((v_change ->> 'quantity')::NUMERIC, v_line.quantity), 3);
+
+      IF v_quantity <= 0 OR v_quantity < v_item.min_quantity OR mod(v_quantity, v_item.quantity_step) <> 0 THEN
+        RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_QUANTITY',
+          DETAIL = format('Item %s is sold in steps of %s %s from %s %s; %s requested',
+            v_item.id, v_item.quantity_step, v_item.unit_type, v_item.min_quantity, v_item.unit_type, v_quantity);
+      END IF;
+
+      IF v_item.available_quantity IS NOT NULL AND v_quantity > v_item.available_quantity THEN
+        RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INSUFFICIENT_STOCK',
+          DETAIL = format('Item %s has %s available, %s requested', v_item.id, v_item.available_quantity, v_quantity);
+      END IF;
+
+      v_price_cents := COALESCE(v_variant.price_cents, v_item.price_cents);
+
+      INSERT INTO public.order_items (
+        order_id,
+        merchant_item_id,
+        variant_id,
+        variant_name,
+        item_name,
+        item_description,
+        item_image_url,
+        item_price_cents,
+        unit_type,
+        quantity,
+        subtotal_cents,
+        substitution_preference,
+        substitute_for_id
+      ) VALUES (
+        p_order_id,
+        v_item.id,
+        v_variant.id,
+        v_variant.name,
+        v_item.item_name,
+        v_item.item_description,
+        v_item.item_image_url,
+        v_price_cents,
+        v_item.unit_type,
+        v_quantity,
+        round(v_price_cents * v_quantity)::INTEGER,
+        v_line.substitution_preference,
+        v_line.id
+      );
+
+      UPDATE public.merchant_items
+      SET reserved_quantity = reserved_quantity + v_quantity
+      WHERE id = v_item.id
+        AND stock_quantity IS NOT NULL;
+    END IF;
+
+    UPDATE public.order_items
+    SET fulfilment_status = CASE WHEN v_action = 'substitute' THEN 'substituted' ELSE 'unavailable' END
+    WHERE id = v_line.id;
+
+    v_changed := TRUE;
+  END LOOP;
+
+  IF NOT v_changed THEN
+    UPDATE public.orders SET status = 'confirmed' WHERE id = p_order_id;
+    RETURN public.order_with_items_json(p_order_id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.order_items
+    WHERE order_id = p_order_id AND fulfilment_status = 'fulfilled'
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'NO_ITEMS_LEFT',
+      DETAIL = format('Every line of order %s is unavailable; cancel the order instead', p_order_id);
+  END IF;
+
+  SELECT COALESCE(SUM(subtotal_cents), 0)::INTEGER INTO v_subtotal_cents
+  FROM public.order_items
+  WHERE order_id = p_order_id AND fulfilment_status = 'fulfilled';
+
+  -- confirmed_at is set by validate_order_status_transition
+  UPDATE public.orders
+  SET
+    status = 'confirmed',
+    original_subtotal_cents = COALESCE(original_subtotal_cents, subtotal_cents),
+    original_total_cents = COALESCE(original_total_cents, total_cents),
+    subtotal_cents = v_subtotal_cents,
+    total_cents = v_subtotal_cents + delivery_fee_cents + surcharge_cents,
+    fulfilment_changed_at = timezone('utc'::TEXT, now())
+  WHERE id = p_order_id;
+
+  RETURN public.order_with_items_json(p_order_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.confirm_order_with_changes(UUID, JSONB) TO authenticated;
+
+COMMENT ON FUNCTION public.confirm_order_with_changes IS 'Confirms a pending order, marking lines unavailable or substituting them and recomputing the total';
+
+-- ============================================================================
+-- Packed weights: ignore lines that will not be delivered
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.adjust_order_item_quantities(
+  p_order_id UUID,
+  p_lines JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tolerance CONSTANT NUMERIC := 0.10;
+  v_user_id UUID := auth.uid();
+  v_order public.orders%ROWTYPE;
+  v_line JSONB;
+  v_item public.order_items%ROWTYPE;
+  v_quantity NUMERIC;
+  v_ordered_quantity NUMERIC;
+  v_line_subtotal INTEGER;
+  v_subtotal_cents INTEGER;
+  v_changed BOOLEAN := FALSE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'NOT_AUTHENTICATED';
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM public.shops s
+    JOIN public.merchant_accounts ma ON ma.id = s.merchant_id
+    WHERE s.id = v_order.shop_id
+      AND ma.user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ORDER_NOT_FOUND';
+  END IF;
+
+  IF v_order.status <> 'confirmed' THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ORDER_NOT_ADJUSTABLE',
+      DETAIL = format('Order %s is %s; weights can only be recorded before dispatch', p_order_id, v_order.status);
+  END IF;
+
+  IF p_lines IS NULL OR jsonb_typeof(p_lines) <> 'array' THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_QUANTITY';
+  END IF;
+
+  FOR v_line IN SELECT value FROM jsonb_array_elements(p_lines)
+  LOOP
+    SELECT * INTO v_item
+    FROM public.order_items
+    WHERE id = (v_line ->> 'order_item_id')::UUID
+      AND order_id = p_order_id
+      AND fulfilment_status = 'fulfilled'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ITEM_NOT_FOUND',
+        DETAIL = format('Line %s is not a delivered line of order %s', v_line ->> 'order_item_id', p_order_id);
+    END IF;
+
+    IF v_item.unit_type NOT IN ('kg', 'litre') THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'LINE_NOT_WEIGHED',
+        DETAIL = format('Line %s is sold by the piece', v_item.id);
+    END IF;
+
+    v_quantity := round((v_line ->> 'quantity')::NUMERIC, 3);
+    v_ordered_quantity := COALESCE(v_item.ordered_quantity, v_item.quantity);
+
+    IF v_quantity IS NULL OR v_quantity <= 0
+       OR abs(v_quantity - v_ordered_quantity) > v_ordered_quantity * v_tolerance THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ADJUSTMENT_OUT_OF_TOLERANCE',
+        DETAIL = format('Line %s was ordered as %s %s; %s is outside the allowed range',
+          v_item.id, v_ordered_quantity, v_item.unit_type, v_line ->> 'quantity');
+    END IF;
+
+    CONTINUE WHEN v_quantity = v_item.quantity;
+
+    v_line_subtotal := round(v_item.item_price_cents * v_quantity)::INTEGER;
+
+    INSERT INTO public.order_item_adjustments (
+      order_id,
+      order_item_id,
+      previous_quantity,
+      adjusted_quantity,
+      previous_subtotal_cents,
+      adjusted_subtotal_cents,
+      adjusted_by
+    ) VALUES (
+      p_order_id,
+      v_item.id,
+      v_item.quantity,
+      v_quantity,
+      v_item.subtotal_cents,
+      v_line_subtotal,
+      v_user_id
+    );
+
+    UPDATE public.order_items
+    SET
+      ordered_quantity = COALESCE(ordered_quantity, quantity),
+      ordered_subtotal_cents = COALESCE(ordered_subtotal_cents, subtotal_cents),
+      quantity = v_quantity,
+      subtotal_cents = v_line_subtotal
+    WHERE id = v_item.id;
+
+    -- Keep the stock reservation in line with what was actually packed
+    UPDATE public.merchant_items
+    SET reserved_quantity = GREATEST(reserved_quantity + (v_quantity - v_item.quantity), 0)
+    WHERE id = v_item.merchant_item_id
+      AND stock_quantity IS NOT NULL;
+
+    v_changed := TRUE;
+  END LOOP;
+
+  IF v_changed THEN
+    SELECT COALESCE(SUM(subtotal_cents), 0)::INTEGER INTO v_subtotal_cents
+    FROM public.order_items
+    WHERE order_id = p_order_id AND fulfilment_status = 'fulfilled';
+
+    UPDATE public.orders
+    SET
+      original_subtotal_cents = COALESCE(original_subtotal_cents, subtotal_cents),
+      original_total_cents = COALESCE(original_total_cents, total_cents),
+      subtotal_cents = v_subtotal_cents,
+      total_cents = v_subtotal_cents + delivery_fee_cents + surcharge_cents,
+      weight_adjusted_at = timezone('utc'::TEXT, now())
+    WHERE id = p_order_id;
+  END IF;
+
+  RETURN public.order_with_items_json(p_order_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.adjust_order_item_quantities(UUID, JSONB) TO authenticated;
+
+COMMENT ON FUNCTION public.adjust_order_item_quantities IS 'Records packed weights for kg/litre lines before dispatch and reprices the order';
+
+-- ============================================================================
+-- place_order: store each line's substitution preference
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_shop_id UUID,
+  p_consumer_address_id UUID,
+  p_items JSONB,
+  p_payment_method payment_method DEFAULT 'cash',
+  p_special_instructions TEXT DEFAULT NULL,
+  p_idempotency_key TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_address public.consumer_addresses%ROWTYPE;
+  v_shop public.shops%ROWTYPE;
+  v_profile RECORD;
+  v_requested_count INTEGER;
+  v_found_count INTEGER;
+  v_missing_item UUID;
+  v_inactive_item UUID;
+  v_variant_line RECORD;
+  v_bad_quantity_line RECORD;
+  v_short_line RECORD;
+  v_subtotal_cents INTEGER;
+  v_distance DOUBLE PRECISION;
+  v_pricing RECORD;
+  v_order public.orders%ROWTYPE;
+  v_existing_order_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'NOT_AUTHENTICATED';
+  END IF;
+
+  -- Replayed submission: return the order created by the first attempt.
+  -- The advisory lock serialises concurrent retries carrying the same key.
+  IF p_idempotency_key IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtextextended(v_user_id::TEXT || ':' || p_idempotency_key, 0));
+
+    SELECT id INTO v_existing_order_id
+    FROM public.orders
+    WHERE user_id = v_user_id AND idempotency_key = p_idempotency_key;
+
+    IF v_existing_order_id IS NOT NULL THEN
+      RETURN public.order_with_items_json(v_existing_order_id);
+    END IF;
+  END IF;
+
+  -- Address must exist and belong to the caller
+  SELECT * INTO v_address
+  FROM public.consumer_addresses
+  WHERE id = p_consumer_address_id AND user_id = v_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ADDRESS_NOT_FOUND',
+      DETAIL = format('Address %s not found for user', p_consumer_address_id);
+  END IF;
+
+  IF v_address.street_address IS NULL OR v_address.city IS NULL
+     OR v_address.latitude IS NULL OR v_address.longitude IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ADDRESS_INVALID',
+      DETAIL = 'Address is missing street, city or coordinates';
+  END IF;
+
+  SELECT * INTO v_shop FROM public.shops WHERE id = p_shop_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SHOP_NOT_FOUND';
+  END IF;
+
+  IF v_shop.is_open IS DISTINCT FROM TRUE THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SHOP_CLOSED';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'EMPTY_ORDER';
+  END IF;
+
+  -- Normalise requested lines (merge duplicates of the same item and variant)
+  DROP TABLE IF EXISTS _requested_lines;
+  CREATE TEMP TABLE _requested_lines ON COMMIT DROP AS
+  SELECT
+    (line ->> 'merchant_item_id')::UUID AS merchant_item_id,
+    NULLIF(line ->> 'variant_id', '')::UUID AS variant_id,
+    SUM((line ->> 'quantity')::NUMERIC) AS quantity,
+    COALESCE(MAX(NULLIF(line ->> 'substitution_preference', '')), 'substitute') AS substitution_preference
+  FROM jsonb_array_elements(p_items) AS line
+  GROUP BY (line ->> 'merchant_item_id')::UUID, NULLIF(line ->> 'variant_id', '')::UUID;
+
+  IF EXISTS (
+    SELECT 1 FROM _requested_lines
+    WHERE merchant_item_id IS NULL OR quantity IS NULL OR quantity <= 0 OR quantity <> round(quantity, 3)
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_QUANTITY';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM _requested_lines
+    WHERE substitution_preference NOT IN ('substitute', 'call_me', 'remove')
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_SUBSTITUTION_PREFERENCE';
+  END IF;
+
+  -- Lock item rows so prices and stock cannot change while the order is written
+  DROP TABLE IF EXISTS _priced_lines;
+  CREATE TEMP TABLE _priced_lines ON COMMIT DROP AS
+  SELECT
+    mi.id AS merchant_item_id,
+    rl.variant_id AS requested_variant_id,
+    v.id AS variant_id,
+    v.name AS variant_name,
+    v.is_active AS variant_is_active,
+    EXISTS (
+      SELECT 1 FROM public.merchant_item_variants av
+      WHERE av.merchant_item_id = mi.id AND av.is_active
+    ) AS has_active_variants,
+    COALESCE(mi.name, it.name, '') AS item_name,
+    COALESCE(mi.description, it.description) AS item_description,
+    COALESCE(mi.image_url, it.image_url) AS item_image_url,
+    COALESCE(v.price_cents, mi.price_cents) AS item_price_cents,
+    mi.is_active,
+    mi.available_quantity,
+    mi.unit_type,
+    mi.quantity_step,
+    mi.min_quantity,
+    rl.quantity AS quantity,
+    rl.substitution_preference
+  FROM _requested_lines rl
+  JOIN public.merchant_items mi ON mi.id = rl.merchant_item_id AND mi.shop_id = p_shop_id
+  LEFT JOIN public.item_templates it ON it.id = mi.template_id
+  LEFT JOIN public.merchant_item_variants v ON v.id = rl.variant_id AND v.merchant_item_id = mi.id
+  ORDER BY mi.id
+  FOR UPDATE OF mi;
+
+  SELECT COUNT(*) INTO v_requested_count FROM _requested_lines;
+  SELECT COUNT(*) INTO v_found_count FROM _priced_lines;
+
+  IF v_found_count < v_requested_count THEN
+    SELECT rl.merchant_item_id INTO v_missing_item
+    FROM _requested_lines rl
+    WHERE NOT EXISTS (SELECT 1 FROM _priced_lines pl WHERE pl.merchant_item_id = rl.merchant_item_id)
+    LIMIT 1;
+
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ITEM_NOT_FOUND',
+      DETAIL = format('Item %s does not belong to shop %s', v_missing_item, p_shop_id);
+  END IF;
+
+  SELECT merchant_item_id INTO v_inactive_item FROM _priced_lines WHERE NOT is_active LIMIT 1;
+
+  IF v_inactive_item IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ITEM_UNAVAILABLE',
+      DETAIL = format('Item %s is no longer available', v_inactive_item);
+  END IF;
+
+  -- A chosen variant must exist and be on sale; items with variants need one
+  SELECT merchant_item_id, requested_variant_id INTO v_variant_line
+  FROM _priced_lines
+  WHERE (requested_variant_id IS NOT NULL AND (variant_id IS NULL OR NOT variant_is_active))
+     OR (requested_variant_id IS NULL AND has_active_variants)
+  LIMIT 1;
+
+  IF v_variant_line.merchant_item_id IS NOT NULL THEN
+    IF v_variant_line.requested_variant_id IS NULL THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'VARIANT_REQUIRED',
+        DETAIL = format('Item %s must be ordered as one of its variants', v_variant_line.merchant_item_id);
+    END IF;
+
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'VARIANT_UNAVAILABLE',
+      DETAIL = format('Variant %s of item %s is not available',
+        v_variant_line.requested_variant_id, v_variant_line.merchant_item_id);
+  END IF;
+
+  -- Each line must respect the item's minimum and step (whole units for pieces)
+  SELECT merchant_item_id, quantity, unit_type, quantity_step, min_quantity INTO v_bad_quantity_line
+  FROM _priced_lines
+  WHERE quantity < min_quantity OR mod(quantity, quantity_step) <> 0
+  LIMIT 1;
+
+  IF v_bad_quantity_line.merchant_item_id IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_QUANTITY',
+      DETAIL = format('Item %s is sold in steps of %s %s from %s %s; %s requested',
+        v_bad_quantity_line.merchant_item_id,
+        v_bad_quantity_line.quantity_step, v_bad_quantity_line.unit_type,
+        v_bad_quantity_line.min_quantity, v_bad_quantity_line.unit_type,
+        v_bad_quantity_line.quantity);
+  END IF;
+
+  -- Stock is tracked per item, so variant lines of the same item share it
+  SELECT merchant_item_id, available_quantity, SUM(quantity) AS quantity INTO v_short_line
+  FROM _priced_lines
+  WHERE available_quantity IS NOT NULL
+  GROUP BY merchant_item_id, available_quantity
+  HAVING SUM(quantity) > available_quantity
+  LIMIT 1;
+
+  IF v_short_line.merchant_item_id IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INSUFFICIENT_STOCK',
+      DETAIL = format('Item %s has %s available, %s requested',
+        v_short_line.merchant_item_id, v_short_line.available_quantity, v_short_line.quantity);
+  END IF;
+
+  SELECT COALESCE(SUM(round(item_price_cents * quantity)), 0)::INTEGER INTO v_subtotal_cents FROM _priced_lines;
+
+  v_distance := public.haversine_distance_meters(
+    v_address.latitude::DOUBLE PRECISION,
+    v_address.longitude::DOUBLE PRECISION,
+    v_shop.latitude,
+    v_shop.longitude
+  );
+
+  SELECT * INTO v_pricing FROM public.calculate_order_pricing(p_shop_id, v_subtotal_cents, v_distance);
+
+  SELECT name, email INTO v_profile FROM public.user_profiles WHERE id = v_user_id;
+
+  INSERT INTO public.orders (
+    shop_id,
+    user_id,
+    consumer_address_id,
+    status,
+    subtotal_cents,
+    delivery_fee_cents,
+    surcharge_cents,
+    total_cents,
+    payment_method,
+    special_instructions,
+    delivery_address,
+    customer_name,
+    customer_email,
+    idempotency_key
+  ) VALUES (
+    p_shop_id,
+    v_user_id,
+    v_address.id,
+    'pending',
+    v_subtotal_cents,
+    v_pricing.delivery_fee_cents,
+    v_pricing.surcharge_cents,
+    v_subtotal_cents + v_pricing.delivery_fee_cents + v_pricing.surcharge_cents,
+    COALESCE(p_payment_method, 'cash'),
+    NULLIF(btrim(p_special_instructions), ''),
+    jsonb_build_object(
+      'id', v_address.id,
+      'title', v_address.title,
+      'street_address', v_address.street_address,
+      'city', v_address.city,
+      'region', v_address.region,
+      'latitude', v_address.latitude,
+      'longitude', v_address.longitude,
+      'landmark', v_address.landmark,
+      'formatted_address', v_address.formatted_address
+    ),
+    v_profile.name,
+    v_profile.email,
+    p_idempotency_key
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO public.order_items (
+    order_id,
+    merchant_item_id,
+    variant_id,
+    variant_name,
+    item_name,
+    item_description,
+    item_image_url,
+    item_price_cents,
+    unit_type,
+    quantity,
+    subtotal_cents,
+    substitution_preference
+  )
+  SELECT
+    v_order.id,
+    merchant_item_id,
+    variant_id,
+    variant_name,
+    item_name,
+    item_description,
+    item_image_url,
+    item_price_cents,
+    unit_type,
+    quantity,
+    round(item_price_cents * quantity)::INTEGER,
+    substitution_preference
+  FROM _priced_lines;
+
+  -- Reserve tracked stock until the order is delivered or cancelled
+  UPDATE public.merchant_items mi
+  SET reserved_quantity = mi.reserved_quantity + pl.quantity
+  FROM (
+    SELECT merchant_item_id, SUM(quantity) AS quantity
+    FROM _priced_lines
+    GROUP BY merchant_item_id
+  ) pl
+  WHERE mi.id = pl.merchant_item_id
+    AND mi.stock_quantity IS NOT NULL;
+
+  RETURN public.order_with_items_json(v_order.id);
+END;
+$$;
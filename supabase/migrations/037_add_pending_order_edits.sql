@@ -0,0 +1,404 @@
+-- ============================================================================
+-- CONSUMER ORDER EDITS
+-- ============================================================================
+-- While an order is pending, the consumer can replace its lines through
+-- update_pending_order_items(). Lines are repriced at current shop prices
+-- and the delivery fee and surcharge are recomputed for the new subtotal.
+--   * merchants lock the order by opening it for confirmation
+--     (set_order_confirmation_started); edits are refused from then on
+--   * order_edits keeps a per-line summary of every edit for the merchant
+--   * orders.last_edited_at reaches the merchant feed through the orders
+--     realtime subscription
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'orders' AND column_name = 'confirmation_started_at') THEN
+    ALTER TABLE public.orders ADD COLUMN confirmation_started_at TIMESTAMPTZ DEFAULT NULL;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'orders' AND column_name = 'last_edited_at') THEN
+    ALTER TABLE public.orders ADD COLUMN last_edited_at TIMESTAMPTZ DEFAULT NULL;
+  END IF;
+END $$;
+
+COMMENT ON COLUMN public.orders.confirmation_started_at IS 'Set while the merchant is confirming; the consumer can no longer edit the order';
+COMMENT ON COLUMN public.orders.last_edited_at IS 'Last time the consumer changed the lines of the pending order';
+
+CREATE TABLE IF NOT EXISTS public.order_edits (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  -- [{ item_name, variant_name, unit_type, previous_quantity, new_quantity }]
+  changes JSONB NOT NULL DEFAULT '[]'::JSONB,
+  previous_total_cents INTEGER NOT NULL,
+  new_total_cents INTEGER NOT NULL,
+  edited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc'::TEXT, now())
+);
+
+CREATE INDEX IF NOT EXISTS order_edits_order_idx
+  ON public.order_edits (order_id, created_at);
+
+ALTER TABLE public.order_edits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Consumers can view edits to their orders" ON public.order_edits;
+CREATE POLICY "Consumers can view edits to their orders"
+  ON public.order_edits
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.orders o
+      WHERE o.id = order_edits.order_id
+        AND o.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Merchants can view edits for their shops" ON public.order_edits;
+CREATE POLICY "Merchants can view edits for their shops"
+  ON public.order_edits
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.orders o
+      JOIN public.shops s ON s.id = o.shop_id
+      JOIN public.merchant_accounts ma ON ma.id = s.merchant_id
+      WHERE o.id = order_edits.order_id
+        AND ma.user_id = auth.uid()
+    )
+  );
+
+COMMENT ON TABLE public.order_edits IS 'Line changes consumers made to their orders while pending';
+
+-- ============================================================================
+-- Merchant confirmation lock
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.set_order_confirmation_started(
+  p_order_id UUID,
+  p_started BOOLEAN
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'NOT_AUTHENTICATED';
+  END IF;
+
+  UPDATE public.orders o
+  SET confirmation_started_at = CASE WHEN p_started THEN COALESCE(o.confirmation_started_at, timezone('utc'::TEXT, now())) END
+  FROM public.shops s
+  JOIN public.merchant_accounts ma ON ma.id = s.merchant_id
+  WHERE o.id = p_order_id
+    AND o.status = 'pending'
+    AND s.id = o.shop_id
+    AND ma.user_id = auth.uid();
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_order_confirmation_started(UUID, BOOLEAN) TO authenticated;
+
+COMMENT ON FUNCTION public.set_order_confirmation_started IS 'Marks a pending order as being confirmed by the merchant (or releases it), blocking consumer edits';
+
+-- ============================================================================
+-- Edit a pending order
+-- ============================================================================
+-- p_items has the same shape as place_order's p_items and replaces every
+-- line of the order.
+
+CREATE OR REPLACE FUNCTION public.update_pending_order_items(
+  p_order_id UUID,
+  p_items JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_order public.orders%ROWTYPE;
+  v_requested_count INTEGER;
+  v_found_count INTEGER;
+  v_missing_item UUID;
+  v_inactive_item UUID;
+  v_variant_line RECORD;
+  v_bad_quantity_line RECORD;
+  v_short_line RECORD;
+  v_subtotal_cents INTEGER;
+  v_distance DOUBLE PRECISION;
+  v_pricing RECORD;
+  v_shop public.shops%ROWTYPE;
+  v_changes JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'NOT_AUTHENTICATED';
+  END IF;
+
+  -- The row lock serialises edits with the merchant confirming
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ORDER_NOT_FOUND';
+  END IF;
+
+  IF v_order.status <> 'pending' OR v_order.confirmation_started_at IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ORDER_NOT_EDITABLE',
+      DETAIL = format('Order %s is %s and can no longer be edited', p_order_id,
+        CASE WHEN v_order.status = 'pending' THEN 'being confirmed' ELSE v_order.status::TEXT END);
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'EMPTY_ORDER',
+      DETAIL = 'Cancel the order to remove every item';
+  END IF;
+
+  SELECT * INTO v_shop FROM public.shops WHERE id = v_order.shop_id;
+
+  -- Normalise requested lines (merge duplicates of the same item and variant)
+  DROP TABLE IF EXISTS _requested_lines;
+  CREATE TEMP TABLE _requested_lines ON COMMIT DROP AS
+  SELECT
+    (line ->> 'merchant_item_id')::UUID AS merchant_item_id,
+    NULLIF(line ->> 'variant_id', '')::UUID AS variant_id,
+    SUM((line ->> 'quantity')::NUMERIC) AS quantity,
+    COALESCE(MAX(NULLIF(line ->> 'substitution_preference', '')), 'substitute') AS substitution_preference
+  FROM jsonb_array_elements(p_items) AS line
+  GROUP BY (line ->> 'merchant_item_id')::UUID, NULLIF(line ->> 'variant_id', '')::UUID;
+
+  IF EXISTS (
+    SELECT 1 FROM _requested_lines
+    WHERE merchant_item_id IS NULL OR quantity IS NULL OR quantity <= 0 OR quantity <> round(quantity, 3)
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_QUANTITY';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM _requested_lines
+    WHERE substitution_preference NOT IN ('substitute', 'call_me', 'remove')
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_SUBSTITUTION_PREFERENCE';
+  END IF;
+
+  -- Summarise the edit before the old lines go
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'item_name', COALESCE(o.item_name, mi.name, it.name),
+    'variant_name', COALESCE(o.variant_name, v.name),
+    'unit_type', COALESCE(o.unit_type, mi.unit_type),
+    'previous_quantity', COALESCE(o.quantity, 0),
+    'new_quantity', COALESCE(r.quantity, 0)
+  )), '[]'::JSONB)
+  INTO v_changes
+  FROM (
+    SELECT merchant_item_id, variant_id, MAX(item_name) AS item_name, MAX(variant_name) AS variant_name,
+      MAX(unit_type) AS unit_type, SUM(quantity) AS quantity
+    FROM public.order_items
+    WHERE order_id = p_order_id
+    GROUP BY merchant_item_id, variant_id
+  ) o
+  FULL OUTER JOIN _requested_lines r
+    ON r.merchant_item_id = o.merchant_item_id
+   AND r.variant_id IS NOT DISTINCT FROM o.variant_id
+  LEFT JOIN public.merchant_items mi ON mi.id = r.merchant_item_id
+  LEFT JOIN public.item_templates it ON it.id = mi.template_id
+  LEFT JOIN public.merchant_item_variants v ON v.id = r.variant_id
+  WHERE COALESCE(o.quantity, 0) <> COALESCE(r.quantity, 0);
+
+  -- Give back what the current lines reserved before checking stock again
+  UPDATE public.merchant_items mi
+  SET reserved_quantity = GREATEST(mi.reserved_quantity - oi.quantity, 0)
+  FROM (
+    SELECT merchant_item_id, SUM(quantity) AS quantity
+    FROM public.order_items
+    WHERE order_id = p_order_id
+    GROUP BY merchant_item_id
+  ) oi
+  WHERE mi.id = oi.merchant_item_id
+    AND mi.stock_quantity IS NOT NULL;
+
+  DELETE FROM public.order_items WHERE order_id = p_order_id;
+
+  -- Lock item rows so prices and stock cannot change while the order is written
+  DROP TABLE IF EXISTS _priced_lines;
+  CREATE TEMP TABLE _priced_lines ON COMMIT DROP AS
+  SELECT
+    mi.id AS merchant_item_id,
+    rl.variant_id AS requested_variant_id,
+    v.id AS variant_id,
+    v.name AS variant_name,
+    v.is_active AS variant_is_active,
+    EXISTS (
+      SELECT 1 FROM public.merchant_item_variants av
+      WHERE av.merchant_item_id = mi.id AND av.is_active
+    ) AS has_active_variants,
+    COALESCE(mi.name, it.name, '') AS item_name,
+    COALESCE(mi.description, it.description) AS item_description,
+    COALESCE(mi.image_url, it.image_url) AS item_image_url,
+    COALESCE(v.price_cents, mi.price_cents) AS item_price_cents,
+    mi.is_active,
+    mi.available_quantity,
+    mi.unit_type,
+    mi.quantity_step,
+    mi.min_quantity,
+    rl.quantity AS quantity,
+    rl.substitution_preference
+  FROM _requested_lines rl
+  JOIN public.merchant_items mi ON mi.id = rl.merchant_item_id AND mi.shop_id = v_order.shop_id
+  LEFT JOIN public.item_templates it ON it.id = mi.template_id
+  LEFT JOIN public.merchant_item_variants v ON v.id = rl.variant_id AND v.merchant_item_id = mi.id
+  ORDER BY mi.id
+  FOR UPDATE OF mi;
+
+  SELECT COUNT(*) INTO v_requested_count FROM _requested_lines;
+  SELECT COUNT(*) INTO v_found_count FROM _priced_lines;
+
+  IF v_found_count < v_requested_count THEN
+    SELECT rl.merchant_item_id INTO v_missing_item
+    FROM _requested_lines rl
+    WHERE NOT EXISTS (SELECT 1 FROM _priced_lines pl WHERE pl.merchant_item_id = rl.merchant_item_id)
+    LIMIT 1;
+
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ITEM_NOT_FOUND',
+      DETAIL = format('Item %s does not belong to shop %s', v_missing_item, v_order.shop_id);
+  END IF;
+
+  SELECT merchant_item_id INTO v_inactive_item FROM _priced_lines WHERE NOT is_active LIMIT 1;
+
+  IF v_inactive_item IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ITEM_UNAVAILABLE',
+      DETAIL = format('Item %s is no longer available', v_inactive_item);
+  END IF;
+
+  -- A chosen variant must exist and be on sale; items with variants need one
+  SELECT merchant_item_id, requested_variant_id INTO v_variant_line
+  FROM _priced_lines
+  WHERE (requested_variant_id IS NOT NULL AND (variant_id IS NULL OR NOT variant_is_active))
+     OR (requested_variant_id IS NULL AND has_active_variants)
+  LIMIT 1;
+
+  IF v_variant_line.merchant_item_id IS NOT NULL THEN
+    IF v_variant_line.requested_variant_id IS NULL THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'VARIANT_REQUIRED',
+        DETAIL = format('Item %s must be ordered as one of its variants', v_variant_line.merchant_item_id);
+    END IF;
+
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'VARIANT_UNAVAILABLE',
+      DETAIL = format('Variant %s of item %s is not available',
+        v_variant_line.requested_variant_id, v_variant_line.merchant_item_id);
+  END IF;
+
+  -- Each line must respect the item's minimum and step (whole units for pieces)
+  SELECT merchant_item_id, quantity, unit_type, quantity_step, min_quantity INTO v_bad_quantity_line
+  FROM _priced_lines
+  WHERE quantity < min_quantity OR mod(quantity, quantity_step) <> 0
+  LIMIT 1;
+
+  IF v_bad_quantity_line.merchant_item_id IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_QUANTITY',
+      DETAIL = format('Item %s is sold in steps of %s %s from %s %s; %s requested',
+        v_bad_quantity_line.merchant_item_id,
+        v_bad_quantity_line.quantity_step, v_bad_quantity_line.unit_type,
+        v_bad_quantity_line.min_quantity, v_bad_quantity_line.unit_type,
+        v_bad_quantity_line.quantity);
+  END IF;
+
+  -- Stock is tracked per item, so variant lines of the same item share it
+  SELECT merchant_item_id, available_quantity, SUM(quantity) AS quantity INTO v_short_line
+  FROM _priced_lines
+  WHERE available_quantity IS NOT NULL
+  GROUP BY merchant_item_id, available_quantity
+  HAVING SUM(quantity) > available_quantity
+  LIMIT 1;
+
+  IF v_short_line.merchant_item_id IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INSUFFICIENT_STOCK',
+      DETAIL = format('Item %s has %s available, %s requested',
+        v_short_line.merchant_item_id, v_short_line.available_quantity, v_short_line.quantity);
+  END IF;
+
+  SELECT COALESCE(SUM(round(item_price_cents * quantity)), 0)::INTEGER INTO v_subtotal_cents FROM _priced_lines;
+
+  v_distance := public.haversine_distance_meters(
+    (v_order.delivery_address ->> 'latitude')::DOUBLE PRECISION,
+    (v_order.delivery_address ->> 'longitude')::DOUBLE PRECISION,
+    v_shop.latitude,
+    v_shop.longitude
+  );
+
+  SELECT * INTO v_pricing FROM public.calculate_order_pricing(v_order.shop_id, v_subtotal_cents, v_distance);
+
+  INSERT INTO public.order_items (
+    order_id,
+    merchant_item_id,
+    variant_id,
+    variant_name,
+    item_name,
+    item_description,
+    item_image_url,
+    item_price_cents,
+    unit_type,
+    quantity,
+    subtotal_cents,
+    substitution_preference
+  )
+  SELECT
+    p_order_id,
+    merchant_item_id,
+    variant_id,
+    variant_name,
+    item_name,
+    item_description,
+    item_image_url,
+    item_price_cents,
+    unit_type,
+    quantity,
+    round(item_price_cents * quantity)::INTEGER,
+    substitution_preference
+  FROM _priced_lines;
+
+  -- Reserve tracked stock until the order is delivered or cancelled
+  UPDATE public.merchant_items mi
+  SET reserved_quantity = mi.reserved_quantity + pl.quantity
+  FROM (
+    SELECT merchant_item_id, SUM(quantity) AS quantity
+    FROM _priced_lines
+    GROUP BY merchant_item_id
+  ) pl
+  WHERE mi.id = pl.merchant_item_id
+    AND mi.stock_quantity IS NOT NULL;
+
+  INSERT INTO public.order_edits (
+    order_id,
+    changes,
+    previous_total_cents,
+    new_total_cents,
+    edited_by
+  ) VALUES (
+    p_order_id,
+    v_changes,
+    v_order.total_cents,
+    v_subtotal_cents + v_pricing.delivery_fee_cents + v_pricing.surcharge_cents,
+    v_user_id
+  );
+
+  UPDATE public.orders
+  SET
+    subtotal_cents = v_subtotal_cents,
+    delivery_fee_cents = v_pricing.delivery_fee_cents,
+    surcharge_cents = v_pricing.surcharge_cents,
+    total_cents = v_subtotal_cents + v_pricing.delivery_fee_cents + v_pricing.surcharge_cents,
+    last_edited_at = timezone('utc'::TEXT, now())
+  WHERE id = p_order_id;
+
+  RETURN public.order_with_items_json(p_order_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.update_pending_order_items(UUID, JSONB) TO authenticated;
+
+COMMENT ON FUNCTION public.update_pending_order_items IS 'Replaces the lines of a pending order, repricing it and recomputing delivery fee and surcharge';
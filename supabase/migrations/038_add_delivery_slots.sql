@@ -0,0 +1,516 @@
+-- ============================================================================
+-- SCHEDULED ORDERS AND DELIVERY SLOTS
+-- ============================================================================
+-- Shops define weekly delivery slots (e.g. Mon 18:00-20:00, 10 orders).
+-- Consumers can schedule an order for an upcoming slot instead of ASAP.
+--   * slot times are wall-clock times in the shop's timezone
+--   * orders.scheduled_for is the start of the booked slot occurrence
+--   * place_order locks the slot row so two consumers cannot both take the
+--     last place; cancelled orders free their place
+--   * shop_delivery_logic.scheduled_lead_minutes controls how long before
+--     the slot a scheduled order moves into the merchant's active lane
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'shops' AND column_name = 'timezone') THEN
+    ALTER TABLE public.shops ADD COLUMN timezone TEXT NOT NULL DEFAULT 'Asia/Karachi';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'shop_delivery_logic' AND column_name = 'scheduled_lead_minutes') THEN
+    ALTER TABLE public.shop_delivery_logic ADD COLUMN scheduled_lead_minutes INTEGER NOT NULL DEFAULT 60 CHECK (scheduled_lead_minutes >= 0);
+  END IF;
+END $$;
+
+COMMENT ON COLUMN public.shops.timezone IS 'IANA timezone the shop''s delivery slot times are expressed in';
+COMMENT ON COLUMN public.shop_delivery_logic.scheduled_lead_minutes IS 'Minutes before a slot starts that its orders surface in the merchant''s active lane';
+
+CREATE TABLE IF NOT EXISTS public.shop_delivery_slots (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  shop_id UUID NOT NULL REFERENCES public.shops(id) ON DELETE CASCADE,
+  day_of_week SMALLINT NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  max_orders INTEGER NOT NULL CHECK (max_orders > 0),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc'::TEXT, now()),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc'::TEXT, now()),
+  CONSTRAINT shop_delivery_slots_valid_window CHECK (end_time > start_time)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS shop_delivery_slots_unique_start
+  ON public.shop_delivery_slots (shop_id, day_of_week, start_time);
+
+DROP TRIGGER IF EXISTS shop_delivery_slots_touch ON public.shop_delivery_slots;
+CREATE TRIGGER shop_delivery_slots_touch
+  BEFORE UPDATE ON public.shop_delivery_slots
+  FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+ALTER TABLE public.shop_delivery_slots ENABLE ROW LEVEL SECURITY;
+
+-- Consumers read slots through get_delivery_slot_availability()
+DROP POLICY IF EXISTS shop_delivery_slots_select ON public.shop_delivery_slots;
+CREATE POLICY shop_delivery_slots_select ON public.shop_delivery_slots
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.shops s
+      JOIN public.merchant_accounts ma ON ma.id = s.merchant_id
+      WHERE s.id = shop_delivery_slots.shop_id
+        AND ma.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS shop_delivery_slots_modify ON public.shop_delivery_slots;
+CREATE POLICY shop_delivery_slots_modify ON public.shop_delivery_slots
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.shops s
+      JOIN public.merchant_accounts ma ON ma.id = s.merchant_id
+      WHERE s.id = shop_delivery_slots.shop_id
+        AND ma.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.shops s
+      JOIN public.merchant_accounts ma ON ma.id = s.merchant_id
+      WHERE s.id = shop_delivery_slots.shop_id
+        AND ma.user_id = auth.uid()
+    )
+  );
+
+COMMENT ON TABLE public.shop_delivery_slots IS 'Weekly delivery windows a shop accepts scheduled orders for, with a per-occurrence order limit';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'orders' AND column_name = 'delivery_slot_id') THEN
+    ALTER TABLE public.orders ADD COLUMN delivery_slot_id UUID REFERENCES public.shop_delivery_slots(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'orders' AND column_name = 'scheduled_for') THEN
+    ALTER TABLE public.orders ADD COLUMN scheduled_for TIMESTAMPTZ DEFAULT NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS orders_delivery_slot_idx
+  ON public.orders (delivery_slot_id, scheduled_for)
+  WHERE delivery_slot_id IS NOT NULL;
+
+COMMENT ON COLUMN public.orders.scheduled_for IS 'Start of the booked delivery slot; NULL for ASAP orders';
+
+-- ============================================================================
+-- Upcoming slot occurrences with remaining capacity
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_delivery_slot_availability(
+  p_shop_id UUID,
+  p_days INTEGER DEFAULT 7
+)
+RETURNS TABLE (
+  slot_id UUID,
+  starts_at TIMESTAMPTZ,
+  ends_at TIMESTAMPTZ,
+  max_orders INTEGER,
+  booked_orders INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH days AS (
+    SELECT (timezone(s.timezone, now())::DATE + offs) AS local_date, s.timezone
+    FROM public.shops s
+    CROSS JOIN generate_series(0, GREATEST(LEAST(p_days, 14), 1) - 1) AS offs
+    WHERE s.id = p_shop_id
+  ),
+  occurrences AS (
+    SELECT
+      ds.id AS slot_id,
+      timezone(d.timezone, d.local_date + ds.start_time) AS starts_at,
+      timezone(d.timezone, d.local_date + ds.end_time) AS ends_at,
+      ds.max_orders
+    FROM days d
+    JOIN public.shop_delivery_slots ds
+      ON ds.shop_id = p_shop_id
+     AND ds.is_active
+     AND ds.day_of_week = EXTRACT(DOW FROM d.local_date)
+  )
+  SELECT
+    oc.slot_id,
+    oc.starts_at,
+    oc.ends_at,
+    oc.max_orders,
+    (
+      SELECT COUNT(*)::INTEGER FROM public.orders o
+      WHERE o.delivery_slot_id = oc.slot_id
+        AND o.scheduled_for = oc.starts_at
+        AND o.status <> 'cancelled'
+    ) AS booked_orders
+  FROM occurrences oc
+  WHERE oc.starts_at > now()
+  ORDER BY oc.starts_at;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_delivery_slot_availability(UUID, INTEGER) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.get_delivery_slot_availability IS 'Upcoming delivery slot occurrences for a shop with how many orders each already holds';
+
+-- ============================================================================
+-- place_order: optional delivery slot
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS public.place_order(UUID, UUID, JSONB, payment_method, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_shop_id UUID,
+  p_consumer_address_id UUID,
+  p_items JSONB,
+  p_payment_method payment_method DEFAULT 'cash',
+  p_special_instructions TEXT DEFAULT NULL,
+  p_idempotency_key TEXT DEFAULT NULL,
+  p_delivery_slot_id UUID DEFAULT NULL,
+  p_scheduled_for TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_address public.consumer_addresses%ROWTYPE;
+  v_shop public.shops%ROWTYPE;
+  v_profile RECORD;
+  v_requested_count INTEGER;
+  v_found_count INTEGER;
+  v_missing_item UUID;
+  v_inactive_item UUID;
+  v_variant_line RECORD;
+  v_bad_quantity_line RECORD;
+  v_short_line RECORD;
+  v_subtotal_cents INTEGER;
+  v_distance DOUBLE PRECISION;
+  v_pricing RECORD;
+  v_order public.orders%ROWTYPE;
+  v_existing_order_id UUID;
+  v_slot public.shop_delivery_slots%ROWTYPE;
+  v_slot_local TIMESTAMP;
+  v_slot_booked INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'NOT_AUTHENTICATED';
+  END IF;
+
+  -- Replayed submission: return the order created by the first attempt.
+  -- The advisory lock serialises concurrent retries carrying the same key.
+  IF p_idempotency_key IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtextextended(v_user_id::TEXT || ':' || p_idempotency_key, 0));
+
+    SELECT id INTO v_existing_order_id
+    FROM public.orders
+    WHERE user_id = v_user_id AND idempotency_key = p_idempotency_key;
+
+    IF v_existing_order_id IS NOT NULL THEN
+      RETURN public.order_with_items_json(v_existing_order_id);
+    END IF;
+  END IF;
+
+  -- Address must exist and belong to the caller
+  SELECT * INTO v_address
+  FROM public.consumer_addresses
+  WHERE id = p_consumer_address_id AND user_id = v_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ADDRESS_NOT_FOUND',
+      DETAIL = format('Address %s not found for user', p_consumer_address_id);
+  END IF;
+
+  IF v_address.street_address IS NULL OR v_address.city IS NULL
+     OR v_address.latitude IS NULL OR v_address.longitude IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ADDRESS_INVALID',
+      DETAIL = 'Address is missing street, city or coordinates';
+  END IF;
+
+  SELECT * INTO v_shop FROM public.shops WHERE id = p_shop_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SHOP_NOT_FOUND';
+  END IF;
+
+  -- Scheduled orders may be placed while the shop is closed
+  IF v_shop.is_open IS DISTINCT FROM TRUE AND p_delivery_slot_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SHOP_CLOSED';
+  END IF;
+
+  IF p_delivery_slot_id IS NOT NULL THEN
+    -- Lock the slot so concurrent bookings of its last place are serialised
+    SELECT * INTO v_slot
+    FROM public.shop_delivery_slots
+    WHERE id = p_delivery_slot_id AND shop_id = p_shop_id AND is_active
+    FOR UPDATE;
+
+    IF NOT FOUND OR p_scheduled_for IS NULL
+       OR p_scheduled_for <= now() OR p_scheduled_for > now() + INTERVAL '14 days' THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SLOT_UNAVAILABLE',
+        DETAIL = format('Slot %s is not bookable for %s', p_delivery_slot_id, p_scheduled_for);
+    END IF;
+
+    -- scheduled_for must be an occurrence of the slot in the shop's timezone
+    v_slot_local := timezone(v_shop.timezone, p_scheduled_for);
+
+    IF EXTRACT(DOW FROM v_slot_local) <> v_slot.day_of_week OR v_slot_local::TIME <> v_slot.start_time THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SLOT_UNAVAILABLE',
+        DETAIL = format('%s is not a start time of slot %s', p_scheduled_for, p_delivery_slot_id);
+    END IF;
+
+    SELECT COUNT(*) INTO v_slot_booked
+    FROM public.orders
+    WHERE delivery_slot_id = v_slot.id
+      AND scheduled_for = p_scheduled_for
+      AND status <> 'cancelled';
+
+    IF v_slot_booked >= v_slot.max_orders THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SLOT_FULL',
+        DETAIL = format('Slot %s at %s already has %s of %s orders',
+          p_delivery_slot_id, p_scheduled_for, v_slot_booked, v_slot.max_orders);
+    END IF;
+  ELSIF p_scheduled_for IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SLOT_UNAVAILABLE',
+      DETAIL = 'Scheduled orders must name a delivery slot';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'EMPTY_ORDER';
+  END IF;
+
+  -- Normalise requested lines (merge duplicates of the same item and variant)
+  DROP TABLE IF EXISTS _requested_lines;
+  CREATE TEMP TABLE _requested_lines ON COMMIT DROP AS
+  SELECT
+    (line ->> 'merchant_item_id')::UUID AS merchant_item_id,
+    NULLIF(line ->> 'variant_id', '')::UUID AS variant_id,
+    SUM((line ->> 'quantity')::NUMERIC) AS quantity,
+    COALESCE(MAX(NULLIF(line ->> 'substitution_preference', '')), 'substitute') AS substitution_preference
+  FROM jsonb_array_elements(p_items) AS line
+  GROUP BY (line ->> 'merchant_item_id')::UUID, NULLIF(line ->> 'variant_id', '')::UUID;
+
+  IF EXISTS (
+    SELECT 1 FROM _requested_lines
+    WHERE merchant_item_id IS NULL OR quantity IS NULL OR quantity <= 0 OR quantity <> round(quantity, 3)
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_QUANTITY';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM _requested_lines
+    WHERE substitution_preference NOT IN ('substitute', 'call_me', 'remove')
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_SUBSTITUTION_PREFERENCE';
+  END IF;
+
+  -- Lock item rows so prices and stock cannot change while the order is written
+  DROP TABLE IF EXISTS _priced_lines;
+  CREATE TEMP TABLE _priced_lines ON COMMIT DROP AS
+  SELECT
+    mi.id AS merchant_item_id,
+    rl.variant_id AS requested_variant_id,
+    v.id AS variant_id,
+    v.name AS variant_name,
+    v.is_active AS variant_is_active,
+    EXISTS (
+      SELECT 1 FROM public.merchant_item_variants av
+      WHERE av.merchant_item_id = mi.id AND av.is_active
+    ) AS has_active_variants,
+    COALESCE(mi.name, it.name, '') AS item_name,
+    COALESCE(mi.description, it.description) AS item_description,
+    COALESCE(mi.image_url, it.image_url) AS item_image_url,
+    COALESCE(v.price_cents, mi.price_cents) AS item_price_cents,
+    mi.is_active,
+    mi.available_quantity,
+    mi.unit_type,
+    mi.quantity_step,
+    mi.min_quantity,
+    rl.quantity AS quantity,
+    rl.substitution_preference
+  FROM _requested_lines rl
+  JOIN public.merchant_items mi ON mi.id = rl.merchant_item_id AND mi.shop_id = p_shop_id
+  LEFT JOIN public.item_templates it ON it.id = mi.template_id
+  LEFT JOIN public.merchant_item_variants v ON v.id = rl.variant_id AND v.merchant_item_id = mi.id
+  ORDER BY mi.id
+  FOR UPDATE OF mi;
+
+  SELECT COUNT(*) INTO v_requested_count FROM _requested_lines;
+  SELECT COUNT(*) INTO v_found_count FROM _priced_lines;
+
+  IF v_found_count < v_requested_count THEN
+    SELECT rl.merchant_item_id INTO v_missing_item
+    FROM _requested_lines rl
+    WHERE NOT EXISTS (SELECT 1 FROM _priced_lines pl WHERE pl.merchant_item_id = rl.merchant_item_id)
+    LIMIT 1;
+
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ITEM_NOT_FOUND',
+      DETAIL = format('Item %s does not belong to shop %s', v_missing_item, p_shop_id);
+  END IF;
+
+  SELECT merchant_item_id INTO v_inactive_item FROM _priced_lines WHERE NOT is_active LIMIT 1;
+
+  IF v_inactive_item IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ITEM_UNAVAILABLE',
+      DETAIL = format('Item %s is no longer available', v_inactive_item);
+  END IF;
+
+  -- A chosen variant must exist and be on sale; items with variants need one
+  SELECT merchant_item_id, requested_variant_id INTO v_variant_line
+  FROM _priced_lines
+  WHERE (requested_variant_id IS NOT NULL AND (variant_id IS NULL OR NOT variant_is_active))
+     OR (requested_variant_id IS NULL AND has_active_variants)
+  LIMIT 1;
+
+  IF v_variant_line.merchant_item_id IS NOT NULL THEN
+    IF v_variant_line.requested_variant_id IS NULL THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'VARIANT_REQUIRED',
+        DETAIL = format('Item %s must be ordered as one of its variants', v_variant_line.merchant_item_id);
+    END IF;
+
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'VARIANT_UNAVAILABLE',
+      DETAIL = format('Variant %s of item %s is not available',
+        v_variant_line.requested_variant_id, v_variant_line.merchant_item_id);
+  END IF;
+
+  -- Each line must respect the item's minimum and step (whole units for pieces)
+  SELECT merchant_item_id, quantity, unit_type, quantity_step, min_quantity INTO v_bad_quantity_line
+  FROM _priced_lines
+  WHERE quantity < min_quantity OR mod(quantity, quantity_step) <> 0
+  LIMIT 1;
+
+  IF v_bad_quantity_line.merchant_item_id IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_QUANTITY',
+      DETAIL = format('Item %s is sold in steps of %s %s from %s %s; %s requested',
+        v_bad_quantity_line.merchant_item_id,
+        v_bad_quantity_line.quantity_step, v_bad_quantity_line.unit_type,
+        v_bad_quantity_line.min_quantity, v_bad_quantity_line.unit_type,
+        v_bad_quantity_line.quantity);
+  END IF;
+
+  -- Stock is tracked per item, so variant lines of the same item share it
+  SELECT merchant_item_id, available_quantity, SUM(quantity) AS quantity INTO v_short_line
+  FROM _priced_lines
+  WHERE available_quantity IS NOT NULL
+  GROUP BY merchant_item_id, available_quantity
+  HAVING SUM(quantity) > available_quantity
+  LIMIT 1;
+
+  IF v_short_line.merchant_item_id IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INSUFFICIENT_STOCK',
+      DETAIL = format('Item %s has %s available, %s requested',
+        v_short_line.merchant_item_id, v_short_line.available_quantity, v_short_line.quantity);
+  END IF;
+
+  SELECT COALESCE(SUM(round(item_price_cents * quantity)), 0)::INTEGER INTO v_subtotal_cents FROM _priced_lines;
+
+  v_distance := public.haversine_distance_meters(
+    v_address.latitude::DOUBLE PRECISION,
+    v_address.longitude::DOUBLE PRECISION,
+    v_shop.latitude,
+    v_shop.longitude
+  );
+
+  SELECT * INTO v_pricing FROM public.calculate_order_pricing(p_shop_id, v_subtotal_cents, v_distance);
+
+  SELECT name, email INTO v_profile FROM public.user_profiles WHERE id = v_user_id;
+
+  INSERT INTO public.orders (
+    shop_id,
+    user_id,
+    consumer_address_id,
+    status,
+    subtotal_cents,
+    delivery_fee_cents,
+    surcharge_cents,
+    total_cents,
+    payment_method,
+    special_instructions,
+    delivery_address,
+    customer_name,
+    customer_email,
+    idempotency_key,
+    delivery_slot_id,
+    scheduled_for
+  ) VALUES (
+    p_shop_id,
+    v_user_id,
+    v_address.id,
+    'pending',
+    v_subtotal_cents,
+    v_pricing.delivery_fee_cents,
+    v_pricing.surcharge_cents,
+    v_subtotal_cents + v_pricing.delivery_fee_cents + v_pricing.surcharge_cents,
+    COALESCE(p_payment_method, 'cash'),
+    NULLIF(btrim(p_special_instructions), ''),
+    jsonb_build_object(
+      'id', v_address.id,
+      'title', v_address.title,
+      'street_address', v_address.street_address,
+      'city', v_address.city,
+      'region', v_address.region,
+      'latitude', v_address.latitude,
+      'longitude', v_address.longitude,
+      'landmark', v_address.landmark,
+      'formatted_address', v_address.formatted_address
+    ),
+    v_profile.name,
+    v_profile.email,
+    p_idempotency_key,
+    p_delivery_slot_id,
+    p_scheduled_for
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO public.order_items (
+    order_id,
+    merchant_item_id,
+    variant_id,
+    variant_name,
+    item_name,
+    item_description,
+    item_image_url,
+    item_price_cents,
+    unit_type,
+    quantity,
+    subtotal_cents,
+    substitution_preference
+  )
+  SELECT
+    v_order.id,
+    merchant_item_id,
+    variant_id,
+    variant_name,
+    item_name,
+    item_description,
+    item_image_url,
+    item_price_cents,
+    unit_type,
+    quantity,
+    round(item_price_cents * quantity)::INTEGER,
+    substitution_preference
+  FROM _priced_lines;
+
+  -- Reserve tracked stock until the order is delivered or cancelled
+  UPDATE public.merchant_items mi
+  SET reserved_quantity = mi.reserved_quantity + pl.quantity
+  FROM (
+    SELECT merchant_item_id, SUM(quantity) AS quantity
+    FROM _priced_lines
+    GROUP BY merchant_item_id
+  ) pl
+  WHERE mi.id = pl.merchant_item_id
+    AND mi.stock_quantity IS NOT NULL;
+
+  RETURN public.order_with_items_json(v_order.id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order(UUID, UUID, JSONB, payment_method, TEXT, TEXT, UUID, TIMESTAMPTZ) TO authenticated;
+
+COMMENT ON FUNCTION public.place_order IS 'Atomically and idempotently places an ASAP or slot-scheduled order: locks item prices and slot capacity, recomputes totals from shop_delivery_logic and writes orders + order_items';
@@ -0,0 +1,358 @@
+-- ============================================================================
+-- RECURRING SUBSCRIPTION ORDERS
+-- ============================================================================
+-- A subscription is a cart template for one shop and address that repeats
+-- daily, on weekdays, or weekly on chosen days, at a delivery time in the
+-- shop's timezone.
+--   * consumers can pause a subscription, skip single dates and set an end date
+--   * next_run_on is maintained by a trigger from the recurrence rule
+--   * materialise_due_subscriptions() places real orders through place_order,
+--     acting as the subscriber, once the shop's scheduled lead time before
+--     the delivery time is reached; the idempotency key makes each date
+--     produce at most one order
+--   * failures (closed shop, stock, removed items) are kept in last_error and
+--     the subscription moves on to its next date
+--   * subscriptions are cash only: repeats are placed with nobody at
+--     checkout to authorize a card or wallet payment
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.order_subscriptions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  shop_id UUID NOT NULL REFERENCES public.shops(id) ON DELETE CASCADE,
+  consumer_address_id UUID NOT NULL REFERENCES public.consumer_addresses(id) ON DELETE CASCADE,
+  -- Same line shape as place_order's p_items
+  items JSONB NOT NULL,
+  payment_method payment_method NOT NULL DEFAULT 'cash',
+  special_instructions TEXT,
+  recurrence TEXT NOT NULL CHECK (recurrence IN ('daily', 'weekdays', 'weekly')),
+  -- 0 = Sunday ... 6 = Saturday; used when recurrence = 'weekly'
+  days_of_week SMALLINT[] NOT NULL DEFAULT '{}',
+  delivery_time TIME NOT NULL DEFAULT '08:00',
+  starts_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  ends_on DATE,
+  skip_dates DATE[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'cancelled', 'ended')),
+  next_run_on DATE,
+  last_run_on DATE,
+  last_run_at TIMESTAMPTZ,
+  last_order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc'::TEXT, now()),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc'::TEXT, now()),
+  CONSTRAINT order_subscriptions_items_present CHECK (jsonb_typeof(items) = 'array' AND jsonb_array_length(items) > 0),
+  CONSTRAINT order_subscriptions_weekly_days CHECK (
+    recurrence <> 'weekly'
+    OR (cardinality(days_of_week) > 0 AND days_of_week <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[])
+  ),
+  CONSTRAINT order_subscriptions_valid_range CHECK (ends_on IS NULL OR ends_on >= starts_on),
+  CONSTRAINT order_subscriptions_cash_only CHECK (payment_method = 'cash')
+);
+
+CREATE INDEX IF NOT EXISTS order_subscriptions_user_idx ON public.order_subscriptions (user_id);
+CREATE INDEX IF NOT EXISTS order_subscriptions_due_idx
+  ON public.order_subscriptions (next_run_on)
+  WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS order_subscriptions_shop_idx ON public.order_subscriptions (shop_id, status);
+
+COMMENT ON TABLE public.order_subscriptions IS 'Recurring cart templates that place orders on a daily, weekday or weekly schedule';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'orders' AND column_name = 'subscription_id') THEN
+    ALTER TABLE public.orders ADD COLUMN subscription_id UUID REFERENCES public.order_subscriptions(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS orders_subscription_idx
+  ON public.orders (subscription_id)
+  WHERE subscription_id IS NOT NULL;
+
+COMMENT ON COLUMN public.orders.subscription_id IS 'Subscription that placed this order, if any';
+
+-- ============================================================================
+-- Recurrence helpers
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.subscription_delivers_on(
+  p_subscription public.order_subscriptions,
+  p_date DATE
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT p_date >= p_subscription.starts_on
+    AND (p_subscription.ends_on IS NULL OR p_date <= p_subscription.ends_on)
+    AND NOT (p_date = ANY (p_subscription.skip_dates))
+    AND CASE p_subscription.recurrence
+      WHEN 'daily' THEN TRUE
+      WHEN 'weekdays' THEN EXTRACT(ISODOW FROM p_date) < 6
+      WHEN 'weekly' THEN EXTRACT(DOW FROM p_date)::SMALLINT = ANY (p_subscription.days_of_week)
+      ELSE FALSE
+    END;
+$$;
+
+COMMENT ON FUNCTION public.subscription_delivers_on IS 'Whether a subscription''s recurrence, range and skip dates include the given date';
+
+CREATE OR REPLACE FUNCTION public.next_subscription_run_on(
+  p_subscription public.order_subscriptions,
+  p_from DATE
+)
+RETURNS DATE
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT MIN(d)::DATE
+  FROM generate_series(p_from, p_from + 370, INTERVAL '1 day') AS d
+  WHERE public.subscription_delivers_on(p_subscription, d::DATE);
+$$;
+
+COMMENT ON FUNCTION public.next_subscription_run_on IS 'First delivery date of a subscription on or after p_from, or NULL when none remains';
+
+-- Keep next_run_on in step with the rule. A date whose order is already due
+-- (within the shop's lead time) is not picked when a subscription is created
+-- or edited, so changes never produce an instant order.
+CREATE OR REPLACE FUNCTION public.schedule_order_subscription()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_timezone TEXT;
+  v_lead_minutes INTEGER;
+  v_local_now TIMESTAMP;
+  v_from DATE;
+BEGIN
+  IF NEW.status <> 'active' THEN
+    NEW.next_run_on := NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT s.timezone, COALESCE(dl.scheduled_lead_minutes, 60)
+  INTO v_timezone, v_lead_minutes
+  FROM public.shops s
+  LEFT JOIN public.shop_delivery_logic dl ON dl.shop_id = s.id
+  WHERE s.id = NEW.shop_id;
+
+  v_local_now := timezone(COALESCE(v_timezone, 'UTC'), now());
+  v_from := v_local_now::DATE;
+
+  IF v_local_now >= v_from + NEW.delivery_time - make_interval(mins => v_lead_minutes) THEN
+    v_from := v_from + 1;
+  END IF;
+
+  v_from := GREATEST(v_from, NEW.starts_on, COALESCE(NEW.last_run_on + 1, NEW.starts_on));
+  NEW.next_run_on := public.next_subscription_run_on(NEW, v_from);
+
+  IF NEW.next_run_on IS NULL AND NEW.ends_on IS NOT NULL THEN
+    NEW.status := 'ended';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS order_subscriptions_schedule ON public.order_subscriptions;
+CREATE TRIGGER order_subscriptions_schedule
+  BEFORE INSERT OR UPDATE ON public.order_subscriptions
+  FOR EACH ROW EXECUTE FUNCTION public.schedule_order_subscription();
+
+DROP TRIGGER IF EXISTS order_subscriptions_touch ON public.order_subscriptions;
+CREATE TRIGGER order_subscriptions_touch
+  BEFORE UPDATE ON public.order_subscriptions
+  FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+ALTER TABLE public.order_subscriptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS order_subscriptions_consumer ON public.order_subscriptions;
+CREATE POLICY order_subscriptions_consumer ON public.order_subscriptions
+  FOR ALL USING (user_id = auth.uid())
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.consumer_addresses ca
+      WHERE ca.id = order_subscriptions.consumer_address_id
+        AND ca.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS order_subscriptions_merchant_select ON public.order_subscriptions;
+CREATE POLICY order_subscriptions_merchant_select ON public.order_subscriptions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.shops s
+      JOIN public.merchant_accounts ma ON ma.id = s.merchant_id
+      WHERE s.id = order_subscriptions.shop_id
+        AND ma.user_id = auth.uid()
+    )
+  );
+
+-- ============================================================================
+-- Materialise due subscriptions into orders
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.materialise_due_subscriptions()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sub RECORD;
+  v_order JSONB;
+  v_order_id UUID;
+  v_error TEXT;
+  v_placed INTEGER := 0;
+BEGIN
+  FOR v_sub IN
+    SELECT
+      os.*,
+      timezone(s.timezone, os.next_run_on + os.delivery_time) AS deliver_at
+    FROM public.order_subscriptions os
+    JOIN public.shops s ON s.id = os.shop_id
+    LEFT JOIN public.shop_delivery_logic dl ON dl.shop_id = os.shop_id
+    WHERE os.status = 'active'
+      AND os.next_run_on IS NOT NULL
+      AND timezone(s.timezone, os.next_run_on + os.delivery_time)
+        - make_interval(mins => COALESCE(dl.scheduled_lead_minutes, 60)) <= now()
+    ORDER BY os.next_run_on, os.id
+    FOR UPDATE OF os SKIP LOCKED
+  LOOP
+    v_order_id := NULL;
+    v_error := NULL;
+
+    IF v_sub.deliver_at <= now() THEN
+      -- The run was missed entirely (e.g. the scheduler was down)
+      v_error := 'MISSED';
+    ELSE
+      BEGIN
+        -- Act as the subscriber so place_order applies its usual ownership checks
+        PERFORM set_config(
+          'request.jwt.claims',
+          json_build_object('sub', v_sub.user_id, 'role', 'authenticated')::TEXT,
+          TRUE
+        );
+
+        v_order := public.place_order(
+          v_sub.shop_id,
+          v_sub.consumer_address_id,
+          v_sub.items,
+          v_sub.payment_method,
+          v_sub.special_instructions,
+          format('subscription:%s:%s', v_sub.id, v_sub.next_run_on)
+        );
+        v_order_id := (v_order ->> 'id')::UUID;
+
+        UPDATE public.orders SET subscription_id = v_sub.id WHERE id = v_order_id;
+        v_placed := v_placed + 1;
+      EXCEPTION WHEN OTHERS THEN
+        -- place_order raises its error codes (SHOP_CLOSED, INSUFFICIENT_STOCK, ...) as the message
+        v_error := SQLERRM;
+      END;
+    END IF;
+
+    UPDATE public.order_subscriptions
+    SET last_run_on = v_sub.next_run_on,
+        last_run_at = now(),
+        last_order_id = COALESCE(v_order_id, last_order_id),
+        last_error = v_error
+    WHERE id = v_sub.id;
+  END LOOP;
+
+  PERFORM set_config('request.jwt.claims', '', TRUE);
+
+  RETURN v_placed;
+END;
+$$;
+
+-- Supabase grants EXECUTE on new public functions to anon and authenticated
+-- directly, so revoking from PUBLIC alone would leave it callable by users
+REVOKE ALL ON FUNCTION public.materialise_due_subscriptions() FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.materialise_due_subscriptions IS 'Places the orders of all subscriptions whose next delivery is within the shop''s lead time; run on a schedule';
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'materialise-order-subscriptions',
+      '*/5 * * * *',
+      'SELECT public.materialise_due_subscriptions()'
+    );
+  END IF;
+END $$;
+
+-- ============================================================================
+-- Upcoming subscription volume for merchants
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_shop_subscription_volume(
+  p_shop_id UUID,
+  p_days INTEGER DEFAULT 7
+)
+RETURNS TABLE (
+  delivery_date DATE,
+  subscription_count INTEGER,
+  items JSONB
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH days AS (
+    SELECT timezone(s.timezone, now())::DATE + offs AS day
+    FROM public.shops s
+    JOIN public.merchant_accounts ma ON ma.id = s.merchant_id
+    CROSS JOIN generate_series(0, GREATEST(LEAST(p_days, 31), 1) - 1) AS offs
+    WHERE s.id = p_shop_id
+      AND ma.user_id = auth.uid()
+  ),
+  deliveries AS (
+    SELECT days.day, os.id AS subscription_id, os.items AS subscription_items
+    FROM days
+    JOIN public.order_subscriptions os ON os.shop_id = p_shop_id AND os.status = 'active'
+    WHERE public.subscription_delivers_on(os, days.day)
+      -- Orders already placed for a date show up as real orders
+      AND (os.last_run_on IS NULL OR days.day > os.last_run_on)
+  ),
+  lines AS (
+    SELECT
+      dv.day,
+      (line ->> 'merchant_item_id')::UUID AS merchant_item_id,
+      NULLIF(line ->> 'variant_id', '')::UUID AS variant_id,
+      SUM((line ->> 'quantity')::NUMERIC) AS quantity
+    FROM deliveries dv
+    CROSS JOIN jsonb_array_elements(dv.subscription_items) AS line
+    GROUP BY dv.day, (line ->> 'merchant_item_id')::UUID, NULLIF(line ->> 'variant_id', '')::UUID
+  )
+  SELECT
+    days.day,
+    (SELECT COUNT(*)::INTEGER FROM deliveries dv WHERE dv.day = days.day),
+    COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'merchant_item_id', l.merchant_item_id,
+          'variant_id', l.variant_id,
+          'item_name', COALESCE(mi.name, it.name, ''),
+          'variant_name', v.name,
+          'unit_type', mi.unit_type,
+          'quantity', l.quantity
+        )
+        ORDER BY COALESCE(mi.name, it.name, ''), v.name
+      )
+      FROM lines l
+      JOIN public.merchant_items mi ON mi.id = l.merchant_item_id
+      LEFT JOIN public.item_templates it ON it.id = mi.template_id
+      LEFT JOIN public.merchant_item_variants v ON v.id = l.variant_id
+      WHERE l.day = days.day
+    ), '[]'::JSONB)
+  FROM days
+  ORDER BY days.day;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_shop_subscription_volume(UUID, INTEGER) TO authenticated;
+
+COMMENT ON FUNCTION public.get_shop_subscription_volume IS 'Per-day count of subscription deliveries and item quantities a shop should expect';
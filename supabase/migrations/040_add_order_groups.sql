@@ -0,0 +1,154 @@
+-- ============================================================================
+-- GROUPED MULTI-SHOP CHECKOUT
+-- ============================================================================
+-- A consumer with carts from several shops can check them all out in one
+-- step. place_order_group() places one order per shop through place_order,
+-- in a single transaction, and ties them together with an order group:
+--   * every shop's order succeeds or none is placed; the failing shop is
+--     reported in the error HINT so the client can point at its cart
+--   * each shop keeps its own delivery fee, surcharge, slot and status
+--   * the group's idempotency key makes a resubmission return the original
+--     group; each order carries '<group key>:<shop id>' as its own key
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.order_groups (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  consumer_address_id UUID REFERENCES public.consumer_addresses(id) ON DELETE SET NULL,
+  payment_method payment_method NOT NULL DEFAULT 'cash',
+  idempotency_key TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc'::TEXT, now()),
+  CONSTRAINT order_groups_user_idempotency_key_unique UNIQUE (user_id, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS order_groups_user_idx ON public.order_groups (user_id, created_at DESC);
+
+COMMENT ON TABLE public.order_groups IS 'Orders from several shops placed together in one checkout';
+
+ALTER TABLE public.order_groups ENABLE ROW LEVEL SECURITY;
+
+-- Groups are only created through place_order_group
+DROP POLICY IF EXISTS order_groups_consumer_select ON public.order_groups;
+CREATE POLICY order_groups_consumer_select ON public.order_groups
+  FOR SELECT USING (user_id = auth.uid());
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'orders' AND column_name = 'order_group_id') THEN
+    ALTER TABLE public.orders ADD COLUMN order_group_id UUID REFERENCES public.order_groups(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS orders_order_group_idx
+  ON public.orders (order_group_id)
+  WHERE order_group_id IS NOT NULL;
+
+COMMENT ON COLUMN public.orders.order_group_id IS 'Grouped checkout this order was placed in, if any';
+
+-- Group row plus its orders, each in the shape returned by place_order
+CREATE OR REPLACE FUNCTION public.order_group_json(p_group_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT to_jsonb(g) || jsonb_build_object(
+    'orders',
+    COALESCE(
+      (
+        SELECT jsonb_agg(public.order_with_items_json(o.id) ORDER BY o.placed_at, o.id)
+        FROM public.orders o
+        WHERE o.order_group_id = g.id
+      ),
+      '[]'::JSONB
+    )
+  )
+  FROM public.order_groups g
+  WHERE g.id = p_group_id;
+$$;
+
+-- ============================================================================
+-- place_order_group
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.place_order_group(
+  p_consumer_address_id UUID,
+  p_shop_orders JSONB,
+  p_payment_method payment_method DEFAULT 'cash',
+  p_special_instructions TEXT DEFAULT NULL,
+  p_idempotency_key TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_group_id UUID;
+  v_shop_order JSONB;
+  v_shop_id UUID;
+  v_order JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'NOT_AUTHENTICATED';
+  END IF;
+
+  IF p_shop_orders IS NULL OR jsonb_typeof(p_shop_orders) <> 'array' OR jsonb_array_length(p_shop_orders) = 0 THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'EMPTY_ORDER';
+  END IF;
+
+  IF (SELECT COUNT(DISTINCT value->>'shop_id') FROM jsonb_array_elements(p_shop_orders)) <> jsonb_array_length(p_shop_orders) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'DUPLICATE_SHOP',
+      DETAIL = 'Each shop may appear only once in a grouped checkout';
+  END IF;
+
+  -- Replayed submission: return the group created by the first attempt
+  IF p_idempotency_key IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtextextended(v_user_id::TEXT || ':group:' || p_idempotency_key, 0));
+
+    SELECT id INTO v_group_id
+    FROM public.order_groups
+    WHERE user_id = v_user_id AND idempotency_key = p_idempotency_key;
+
+    IF v_group_id IS NOT NULL THEN
+      RETURN public.order_group_json(v_group_id);
+    END IF;
+  END IF;
+
+  INSERT INTO public.order_groups (user_id, consumer_address_id, payment_method, idempotency_key)
+  VALUES (v_user_id, p_consumer_address_id, p_payment_method, p_idempotency_key)
+  RETURNING id INTO v_group_id;
+
+  FOR v_shop_order IN SELECT value FROM jsonb_array_elements(p_shop_orders) LOOP
+    v_shop_id := (v_shop_order->>'shop_id')::UUID;
+
+    BEGIN
+      v_order := public.place_order(
+        v_shop_id,
+        p_consumer_address_id,
+        v_shop_order->'items',
+        p_payment_method,
+        p_special_instructions,
+        CASE WHEN p_idempotency_key IS NULL THEN NULL ELSE p_idempotency_key || ':' || v_shop_id::TEXT END,
+        NULLIF(v_shop_order->>'delivery_slot_id', '')::UUID,
+        NULLIF(v_shop_order->>'scheduled_for', '')::TIMESTAMPTZ
+      );
+    EXCEPTION WHEN OTHERS THEN
+      -- Keep place_order's error code as the message and name the shop it failed for.
+      -- Re-raising aborts the whole group, including orders already placed for other shops.
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = SQLERRM, HINT = v_shop_id::TEXT;
+    END;
+
+    UPDATE public.orders
+    SET order_group_id = v_group_id
+    WHERE id = (v_order->>'id')::UUID;
+  END LOOP;
+
+  RETURN public.order_group_json(v_group_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order_group(UUID, JSONB, payment_method, TEXT, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.place_order_group IS 'Atomically places one order per shop under a shared order group; fails as a whole if any shop''s order fails';
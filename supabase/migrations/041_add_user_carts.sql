@@ -0,0 +1,50 @@
+-- ============================================================================
+-- SERVER-SYNCED CARTS
+-- ============================================================================
+-- Carts used to live only in the browser's local storage. Signed-in users
+-- now keep one row per shop cart here, so a cart started on the phone is
+-- there on the laptop:
+--   * on sign-in the local cart (including a guest cart) is merged with the
+--     account's carts and the result written back
+--   * later changes are upserted per shop, and removed carts are deleted
+--   * rows are published to realtime so other open devices follow along
+-- items holds the client's cart lines as-is; prices are re-checked against
+-- the catalog at checkout, so nothing here is trusted when ordering.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.user_carts (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  shop_id UUID NOT NULL REFERENCES public.shops(id) ON DELETE CASCADE,
+  shop_name TEXT NOT NULL DEFAULT '',
+  items JSONB NOT NULL DEFAULT '[]'::JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc'::TEXT, now()),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc'::TEXT, now()),
+  PRIMARY KEY (user_id, shop_id),
+  CONSTRAINT user_carts_items_array CHECK (jsonb_typeof(items) = 'array')
+);
+
+COMMENT ON TABLE public.user_carts IS 'Signed-in users'' shop carts, synced across their devices';
+
+DROP TRIGGER IF EXISTS user_carts_touch ON public.user_carts;
+CREATE TRIGGER user_carts_touch
+  BEFORE UPDATE ON public.user_carts
+  FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+ALTER TABLE public.user_carts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS user_carts_owner ON public.user_carts;
+CREATE POLICY user_carts_owner ON public.user_carts
+  FOR ALL USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.user_carts TO authenticated;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'user_carts'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.user_carts;
+  END IF;
+END $$;
@@ -0,0 +1,10 @@
+-- ============================================================================
+-- READY_FOR_PICKUP ORDER STATUS
+-- ============================================================================
+-- Pickup orders wait at the shop in 'ready_for_pickup' instead of going out
+-- for delivery. The enum value is added on its own because a new enum value
+-- cannot be used in the transaction that adds it; 043 builds pickup
+-- fulfilment on top of it.
+-- ============================================================================
+
+ALTER TYPE order_status ADD VALUE IF NOT EXISTS 'ready_for_pickup' AFTER 'confirmed';
@@ -0,0 +1,991 @@
+-- ============================================================================
+-- PICKUP (SELF-COLLECTION) FULFILMENT
+-- ============================================================================
+-- Customers near a shop can collect their order themselves instead of
+-- having it delivered:
+--   * shops opt in with shop_delivery_logic.pickup_enabled
+--   * orders carry a fulfilment_type; pickup orders pay no delivery fee and
+--     skip the delivery-distance pricing (the small-order surcharge still
+--     applies), also when the customer edits them while pending
+--   * pickup orders move pending -> confirmed -> ready_for_pickup ->
+--     delivered and never need a runner
+--   * place_order issues a 4-digit pickup_code the customer shows at the
+--     counter; the merchant hands the order over through verify_pickup_code,
+--     which is the only way a pickup order can be marked delivered
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'shop_delivery_logic' AND column_name = 'pickup_enabled') THEN
+    ALTER TABLE public.shop_delivery_logic ADD COLUMN pickup_enabled BOOLEAN NOT NULL DEFAULT FALSE;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'orders' AND column_name = 'fulfilment_type') THEN
+    ALTER TABLE public.orders ADD COLUMN fulfilment_type TEXT NOT NULL DEFAULT 'delivery';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'orders' AND column_name = 'pickup_code') THEN
+    ALTER TABLE public.orders ADD COLUMN pickup_code TEXT;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'orders' AND column_name = 'ready_for_pickup_at') THEN
+    ALTER TABLE public.orders ADD COLUMN ready_for_pickup_at TIMESTAMPTZ;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.table_constraints WHERE constraint_schema = 'public' AND table_name = 'orders' AND constraint_name = 'check_fulfilment_type') THEN
+    ALTER TABLE public.orders ADD CONSTRAINT check_fulfilment_type
+      CHECK (fulfilment_type IN ('delivery', 'pickup'));
+  END IF;
+END $$;
+
+COMMENT ON COLUMN public.shop_delivery_logic.pickup_enabled IS 'Whether customers may collect orders from the shop themselves';
+COMMENT ON COLUMN public.orders.fulfilment_type IS 'delivery, or pickup when the customer collects the order from the shop';
+COMMENT ON COLUMN public.orders.pickup_code IS 'Code the customer shows when collecting a pickup order';
+COMMENT ON COLUMN public.orders.ready_for_pickup_at IS 'When a pickup order was packed and ready at the counter';
+
+-- Pickup orders reach delivered through ready_for_pickup, without a runner
+ALTER TABLE public.orders DROP CONSTRAINT IF EXISTS valid_status_timestamps;
+ALTER TABLE public.orders ADD CONSTRAINT valid_status_timestamps CHECK (
+  (status = 'pending' AND confirmed_at IS NULL) OR
+  (status = 'confirmed' AND confirmed_at IS NOT NULL) OR
+  (status = 'out_for_delivery' AND fulfilment_type = 'delivery'
+    AND confirmed_at IS NOT NULL AND out_for_delivery_at IS NOT NULL) OR
+  (status = 'ready_for_pickup' AND fulfilment_type = 'pickup'
+    AND confirmed_at IS NOT NULL AND ready_for_pickup_at IS NOT NULL) OR
+  (status = 'delivered' AND fulfilment_type = 'delivery'
+    AND confirmed_at IS NOT NULL AND out_for_delivery_at IS NOT NULL AND delivered_at IS NOT NULL) OR
+  (status = 'delivered' AND fulfilment_type = 'pickup'
+    AND confirmed_at IS NOT NULL AND ready_for_pickup_at IS NOT NULL AND delivered_at IS NOT NULL) OR
+  (status = 'cancelled' AND cancelled_at IS NOT NULL)
+);
+
+ALTER TABLE public.orders DROP CONSTRAINT IF EXISTS runner_required_for_delivery;
+ALTER TABLE public.orders ADD CONSTRAINT runner_required_for_delivery CHECK (
+  fulfilment_type = 'pickup' OR
+  (status != 'out_for_delivery' AND status != 'delivered') OR
+  delivery_runner_id IS NOT NULL
+);
+
+-- ============================================================================
+-- Status transitions and timings
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION validate_order_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Allow any transition if inserting
+  IF TG_OP = 'INSERT' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.fulfilment_type IS DISTINCT FROM OLD.fulfilment_type THEN
+    RAISE EXCEPTION 'Cannot change the fulfilment type of an existing order';
+  END IF;
+
+  -- Define valid transitions
+  IF OLD.status = 'pending' THEN
+    IF NEW.status NOT IN ('confirmed', 'cancelled') THEN
+      RAISE EXCEPTION 'Invalid status transition from pending to %', NEW.status;
+    END IF;
+  ELSIF OLD.status = 'confirmed' THEN
+    IF OLD.fulfilment_type = 'pickup' AND NEW.status NOT IN ('ready_for_pickup', 'cancelled') THEN
+      RAISE EXCEPTION 'Invalid status transition from confirmed to % for a pickup order', NEW.status;
+    ELSIF OLD.fulfilment_type = 'delivery' AND NEW.status NOT IN ('out_for_delivery', 'cancelled') THEN
+      RAISE EXCEPTION 'Invalid status transition from confirmed to %', NEW.status;
+    END IF;
+  ELSIF OLD.status = 'out_for_delivery' THEN
+    IF NEW.status NOT IN ('delivered', 'cancelled') THEN
+      RAISE EXCEPTION 'Invalid status transition from out_for_delivery to %', NEW.status;
+    END IF;
+  ELSIF OLD.status = 'ready_for_pickup' THEN
+    IF NEW.status NOT IN ('delivered', 'cancelled') THEN
+      RAISE EXCEPTION 'Invalid status transition from ready_for_pickup to %', NEW.status;
+    END IF;
+    -- Only verify_pickup_code hands a pickup order over
+    IF NEW.status = 'delivered' AND current_setting('app.pickup_code_verified', true) IS DISTINCT FROM 'on' THEN
+      RAISE EXCEPTION 'Pickup orders are marked delivered by verifying the customer''s pickup code';
+    END IF;
+  ELSIF OLD.status IN ('delivered', 'cancelled') THEN
+    -- Terminal states - no transitions allowed
+    IF NEW.status != OLD.status THEN
+      RAISE EXCEPTION 'Cannot change status from terminal state %', OLD.status;
+    END IF;
+  END IF;
+
+  -- Set appropriate timestamp based on new status
+  IF NEW.status = 'confirmed' AND OLD.status = 'pending' THEN
+    NEW.confirmed_at := timezone('utc', now());
+  ELSIF NEW.status = 'out_for_delivery' AND OLD.status = 'confirmed' THEN
+    NEW.out_for_delivery_at := timezone('utc', now());
+  ELSIF NEW.status = 'ready_for_pickup' AND OLD.status = 'confirmed' THEN
+    NEW.ready_for_pickup_at := timezone('utc', now());
+  ELSIF NEW.status = 'delivered' AND OLD.status IN ('out_for_delivery', 'ready_for_pickup') THEN
+    NEW.delivered_at := timezone('utc', now());
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Preparation time for pickup orders runs until the order is ready at the counter.
+-- Time waiting for the customer is not delivery time, so it is not recorded.
+CREATE OR REPLACE FUNCTION calculate_order_timings()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Calculate confirmation time
+  IF NEW.status = 'confirmed' AND OLD.status = 'pending' AND NEW.confirmed_at IS NOT NULL THEN
+    NEW.confirmation_time_seconds := EXTRACT(EPOCH FROM (NEW.confirmed_at - NEW.placed_at))::INTEGER;
+  END IF;
+
+  -- Calculate preparation time
+  IF NEW.status = 'out_for_delivery' AND OLD.status = 'confirmed' AND NEW.out_for_delivery_at IS NOT NULL THEN
+    NEW.preparation_time_seconds := EXTRACT(EPOCH FROM (NEW.out_for_delivery_at - NEW.confirmed_at))::INTEGER;
+  ELSIF NEW.status = 'ready_for_pickup' AND OLD.status = 'confirmed' AND NEW.ready_for_pickup_at IS NOT NULL THEN
+    NEW.preparation_time_seconds := EXTRACT(EPOCH FROM (NEW.ready_for_pickup_at - NEW.confirmed_at))::INTEGER;
+  END IF;
+
+  -- Calculate delivery time
+  IF NEW.status = 'delivered' AND OLD.status = 'out_for_delivery' AND NEW.delivered_at IS NOT NULL THEN
+    NEW.delivery_time_seconds := EXTRACT(EPOCH FROM (NEW.delivered_at - NEW.out_for_delivery_at))::INTEGER;
+  END IF;
+
+  -- Handle cancellation - preserve existing timings
+  IF NEW.status = 'cancelled' AND OLD.status != 'cancelled' THEN
+    NEW.cancelled_at := timezone('utc', now());
+    -- Preserve any timings that were already calculated
+    NEW.confirmation_time_seconds := OLD.confirmation_time_seconds;
+    NEW.preparation_time_seconds := OLD.preparation_time_seconds;
+    NEW.delivery_time_seconds := OLD.delivery_time_seconds;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- place_order: delivery or pickup
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS public.place_order(UUID, UUID, JSONB, payment_method, TEXT, TEXT, UUID, TIMESTAMPTZ);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_shop_id UUID,
+  p_consumer_address_id UUID,
+  p_items JSONB,
+  p_payment_method payment_method DEFAULT 'cash',
+  p_special_instructions TEXT DEFAULT NULL,
+  p_idempotency_key TEXT DEFAULT NULL,
+  p_delivery_slot_id UUID DEFAULT NULL,
+  p_scheduled_for TIMESTAMPTZ DEFAULT NULL,
+  p_fulfilment_type TEXT DEFAULT 'delivery'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_address public.consumer_addresses%ROWTYPE;
+  v_shop public.shops%ROWTYPE;
+  v_profile RECORD;
+  v_requested_count INTEGER;
+  v_found_count INTEGER;
+  v_missing_item UUID;
+  v_inactive_item UUID;
+  v_variant_line RECORD;
+  v_bad_quantity_line RECORD;
+  v_short_line RECORD;
+  v_subtotal_cents INTEGER;
+  v_distance DOUBLE PRECISION;
+  v_pricing RECORD;
+  v_order public.orders%ROWTYPE;
+  v_existing_order_id UUID;
+  v_slot public.shop_delivery_slots%ROWTYPE;
+  v_slot_local TIMESTAMP;
+  v_slot_booked INTEGER;
+  v_fulfilment_type TEXT := COALESCE(p_fulfilment_type, 'delivery');
+  v_delivery_fee_cents INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'NOT_AUTHENTICATED';
+  END IF;
+
+  -- Replayed submission: return the order created by the first attempt.
+  -- The advisory lock serialises concurrent retries carrying the same key.
+  IF p_idempotency_key IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtextextended(v_user_id::TEXT || ':' || p_idempotency_key, 0));
+
+    SELECT id INTO v_existing_order_id
+    FROM public.orders
+    WHERE user_id = v_user_id AND idempotency_key = p_idempotency_key;
+
+    IF v_existing_order_id IS NOT NULL THEN
+      RETURN public.order_with_items_json(v_existing_order_id);
+    END IF;
+  END IF;
+
+  -- Address must exist and belong to the caller
+  SELECT * INTO v_address
+  FROM public.consumer_addresses
+  WHERE id = p_consumer_address_id AND user_id = v_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ADDRESS_NOT_FOUND',
+      DETAIL = format('Address %s not found for user', p_consumer_address_id);
+  END IF;
+
+  IF v_address.street_address IS NULL OR v_address.city IS NULL
+     OR v_address.latitude IS NULL OR v_address.longitude IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ADDRESS_INVALID',
+      DETAIL = 'Address is missing street, city or coordinates';
+  END IF;
+
+  SELECT * INTO v_shop FROM public.shops WHERE id = p_shop_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SHOP_NOT_FOUND';
+  END IF;
+
+  IF v_fulfilment_type NOT IN ('delivery', 'pickup') THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_FULFILMENT_TYPE';
+  END IF;
+
+  IF v_fulfilment_type = 'pickup' AND NOT EXISTS (
+    SELECT 1 FROM public.shop_delivery_logic
+    WHERE shop_id = p_shop_id AND pickup_enabled
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'PICKUP_UNAVAILABLE',
+      DETAIL = format('Shop %s does not offer pickup', p_shop_id);
+  END IF;
+
+  -- Scheduled orders may be placed while the shop is closed
+  IF v_shop.is_open IS DISTINCT FROM TRUE AND p_delivery_slot_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SHOP_CLOSED';
+  END IF;
+
+  IF p_delivery_slot_id IS NOT NULL THEN
+    -- Lock the slot so concurrent bookings of its last place are serialised
+    SELECT * INTO v_slot
+    FROM public.shop_delivery_slots
+    WHERE id = p_delivery_slot_id AND shop_id = p_shop_id AND is_active
+    FOR UPDATE;
+
+    IF NOT FOUND OR p_scheduled_for IS NULL
+       OR p_scheduled_for <= now() OR p_scheduled_for > now() + INTERVAL '14 days' THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SLOT_UNAVAILABLE',
+        DETAIL = format('Slot %s is not bookable for %s', p_delivery_slot_id, p_scheduled_for);
+    END IF;
+
+    -- scheduled_for must be an occurrence of the slot in the shop's timezone
+    v_slot_local := timezone(v_shop.timezone, p_scheduled_for);
+
+    IF EXTRACT(DOW FROM v_slot_local) <> v_slot.day_of_week OR v_slot_local::TIME <> v_slot.start_time THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SLOT_UNAVAILABLE',
+        DETAIL = format('%s is not a start time of slot %s', p_scheduled_for, p_delivery_slot_id);
+    END IF;
+
+    SELECT COUNT(*) INTO v_slot_booked
+    FROM public.orders
+    WHERE delivery_slot_id = v_slot.id
+      AND scheduled_for = p_scheduled_for
+      AND status <> 'cancelled';
+
+    IF v_slot_booked >= v_slot.max_orders THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SLOT_FULL',
+        DETAIL = format('Slot %s at %s already has %s of %s orders',
+          p_delivery_slot_id, p_scheduled_for, v_slot_booked, v_slot.max_orders);
+    END IF;
+  ELSIF p_scheduled_for IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SLOT_UNAVAILABLE',
+      DETAIL = 'Scheduled orders must name a delivery slot';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'EMPTY_ORDER';
+  END IF;
+
+  -- Normalise requested lines (merge duplicates of the same item and variant)
+  DROP TABLE IF EXISTS _requested_lines;
+  CREATE TEMP TABLE _requested_lines ON COMMIT DROP AS
+  SELECT
+    (line ->> 'merchant_item_id')::UUID AS merchant_item_id,
+    NULLIF(line ->> 'variant_id', '')::UUID AS variant_id,
+    SUM((line ->> 'quantity')::NUMERIC) AS quantity,
+    COALESCE(MAX(NULLIF(line ->> 'substitution_preference', '')), 'substitute') AS substitution_preference
+  FROM jsonb_array_elements(p_items) AS line
+  GROUP BY (line ->> 'merchant_item_id')::UUID, NULLIF(line ->> 'variant_id', '')::UUID;
+
+  IF EXISTS (
+    SELECT 1 FROM _requested_lines
+    WHERE merchant_item_id IS NULL OR quantity IS NULL OR quantity <= 0 OR quantity <> round(quantity, 3)
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_QUANTITY';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM _requested_lines
+    WHERE substitution_preference NOT IN ('substitute', 'call_me', 'remove')
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_SUBSTITUTION_PREFERENCE';
+  END IF;
+
+  -- Lock item rows so prices and stock cannot change while the order is written
+  DROP TABLE IF EXISTS _priced_lines;
+  CREATE TEMP TABLE _priced_lines ON COMMIT DROP AS
+  SELECT
+    mi.id AS merchant_item_id,
+    rl.variant_id AS requested_variant_id,
+    v.id AS variant_id,
+    v.name AS variant_name,
+    v.is_active AS variant_is_active,
+    EXISTS (
+      SELECT 1 FROM public.merchant_item_variants av
+      WHERE av.merchant_item_id = mi.id AND av.is_active
+    ) AS has_active_variants,
+    COALESCE(mi.name, it.name, '') AS item_name,
+    COALESCE(mi.description, it.description) AS item_description,
+    COALESCE(mi.image_url, it.image_url) AS item_image_url,
+    COALESCE(v.price_cents, mi.price_cents) AS item_price_cents,
+    mi.is_active,
+    mi.available_quantity,
+    mi.unit_type,
+    mi.quantity_step,
+    mi.min_quantity,
+    rl.quantity AS quantity,
+    rl.substitution_preference
+  FROM _requested_lines rl
+  JOIN public.merchant_items mi ON mi.id = rl.merchant_item_id AND mi.shop_id = p_shop_id
+  LEFT JOIN public.item_templates it ON it.id = mi.template_id
+  LEFT JOIN public.merchant_item_variants v ON v.id = rl.variant_id AND v.merchant_item_id = mi.id
+  ORDER BY mi.id
+  FOR UPDATE OF mi;
+
+  SELECT COUNT(*) INTO v_requested_count FROM _requested_lines;
+  SELECT COUNT(*) INTO v_found_count FROM _priced_lines;
+
+  IF v_found_count < v_requested_count THEN
+    SELECT rl.merchant_item_id INTO v_missing_item
+    FROM _requested_lines rl
+    WHERE NOT EXISTS (SELECT 1 FROM _priced_lines pl WHERE pl.merchant_item_id = rl.merchant_item_id)
+    LIMIT 1;
+
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ITEM_NOT_FOUND',
+      DETAIL = format('Item %s does not belong to shop %s', v_missing_item, p_shop_id);
+  END IF;
+
+  SELECT merchant_item_id INTO v_inactive_item FROM _priced_lines WHERE NOT is_active LIMIT 1;
+
+  IF v_inactive_item IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ITEM_UNAVAILABLE',
+      DETAIL = format('Item %s is no longer available', v_inactive_item);
+  END IF;
+
+  -- A chosen variant must exist and be on sale; items with variants need one
+  SELECT merchant_item_id, requested_variant_id INTO v_variant_line
+  FROM _priced_lines
+  WHERE (requested_variant_id IS NOT NULL AND (variant_id IS NULL OR NOT variant_is_active))
+     OR (requested_variant_id IS NULL AND has_active_variants)
+  LIMIT 1;
+
+  IF v_variant_line.merchant_item_id IS NOT NULL THEN
+    IF v_variant_line.requested_variant_id IS NULL THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'VARIANT_REQUIRED',
+        DETAIL = format('Item %s must be ordered as one of its variants', v_variant_line.merchant_item_id);
+    END IF;
+
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'VARIANT_UNAVAILABLE',
+      DETAIL = format('Variant %s of item %s is not available',
+        v_variant_line.requested_variant_id, v_variant_line.merchant_item_id);
+  END IF;
+
+  -- Each line must respect the item's minimum and step (whole units for pieces)
+  SELECT merchant_item_id, quantity, unit_type, quantity_step, min_quantity INTO v_bad_quantity_line
+  FROM _priced_lines
+  WHERE quantity < min_quantity OR mod(quantity, quantity_step) <> 0
+  LIMIT 1;
+
+  IF v_bad_quantity_line.merchant_item_id IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_QUANTITY',
+      DETAIL = format('Item %s is sold in steps of %s %s from %s %s; %s requested',
+        v_bad_quantity_line.merchant_item_id,
+        v_bad_quantity_line.quantity_step, v_bad_quantity_line.unit_type,
+        v_bad_quantity_line.min_quantity, v_bad_quantity_line.unit_type,
+        v_bad_quantity_line.quantity);
+  END IF;
+
+  -- Stock is tracked per item, so variant lines of the same item share it
+  SELECT merchant_item_id, available_quantity, SUM(quantity) AS quantity INTO v_short_line
+  FROM _priced_lines
+  WHERE available_quantity IS NOT NULL
+  GROUP BY merchant_item_id, available_quantity
+  HAVING SUM(quantity) > available_quantity
+  LIMIT 1;
+
+  IF v_short_line.merchant_item_id IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INSUFFICIENT_STOCK',
+      DETAIL = format('Item %s has %s available, %s requested',
+        v_short_line.merchant_item_id, v_short_line.available_quantity, v_short_line.quantity);
+  END IF;
+
+  SELECT COALESCE(SUM(round(item_price_cents * quantity)), 0)::INTEGER INTO v_subtotal_cents FROM _priced_lines;
+
+  v_distance := public.haversine_distance_meters(
+    v_address.latitude::DOUBLE PRECISION,
+    v_address.longitude::DOUBLE PRECISION,
+    v_shop.latitude,
+    v_shop.longitude
+  );
+
+  SELECT * INTO v_pricing FROM public.calculate_order_pricing(p_shop_id, v_subtotal_cents, v_distance);
+
+  -- Collected orders pay no delivery fee; the small-order surcharge still applies
+  v_delivery_fee_cents := CASE WHEN v_fulfilment_type = 'pickup' THEN 0 ELSE v_pricing.delivery_fee_cents END;
+
+  SELECT name, email INTO v_profile FROM public.user_profiles WHERE id = v_user_id;
+
+  INSERT INTO public.orders (
+    shop_id,
+    user_id,
+    consumer_address_id,
+    status,
+    subtotal_cents,
+    delivery_fee_cents,
+    surcharge_cents,
+    total_cents,
+    payment_method,
+    special_instructions,
+    delivery_address,
+    customer_name,
+    customer_email,
+    idempotency_key,
+    delivery_slot_id,
+    scheduled_for,
+    fulfilment_type,
+    pickup_code
+  ) VALUES (
+    p_shop_id,
+    v_user_id,
+    v_address.id,
+    'pending',
+    v_subtotal_cents,
+    v_delivery_fee_cents,
+    v_pricing.surcharge_cents,
+    v_subtotal_cents + v_delivery_fee_cents + v_pricing.surcharge_cents,
+    COALESCE(p_payment_method, 'cash'),
+    NULLIF(btrim(p_special_instructions), ''),
+    jsonb_build_object(
+      'id', v_address.id,
+      'title', v_address.title,
+      'street_address', v_address.street_address,
+      'city', v_address.city,
+      'region', v_address.region,
+      'latitude', v_address.latitude,
+      'longitude', v_address.longitude,
+      'landmark', v_address.landmark,
+      'formatted_address', v_address.formatted_address
+    ),
+    v_profile.name,
+    v_profile.email,
+    p_idempotency_key,
+    p_delivery_slot_id,
+    p_scheduled_for,
+    v_fulfilment_type,
+    CASE WHEN v_fulfilment_type = 'pickup' THEN lpad(floor(random() * 10000)::INTEGER::TEXT, 4, '0') END
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO public.order_items (
+    order_id,
+    merchant_item_id,
+    variant_id,
+    variant_name,
+    item_name,
+    item_description,
+    item_image_url,
+    item_price_cents,
+    unit_type,
+    quantity,
+    subtotal_cents,
+    substitution_preference
+  )
+  SELECT
+    v_order.id,
+    merchant_item_id,
+    variant_id,
+    variant_name,
+    item_name,
+    item_description,
+    item_image_url,
+    item_price_cents,
+    unit_type,
+    quantity,
+    round(item_price_cents * quantity)::INTEGER,
+    substitution_preference
+  FROM _priced_lines;
+
+  -- Reserve tracked stock until the order is delivered or cancelled
+  UPDATE public.merchant_items mi
+  SET reserved_quantity = mi.reserved_quantity + pl.quantity
+  FROM (
+    SELECT merchant_item_id, SUM(quantity) AS quantity
+    FROM _priced_lines
+    GROUP BY merchant_item_id
+  ) pl
+  WHERE mi.id = pl.merchant_item_id
+    AND mi.stock_quantity IS NOT NULL;
+
+  RETURN public.order_with_items_json(v_order.id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order(UUID, UUID, JSONB, payment_method, TEXT, TEXT, UUID, TIMESTAMPTZ, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.place_order IS 'Atomically and idempotently places an ASAP or slot-scheduled delivery or pickup order: locks item prices and slot capacity, recomputes totals from shop_delivery_logic and writes orders + order_items';
+
+-- ============================================================================
+-- place_order_group: per-shop fulfilment type
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.place_order_group(
+  p_consumer_address_id UUID,
+  p_shop_orders JSONB,
+  p_payment_method payment_method DEFAULT 'cash',
+  p_special_instructions TEXT DEFAULT NULL,
+  p_idempotency_key TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_group_id UUID;
+  v_shop_order JSONB;
+  v_shop_id UUID;
+  v_order JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'NOT_AUTHENTICATED';
+  END IF;
+
+  IF p_shop_orders IS NULL OR jsonb_typeof(p_shop_orders) <> 'array' OR jsonb_array_length(p_shop_orders) = 0 THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'EMPTY_ORDER';
+  END IF;
+
+  IF (SELECT COUNT(DISTINCT value->>'shop_id') FROM jsonb_array_elements(p_shop_orders)) <> jsonb_array_length(p_shop_orders) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'DUPLICATE_SHOP',
+      DETAIL = 'Each shop may appear only once in a grouped checkout';
+  END IF;
+
+  -- Replayed submission: return the group created by the first attempt
+  IF p_idempotency_key IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtextextended(v_user_id::TEXT || ':group:' || p_idempotency_key, 0));
+
+    SELECT id INTO v_group_id
+    FROM public.order_groups
+    WHERE user_id = v_user_id AND idempotency_key = p_idempotency_key;
+
+    IF v_group_id IS NOT NULL THEN
+      RETURN public.order_group_json(v_group_id);
+    END IF;
+  END IF;
+
+  INSERT INTO public.order_groups (user_id, consumer_address_id, payment_method, idempotency_key)
+  VALUES (v_user_id, p_consumer_address_id, p_payment_method, p_idempotency_key)
+  RETURNING id INTO v_group_id;
+
+  FOR v_shop_order IN SELECT value FROM jsonb_array_elements(p_shop_orders) LOOP
+    v_shop_id := (v_shop_order->>'shop_id')::UUID;
+
+    BEGIN
+      v_order := public.place_order(
+        v_shop_id,
+        p_consumer_address_id,
+        v_shop_order->'items',
+        p_payment_method,
+        p_special_instructions,
+        CASE WHEN p_idempotency_key IS NULL THEN NULL ELSE p_idempotency_key || ':' || v_shop_id::TEXT END,
+        NULLIF(v_shop_order->>'delivery_slot_id', '')::UUID,
+        NULLIF(v_shop_order->>'scheduled_for', '')::TIMESTAMPTZ,
+        COALESCE(NULLIF(v_shop_order->>'fulfilment_type', ''), 'delivery')
+      );
+    EXCEPTION WHEN OTHERS THEN
+      -- Keep place_order's error code as the message and name the shop it failed for.
+      -- Re-raising aborts the whole group, including orders already placed for other shops.
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = SQLERRM, HINT = v_shop_id::TEXT;
+    END;
+
+    UPDATE public.orders
+    SET order_group_id = v_group_id
+    WHERE id = (v_order->>'id')::UUID;
+  END LOOP;
+
+  RETURN public.order_group_json(v_group_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order_group(UUID, JSONB, payment_method, TEXT, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.place_order_group IS 'Atomically places one order per shop under a shared order group; fails as a whole if any shop''s order fails';
+
+-- ============================================================================
+-- verify_pickup_code
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.verify_pickup_code(
+  p_order_id UUID,
+  p_pickup_code TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_order public.orders%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'NOT_AUTHENTICATED';
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM public.shops s
+    JOIN public.merchant_accounts ma ON ma.id = s.merchant_id
+    WHERE s.id = v_order.shop_id
+      AND ma.user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ORDER_NOT_FOUND';
+  END IF;
+
+  IF v_order.fulfilment_type <> 'pickup' OR v_order.status <> 'ready_for_pickup' THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ORDER_NOT_READY_FOR_PICKUP',
+      DETAIL = format('Order %s is a %s order and is %s', p_order_id, v_order.fulfilment_type, v_order.status);
+  END IF;
+
+  IF v_order.pickup_code IS DISTINCT FROM btrim(p_pickup_code) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_PICKUP_CODE';
+  END IF;
+
+  -- Lets validate_order_status_transition accept the handover for this transaction only
+  PERFORM set_config('app.pickup_code_verified', 'on', true);
+
+  -- delivered_at is set by validate_order_status_transition
+  UPDATE public.orders SET status = 'delivered' WHERE id = p_order_id;
+
+  PERFORM set_config('app.pickup_code_verified', 'off', true);
+
+  RETURN public.order_with_items_json(p_order_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.verify_pickup_code(UUID, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.verify_pickup_code IS 'Hands a ready pickup order over to the customer once the code they show matches';
+
+-- ============================================================================
+-- update_pending_order_items: keep pickup orders free of a delivery fee
+-- ============================================================================
+-- p_items has the same shape as place_order's p_items and replaces every
+-- line of the order.
+
+CREATE OR REPLACE FUNCTION public.update_pending_order_items(
+  p_order_id UUID,
+  p_items JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_order public.orders%ROWTYPE;
+  v_requested_count INTEGER;
+  v_found_count INTEGER;
+  v_missing_item UUID;
+  v_inactive_item UUID;
+  v_variant_line RECORD;
+  v_bad_quantity_line RECORD;
+  v_short_line RECORD;
+  v_subtotal_cents INTEGER;
+  v_distance DOUBLE PRECISION;
+  v_pricing RECORD;
+  v_delivery_fee_cents INTEGER;
+  v_shop public.shops%ROWTYPE;
+  v_changes JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'NOT_AUTHENTICATED';
+  END IF;
+
+  -- The row lock serialises edits with the merchant confirming
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ORDER_NOT_FOUND';
+  END IF;
+
+  IF v_order.status <> 'pending' OR v_order.confirmation_started_at IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ORDER_NOT_EDITABLE',
+      DETAIL = format('Order %s is %s and can no longer be edited', p_order_id,
+        CASE WHEN v_order.status = 'pending' THEN 'being confirmed' ELSE v_order.status::TEXT END);
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'EMPTY_ORDER',
+      DETAIL = 'Cancel the order to remove every item';
+  END IF;
+
+  SELECT * INTO v_shop FROM public.shops WHERE id = v_order.shop_id;
+
+  -- Normalise requested lines (merge duplicates of the same item and variant)
+  DROP TABLE IF EXISTS _requested_lines;
+  CREATE TEMP TABLE _requested_lines ON COMMIT DROP AS
+  SELECT
+    (line ->> 'merchant_item_id')::UUID AS merchant_item_id,
+    NULLIF(line ->> 'variant_id', '')::UUID AS variant_id,
+    SUM((line ->> 'quantity')::NUMERIC) AS quantity,
+    COALESCE(MAX(NULLIF(line ->> 'substitution_preference', '')), 'substitute') AS substitution_preference
+  FROM jsonb_array_elements(p_items) AS line
+  GROUP BY (line ->> 'merchant_item_id')::UUID, NULLIF(line ->> 'variant_id', '')::UUID;
+
+  IF EXISTS (
+    SELECT 1 FROM _requested_lines
+    WHERE merchant_item_id IS NULL OR quantity IS NULL OR quantity <= 0 OR quantity <> round(quantity, 3)
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_QUANTITY';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM _requested_lines
+    WHERE substitution_preference NOT IN ('substitute', 'call_me', 'remove')
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_SUBSTITUTION_PREFERENCE';
+  END IF;
+
+  -- Summarise the edit before the old lines go
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'item_name', COALESCE(o.item_name, mi.name, it.name),
+    'variant_name', COALESCE(o.variant_name, v.name),
+    'unit_type', COALESCE(o.unit_type, mi.unit_type),
+    'previous_quantity', COALESCE(o.quantity, 0),
+    'new_quantity', COALESCE(r.quantity, 0)
+  )), '[]'::JSONB)
+  INTO v_changes
+  FROM (
+    SELECT merchant_item_id, variant_id, MAX(item_name) AS item_name, MAX(variant_name) AS variant_name,
+      MAX(unit_type) AS unit_type, SUM(quantity) AS quantity
+    FROM public.order_items
+    WHERE order_id = p_order_id
+    GROUP BY merchant_item_id, variant_id
+  ) o
+  FULL OUTER JOIN _requested_lines r
+    ON r.merchant_item_id = o.merchant_item_id
+   AND r.variant_id IS NOT DISTINCT FROM o.variant_id
+  LEFT JOIN public.merchant_items mi ON mi.id = r.merchant_item_id
+  LEFT JOIN public.item_templates it ON it.id = mi.template_id
+  LEFT JOIN public.merchant_item_variants v ON v.id = r.variant_id
+  WHERE COALESCE(o.quantity, 0) <> COALESCE(r.quantity, 0);
+
+  -- Give back what the current lines reserved before checking stock again
+  UPDATE public.merchant_items mi
+  SET reserved_quantity = GREATEST(mi.reserved_quantity - oi.quantity, 0)
+  FROM (
+    SELECT merchant_item_id, SUM(quantity) AS quantity
+    FROM public.order_items
+    WHERE order_id = p_order_id
+    GROUP BY merchant_item_id
+  ) oi
+  WHERE mi.id = oi.merchant_item_id
+    AND mi.stock_quantity IS NOT NULL;
+
+  DELETE FROM public.order_items WHERE order_id = p_order_id;
+
+  -- Lock item rows so prices and stock cannot change while the order is written
+  DROP TABLE IF EXISTS _priced_lines;
+  CREATE TEMP TABLE _priced_lines ON COMMIT DROP AS
+  SELECT
+    mi.id AS merchant_item_id,
+    rl.variant_id AS requested_variant_id,
+    v.id AS variant_id,
+    v.name AS variant_name,
+    v.is_active AS variant_is_active,
+    EXISTS (
+      SELECT 1 FROM public.merchant_item_variants av
+      WHERE av.merchant_item_id = mi.id AND av.is_active
+    ) AS has_active_variants,
+    COALESCE(mi.name, it.name, '') AS item_name,
+    COALESCE(mi.description, it.description) AS item_description,
+    COALESCE(mi.image_url, it.image_url) AS item_image_url,
+    COALESCE(v.price_cents, mi.price_cents) AS item_price_cents,
+    mi.is_active,
+    mi.available_quantity,
+    mi.unit_type,
+    mi.quantity_step,
+    mi.min_quantity,
+    rl.quantity AS quantity,
+    rl.substitution_preference
+  FROM _requested_lines rl
+  JOIN public.merchant_items mi ON mi.id = rl.merchant_item_id AND mi.shop_id = v_order.shop_id
+  LEFT JOIN public.item_templates it ON it.id = mi.template_id
+  LEFT JOIN public.merchant_item_variants v ON v.id = rl.variant_id AND v.merchant_item_id = mi.id
+  ORDER BY mi.id
+  FOR UPDATE OF mi;
+
+  SELECT COUNT(*) INTO v_requested_count FROM _requested_lines;
+  SELECT COUNT(*) INTO v_found_count FROM _priced_lines;
+
+  IF v_found_count < v_requested_count THEN
+    SELECT rl.merchant_item_id INTO v_missing_item
+    FROM _requested_lines rl
+    WHERE NOT EXISTS (SELECT 1 FROM _priced_lines pl WHERE pl.merchant_item_id = rl.merchant_item_id)
+    LIMIT 1;
+
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ITEM_NOT_FOUND',
+      DETAIL = format('Item %s does not belong to shop %s', v_missing_item, v_order.shop_id);
+  END IF;
+
+  SELECT merchant_item_id INTO v_inactive_item FROM _priced_lines WHERE NOT is_active LIMIT 1;
+
+  IF v_inactive_item IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ITEM_UNAVAILABLE',
+      DETAIL = format('Item %s is no longer available', v_inactive_item);
+  END IF;
+
+  -- A chosen variant must exist and be on sale; items with variants need one
+  SELECT merchant_item_id, requested_variant_id INTO v_variant_line
+  FROM _priced_lines
+  WHERE (requested_variant_id IS NOT NULL AND (variant_id IS NULL OR NOT variant_is_active))
+     OR (requested_variant_id IS NULL AND has_active_variants)
+  LIMIT 1;
+
+  IF v_variant_line.merchant_item_id IS NOT NULL THEN
+    IF v_variant_line.requested_variant_id IS NULL THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'VARIANT_REQUIRED',
+        DETAIL = format('Item %s must be ordered as one of its variants', v_variant_line.merchant_item_id);
+    END IF;
+
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'VARIANT_UNAVAILABLE',
+      DETAIL = format('Variant %s of item %s is not available',
+        v_variant_line.requested_variant_id, v_variant_line.merchant_item_id);
+  END IF;
+
+  -- Each line must respect the item's minimum and step (whole units for pieces)
+  SELECT merchant_item_id, quantity, unit_type, quantity_step, min_quantity INTO v_bad_quantity_line
+  FROM _priced_lines
+  WHERE quantity < min_quantity OR mod(quantity, quantity_step) <> 0
+  LIMIT 1;
+
+  IF v_bad_quantity_line.merchant_item_id IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_QUANTITY',
+      DETAIL = format('Item %s is sold in steps of %s %s from %s %s; %s requested',
+        v_bad_quantity_line.merchant_item_id,
+        v_bad_quantity_line.quantity_step, v_bad_quantity_line.unit_type,
+        v_bad_quantity_line.min_quantity, v_bad_quantity_line.unit_type,
+        v_bad_quantity_line.quantity);
+  END IF;
+
+  -- Stock is tracked per item, so variant lines of the same item share it
+  SELECT merchant_item_id, available_quantity, SUM(quantity) AS quantity INTO v_short_line
+  FROM _priced_lines
+  WHERE available_quantity IS NOT NULL
+  GROUP BY merchant_item_id, available_quantity
+  HAVING SUM(quantity) > available_quantity
+  LIMIT 1;
+
+  IF v_short_line.merchant_item_id IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INSUFFICIENT_STOCK',
+      DETAIL = format('Item %s has %s available, %s requested',
+        v_short_line.merchant_item_id, v_short_line.available_quantity, v_short_line.quantity);
+  END IF;
+
+  SELECT COALESCE(SUM(round(item_price_cents * quantity)), 0)::INTEGER INTO v_subtotal_cents FROM _priced_lines;
+
+  v_distance := public.haversine_distance_meters(
+    (v_order.delivery_address ->> 'latitude')::DOUBLE PRECISION,
+    (v_order.delivery_address ->> 'longitude')::DOUBLE PRECISION,
+    v_shop.latitude,
+    v_shop.longitude
+  );
+
+  SELECT * INTO v_pricing FROM public.calculate_order_pricing(v_order.shop_id, v_subtotal_cents, v_distance);
+  v_delivery_fee_cents := CASE WHEN v_order.fulfilment_type = 'pickup' THEN 0 ELSE v_pricing.delivery_fee_cents END;
+
+  INSERT INTO public.order_items (
+    order_id,
+    merchant_item_id,
+    variant_id,
+    variant_name,
+    item_name,
+    item_description,
+    item_image_url,
+    item_price_cents,
+    unit_type,
+    quantity,
+    subtotal_cents,
+    substitution_preference
+  )
+  SELECT
+    p_order_id,
+    merchant_item_id,
+    variant_id,
+    variant_name,
+    item_name,
+    item_description,
+    item_image_url,
+    item_price_cents,
+    unit_type,
+    quantity,
+    round(item_price_cents * quantity)::INTEGER,
+    substitution_preference
+  FROM _priced_lines;
+
+  -- Reserve tracked stock until the order is delivered or cancelled
+  UPDATE public.merchant_items mi
+  SET reserved_quantity = mi.reserved_quantity + pl.quantity
+  FROM (
+    SELECT merchant_item_id, SUM(quantity) AS quantity
+    FROM _priced_lines
+    GROUP BY merchant_item_id
+  ) pl
+  WHERE mi.id = pl.merchant_item_id
+    AND mi.stock_quantity IS NOT NULL;
+
+  INSERT INTO public.order_edits (
+    order_id,
+    changes,
+    previous_total_cents,
+    new_total_cents,
+    edited_by
+  ) VALUES (
+    p_order_id,
+    v_changes,
+    v_order.total_cents,
+    v_subtotal_cents + v_delivery_fee_cents + v_pricing.surcharge_cents,
+    v_user_id
+  );
+
+  UPDATE public.orders
+  SET
+    subtotal_cents = v_subtotal_cents,
+    delivery_fee_cents = v_delivery_fee_cents,
+    surcharge_cents = v_pricing.surcharge_cents,
+    total_cents = v_subtotal_cents + v_delivery_fee_cents + v_pricing.surcharge_cents,
+    last_edited_at = timezone('utc'::TEXT, now())
+  WHERE id = p_order_id;
+
+  RETURN public.order_with_items_json(p_order_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.update_pending_order_items(UUID, JSONB) TO authenticated;
+
+COMMENT ON FUNCTION public.update_pending_order_items IS 'Replaces the lines of a pending order, repricing it and recomputing delivery fee (none for pickup) and surcharge';
@@ -0,0 +1,12 @@
+-- ============================================================================
+-- PREPARING, READY AND REJECTED ORDER STATUSES
+-- ============================================================================
+-- Confirmed orders now move through 'preparing' and 'ready' before they are
+-- dispatched, and a merchant turning an order down ends it as 'rejected'
+-- rather than 'cancelled'. As with 042, the enum values are added on their
+-- own; 045 builds the lifecycle on top of them.
+-- ============================================================================
+
+ALTER TYPE order_status ADD VALUE IF NOT EXISTS 'preparing' AFTER 'confirmed';
+ALTER TYPE order_status ADD VALUE IF NOT EXISTS 'ready' AFTER 'preparing';
+ALTER TYPE order_status ADD VALUE IF NOT EXISTS 'rejected' AFTER 'cancelled';
@@ -0,0 +1,866 @@
+-- ============================================================================
+-- PREPARING / READY / REJECTED ORDER LIFECYCLE
+-- ============================================================================
+-- Between confirmation and dispatch the merchant can now show progress:
+--   * delivery orders move confirmed -> preparing -> ready ->
+--     out_for_delivery; preparing and ready are optional steps
+--   * pickup orders move confirmed -> preparing -> ready_for_pickup
+--     (ready_for_pickup already plays the part of ready)
+--   * a merchant turning down a pending order ends it as 'rejected' with a
+--     structured reason code instead of a free-text cancel; reject_order is
+--     the only way in, and rejected is terminal
+--   * rejected orders release their stock and delivery slot like cancelled
+--     ones, and weights can still be recorded while an order is preparing
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'orders' AND column_name = 'preparing_at') THEN
+    ALTER TABLE public.orders ADD COLUMN preparing_at TIMESTAMPTZ;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'orders' AND column_name = 'ready_at') THEN
+    ALTER TABLE public.orders ADD COLUMN ready_at TIMESTAMPTZ;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'orders' AND column_name = 'rejected_at') THEN
+    ALTER TABLE public.orders ADD COLUMN rejected_at TIMESTAMPTZ;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'orders' AND column_name = 'rejection_reason_code') THEN
+    ALTER TABLE public.orders ADD COLUMN rejection_reason_code TEXT;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'orders' AND column_name = 'rejection_note') THEN
+    ALTER TABLE public.orders ADD COLUMN rejection_note TEXT;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.table_constraints WHERE constraint_schema = 'public' AND table_name = 'orders' AND constraint_name = 'check_rejection_reason_code') THEN
+    ALTER TABLE public.orders ADD CONSTRAINT check_rejection_reason_code
+      CHECK (rejection_reason_code IS NULL OR rejection_reason_code IN (
+        'out_of_stock', 'shop_closed', 'too_busy', 'outside_delivery_area', 'other'
+      ));
+  END IF;
+END $$;
+
+COMMENT ON COLUMN public.orders.preparing_at IS 'When the merchant started preparing the order';
+COMMENT ON COLUMN public.orders.ready_at IS 'When a delivery order was packed and waiting for a runner';
+COMMENT ON COLUMN public.orders.rejected_at IS 'When the merchant rejected the order';
+COMMENT ON COLUMN public.orders.rejection_reason_code IS 'Why the merchant rejected the order: out_of_stock, shop_closed, too_busy, outside_delivery_area or other';
+COMMENT ON COLUMN public.orders.rejection_note IS 'Optional note to the customer explaining the rejection';
+
+ALTER TABLE public.orders DROP CONSTRAINT IF EXISTS valid_status_timestamps;
+ALTER TABLE public.orders ADD CONSTRAINT valid_status_timestamps CHECK (
+  (status = 'pending' AND confirmed_at IS NULL) OR
+  (status = 'confirmed' AND confirmed_at IS NOT NULL) OR
+  (status = 'preparing' AND confirmed_at IS NOT NULL AND preparing_at IS NOT NULL) OR
+  (status = 'ready' AND fulfilment_type = 'delivery'
+    AND confirmed_at IS NOT NULL AND ready_at IS NOT NULL) OR
+  (status = 'out_for_delivery' AND fulfilment_type = 'delivery'
+    AND confirmed_at IS NOT NULL AND out_for_delivery_at IS NOT NULL) OR
+  (status = 'ready_for_pickup' AND fulfilment_type = 'pickup'
+    AND confirmed_at IS NOT NULL AND ready_for_pickup_at IS NOT NULL) OR
+  (status = 'delivered' AND fulfilment_type = 'delivery'
+    AND confirmed_at IS NOT NULL AND out_for_delivery_at IS NOT NULL AND delivered_at IS NOT NULL) OR
+  (status = 'delivered' AND fulfilment_type = 'pickup'
+    AND confirmed_at IS NOT NULL AND ready_for_pickup_at IS NOT NULL AND delivered_at IS NOT NULL) OR
+  (status = 'cancelled' AND cancelled_at IS NOT NULL) OR
+  (status = 'rejected' AND confirmed_at IS NULL
+    AND rejected_at IS NOT NULL AND rejection_reason_code IS NOT NULL)
+);
+
+-- ============================================================================
+-- Status transitions and timings
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION validate_order_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Allow any transition if inserting
+  IF TG_OP = 'INSERT' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.fulfilment_type IS DISTINCT FROM OLD.fulfilment_type THEN
+    RAISE EXCEPTION 'Cannot change the fulfilment type of an existing order';
+  END IF;
+
+  -- Updates that leave the status alone (weights, confirmation lock) are not transitions
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- Define valid transitions
+  IF OLD.status = 'pending' THEN
+    IF NEW.status NOT IN ('confirmed', 'cancelled', 'rejected') THEN
+      RAISE EXCEPTION 'Invalid status transition from pending to %', NEW.status;
+    END IF;
+    -- Only reject_order turns an order down, so every rejection carries a reason
+    IF NEW.status = 'rejected' AND current_setting('app.order_rejection', true) IS DISTINCT FROM 'on' THEN
+      RAISE EXCEPTION 'Orders are rejected through reject_order';
+    END IF;
+  ELSIF OLD.status IN ('confirmed', 'preparing') THEN
+    IF OLD.fulfilment_type = 'pickup' AND NEW.status NOT IN ('preparing', 'ready_for_pickup', 'cancelled') THEN
+      RAISE EXCEPTION 'Invalid status transition from % to % for a pickup order', OLD.status, NEW.status;
+    ELSIF OLD.fulfilment_type = 'delivery' AND NEW.status NOT IN ('preparing', 'ready', 'out_for_delivery', 'cancelled') THEN
+      RAISE EXCEPTION 'Invalid status transition from % to %', OLD.status, NEW.status;
+    END IF;
+  ELSIF OLD.status = 'ready' THEN
+    IF NEW.status NOT IN ('out_for_delivery', 'cancelled') THEN
+      RAISE EXCEPTION 'Invalid status transition from ready to %', NEW.status;
+    END IF;
+  ELSIF OLD.status = 'out_for_delivery' THEN
+    IF NEW.status NOT IN ('delivered', 'cancelled') THEN
+      RAISE EXCEPTION 'Invalid status transition from out_for_delivery to %', NEW.status;
+    END IF;
+  ELSIF OLD.status = 'ready_for_pickup' THEN
+    IF NEW.status NOT IN ('delivered', 'cancelled') THEN
+      RAISE EXCEPTION 'Invalid status transition from ready_for_pickup to %', NEW.status;
+    END IF;
+    -- Only verify_pickup_code hands a pickup order over
+    IF NEW.status = 'delivered' AND current_setting('app.pickup_code_verified', true) IS DISTINCT FROM 'on' THEN
+      RAISE EXCEPTION 'Pickup orders are marked delivered by verifying the customer''s pickup code';
+    END IF;
+  ELSIF OLD.status IN ('delivered', 'cancelled', 'rejected') THEN
+    -- Terminal states - no transitions allowed
+    IF NEW.status != OLD.status THEN
+      RAISE EXCEPTION 'Cannot change status from terminal state %', OLD.status;
+    END IF;
+  END IF;
+
+  -- Set appropriate timestamp based on new status
+  IF NEW.status = 'confirmed' AND OLD.status = 'pending' THEN
+    NEW.confirmed_at := timezone('utc', now());
+  ELSIF NEW.status = 'preparing' AND OLD.status = 'confirmed' THEN
+    NEW.preparing_at := timezone('utc', now());
+  ELSIF NEW.status = 'ready' AND OLD.status IN ('confirmed', 'preparing') THEN
+    NEW.ready_at := timezone('utc', now());
+  ELSIF NEW.status = 'out_for_delivery' AND OLD.status IN ('confirmed', 'preparing', 'ready') THEN
+    NEW.out_for_delivery_at := timezone('utc', now());
+  ELSIF NEW.status = 'ready_for_pickup' AND OLD.status IN ('confirmed', 'preparing') THEN
+    NEW.ready_for_pickup_at := timezone('utc', now());
+  ELSIF NEW.status = 'delivered' AND OLD.status IN ('out_for_delivery', 'ready_for_pickup') THEN
+    NEW.delivered_at := timezone('utc', now());
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Preparation time runs from confirmation until the order is ready, ready for
+-- pickup or dispatched, whichever comes first; later steps leave it alone.
+CREATE OR REPLACE FUNCTION calculate_order_timings()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Calculate confirmation time
+  IF NEW.status = 'confirmed' AND OLD.status = 'pending' AND NEW.confirmed_at IS NOT NULL THEN
+    NEW.confirmation_time_seconds := EXTRACT(EPOCH FROM (NEW.confirmed_at - NEW.placed_at))::INTEGER;
+  END IF;
+
+  -- Calculate preparation time
+  IF OLD.status IN ('confirmed', 'preparing') THEN
+    IF NEW.status = 'ready' AND NEW.ready_at IS NOT NULL THEN
+      NEW.preparation_time_seconds := EXTRACT(EPOCH FROM (NEW.ready_at - NEW.confirmed_at))::INTEGER;
+    ELSIF NEW.status = 'out_for_delivery' AND NEW.out_for_delivery_at IS NOT NULL THEN
+      NEW.preparation_time_seconds := EXTRACT(EPOCH FROM (NEW.out_for_delivery_at - NEW.confirmed_at))::INTEGER;
+    ELSIF NEW.status = 'ready_for_pickup' AND NEW.ready_for_pickup_at IS NOT NULL THEN
+      NEW.preparation_time_seconds := EXTRACT(EPOCH FROM (NEW.ready_for_pickup_at - NEW.confirmed_at))::INTEGER;
+    END IF;
+  END IF;
+
+  -- Calculate delivery time
+  IF NEW.status = 'delivered' AND OLD.status = 'out_for_delivery' AND NEW.delivered_at IS NOT NULL THEN
+    NEW.delivery_time_seconds := EXTRACT(EPOCH FROM (NEW.delivered_at - NEW.out_for_delivery_at))::INTEGER;
+  END IF;
+
+  -- Handle cancellation - preserve existing timings
+  IF NEW.status = 'cancelled' AND OLD.status != 'cancelled' THEN
+    NEW.cancelled_at := timezone('utc', now());
+    -- Preserve any timings that were already calculated
+    NEW.confirmation_time_seconds := OLD.confirmation_time_seconds;
+    NEW.preparation_time_seconds := OLD.preparation_time_seconds;
+    NEW.delivery_time_seconds := OLD.delivery_time_seconds;
+  END IF;
+
+  -- Rejection only happens before confirmation, so there are no timings to keep
+  IF NEW.status = 'rejected' AND OLD.status != 'rejected' THEN
+    NEW.rejected_at := timezone('utc', now());
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- Stock and slot capacity: rejected orders release them like cancelled ones
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.apply_order_stock_movements()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IN ('cancelled', 'rejected') AND OLD.status NOT IN ('cancelled', 'rejected', 'delivered') THEN
+    UPDATE public.merchant_items mi
+    SET reserved_quantity = GREATEST(mi.reserved_quantity - oi.quantity, 0)
+    FROM (
+      SELECT merchant_item_id, SUM(quantity) AS quantity
+      FROM public.order_items
+      WHERE order_id = NEW.id AND fulfilment_status = 'fulfilled'
+      GROUP BY merchant_item_id
+    ) oi
+    WHERE mi.id = oi.merchant_item_id
+      AND mi.stock_quantity IS NOT NULL;
+  ELSIF NEW.status = 'delivered' AND OLD.status <> 'delivered' THEN
+    UPDATE public.merchant_items mi
+    SET
+      stock_quantity = GREATEST(mi.stock_quantity - oi.quantity, 0),
+      reserved_quantity = GREATEST(mi.reserved_quantity - oi.quantity, 0)
+    FROM (
+      SELECT merchant_item_id, SUM(quantity) AS quantity
+      FROM public.order_items
+      WHERE order_id = NEW.id AND fulfilment_status = 'fulfilled'
+      GROUP BY merchant_item_id
+    ) oi
+    WHERE mi.id = oi.merchant_item_id
+      AND mi.stock_quantity IS NOT NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_delivery_slot_availability(
+  p_shop_id UUID,
+  p_days INTEGER DEFAULT 7
+)
+RETURNS TABLE (
+  slot_id UUID,
+  starts_at TIMESTAMPTZ,
+  ends_at TIMESTAMPTZ,
+  max_orders INTEGER,
+  booked_orders INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH days AS (
+    SELECT (timezone(s.timezone, now())::DATE + offs) AS local_date, s.timezone
+    FROM public.shops s
+    CROSS JOIN generate_series(0, GREATEST(LEAST(p_days, 14), 1) - 1) AS offs
+    WHERE s.id = p_shop_id
+  ),
+  occurrences AS (
+    SELECT
+      ds.id AS slot_id,
+      timezone(d.timezone, d.local_date + ds.start_time) AS starts_at,
+      timezone(d.timezone, d.local_date + ds.end_time) AS ends_at,
+      ds.max_orders
+    FROM days d
+    JOIN public.shop_delivery_slots ds
+      ON ds.shop_id = p_shop_id
+     AND ds.is_active
+     AND ds.day_of_week = EXTRACT(DOW FROM d.local_date)
+  )
+  SELECT
+    oc.slot_id,
+    oc.starts_at,
+    oc.ends_at,
+    oc.max_orders,
+    (
+      SELECT COUNT(*)::INTEGER FROM public.orders o
+      WHERE o.delivery_slot_id = oc.slot_id
+        AND o.scheduled_for = oc.starts_at
+        AND o.status NOT IN ('cancelled', 'rejected')
+    ) AS booked_orders
+  FROM occurrences oc
+  WHERE oc.starts_at > now()
+  ORDER BY oc.starts_at;
+$$;
+
+-- ============================================================================
+-- Packed weights: allowed until the order is ready or dispatched
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.adjust_order_item_quantities(
+  p_order_id UUID,
+  p_lines JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tolerance CONSTANT NUMERIC := 0.10;
+  v_user_id UUID := auth.uid();
+  v_order public.orders%ROWTYPE;
+  v_line JSONB;
+  v_item public.order_items%ROWTYPE;
+  v_quantity NUMERIC;
+  v_ordered_quantity NUMERIC;
+  v_line_subtotal INTEGER;
+  v_subtotal_cents INTEGER;
+  v_changed BOOLEAN := FALSE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'NOT_AUTHENTICATED';
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM public.shops s
+    JOIN public.merchant_accounts ma ON ma.id = s.merchant_id
+    WHERE s.id = v_order.shop_id
+      AND ma.user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ORDER_NOT_FOUND';
+  END IF;
+
+  IF v_order.status NOT IN ('confirmed', 'preparing') THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ORDER_NOT_ADJUSTABLE',
+      DETAIL = format('Order %s is %s; weights can only be recorded before dispatch', p_order_id, v_order.status);
+  END IF;
+
+  IF p_lines IS NULL OR jsonb_typeof(p_lines) <> 'array' THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_QUANTITY';
+  END IF;
+
+  FOR v_line IN SELECT value FROM jsonb_array_elements(p_lines)
+  LOOP
+    SELECT * INTO v_item
+    FROM public.order_items
+    WHERE id = (v_line ->> 'order_item_id')::UUID
+      AND order_id = p_order_id
+      AND fulfilment_status = 'fulfilled'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ITEM_NOT_FOUND',
+        DETAIL = format('Line %s is not a delivered line of order %s', v_line ->> 'order_item_id', p_order_id);
+    END IF;
+
+    IF v_item.unit_type NOT IN ('kg', 'litre') THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'LINE_NOT_WEIGHED',
+        DETAIL = format('Line %s is sold by the piece', v_item.id);
+    END IF;
+
+    v_quantity := round((v_line ->> 'quantity')::NUMERIC, 3);
+    v_ordered_quantity := COALESCE(v_item.ordered_quantity, v_item.quantity);
+
+    IF v_quantity IS NULL OR v_quantity <= 0
+       OR abs(v_quantity - v_ordered_quantity) > v_ordered_quantity * v_tolerance THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ADJUSTMENT_OUT_OF_TOLERANCE',
+        DETAIL = format('Line %s was ordered as %s %s; %s is outside the allowed range',
+          v_item.id, v_ordered_quantity, v_item.unit_type, v_line ->> 'quantity');
+    END IF;
+
+    CONTINUE WHEN v_quantity = v_item.quantity;
+
+    v_line_subtotal := round(v_item.item_price_cents * v_quantity)::INTEGER;
+
+    INSERT INTO public.order_item_adjustments (
+      order_id,
+      order_item_id,
+      previous_quantity,
+      adjusted_quantity,
+      previous_subtotal_cents,
+      adjusted_subtotal_cents,
+      adjusted_by
+    ) VALUES (
+      p_order_id,
+      v_item.id,
+      v_item.quantity,
+      v_quantity,
+      v_item.subtotal_cents,
+      v_line_subtotal,
+      v_user_id
+    );
+
+    UPDATE public.order_items
+    SET
+      ordered_quantity = COALESCE(ordered_quantity, quantity),
+      ordered_subtotal_cents = COALESCE(ordered_subtotal_cents, subtotal_cents),
+      quantity = v_quantity,
+      subtotal_cents = v_line_subtotal
+    WHERE id = v_item.id;
+
+    -- Keep the stock reservation in line with what was actually packed
+    UPDATE public.merchant_items
+    SET reserved_quantity = GREATEST(reserved_quantity + (v_quantity - v_item.quantity), 0)
+    WHERE id = v_item.merchant_item_id
+      AND stock_quantity IS NOT NULL;
+
+    v_changed := TRUE;
+  END LOOP;
+
+  IF v_changed THEN
+    SELECT COALESCE(SUM(subtotal_cents), 0)::INTEGER INTO v_subtotal_cents
+    FROM public.order_items
+    WHERE order_id = p_order_id AND fulfilment_status = 'fulfilled';
+
+    UPDATE public.orders
+    SET
+      original_subtotal_cents = COALESCE(original_subtotal_cents, subtotal_cents),
+      original_total_cents = COALESCE(original_total_cents, total_cents),
+      subtotal_cents = v_subtotal_cents,
+      total_cents = v_subtotal_cents + delivery_fee_cents + surcharge_cents,
+      weight_adjusted_at = timezone('utc'::TEXT, now())
+    WHERE id = p_order_id;
+  END IF;
+
+  RETURN public.order_with_items_json(p_order_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.adjust_order_item_quantities(UUID, JSONB) TO authenticated;
+
+COMMENT ON FUNCTION public.adjust_order_item_quantities IS 'Records packed weights for kg/litre lines before dispatch and reprices the order';
+
+-- ============================================================================
+-- place_order: rejected orders free their delivery slot
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_shop_id UUID,
+  p_consumer_address_id UUID,
+  p_items JSONB,
+  p_payment_method payment_method DEFAULT 'cash',
+  p_special_instructions TEXT DEFAULT NULL,
+  p_idempotency_key TEXT DEFAULT NULL,
+  p_delivery_slot_id UUID DEFAULT NULL,
+  p_scheduled_for TIMESTAMPTZ DEFAULT NULL,
+  p_fulfilment_type TEXT DEFAULT 'delivery'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_address public.consumer_addresses%ROWTYPE;
+  v_shop public.shops%ROWTYPE;
+  v_profile RECORD;
+  v_requested_count INTEGER;
+  v_found_count INTEGER;
+  v_missing_item UUID;
+  v_inactive_item UUID;
+  v_variant_line RECORD;
+  v_bad_quantity_line RECORD;
+  v_short_line RECORD;
+  v_subtotal_cents INTEGER;
+  v_distance DOUBLE PRECISION;
+  v_pricing RECORD;
+  v_order public.orders%ROWTYPE;
+  v_existing_order_id UUID;
+  v_slot public.shop_delivery_slots%ROWTYPE;
+  v_slot_local TIMESTAMP;
+  v_slot_booked INTEGER;
+  v_fulfilment_type TEXT := COALESCE(p_fulfilment_type, 'delivery');
+  v_delivery_fee_cents INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'NOT_AUTHENTICATED';
+  END IF;
+
+  -- Replayed submission: return the order created by the first attempt.
+  -- The advisory lock serialises concurrent retries carrying the same key.
+  IF p_idempotency_key IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtextextended(v_user_id::TEXT || ':' || p_idempotency_key, 0));
+
+    SELECT id INTO v_existing_order_id
+    FROM public.orders
+    WHERE user_id = v_user_id AND idempotency_key = p_idempotency_key;
+
+    IF v_existing_order_id IS NOT NULL THEN
+      RETURN public.order_with_items_json(v_existing_order_id);
+    END IF;
+  END IF;
+
+  -- Address must exist and belong to the caller
+  SELECT * INTO v_address
+  FROM public.consumer_addresses
+  WHERE id = p_consumer_address_id AND user_id = v_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ADDRESS_NOT_FOUND',
+      DETAIL = format('Address %s not found for user', p_consumer_address_id);
+  END IF;
+
+  IF v_address.street_address IS NULL OR v_address.city IS NULL
+     OR v_address.latitude IS NULL OR v_address.longitude IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ADDRESS_INVALID',
+      DETAIL = 'Address is missing street, city or coordinates';
+  END IF;
+
+  SELECT * INTO v_shop FROM public.shops WHERE id = p_shop_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SHOP_NOT_FOUND';
+  END IF;
+
+  IF v_fulfilment_type NOT IN ('delivery', 'pickup') THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_FULFILMENT_TYPE';
+  END IF;
+
+  IF v_fulfilment_type = 'pickup' AND NOT EXISTS (
+    SELECT 1 FROM public.shop_delivery_logic
+    WHERE shop_id = p_shop_id AND pickup_enabled
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'PICKUP_UNAVAILABLE',
+      DETAIL = format('Shop %s does not offer pickup', p_shop_id);
+  END IF;
+
+  -- Scheduled orders may be placed while the shop is closed
+  IF v_shop.is_open IS DISTINCT FROM TRUE AND p_delivery_slot_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SHOP_CLOSED';
+  END IF;
+
+  IF p_delivery_slot_id IS NOT NULL THEN
+    -- Lock the slot so concurrent bookings of its last place are serialised
+    SELECT * INTO v_slot
+    FROM public.shop_delivery_slots
+    WHERE id = p_delivery_slot_id AND shop_id = p_shop_id AND is_active
+    FOR UPDATE;
+
+    IF NOT FOUND OR p_scheduled_for IS NULL
+       OR p_scheduled_for <= now() OR p_scheduled_for > now() + INTERVAL '14 days' THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SLOT_UNAVAILABLE',
+        DETAIL = format('Slot %s is not bookable for %s', p_delivery_slot_id, p_scheduled_for);
+    END IF;
+
+    -- scheduled_for must be an occurrence of the slot in the shop's timezone
+    v_slot_local := timezone(v_shop.timezone, p_scheduled_for);
+
+    IF EXTRACT(DOW FROM v_slot_local) <> v_slot.day_of_week OR v_slot_local::TIME <> v_slot.start_time THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SLOT_UNAVAILABLE',
+        DETAIL = format('%s is not a start time of slot %s', p_scheduled_for, p_delivery_slot_id);
+    END IF;
+
+    SELECT COUNT(*) INTO v_slot_booked
+    FROM public.orders
+    WHERE delivery_slot_id = v_slot.id
+      AND scheduled_for = p_scheduled_for
+      AND status NOT IN ('cancelled', 'rejected');
+
+    IF v_slot_booked >= v_slot.max_orders THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SLOT_FULL',
+        DETAIL = format('Slot %s at %s already has %s of %s orders',
+          p_delivery_slot_id, p_scheduled_for, v_slot_booked, v_slot.max_orders);
+    END IF;
+  ELSIF p_scheduled_for IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SLOT_UNAVAILABLE',
+      DETAIL = 'Scheduled orders must name a delivery slot';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'EMPTY_ORDER';
+  END IF;
+
+  -- Normalise requested lines (merge duplicates of the same item and variant)
+  DROP TABLE IF EXISTS _requested_lines;
+  CREATE TEMP TABLE _requested_lines ON COMMIT DROP AS
+  SELECT
+    (line ->> 'merchant_item_id')::UUID AS merchant_item_id,
+    NULLIF(line ->> 'variant_id', '')::UUID AS variant_id,
+    SUM((line ->> 'quantity')::NUMERIC) AS quantity,
+    COALESCE(MAX(NULLIF(line ->> 'substitution_preference', '')), 'substitute') AS substitution_preference
+  FROM jsonb_array_elements(p_items) AS line
+  GROUP BY (line ->> 'merchant_item_id')::UUID, NULLIF(line ->> 'variant_id', '')::UUID;
+
+  IF EXISTS (
+    SELECT 1 FROM _requested_lines
+    WHERE merchant_item_id IS NULL OR quantity IS NULL OR quantity <= 0 OR quantity <> round(quantity, 3)
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_QUANTITY';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM _requested_lines
+    WHERE substitution_preference NOT IN ('substitute', 'call_me', 'remove')
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_SUBSTITUTION_PREFERENCE';
+  END IF;
+
+  -- Lock item rows so prices and stock cannot change while the order is written
+  DROP TABLE IF EXISTS _priced_lines;
+  CREATE TEMP TABLE _priced_lines ON COMMIT DROP AS
+  SELECT
+    mi.id AS merchant_item_id,
+    rl.variant_id AS requested_variant_id,
+    v.id AS variant_id,
+    v.name AS variant_name,
+    v.is_active AS variant_is_active,
+    EXISTS (
+      SELECT 1 FROM public.merchant_item_variants av
+      WHERE av.merchant_item_id = mi.id AND av.is_active
+    ) AS has_active_variants,
+    COALESCE(mi.name, it.name, '') AS item_name,
+    COALESCE(mi.description, it.description) AS item_description,
+    COALESCE(mi.image_url, it.image_url) AS item_image_url,
+    COALESCE(v.price_cents, mi.price_cents) AS item_price_cents,
+    mi.is_active,
+    mi.available_quantity,
+    mi.unit_type,
+    mi.quantity_step,
+    mi.min_quantity,
+    rl.quantity AS quantity,
+    rl.substitution_preference
+  FROM _requested_lines rl
+  JOIN public.merchant_items mi ON mi.id = rl.merchant_item_id AND mi.shop_id = p_shop_id
+  LEFT JOIN public.item_templates it ON it.id = mi.template_id
+  LEFT JOIN public.merchant_item_variants v ON v.id = rl.variant_id AND v.merchant_item_id = mi.id
+  ORDER BY mi.id
+  FOR UPDATE OF mi;
+
+  SELECT COUNT(*) INTO v_requested_count FROM _requested_lines;
+  SELECT COUNT(*) INTO v_found_count FROM _priced_lines;
+
+  IF v_found_count < v_requested_count THEN
+    SELECT rl.merchant_item_id INTO v_missing_item
+    FROM _requested_lines rl
+    WHERE NOT EXISTS (SELECT 1 FROM _priced_lines pl WHERE pl.merchant_item_id = rl.merchant_item_id)
+    LIMIT 1;
+
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ITEM_NOT_FOUND',
+      DETAIL = format('Item %s does not belong to shop %s', v_missing_item, p_shop_id);
+  END IF;
+
+  SELECT merchant_item_id INTO v_inactive_item FROM _priced_lines WHERE NOT is_active LIMIT 1;
+
+  IF v_inactive_item IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ITEM_UNAVAILABLE',
+      DETAIL = format('Item %s is no longer available', v_inactive_item);
+  END IF;
+
+  -- A chosen variant must exist and be on sale; items with variants need one
+  SELECT merchant_item_id, requested_variant_id INTO v_variant_line
+  FROM _priced_lines
+  WHERE (requested_variant_id IS NOT NULL AND (variant_id IS NULL OR NOT variant_is_active))
+     OR (requested_variant_id IS NULL AND has_active_variants)
+  LIMIT 1;
+
+  IF v_variant_line.merchant_item_id IS NOT NULL THEN
+    IF v_variant_line.requested_variant_id IS NULL THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'VARIANT_REQUIRED',
+        DETAIL = format('Item %s must be ordered as one of its variants', v_variant_line.merchant_item_id);
+    END IF;
+
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'VARIANT_UNAVAILABLE',
+      DETAIL = format('Variant %s of item %s is not available',
+        v_variant_line.requested_variant_id, v_variant_line.merchant_item_id);
+  END IF;
+
+  -- Each line must respect the item's minimum and step (whole units for pieces)
+  SELECT merchant_item_id, quantity, unit_type, quantity_step, min_quantity INTO v_bad_quantity_line
+  FROM _priced_lines
+  WHERE quantity < min_quantity OR mod(quantity, quantity_step) <> 0
+  LIMIT 1;
+
+  IF v_bad_quantity_line.merchant_item_id IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_QUANTITY',
+      DETAIL = format('Item %s is sold in steps of %s %s from %s %s; %s requested',
+        v_bad_quantity_line.merchant_item_id,
+        v_bad_quantity_line.quantity_step, v_bad_quantity_line.unit_type,
+        v_bad_quantity_line.min_quantity, v_bad_quantity_line.unit_type,
+        v_bad_quantity_line.quantity);
+  END IF;
+
+  -- Stock is tracked per item, so variant lines of the same item share it
+  SELECT merchant_item_id, available_quantity, SUM(quantity) AS quantity INTO v_short_line
+  FROM _priced_lines
+  WHERE available_quantity IS NOT NULL
+  GROUP BY merchant_item_id, available_quantity
+  HAVING SUM(quantity) > available_quantity
+  LIMIT 1;
+
+  IF v_short_line.merchant_item_id IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INSUFFICIENT_STOCK',
+      DETAIL = format('Item %s has %s available, %s requested',
+        v_short_line.merchant_item_id, v_short_line.available_quantity, v_short_line.quantity);
+  END IF;
+
+  SELECT COALESCE(SUM(round(item_price_cents * quantity)), 0)::INTEGER INTO v_subtotal_cents FROM _priced_lines;
+
+  v_distance := public.haversine_distance_meters(
+    v_address.latitude::DOUBLE PRECISION,
+    v_address.longitude::DOUBLE PRECISION,
+    v_shop.latitude,
+    v_shop.longitude
+  );
+
+  SELECT * INTO v_pricing FROM public.calculate_order_pricing(p_shop_id, v_subtotal_cents, v_distance);
+
+  -- Collected orders pay no delivery fee; the small-order surcharge still applies
+  v_delivery_fee_cents := CASE WHEN v_fulfilment_type = 'pickup' THEN 0 ELSE v_pricing.delivery_fee_cents END;
+
+  SELECT name, email INTO v_profile FROM public.user_profiles WHERE id = v_user_id;
+
+  INSERT INTO public.orders (
+    shop_id,
+    user_id,
+    consumer_address_id,
+    status,
+    subtotal_cents,
+    delivery_fee_cents,
+    surcharge_cents,
+    total_cents,
+    payment_method,
+    special_instructions,
+    delivery_address,
+    customer_name,
+    customer_email,
+    idempotency_key,
+    delivery_slot_id,
+    scheduled_for,
+    fulfilment_type,
+    pickup_code
+  ) VALUES (
+    p_shop_id,
+    v_user_id,
+    v_address.id,
+    'pending',
+    v_subtotal_cents,
+    v_delivery_fee_cents,
+    v_pricing.surcharge_cents,
+    v_subtotal_cents + v_delivery_fee_cents + v_pricing.surcharge_cents,
+    COALESCE(p_payment_method, 'cash'),
+    NULLIF(btrim(p_special_instructions), ''),
+    jsonb_build_object(
+      'id', v_address.id,
+      'title', v_address.title,
+      'street_address', v_address.street_address,
+      'city', v_address.city,
+      'region', v_address.region,
+      'latitude', v_address.latitude,
+      'longitude', v_address.longitude,
+      'landmark', v_address.landmark,
+      'formatted_address', v_address.formatted_address
+    ),
+    v_profile.name,
+    v_profile.email,
+    p_idempotency_key,
+    p_delivery_slot_id,
+    p_scheduled_for,
+    v_fulfilment_type,
+    CASE WHEN v_fulfilment_type = 'pickup' THEN lpad(floor(random() * 10000)::INTEGER::TEXT, 4, '0') END
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO public.order_items (
+    order_id,
+    merchant_item_id,
+    variant_id,
+    variant_name,
+    item_name,
+    item_description,
+    item_image_url,
+    item_price_cents,
+    unit_type,
+    quantity,
+    subtotal_cents,
+    substitution_preference
+  )
+  SELECT
+    v_order.id,
+    merchant_item_id,
+    variant_id,
+    variant_name,
+    item_name,
+    item_description,
+    item_image_url,
+    item_price_cents,
+    unit_type,
+    quantity,
+    round(item_price_cents * quantity)::INTEGER,
+    substitution_preference
+  FROM _priced_lines;
+
+  -- Reserve tracked stock until the order is delivered or cancelled
+  UPDATE public.merchant_items mi
+  SET reserved_quantity = mi.reserved_quantity + pl.quantity
+  FROM (
+    SELECT merchant_item_id, SUM(quantity) AS quantity
+    FROM _priced_lines
+    GROUP BY merchant_item_id
+  ) pl
+  WHERE mi.id = pl.merchant_item_id
+    AND mi.stock_quantity IS NOT NULL;
+
+  RETURN public.order_with_items_json(v_order.id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order(UUID, UUID, JSONB, payment_method, TEXT, TEXT, UUID, TIMESTAMPTZ, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.place_order IS 'Atomically and idempotently places an ASAP or slot-scheduled delivery or pickup order: locks item prices and slot capacity, recomputes totals from shop_delivery_logic and writes orders + order_items';
+
+-- ============================================================================
+-- reject_order
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.reject_order(
+  p_order_id UUID,
+  p_reason_code TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_order public.orders%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'NOT_AUTHENTICATED';
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM public.shops s
+    JOIN public.merchant_accounts ma ON ma.id = s.merchant_id
+    WHERE s.id = v_order.shop_id
+      AND ma.user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ORDER_NOT_FOUND';
+  END IF;
+
+  IF p_reason_code IS NULL OR p_reason_code NOT IN ('out_of_stock', 'shop_closed', 'too_busy', 'outside_delivery_area', 'other') THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_REJECTION_REASON',
+      DETAIL = format('%s is not a rejection reason', p_reason_code);
+  END IF;
+
+  IF v_order.status <> 'pending' THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ORDER_NOT_PENDING',
+      DETAIL = format('Order %s is %s; only pending orders can be rejected', p_order_id, v_order.status);
+  END IF;
+
+  -- Lets validate_order_status_transition accept the rejection for this transaction only
+  PERFORM set_config('app.order_rejection', 'on', true);
+
+  -- rejected_at is set by calculate_order_timings; stock is released by apply_order_stock_movements
+  UPDATE public.orders
+  SET
+    status = 'rejected',
+    rejection_reason_code = p_reason_code,
+    rejection_note = NULLIF(btrim(p_note), '')
+  WHERE id = p_order_id;
+
+  PERFORM set_config('app.order_rejection', 'off', true);
+
+  RETURN public.order_with_items_json(p_order_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reject_order(UUID, TEXT, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.reject_order IS 'Turns down a pending order with a structured reason code; the only way an order becomes rejected';
@@ -0,0 +1,966 @@
+-- ============================================================================
+-- CARD AND WALLET PAYMENTS
+-- ============================================================================
+-- Card and wallet orders used to be handled as cash. They now carry a
+-- payment intent that follows the order:
+--   * placing a card/wallet order creates it with payment_status 'pending';
+--     the app authorizes the amount through its payment provider and
+--     records the result, and a failed authorization cancels the order
+--   * orders still unauthorized after 15 minutes are cancelled by
+--     expire_unauthorized_orders() (every 5 minutes with pg_cron)
+--   * a merchant cannot confirm an order until its payment is authorized
+--   * payment_method and payment_status only change through the payment
+--     functions (orders_protect_payment_columns)
+--   * the order total can never grow past the authorized amount, and
+--     customers cannot edit a card/wallet order (they cancel and reorder)
+--   * the authorized amount is captured once the order is delivered, and
+--     voided when the order is cancelled or rejected: the status change
+--     queues a payment_tasks row that the edge function works off, retrying
+--     with backoff; merchants can see a task's last error
+--   * subscription repeats are placed with nobody at checkout to authorize
+--     them, so subscriptions stay cash only (order_subscriptions_cash_only)
+-- Provider calls are made by the order-payments edge function, which is the
+-- only caller of record_payment_event(): the browser can ask for a payment
+-- to be authorized or for an order's queued tasks to run, but never report
+-- a result itself.
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'orders' AND column_name = 'payment_status') THEN
+    ALTER TABLE public.orders ADD COLUMN payment_status TEXT NOT NULL DEFAULT 'not_required';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.table_constraints WHERE constraint_schema = 'public' AND table_name = 'orders' AND constraint_name = 'check_payment_status') THEN
+    ALTER TABLE public.orders ADD CONSTRAINT check_payment_status
+      CHECK (payment_status IN ('not_required', 'pending', 'authorized', 'captured', 'voided', 'failed'));
+  END IF;
+END $$;
+
+COMMENT ON COLUMN public.orders.payment_status IS 'not_required for cash; otherwise the state of the order''s payment intent';
+
+CREATE TABLE IF NOT EXISTS public.payment_intents (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  order_id UUID NOT NULL UNIQUE REFERENCES public.orders(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  payment_method payment_method NOT NULL,
+  amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+  captured_amount_cents INTEGER,
+  status TEXT NOT NULL DEFAULT 'requires_authorization'
+    CHECK (status IN ('requires_authorization', 'authorized', 'captured', 'voided', 'failed')),
+  provider_reference TEXT,
+  failure_reason TEXT,
+  authorized_at TIMESTAMPTZ,
+  captured_at TIMESTAMPTZ,
+  voided_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc'::TEXT, now()),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc'::TEXT, now()),
+  CONSTRAINT payment_intents_capture_within_authorization
+    CHECK (captured_amount_cents IS NULL OR captured_amount_cents BETWEEN 0 AND amount_cents)
+);
+
+CREATE INDEX IF NOT EXISTS payment_intents_user_idx ON public.payment_intents (user_id, created_at DESC);
+
+COMMENT ON TABLE public.payment_intents IS 'Card and wallet payment for an order: authorized at checkout, captured on delivery, voided on cancel';
+COMMENT ON COLUMN public.payment_intents.amount_cents IS 'Authorized amount: the order total plus headroom for packed weights';
+
+DROP TRIGGER IF EXISTS payment_intents_touch ON public.payment_intents;
+CREATE TRIGGER payment_intents_touch
+  BEFORE UPDATE ON public.payment_intents
+  FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+ALTER TABLE public.payment_intents ENABLE ROW LEVEL SECURITY;
+
+-- Intents are only written through create_payment_intent / record_payment_event
+DROP POLICY IF EXISTS payment_intents_consumer_select ON public.payment_intents;
+CREATE POLICY payment_intents_consumer_select ON public.payment_intents
+  FOR SELECT USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS payment_intents_merchant_select ON public.payment_intents;
+CREATE POLICY payment_intents_merchant_select ON public.payment_intents
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.orders o
+      JOIN public.shops s ON s.id = o.shop_id
+      JOIN public.merchant_accounts ma ON ma.id = s.merchant_id
+      WHERE o.id = payment_intents.order_id
+        AND ma.user_id = auth.uid()
+    )
+  );
+
+GRANT SELECT ON public.payment_intents TO authenticated;
+
+-- ============================================================================
+-- Order payment status
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.set_order_payment_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.payment_status := CASE WHEN NEW.payment_method = 'cash' THEN 'not_required' ELSE 'pending' END;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_set_payment_status ON public.orders;
+CREATE TRIGGER orders_set_payment_status
+  BEFORE INSERT ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.set_order_payment_status();
+
+CREATE OR REPLACE FUNCTION public.require_order_payment_authorization()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'confirmed' AND OLD.status = 'pending'
+     AND NEW.payment_status NOT IN ('not_required', 'authorized') THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'PAYMENT_NOT_AUTHORIZED',
+      DETAIL = format('Order %s payment is %s', NEW.id, NEW.payment_status);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_require_payment_authorization ON public.orders;
+CREATE TRIGGER orders_require_payment_authorization
+  BEFORE UPDATE ON public.orders
+  FOR EACH ROW
+  WHEN (NEW.status IS DISTINCT FROM OLD.status)
+  EXECUTE FUNCTION public.require_order_payment_authorization();
+
+-- Merchants update their orders directly, so without this a merchant could
+-- mark a card order authorized and confirm it. The functions that move a
+-- payment along set app.order_payment_write around their updates.
+CREATE OR REPLACE FUNCTION public.protect_order_payment_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_setting('app.order_payment_write', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'PAYMENT_READ_ONLY',
+      DETAIL = format('Order %s payment can only change through its payment intent', NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_protect_payment_columns ON public.orders;
+CREATE TRIGGER orders_protect_payment_columns
+  BEFORE UPDATE ON public.orders
+  FOR EACH ROW
+  WHEN (
+    NEW.payment_status IS DISTINCT FROM OLD.payment_status
+    OR NEW.payment_method IS DISTINCT FROM OLD.payment_method
+  )
+  EXECUTE FUNCTION public.protect_order_payment_columns();
+
+-- ============================================================================
+-- create_payment_intent
+-- ============================================================================
+-- Packed weights may raise the total by up to 10% of the weighed lines
+-- (see adjust_order_item_quantities), so that much is authorized on top.
+
+CREATE OR REPLACE FUNCTION public.create_payment_intent(
+  p_order_id UUID,
+  p_provider TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_order public.orders%ROWTYPE;
+  v_intent public.payment_intents%ROWTYPE;
+  v_weighed_subtotal INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'NOT_AUTHENTICATED';
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR v_order.user_id <> v_user_id THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ORDER_NOT_FOUND';
+  END IF;
+
+  IF v_order.payment_method = 'cash' THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'PAYMENT_NOT_REQUIRED';
+  END IF;
+
+  -- Retried checkout: keep the intent from the first attempt
+  SELECT * INTO v_intent FROM public.payment_intents WHERE order_id = p_order_id;
+  IF FOUND THEN
+    RETURN to_jsonb(v_intent);
+  END IF;
+
+  IF v_order.status <> 'pending' THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ORDER_NOT_PAYABLE',
+      DETAIL = format('Order %s is %s', p_order_id, v_order.status);
+  END IF;
+
+  IF p_provider IS NULL OR btrim(p_provider) = '' THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_PAYMENT_PROVIDER';
+  END IF;
+
+  SELECT COALESCE(SUM(subtotal_cents), 0)::INTEGER INTO v_weighed_subtotal
+  FROM public.order_items
+  WHERE order_id = p_order_id
+    AND fulfilment_status = 'fulfilled'
+    AND unit_type IN ('kg', 'litre');
+
+  INSERT INTO public.payment_intents (order_id, user_id, provider, payment_method, amount_cents)
+  VALUES (
+    p_order_id,
+    v_user_id,
+    btrim(p_provider),
+    v_order.payment_method,
+    v_order.total_cents + ceil(v_weighed_subtotal * 0.10)::INTEGER
+  )
+  RETURNING * INTO v_intent;
+
+  RETURN to_jsonb(v_intent);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_payment_intent(UUID, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.create_payment_intent IS 'Creates (or returns) the payment intent for a pending card/wallet order owned by the caller';
+
+-- ============================================================================
+-- record_payment_event
+-- ============================================================================
+-- Service role only. The edge function passes the customer it acts for as
+-- p_actor_id after verifying their token; captures and voids come from the
+-- payment task queue and have no actor:
+-- p_event: 'authorized' | 'authorization_failed' (the customer, at checkout)
+--          'captured' (once delivered)
+--          'voided' (once cancelled or rejected)
+
+CREATE OR REPLACE FUNCTION public.record_payment_event(
+  p_intent_id UUID,
+  p_event TEXT,
+  p_actor_id UUID,
+  p_provider_reference TEXT DEFAULT NULL,
+  p_amount_cents INTEGER DEFAULT NULL,
+  p_failure_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := p_actor_id;
+  v_intent public.payment_intents%ROWTYPE;
+  v_order public.orders%ROWTYPE;
+  v_is_customer BOOLEAN;
+BEGIN
+  SELECT * INTO v_intent FROM public.payment_intents WHERE id = p_intent_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'PAYMENT_NOT_FOUND';
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = v_intent.order_id FOR UPDATE;
+
+  v_is_customer := v_user_id IS NOT NULL AND v_order.user_id = v_user_id;
+
+  PERFORM set_config('app.order_payment_write', 'on', true);
+
+  IF p_event = 'authorized' AND v_is_customer THEN
+    IF v_intent.status <> 'requires_authorization' THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'PAYMENT_STATE_CONFLICT',
+        DETAIL = format('Payment %s is %s', p_intent_id, v_intent.status);
+    END IF;
+
+    UPDATE public.payment_intents
+    SET status = 'authorized', provider_reference = p_provider_reference, authorized_at = timezone('utc'::TEXT, now())
+    WHERE id = p_intent_id;
+
+    UPDATE public.orders SET payment_status = 'authorized' WHERE id = v_order.id;
+  ELSIF p_event = 'authorization_failed' AND v_is_customer THEN
+    IF v_intent.status <> 'requires_authorization' THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'PAYMENT_STATE_CONFLICT',
+        DETAIL = format('Payment %s is %s', p_intent_id, v_intent.status);
+    END IF;
+
+    UPDATE public.payment_intents
+    SET status = 'failed', provider_reference = p_provider_reference, failure_reason = p_failure_reason
+    WHERE id = p_intent_id;
+
+    -- An unpaid order never reaches the merchant; releasing it frees stock and the slot
+    UPDATE public.orders
+    SET
+      payment_status = 'failed',
+      status = CASE WHEN status = 'pending' THEN 'cancelled'::order_status ELSE status END,
+      cancellation_reason = CASE WHEN status = 'pending' THEN 'Payment authorization failed' ELSE cancellation_reason END,
+      cancelled_by = CASE WHEN status = 'pending' THEN v_user_id ELSE cancelled_by END
+    WHERE id = v_order.id;
+  ELSIF p_event = 'captured' THEN
+    IF v_intent.status <> 'authorized' OR v_order.status <> 'delivered' THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'PAYMENT_STATE_CONFLICT',
+        DETAIL = format('Payment %s is %s and order %s is %s', p_intent_id, v_intent.status, v_order.id, v_order.status);
+    END IF;
+
+    IF p_amount_cents IS NULL OR p_amount_cents < 0 OR p_amount_cents > v_intent.amount_cents THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'CAPTURE_EXCEEDS_AUTHORIZATION',
+        DETAIL = format('Cannot capture %s of an authorized %s', p_amount_cents, v_intent.amount_cents);
+    END IF;
+
+    UPDATE public.payment_intents
+    SET status = 'captured', captured_amount_cents = p_amount_cents, captured_at = timezone('utc'::TEXT, now())
+    WHERE id = p_intent_id;
+
+    UPDATE public.orders SET payment_status = 'captured' WHERE id = v_order.id;
+  ELSIF p_event = 'voided' THEN
+    IF v_intent.status NOT IN ('requires_authorization', 'authorized') OR v_order.status NOT IN ('cancelled', 'rejected') THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'PAYMENT_STATE_CONFLICT',
+        DETAIL = format('Payment %s is %s and order %s is %s', p_intent_id, v_intent.status, v_order.id, v_order.status);
+    END IF;
+
+    UPDATE public.payment_intents
+    SET status = 'voided', voided_at = timezone('utc'::TEXT, now())
+    WHERE id = p_intent_id;
+
+    UPDATE public.orders SET payment_status = 'voided' WHERE id = v_order.id;
+  ELSE
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_PAYMENT_EVENT',
+      DETAIL = format('%s cannot be recorded for this payment', p_event);
+  END IF;
+
+  PERFORM set_config('app.order_payment_write', 'off', true);
+
+  SELECT * INTO v_intent FROM public.payment_intents WHERE id = p_intent_id;
+  RETURN to_jsonb(v_intent);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_payment_event(UUID, TEXT, UUID, TEXT, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_payment_event(UUID, TEXT, UUID, TEXT, INTEGER, TEXT) TO service_role;
+
+COMMENT ON FUNCTION public.record_payment_event IS 'Records a payment provider result on an intent and mirrors it to orders.payment_status; called by the order-payments edge function';
+
+-- ============================================================================
+-- Payment tasks: captures and voids
+-- ============================================================================
+-- Delivering, cancelling or rejecting an order queues the capture or void
+-- of its intent in the same transaction, so the status change cannot commit
+-- without it. The order-payments edge function claims due tasks (right away
+-- when the app asks it to settle an order, otherwise every minute through
+-- pg_cron), calls the gateway and finishes the task; a failed attempt is
+-- retried with backoff and the task is marked failed after 6 attempts.
+-- queue_stale_payment_tasks() picks up any open intent on a finished order
+-- that has no task yet.
+
+CREATE TABLE IF NOT EXISTS public.payment_tasks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  intent_id UUID NOT NULL REFERENCES public.payment_intents(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('capture', 'void')),
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'done', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc'::TEXT, now()),
+  -- Set while an edge function invocation is working on the task
+  locked_until TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc'::TEXT, now()),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc'::TEXT, now()),
+  CONSTRAINT payment_tasks_once UNIQUE (intent_id, action)
+);
+
+CREATE INDEX IF NOT EXISTS payment_tasks_order_idx ON public.payment_tasks (order_id);
+CREATE INDEX IF NOT EXISTS payment_tasks_due_idx ON public.payment_tasks (next_attempt_at) WHERE status = 'queued';
+
+COMMENT ON TABLE public.payment_tasks IS 'Queued capture/void of a payment intent, worked off by the order-payments edge function';
+
+DROP TRIGGER IF EXISTS payment_tasks_touch ON public.payment_tasks;
+CREATE TRIGGER payment_tasks_touch
+  BEFORE UPDATE ON public.payment_tasks
+  FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+ALTER TABLE public.payment_tasks ENABLE ROW LEVEL SECURITY;
+
+-- Merchants see whether their orders' payments went through
+DROP POLICY IF EXISTS payment_tasks_merchant_select ON public.payment_tasks;
+CREATE POLICY payment_tasks_merchant_select ON public.payment_tasks
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.orders o
+      JOIN public.shops s ON s.id = o.shop_id
+      JOIN public.merchant_accounts ma ON ma.id = s.merchant_id
+      WHERE o.id = payment_tasks.order_id
+        AND ma.user_id = auth.uid()
+    )
+  );
+
+GRANT SELECT ON public.payment_tasks TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.queue_order_payment_task()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'delivered' THEN
+    INSERT INTO public.payment_tasks (intent_id, order_id, action)
+    SELECT pi.id, pi.order_id, 'capture'
+    FROM public.payment_intents pi
+    WHERE pi.order_id = NEW.id
+      AND pi.status = 'authorized'
+    ON CONFLICT (intent_id, action) DO NOTHING;
+  ELSIF NEW.status IN ('cancelled', 'rejected') THEN
+    INSERT INTO public.payment_tasks (intent_id, order_id, action)
+    SELECT pi.id, pi.order_id, 'void'
+    FROM public.payment_intents pi
+    WHERE pi.order_id = NEW.id
+      AND pi.status IN ('requires_authorization', 'authorized')
+    ON CONFLICT (intent_id, action) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_queue_payment_task ON public.orders;
+CREATE TRIGGER orders_queue_payment_task
+  AFTER UPDATE ON public.orders
+  FOR EACH ROW
+  WHEN (NEW.status IS DISTINCT FROM OLD.status)
+  EXECUTE FUNCTION public.queue_order_payment_task();
+
+CREATE OR REPLACE FUNCTION public.queue_stale_payment_tasks()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  INSERT INTO public.payment_tasks (intent_id, order_id, action)
+  SELECT pi.id, pi.order_id, CASE WHEN o.status = 'delivered' THEN 'capture' ELSE 'void' END
+  FROM public.payment_intents pi
+  JOIN public.orders o ON o.id = pi.order_id
+  WHERE (o.status = 'delivered' AND pi.status = 'authorized')
+     OR (o.status IN ('cancelled', 'rejected') AND pi.status IN ('requires_authorization', 'authorized'))
+  ON CONFLICT (intent_id, action) DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Claims up to p_limit due tasks for a few minutes. With p_order_id, that
+-- order's queued tasks are claimed whether or not their backoff is over.
+CREATE OR REPLACE FUNCTION public.claim_payment_tasks(
+  p_order_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS SETOF public.payment_tasks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.payment_tasks t
+  SET attempts = t.attempts + 1,
+      locked_until = now() + interval '2 minutes'
+  WHERE t.id IN (
+    SELECT q.id
+    FROM public.payment_tasks q
+    WHERE q.status = 'queued'
+      AND (q.locked_until IS NULL OR q.locked_until < now())
+      AND (p_order_id IS NULL OR q.order_id = p_order_id)
+      AND (p_order_id IS NOT NULL OR q.next_attempt_at <= now())
+    ORDER BY q.next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING t.*;
+END;
+$$;
+
+-- p_error NULL means the task went through
+CREATE OR REPLACE FUNCTION public.finish_payment_task(
+  p_task_id UUID,
+  p_error TEXT DEFAULT NULL
+)
+RETURNS public.payment_tasks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_task public.payment_tasks%ROWTYPE;
+BEGIN
+  UPDATE public.payment_tasks
+  SET status = CASE
+        WHEN p_error IS NULL THEN 'done'
+        WHEN attempts >= 6 THEN 'failed'
+        ELSE 'queued'
+      END,
+      last_error = p_error,
+      locked_until = NULL,
+      next_attempt_at = now() + make_interval(mins => power(2, attempts)::INTEGER)
+  WHERE id = p_task_id
+  RETURNING * INTO v_task;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'PAYMENT_TASK_NOT_FOUND';
+  END IF;
+
+  RETURN v_task;
+END;
+$$;
+
+-- Supabase grants EXECUTE to anon and authenticated directly
+REVOKE ALL ON FUNCTION public.queue_stale_payment_tasks() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.claim_payment_tasks(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.finish_payment_task(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_payment_tasks(UUID, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.finish_payment_task(UUID, TEXT) TO service_role;
+
+COMMENT ON FUNCTION public.queue_stale_payment_tasks IS 'Scheduler only: queues the capture/void of open intents on delivered, cancelled or rejected orders';
+COMMENT ON FUNCTION public.claim_payment_tasks IS 'Service role only: claims due payment tasks for the order-payments edge function';
+COMMENT ON FUNCTION public.finish_payment_task IS 'Service role only: marks a claimed payment task done, or schedules its retry';
+
+-- ============================================================================
+-- Unauthorized orders
+-- ============================================================================
+-- A card/wallet order is placed before its authorization and stays pending
+-- if the customer never finishes checkout. After 15 minutes it is cancelled,
+-- which frees its stock and slot; its intent fails first so no void is
+-- queued for a hold that was never made.
+
+CREATE OR REPLACE FUNCTION public.expire_unauthorized_orders()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  PERFORM set_config('app.order_payment_write', 'on', true);
+
+  UPDATE public.payment_intents pi
+  SET status = 'failed', failure_reason = 'Authorization expired'
+  FROM public.orders o
+  WHERE o.id = pi.order_id
+    AND o.status = 'pending'
+    AND o.payment_status = 'pending'
+    AND o.placed_at < now() - interval '15 minutes'
+    AND pi.status = 'requires_authorization';
+
+  UPDATE public.orders
+  SET
+    status = 'cancelled',
+    payment_status = 'failed',
+    cancellation_reason = 'Payment was not authorized in time'
+  WHERE status = 'pending'
+    AND payment_status = 'pending'
+    AND placed_at < now() - interval '15 minutes';
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  PERFORM set_config('app.order_payment_write', 'off', true);
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.expire_unauthorized_orders() FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.expire_unauthorized_orders IS 'Scheduler only: cancels card/wallet orders left unauthorized for 15 minutes';
+
+-- The task runner is reached through pg_net with the project URL and service
+-- role key kept in Vault ('project_url', 'service_role_key'); without them
+-- only the SQL jobs are scheduled and tasks run when the app settles an order.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'expire-unauthorized-orders',
+      '*/5 * * * *',
+      'SELECT public.expire_unauthorized_orders()'
+    );
+    PERFORM cron.schedule(
+      'queue-stale-payment-tasks',
+      '*/15 * * * *',
+      'SELECT public.queue_stale_payment_tasks()'
+    );
+
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net')
+       AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'supabase_vault') THEN
+      PERFORM cron.schedule(
+        'process-payment-tasks',
+        '* * * * *',
+        $job$
+        SELECT net.http_post(
+          url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/order-payments',
+          headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+          ),
+          body := '{"action": "process"}'::JSONB
+        )
+        WHERE EXISTS (SELECT 1 FROM public.payment_tasks WHERE status = 'queued' AND next_attempt_at <= now())
+        $job$
+      );
+    END IF;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- Keep order totals within the authorization
+-- ============================================================================
+-- The intent holds the total at checkout plus headroom for packed weights.
+-- Card/wallet orders cannot be edited by the customer, and a merchant
+-- change that would push the total past the hold (a pricier substitute,
+-- say) is refused rather than leaving a capture the gateway cannot make.
+
+CREATE OR REPLACE FUNCTION public.cap_order_total_to_authorization()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_authorized_cents INTEGER;
+BEGIN
+  IF NEW.payment_status NOT IN ('pending', 'authorized') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT amount_cents INTO v_authorized_cents
+  FROM public.payment_intents
+  WHERE order_id = NEW.id
+    AND status IN ('requires_authorization', 'authorized');
+
+  IF FOUND AND NEW.total_cents > v_authorized_cents THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'PAYMENT_AMOUNT_EXCEEDED',
+      DETAIL = format('Order %s total %s is more than the authorized %s', NEW.id, NEW.total_cents, v_authorized_cents);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_cap_total_to_authorization ON public.orders;
+CREATE TRIGGER orders_cap_total_to_authorization
+  BEFORE UPDATE OF total_cents ON public.orders
+  FOR EACH ROW
+  WHEN (NEW.total_cents > OLD.total_cents)
+  EXECUTE FUNCTION public.cap_order_total_to_authorization();
+
+-- ============================================================================
+-- update_pending_order_items: cash orders only
+-- ============================================================================
+-- p_items has the same shape as place_order's p_items and replaces every
+-- line of the order.
+
+CREATE OR REPLACE FUNCTION public.update_pending_order_items(
+  p_order_id UUID,
+  p_items JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_order public.orders%ROWTYPE;
+  v_requested_count INTEGER;
+  v_found_count INTEGER;
+  v_missing_item UUID;
+  v_inactive_item UUID;
+  v_variant_line RECORD;
+  v_bad_quantity_line RECORD;
+  v_short_line RECORD;
+  v_subtotal_cents INTEGER;
+  v_distance DOUBLE PRECISION;
+  v_pricing RECORD;
+  v_delivery_fee_cents INTEGER;
+  v_shop public.shops%ROWTYPE;
+  v_changes JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'NOT_AUTHENTICATED';
+  END IF;
+
+  -- The row lock serialises edits with the merchant confirming
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ORDER_NOT_FOUND';
+  END IF;
+
+  IF v_order.status <> 'pending' OR v_order.confirmation_started_at IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ORDER_NOT_EDITABLE',
+      DETAIL = format('Order %s is %s and can no longer be edited', p_order_id,
+        CASE WHEN v_order.status = 'pending' THEN 'being confirmed' ELSE v_order.status::TEXT END);
+  END IF;
+
+  -- The authorization was sized for the original total; a new one would be needed
+  IF v_order.payment_status IN ('pending', 'authorized') THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ORDER_PAID_BY_CARD',
+      DETAIL = format('Order %s has a %s card/wallet payment', p_order_id, v_order.payment_status);
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'EMPTY_ORDER',
+      DETAIL = 'Cancel the order to remove every item';
+  END IF;
+
+  SELECT * INTO v_shop FROM public.shops WHERE id = v_order.shop_id;
+
+  -- Normalise requested lines (merge duplicates of the same item and variant)
+  DROP TABLE IF EXISTS _requested_lines;
+  CREATE TEMP TABLE _requested_lines ON COMMIT DROP AS
+  SELECT
+    (line ->> 'merchant_item_id')::UUID AS merchant_item_id,
+    NULLIF(line ->> 'variant_id', '')::UUID AS variant_id,
+    SUM((line ->> 'quantity')::NUMERIC) AS quantity,
+    COALESCE(MAX(NULLIF(line ->> 'substitution_preference', '')), 'substitute') AS substitution_preference
+  FROM jsonb_array_elements(p_items) AS line
+  GROUP BY (line ->> 'merchant_item_id')::UUID, NULLIF(line ->> 'variant_id', '')::UUID;
+
+  IF EXISTS (
+    SELECT 1 FROM _requested_lines
+    WHERE merchant_item_id IS NULL OR quantity IS NULL OR quantity <= 0 OR quantity <> round(quantity, 3)
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_QUANTITY';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM _requested_lines
+    WHERE substitution_preference NOT IN ('substitute', 'call_me', 'remove')
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_SUBSTITUTION_PREFERENCE';
+  END IF;
+
+  -- Summarise the edit before the old lines go
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'item_name', COALESCE(o.item_name, mi.name, it.name),
+    'variant_name', COALESCE(o.variant_name, v.name),
+    'unit_type', COALESCE(o.unit_type, mi.unit_type),
+    'previous_quantity', COALESCE(o.quantity, 0),
+    'new_quantity', COALESCE(r.quantity, 0)
+  )), '[]'::JSONB)
+  INTO v_changes
+  FROM (
+    SELECT merchant_item_id, variant_id, MAX(item_name) AS item_name, MAX(variant_name) AS variant_name,
+      MAX(unit_type) AS unit_type, SUM(quantity) AS quantity
+    FROM public.order_items
+    WHERE order_id = p_order_id
+    GROUP BY merchant_item_id, variant_id
+  ) o
+  FULL OUTER JOIN _requested_lines r
+    ON r.merchant_item_id = o.merchant_item_id
+   AND r.variant_id IS NOT DISTINCT FROM o.variant_id
+  LEFT JOIN public.merchant_items mi ON mi.id = r.merchant_item_id
+  LEFT JOIN public.item_templates it ON it.id = mi.template_id
+  LEFT JOIN public.merchant_item_variants v ON v.id = r.variant_id
+  WHERE COALESCE(o.quantity, 0) <> COALESCE(r.quantity, 0);
+
+  -- Give back what the current lines reserved before checking stock again
+  UPDATE public.merchant_items mi
+  SET reserved_quantity = GREATEST(mi.reserved_quantity - oi.quantity, 0)
+  FROM (
+    SELECT merchant_item_id, SUM(quantity) AS quantity
+    FROM public.order_items
+    WHERE order_id = p_order_id
+    GROUP BY merchant_item_id
+  ) oi
+  WHERE mi.id = oi.merchant_item_id
+    AND mi.stock_quantity IS NOT NULL;
+
+  DELETE FROM public.order_items WHERE order_id = p_order_id;
+
+  -- Lock item rows so prices and stock cannot change while the order is written
+  DROP TABLE IF EXISTS _priced_lines;
+  CREATE TEMP TABLE _priced_lines ON COMMIT DROP AS
+  SELECT
+    mi.id AS merchant_item_id,
+    rl.variant_id AS requested_variant_id,
+    v.id AS variant_id,
+    v.name AS variant_name,
+    v.is_active AS variant_is_active,
+    EXISTS (
+      SELECT 1 FROM public.merchant_item_variants av
+      WHERE av.merchant_item_id = mi.id AND av.is_active
+    ) AS has_active_variants,
+    COALESCE(mi.name, it.name, '') AS item_name,
+    COALESCE(mi.description, it.description) AS item_description,
+    COALESCE(mi.image_url, it.image_url) AS item_image_url,
+    COALESCE(v.price_cents, mi.price_cents) AS item_price_cents,
+    mi.is_active,
+    mi.available_quantity,
+    mi.unit_type,
+    mi.quantity_step,
+    mi.min_quantity,
+    rl.quantity AS quantity,
+    rl.substitution_preference
+  FROM _requested_lines rl
+  JOIN public.merchant_items mi ON mi.id = rl.merchant_item_id AND mi.shop_id = v_order.shop_id
+  LEFT JOIN public.item_templates it ON it.id = mi.template_id
+  LEFT JOIN public.merchant_item_variants v ON v.id = rl.variant_id AND v.merchant_item_id = mi.id
+  ORDER BY mi.id
+  FOR UPDATE OF mi;
+
+  SELECT COUNT(*) INTO v_requested_count FROM _requested_lines;
+  SELECT COUNT(*) INTO v_found_count FROM _priced_lines;
+
+  IF v_found_count < v_requested_count THEN
+    SELECT rl.merchant_item_id INTO v_missing_item
+    FROM _requested_lines rl
+    WHERE NOT EXISTS (SELECT 1 FROM _priced_lines pl WHERE pl.merchant_item_id = rl.merchant_item_id)
+    LIMIT 1;
+
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ITEM_NOT_FOUND',
+      DETAIL = format('Item %s does not belong to shop %s', v_missing_item, v_order.shop_id);
+  END IF;
+
+  SELECT merchant_item_id INTO v_inactive_item FROM _priced_lines WHERE NOT is_active LIMIT 1;
+
+  IF v_inactive_item IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ITEM_UNAVAILABLE',
+      DETAIL = format('Item %s is no longer available', v_inactive_item);
+  END IF;
+
+  -- A chosen variant must exist and be on sale; items with variants need one
+  SELECT merchant_item_id, requested_variant_id INTO v_variant_line
+  FROM _priced_lines
+  WHERE (requested_variant_id IS NOT NULL AND (variant_id IS NULL OR NOT variant_is_active))
+     OR (requested_variant_id IS NULL AND has_active_variants)
+  LIMIT 1;
+
+  IF v_variant_line.merchant_item_id IS NOT NULL THEN
+    IF v_variant_line.requested_variant_id IS NULL THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'VARIANT_REQUIRED',
+        DETAIL = format('Item %s must be ordered as one of its variants', v_variant_line.merchant_item_id);
+    END IF;
+
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'VARIANT_UNAVAILABLE',
+      DETAIL = format('Variant %s of item %s is not available',
+        v_variant_line.requested_variant_id, v_variant_line.merchant_item_id);
+  END IF;
+
+  -- Each line must respect the item's minimum and step (whole units for pieces)
+  SELECT merchant_item_id, quantity, unit_type, quantity_step, min_quantity INTO v_bad_quantity_line
+  FROM _priced_lines
+  WHERE quantity < min_quantity OR mod(quantity, quantity_step) <> 0
+  LIMIT 1;
+
+  IF v_bad_quantity_line.merchant_item_id IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_QUANTITY',
+      DETAIL = format('Item %s is sold in steps of %s %s from %s %s; %s requested',
+        v_bad_quantity_line.merchant_item_id,
+        v_bad_quantity_line.quantity_step, v_bad_quantity_line.unit_type,
+        v_bad_quantity_line.min_quantity, v_bad_quantity_line.unit_type,
+        v_bad_quantity_line.quantity);
+  END IF;
+
+  -- Stock is tracked per item, so variant lines of the same item share it
+  SELECT merchant_item_id, available_quantity, SUM(quantity) AS quantity INTO v_short_line
+  FROM _priced_lines
+  WHERE available_quantity IS NOT NULL
+  GROUP BY merchant_item_id, available_quantity
+  HAVING SUM(quantity) > available_quantity
+  LIMIT 1;
+
+  IF v_short_line.merchant_item_id IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INSUFFICIENT_STOCK',
+      DETAIL = format('Item %s has %s available, %s requested',
+        v_short_line.merchant_item_id, v_short_line.available_quantity, v_short_line.quantity);
+  END IF;
+
+  SELECT COALESCE(SUM(round(item_price_cents * quantity)), 0)::INTEGER INTO v_subtotal_cents FROM _priced_lines;
+
+  v_distance := public.haversine_distance_meters(
+    (v_order.delivery_address ->> 'latitude')::DOUBLE PRECISION,
+    (v_order.delivery_address ->> 'longitude')::DOUBLE PRECISION,
+    v_shop.latitude,
+    v_shop.longitude
+  );
+
+  SELECT * INTO v_pricing FROM public.calculate_order_pricing(v_order.shop_id, v_subtotal_cents, v_distance);
+  v_delivery_fee_cents := CASE WHEN v_order.fulfilment_type = 'pickup' THEN 0 ELSE v_pricing.delivery_fee_cents END;
+
+  INSERT INTO public.order_items (
+    order_id,
+    merchant_item_id,
+    variant_id,
+    variant_name,
+    item_name,
+    item_description,
+    item_image_url,
+    item_price_cents,
+    unit_type,
+    quantity,
+    subtotal_cents,
+    substitution_preference
+  )
+  SELECT
+    p_order_id,
+    merchant_item_id,
+    variant_id,
+    variant_name,
+    item_name,
+    item_description,
+    item_image_url,
+    item_price_cents,
+    unit_type,
+    quantity,
+    round(item_price_cents * quantity)::INTEGER,
+    substitution_preference
+  FROM _priced_lines;
+
+  -- Reserve tracked stock until the order is delivered or cancelled
+  UPDATE public.merchant_items mi
+  SET reserved_quantity = mi.reserved_quantity + pl.quantity
+  FROM (
+    SELECT merchant_item_id, SUM(quantity) AS quantity
+    FROM _priced_lines
+    GROUP BY merchant_item_id
+  ) pl
+  WHERE mi.id = pl.merchant_item_id
+    AND mi.stock_quantity IS NOT NULL;
+
+  INSERT INTO public.order_edits (
+    order_id,
+    changes,
+    previous_total_cents,
+    new_total_cents,
+    edited_by
+  ) VALUES (
+    p_order_id,
+    v_changes,
+    v_order.total_cents,
+    v_subtotal_cents + v_delivery_fee_cents + v_pricing.surcharge_cents,
+    v_user_id
+  );
+
+  UPDATE public.orders
+  SET
+    subtotal_cents = v_subtotal_cents,
+    delivery_fee_cents = v_delivery_fee_cents,
+    surcharge_cents = v_pricing.surcharge_cents,
+    total_cents = v_subtotal_cents + v_delivery_fee_cents + v_pricing.surcharge_cents,
+    last_edited_at = timezone('utc'::TEXT, now())
+  WHERE id = p_order_id;
+
+  RETURN public.order_with_items_json(p_order_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.update_pending_order_items(UUID, JSONB) TO authenticated;
+
+COMMENT ON FUNCTION public.update_pending_order_items IS 'Replaces the lines of a pending cash order, repricing it and recomputing delivery fee (none for pickup) and surcharge';
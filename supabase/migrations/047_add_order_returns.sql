@@ -0,0 +1,459 @@
+-- ============================================================================
+-- RETURNS AND REFUNDS
+-- ============================================================================
+-- After delivery a consumer can report missing or damaged items:
+--   * request_order_return() opens a return for chosen lines and quantities,
+--     with a reason, an optional note and an optional photo, within
+--     RETURN_WINDOW_DAYS of delivery; one open return per order at a time
+--   * photos live in the private return-photos bucket; only the customer
+--     and the shop's merchant can read them, through signed URLs
+--   * the merchant approves (optionally for less than was asked) or rejects
+--     it with resolve_order_return()
+--   * an approved refund adds a negative 'refund' entry to the shop ledger
+--     and is added to orders.refunded_cents, which analytics subtract from
+--     revenue
+-- The ledger records what is owed back; paying it out (cash, card refund)
+-- happens outside this flow.
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'orders' AND column_name = 'refunded_cents') THEN
+    ALTER TABLE public.orders ADD COLUMN refunded_cents INTEGER NOT NULL DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.table_constraints WHERE constraint_schema = 'public' AND table_name = 'orders' AND constraint_name = 'check_refunded_cents') THEN
+    ALTER TABLE public.orders ADD CONSTRAINT check_refunded_cents
+      CHECK (refunded_cents >= 0 AND refunded_cents <= total_cents);
+  END IF;
+END $$;
+
+COMMENT ON COLUMN public.orders.refunded_cents IS 'Sum of approved return refunds';
+
+CREATE TABLE IF NOT EXISTS public.order_returns (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  shop_id UUID NOT NULL REFERENCES public.shops(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'requested'
+    CHECK (status IN ('requested', 'approved', 'rejected')),
+  reason_code TEXT NOT NULL
+    CHECK (reason_code IN ('missing', 'damaged', 'wrong_item', 'poor_quality', 'other')),
+  note TEXT,
+  -- Object path in the private return-photos bucket
+  photo_path TEXT,
+  -- Value of the returned lines at the price paid
+  requested_cents INTEGER NOT NULL CHECK (requested_cents > 0),
+  refund_cents INTEGER CHECK (refund_cents IS NULL OR refund_cents > 0),
+  merchant_note TEXT,
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc'::TEXT, now()),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc'::TEXT, now()),
+  CONSTRAINT order_returns_refund_within_request
+    CHECK (refund_cents IS NULL OR refund_cents <= requested_cents),
+  CONSTRAINT order_returns_resolution
+    CHECK (
+      (status = 'requested' AND resolved_at IS NULL AND refund_cents IS NULL)
+      OR (status = 'approved' AND resolved_at IS NOT NULL AND refund_cents IS NOT NULL)
+      OR (status = 'rejected' AND resolved_at IS NOT NULL AND refund_cents IS NULL)
+    )
+);
+
+CREATE INDEX IF NOT EXISTS order_returns_order_idx ON public.order_returns (order_id);
+CREATE INDEX IF NOT EXISTS order_returns_shop_status_idx ON public.order_returns (shop_id, status, created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS order_returns_one_open_per_order
+  ON public.order_returns (order_id) WHERE status = 'requested';
+
+COMMENT ON TABLE public.order_returns IS 'Consumer return/refund requests for delivered orders, resolved by the merchant';
+
+CREATE TABLE IF NOT EXISTS public.order_return_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  return_id UUID NOT NULL REFERENCES public.order_returns(id) ON DELETE CASCADE,
+  order_item_id UUID NOT NULL REFERENCES public.order_items(id) ON DELETE CASCADE,
+  quantity NUMERIC(12,3) NOT NULL CHECK (quantity > 0),
+  amount_cents INTEGER NOT NULL CHECK (amount_cents >= 0),
+  UNIQUE (return_id, order_item_id)
+);
+
+CREATE INDEX IF NOT EXISTS order_return_items_order_item_idx ON public.order_return_items (order_item_id);
+
+DROP TRIGGER IF EXISTS order_returns_touch ON public.order_returns;
+CREATE TRIGGER order_returns_touch
+  BEFORE UPDATE ON public.order_returns
+  FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+-- ============================================================================
+-- Shop ledger
+-- ============================================================================
+-- Money movements per shop. amount_cents is signed: negative entries reduce
+-- what the shop earns.
+
+CREATE TABLE IF NOT EXISTS public.shop_ledger_entries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  shop_id UUID NOT NULL REFERENCES public.shops(id) ON DELETE CASCADE,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  entry_type TEXT NOT NULL,
+  amount_cents INTEGER NOT NULL,
+  -- The row that caused the entry, e.g. the order_returns id for a refund
+  source_id UUID,
+  description TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc'::TEXT, now())
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.table_constraints WHERE constraint_schema = 'public' AND table_name = 'shop_ledger_entries' AND constraint_name = 'check_ledger_entry_type') THEN
+    ALTER TABLE public.shop_ledger_entries ADD CONSTRAINT check_ledger_entry_type
+      CHECK (entry_type IN ('refund'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS shop_ledger_entries_shop_idx ON public.shop_ledger_entries (shop_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS shop_ledger_entries_order_idx ON public.shop_ledger_entries (order_id);
+
+COMMENT ON TABLE public.shop_ledger_entries IS 'Signed money movements per shop; written only by SECURITY DEFINER functions';
+
+-- ============================================================================
+-- RLS
+-- ============================================================================
+-- Returns and ledger entries are only written through the functions below
+
+ALTER TABLE public.order_returns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.order_return_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shop_ledger_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS order_returns_consumer_select ON public.order_returns;
+CREATE POLICY order_returns_consumer_select ON public.order_returns
+  FOR SELECT USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS order_returns_merchant_select ON public.order_returns;
+CREATE POLICY order_returns_merchant_select ON public.order_returns
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.shops s
+      JOIN public.merchant_accounts ma ON ma.id = s.merchant_id
+      WHERE s.id = order_returns.shop_id
+        AND ma.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS order_return_items_select ON public.order_return_items;
+CREATE POLICY order_return_items_select ON public.order_return_items
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.order_returns r
+      WHERE r.id = order_return_items.return_id
+    )
+  );
+
+DROP POLICY IF EXISTS shop_ledger_entries_merchant_select ON public.shop_ledger_entries;
+CREATE POLICY shop_ledger_entries_merchant_select ON public.shop_ledger_entries
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.shops s
+      JOIN public.merchant_accounts ma ON ma.id = s.merchant_id
+      WHERE s.id = shop_ledger_entries.shop_id
+        AND ma.user_id = auth.uid()
+    )
+  );
+
+GRANT SELECT ON public.order_returns TO authenticated;
+GRANT SELECT ON public.order_return_items TO authenticated;
+GRANT SELECT ON public.shop_ledger_entries TO authenticated;
+
+-- ============================================================================
+-- Return photos
+-- ============================================================================
+-- Private: photos show customers' homes and deliveries, so they are only
+-- served as signed URLs. Consumers upload into a folder named after their
+-- user id.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'return-photos',
+  'return-photos',
+  false,
+  5242880, -- 5MB limit
+  ARRAY['image/jpeg', 'image/jpg', 'image/png', 'image/webp']
+)
+ON CONFLICT (id) DO UPDATE SET
+  public = false,
+  file_size_limit = 5242880,
+  allowed_mime_types = ARRAY['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
+
+DROP POLICY IF EXISTS "Users can upload their return photos" ON storage.objects;
+CREATE POLICY "Users can upload their return photos"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'return-photos' AND (storage.foldername(name))[1] = auth.uid()::TEXT);
+
+DROP POLICY IF EXISTS "Public can view return photos" ON storage.objects;
+
+DROP POLICY IF EXISTS "Users can view their return photos" ON storage.objects;
+CREATE POLICY "Users can view their return photos"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'return-photos' AND (storage.foldername(name))[1] = auth.uid()::TEXT);
+
+DROP POLICY IF EXISTS "Merchants can view return photos of their orders" ON storage.objects;
+CREATE POLICY "Merchants can view return photos of their orders"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'return-photos'
+    AND EXISTS (
+      SELECT 1 FROM public.order_returns r
+      JOIN public.shops s ON s.id = r.shop_id
+      JOIN public.merchant_accounts ma ON ma.id = s.merchant_id
+      WHERE r.photo_path = storage.objects.name
+        AND ma.user_id = auth.uid()
+    )
+  );
+
+-- ============================================================================
+-- order_return_json
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.order_return_json(p_return_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT to_jsonb(r) || jsonb_build_object(
+    'items',
+    COALESCE((
+      SELECT jsonb_agg(to_jsonb(ri) ORDER BY ri.id)
+      FROM public.order_return_items ri
+      WHERE ri.return_id = r.id
+    ), '[]'::jsonb)
+  )
+  FROM public.order_returns r
+  WHERE r.id = p_return_id;
+$$;
+
+-- Only for the functions below; they check who may see the return
+REVOKE ALL ON FUNCTION public.order_return_json(UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- request_order_return
+-- ============================================================================
+-- p_lines: [{ "order_item_id": UUID, "quantity": NUMERIC }, ...]
+-- A line can be returned up to its delivered quantity, less what earlier
+-- returns (open or approved) already cover.
+
+CREATE OR REPLACE FUNCTION public.request_order_return(
+  p_order_id UUID,
+  p_lines JSONB,
+  p_reason_code TEXT,
+  p_note TEXT DEFAULT NULL,
+  p_photo_path TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  c_return_window_days CONSTANT INTEGER := 7;
+  v_user_id UUID := auth.uid();
+  v_order public.orders%ROWTYPE;
+  v_return_id UUID;
+  v_line JSONB;
+  v_item public.order_items%ROWTYPE;
+  v_quantity NUMERIC;
+  v_already_returned NUMERIC;
+  v_amount INTEGER;
+  v_requested INTEGER := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'NOT_AUTHENTICATED';
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR v_order.user_id <> v_user_id THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ORDER_NOT_FOUND';
+  END IF;
+
+  IF v_order.status <> 'delivered' THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ORDER_NOT_DELIVERED',
+      DETAIL = format('Order %s is %s', p_order_id, v_order.status);
+  END IF;
+
+  IF v_order.delivered_at < timezone('utc'::TEXT, now()) - make_interval(days => c_return_window_days) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'RETURN_WINDOW_CLOSED',
+      DETAIL = format('Order %s was delivered at %s', p_order_id, v_order.delivered_at);
+  END IF;
+
+  IF p_reason_code IS NULL OR p_reason_code NOT IN ('missing', 'damaged', 'wrong_item', 'poor_quality', 'other') THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_RETURN_REASON';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.order_returns WHERE order_id = p_order_id AND status = 'requested') THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'RETURN_ALREADY_OPEN';
+  END IF;
+
+  IF p_lines IS NULL OR jsonb_typeof(p_lines) <> 'array' OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'EMPTY_RETURN';
+  END IF;
+
+  -- Only the customer's own uploads, so a merchant is never shown someone else's photo
+  IF NULLIF(btrim(p_photo_path), '') IS NOT NULL AND split_part(btrim(p_photo_path), '/', 1) <> v_user_id::TEXT THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_RETURN_PHOTO';
+  END IF;
+
+  -- Amount is filled in once the lines are priced
+  INSERT INTO public.order_returns (order_id, shop_id, user_id, reason_code, note, photo_path, requested_cents)
+  VALUES (p_order_id, v_order.shop_id, v_user_id, p_reason_code, NULLIF(btrim(p_note), ''), NULLIF(btrim(p_photo_path), ''), 1)
+  RETURNING id INTO v_return_id;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    SELECT * INTO v_item
+    FROM public.order_items
+    WHERE id = (v_line->>'order_item_id')::UUID
+      AND order_id = p_order_id;
+
+    -- Lines that were not charged (unavailable, substituted away) cannot be refunded
+    IF NOT FOUND OR v_item.fulfilment_status <> 'fulfilled' THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ITEM_NOT_FOUND',
+        DETAIL = format('Item %s is not a delivered line of order %s', v_line->>'order_item_id', p_order_id);
+    END IF;
+
+    v_quantity := (v_line->>'quantity')::NUMERIC;
+
+    SELECT COALESCE(SUM(ri.quantity), 0) INTO v_already_returned
+    FROM public.order_return_items ri
+    JOIN public.order_returns r ON r.id = ri.return_id
+    WHERE ri.order_item_id = v_item.id
+      AND r.status IN ('requested', 'approved');
+
+    IF v_quantity IS NULL OR v_quantity <= 0 OR v_quantity > v_item.quantity - v_already_returned THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_RETURN_QUANTITY',
+        DETAIL = format('Item %s: %s requested, %s returnable', v_item.id, v_quantity, v_item.quantity - v_already_returned);
+    END IF;
+
+    v_amount := round(v_item.subtotal_cents * v_quantity / v_item.quantity)::INTEGER;
+
+    INSERT INTO public.order_return_items (return_id, order_item_id, quantity, amount_cents)
+    VALUES (v_return_id, v_item.id, v_quantity, v_amount);
+
+    v_requested := v_requested + v_amount;
+  END LOOP;
+
+  IF v_requested <= 0 THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'EMPTY_RETURN';
+  END IF;
+
+  UPDATE public.order_returns SET requested_cents = v_requested WHERE id = v_return_id;
+
+  RETURN public.order_return_json(v_return_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.request_order_return(UUID, JSONB, TEXT, TEXT, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.request_order_return IS 'Opens a return/refund request for lines of a delivered order owned by the caller';
+
+-- ============================================================================
+-- resolve_order_return
+-- ============================================================================
+-- p_refund_cents defaults to the requested amount and may be lowered, e.g.
+-- when only part of a damaged line is refunded.
+
+CREATE OR REPLACE FUNCTION public.resolve_order_return(
+  p_return_id UUID,
+  p_approve BOOLEAN,
+  p_refund_cents INTEGER DEFAULT NULL,
+  p_merchant_note TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_return public.order_returns%ROWTYPE;
+  v_order public.orders%ROWTYPE;
+  v_refund INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'NOT_AUTHENTICATED';
+  END IF;
+
+  SELECT r.* INTO v_return
+  FROM public.order_returns r
+  JOIN public.shops s ON s.id = r.shop_id
+  JOIN public.merchant_accounts ma ON ma.id = s.merchant_id
+  WHERE r.id = p_return_id
+    AND ma.user_id = v_user_id
+  FOR UPDATE OF r;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'RETURN_NOT_FOUND';
+  END IF;
+
+  IF v_return.status <> 'requested' THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'RETURN_NOT_OPEN',
+      DETAIL = format('Return %s is %s', p_return_id, v_return.status);
+  END IF;
+
+  IF NOT p_approve THEN
+    UPDATE public.order_returns
+    SET
+      status = 'rejected',
+      merchant_note = NULLIF(btrim(p_merchant_note), ''),
+      resolved_by = v_user_id,
+      resolved_at = timezone('utc'::TEXT, now())
+    WHERE id = p_return_id;
+
+    RETURN public.order_return_json(p_return_id);
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = v_return.order_id FOR UPDATE;
+
+  v_refund := COALESCE(p_refund_cents, v_return.requested_cents);
+
+  IF v_refund <= 0 OR v_refund > v_return.requested_cents OR v_order.refunded_cents + v_refund > v_order.total_cents THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_REFUND_AMOUNT',
+      DETAIL = format('Refund of %s against %s requested, %s already refunded of %s',
+        v_refund, v_return.requested_cents, v_order.refunded_cents, v_order.total_cents);
+  END IF;
+
+  UPDATE public.order_returns
+  SET
+    status = 'approved',
+    refund_cents = v_refund,
+    merchant_note = NULLIF(btrim(p_merchant_note), ''),
+    resolved_by = v_user_id,
+    resolved_at = timezone('utc'::TEXT, now())
+  WHERE id = p_return_id;
+
+  UPDATE public.orders SET refunded_cents = refunded_cents + v_refund WHERE id = v_order.id;
+
+  INSERT INTO public.shop_ledger_entries (shop_id, order_id, entry_type, amount_cents, source_id, description, created_by)
+  VALUES (
+    v_return.shop_id,
+    v_order.id,
+    'refund',
+    -v_refund,
+    p_return_id,
+    format('Refund for order %s', COALESCE(v_order.order_number, v_order.id::TEXT)),
+    v_user_id
+  );
+
+  RETURN public.order_return_json(p_return_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.resolve_order_return(UUID, BOOLEAN, INTEGER, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.resolve_order_return IS 'Approves (with a ledger refund) or rejects an open return for one of the caller''s shops';
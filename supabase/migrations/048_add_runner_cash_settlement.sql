@@ -0,0 +1,318 @@
+-- ============================================================================
+-- RUNNER CASH RECONCILIATION
+-- ============================================================================
+-- Runners collect cash on delivery and hand it over to the shop at the end
+-- of a shift. Each runner has a signed cash ledger: positive entries are
+-- cash the runner holds for the shop, negative entries cash handed back.
+--   * delivering a cash order records 'cash_collected' for its total, under
+--     the runner's open shift if there is one; the ledger starts empty, so
+--     deliveries before this migration are not carried as runner balances
+--   * open_runner_shift() starts a shift, optionally with a change float
+--     handed to the runner ('float_issued')
+--   * close_runner_shift() records the cash handed over ('handover'),
+--     stores what was expected and flags any variance; a shortfall stays on
+--     the runner's balance and carries into the next shift
+-- get_runner_cash_balances() gives the outstanding balance per runner.
+-- Runners with cash history are archived (archived_at) rather than deleted,
+-- so their ledger stays intact; archived runners cannot start a shift.
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'delivery_runners' AND column_name = 'archived_at') THEN
+    ALTER TABLE public.delivery_runners ADD COLUMN archived_at TIMESTAMPTZ;
+  END IF;
+END $$;
+
+COMMENT ON COLUMN public.delivery_runners.archived_at IS 'Set when the merchant removes the runner; archived runners are hidden and keep their cash history';
+
+CREATE TABLE IF NOT EXISTS public.runner_shifts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  shop_id UUID NOT NULL REFERENCES public.shops(id) ON DELETE CASCADE,
+  -- Runners are archived, never deleted, once they have cash history
+  runner_id UUID NOT NULL REFERENCES public.delivery_runners(id) ON DELETE RESTRICT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  opening_float_cents INTEGER NOT NULL DEFAULT 0 CHECK (opening_float_cents >= 0),
+  opened_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc'::TEXT, now()),
+  opened_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- Set when the shift closes
+  expected_cents INTEGER,
+  handed_over_cents INTEGER CHECK (handed_over_cents IS NULL OR handed_over_cents >= 0),
+  variance_cents INTEGER,
+  note TEXT,
+  closed_at TIMESTAMPTZ,
+  closed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc'::TEXT, now()),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc'::TEXT, now()),
+  CONSTRAINT runner_shifts_closed_fields
+    CHECK (
+      (status = 'open' AND closed_at IS NULL AND handed_over_cents IS NULL)
+      OR (status = 'closed' AND closed_at IS NOT NULL AND handed_over_cents IS NOT NULL
+          AND expected_cents IS NOT NULL AND variance_cents IS NOT NULL)
+    )
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS runner_shifts_one_open_per_runner
+  ON public.runner_shifts (runner_id) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS runner_shifts_shop_idx ON public.runner_shifts (shop_id, opened_at DESC);
+
+COMMENT ON TABLE public.runner_shifts IS 'A runner''s working shift, closed with an end-of-shift cash handover';
+COMMENT ON COLUMN public.runner_shifts.variance_cents IS 'handed_over_cents - expected_cents; negative is a shortfall';
+
+DROP TRIGGER IF EXISTS runner_shifts_touch ON public.runner_shifts;
+CREATE TRIGGER runner_shifts_touch
+  BEFORE UPDATE ON public.runner_shifts
+  FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+CREATE TABLE IF NOT EXISTS public.runner_cash_entries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  shop_id UUID NOT NULL REFERENCES public.shops(id) ON DELETE CASCADE,
+  runner_id UUID NOT NULL REFERENCES public.delivery_runners(id) ON DELETE RESTRICT,
+  shift_id UUID REFERENCES public.runner_shifts(id) ON DELETE SET NULL,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('cash_collected', 'float_issued', 'handover')),
+  amount_cents INTEGER NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc'::TEXT, now())
+);
+
+CREATE INDEX IF NOT EXISTS runner_cash_entries_runner_idx ON public.runner_cash_entries (runner_id, created_at);
+CREATE INDEX IF NOT EXISTS runner_cash_entries_shift_idx ON public.runner_cash_entries (shift_id);
+-- One collection per order
+CREATE UNIQUE INDEX IF NOT EXISTS runner_cash_entries_order_collected
+  ON public.runner_cash_entries (order_id) WHERE entry_type = 'cash_collected';
+
+COMMENT ON TABLE public.runner_cash_entries IS 'Signed runner cash ledger: positive is cash held for the shop, negative is cash handed back';
+
+ALTER TABLE public.runner_shifts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.runner_cash_entries ENABLE ROW LEVEL SECURITY;
+
+-- Written only through the functions and trigger below
+DROP POLICY IF EXISTS runner_shifts_merchant_select ON public.runner_shifts;
+CREATE POLICY runner_shifts_merchant_select ON public.runner_shifts
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.shops s
+      JOIN public.merchant_accounts ma ON ma.id = s.merchant_id
+      WHERE s.id = runner_shifts.shop_id
+        AND ma.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS runner_cash_entries_merchant_select ON public.runner_cash_entries;
+CREATE POLICY runner_cash_entries_merchant_select ON public.runner_cash_entries
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.shops s
+      JOIN public.merchant_accounts ma ON ma.id = s.merchant_id
+      WHERE s.id = runner_cash_entries.shop_id
+        AND ma.user_id = auth.uid()
+    )
+  );
+
+GRANT SELECT ON public.runner_shifts TO authenticated;
+GRANT SELECT ON public.runner_cash_entries TO authenticated;
+
+-- ============================================================================
+-- Cash collected on delivery
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.record_runner_cash_collection()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'delivered' AND OLD.status <> 'delivered'
+     AND NEW.payment_method = 'cash'
+     AND NEW.delivery_runner_id IS NOT NULL THEN
+    INSERT INTO public.runner_cash_entries (shop_id, runner_id, shift_id, order_id, entry_type, amount_cents, created_by)
+    VALUES (
+      NEW.shop_id,
+      NEW.delivery_runner_id,
+      (SELECT id FROM public.runner_shifts WHERE runner_id = NEW.delivery_runner_id AND status = 'open'),
+      NEW.id,
+      'cash_collected',
+      NEW.total_cents,
+      auth.uid()
+    )
+    ON CONFLICT DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_record_runner_cash ON public.orders;
+CREATE TRIGGER orders_record_runner_cash
+  AFTER UPDATE ON public.orders
+  FOR EACH ROW
+  WHEN (NEW.status IS DISTINCT FROM OLD.status)
+  EXECUTE FUNCTION public.record_runner_cash_collection();
+
+-- ============================================================================
+-- Shifts
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.open_runner_shift(
+  p_runner_id UUID,
+  p_opening_float_cents INTEGER DEFAULT 0
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_runner public.delivery_runners%ROWTYPE;
+  v_shift public.runner_shifts%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'NOT_AUTHENTICATED';
+  END IF;
+
+  SELECT dr.* INTO v_runner
+  FROM public.delivery_runners dr
+  JOIN public.shops s ON s.id = dr.shop_id
+  JOIN public.merchant_accounts ma ON ma.id = s.merchant_id
+  WHERE dr.id = p_runner_id
+    AND ma.user_id = v_user_id
+  FOR UPDATE OF dr;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'RUNNER_NOT_FOUND';
+  END IF;
+
+  IF v_runner.archived_at IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'RUNNER_ARCHIVED';
+  END IF;
+
+  IF p_opening_float_cents IS NULL OR p_opening_float_cents < 0 THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_CASH_AMOUNT';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.runner_shifts WHERE runner_id = p_runner_id AND status = 'open') THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SHIFT_ALREADY_OPEN';
+  END IF;
+
+  INSERT INTO public.runner_shifts (shop_id, runner_id, opening_float_cents, opened_by)
+  VALUES (v_runner.shop_id, p_runner_id, p_opening_float_cents, v_user_id)
+  RETURNING * INTO v_shift;
+
+  IF p_opening_float_cents > 0 THEN
+    INSERT INTO public.runner_cash_entries (shop_id, runner_id, shift_id, entry_type, amount_cents, created_by)
+    VALUES (v_runner.shop_id, p_runner_id, v_shift.id, 'float_issued', p_opening_float_cents, v_user_id);
+  END IF;
+
+  RETURN to_jsonb(v_shift);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.open_runner_shift(UUID, INTEGER) TO authenticated;
+
+COMMENT ON FUNCTION public.open_runner_shift IS 'Starts a shift for one of the caller''s runners, optionally handing out a change float';
+
+-- The runner is expected to hand over their whole outstanding balance:
+-- this shift's collections and float plus anything carried over.
+CREATE OR REPLACE FUNCTION public.close_runner_shift(
+  p_shift_id UUID,
+  p_handed_over_cents INTEGER,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_shift public.runner_shifts%ROWTYPE;
+  v_expected INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'NOT_AUTHENTICATED';
+  END IF;
+
+  SELECT rs.* INTO v_shift
+  FROM public.runner_shifts rs
+  JOIN public.shops s ON s.id = rs.shop_id
+  JOIN public.merchant_accounts ma ON ma.id = s.merchant_id
+  WHERE rs.id = p_shift_id
+    AND ma.user_id = v_user_id
+  FOR UPDATE OF rs;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SHIFT_NOT_FOUND';
+  END IF;
+
+  IF v_shift.status <> 'open' THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SHIFT_NOT_OPEN';
+  END IF;
+
+  IF p_handed_over_cents IS NULL OR p_handed_over_cents < 0 THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_CASH_AMOUNT';
+  END IF;
+
+  SELECT COALESCE(SUM(amount_cents), 0)::INTEGER INTO v_expected
+  FROM public.runner_cash_entries
+  WHERE runner_id = v_shift.runner_id;
+
+  IF p_handed_over_cents > 0 THEN
+    INSERT INTO public.runner_cash_entries (shop_id, runner_id, shift_id, entry_type, amount_cents, created_by)
+    VALUES (v_shift.shop_id, v_shift.runner_id, p_shift_id, 'handover', -p_handed_over_cents, v_user_id);
+  END IF;
+
+  UPDATE public.runner_shifts
+  SET
+    status = 'closed',
+    expected_cents = v_expected,
+    handed_over_cents = p_handed_over_cents,
+    variance_cents = p_handed_over_cents - v_expected,
+    note = NULLIF(btrim(p_note), ''),
+    closed_at = timezone('utc'::TEXT, now()),
+    closed_by = v_user_id
+  WHERE id = p_shift_id
+  RETURNING * INTO v_shift;
+
+  RETURN to_jsonb(v_shift);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.close_runner_shift(UUID, INTEGER, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.close_runner_shift IS 'Closes a runner''s shift with the cash handed over and records the variance against the expected balance';
+
+-- ============================================================================
+-- Balances
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_runner_cash_balances(p_shop_id UUID)
+RETURNS TABLE (
+  runner_id UUID,
+  balance_cents INTEGER,
+  open_shift_id UUID,
+  last_handover_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    dr.id,
+    COALESCE((
+      SELECT SUM(e.amount_cents) FROM public.runner_cash_entries e WHERE e.runner_id = dr.id
+    ), 0)::INTEGER,
+    (SELECT rs.id FROM public.runner_shifts rs WHERE rs.runner_id = dr.id AND rs.status = 'open'),
+    (SELECT MAX(rs.closed_at) FROM public.runner_shifts rs WHERE rs.runner_id = dr.id)
+  FROM public.delivery_runners dr
+  JOIN public.shops s ON s.id = dr.shop_id
+  JOIN public.merchant_accounts ma ON ma.id = s.merchant_id
+  WHERE dr.shop_id = p_shop_id
+    AND ma.user_id = auth.uid();
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_runner_cash_balances(UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.get_runner_cash_balances IS 'Outstanding cash per runner of one of the caller''s shops, with the open shift if any';
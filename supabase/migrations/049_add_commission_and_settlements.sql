@@ -0,0 +1,451 @@
+-- ============================================================================
+-- PLATFORM COMMISSION, PAYOUTS AND SETTLEMENT STATEMENTS
+-- ============================================================================
+-- The shop ledger (047) becomes the money model between the platform and a
+-- shop. Its balance is what the platform owes the shop; negative means the
+-- shop owes the platform (e.g. commission on cash orders it collected itself).
+--   * commission_rates: a platform default, overridden per shop type and per
+--     shop, as basis points of the order subtotal plus a fixed fee; set by
+--     admins through set_commission_rate()
+--   * a delivered order adds 'order_revenue' (+total) and 'commission'
+--     (-commission); a cash order also adds 'cash_collected' (-total), since
+--     the shop already holds that money
+--   * a refund on a cash order is paid back by the shop, so it is offset with
+--     a 'cash_collected' reversal; card refunds come out of the balance
+--   * admins record 'adjustment' and 'payout' entries
+--   * settlement_statements close the ledger per shop and period; they are
+--     generated weekly (Monday, for the week before) and lock their entries
+-- Rates in force when an order is delivered are used; later changes do not
+-- touch existing entries. Orders delivered before this migration are not
+-- booked; each shop's balance starts at zero.
+-- ============================================================================
+
+-- ============================================================================
+-- Commission rates
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.commission_rates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  -- Neither set: platform default; one set: override for that scope
+  shop_id UUID REFERENCES public.shops(id) ON DELETE CASCADE,
+  shop_type TEXT,
+  rate_bps INTEGER NOT NULL CHECK (rate_bps BETWEEN 0 AND 10000),
+  fixed_fee_cents INTEGER NOT NULL DEFAULT 0 CHECK (fixed_fee_cents >= 0),
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc'::TEXT, now()),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc'::TEXT, now()),
+  CONSTRAINT commission_rates_single_scope CHECK (shop_id IS NULL OR shop_type IS NULL)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS commission_rates_default_unique
+  ON public.commission_rates ((true)) WHERE shop_id IS NULL AND shop_type IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS commission_rates_shop_type_unique
+  ON public.commission_rates (shop_type) WHERE shop_type IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS commission_rates_shop_unique
+  ON public.commission_rates (shop_id) WHERE shop_id IS NOT NULL;
+
+COMMENT ON TABLE public.commission_rates IS 'Platform commission: default, per shop type, or per shop (most specific wins)';
+COMMENT ON COLUMN public.commission_rates.shop_type IS 'A shops.shop_type value, e.g. Grocery';
+COMMENT ON COLUMN public.commission_rates.rate_bps IS 'Commission in basis points of the order subtotal (250 = 2.5%)';
+
+DROP TRIGGER IF EXISTS commission_rates_touch ON public.commission_rates;
+CREATE TRIGGER commission_rates_touch
+  BEFORE UPDATE ON public.commission_rates
+  FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+-- No commission until the platform configures one
+INSERT INTO public.commission_rates (rate_bps, fixed_fee_cents)
+SELECT 0, 0
+WHERE NOT EXISTS (SELECT 1 FROM public.commission_rates WHERE shop_id IS NULL AND shop_type IS NULL);
+
+ALTER TABLE public.commission_rates ENABLE ROW LEVEL SECURITY;
+
+-- Merchants can see the rates that can apply to their shops
+DROP POLICY IF EXISTS commission_rates_merchant_select ON public.commission_rates;
+CREATE POLICY commission_rates_merchant_select ON public.commission_rates
+  FOR SELECT USING (
+    shop_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM public.shops s
+      JOIN public.merchant_accounts ma ON ma.id = s.merchant_id
+      WHERE s.id = commission_rates.shop_id
+        AND ma.user_id = auth.uid()
+    )
+  );
+
+GRANT SELECT ON public.commission_rates TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_shop_commission_rate(p_shop_id UUID)
+RETURNS public.commission_rates
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT cr.*
+  FROM public.commission_rates cr
+  LEFT JOIN public.shops s ON s.id = p_shop_id
+  WHERE cr.shop_id = p_shop_id
+     OR cr.shop_type = s.shop_type
+     OR (cr.shop_id IS NULL AND cr.shop_type IS NULL)
+  ORDER BY (cr.shop_id IS NOT NULL) DESC, (cr.shop_type IS NOT NULL) DESC
+  LIMIT 1;
+$$;
+
+-- Used by the settlement trigger; merchants read their rates through RLS
+REVOKE ALL ON FUNCTION public.get_shop_commission_rate(UUID) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.get_shop_commission_rate IS 'The commission rate in force for a shop: shop override, then shop type, then platform default';
+
+CREATE OR REPLACE FUNCTION public.is_platform_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND role = 'admin');
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_platform_admin() TO authenticated;
+
+-- p_shop_id and p_shop_type both NULL sets the platform default
+CREATE OR REPLACE FUNCTION public.set_commission_rate(
+  p_rate_bps INTEGER,
+  p_fixed_fee_cents INTEGER DEFAULT 0,
+  p_shop_id UUID DEFAULT NULL,
+  p_shop_type TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rate public.commission_rates%ROWTYPE;
+BEGIN
+  IF NOT public.is_platform_admin() THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'NOT_AUTHORIZED';
+  END IF;
+
+  IF p_shop_id IS NOT NULL AND p_shop_type IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_COMMISSION_SCOPE';
+  END IF;
+
+  IF p_rate_bps IS NULL OR p_rate_bps < 0 OR p_rate_bps > 10000
+     OR p_fixed_fee_cents IS NULL OR p_fixed_fee_cents < 0 THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_COMMISSION_RATE',
+      DETAIL = format('rate_bps=%s fixed_fee_cents=%s', p_rate_bps, p_fixed_fee_cents);
+  END IF;
+
+  UPDATE public.commission_rates
+  SET rate_bps = p_rate_bps, fixed_fee_cents = p_fixed_fee_cents, updated_by = auth.uid()
+  WHERE shop_id IS NOT DISTINCT FROM p_shop_id
+    AND shop_type IS NOT DISTINCT FROM p_shop_type
+  RETURNING * INTO v_rate;
+
+  IF NOT FOUND THEN
+    INSERT INTO public.commission_rates (shop_id, shop_type, rate_bps, fixed_fee_cents, updated_by)
+    VALUES (p_shop_id, p_shop_type, p_rate_bps, p_fixed_fee_cents, auth.uid())
+    RETURNING * INTO v_rate;
+  END IF;
+
+  RETURN to_jsonb(v_rate);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_commission_rate(INTEGER, INTEGER, UUID, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.set_commission_rate IS 'Admin only: sets the platform default, a shop type or a shop commission rate';
+
+-- ============================================================================
+-- Ledger entry types
+-- ============================================================================
+
+ALTER TABLE public.shop_ledger_entries DROP CONSTRAINT IF EXISTS check_ledger_entry_type;
+ALTER TABLE public.shop_ledger_entries ADD CONSTRAINT check_ledger_entry_type
+  CHECK (entry_type IN ('order_revenue', 'cash_collected', 'commission', 'refund', 'adjustment', 'payout'));
+
+-- One revenue, commission and collection entry per order
+CREATE UNIQUE INDEX IF NOT EXISTS shop_ledger_entries_order_once
+  ON public.shop_ledger_entries (order_id, entry_type)
+  WHERE entry_type IN ('order_revenue', 'commission') OR (entry_type = 'cash_collected' AND source_id IS NULL);
+
+-- ============================================================================
+-- Order revenue and commission
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.record_order_settlement_entries()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rate public.commission_rates%ROWTYPE;
+  v_commission INTEGER;
+BEGIN
+  IF NEW.status <> 'delivered' OR OLD.status = 'delivered' THEN
+    RETURN NEW;
+  END IF;
+
+  v_rate := public.get_shop_commission_rate(NEW.shop_id);
+  v_commission := LEAST(
+    NEW.subtotal_cents,
+    round(NEW.subtotal_cents * COALESCE(v_rate.rate_bps, 0) / 10000.0)::INTEGER + COALESCE(v_rate.fixed_fee_cents, 0)
+  );
+
+  INSERT INTO public.shop_ledger_entries (shop_id, order_id, entry_type, amount_cents, description)
+  VALUES (NEW.shop_id, NEW.id, 'order_revenue', NEW.total_cents, 'Order delivered')
+  ON CONFLICT DO NOTHING;
+
+  IF v_commission > 0 THEN
+    INSERT INTO public.shop_ledger_entries (shop_id, order_id, entry_type, amount_cents, description)
+    VALUES (
+      NEW.shop_id, NEW.id, 'commission', -v_commission,
+      format('%s%% of subtotal%s', to_char(v_rate.rate_bps / 100.0, 'FM990.99'),
+        CASE WHEN v_rate.fixed_fee_cents > 0 THEN ' + fixed fee' ELSE '' END)
+    )
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  IF NEW.payment_method = 'cash' THEN
+    INSERT INTO public.shop_ledger_entries (shop_id, order_id, entry_type, amount_cents, description)
+    VALUES (NEW.shop_id, NEW.id, 'cash_collected', -NEW.total_cents, 'Cash collected by the shop')
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_record_settlement_entries ON public.orders;
+CREATE TRIGGER orders_record_settlement_entries
+  AFTER UPDATE ON public.orders
+  FOR EACH ROW
+  WHEN (NEW.status IS DISTINCT FROM OLD.status)
+  EXECUTE FUNCTION public.record_order_settlement_entries();
+
+-- The shop hands cash refunds back itself
+CREATE OR REPLACE FUNCTION public.offset_cash_refund()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.entry_type = 'refund' AND EXISTS (
+    SELECT 1 FROM public.orders WHERE id = NEW.order_id AND payment_method = 'cash'
+  ) THEN
+    INSERT INTO public.shop_ledger_entries (shop_id, order_id, entry_type, amount_cents, source_id, description, created_by)
+    VALUES (NEW.shop_id, NEW.order_id, 'cash_collected', -NEW.amount_cents, NEW.source_id, 'Refund paid in cash by the shop', NEW.created_by);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS shop_ledger_offset_cash_refund ON public.shop_ledger_entries;
+CREATE TRIGGER shop_ledger_offset_cash_refund
+  AFTER INSERT ON public.shop_ledger_entries
+  FOR EACH ROW
+  WHEN (NEW.entry_type = 'refund')
+  EXECUTE FUNCTION public.offset_cash_refund();
+
+-- The ledger starts from this migration: refunds already booked (047) are
+-- cancelled out by one opening adjustment per shop, so every shop opens at
+-- zero and orders delivered before now are not re-booked.
+INSERT INTO public.shop_ledger_entries (shop_id, entry_type, amount_cents, description)
+SELECT le.shop_id, 'adjustment', -SUM(le.amount_cents)::INTEGER, 'Opening balance'
+FROM public.shop_ledger_entries le
+GROUP BY le.shop_id
+HAVING SUM(le.amount_cents) <> 0;
+
+-- ============================================================================
+-- Adjustments and payouts
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.record_shop_ledger_entry(
+  p_shop_id UUID,
+  p_entry_type TEXT,
+  p_amount_cents INTEGER,
+  p_description TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry public.shop_ledger_entries%ROWTYPE;
+BEGIN
+  IF NOT public.is_platform_admin() THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'NOT_AUTHORIZED';
+  END IF;
+
+  IF p_entry_type NOT IN ('adjustment', 'payout') THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_LEDGER_ENTRY_TYPE',
+      DETAIL = format('entry_type=%s', p_entry_type);
+  END IF;
+
+  -- A payout is money sent to the shop, so it always reduces the balance
+  IF p_amount_cents IS NULL OR p_amount_cents = 0 OR (p_entry_type = 'payout' AND p_amount_cents < 0) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_LEDGER_AMOUNT';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.shops WHERE id = p_shop_id) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SHOP_NOT_FOUND';
+  END IF;
+
+  INSERT INTO public.shop_ledger_entries (shop_id, entry_type, amount_cents, description, created_by)
+  VALUES (
+    p_shop_id,
+    p_entry_type,
+    CASE WHEN p_entry_type = 'payout' THEN -p_amount_cents ELSE p_amount_cents END,
+    NULLIF(btrim(p_description), ''),
+    auth.uid()
+  )
+  RETURNING * INTO v_entry;
+
+  RETURN to_jsonb(v_entry);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_shop_ledger_entry(UUID, TEXT, INTEGER, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.record_shop_ledger_entry IS 'Admin only: records a signed adjustment or a payout sent to a shop';
+
+-- ============================================================================
+-- Settlement statements
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.settlement_statements (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  shop_id UUID NOT NULL REFERENCES public.shops(id) ON DELETE CASCADE,
+  -- [period_start, period_end)
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  opening_balance_cents INTEGER NOT NULL,
+  order_count INTEGER NOT NULL DEFAULT 0,
+  order_revenue_cents INTEGER NOT NULL DEFAULT 0,
+  cash_collected_cents INTEGER NOT NULL DEFAULT 0,
+  commission_cents INTEGER NOT NULL DEFAULT 0,
+  refund_cents INTEGER NOT NULL DEFAULT 0,
+  adjustment_cents INTEGER NOT NULL DEFAULT 0,
+  payout_cents INTEGER NOT NULL DEFAULT 0,
+  closing_balance_cents INTEGER NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc'::TEXT, now()),
+  CONSTRAINT settlement_statements_period CHECK (period_end > period_start),
+  CONSTRAINT settlement_statements_shop_period UNIQUE (shop_id, period_start)
+);
+
+CREATE INDEX IF NOT EXISTS settlement_statements_shop_idx ON public.settlement_statements (shop_id, period_start DESC);
+
+COMMENT ON TABLE public.settlement_statements IS 'Closed ledger periods per shop; amounts are signed sums of the period''s entries by type';
+
+ALTER TABLE public.shop_ledger_entries
+  ADD COLUMN IF NOT EXISTS statement_id UUID REFERENCES public.settlement_statements(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS shop_ledger_entries_statement_idx ON public.shop_ledger_entries (statement_id);
+CREATE INDEX IF NOT EXISTS shop_ledger_entries_unsettled_idx
+  ON public.shop_ledger_entries (shop_id, created_at) WHERE statement_id IS NULL;
+
+ALTER TABLE public.settlement_statements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS settlement_statements_merchant_select ON public.settlement_statements;
+CREATE POLICY settlement_statements_merchant_select ON public.settlement_statements
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.shops s
+      JOIN public.merchant_accounts ma ON ma.id = s.merchant_id
+      WHERE s.id = settlement_statements.shop_id
+        AND ma.user_id = auth.uid()
+    )
+  );
+
+GRANT SELECT ON public.settlement_statements TO authenticated;
+
+-- Closes every shop's unsettled entries up to p_period_end (exclusive). A
+-- shop's period starts where its last statement ended, or at its first entry.
+CREATE OR REPLACE FUNCTION public.generate_settlement_statements(p_period_end DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_shop_id UUID;
+  v_start DATE;
+  v_opening INTEGER;
+  v_statement public.settlement_statements%ROWTYPE;
+  v_count INTEGER := 0;
+  v_cutoff TIMESTAMPTZ := p_period_end::TIMESTAMP AT TIME ZONE 'utc';
+BEGIN
+  FOR v_shop_id IN
+    SELECT DISTINCT le.shop_id
+    FROM public.shop_ledger_entries le
+    WHERE le.statement_id IS NULL
+      AND le.created_at < v_cutoff
+  LOOP
+    SELECT period_end, closing_balance_cents INTO v_start, v_opening
+    FROM public.settlement_statements
+    WHERE shop_id = v_shop_id
+    ORDER BY period_end DESC
+    LIMIT 1;
+
+    IF v_start IS NULL THEN
+      SELECT (MIN(created_at) AT TIME ZONE 'utc')::DATE INTO v_start
+      FROM public.shop_ledger_entries
+      WHERE shop_id = v_shop_id AND statement_id IS NULL;
+      v_opening := 0;
+    END IF;
+
+    CONTINUE WHEN v_start >= p_period_end;
+
+    INSERT INTO public.settlement_statements (
+      shop_id, period_start, period_end, opening_balance_cents, order_count,
+      order_revenue_cents, cash_collected_cents, commission_cents, refund_cents,
+      adjustment_cents, payout_cents, closing_balance_cents
+    )
+    SELECT
+      v_shop_id, v_start, p_period_end, v_opening,
+      COUNT(*) FILTER (WHERE entry_type = 'order_revenue')::INTEGER,
+      COALESCE(SUM(amount_cents) FILTER (WHERE entry_type = 'order_revenue'), 0)::INTEGER,
+      COALESCE(SUM(amount_cents) FILTER (WHERE entry_type = 'cash_collected'), 0)::INTEGER,
+      COALESCE(SUM(amount_cents) FILTER (WHERE entry_type = 'commission'), 0)::INTEGER,
+      COALESCE(SUM(amount_cents) FILTER (WHERE entry_type = 'refund'), 0)::INTEGER,
+      COALESCE(SUM(amount_cents) FILTER (WHERE entry_type = 'adjustment'), 0)::INTEGER,
+      COALESCE(SUM(amount_cents) FILTER (WHERE entry_type = 'payout'), 0)::INTEGER,
+      v_opening + COALESCE(SUM(amount_cents), 0)::INTEGER
+    FROM public.shop_ledger_entries
+    WHERE shop_id = v_shop_id
+      AND statement_id IS NULL
+      AND created_at < v_cutoff
+    RETURNING * INTO v_statement;
+
+    UPDATE public.shop_ledger_entries
+    SET statement_id = v_statement.id
+    WHERE shop_id = v_shop_id
+      AND statement_id IS NULL
+      AND created_at < v_cutoff;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.generate_settlement_statements(DATE) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.generate_settlement_statements IS 'Scheduler only: issues statements for all shops with unsettled entries before the given date';
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'generate-settlement-statements',
+      '0 1 * * 1',
+      'SELECT public.generate_settlement_statements(date_trunc(''week'', timezone(''utc'', now()))::DATE)'
+    );
+  END IF;
+END $$;
@@ -0,0 +1,999 @@
+-- ============================================================================
+-- CONSUMER WALLET (STORE CREDIT)
+-- ============================================================================
+-- Each consumer has a store-credit balance with an append-only transaction
+-- history. This is separate from the 'wallet' payment method, which is an
+-- external mobile wallet handled by the payment provider.
+--   * place_order() and place_order_group() take the credit to spend
+--     (p_wallet_credit_cents) and debit it in the same transaction as the
+--     order, as full or partial payment; the rest is paid with the order's
+--     payment method (cash on delivery, or a card/mobile-wallet authorization
+--     for the remainder only). Credit covering the whole order makes it cash
+--     with nothing to collect. A group spends it shop by shop until used up
+--   * orders.wallet_credit_cents joins the payment columns only the payment
+--     functions may change
+--   * cancelling or rejecting an order returns its credit
+--   * delivering an order whose total dropped below the credit spent (items
+--     unavailable, lighter weights) returns the difference
+--   * an approved return is refunded into the wallet; the shop ledger keeps
+--     charging the shop through its 'refund' entry, so the cash offset from
+--     049 no longer applies
+--   * admins grant goodwill and promotional credit
+-- Cash runners and the shop ledger only count the cash part of an order.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.consumer_wallets (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  balance_cents INTEGER NOT NULL DEFAULT 0 CHECK (balance_cents >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc'::TEXT, now()),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc'::TEXT, now())
+);
+
+COMMENT ON TABLE public.consumer_wallets IS 'Store-credit balance per consumer; always the sum of their wallet_transactions';
+
+DROP TRIGGER IF EXISTS consumer_wallets_touch ON public.consumer_wallets;
+CREATE TRIGGER consumer_wallets_touch
+  BEFORE UPDATE ON public.consumer_wallets
+  FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+CREATE TABLE IF NOT EXISTS public.wallet_transactions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  transaction_type TEXT NOT NULL
+    CHECK (transaction_type IN ('order_payment', 'order_cancelled', 'order_adjustment', 'refund', 'goodwill', 'promotion')),
+  -- Signed: credits are positive, spending is negative
+  amount_cents INTEGER NOT NULL CHECK (amount_cents <> 0),
+  balance_after_cents INTEGER NOT NULL CHECK (balance_after_cents >= 0),
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  -- The row that caused it, e.g. the order_returns id for a refund
+  source_id UUID,
+  description TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT timezone('utc'::TEXT, now())
+);
+
+CREATE INDEX IF NOT EXISTS wallet_transactions_user_idx ON public.wallet_transactions (user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS wallet_transactions_order_idx ON public.wallet_transactions (order_id);
+
+COMMENT ON TABLE public.wallet_transactions IS 'Append-only store-credit history; written only by post_wallet_transaction()';
+
+CREATE OR REPLACE FUNCTION public.prevent_wallet_transaction_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'WALLET_TRANSACTIONS_APPEND_ONLY';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS wallet_transactions_append_only ON public.wallet_transactions;
+CREATE TRIGGER wallet_transactions_append_only
+  BEFORE UPDATE OR DELETE ON public.wallet_transactions
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_wallet_transaction_changes();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'orders' AND column_name = 'wallet_credit_cents') THEN
+    ALTER TABLE public.orders ADD COLUMN wallet_credit_cents INTEGER NOT NULL DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.table_constraints WHERE constraint_schema = 'public' AND table_name = 'orders' AND constraint_name = 'check_wallet_credit_cents') THEN
+    ALTER TABLE public.orders ADD CONSTRAINT check_wallet_credit_cents CHECK (wallet_credit_cents >= 0);
+  END IF;
+END $$;
+
+COMMENT ON COLUMN public.orders.wallet_credit_cents IS 'Store credit spent on the order; the rest of total_cents is paid with payment_method';
+
+ALTER TABLE public.consumer_wallets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.wallet_transactions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS consumer_wallets_owner_select ON public.consumer_wallets;
+CREATE POLICY consumer_wallets_owner_select ON public.consumer_wallets
+  FOR SELECT USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS wallet_transactions_owner_select ON public.wallet_transactions;
+CREATE POLICY wallet_transactions_owner_select ON public.wallet_transactions
+  FOR SELECT USING (user_id = auth.uid());
+
+GRANT SELECT ON public.consumer_wallets TO authenticated;
+GRANT SELECT ON public.wallet_transactions TO authenticated;
+
+-- ============================================================================
+-- Posting
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.post_wallet_transaction(
+  p_user_id UUID,
+  p_transaction_type TEXT,
+  p_amount_cents INTEGER,
+  p_order_id UUID DEFAULT NULL,
+  p_source_id UUID DEFAULT NULL,
+  p_description TEXT DEFAULT NULL
+)
+RETURNS public.wallet_transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance INTEGER;
+  v_transaction public.wallet_transactions%ROWTYPE;
+BEGIN
+  INSERT INTO public.consumer_wallets (user_id)
+  VALUES (p_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT balance_cents INTO v_balance
+  FROM public.consumer_wallets
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF v_balance + p_amount_cents < 0 THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INSUFFICIENT_WALLET_BALANCE',
+      DETAIL = format('Balance %s cannot cover %s', v_balance, -p_amount_cents);
+  END IF;
+
+  UPDATE public.consumer_wallets
+  SET balance_cents = v_balance + p_amount_cents
+  WHERE user_id = p_user_id;
+
+  INSERT INTO public.wallet_transactions (
+    user_id, transaction_type, amount_cents, balance_after_cents, order_id, source_id, description, created_by
+  )
+  VALUES (
+    p_user_id, p_transaction_type, p_amount_cents, v_balance + p_amount_cents,
+    p_order_id, p_source_id, p_description, auth.uid()
+  )
+  RETURNING * INTO v_transaction;
+
+  RETURN v_transaction;
+END;
+$$;
+
+-- Internal: callers check who may move which balance
+REVOKE ALL ON FUNCTION public.post_wallet_transaction(UUID, TEXT, INTEGER, UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.post_wallet_transaction IS 'Internal: moves a wallet balance and appends the matching transaction';
+
+-- ============================================================================
+-- Spending credit at checkout
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.apply_wallet_credit(
+  p_order_id UUID,
+  p_amount_cents INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_order public.orders%ROWTYPE;
+  v_amount INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'NOT_AUTHENTICATED';
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR v_order.user_id <> v_user_id THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ORDER_NOT_FOUND';
+  END IF;
+
+  IF v_order.status <> 'pending'
+     OR v_order.wallet_credit_cents > 0
+     OR EXISTS (SELECT 1 FROM public.payment_intents WHERE order_id = p_order_id) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ORDER_NOT_PAYABLE',
+      DETAIL = format('Order %s is %s', p_order_id, v_order.status);
+  END IF;
+
+  IF p_amount_cents IS NULL OR p_amount_cents <= 0 THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_WALLET_AMOUNT';
+  END IF;
+
+  v_amount := LEAST(p_amount_cents, v_order.total_cents);
+
+  PERFORM public.post_wallet_transaction(
+    v_user_id, 'order_payment', -v_amount, p_order_id, NULL,
+    format('Paid towards order %s', COALESCE(v_order.order_number, v_order.id::TEXT))
+  );
+
+  PERFORM set_config('app.order_payment_write', 'on', true);
+
+  UPDATE public.orders
+  SET
+    wallet_credit_cents = v_amount,
+    -- Nothing left for a card or mobile wallet to charge
+    payment_method = CASE WHEN v_amount >= total_cents THEN 'cash'::payment_method ELSE payment_method END,
+    payment_status = CASE WHEN v_amount >= total_cents THEN 'not_required' ELSE payment_status END
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  PERFORM set_config('app.order_payment_write', 'off', true);
+
+  RETURN jsonb_build_object('order_id', v_order.id, 'wallet_credit_cents', v_order.wallet_credit_cents,
+    'payment_method', v_order.payment_method);
+END;
+$$;
+
+-- Internal: reached through place_order, in the transaction that placed the order
+REVOKE ALL ON FUNCTION public.apply_wallet_credit(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.apply_wallet_credit IS 'Internal: spends up to the given store credit on the caller''s order being placed';
+
+-- Same as 046, with the store credit spent on the order
+DROP TRIGGER IF EXISTS orders_protect_payment_columns ON public.orders;
+CREATE TRIGGER orders_protect_payment_columns
+  BEFORE UPDATE ON public.orders
+  FOR EACH ROW
+  WHEN (
+    NEW.payment_status IS DISTINCT FROM OLD.payment_status
+    OR NEW.payment_method IS DISTINCT FROM OLD.payment_method
+    OR NEW.wallet_credit_cents IS DISTINCT FROM OLD.wallet_credit_cents
+  )
+  EXECUTE FUNCTION public.protect_order_payment_columns();
+
+-- ============================================================================
+-- place_order / place_order_group: store credit
+-- ============================================================================
+-- Same as 045 and 043, with the store credit to spend.
+
+DROP FUNCTION IF EXISTS public.place_order(UUID, UUID, JSONB, payment_method, TEXT, TEXT, UUID, TIMESTAMPTZ, TEXT);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_shop_id UUID,
+  p_consumer_address_id UUID,
+  p_items JSONB,
+  p_payment_method payment_method DEFAULT 'cash',
+  p_special_instructions TEXT DEFAULT NULL,
+  p_idempotency_key TEXT DEFAULT NULL,
+  p_delivery_slot_id UUID DEFAULT NULL,
+  p_scheduled_for TIMESTAMPTZ DEFAULT NULL,
+  p_fulfilment_type TEXT DEFAULT 'delivery',
+  p_wallet_credit_cents INTEGER DEFAULT 0
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_address public.consumer_addresses%ROWTYPE;
+  v_shop public.shops%ROWTYPE;
+  v_profile RECORD;
+  v_requested_count INTEGER;
+  v_found_count INTEGER;
+  v_missing_item UUID;
+  v_inactive_item UUID;
+  v_variant_line RECORD;
+  v_bad_quantity_line RECORD;
+  v_short_line RECORD;
+  v_subtotal_cents INTEGER;
+  v_distance DOUBLE PRECISION;
+  v_pricing RECORD;
+  v_order public.orders%ROWTYPE;
+  v_existing_order_id UUID;
+  v_slot public.shop_delivery_slots%ROWTYPE;
+  v_slot_local TIMESTAMP;
+  v_slot_booked INTEGER;
+  v_fulfilment_type TEXT := COALESCE(p_fulfilment_type, 'delivery');
+  v_delivery_fee_cents INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'NOT_AUTHENTICATED';
+  END IF;
+
+  -- Replayed submission: return the order created by the first attempt.
+  -- The advisory lock serialises concurrent retries carrying the same key.
+  IF p_idempotency_key IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtextextended(v_user_id::TEXT || ':' || p_idempotency_key, 0));
+
+    SELECT id INTO v_existing_order_id
+    FROM public.orders
+    WHERE user_id = v_user_id AND idempotency_key = p_idempotency_key;
+
+    IF v_existing_order_id IS NOT NULL THEN
+      RETURN public.order_with_items_json(v_existing_order_id);
+    END IF;
+  END IF;
+
+  -- Address must exist and belong to the caller
+  SELECT * INTO v_address
+  FROM public.consumer_addresses
+  WHERE id = p_consumer_address_id AND user_id = v_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ADDRESS_NOT_FOUND',
+      DETAIL = format('Address %s not found for user', p_consumer_address_id);
+  END IF;
+
+  IF v_address.street_address IS NULL OR v_address.city IS NULL
+     OR v_address.latitude IS NULL OR v_address.longitude IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ADDRESS_INVALID',
+      DETAIL = 'Address is missing street, city or coordinates';
+  END IF;
+
+  SELECT * INTO v_shop FROM public.shops WHERE id = p_shop_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SHOP_NOT_FOUND';
+  END IF;
+
+  IF v_fulfilment_type NOT IN ('delivery', 'pickup') THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_FULFILMENT_TYPE';
+  END IF;
+
+  IF v_fulfilment_type = 'pickup' AND NOT EXISTS (
+    SELECT 1 FROM public.shop_delivery_logic
+    WHERE shop_id = p_shop_id AND pickup_enabled
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'PICKUP_UNAVAILABLE',
+      DETAIL = format('Shop %s does not offer pickup', p_shop_id);
+  END IF;
+
+  -- Scheduled orders may be placed while the shop is closed
+  IF v_shop.is_open IS DISTINCT FROM TRUE AND p_delivery_slot_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SHOP_CLOSED';
+  END IF;
+
+  IF p_delivery_slot_id IS NOT NULL THEN
+    -- Lock the slot so concurrent bookings of its last place are serialised
+    SELECT * INTO v_slot
+    FROM public.shop_delivery_slots
+    WHERE id = p_delivery_slot_id AND shop_id = p_shop_id AND is_active
+    FOR UPDATE;
+
+    IF NOT FOUND OR p_scheduled_for IS NULL
+       OR p_scheduled_for <= now() OR p_scheduled_for > now() + INTERVAL '14 days' THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SLOT_UNAVAILABLE',
+        DETAIL = format('Slot %s is not bookable for %s', p_delivery_slot_id, p_scheduled_for);
+    END IF;
+
+    -- scheduled_for must be an occurrence of the slot in the shop's timezone
+    v_slot_local := timezone(v_shop.timezone, p_scheduled_for);
+
+    IF EXTRACT(DOW FROM v_slot_local) <> v_slot.day_of_week OR v_slot_local::TIME <> v_slot.start_time THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SLOT_UNAVAILABLE',
+        DETAIL = format('%s is not a start time of slot %s', p_scheduled_for, p_delivery_slot_id);
+    END IF;
+
+    SELECT COUNT(*) INTO v_slot_booked
+    FROM public.orders
+    WHERE delivery_slot_id = v_slot.id
+      AND scheduled_for = p_scheduled_for
+      AND status NOT IN ('cancelled', 'rejected');
+
+    IF v_slot_booked >= v_slot.max_orders THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SLOT_FULL',
+        DETAIL = format('Slot %s at %s already has %s of %s orders',
+          p_delivery_slot_id, p_scheduled_for, v_slot_booked, v_slot.max_orders);
+    END IF;
+  ELSIF p_scheduled_for IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'SLOT_UNAVAILABLE',
+      DETAIL = 'Scheduled orders must name a delivery slot';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'EMPTY_ORDER';
+  END IF;
+
+  -- Normalise requested lines (merge duplicates of the same item and variant)
+  DROP TABLE IF EXISTS _requested_lines;
+  CREATE TEMP TABLE _requested_lines ON COMMIT DROP AS
+  SELECT
+    (line ->> 'merchant_item_id')::UUID AS merchant_item_id,
+    NULLIF(line ->> 'variant_id', '')::UUID AS variant_id,
+    SUM((line ->> 'quantity')::NUMERIC) AS quantity,
+    COALESCE(MAX(NULLIF(line ->> 'substitution_preference', '')), 'substitute') AS substitution_preference
+  FROM jsonb_array_elements(p_items) AS line
+  GROUP BY (line ->> 'merchant_item_id')::UUID, NULLIF(line ->> 'variant_id', '')::UUID;
+
+  IF EXISTS (
+    SELECT 1 FROM _requested_lines
+    WHERE merchant_item_id IS NULL OR quantity IS NULL OR quantity <= 0 OR quantity <> round(quantity, 3)
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_QUANTITY';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM _requested_lines
+    WHERE substitution_preference NOT IN ('substitute', 'call_me', 'remove')
+  ) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_SUBSTITUTION_PREFERENCE';
+  END IF;
+
+  -- Lock item rows so prices and stock cannot change while the order is written
+  DROP TABLE IF EXISTS _priced_lines;
+  CREATE TEMP TABLE _priced_lines ON COMMIT DROP AS
+  SELECT
+    mi.id AS merchant_item_id,
+    rl.variant_id AS requested_variant_id,
+    v.id AS variant_id,
+    v.name AS variant_name,
+    v.is_active AS variant_is_active,
+    EXISTS (
+      SELECT 1 FROM public.merchant_item_variants av
+      WHERE av.merchant_item_id = mi.id AND av.is_active
+    ) AS has_active_variants,
+    COALESCE(mi.name, it.name, '') AS item_name,
+    COALESCE(mi.description, it.description) AS item_description,
+    COALESCE(mi.image_url, it.image_url) AS item_image_url,
+    COALESCE(v.price_cents, mi.price_cents) AS item_price_cents,
+    mi.is_active,
+    mi.available_quantity,
+    mi.unit_type,
+    mi.quantity_step,
+    mi.min_quantity,
+    rl.quantity AS quantity,
+    rl.substitution_preference
+  FROM _requested_lines rl
+  JOIN public.merchant_items mi ON mi.id = rl.merchant_item_id AND mi.shop_id = p_shop_id
+  LEFT JOIN public.item_templates it ON it.id = mi.template_id
+  LEFT JOIN public.merchant_item_variants v ON v.id = rl.variant_id AND v.merchant_item_id = mi.id
+  ORDER BY mi.id
+  FOR UPDATE OF mi;
+
+  SELECT COUNT(*) INTO v_requested_count FROM _requested_lines;
+  SELECT COUNT(*) INTO v_found_count FROM _priced_lines;
+
+  IF v_found_count < v_requested_count THEN
+    SELECT rl.merchant_item_id INTO v_missing_item
+    FROM _requested_lines rl
+    WHERE NOT EXISTS (SELECT 1 FROM _priced_lines pl WHERE pl.merchant_item_id = rl.merchant_item_id)
+    LIMIT 1;
+
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ITEM_NOT_FOUND',
+      DETAIL = format('Item %s does not belong to shop %s', v_missing_item, p_shop_id);
+  END IF;
+
+  SELECT merchant_item_id INTO v_inactive_item FROM _priced_lines WHERE NOT is_active LIMIT 1;
+
+  IF v_inactive_item IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ITEM_UNAVAILABLE',
+      DETAIL = format('Item %s is no longer available', v_inactive_item);
+  END IF;
+
+  -- A chosen variant must exist and be on sale; items with variants need one
+  SELECT merchant_item_id, requested_variant_id INTO v_variant_line
+  FROM _priced_lines
+  WHERE (requested_variant_id IS NOT NULL AND (variant_id IS NULL OR NOT variant_is_active))
+     OR (requested_variant_id IS NULL AND has_active_variants)
+  LIMIT 1;
+
+  IF v_variant_line.merchant_item_id IS NOT NULL THEN
+    IF v_variant_line.requested_variant_id IS NULL THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'VARIANT_REQUIRED',
+        DETAIL = format('Item %s must be ordered as one of its variants', v_variant_line.merchant_item_id);
+    END IF;
+
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'VARIANT_UNAVAILABLE',
+      DETAIL = format('Variant %s of item %s is not available',
+        v_variant_line.requested_variant_id, v_variant_line.merchant_item_id);
+  END IF;
+
+  -- Each line must respect the item's minimum and step (whole units for pieces)
+  SELECT merchant_item_id, quantity, unit_type, quantity_step, min_quantity INTO v_bad_quantity_line
+  FROM _priced_lines
+  WHERE quantity < min_quantity OR mod(quantity, quantity_step) <> 0
+  LIMIT 1;
+
+  IF v_bad_quantity_line.merchant_item_id IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_QUANTITY',
+      DETAIL = format('Item %s is sold in steps of %s %s from %s %s; %s requested',
+        v_bad_quantity_line.merchant_item_id,
+        v_bad_quantity_line.quantity_step, v_bad_quantity_line.unit_type,
+        v_bad_quantity_line.min_quantity, v_bad_quantity_line.unit_type,
+        v_bad_quantity_line.quantity);
+  END IF;
+
+  -- Stock is tracked per item, so variant lines of the same item share it
+  SELECT merchant_item_id, available_quantity, SUM(quantity) AS quantity INTO v_short_line
+  FROM _priced_lines
+  WHERE available_quantity IS NOT NULL
+  GROUP BY merchant_item_id, available_quantity
+  HAVING SUM(quantity) > available_quantity
+  LIMIT 1;
+
+  IF v_short_line.merchant_item_id IS NOT NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INSUFFICIENT_STOCK',
+      DETAIL = format('Item %s has %s available, %s requested',
+        v_short_line.merchant_item_id, v_short_line.available_quantity, v_short_line.quantity);
+  END IF;
+
+  SELECT COALESCE(SUM(round(item_price_cents * quantity)), 0)::INTEGER INTO v_subtotal_cents FROM _priced_lines;
+
+  v_distance := public.haversine_distance_meters(
+    v_address.latitude::DOUBLE PRECISION,
+    v_address.longitude::DOUBLE PRECISION,
+    v_shop.latitude,
+    v_shop.longitude
+  );
+
+  SELECT * INTO v_pricing FROM public.calculate_order_pricing(p_shop_id, v_subtotal_cents, v_distance);
+
+  -- Collected orders pay no delivery fee; the small-order surcharge still applies
+  v_delivery_fee_cents := CASE WHEN v_fulfilment_type = 'pickup' THEN 0 ELSE v_pricing.delivery_fee_cents END;
+
+  SELECT name, email INTO v_profile FROM public.user_profiles WHERE id = v_user_id;
+
+  INSERT INTO public.orders (
+    shop_id,
+    user_id,
+    consumer_address_id,
+    status,
+    subtotal_cents,
+    delivery_fee_cents,
+    surcharge_cents,
+    total_cents,
+    payment_method,
+    special_instructions,
+    delivery_address,
+    customer_name,
+    customer_email,
+    idempotency_key,
+    delivery_slot_id,
+    scheduled_for,
+    fulfilment_type,
+    pickup_code
+  ) VALUES (
+    p_shop_id,
+    v_user_id,
+    v_address.id,
+    'pending',
+    v_subtotal_cents,
+    v_delivery_fee_cents,
+    v_pricing.surcharge_cents,
+    v_subtotal_cents + v_delivery_fee_cents + v_pricing.surcharge_cents,
+    COALESCE(p_payment_method, 'cash'),
+    NULLIF(btrim(p_special_instructions), ''),
+    jsonb_build_object(
+      'id', v_address.id,
+      'title', v_address.title,
+      'street_address', v_address.street_address,
+      'city', v_address.city,
+      'region', v_address.region,
+      'latitude', v_address.latitude,
+      'longitude', v_address.longitude,
+      'landmark', v_address.landmark,
+      'formatted_address', v_address.formatted_address
+    ),
+    v_profile.name,
+    v_profile.email,
+    p_idempotency_key,
+    p_delivery_slot_id,
+    p_scheduled_for,
+    v_fulfilment_type,
+    CASE WHEN v_fulfilment_type = 'pickup' THEN lpad(floor(random() * 10000)::INTEGER::TEXT, 4, '0') END
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO public.order_items (
+    order_id,
+    merchant_item_id,
+    variant_id,
+    variant_name,
+    item_name,
+    item_description,
+    item_image_url,
+    item_price_cents,
+    unit_type,
+    quantity,
+    subtotal_cents,
+    substitution_preference
+  )
+  SELECT
+    v_order.id,
+    merchant_item_id,
+    variant_id,
+    variant_name,
+    item_name,
+    item_description,
+    item_image_url,
+    item_price_cents,
+    unit_type,
+    quantity,
+    round(item_price_cents * quantity)::INTEGER,
+    substitution_preference
+  FROM _priced_lines;
+
+  -- Reserve tracked stock until the order is delivered or cancelled
+  UPDATE public.merchant_items mi
+  SET reserved_quantity = mi.reserved_quantity + pl.quantity
+  FROM (
+    SELECT merchant_item_id, SUM(quantity) AS quantity
+    FROM _priced_lines
+    GROUP BY merchant_item_id
+  ) pl
+  WHERE mi.id = pl.merchant_item_id
+    AND mi.stock_quantity IS NOT NULL;
+
+  -- Store credit is spent with the order, so neither exists without the other
+  IF COALESCE(p_wallet_credit_cents, 0) > 0 THEN
+    PERFORM public.apply_wallet_credit(v_order.id, p_wallet_credit_cents);
+  END IF;
+
+  RETURN public.order_with_items_json(v_order.id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order(UUID, UUID, JSONB, payment_method, TEXT, TEXT, UUID, TIMESTAMPTZ, TEXT, INTEGER) TO authenticated;
+
+COMMENT ON FUNCTION public.place_order IS 'Atomically and idempotently places an ASAP or slot-scheduled delivery or pickup order: locks item prices and slot capacity, recomputes totals from shop_delivery_logic and writes orders + order_items, spending any store credit given';
+
+DROP FUNCTION IF EXISTS public.place_order_group(UUID, JSONB, payment_method, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.place_order_group(
+  p_consumer_address_id UUID,
+  p_shop_orders JSONB,
+  p_payment_method payment_method DEFAULT 'cash',
+  p_special_instructions TEXT DEFAULT NULL,
+  p_idempotency_key TEXT DEFAULT NULL,
+  p_wallet_credit_cents INTEGER DEFAULT 0
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_group_id UUID;
+  v_shop_order JSONB;
+  v_shop_id UUID;
+  v_order JSONB;
+  v_wallet_left INTEGER := GREATEST(COALESCE(p_wallet_credit_cents, 0), 0);
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'NOT_AUTHENTICATED';
+  END IF;
+
+  IF p_shop_orders IS NULL OR jsonb_typeof(p_shop_orders) <> 'array' OR jsonb_array_length(p_shop_orders) = 0 THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'EMPTY_ORDER';
+  END IF;
+
+  IF (SELECT COUNT(DISTINCT value->>'shop_id') FROM jsonb_array_elements(p_shop_orders)) <> jsonb_array_length(p_shop_orders) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'DUPLICATE_SHOP',
+      DETAIL = 'Each shop may appear only once in a grouped checkout';
+  END IF;
+
+  -- Replayed submission: return the group created by the first attempt
+  IF p_idempotency_key IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtextextended(v_user_id::TEXT || ':group:' || p_idempotency_key, 0));
+
+    SELECT id INTO v_group_id
+    FROM public.order_groups
+    WHERE user_id = v_user_id AND idempotency_key = p_idempotency_key;
+
+    IF v_group_id IS NOT NULL THEN
+      RETURN public.order_group_json(v_group_id);
+    END IF;
+  END IF;
+
+  INSERT INTO public.order_groups (user_id, consumer_address_id, payment_method, idempotency_key)
+  VALUES (v_user_id, p_consumer_address_id, p_payment_method, p_idempotency_key)
+  RETURNING id INTO v_group_id;
+
+  FOR v_shop_order IN SELECT value FROM jsonb_array_elements(p_shop_orders) LOOP
+    v_shop_id := (v_shop_order->>'shop_id')::UUID;
+
+    BEGIN
+      v_order := public.place_order(
+        v_shop_id,
+        p_consumer_address_id,
+        v_shop_order->'items',
+        p_payment_method,
+        p_special_instructions,
+        CASE WHEN p_idempotency_key IS NULL THEN NULL ELSE p_idempotency_key || ':' || v_shop_id::TEXT END,
+        NULLIF(v_shop_order->>'delivery_slot_id', '')::UUID,
+        NULLIF(v_shop_order->>'scheduled_for', '')::TIMESTAMPTZ,
+        COALESCE(NULLIF(v_shop_order->>'fulfilment_type', ''), 'delivery'),
+        v_wallet_left
+      );
+    EXCEPTION WHEN OTHERS THEN
+      -- Keep place_order's error code as the message and name the shop it failed for.
+      -- Re-raising aborts the whole group, including orders already placed for other shops.
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = SQLERRM, HINT = v_shop_id::TEXT;
+    END;
+
+    UPDATE public.orders
+    SET order_group_id = v_group_id
+    WHERE id = (v_order->>'id')::UUID;
+
+    v_wallet_left := v_wallet_left - COALESCE((v_order->>'wallet_credit_cents')::INTEGER, 0);
+  END LOOP;
+
+  RETURN public.order_group_json(v_group_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order_group(UUID, JSONB, payment_method, TEXT, TEXT, INTEGER) TO authenticated;
+
+COMMENT ON FUNCTION public.place_order_group IS 'Atomically places one order per shop under a shared order group; fails as a whole if any shop''s order fails; store credit is spent shop by shop until used up';
+
+-- Same as 046, less the store credit already spent on the order
+CREATE OR REPLACE FUNCTION public.create_payment_intent(
+  p_order_id UUID,
+  p_provider TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_order public.orders%ROWTYPE;
+  v_intent public.payment_intents%ROWTYPE;
+  v_weighed_subtotal INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'NOT_AUTHENTICATED';
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR v_order.user_id <> v_user_id THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ORDER_NOT_FOUND';
+  END IF;
+
+  IF v_order.payment_method = 'cash' THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'PAYMENT_NOT_REQUIRED';
+  END IF;
+
+  -- Retried checkout: keep the intent from the first attempt
+  SELECT * INTO v_intent FROM public.payment_intents WHERE order_id = p_order_id;
+  IF FOUND THEN
+    RETURN to_jsonb(v_intent);
+  END IF;
+
+  IF v_order.status <> 'pending' THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'ORDER_NOT_PAYABLE',
+      DETAIL = format('Order %s is %s', p_order_id, v_order.status);
+  END IF;
+
+  IF p_provider IS NULL OR btrim(p_provider) = '' THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_PAYMENT_PROVIDER';
+  END IF;
+
+  SELECT COALESCE(SUM(subtotal_cents), 0)::INTEGER INTO v_weighed_subtotal
+  FROM public.order_items
+  WHERE order_id = p_order_id
+    AND fulfilment_status = 'fulfilled'
+    AND unit_type IN ('kg', 'litre');
+
+  INSERT INTO public.payment_intents (order_id, user_id, provider, payment_method, amount_cents)
+  VALUES (
+    p_order_id,
+    v_user_id,
+    btrim(p_provider),
+    v_order.payment_method,
+    v_order.total_cents - v_order.wallet_credit_cents + ceil(v_weighed_subtotal * 0.10)::INTEGER
+  )
+  RETURNING * INTO v_intent;
+
+  RETURN to_jsonb(v_intent);
+END;
+$$;
+
+-- Same as 046; the card only holds what store credit does not cover
+CREATE OR REPLACE FUNCTION public.cap_order_total_to_authorization()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_authorized_cents INTEGER;
+BEGIN
+  IF NEW.payment_status NOT IN ('pending', 'authorized') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT amount_cents INTO v_authorized_cents
+  FROM public.payment_intents
+  WHERE order_id = NEW.id
+    AND status IN ('requires_authorization', 'authorized');
+
+  IF FOUND AND NEW.total_cents - NEW.wallet_credit_cents > v_authorized_cents THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'PAYMENT_AMOUNT_EXCEEDED',
+      DETAIL = format('Order %s card amount %s is more than the authorized %s',
+        NEW.id, NEW.total_cents - NEW.wallet_credit_cents, v_authorized_cents);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================================================
+-- Credit returned to the wallet
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.return_order_wallet_credit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.wallet_credit_cents = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IN ('cancelled', 'rejected') AND OLD.status NOT IN ('cancelled', 'rejected') THEN
+    PERFORM public.post_wallet_transaction(
+      NEW.user_id, 'order_cancelled', NEW.wallet_credit_cents, NEW.id, NULL,
+      format('Order %s %s', COALESCE(NEW.order_number, NEW.id::TEXT), NEW.status)
+    );
+  ELSIF NEW.status = 'delivered' AND OLD.status <> 'delivered' AND NEW.wallet_credit_cents > NEW.total_cents THEN
+    PERFORM public.post_wallet_transaction(
+      NEW.user_id, 'order_adjustment', NEW.wallet_credit_cents - NEW.total_cents, NEW.id, NULL,
+      format('Order %s came to less than the credit used', COALESCE(NEW.order_number, NEW.id::TEXT))
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_return_wallet_credit ON public.orders;
+CREATE TRIGGER orders_return_wallet_credit
+  AFTER UPDATE ON public.orders
+  FOR EACH ROW
+  WHEN (NEW.status IS DISTINCT FROM OLD.status)
+  EXECUTE FUNCTION public.return_order_wallet_credit();
+
+CREATE OR REPLACE FUNCTION public.refund_return_to_wallet()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_number TEXT;
+BEGIN
+  IF NEW.status = 'approved' AND OLD.status <> 'approved' AND COALESCE(NEW.refund_cents, 0) > 0 THEN
+    SELECT order_number INTO v_order_number FROM public.orders WHERE id = NEW.order_id;
+
+    PERFORM public.post_wallet_transaction(
+      NEW.user_id, 'refund', NEW.refund_cents, NEW.order_id, NEW.id,
+      format('Refund for order %s', COALESCE(v_order_number, NEW.order_id::TEXT))
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS order_returns_refund_to_wallet ON public.order_returns;
+CREATE TRIGGER order_returns_refund_to_wallet
+  AFTER UPDATE ON public.order_returns
+  FOR EACH ROW
+  WHEN (NEW.status IS DISTINCT FROM OLD.status)
+  EXECUTE FUNCTION public.refund_return_to_wallet();
+
+-- Refunds are paid into the wallet now, not in cash by the shop
+DROP TRIGGER IF EXISTS shop_ledger_offset_cash_refund ON public.shop_ledger_entries;
+
+-- ============================================================================
+-- Goodwill and promotional credit
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.grant_wallet_credit(
+  p_user_id UUID,
+  p_amount_cents INTEGER,
+  p_transaction_type TEXT DEFAULT 'goodwill',
+  p_description TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transaction public.wallet_transactions%ROWTYPE;
+BEGIN
+  IF NOT public.is_platform_admin() THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'NOT_AUTHORIZED';
+  END IF;
+
+  IF p_transaction_type NOT IN ('goodwill', 'promotion') THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_WALLET_TRANSACTION_TYPE',
+      DETAIL = format('transaction_type=%s', p_transaction_type);
+  END IF;
+
+  IF p_amount_cents IS NULL OR p_amount_cents <= 0 THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'INVALID_WALLET_AMOUNT';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = p_user_id) THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'USER_NOT_FOUND';
+  END IF;
+
+  v_transaction := public.post_wallet_transaction(
+    p_user_id, p_transaction_type, p_amount_cents, NULL, NULL, NULLIF(btrim(p_description), '')
+  );
+
+  RETURN to_jsonb(v_transaction);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.grant_wallet_credit(UUID, INTEGER, TEXT, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.grant_wallet_credit IS 'Admin only: adds goodwill or promotional store credit to a consumer''s wallet';
+
+-- ============================================================================
+-- Cash runners and the shop ledger only see the cash part
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.record_runner_cash_collection()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'delivered' AND OLD.status <> 'delivered'
+     AND NEW.payment_method = 'cash'
+     AND NEW.delivery_runner_id IS NOT NULL
+     AND NEW.total_cents > NEW.wallet_credit_cents THEN
+    INSERT INTO public.runner_cash_entries (shop_id, runner_id, shift_id, order_id, entry_type, amount_cents, created_by)
+    VALUES (
+      NEW.shop_id,
+      NEW.delivery_runner_id,
+      (SELECT id FROM public.runner_shifts WHERE runner_id = NEW.delivery_runner_id AND status = 'open'),
+      NEW.id,
+      'cash_collected',
+      NEW.total_cents - NEW.wallet_credit_cents,
+      auth.uid()
+    )
+    ON CONFLICT DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_order_settlement_entries()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rate public.commission_rates%ROWTYPE;
+  v_commission INTEGER;
+BEGIN
+  IF NEW.status <> 'delivered' OR OLD.status = 'delivered' THEN
+    RETURN NEW;
+  END IF;
+
+  v_rate := public.get_shop_commission_rate(NEW.shop_id);
+  v_commission := LEAST(
+    NEW.subtotal_cents,
+    round(NEW.subtotal_cents * COALESCE(v_rate.rate_bps, 0) / 10000.0)::INTEGER + COALESCE(v_rate.fixed_fee_cents, 0)
+  );
+
+  INSERT INTO public.shop_ledger_entries (shop_id, order_id, entry_type, amount_cents, description)
+  VALUES (NEW.shop_id, NEW.id, 'order_revenue', NEW.total_cents, 'Order delivered')
+  ON CONFLICT DO NOTHING;
+
+  IF v_commission > 0 THEN
+    INSERT INTO public.shop_ledger_entries (shop_id, order_id, entry_type, amount_cents, description)
+    VALUES (
+      NEW.shop_id, NEW.id, 'commission', -v_commission,
+      format('%s%% of subtotal%s', to_char(v_rate.rate_bps / 100.0, 'FM990.99'),
+        CASE WHEN v_rate.fixed_fee_cents > 0 THEN ' + fixed fee' ELSE '' END)
+    )
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  -- Store credit was paid to the platform, not to the shop
+  IF NEW.payment_method = 'cash' AND NEW.total_cents > NEW.wallet_credit_cents THEN
+    INSERT INTO public.shop_ledger_entries (shop_id, order_id, entry_type, amount_cents, description)
+    VALUES (NEW.shop_id, NEW.id, 'cash_collected', -(NEW.total_cents - NEW.wallet_credit_cents), 'Cash collected by the shop')
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -26,6 +26,9 @@ export default function AddItemModal({ shopId, isOpen, onClose, onSuccess }: Add
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [uploadingImage, setUploadingImage] = useState(false);
   const [isActive, setIsActive] = useState(true);
+  const [trackStock, setTrackStock] = useState(false);
+  const [stockQuantity, setStockQuantity] = useState('');
+  const [reorderThreshold, setReorderThreshold] = useState('');
   const [categories, setCategories] = useState<Category[]>([]);
   const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
@@ -98,6 +101,9 @@ export default function AddItemModal({ shopId, isOpen, onClose, onSuccess }: Add
     setImageFile(null);
     setImagePreview(null);
     setIsActive(true);
+    setTrackStock(false);
+    setStockQuantity('');
+    setReorderThreshold('');
     setSelectedCategories([]);
     setSelectedTemplate(null);
     setError(null);
@@ -267,6 +273,16 @@ export default function AddItemModal({ shopId, isOpen, onClose, onSuccess }: Add
       return;
     }
 
+    if (trackStock && !/^\d+$/.test(stockQuantity.trim())) {
+      setError('Enter the quantity in stock as a whole number');
+      return;
+    }
+
+    if (trackStock && reorderThreshold.trim() && !/^\d+$/.test(reorderThreshold.trim())) {
+      setError('Reorder threshold must be a whole number');
+      return;
+    }
+
     // Validate that at least one category is selected
     if (selectedCategories.length === 0) {
       setError('Please select at least one category for this item');
@@ -323,6 +339,8 @@ export default function AddItemModal({ shopId, isOpen, onClose, onSuccess }: Add
           currency: 'PKR',
           is_active: isActive,
           is_custom: !selectedTemplate?.id,
+          stock_quantity: trackStock ? parseInt(stockQuantity.trim(), 10) : null,
+          reorder_threshold: trackStock && reorderThreshold.trim() ? parseInt(reorderThreshold.trim(), 10) : null,
         })
         .select()
         .single();
@@ -508,6 +526,43 @@ export default function AddItemModal({ shopId, isOpen, onClose, onSuccess }: Add
             />
           </div>
 
+          <div>
+            <div className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                id="trackStock"
+                checked={trackStock}
+                onChange={(e) => setTrackStock(e.target.checked)}
+                className="w-5 h-5 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <label htmlFor="trackStock" className="text-sm font-medium text-gray-900">
+                Track stock <span className="text-gray-500 font-normal text-xs">(orders are rejected once it runs out)</span>
+              </label>
+            </div>
+            {trackStock && (
+              <div className="grid grid-cols-2 gap-4 mt-3">
+                <input
+                  type="number"
+                  step="1"
+                  min="0"
+                  value={stockQuantity}
+                  onChange={(e) => setStockQuantity(e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="Quantity in stock"
+                />
+                <input
+                  type="number"
+                  step="1"
+                  min="0"
+                  value={reorderThreshold}
+                  onChange={(e) => setReorderThreshold(e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="Reorder threshold (optional)"
+                />
+              </div>
+            )}
+          </div>
+
           <div>
             <label className="block text-sm font-semibold text-gray-900 mb-2">
               Item Image
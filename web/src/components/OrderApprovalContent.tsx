@@ -1,6 +1,9 @@
 import React from 'react';
 import { useNavigate } from 'react-router-dom';
 import type { OrderWithAll, OrderStatus } from '../../../src/types/orders';
+import { formatQuantity } from '../../../src/utils/quantity';
+import { describeOrderRejection, isTerminalOrderStatus, PAYMENT_STATUS_LABELS } from '../../../src/utils/orderStatus';
+import { useOrderPaymentIssue } from '../../../src/hooks/merchant/useOrderPaymentIssue';
 
 type Props = {
   order: OrderWithAll;
@@ -54,6 +57,13 @@ export default function OrderApprovalContent({
   // and only show the friendly formatted duration (e.g. 13h 10m)
   const showRawCountdown = elapsedSeconds < 60 * 60; // show mm:ss only for first hour
 
+  const isPickup = order.fulfilment_type === 'pickup';
+  // A capture or void only fails while the intent is still open
+  const { data: paymentIssue } = useOrderPaymentIssue(
+    order.id,
+    order.payment_status === 'pending' || order.payment_status === 'authorized'
+  );
+
   return (
     <div className={containerClasses}>
       {/* Header */}
@@ -96,6 +106,16 @@ export default function OrderApprovalContent({
           </div>
         </div>
 
+        {/* Why the shop turned the order down */}
+        {order.status === 'rejected' && (
+          <div className="rounded-xl border border-rose-200 bg-rose-50 px-4 py-3">
+            <p className="text-sm font-semibold text-rose-900">{order.shop?.name || 'The shop'} couldn't accept this order</p>
+            {order.rejection_reason_code && (
+              <p className="text-sm text-rose-800 mt-1">{describeOrderRejection(order)}</p>
+            )}
+          </div>
+        )}
+
         {/* Status Progress Steps */}
         <div className="space-y-4">
           <h3 className="text-lg md:text-xl font-semibold text-gray-900">Order Progress</h3>
@@ -134,6 +154,12 @@ export default function OrderApprovalContent({
                       <p className="text-sm text-gray-600 mt-1">
                         {step.status === 'out_for_delivery'
                           ? 'Your order is on the way.'
+                          : step.status === 'preparing'
+                          ? 'The shop is preparing your order.'
+                          : step.status === 'ready'
+                          ? 'Your order is packed and waiting for a runner.'
+                          : step.status === 'ready_for_pickup'
+                          ? 'Your order is ready. Show your pickup code at the counter.'
                           : 'Waiting for merchant to update order status...'}
                       </p>
                     )}
@@ -155,6 +181,17 @@ export default function OrderApprovalContent({
             })}
           </div>
 
+          {/* Pickup code to show at the counter */}
+          {isPickup && order.pickup_code && !isTerminalOrderStatus(order.status) && (
+            <div className="mt-3 rounded-xl border border-teal-200 bg-teal-50 px-4 py-3 flex items-center justify-between gap-3">
+              <div>
+                <p className="text-xs font-semibold text-teal-900 uppercase tracking-wide">Pickup Code</p>
+                <p className="text-xs text-teal-800 mt-0.5">Show this code at {order.shop?.name || 'the shop'} to collect your order.</p>
+              </div>
+              <p className="text-3xl font-bold font-mono tracking-widest text-teal-900">{order.pickup_code}</p>
+            </div>
+          )}
+
           {/* Prominent Runner Info once dispatched */}
           {order.delivery_runner && (order.status === 'out_for_delivery' || order.status === 'delivered') && (
             <div className="mt-3 rounded-xl border border-blue-200 bg-blue-50 px-4 py-3 flex items-center justify-between gap-3">
@@ -194,16 +231,34 @@ export default function OrderApprovalContent({
           <div className="space-y-2">
             {order.order_items && order.order_items.length > 0 && (
               <div className="space-y-2 mb-4">
-                {order.order_items.slice(0, 3).map((item) => (
-                  <div key={item.id} className="flex items-center justify-between text-sm">
-                    <span className="text-gray-600">
-                      {item.item_name} × {item.quantity}
-                    </span>
-                    <span className="font-medium text-gray-900">
-                      Rs {Math.round((item.subtotal_cents || 0) / 100).toLocaleString()}
-                    </span>
-                  </div>
-                ))}
+                {order.order_items.slice(0, 3).map((item) => {
+                  const replacedLine = item.substitute_for_id
+                    ? order.order_items.find((line) => line.id === item.substitute_for_id)
+                    : undefined;
+                  const isDropped = item.fulfilment_status === 'unavailable' || item.fulfilment_status === 'substituted';
+                  return (
+                    <div key={item.id} className="flex items-center justify-between text-sm">
+                      <span className={isDropped ? 'text-gray-400 line-through' : 'text-gray-600'}>
+                        {item.item_name}{item.variant_name ? ` (${item.variant_name})` : ''} × {formatQuantity(item.quantity, item.unit_type)}
+                        {item.ordered_quantity != null && item.ordered_quantity !== item.quantity && (
+                          <span className="text-gray-400"> (ordered {formatQuantity(item.ordered_quantity, item.unit_type)})</span>
+                        )}
+                        {replacedLine && (
+                          <span className="text-gray-400"> (substitute for {replacedLine.item_name})</span>
+                        )}
+                      </span>
+                      {isDropped ? (
+                        <span className="text-xs font-medium text-gray-500">
+                          {item.fulfilment_status === 'unavailable' ? 'Unavailable' : 'Replaced'}
+                        </span>
+                      ) : (
+                        <span className="font-medium text-gray-900">
+                          Rs {Math.round((item.subtotal_cents || 0) / 100).toLocaleString()}
+                        </span>
+                      )}
+                    </div>
+                  );
+                })}
                 {order.order_items.length > 3 && (
                   <p className="text-xs text-gray-400">
                     +{order.order_items.length - 3} more item{order.order_items.length - 3 === 1 ? '' : 's'}
@@ -215,6 +270,21 @@ export default function OrderApprovalContent({
               <span>Total</span>
               <span>Rs {Math.round((order.total_cents || 0) / 100).toLocaleString()}</span>
             </div>
+            {(order.refunded_cents ?? 0) > 0 && (
+              <div className="flex justify-between text-sm text-green-700">
+                <span>Refunded</span>
+                <span>− Rs {Math.round((order.refunded_cents ?? 0) / 100).toLocaleString()}</span>
+              </div>
+            )}
+            {order.original_total_cents != null && order.original_total_cents !== order.total_cents && (
+              <p className="text-xs text-gray-500">
+                {order.fulfilment_changed_at
+                  ? 'Updated by the shop for unavailable or substituted items.'
+                  : 'Adjusted to the packed weight.'}{' '}
+                You were quoted Rs{' '}
+                {Math.round(order.original_total_cents / 100).toLocaleString()} at checkout.
+              </p>
+            )}
           </div>
         </div>
 
@@ -270,7 +340,7 @@ export default function OrderApprovalContent({
         )}
 
         {/* Delivery Address */}
-        {order.delivery_address && (
+        {order.delivery_address && !isPickup && (
           <div className="border-t border-gray-200 pt-4">
             <div className="flex items-center justify-between mb-3">
               <h3 className="text-lg font-semibold text-gray-900">Delivery Address</h3>
@@ -330,10 +400,27 @@ export default function OrderApprovalContent({
         <div className="border-t border-gray-200 pt-4">
           <h3 className="text-lg font-semibold text-gray-900 mb-3">Order Information</h3>
           <div className="space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-600">Fulfilment</span>
+              <span className="font-medium text-gray-900">{isPickup ? 'Pickup from shop' : 'Delivery'}</span>
+            </div>
             <div className="flex justify-between">
               <span className="text-gray-600">Payment Method</span>
               <span className="font-medium text-gray-900 capitalize">{order.payment_method || '--'}</span>
             </div>
+            {order.payment_status && order.payment_status !== 'not_required' && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Payment</span>
+                <span className="font-medium text-gray-900">{PAYMENT_STATUS_LABELS[order.payment_status]}</span>
+              </div>
+            )}
+            {paymentIssue && (
+              <p className="text-xs text-red-600">
+                {paymentIssue.action === 'capture' ? 'Charging the card' : 'Releasing the card hold'} failed
+                {paymentIssue.message ? `: ${paymentIssue.message}` : ''}
+                {paymentIssue.status === 'failed' ? '. Contact support to settle it.' : '. Retrying automatically.'}
+              </p>
+            )}
             <div className="flex justify-between">
               <span className="text-gray-600">Placed At</span>
               <span className="font-medium text-gray-900">{new Date(order.placed_at || order.created_at || '').toLocaleString()}</span>
@@ -344,18 +431,42 @@ export default function OrderApprovalContent({
                 <span className="font-medium text-gray-900">{new Date(order.confirmed_at).toLocaleString()}</span>
               </div>
             )}
+            {order.preparing_at && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Preparing Since</span>
+                <span className="font-medium text-gray-900">{new Date(order.preparing_at).toLocaleString()}</span>
+              </div>
+            )}
+            {order.ready_at && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Ready At</span>
+                <span className="font-medium text-gray-900">{new Date(order.ready_at).toLocaleString()}</span>
+              </div>
+            )}
             {order.out_for_delivery_at && (
               <div className="flex justify-between">
                 <span className="text-gray-600">Out for Delivery At</span>
                 <span className="font-medium text-gray-900">{new Date(order.out_for_delivery_at).toLocaleString()}</span>
               </div>
             )}
+            {order.ready_for_pickup_at && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Ready for Pickup At</span>
+                <span className="font-medium text-gray-900">{new Date(order.ready_for_pickup_at).toLocaleString()}</span>
+              </div>
+            )}
             {order.delivered_at && (
               <div className="flex justify-between">
-                <span className="text-gray-600">Delivered At</span>
+                <span className="text-gray-600">{isPickup ? 'Collected At' : 'Delivered At'}</span>
                 <span className="font-medium text-gray-900">{new Date(order.delivered_at).toLocaleString()}</span>
               </div>
             )}
+            {order.rejected_at && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Rejected At</span>
+                <span className="font-medium text-gray-900">{new Date(order.rejected_at).toLocaleString()}</span>
+              </div>
+            )}
             {order.special_instructions && (
               <div className="pt-2 border-t border-gray-200">
                 <span className="text-gray-600 block mb-1">Special Instructions</span>
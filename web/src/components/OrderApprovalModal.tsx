@@ -4,6 +4,7 @@ import type { OrderWithAll, OrderStatus } from '../../../src/types/orders';
 import { useOrderApproval } from '../context/OrderApprovalContext';
 import OrderApprovalContent from './OrderApprovalContent';
 import { useOrder } from '../../../src/hooks/consumer/useOrder';
+import { isTerminalOrderStatus } from '../../../src/utils/orderStatus';
 
 interface OrderApprovalModalProps {
   order: OrderWithAll;
@@ -13,10 +14,20 @@ interface OrderApprovalModalProps {
 const STATUS_STEPS: { status: OrderStatus; label: string; icon: string }[] = [
   { status: 'pending', label: 'Order Placed', icon: '📦' },
   { status: 'confirmed', label: 'Order Confirmed', icon: '✅' },
+  { status: 'preparing', label: 'Preparing', icon: '🧑‍🍳' },
+  { status: 'ready', label: 'Ready for Dispatch', icon: '🏷️' },
   { status: 'out_for_delivery', label: 'Out for Delivery', icon: '🚚' },
   { status: 'delivered', label: 'Delivered', icon: '🎉' },
 ];
 
+const PICKUP_STATUS_STEPS: { status: OrderStatus; label: string; icon: string }[] = [
+  { status: 'pending', label: 'Order Placed', icon: '📦' },
+  { status: 'confirmed', label: 'Order Confirmed', icon: '✅' },
+  { status: 'preparing', label: 'Preparing', icon: '🧑‍🍳' },
+  { status: 'ready_for_pickup', label: 'Ready for Pickup', icon: '🛍️' },
+  { status: 'delivered', label: 'Collected', icon: '🎉' },
+];
+
 export default function OrderApprovalModal({ order: initialOrder, onClose }: OrderApprovalModalProps) {
   const [elapsedSeconds, setElapsedSeconds] = useState(0);
   const [countdown, setCountdown] = useState<string>('00:00');
@@ -32,13 +43,14 @@ export default function OrderApprovalModal({ order: initialOrder, onClose }: Ord
   const order = (liveOrder || initialOrder) as OrderWithAll;
 
   // Get current status step index
-  const currentStepIndex = STATUS_STEPS.findIndex((step) => step.status === order.status);
+  const statusSteps = order.fulfilment_type === 'pickup' ? PICKUP_STATUS_STEPS : STATUS_STEPS;
+  const currentStepIndex = statusSteps.findIndex((step) => step.status === order.status);
   const activeStepIndex = currentStepIndex >= 0 ? currentStepIndex : 0;
 
   // Keep active order in context in sync with live data for the notification bell
   useEffect(() => {
     if (!order) return;
-    if (order.status === 'delivered' || order.status === 'cancelled') {
+    if (isTerminalOrderStatus(order.status)) {
       setActiveOrder(null);
     } else {
       setActiveOrder(order);
@@ -68,7 +80,7 @@ export default function OrderApprovalModal({ order: initialOrder, onClose }: Ord
 
   // Stop timer if order is in terminal state
   useEffect(() => {
-    if (order.status === 'delivered' || order.status === 'cancelled') {
+    if (isTerminalOrderStatus(order.status)) {
       if (intervalRef.current) {
         clearInterval(intervalRef.current);
       }
@@ -88,12 +100,20 @@ export default function OrderApprovalModal({ order: initialOrder, onClose }: Ord
         return 'text-yellow-600 bg-yellow-50 border-yellow-200';
       case 'confirmed':
         return 'text-blue-600 bg-blue-50 border-blue-200';
+      case 'preparing':
+        return 'text-sky-600 bg-sky-50 border-sky-200';
+      case 'ready':
+        return 'text-cyan-600 bg-cyan-50 border-cyan-200';
+      case 'ready_for_pickup':
+        return 'text-teal-600 bg-teal-50 border-teal-200';
       case 'out_for_delivery':
         return 'text-indigo-600 bg-indigo-50 border-indigo-200';
       case 'delivered':
         return 'text-green-600 bg-green-50 border-green-200';
       case 'cancelled':
         return 'text-red-600 bg-red-50 border-red-200';
+      case 'rejected':
+        return 'text-rose-600 bg-rose-50 border-rose-200';
       default:
         return 'text-gray-600 bg-gray-50 border-gray-200';
     }
@@ -180,8 +200,8 @@ export default function OrderApprovalModal({ order: initialOrder, onClose }: Ord
   };
 
   // Allow cancellation for any non-terminal status.
-  // Terminal statuses: delivered, cancelled.
-  const canCancelOrder = order.status !== 'delivered' && order.status !== 'cancelled';
+  // Terminal statuses: delivered, cancelled, rejected.
+  const canCancelOrder = !isTerminalOrderStatus(order.status);
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-3 sm:p-4">
@@ -191,7 +211,7 @@ export default function OrderApprovalModal({ order: initialOrder, onClose }: Ord
           countdown={countdown}
           elapsedSeconds={elapsedSeconds}
           activeStepIndex={activeStepIndex}
-          STATUS_STEPS={STATUS_STEPS}
+          STATUS_STEPS={statusSteps}
           formatTime={formatTime}
           getStatusColor={getStatusColor}
           formatStatus={formatStatus}
@@ -7,12 +7,22 @@ import { useUserLocation } from '../../../src/hooks/consumer/useUserLocation';
 import { useLocationSelection } from '../../../src/context/LocationContext';
 import { 
   fetchDeliveryLogic, 
-  calculateTotalDeliveryFee,
   calculateDistance 
 } from '../../../src/services/merchant/deliveryLogicService';
 import type { DeliveryLogic } from '../../../src/services/merchant/deliveryLogicService';
+import { calculateDeliveryPricing } from '../../../src/utils/deliveryPricing';
+import {
+  decreaseQuantity,
+  formatQuantity,
+  increaseQuantity,
+  isWeightedUnit,
+  lineSubtotalCents,
+  UNIT_LABELS,
+} from '../../../src/utils/quantity';
 import { supabase } from '../../../src/services/supabase';
+import { useCartValidation } from '../../../src/hooks/consumer/useCartValidation';
 import ConfirmationDialog from './ConfirmationDialog';
+import CartValidationNotice from './consumer/CartValidationNotice';
 
 interface ShopFees {
   shopId: string;
@@ -35,7 +45,7 @@ export default function SideCart({ isOpen, onClose, shopId }: SideCartProps) {
   const navigate = useNavigate();
   const { coords } = useUserLocation();
   const { selectedAddress } = useLocationSelection();
-  const { getShopCart, removeItem, updateQuantity, getTotalPrice, clearCart } = useCart();
+  const { getShopCart, removeItem, updateQuantity, getTotalPrice, clearCart, setShopCart } = useCart();
   const shopCarts = useCartStore((state) => state.shopCarts);
 
   const [shopFees, setShopFees] = useState<ShopFees | null>(null);
@@ -45,6 +55,9 @@ export default function SideCart({ isOpen, onClose, shopId }: SideCartProps) {
   // Get the current shop cart
   const shopCart = shopId ? getShopCart(shopId) : null;
 
+  // Re-check the persisted cart against the live catalog whenever the cart opens
+  const { data: cartValidation } = useCartValidation(shopCart, selectedAddress?.coords || coords, isOpen);
+
   // Fetch delivery logic and calculate fees for the current shop
   useEffect(() => {
     const fetchFees = async () => {
@@ -73,7 +86,6 @@ export default function SideCart({ isOpen, onClose, shopId }: SideCartProps) {
       // Fetch delivery logic
       const { data: deliveryLogic } = await fetchDeliveryLogic(shopId);
       const subtotal = getTotalPrice(shopId);
-      const orderValue = subtotal / 100; // Convert cents to PKR
 
       let baseDeliveryFee = 0;
       let smallOrderSurcharge = 0;
@@ -85,34 +97,27 @@ export default function SideCart({ isOpen, onClose, shopId }: SideCartProps) {
       const shopLat = shopDataTyped?.latitude;
       const shopLng = shopDataTyped?.longitude;
 
-      if (deliveryLogic && shopLat && shopLng) {
+      if (deliveryLogic) {
         // Calculate distance from user to shop
-        distanceInMeters = calculateDistance(
-          userCoords.latitude,
-          userCoords.longitude,
-          shopLat,
-          shopLng
-        );
+        if (shopLat && shopLng) {
+          distanceInMeters = calculateDistance(
+            userCoords.latitude,
+            userCoords.longitude,
+            shopLat,
+            shopLng
+          );
+        }
 
-        // Calculate total delivery fee using the delivery logic service
-        const feeCalculation = calculateTotalDeliveryFee(
-          orderValue,
-          distanceInMeters,
+        // Without shop coordinates the pricing engine estimates with maxDeliveryFee
+        const pricing = calculateDeliveryPricing(
+          { subtotalCents: subtotal, distanceInMeters: distanceInMeters ?? null },
           deliveryLogic
         );
 
-        baseDeliveryFee = feeCalculation.baseFee * 100; // Convert PKR to cents
-        smallOrderSurcharge = feeCalculation.surcharge * 100; // Convert PKR to cents
-        totalDeliveryFee = feeCalculation.finalFee * 100; // Convert PKR to cents
-        freeDeliveryApplied = feeCalculation.freeDeliveryApplied;
-      } else if (deliveryLogic) {
-        // Fallback: if no shop coordinates, calculate surcharge only
-        smallOrderSurcharge = orderValue < deliveryLogic.minimumOrderValue
-          ? deliveryLogic.smallOrderSurcharge * 100 // Convert to cents
-          : 0;
-        // Use maxDeliveryFee as estimate when coordinates unavailable
-        baseDeliveryFee = deliveryLogic.maxDeliveryFee * 100; // Convert to cents
-        totalDeliveryFee = baseDeliveryFee + smallOrderSurcharge;
+        baseDeliveryFee = pricing.deliveryFeeCents;
+        smallOrderSurcharge = pricing.surchargeCents;
+        totalDeliveryFee = pricing.deliveryFeeCents + pricing.surchargeCents;
+        freeDeliveryApplied = pricing.freeDeliveryApplied;
       }
 
       setShopFees({
@@ -207,11 +212,20 @@ export default function SideCart({ isOpen, onClose, shopId }: SideCartProps) {
                 </motion.div>
           ) : (
             <>
+              {cartValidation && cartValidation.shopId === shopId && (
+                <div className="mb-4">
+                  <CartValidationNotice
+                    validation={cartValidation}
+                    shopName={shopCart.shopName}
+                    onAccept={() => setShopCart(shopId, shopCart.shopName, cartValidation.items)}
+                  />
+                </div>
+              )}
               <div className="space-y-4 mb-6">
                     <AnimatePresence>
                       {shopCart.items.map((item, index) => (
                         <motion.div
-                          key={item.id}
+                          key={`${item.id}:${item.variant_id ?? ''}`}
                           initial={{ opacity: 0, x: 20 }}
                           animate={{ opacity: 1, x: 0 }}
                           exit={{ opacity: 0, x: -20 }}
@@ -235,28 +249,37 @@ export default function SideCart({ isOpen, onClose, shopId }: SideCartProps) {
                     </div>
                     <div className="flex-1 min-w-0">
                             <p className="text-sm sm:text-base font-medium text-gray-900 mb-1 truncate">{item.name}</p>
-                            <p className="text-xs sm:text-sm text-gray-600 mb-2">Rs. {(item.price_cents / 100).toFixed(2)}</p>
+                            {item.variant_name && (
+                              <p className="text-xs text-gray-500 mb-1 truncate">{item.variant_name}</p>
+                            )}
+                            <p className="text-xs sm:text-sm text-gray-600 mb-2">
+                              Rs. {(item.price_cents / 100).toFixed(2)}
+                              {isWeightedUnit(item.unit_type) && ` / ${UNIT_LABELS[item.unit_type!]}`}
+                            </p>
                       <div className="flex items-center gap-3">
                               <div className="flex items-center gap-2 border border-gray-300 rounded-lg px-2 py-1 bg-white">
                                 <motion.button
                                   whileHover={{ scale: 1.1 }}
                                   whileTap={{ scale: 0.9 }}
                             onClick={() => {
-                              if (item.quantity > 1) {
-                                updateQuantity(shopId, item.id, item.quantity - 1);
+                              const nextQuantity = decreaseQuantity(item.quantity, item);
+                              if (nextQuantity > 0) {
+                                updateQuantity(shopId, item.id, nextQuantity, item.variant_id);
                               } else {
-                                removeItem(shopId, item.id);
+                                removeItem(shopId, item.id, item.variant_id);
                               }
                             }}
                             className="text-gray-600 hover:text-gray-900 transition-colors w-6 h-6 flex items-center justify-center"
                           >
                             −
                                 </motion.button>
-                                <span className="text-sm font-medium w-6 text-center text-gray-900">{item.quantity}</span>
+                                <span className="text-sm font-medium min-w-[1.5rem] text-center text-gray-900">
+                                  {formatQuantity(item.quantity, item.unit_type)}
+                                </span>
                                 <motion.button
                                   whileHover={{ scale: 1.1 }}
                                   whileTap={{ scale: 0.9 }}
-                            onClick={() => updateQuantity(shopId, item.id, item.quantity + 1)}
+                            onClick={() => updateQuantity(shopId, item.id, increaseQuantity(item.quantity, item), item.variant_id)}
                             className="text-gray-600 hover:text-gray-900 transition-colors w-6 h-6 flex items-center justify-center"
                           >
                             +
@@ -265,7 +288,7 @@ export default function SideCart({ isOpen, onClose, shopId }: SideCartProps) {
                               <motion.button
                                 whileHover={{ scale: 1.1 }}
                                 whileTap={{ scale: 0.9 }}
-                          onClick={() => removeItem(shopId, item.id)}
+                          onClick={() => removeItem(shopId, item.id, item.variant_id)}
                           className="text-gray-400 hover:text-red-600 transition-colors p-1"
                           title="Remove item"
                         >
@@ -277,7 +300,7 @@ export default function SideCart({ isOpen, onClose, shopId }: SideCartProps) {
                     </div>
                     <div className="text-right flex-shrink-0">
                             <p className="text-sm sm:text-base font-semibold text-blue-600">
-                        Rs. {((item.price_cents * item.quantity) / 100).toFixed(2)}
+                        Rs. {(lineSubtotalCents(item.price_cents, item.quantity) / 100).toFixed(2)}
                       </p>
                     </div>
                         </motion.div>
@@ -0,0 +1,69 @@
+import React from 'react';
+import type { CartValidation } from '../../../../src/services/consumer/cartValidationService';
+import { describeCartLineChange } from '../../../../src/utils/cartReconciliation';
+
+interface CartValidationNoticeProps {
+  validation: CartValidation;
+  shopName: string;
+  /** Replace the cart with the corrected one */
+  onAccept: () => void;
+  /** Hide the closed-shop note, e.g. once a delivery time is scheduled */
+  allowClosedShop?: boolean;
+  /** Hide the delivery-area note, e.g. when the order is picked up */
+  allowOutsideDeliveryArea?: boolean;
+}
+
+/**
+ * What changed since the cart was filled: a removed or closed shop, an
+ * address outside the delivery area, and items that were removed or
+ * re-priced. Item changes can be accepted in one go.
+ */
+export default function CartValidationNotice({
+  validation,
+  shopName,
+  onAccept,
+  allowClosedShop = false,
+  allowOutsideDeliveryArea = false,
+}: CartValidationNoticeProps) {
+  const notes: string[] = [];
+  if (!validation.shopAvailable) {
+    notes.push(`${shopName} is no longer available on AroundYou.`);
+  } else if (!validation.shopOpen && !allowClosedShop) {
+    notes.push(`${shopName} is closed right now. You can schedule a delivery time or order once it reopens.`);
+  }
+  if (validation.insideDeliveryArea === false && !allowOutsideDeliveryArea) {
+    notes.push(`Your delivery address is outside ${shopName}'s delivery area.`);
+  }
+
+  if (notes.length === 0 && validation.changes.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-xl sm:rounded-2xl border border-amber-200 bg-amber-50 p-3 sm:p-4 space-y-2 sm:space-y-3">
+      {notes.map((note) => (
+        <p key={note} className="text-xs sm:text-sm font-medium text-red-700">
+          {note}
+        </p>
+      ))}
+      {validation.shopAvailable && validation.changes.length > 0 && (
+        <>
+          <p className="text-xs sm:text-sm font-semibold text-amber-900">Your cart has changed since you added these items</p>
+          <ul className="space-y-1">
+            {validation.changes.map((change, index) => (
+              <li key={index} className="text-xs sm:text-sm text-amber-800">
+                • {describeCartLineChange(change)}
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={onAccept}
+            className="w-full sm:w-auto px-4 py-2 rounded-lg bg-amber-600 text-xs sm:text-sm font-semibold text-white hover:bg-amber-700 transition-colors"
+          >
+            {validation.items.length > 0 ? 'Accept updated cart' : 'Remove unavailable items'}
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
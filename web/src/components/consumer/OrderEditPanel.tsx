@@ -0,0 +1,270 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Minus, Plus, Trash2 } from 'lucide-react';
+import { fetchShopItems, ShopItem } from '../../../../src/services/consumer/shopService';
+import { updatePendingOrderItems } from '../../../../src/services/consumer/orderService';
+import type { OrderWithAll, SubstitutionPreference } from '../../../../src/types/orders';
+import type { UnitType } from '../../../../src/types/inventory';
+import {
+  decreaseQuantity,
+  formatQuantity,
+  getMinQuantity,
+  increaseQuantity,
+  lineSubtotalCents,
+} from '../../../../src/utils/quantity';
+
+interface DraftLine {
+  merchant_item_id: string;
+  variant_id: string | null;
+  name: string;
+  variant_name: string | null;
+  /** Price the line was ordered at; replaced by the current price once items load */
+  price_cents: number;
+  unit_type?: UnitType;
+  quantity: number;
+  substitution_preference?: SubstitutionPreference;
+}
+
+interface OrderEditPanelProps {
+  order: OrderWithAll;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const lineKey = (line: { merchant_item_id: string; variant_id: string | null }) =>
+  `${line.merchant_item_id}:${line.variant_id ?? ''}`;
+
+/**
+ * Lets the consumer add, remove or change items of a pending order. The
+ * database reprices the order and recomputes fees when the edit is saved.
+ */
+export default function OrderEditPanel({ order, onClose, onSaved }: OrderEditPanelProps) {
+  const [lines, setLines] = useState<DraftLine[]>(() =>
+    order.order_items
+      .filter((item) => !item.substitute_for_id)
+      .map((item) => ({
+        merchant_item_id: item.merchant_item_id,
+        variant_id: item.variant_id ?? null,
+        name: item.item_name,
+        variant_name: item.variant_name ?? null,
+        price_cents: item.item_price_cents,
+        unit_type: item.unit_type,
+        quantity: item.quantity,
+        substitution_preference: item.substitution_preference,
+      }))
+  );
+  const [shopItems, setShopItems] = useState<ShopItem[]>([]);
+  const [search, setSearch] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchShopItems(order.shop_id).then(({ data }) => {
+      if (!cancelled && data) setShopItems(data);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [order.shop_id]);
+
+  const itemsById = useMemo(() => new Map(shopItems.map((item) => [item.id, item])), [shopItems]);
+
+  const currentPrice = (line: DraftLine) => {
+    const item = itemsById.get(line.merchant_item_id);
+    if (!item) return line.price_cents;
+    const variant = line.variant_id ? item.variants.find((v) => v.id === line.variant_id) : undefined;
+    return variant?.price_cents ?? item.price_cents;
+  };
+
+  const rulesFor = (line: DraftLine) => {
+    const item = itemsById.get(line.merchant_item_id);
+    return item ?? { unit_type: line.unit_type };
+  };
+
+  const setQuantity = (key: string, quantity: number) => {
+    setLines((prev) =>
+      quantity > 0
+        ? prev.map((line) => (lineKey(line) === key ? { ...line, quantity } : line))
+        : prev.filter((line) => lineKey(line) !== key)
+    );
+  };
+
+  const addItem = (item: ShopItem, variantId: string | null) => {
+    const key = lineKey({ merchant_item_id: item.id, variant_id: variantId });
+    const existing = lines.find((line) => lineKey(line) === key);
+    if (existing) {
+      setQuantity(key, increaseQuantity(existing.quantity, item));
+    } else {
+      const variant = variantId ? item.variants.find((v) => v.id === variantId) : undefined;
+      setLines((prev) => [
+        ...prev,
+        {
+          merchant_item_id: item.id,
+          variant_id: variantId,
+          name: item.name,
+          variant_name: variant?.name ?? null,
+          price_cents: variant?.price_cents ?? item.price_cents,
+          unit_type: item.unit_type,
+          quantity: getMinQuantity(item),
+        },
+      ]);
+    }
+    setSearch('');
+  };
+
+  const searchResults = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return [];
+    return shopItems.filter((item) => item.name.toLowerCase().includes(term)).slice(0, 6);
+  }, [search, shopItems]);
+
+  const estimatedSubtotal = lines.reduce((sum, line) => sum + lineSubtotalCents(currentPrice(line), line.quantity), 0);
+
+  const handleSave = async () => {
+    if (lines.length === 0) {
+      setError('Your order needs at least one item. Cancel the order instead.');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    const result = await updatePendingOrderItems(
+      order.id,
+      lines.map((line) => ({
+        merchant_item_id: line.merchant_item_id,
+        variant_id: line.variant_id,
+        quantity: line.quantity,
+        substitution_preference: line.substitution_preference ?? 'substitute',
+      }))
+    );
+
+    setSaving(false);
+    if (!result.success) {
+      setError(result.message || 'Failed to update order');
+      return;
+    }
+    onSaved();
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-4 md:p-6 space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Edit your order</h3>
+          <p className="text-xs text-gray-500">
+            Prices and delivery fee are recalculated when you save. Editing closes once the shop starts confirming.
+          </p>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl font-bold leading-none">
+          ×
+        </button>
+      </div>
+
+      <div className="divide-y divide-gray-100">
+        {lines.map((line) => {
+          const key = lineKey(line);
+          const rules = rulesFor(line);
+          return (
+            <div key={key} className="flex items-center gap-3 py-2">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">
+                  {line.name}
+                  {line.variant_name && <span className="text-gray-500 font-normal"> · {line.variant_name}</span>}
+                </p>
+                <p className="text-xs text-gray-500">
+                  Rs {Math.round(lineSubtotalCents(currentPrice(line), line.quantity) / 100).toLocaleString()}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setQuantity(key, decreaseQuantity(line.quantity, rules))}
+                  disabled={saving}
+                  className="w-7 h-7 flex items-center justify-center rounded-full border border-gray-300 text-gray-600 hover:bg-gray-50"
+                >
+                  <Minus className="w-3.5 h-3.5" />
+                </button>
+                <span className="min-w-[3rem] text-center text-sm font-semibold text-gray-900">
+                  {formatQuantity(line.quantity, line.unit_type)}
+                </span>
+                <button
+                  onClick={() => setQuantity(key, increaseQuantity(line.quantity, rules))}
+                  disabled={saving}
+                  className="w-7 h-7 flex items-center justify-center rounded-full border border-gray-300 text-gray-600 hover:bg-gray-50"
+                >
+                  <Plus className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => setQuantity(key, 0)}
+                  disabled={saving}
+                  className="p-1 text-gray-400 hover:text-red-600"
+                  title="Remove item"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+        {lines.length === 0 && <p className="py-2 text-sm text-gray-500">No items left in this order.</p>}
+      </div>
+
+      <div className="space-y-2">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Forgot something? Search this shop..."
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+        />
+        {searchResults.length > 0 && (
+          <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+            {searchResults.flatMap((item) => {
+              const outOfStock = item.available_quantity !== null && item.available_quantity <= 0;
+              const options = item.variants.length > 0
+                ? item.variants.map((variant) => ({ id: variant.id, label: `${item.name} · ${variant.name}`, price: variant.price_cents }))
+                : [{ id: null as string | null, label: item.name, price: item.price_cents }];
+              return options.map((option) => (
+                <button
+                  key={`${item.id}:${option.id ?? ''}`}
+                  onClick={() => addItem(item, option.id)}
+                  disabled={outOfStock || saving}
+                  className="w-full px-3 py-2 flex items-center justify-between text-left text-sm hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <span className="truncate">{option.label}</span>
+                  <span className="text-xs text-gray-500 flex-shrink-0">
+                    {outOfStock ? 'Out of stock' : `Rs ${Math.round(option.price / 100).toLocaleString()}`}
+                  </span>
+                </button>
+              ));
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-gray-600">Items subtotal (estimate)</span>
+        <span className="font-semibold text-gray-900">Rs {Math.round(estimatedSubtotal / 100).toLocaleString()}</span>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex gap-3">
+        <button
+          onClick={onClose}
+          disabled={saving}
+          className="flex-1 px-4 py-2.5 rounded-lg bg-gray-100 text-gray-700 font-semibold hover:bg-gray-200 transition-colors disabled:opacity-50"
+        >
+          Discard
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="flex-1 px-4 py-2.5 rounded-lg bg-blue-600 text-white font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Saving...' : 'Save changes'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  canRequestReturn,
+  getOrderReturns,
+  requestOrderReturn,
+  RETURN_WINDOW_DAYS,
+  uploadReturnPhoto,
+} from '../../../../src/services/consumer/returnService';
+import type { OrderWithAll } from '../../../../src/types/orders';
+import type { OrderReturn, ReturnReasonCode } from '../../../../src/types/returns';
+import { RETURN_REASON_LABELS, RETURN_STATUS_LABELS } from '../../../../src/utils/orderStatus';
+import { formatQuantity, isWeightedUnit, roundQuantity } from '../../../../src/utils/quantity';
+
+const statusStyles: Record<OrderReturn['status'], string> = {
+  requested: 'bg-amber-50 text-amber-800 border-amber-200',
+  approved: 'bg-green-50 text-green-800 border-green-200',
+  rejected: 'bg-gray-50 text-gray-700 border-gray-200',
+};
+
+const formatRupees = (cents: number) => `Rs ${Math.round(cents / 100).toLocaleString()}`;
+
+/**
+ * Report missing or damaged items on a delivered order and follow the
+ * shop's answer. Lines can be returned up to what was delivered, less what
+ * earlier requests already cover.
+ */
+export default function OrderReturnPanel({ order }: { order: OrderWithAll }) {
+  const [returns, setReturns] = useState<OrderReturn[]>([]);
+  const [open, setOpen] = useState(false);
+  // Quantity to return per order item; missing means not selected
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState<ReturnReasonCode>('missing');
+  const [note, setNote] = useState('');
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReturns = () => {
+    getOrderReturns(order.id).then(({ data }) => {
+      if (data) setReturns(data);
+    });
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    getOrderReturns(order.id).then(({ data }) => {
+      if (!cancelled && data) setReturns(data);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [order.id]);
+
+  const returnableLines = useMemo(() => {
+    const alreadyReturned = new Map<string, number>();
+    returns
+      .filter((orderReturn) => orderReturn.status !== 'rejected')
+      .forEach((orderReturn) =>
+        orderReturn.items.forEach((item) =>
+          alreadyReturned.set(item.order_item_id, (alreadyReturned.get(item.order_item_id) ?? 0) + Number(item.quantity))
+        )
+      );
+
+    return order.order_items
+      .filter((item) => (item.fulfilment_status ?? 'fulfilled') === 'fulfilled')
+      .map((item) => ({ item, returnable: roundQuantity(item.quantity - (alreadyReturned.get(item.id) ?? 0)) }))
+      .filter((line) => line.returnable > 0);
+  }, [order.order_items, returns]);
+
+  const hasOpenRequest = returns.some((orderReturn) => orderReturn.status === 'requested');
+  const canReport = canRequestReturn(order.delivered_at) && !hasOpenRequest && returnableLines.length > 0;
+
+  const toggleLine = (itemId: string, returnable: number) => {
+    setQuantities((prev) => {
+      if (itemId in prev) {
+        const { [itemId]: _removed, ...rest } = prev;
+        return rest;
+      }
+      return { ...prev, [itemId]: returnable };
+    });
+  };
+
+  const handleSubmit = async () => {
+    const lines = Object.entries(quantities).map(([order_item_id, quantity]) => ({ order_item_id, quantity }));
+    if (lines.length === 0) {
+      setError('Select at least one item.');
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+
+    let photoPath: string | null = null;
+    if (photo) {
+      const upload = await uploadReturnPhoto(photo);
+      if (upload.error) {
+        setSubmitting(false);
+        setError(`Photo upload failed: ${upload.error.message}`);
+        return;
+      }
+      photoPath = upload.path;
+    }
+
+    const { error: requestError } = await requestOrderReturn(order.id, {
+      lines,
+      reason_code: reason,
+      note,
+      photo_path: photoPath,
+    });
+
+    setSubmitting(false);
+    if (requestError) {
+      setError(requestError.message);
+      return;
+    }
+
+    setOpen(false);
+    setQuantities({});
+    setNote('');
+    setPhoto(null);
+    loadReturns();
+  };
+
+  if (returns.length === 0 && !canReport) {
+    return null;
+  }
+
+  return (
+    <div className="mb-4 bg-white rounded-2xl shadow-sm border border-gray-200 p-4 md:p-6 space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Problem with your order?</h3>
+          <p className="text-xs text-gray-500">
+            Report missing or damaged items within {RETURN_WINDOW_DAYS} days of delivery and the shop will review it.
+          </p>
+        </div>
+        {canReport && !open && (
+          <button
+            onClick={() => setOpen(true)}
+            className="flex-shrink-0 px-4 py-2 rounded-lg border border-blue-200 bg-blue-50 text-blue-700 text-sm font-semibold hover:bg-blue-100 transition-colors"
+          >
+            Report a problem
+          </button>
+        )}
+      </div>
+
+      {returns.map((orderReturn) => (
+        <div key={orderReturn.id} className={`rounded-xl border p-3 text-sm ${statusStyles[orderReturn.status]}`}>
+          <div className="flex items-center justify-between gap-3">
+            <span className="font-semibold">{RETURN_REASON_LABELS[orderReturn.reason_code]}</span>
+            <span className="text-xs font-semibold">{RETURN_STATUS_LABELS[orderReturn.status]}</span>
+          </div>
+          <p className="text-xs mt-1">
+            {orderReturn.status === 'approved' && orderReturn.refund_cents != null
+              ? `${formatRupees(orderReturn.refund_cents)} refunded of ${formatRupees(orderReturn.requested_cents)} requested`
+              : `${formatRupees(orderReturn.requested_cents)} requested`}
+          </p>
+          {orderReturn.merchant_note && <p className="text-xs mt-1">Shop: {orderReturn.merchant_note}</p>}
+        </div>
+      ))}
+
+      {open && (
+        <div className="space-y-3">
+          <div className="divide-y divide-gray-100">
+            {returnableLines.map(({ item, returnable }) => {
+              const selected = item.id in quantities;
+              return (
+                <div key={item.id} className="flex items-center gap-3 py-2">
+                  <input
+                    type="checkbox"
+                    checked={selected}
+                    onChange={() => toggleLine(item.id, returnable)}
+                    disabled={submitting}
+                    className="h-4 w-4"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {item.item_name}
+                      {item.variant_name && <span className="text-gray-500 font-normal"> · {item.variant_name}</span>}
+                    </p>
+                    <p className="text-xs text-gray-500">Up to {formatQuantity(returnable, item.unit_type)}</p>
+                  </div>
+                  {selected && (
+                    <input
+                      type="number"
+                      min={isWeightedUnit(item.unit_type) ? 0.001 : 1}
+                      max={returnable}
+                      step={isWeightedUnit(item.unit_type) ? 0.001 : 1}
+                      value={quantities[item.id]}
+                      onChange={(event) =>
+                        setQuantities((prev) => ({
+                          ...prev,
+                          [item.id]: Math.min(returnable, Math.max(0, Number(event.target.value) || 0)),
+                        }))
+                      }
+                      disabled={submitting}
+                      className="w-24 px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <select
+            value={reason}
+            onChange={(event) => setReason(event.target.value as ReturnReasonCode)}
+            disabled={submitting}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          >
+            {(Object.keys(RETURN_REASON_LABELS) as ReturnReasonCode[]).map((code) => (
+              <option key={code} value={code}>
+                {RETURN_REASON_LABELS[code]}
+              </option>
+            ))}
+          </select>
+          <textarea
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            placeholder="Tell the shop what happened (optional)"
+            rows={2}
+            disabled={submitting}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <label className="block text-xs text-gray-600">
+            Photo (optional)
+            <input
+              type="file"
+              accept="image/jpeg,image/png,image/webp"
+              onChange={(event) => setPhoto(event.target.files?.[0] ?? null)}
+              disabled={submitting}
+              className="mt-1 block w-full text-sm"
+            />
+          </label>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              onClick={handleSubmit}
+              disabled={submitting}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {submitting ? 'Sending...' : 'Send to the shop'}
+            </button>
+            <button
+              onClick={() => {
+                setOpen(false);
+                setError(null);
+              }}
+              disabled={submitting}
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-semibold hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
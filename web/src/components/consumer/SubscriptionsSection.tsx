@@ -0,0 +1,414 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { getUserOrders } from '../../../../src/services/consumer/orderService';
+import {
+  createSubscription,
+  getUserSubscriptions,
+  SUBSCRIPTION_RUN_ERRORS,
+  updateSubscription,
+} from '../../../../src/services/consumer/subscriptionService';
+import type { OrderWithAll } from '../../../../src/types/orders';
+import type {
+  OrderSubscriptionWithShop,
+  SubscriptionRecurrence,
+  UpdateSubscriptionInput,
+} from '../../../../src/types/subscriptions';
+import { formatQuantity } from '../../../../src/utils/quantity';
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const RECURRENCE_OPTIONS: Array<{ value: SubscriptionRecurrence; label: string }> = [
+  { value: 'daily', label: 'Every day' },
+  { value: 'weekdays', label: 'Weekdays' },
+  { value: 'weekly', label: 'Weekly on…' },
+];
+
+const STATUS_STYLES: Record<OrderSubscriptionWithShop['status'], string> = {
+  active: 'bg-green-100 text-green-800',
+  paused: 'bg-yellow-100 text-yellow-800',
+  cancelled: 'bg-gray-100 text-gray-600',
+  ended: 'bg-gray-100 text-gray-600',
+};
+
+const todayIso = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+
+const describeSchedule = (subscription: OrderSubscriptionWithShop) => {
+  const time = subscription.delivery_time.slice(0, 5);
+  if (subscription.recurrence === 'daily') return `Every day at ${time}`;
+  if (subscription.recurrence === 'weekdays') return `Weekdays at ${time}`;
+  const days = [...subscription.days_of_week].sort().map((day) => DAYS[day]).join(', ');
+  return `Every ${days} at ${time}`;
+};
+
+/**
+ * Lets the consumer turn a past order into a recurring delivery and pause,
+ * skip or stop their subscriptions.
+ */
+export default function SubscriptionsSection() {
+  const [subscriptions, setSubscriptions] = useState<OrderSubscriptionWithShop[]>([]);
+  const [pastOrders, setPastOrders] = useState<OrderWithAll[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [form, setForm] = useState({
+    orderId: '',
+    recurrence: 'daily' as SubscriptionRecurrence,
+    daysOfWeek: [] as number[],
+    deliveryTime: '08:00',
+    startsOn: todayIso(),
+    endsOn: '',
+  });
+  const [saving, setSaving] = useState(false);
+
+  const loadSubscriptions = async () => {
+    const { data, error: loadError } = await getUserSubscriptions();
+    if (loadError) {
+      setError(loadError.message);
+    } else {
+      setSubscriptions(data ?? []);
+    }
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([getUserSubscriptions(), getUserOrders()]).then(([subscriptionResult, orders]) => {
+      if (cancelled) return;
+      if (subscriptionResult.error) setError(subscriptionResult.error.message);
+      setSubscriptions(subscriptionResult.data ?? []);
+      setPastOrders(orders.filter((order) => order.status !== 'cancelled'));
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const selectedOrder = useMemo(
+    () => pastOrders.find((order) => order.id === form.orderId) ?? null,
+    [pastOrders, form.orderId]
+  );
+
+  const handleUpdate = async (subscription: OrderSubscriptionWithShop, changes: UpdateSubscriptionInput) => {
+    setBusyId(subscription.id);
+    setError(null);
+    const { error: updateError } = await updateSubscription(subscription.id, changes);
+    if (updateError) {
+      setError(updateError.message);
+    } else {
+      await loadSubscriptions();
+    }
+    setBusyId(null);
+  };
+
+  const handleCreate = async () => {
+    if (!selectedOrder) {
+      setError('Choose an order to repeat.');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    const { error: createError } = await createSubscription({
+      shop_id: selectedOrder.shop_id,
+      consumer_address_id: selectedOrder.consumer_address_id,
+      // Repeat what was ordered, not what was substituted or packed
+      items: selectedOrder.order_items
+        .filter((item) => !item.substitute_for_id)
+        .map((item) => ({
+          merchant_item_id: item.merchant_item_id,
+          variant_id: item.variant_id ?? null,
+          quantity: item.ordered_quantity ?? item.quantity,
+          substitution_preference: item.substitution_preference ?? 'substitute',
+          item_name: item.item_name,
+          variant_name: item.variant_name ?? null,
+          unit_type: item.unit_type,
+        })),
+      // Nobody is at checkout to authorize a card when a repeat is placed, so repeats are paid in cash
+      payment_method: 'cash',
+      special_instructions: selectedOrder.special_instructions,
+      recurrence: form.recurrence,
+      days_of_week: form.daysOfWeek,
+      delivery_time: form.deliveryTime,
+      starts_on: form.startsOn,
+      ends_on: form.endsOn || null,
+    });
+
+    setSaving(false);
+    if (createError) {
+      setError(createError.message);
+      return;
+    }
+
+    setCreating(false);
+    setForm((prev) => ({ ...prev, orderId: '', endsOn: '' }));
+    await loadSubscriptions();
+  };
+
+  const toggleDay = (day: number) =>
+    setForm((prev) => ({
+      ...prev,
+      daysOfWeek: prev.daysOfWeek.includes(day)
+        ? prev.daysOfWeek.filter((d) => d !== day)
+        : [...prev.daysOfWeek, day],
+    }));
+
+  const visibleSubscriptions = subscriptions.filter((subscription) => subscription.status !== 'cancelled');
+
+  return (
+    <div className="bg-white rounded-xl sm:rounded-2xl shadow-lg border border-gray-100 overflow-hidden">
+      <div className="px-4 sm:px-5 md:px-6 py-4 sm:py-5 border-b border-gray-100 bg-gray-50 flex items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg sm:text-xl font-bold text-gray-900">Subscriptions</h2>
+          <p className="text-xs sm:text-sm text-gray-500">Get your everyday essentials delivered on repeat</p>
+        </div>
+        {!creating && (
+          <button
+            onClick={() => setCreating(true)}
+            className="px-3 sm:px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-xs sm:text-sm font-medium flex-shrink-0"
+          >
+            New subscription
+          </button>
+        )}
+      </div>
+
+      <div className="p-4 sm:p-5 md:p-6 space-y-4">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {creating && (
+          <div className="p-4 border border-blue-100 bg-blue-50/50 rounded-xl space-y-3">
+            <div>
+              <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Repeat an order</label>
+              <select
+                value={form.orderId}
+                onChange={(e) => setForm({ ...form, orderId: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Choose a past order</option>
+                {pastOrders.map((order) => (
+                  <option key={order.id} value={order.id}>
+                    {order.shop?.name ?? 'Shop'} · {new Date(order.placed_at).toLocaleDateString()} · Rs{' '}
+                    {Math.round(order.total_cents / 100).toLocaleString()}
+                  </option>
+                ))}
+              </select>
+              {selectedOrder && (
+                <p className="mt-1 text-xs text-gray-500">
+                  {selectedOrder.order_items
+                    .filter((item) => !item.substitute_for_id)
+                    .map((item) => `${item.item_name} × ${formatQuantity(item.ordered_quantity ?? item.quantity, item.unit_type)}`)
+                    .join(', ')}
+                </p>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {RECURRENCE_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setForm({ ...form, recurrence: option.value })}
+                  className={`px-3 py-1.5 rounded-lg border text-xs sm:text-sm font-medium transition-colors ${
+                    form.recurrence === option.value
+                      ? 'border-blue-500 bg-blue-50 text-blue-700'
+                      : 'border-gray-200 text-gray-700 hover:border-blue-300'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            {form.recurrence === 'weekly' && (
+              <div className="flex flex-wrap gap-1.5">
+                {DAYS.map((day, index) => (
+                  <button
+                    key={day}
+                    type="button"
+                    onClick={() => toggleDay(index)}
+                    className={`w-11 py-1.5 rounded-lg border text-xs font-medium transition-colors ${
+                      form.daysOfWeek.includes(index)
+                        ? 'border-blue-500 bg-blue-600 text-white'
+                        : 'border-gray-200 text-gray-700 hover:border-blue-300'
+                    }`}
+                  >
+                    {day}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div>
+                <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Deliver at</label>
+                <input
+                  type="time"
+                  value={form.deliveryTime}
+                  onChange={(e) => setForm({ ...form, deliveryTime: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Starting</label>
+                <input
+                  type="date"
+                  value={form.startsOn}
+                  min={todayIso()}
+                  onChange={(e) => setForm({ ...form, startsOn: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Until (optional)</label>
+                <input
+                  type="date"
+                  value={form.endsOn}
+                  min={form.startsOn}
+                  onChange={(e) => setForm({ ...form, endsOn: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <button
+                onClick={handleCreate}
+                disabled={saving}
+                className="px-3 sm:px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 text-xs sm:text-sm font-medium"
+              >
+                {saving ? 'Saving...' : 'Start subscription'}
+              </button>
+              <button
+                onClick={() => setCreating(false)}
+                disabled={saving}
+                className="px-3 sm:px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors text-xs sm:text-sm font-medium"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading subscriptions...</p>
+        ) : visibleSubscriptions.length === 0 ? (
+          !creating && <p className="text-sm text-gray-500">You have no subscriptions yet.</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {visibleSubscriptions.map((subscription) => {
+              const busy = busyId === subscription.id;
+              const upcomingSkips = subscription.skip_dates.filter((date) => date >= todayIso()).sort();
+              return (
+                <div key={subscription.id} className="py-4 first:pt-0 last:pb-0 space-y-2">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="text-sm sm:text-base font-semibold text-gray-900 truncate">
+                        {subscription.shop?.name ?? 'Shop'}
+                      </p>
+                      <p className="text-xs sm:text-sm text-gray-600">{describeSchedule(subscription)}</p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {subscription.items
+                          .map((item) => `${item.item_name ?? 'Item'} × ${formatQuantity(item.quantity, item.unit_type)}`)
+                          .join(', ')}
+                      </p>
+                    </div>
+                    <span className={`px-2.5 py-1 rounded-full text-xs font-semibold capitalize flex-shrink-0 ${STATUS_STYLES[subscription.status]}`}>
+                      {subscription.status}
+                    </span>
+                  </div>
+
+                  {subscription.next_run_on && (
+                    <p className="text-xs text-gray-700">
+                      Next delivery: <span className="font-semibold">{formatDay(subscription.next_run_on)}</span>
+                      {subscription.ends_on && <span className="text-gray-500"> · until {formatDay(subscription.ends_on)}</span>}
+                    </p>
+                  )}
+                  {subscription.last_error && (
+                    <p className="text-xs text-amber-700">
+                      {subscription.last_run_on ? `${formatDay(subscription.last_run_on)}: ` : ''}
+                      {SUBSCRIPTION_RUN_ERRORS[subscription.last_error] ?? "We couldn't place this order."}
+                    </p>
+                  )}
+                  {upcomingSkips.length > 0 && (
+                    <div className="flex flex-wrap gap-1.5">
+                      {upcomingSkips.map((date) => (
+                        <button
+                          key={date}
+                          onClick={() =>
+                            handleUpdate(subscription, {
+                              skip_dates: subscription.skip_dates.filter((skipped) => skipped !== date),
+                            })
+                          }
+                          disabled={busy}
+                          className="px-2 py-0.5 rounded-full bg-gray-100 text-xs text-gray-600 hover:bg-gray-200"
+                          title="Deliver on this date after all"
+                        >
+                          Skipping {formatDay(date)} ×
+                        </button>
+                      ))}
+                    </div>
+                  )}
+
+                  {subscription.status !== 'ended' && (
+                    <div className="flex flex-wrap gap-2 pt-1">
+                      {subscription.status === 'active' && subscription.next_run_on && (
+                        <button
+                          onClick={() =>
+                            handleUpdate(subscription, {
+                              skip_dates: [...subscription.skip_dates, subscription.next_run_on!],
+                            })
+                          }
+                          disabled={busy}
+                          className="px-3 py-1.5 rounded-lg border border-gray-200 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          Skip next delivery
+                        </button>
+                      )}
+                      <button
+                        onClick={() =>
+                          handleUpdate(subscription, { status: subscription.status === 'active' ? 'paused' : 'active' })
+                        }
+                        disabled={busy}
+                        className="px-3 py-1.5 rounded-lg border border-gray-200 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        {subscription.status === 'active' ? 'Pause' : 'Resume'}
+                      </button>
+                      <label className="flex items-center gap-1.5 text-xs text-gray-600">
+                        End on
+                        <input
+                          type="date"
+                          value={subscription.ends_on ?? ''}
+                          min={todayIso()}
+                          onChange={(e) => handleUpdate(subscription, { ends_on: e.target.value || null })}
+                          disabled={busy}
+                          className="px-2 py-1 border border-gray-300 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </label>
+                      <button
+                        onClick={() => {
+                          if (confirm('Cancel this subscription? No further orders will be placed.')) {
+                            handleUpdate(subscription, { status: 'cancelled' });
+                          }
+                        }}
+                        disabled={busy}
+                        className="px-3 py-1.5 rounded-lg text-xs font-medium text-red-600 hover:bg-red-50 disabled:opacity-50"
+                      >
+                        Cancel subscription
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import {
+  getWalletBalance,
+  getWalletTransactions,
+  WALLET_TRANSACTION_LABELS,
+} from '../../../../src/services/consumer/walletService';
+import type { WalletTransaction } from '../../../../src/types/wallet';
+
+const formatRupees = (cents: number) => `Rs ${Math.round(cents / 100).toLocaleString()}`;
+
+/**
+ * Store-credit balance and its history: refunds, returned credit from
+ * cancelled orders, goodwill and promotions in; checkout spending out.
+ */
+export default function WalletSection() {
+  const [balanceCents, setBalanceCents] = useState(0);
+  const [transactions, setTransactions] = useState<WalletTransaction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showAll, setShowAll] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([getWalletBalance(), getWalletTransactions()]).then(([balanceResult, transactionResult]) => {
+      if (cancelled) return;
+      if (balanceResult.error || transactionResult.error) {
+        setError((balanceResult.error || transactionResult.error)?.message ?? null);
+      }
+      setBalanceCents(balanceResult.data ?? 0);
+      setTransactions(transactionResult.data ?? []);
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const visibleTransactions = showAll ? transactions : transactions.slice(0, 5);
+
+  return (
+    <div className="bg-white rounded-xl sm:rounded-2xl shadow-lg border border-gray-100 overflow-hidden">
+      <div className="px-4 sm:px-5 md:px-6 py-4 sm:py-5 border-b border-gray-100 bg-gray-50 flex items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg sm:text-xl font-bold text-gray-900">Wallet</h2>
+          <p className="text-xs sm:text-sm text-gray-500">Store credit you can spend at checkout</p>
+        </div>
+        <p className="text-xl sm:text-2xl font-bold text-green-700">{loading ? '…' : formatRupees(balanceCents)}</p>
+      </div>
+      <div className="p-4 sm:p-5 md:p-6">
+        {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : transactions.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No wallet activity yet. Refunds and credit from cancelled orders will show up here.
+          </p>
+        ) : (
+          <>
+            <div className="divide-y divide-gray-100">
+              {visibleTransactions.map((transaction) => (
+                <div key={transaction.id} className="flex items-center justify-between gap-3 py-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900">
+                      {WALLET_TRANSACTION_LABELS[transaction.transaction_type]}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {new Date(transaction.created_at).toLocaleDateString(undefined, {
+                        month: 'short',
+                        day: 'numeric',
+                        year: 'numeric',
+                      })}
+                      {transaction.description && ` · ${transaction.description}`}
+                    </p>
+                  </div>
+                  <div className="text-right flex-shrink-0">
+                    <p
+                      className={`text-sm font-semibold ${
+                        transaction.amount_cents > 0 ? 'text-green-700' : 'text-gray-900'
+                      }`}
+                    >
+                      {transaction.amount_cents > 0 ? '+' : '−'}
+                      {formatRupees(Math.abs(transaction.amount_cents))}
+                    </p>
+                    <p className="text-xs text-gray-400">Balance {formatRupees(transaction.balance_after_cents)}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+            {transactions.length > 5 && (
+              <button
+                onClick={() => setShowAll((value) => !value)}
+                className="mt-2 text-sm font-medium text-blue-600 hover:text-blue-700"
+              >
+                {showAll ? 'Show less' : `Show all ${transactions.length}`}
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
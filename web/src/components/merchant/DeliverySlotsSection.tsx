@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import {
+  useDeleteDeliverySlot,
+  useDeliverySlots,
+  useSaveDeliverySlot,
+} from '../../../../src/hooks/merchant/useDeliverySlots';
+import type { DeliverySlot, DeliverySlotPayload } from '../../../../src/services/merchant/deliverySlotService';
+
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const EMPTY_SLOT: DeliverySlotPayload = { dayOfWeek: 1, startTime: '18:00', endTime: '20:00', maxOrders: 10 };
+
+const toPayload = (slot: DeliverySlot): DeliverySlotPayload => ({
+  dayOfWeek: slot.dayOfWeek,
+  startTime: slot.startTime,
+  endTime: slot.endTime,
+  maxOrders: slot.maxOrders,
+  isActive: slot.isActive,
+});
+
+/**
+ * Weekly delivery windows consumers can schedule orders into. Each slot
+ * takes at most maxOrders orders per occurrence.
+ */
+export default function DeliverySlotsSection({ shopId }: { shopId: string }) {
+  const { data: slots = [], isLoading } = useDeliverySlots(shopId);
+  const saveSlot = useSaveDeliverySlot(shopId);
+  const deleteSlot = useDeleteDeliverySlot(shopId);
+  const [draft, setDraft] = useState<DeliverySlotPayload>(EMPTY_SLOT);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = async () => {
+    if (draft.endTime <= draft.startTime) {
+      setError('End time must be after start time.');
+      return;
+    }
+    if (!draft.maxOrders || draft.maxOrders < 1) {
+      setError('Each slot needs room for at least one order.');
+      return;
+    }
+
+    setError(null);
+    try {
+      await saveSlot.mutateAsync({ payload: draft });
+      setDraft(EMPTY_SLOT);
+    } catch (err: any) {
+      setError(err.message || 'Failed to add delivery slot');
+    }
+  };
+
+  const handleUpdate = async (slot: DeliverySlot, changes: Partial<DeliverySlotPayload>) => {
+    setError(null);
+    try {
+      await saveSlot.mutateAsync({ slotId: slot.id, payload: { ...toPayload(slot), ...changes } });
+    } catch (err: any) {
+      setError(err.message || 'Failed to update delivery slot');
+    }
+  };
+
+  const handleDelete = async (slot: DeliverySlot) => {
+    if (!confirm(`Delete the ${DAYS[slot.dayOfWeek]} ${slot.startTime}–${slot.endTime} slot?`)) return;
+    setError(null);
+    try {
+      await deleteSlot.mutateAsync(slot.id);
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete delivery slot');
+    }
+  };
+
+  const busy = saveSlot.isLoading || deleteSlot.isLoading;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-100">
+      <div className="px-8 py-4 border-b border-gray-200">
+        <div className="text-lg font-semibold text-gray-900">Delivery Time Slots</div>
+        <p className="text-sm text-gray-500">
+          Customers can schedule orders into these weekly slots. Full slots can't be selected.
+        </p>
+      </div>
+      <div className="p-8 space-y-6">
+        {isLoading ? (
+          <div className="text-center text-gray-500 py-8">Loading...</div>
+        ) : slots.length === 0 ? (
+          <p className="text-sm text-gray-500">No slots yet. Customers can only order for delivery as soon as possible.</p>
+        ) : (
+          <div className="divide-y divide-gray-100 border border-gray-200 rounded-xl">
+            {slots.map((slot) => (
+              <div key={slot.id} className="flex flex-wrap items-center gap-4 px-4 py-3">
+                <div className="flex-1 min-w-[10rem]">
+                  <p className={`text-sm font-semibold ${slot.isActive ? 'text-gray-900' : 'text-gray-400'}`}>
+                    {DAYS[slot.dayOfWeek]}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {slot.startTime}–{slot.endTime}
+                  </p>
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  Max orders
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    defaultValue={slot.maxOrders}
+                    onBlur={(e) => {
+                      const maxOrders = parseInt(e.target.value, 10);
+                      if (maxOrders > 0 && maxOrders !== slot.maxOrders) handleUpdate(slot, { maxOrders });
+                    }}
+                    disabled={busy}
+                    className="w-20 px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+                  />
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={slot.isActive}
+                    onChange={(e) => handleUpdate(slot, { isActive: e.target.checked })}
+                    disabled={busy}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  Active
+                </label>
+                <button
+                  onClick={() => handleDelete(slot)}
+                  disabled={busy}
+                  className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                  title="Delete slot"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <h4 className="text-sm font-semibold text-gray-700 uppercase tracking-wide">Add a Slot</h4>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Day</label>
+              <select
+                value={draft.dayOfWeek}
+                onChange={(e) => setDraft({ ...draft, dayOfWeek: parseInt(e.target.value, 10) })}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              >
+                {DAYS.map((day, index) => (
+                  <option key={day} value={index}>
+                    {day}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">From</label>
+              <input
+                type="time"
+                value={draft.startTime}
+                onChange={(e) => setDraft({ ...draft, startTime: e.target.value })}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">To</label>
+              <input
+                type="time"
+                value={draft.endTime}
+                onChange={(e) => setDraft({ ...draft, endTime: e.target.value })}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Max orders</label>
+              <input
+                type="number"
+                min="1"
+                step="1"
+                value={draft.maxOrders}
+                onChange={(e) => setDraft({ ...draft, maxOrders: parseInt(e.target.value, 10) || 0 })}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <button
+              onClick={handleAdd}
+              disabled={busy}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saveSlot.isLoading ? 'Saving...' : 'Add Slot'}
+            </button>
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
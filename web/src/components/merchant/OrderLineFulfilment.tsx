@@ -0,0 +1,237 @@
+import React, { useState } from 'react';
+import { useInventoryItems } from '../../../../src/hooks/merchant/useInventoryItems';
+import type { InventoryItem } from '../../../../src/types/inventory';
+import type { OrderItem, OrderLineChange, OrderWithItems, SubstitutionPreference } from '../../../../src/types/orders';
+import { formatQuantity, getMinQuantity, lineSubtotalCents, UNIT_LABELS } from '../../../../src/utils/quantity';
+
+const PREFERENCE_LABELS: Record<SubstitutionPreference, { label: string; className: string }> = {
+  substitute: { label: 'Substitute OK', className: 'bg-green-50 text-green-700 border-green-200' },
+  call_me: { label: 'Call customer first', className: 'bg-yellow-50 text-yellow-800 border-yellow-200' },
+  remove: { label: 'Remove if unavailable', className: 'bg-gray-100 text-gray-700 border-gray-200' },
+};
+
+/** Name and price of the chosen substitute, for display only */
+interface SubstituteSummary {
+  name: string;
+  priceCents: number;
+  unitType: InventoryItem['unitType'];
+}
+
+interface OrderLineFulfilmentProps {
+  order: OrderWithItems;
+  changes: OrderLineChange[];
+  onChange: (changes: OrderLineChange[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Lets the merchant mark lines of a pending order unavailable or pick a
+ * substitute before confirming, following the customer's preference.
+ * Lines left alone are confirmed as ordered.
+ */
+export default function OrderLineFulfilment({ order, changes, onChange, disabled }: OrderLineFulfilmentProps) {
+  const [pickingLineId, setPickingLineId] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [substitutes, setSubstitutes] = useState<Record<string, SubstituteSummary>>({});
+
+  const { data: searchResults, isLoading: searching } = useInventoryItems(order.shop_id, {
+    search: search.trim() || undefined,
+    active: true,
+    limit: 8,
+  });
+
+  const lines = order.order_items.filter((item) => !item.substitute_for_id);
+  const changeFor = (lineId: string) => changes.find((change) => change.order_item_id === lineId);
+
+  const setChange = (lineId: string, change: OrderLineChange | null) => {
+    const rest = changes.filter((existing) => existing.order_item_id !== lineId);
+    onChange(change ? [...rest, change] : rest);
+  };
+
+  const handleAction = (line: OrderItem, action: string) => {
+    if (action === 'unavailable' || action === 'substitute') {
+      setChange(line.id, { order_item_id: line.id, action });
+      setPickingLineId(action === 'substitute' ? line.id : null);
+    } else {
+      setChange(line.id, null);
+      setPickingLineId(null);
+    }
+  };
+
+  const chooseSubstitute = (line: OrderItem, item: InventoryItem, variantId: string | null) => {
+    const variant = variantId ? item.variants.find((v) => v.id === variantId) : undefined;
+    const rules = { unit_type: item.unitType, quantity_step: item.quantityStep, min_quantity: item.minQuantity };
+    const quantity = item.unitType === (line.unit_type ?? 'piece') ? line.quantity : getMinQuantity(rules);
+
+    setChange(line.id, {
+      order_item_id: line.id,
+      action: 'substitute',
+      substitute_item_id: item.id,
+      substitute_variant_id: variantId,
+      quantity,
+    });
+    setSubstitutes((prev) => ({
+      ...prev,
+      [line.id]: {
+        name: variant ? `${item.name} · ${variant.name}` : item.name,
+        priceCents: variant?.priceCents ?? item.priceCents,
+        unitType: item.unitType,
+      },
+    }));
+    setPickingLineId(null);
+    setSearch('');
+  };
+
+  const subtotalCents = lines.reduce((sum, line) => {
+    const change = changeFor(line.id);
+    if (!change) return sum + line.subtotal_cents;
+    const substitute = substitutes[line.id];
+    if (change.action === 'substitute' && substitute && change.quantity) {
+      return sum + lineSubtotalCents(substitute.priceCents, change.quantity);
+    }
+    return sum;
+  }, 0);
+  const needsCall = lines.some((line) => line.substitution_preference === 'call_me');
+
+  return (
+    <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-3">
+      <div>
+        <p className="text-sm font-semibold text-gray-900">Items</p>
+        <p className="text-xs text-gray-500">
+          Mark anything you can't supply as unavailable or choose a substitute. Everything else is confirmed as ordered.
+        </p>
+        {needsCall && order.customer_phone && (
+          <a href={`tel:${order.customer_phone}`} className="mt-1 inline-block text-xs font-medium text-blue-600 hover:text-blue-700">
+            Call {order.customer_name || 'customer'} ({order.customer_phone})
+          </a>
+        )}
+      </div>
+
+      {lines.map((line) => {
+        const change = changeFor(line.id);
+        const preference = PREFERENCE_LABELS[line.substitution_preference ?? 'substitute'];
+        const substitute = substitutes[line.id];
+        return (
+          <div key={line.id} className="space-y-2 border-t border-gray-200 pt-3 first:border-t-0 first:pt-0">
+            <div className="flex items-start gap-3">
+              <div className="flex-1 min-w-0">
+                <p className={`text-sm font-medium truncate ${change ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+                  {line.item_name}
+                  {line.variant_name && <span className="font-normal"> · {line.variant_name}</span>}
+                  <span className="font-normal"> × {formatQuantity(line.quantity, line.unit_type)}</span>
+                </p>
+                <span className={`inline-block mt-1 px-2 py-0.5 border rounded text-xs font-medium ${preference.className}`}>
+                  {preference.label}
+                </span>
+              </div>
+              <select
+                value={change?.action ?? 'fulfil'}
+                onChange={(e) => handleAction(line, e.target.value)}
+                disabled={disabled}
+                className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+              >
+                <option value="fulfil">Available</option>
+                <option value="unavailable">Unavailable</option>
+                <option value="substitute" disabled={line.substitution_preference === 'remove'}>
+                  Substitute
+                </option>
+              </select>
+            </div>
+
+            {change?.action === 'substitute' && (
+              <div className="pl-3 border-l-2 border-blue-200 space-y-2">
+                {substitute && change.substitute_item_id && pickingLineId !== line.id ? (
+                  <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() => setPickingLineId(line.id)}
+                      disabled={disabled}
+                      className="flex-1 min-w-0 text-left text-sm text-blue-700 truncate hover:underline"
+                    >
+                      {substitute.name}
+                    </button>
+                    <input
+                      type="number"
+                      step="0.001"
+                      min="0"
+                      value={change.quantity ?? ''}
+                      onChange={(e) => setChange(line.id, { ...change, quantity: parseFloat(e.target.value) || undefined })}
+                      disabled={disabled}
+                      className="w-20 px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                    />
+                    <span className="text-xs text-gray-500 w-5">{UNIT_LABELS[substitute.unitType]}</span>
+                  </div>
+                ) : (
+                  <>
+                    <input
+                      type="text"
+                      value={search}
+                      onChange={(e) => setSearch(e.target.value)}
+                      onFocus={() => setPickingLineId(line.id)}
+                      disabled={disabled}
+                      placeholder="Search your inventory..."
+                      className="w-full px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                    />
+                    {pickingLineId === line.id && (
+                      <div className="max-h-40 overflow-y-auto bg-white border border-gray-200 rounded-lg divide-y divide-gray-100">
+                        {searching ? (
+                          <p className="px-3 py-2 text-xs text-gray-500">Searching...</p>
+                        ) : (searchResults?.items ?? []).length === 0 ? (
+                          <p className="px-3 py-2 text-xs text-gray-500">No matching items.</p>
+                        ) : (
+                          searchResults!.items.map((item) => {
+                            const activeVariants = item.variants.filter((variant) => variant.isActive);
+                            const outOfStock = item.availableQuantity !== null && item.availableQuantity <= 0;
+                            if (activeVariants.length === 0) {
+                              return (
+                                <button
+                                  key={item.id}
+                                  type="button"
+                                  onClick={() => chooseSubstitute(line, item, null)}
+                                  disabled={outOfStock}
+                                  className="w-full px-3 py-2 flex items-center justify-between text-left text-sm hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                  <span className="truncate">{item.name}</span>
+                                  <span className="text-xs text-gray-500 flex-shrink-0">
+                                    {outOfStock ? 'Out of stock' : `Rs ${Math.round(item.priceCents / 100).toLocaleString()}`}
+                                  </span>
+                                </button>
+                              );
+                            }
+                            return activeVariants.map((variant) => (
+                              <button
+                                key={`${item.id}:${variant.id}`}
+                                type="button"
+                                onClick={() => chooseSubstitute(line, item, variant.id)}
+                                disabled={outOfStock}
+                                className="w-full px-3 py-2 flex items-center justify-between text-left text-sm hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                              >
+                                <span className="truncate">
+                                  {item.name} <span className="text-gray-500">· {variant.name}</span>
+                                </span>
+                                <span className="text-xs text-gray-500 flex-shrink-0">
+                                  {outOfStock ? 'Out of stock' : `Rs ${Math.round(variant.priceCents / 100).toLocaleString()}`}
+                                </span>
+                              </button>
+                            ));
+                          })
+                        )}
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {changes.length > 0 && (
+        <p className="text-sm text-gray-700">
+          New subtotal: <span className="font-semibold">Rs {Math.round(subtotalCents / 100).toLocaleString()}</span>
+          <span className="text-gray-500"> (was Rs {Math.round(order.subtotal_cents / 100).toLocaleString()})</span>
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import React, { useMemo, useState } from 'react';
+import { adjustOrderItemQuantities } from '../../../../src/services/merchant/orderService';
+import type { OrderItem, OrderWithItems } from '../../../../src/types/orders';
+import {
+  formatQuantity,
+  isWeightedUnit,
+  isWithinAdjustmentTolerance,
+  lineSubtotalCents,
+  UNIT_LABELS,
+  WEIGHT_ADJUSTMENT_TOLERANCE,
+} from '../../../../src/utils/quantity';
+
+interface OrderWeightAdjustmentProps {
+  order: OrderWithItems;
+  disabled?: boolean;
+}
+
+/**
+ * Lets the merchant enter packed weights for kg/litre lines of a confirmed
+ * order. Renders nothing when the order has no weighted lines.
+ */
+export default function OrderWeightAdjustment({ order, disabled }: OrderWeightAdjustmentProps) {
+  const [items, setItems] = useState<OrderItem[]>(order.order_items);
+  const [totalCents, setTotalCents] = useState(order.total_cents);
+  const [packed, setPacked] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const weightedItems = useMemo(() => items.filter((item) => isWeightedUnit(item.unit_type)), [items]);
+
+  if (weightedItems.length === 0) {
+    return null;
+  }
+
+  const orderedQuantity = (item: OrderItem) => item.ordered_quantity ?? item.quantity;
+
+  const handleSave = async () => {
+    setError(null);
+    setSaved(false);
+
+    const lines: Array<{ order_item_id: string; quantity: number }> = [];
+    for (const item of weightedItems) {
+      const input = packed[item.id]?.trim();
+      if (!input) continue;
+
+      const quantity = parseFloat(input);
+      if (Number.isNaN(quantity) || !isWithinAdjustmentTolerance(orderedQuantity(item), quantity)) {
+        setError(`${item.item_name}: packed amount must be within ${WEIGHT_ADJUSTMENT_TOLERANCE * 100}% of ${formatQuantity(orderedQuantity(item), item.unit_type)}`);
+        return;
+      }
+      lines.push({ order_item_id: item.id, quantity });
+    }
+
+    if (lines.length === 0) {
+      setError('Enter the packed amount for at least one line.');
+      return;
+    }
+
+    setSaving(true);
+    const result = await adjustOrderItemQuantities(order.id, lines);
+    setSaving(false);
+
+    if (!result.success) {
+      setError(result.message || 'Failed to record packed amounts');
+      return;
+    }
+
+    if (result.order) {
+      setItems(result.order.order_items);
+      setTotalCents(result.order.total_cents);
+    }
+    setPacked({});
+    setSaved(true);
+  };
+
+  return (
+    <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-3">
+      <div>
+        <p className="text-sm font-semibold text-gray-900">Packed weights</p>
+        <p className="text-xs text-gray-500">
+          Record the actual amount packed (within {WEIGHT_ADJUSTMENT_TOLERANCE * 100}% of the order). The customer sees the updated total.
+        </p>
+      </div>
+
+      {weightedItems.map((item) => {
+        const input = packed[item.id] ?? '';
+        const previewQuantity = input.trim() ? parseFloat(input) : item.quantity;
+        return (
+          <div key={item.id} className="flex items-center gap-3">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-gray-900 truncate">
+                {item.item_name}
+                {item.variant_name && <span className="text-gray-500 font-normal"> · {item.variant_name}</span>}
+              </p>
+              <p className="text-xs text-gray-500">
+                Ordered {formatQuantity(orderedQuantity(item), item.unit_type)}
+                {item.ordered_quantity != null && ` · packed ${formatQuantity(item.quantity, item.unit_type)}`}
+              </p>
+            </div>
+            <div className="flex items-center gap-1">
+              <input
+                type="number"
+                step="0.001"
+                min="0"
+                value={input}
+                onChange={(e) => setPacked((prev) => ({ ...prev, [item.id]: e.target.value }))}
+                disabled={disabled || saving}
+                className="w-24 px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                placeholder={String(item.quantity)}
+              />
+              <span className="text-xs text-gray-500 w-5">{UNIT_LABELS[item.unit_type!]}</span>
+            </div>
+            <span className="w-20 text-right text-sm font-medium text-gray-900">
+              Rs {Math.round(lineSubtotalCents(item.item_price_cents, Number.isNaN(previewQuantity) ? item.quantity : previewQuantity) / 100).toLocaleString()}
+            </span>
+          </div>
+        );
+      })}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {saved && !error && (
+        <p className="text-sm text-green-700">
+          Packed amounts saved. New total: Rs {Math.round(totalCents / 100).toLocaleString()}
+        </p>
+      )}
+
+      <button
+        onClick={handleSave}
+        disabled={disabled || saving}
+        className="w-full px-4 py-2 bg-white border border-blue-600 text-blue-600 rounded-lg font-semibold hover:bg-blue-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {saving ? 'Saving...' : 'Save Packed Weights'}
+      </button>
+    </div>
+  );
+}
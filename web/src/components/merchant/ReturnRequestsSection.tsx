@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { useResolveOrderReturn, useReturnPhotoUrl, useShopReturns } from '../../../../src/hooks/merchant/useShopReturns';
+import type { OrderReturnStatus, OrderReturnWithOrder } from '../../../../src/types/returns';
+import { RETURN_REASON_LABELS, RETURN_STATUS_LABELS } from '../../../../src/utils/orderStatus';
+import { formatQuantity } from '../../../../src/utils/quantity';
+
+const STATUS_FILTERS: Array<{ key: OrderReturnStatus; label: string }> = [
+  { key: 'requested', label: 'Open' },
+  { key: 'approved', label: 'Approved' },
+  { key: 'rejected', label: 'Declined' },
+];
+
+const statusStyles: Record<OrderReturnStatus, string> = {
+  requested: 'bg-amber-100 text-amber-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-gray-100 text-gray-700',
+};
+
+const formatRupees = (cents: number) => `Rs ${Math.round(cents / 100).toLocaleString()}`;
+
+/**
+ * Return/refund requests customers opened after delivery. Open requests can
+ * be approved, for the full or a lower amount, or declined with a note.
+ */
+export default function ReturnRequestsSection({ shopId }: { shopId: string }) {
+  const [filter, setFilter] = useState<OrderReturnStatus>('requested');
+  const { data: returns = [], isLoading } = useShopReturns(shopId, filter);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-100">
+      <div className="px-6 py-4 border-b border-gray-200 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div>
+          <div className="text-lg font-semibold text-gray-900">Returns & Refunds</div>
+          <p className="text-sm text-gray-500">Problems customers reported with delivered orders.</p>
+        </div>
+        <div className="flex gap-2">
+          {STATUS_FILTERS.map((option) => (
+            <button
+              key={option.key}
+              onClick={() => setFilter(option.key)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                filter === option.key ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="p-6 space-y-4">
+        {isLoading ? (
+          <p className="text-gray-500">Loading...</p>
+        ) : returns.length === 0 ? (
+          <p className="text-gray-500">No {STATUS_FILTERS.find((option) => option.key === filter)?.label.toLowerCase()} requests</p>
+        ) : (
+          returns.map((orderReturn) => (
+            <ReturnRequestCard key={orderReturn.id} shopId={shopId} orderReturn={orderReturn} />
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ReturnRequestCard({ shopId, orderReturn }: { shopId: string; orderReturn: OrderReturnWithOrder }) {
+  const resolveReturn = useResolveOrderReturn(shopId);
+  const { data: photoUrl } = useReturnPhotoUrl(orderReturn.photo_path);
+  const [refundRupees, setRefundRupees] = useState(String(Math.round(orderReturn.requested_cents / 100)));
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const orderItems = orderReturn.order?.order_items ?? [];
+  const isOpen = orderReturn.status === 'requested';
+
+  const handleResolve = async (approve: boolean) => {
+    setError(null);
+    let refundCents: number | undefined;
+    if (approve) {
+      refundCents = Math.round(Number(refundRupees) * 100);
+      if (!Number.isFinite(refundCents) || refundCents <= 0 || refundCents > orderReturn.requested_cents) {
+        setError(`Enter a refund between Rs 1 and ${formatRupees(orderReturn.requested_cents)}.`);
+        return;
+      }
+    }
+
+    try {
+      await resolveReturn.mutateAsync({ returnId: orderReturn.id, approve, refundCents, note });
+    } catch (err: any) {
+      setError(err.message || 'Failed to resolve request');
+    }
+  };
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-xl space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="text-sm font-semibold text-gray-900">
+            Order #{(orderReturn.order?.order_number || orderReturn.order_id.slice(0, 8)).toUpperCase()}
+          </p>
+          <p className="text-xs text-gray-500">
+            {RETURN_REASON_LABELS[orderReturn.reason_code]} · {new Date(orderReturn.created_at).toLocaleString()}
+          </p>
+        </div>
+        <span className={`px-3 py-1 rounded-full text-xs font-semibold ${statusStyles[orderReturn.status]}`}>
+          {RETURN_STATUS_LABELS[orderReturn.status]}
+        </span>
+      </div>
+
+      <ul className="text-sm text-gray-700 space-y-1">
+        {orderReturn.items.map((returnItem) => {
+          const orderItem = orderItems.find((item) => item.id === returnItem.order_item_id);
+          return (
+            <li key={returnItem.id} className="flex justify-between gap-3">
+              <span>
+                {orderItem?.item_name ?? 'Item'}
+                {orderItem?.variant_name && <span className="text-gray-500"> · {orderItem.variant_name}</span>}
+                <span className="text-gray-500"> × {formatQuantity(returnItem.quantity, orderItem?.unit_type)}</span>
+              </span>
+              <span className="font-medium">{formatRupees(returnItem.amount_cents)}</span>
+            </li>
+          );
+        })}
+      </ul>
+
+      {orderReturn.note && <p className="text-sm text-gray-600 italic">"{orderReturn.note}"</p>}
+      {photoUrl && (
+        <a href={photoUrl} target="_blank" rel="noopener noreferrer">
+          <img src={photoUrl} alt="Reported problem" className="h-24 w-24 rounded-lg object-cover border border-gray-200" />
+        </a>
+      )}
+
+      <div className="flex justify-between text-sm">
+        <span className="text-gray-600">Requested</span>
+        <span className="font-semibold text-gray-900">{formatRupees(orderReturn.requested_cents)}</span>
+      </div>
+      {orderReturn.refund_cents != null && (
+        <div className="flex justify-between text-sm">
+          <span className="text-gray-600">Refunded</span>
+          <span className="font-semibold text-green-700">{formatRupees(orderReturn.refund_cents)}</span>
+        </div>
+      )}
+      {orderReturn.merchant_note && <p className="text-xs text-gray-500">Your note: {orderReturn.merchant_note}</p>}
+
+      {isOpen && (
+        <div className="space-y-2 pt-2 border-t border-gray-200">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <label className="text-xs text-gray-600">
+              Refund (Rs)
+              <input
+                type="number"
+                min={1}
+                value={refundRupees}
+                onChange={(event) => setRefundRupees(event.target.value)}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              Note to the customer (optional)
+              <input
+                type="text"
+                value={note}
+                onChange={(event) => setNote(event.target.value)}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </label>
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleResolve(true)}
+              disabled={resolveReturn.isLoading}
+              className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg text-sm font-semibold hover:bg-green-700 transition-colors disabled:opacity-50"
+            >
+              Approve refund
+            </button>
+            <button
+              onClick={() => handleResolve(false)}
+              disabled={resolveReturn.isLoading}
+              className="flex-1 px-4 py-2 bg-white border border-red-200 text-red-600 rounded-lg text-sm font-semibold hover:bg-red-50 transition-colors disabled:opacity-50"
+            >
+              Decline
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import React from 'react';
+import { useSubscriptionVolume } from '../../../../src/hooks/merchant/useSubscriptionVolume';
+import { formatQuantity } from '../../../../src/utils/quantity';
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+/**
+ * Subscription deliveries the shop should prepare for over the next week,
+ * with the item quantities they add up to each day.
+ */
+export default function SubscriptionVolumeCard({ shopId }: { shopId: string }) {
+  const { data: volume = [], isLoading } = useSubscriptionVolume(shopId);
+  const activeDays = volume.filter((day) => day.subscription_count > 0);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+      <h2 className="text-xl font-bold text-gray-900 mb-1">Upcoming Subscriptions</h2>
+      <p className="text-sm text-gray-500 mb-4">Recurring orders from subscribed customers over the next 7 days.</p>
+      {isLoading ? (
+        <p className="text-gray-500">Loading...</p>
+      ) : activeDays.length === 0 ? (
+        <p className="text-gray-500">No subscription deliveries coming up</p>
+      ) : (
+        <div className="space-y-3">
+          {activeDays.map((day) => (
+            <div key={day.delivery_date} className="p-4 bg-gray-50 rounded-xl">
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-sm font-semibold text-gray-900">{formatDay(day.delivery_date)}</p>
+                <span className="px-3 py-1 rounded-full text-xs font-semibold bg-indigo-100 text-indigo-800">
+                  {day.subscription_count} order{day.subscription_count === 1 ? '' : 's'}
+                </span>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {day.items.map((item) => (
+                  <span
+                    key={`${item.merchant_item_id}:${item.variant_id ?? ''}`}
+                    className="px-2 py-1 bg-white border border-gray-200 rounded-lg text-xs text-gray-700"
+                  >
+                    {item.item_name}
+                    {item.variant_name && <span className="text-gray-500"> · {item.variant_name}</span>}
+                    <span className="font-semibold"> × {formatQuantity(item.quantity, item.unit_type)}</span>
+                  </span>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -33,6 +33,7 @@ const actionLabels: Record<string, string> = {
   DEACTIVATE: 'Marked Inactive',
   IMPORT: 'Imported',
   TEMPLATE_UPDATE: 'Synced from template',
+  LOW_STOCK: 'Low stock alert',
 };
 
 function formatPrice(value: unknown, currency: string = 'PKR') {
@@ -69,6 +70,11 @@ function formatDiffValue(value: unknown) {
 
 function buildChangeSummary(entry: AuditLogEntry): string[] {
   const changes = entry.changed_fields ?? {};
+  if (entry.action_type === 'LOW_STOCK') {
+    return [
+      `${formatDiffValue(changes.available_quantity?.to)} left (reorder threshold ${formatDiffValue(changes.reorder_threshold?.to)})`,
+    ];
+  }
   const meaningfulChanges = Object.entries(changes).filter(([field]) => field !== 'noop');
   const summaries: string[] = [];
 
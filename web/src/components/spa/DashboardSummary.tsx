@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../../../../src/services/supabase';
 import { getShopReviews, getShopReviewStats } from '../../../../src/services/consumer/reviewService';
+import LowStockWidget from './LowStockWidget';
 
 interface DashboardSummaryProps {
   shopId?: string;
@@ -451,6 +452,9 @@ export default function DashboardSummary({ shopId }: DashboardSummaryProps) {
             </div>
           </div>
 
+          {/* Low Stock */}
+          <LowStockWidget shopId={shopId} />
+
           {/* Chart */}
           {chartData.length > 0 && (() => {
             // Ensure maxValue is at least 1 to avoid division issues
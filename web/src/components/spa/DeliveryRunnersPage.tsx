@@ -1,8 +1,10 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { Plus, Edit, Trash2, Search, Phone, User } from 'lucide-react';
+import { Plus, Edit, Trash2, Search, Phone, User, Wallet } from 'lucide-react';
 import { supabase } from '../../../../src/services/supabase';
 import { useQuery, useQueryClient } from 'react-query';
 import { fetchDeliveryRunners } from '../../../../src/services/merchant/deliveryRunnerService';
+import { useRunnerCashBalances } from '../../../../src/hooks/merchant/useRunnerCash';
+import RunnerSettlementModal from './RunnerSettlementModal';
 
 interface DeliveryRunner {
   id: string;
@@ -27,6 +29,7 @@ export default function DeliveryRunnersPage({ shopId }: DeliveryRunnersPageProps
   const [runnerToDelete, setRunnerToDelete] = useState<DeliveryRunner | null>(null);
   const [deletingRunnerId, setDeletingRunnerId] = useState<string | null>(null);
   const [deleteError, setDeleteError] = useState<string | null>(null);
+  const [settlingRunner, setSettlingRunner] = useState<DeliveryRunner | null>(null);
   
   // Form state
   const [formData, setFormData] = useState({
@@ -48,6 +51,7 @@ export default function DeliveryRunnersPage({ shopId }: DeliveryRunnersPageProps
         .from('delivery_runners')
         .select('id, shop_id, name, phone_number, created_at, updated_at')
         .eq('shop_id', shopId)
+        .is('archived_at', null)
         .limit(50); // Small limit for speed
 
       const timeoutPromise = new Promise<{ data: DeliveryRunner[]; error: null }>((resolve) => {
@@ -83,6 +87,12 @@ export default function DeliveryRunnersPage({ shopId }: DeliveryRunnersPageProps
     }
   );
 
+  const { data: cashBalances = [] } = useRunnerCashBalances(shopId);
+  const balancesByRunner = useMemo(
+    () => new Map(cashBalances.map((balance) => [balance.runnerId, balance])),
+    [cashBalances]
+  );
+
   const handleAddRunner = () => {
     setFormData({ name: '', phoneNumber: '' });
     setFormError(null);
@@ -111,9 +121,10 @@ export default function DeliveryRunnersPage({ shopId }: DeliveryRunnersPageProps
     setDeletingRunnerId(runnerToDelete.id);
     setDeleteError(null);
     try {
-      const { error } = await supabase
-        .from('delivery_runners')
-        .delete()
+      // Archived rather than deleted, so the runner's cash history is kept
+      const { error } = await (supabase
+        .from('delivery_runners') as any)
+        .update({ archived_at: new Date().toISOString() })
         .eq('id', runnerToDelete.id)
         .eq('shop_id', shopId);
 
@@ -279,9 +290,10 @@ export default function DeliveryRunnersPage({ shopId }: DeliveryRunnersPageProps
       <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
         <div className="bg-gray-50 border-b border-gray-200 px-6 py-4">
           <div className="grid grid-cols-12 gap-4 items-center">
-            <div className="col-span-4 font-semibold text-gray-900">Name</div>
-            <div className="col-span-4 font-semibold text-gray-900">Phone Number</div>
+            <div className="col-span-3 font-semibold text-gray-900">Name</div>
+            <div className="col-span-3 font-semibold text-gray-900">Phone Number</div>
             <div className="col-span-2 font-semibold text-gray-900">Added</div>
+            <div className="col-span-2 font-semibold text-gray-900">Outstanding Cash</div>
             <div className="col-span-2 font-semibold text-gray-900">Actions</div>
           </div>
         </div>
@@ -297,14 +309,14 @@ export default function DeliveryRunnersPage({ shopId }: DeliveryRunnersPageProps
                 key={runner.id}
                 className="grid grid-cols-12 gap-4 items-center px-6 py-4 hover:bg-gray-50 transition-colors"
               >
-                <div className="col-span-4 flex items-center gap-3">
+                <div className="col-span-3 flex items-center gap-3">
                   <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center">
                     <User size={20} className="text-blue-600" />
                   </div>
                   <p className="font-medium text-gray-900">{runner.name}</p>
                 </div>
 
-                <div className="col-span-4 flex items-center gap-2">
+                <div className="col-span-3 flex items-center gap-2">
                   <Phone size={16} className="text-gray-400" />
                   <p className="text-sm text-gray-700">{runner.phone_number}</p>
                 </div>
@@ -313,7 +325,29 @@ export default function DeliveryRunnersPage({ shopId }: DeliveryRunnersPageProps
                   <p className="text-sm text-gray-600">{formatDate(runner.created_at)}</p>
                 </div>
 
+                <div className="col-span-2">
+                  {(() => {
+                    const balance = balancesByRunner.get(runner.id);
+                    const balanceCents = balance?.balanceCents ?? 0;
+                    return (
+                      <>
+                        <p className={`text-sm font-semibold ${balanceCents > 0 ? 'text-amber-700' : 'text-gray-900'}`}>
+                          Rs {Math.round(balanceCents / 100).toLocaleString()}
+                        </p>
+                        <p className="text-xs text-gray-500">{balance?.openShiftId ? 'On shift' : 'Off shift'}</p>
+                      </>
+                    );
+                  })()}
+                </div>
+
                 <div className="col-span-2 flex items-center gap-2">
+                  <button
+                    onClick={() => setSettlingRunner(runner)}
+                    className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition-colors"
+                    title="Cash & shifts"
+                  >
+                    <Wallet size={16} />
+                  </button>
                   <button
                     onClick={() => handleEditRunner(runner)}
                     className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
@@ -496,6 +530,16 @@ export default function DeliveryRunnersPage({ shopId }: DeliveryRunnersPageProps
         </div>
       )}
 
+      {/* Cash & Shift Settlement Modal */}
+      {settlingRunner && shopId && (
+        <RunnerSettlementModal
+          shopId={shopId}
+          runner={settlingRunner}
+          balance={balancesByRunner.get(settlingRunner.id)}
+          onClose={() => setSettlingRunner(null)}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       {showDeleteModal && runnerToDelete && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
@@ -0,0 +1,357 @@
+import React, { useState } from 'react';
+import { Upload } from 'lucide-react';
+import {
+  IMPORT_FIELDS,
+  applyInventoryImportPlan,
+  buildInventoryImportPlan,
+  suggestImportColumnMapping,
+} from '../../../../src/services/merchant/inventoryImportService';
+import type {
+  InventoryImportChange,
+  InventoryImportColumnMapping,
+  InventoryImportField,
+  InventoryImportPlan,
+} from '../../../../src/types/inventory';
+import { parseSpreadsheetFile, type ParsedSpreadsheet } from '../../utils/spreadsheetParser';
+
+interface InventoryImportModalProps {
+  shopId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+type ImportStep = 'upload' | 'map' | 'preview' | 'done';
+
+const fieldLabels: Record<InventoryImportField, string> = {
+  name: 'Name',
+  sku: 'SKU',
+  barcode: 'Barcode',
+  price: 'Price',
+  category: 'Category',
+  active: 'Active',
+};
+
+const requiredFields: InventoryImportField[] = ['sku'];
+
+function formatValue(field: string, value: unknown) {
+  if (value === null || value === undefined) {
+    return '—';
+  }
+  if (field === 'price_cents' && typeof value === 'number') {
+    return (value / 100).toFixed(2);
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.join(', ') : '—';
+  }
+  return String(value);
+}
+
+function ChangeRow({ change }: { change: InventoryImportChange }) {
+  const fields = Object.entries(change.changedFields).filter(([field]) => field !== 'template_id');
+
+  return (
+    <div className="py-3">
+      <div className="flex items-center justify-between">
+        <p className="font-medium text-gray-900 truncate">{change.name}</p>
+        <span className="text-xs text-gray-500 ml-3 flex-shrink-0">Row {change.rowNumber} · SKU {change.sku}</span>
+      </div>
+      {change.action === 'create' ? (
+        <p className="text-xs text-gray-500 mt-1">
+          {change.templateId ? 'Linked to catalog template · ' : ''}
+          {formatValue('price_cents', change.priceCents)}
+          {change.categoryNames && change.categoryNames.length > 0 ? ` · ${change.categoryNames.join(', ')}` : ''}
+          {change.isActive ? '' : ' · Inactive'}
+        </p>
+      ) : (
+        <div className="mt-1 space-y-0.5">
+          {fields.map(([field, value]) => (
+            <p key={field} className="text-xs text-gray-600">
+              <span className="font-medium">{field.replace('_cents', '').replace('_', ' ')}:</span>{' '}
+              <span className="line-through text-gray-400">{formatValue(field, value.from)}</span>
+              {' → '}
+              {formatValue(field, value.to)}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function InventoryImportModal({ shopId, isOpen, onClose, onSuccess }: InventoryImportModalProps) {
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<ParsedSpreadsheet | null>(null);
+  const [mapping, setMapping] = useState<InventoryImportColumnMapping>({});
+  const [plan, setPlan] = useState<InventoryImportPlan | null>(null);
+  const [result, setResult] = useState<{ createdCount: number; updatedCount: number } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setSheet(null);
+    setMapping({});
+    setPlan(null);
+    setResult(null);
+    setError(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const parsed = await parseSpreadsheetFile(file);
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(suggestImportColumnMapping(parsed.headers));
+      setStep('map');
+    } catch (err: any) {
+      setError(err.message || 'Failed to read file');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!sheet) return;
+
+    const missing = requiredFields.filter((field) => mapping[field] === undefined);
+    if (missing.length > 0) {
+      setError(`Map a column to ${missing.map((field) => fieldLabels[field]).join(', ')}`);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    const { data, error: planError } = await buildInventoryImportPlan(shopId, sheet.rows, mapping);
+    setLoading(false);
+
+    if (planError || !data) {
+      setError(planError?.message || 'Failed to compare with your inventory');
+      return;
+    }
+
+    setPlan(data);
+    setStep('preview');
+  };
+
+  const handleApply = async () => {
+    if (!plan) return;
+
+    setLoading(true);
+    setError(null);
+    const { data, error: applyError } = await applyInventoryImportPlan(shopId, plan);
+    setLoading(false);
+
+    if (applyError || !data) {
+      setError(applyError?.message || 'Failed to import items');
+      return;
+    }
+
+    setResult(data);
+    setStep('done');
+    onSuccess();
+  };
+
+  const changeCount = plan ? plan.creates.length + plan.updates.length : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl max-w-3xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Import Items</h2>
+            {fileName && <p className="text-sm text-gray-500 mt-0.5">{fileName}</p>}
+          </div>
+          <button onClick={handleClose} className="text-gray-400 hover:text-gray-600 text-2xl">
+            ×
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-xl p-4">
+              <p className="text-red-600 text-sm">{error}</p>
+            </div>
+          )}
+
+          {step === 'upload' && (
+            <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-xl p-10 cursor-pointer hover:border-blue-400 transition-colors">
+              <Upload size={32} className="text-gray-400 mb-3" />
+              <span className="font-semibold text-gray-900">{loading ? 'Reading file...' : 'Choose a CSV or XLSX file'}</span>
+              <span className="text-sm text-gray-500 mt-1">
+                The first row must contain headers such as Name, SKU, Barcode, Price, Category and Active
+              </span>
+              <input
+                type="file"
+                accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                onChange={handleFileChange}
+                disabled={loading}
+                className="hidden"
+              />
+            </label>
+          )}
+
+          {step === 'map' && sheet && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                {sheet.rows.length} {sheet.rows.length === 1 ? 'row' : 'rows'} found. Match each field to a column in
+                your file. Rows are matched to existing items by SKU, and new items are linked to the catalog by
+                barcode or name.
+              </p>
+              <div className="grid grid-cols-2 gap-4">
+                {IMPORT_FIELDS.map((field) => (
+                  <div key={field}>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      {fieldLabels[field]} {requiredFields.includes(field) && <span className="text-red-500">*</span>}
+                    </label>
+                    <select
+                      value={mapping[field] ?? ''}
+                      onChange={(e) =>
+                        setMapping({
+                          ...mapping,
+                          [field]: e.target.value === '' ? undefined : Number(e.target.value),
+                        })
+                      }
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                    >
+                      <option value="">Don't import</option>
+                      {sheet.headers.map((header, index) => (
+                        <option key={index} value={index}>
+                          {header || `Column ${index + 1}`}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-3">
+                <button
+                  onClick={reset}
+                  className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+                >
+                  Choose another file
+                </button>
+                <button
+                  onClick={handlePreview}
+                  disabled={loading}
+                  className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-semibold disabled:opacity-50"
+                >
+                  {loading ? 'Comparing...' : 'Preview changes'}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {step === 'preview' && plan && (
+            <div className="space-y-6">
+              <div className="grid grid-cols-4 gap-3">
+                <div className="bg-green-50 rounded-xl p-3">
+                  <p className="text-2xl font-bold text-green-700">{plan.creates.length}</p>
+                  <p className="text-xs text-green-700">New items</p>
+                </div>
+                <div className="bg-blue-50 rounded-xl p-3">
+                  <p className="text-2xl font-bold text-blue-700">{plan.updates.length}</p>
+                  <p className="text-xs text-blue-700">Updates</p>
+                </div>
+                <div className="bg-gray-50 rounded-xl p-3">
+                  <p className="text-2xl font-bold text-gray-700">{plan.unchangedCount}</p>
+                  <p className="text-xs text-gray-600">Unchanged</p>
+                </div>
+                <div className="bg-red-50 rounded-xl p-3">
+                  <p className="text-2xl font-bold text-red-700">{plan.errors.length}</p>
+                  <p className="text-xs text-red-700">Errors</p>
+                </div>
+              </div>
+
+              {plan.errors.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-900 mb-2">Rows that will be skipped</h3>
+                  <div className="border border-red-100 rounded-xl divide-y divide-red-50 max-h-48 overflow-y-auto">
+                    {plan.errors.map((rowError) => (
+                      <p key={`${rowError.rowNumber}-${rowError.message}`} className="px-4 py-2 text-sm text-red-700">
+                        Row {rowError.rowNumber}
+                        {rowError.sku ? ` (${rowError.sku})` : ''}: {rowError.message}
+                      </p>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {plan.creates.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-900 mb-2">New items</h3>
+                  <div className="border border-gray-100 rounded-xl px-4 divide-y divide-gray-100 max-h-64 overflow-y-auto">
+                    {plan.creates.map((change) => (
+                      <ChangeRow key={change.rowNumber} change={change} />
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {plan.updates.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-900 mb-2">Updates</h3>
+                  <div className="border border-gray-100 rounded-xl px-4 divide-y divide-gray-100 max-h-64 overflow-y-auto">
+                    {plan.updates.map((change) => (
+                      <ChangeRow key={change.rowNumber} change={change} />
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex gap-3">
+                <button
+                  onClick={() => setStep('map')}
+                  disabled={loading}
+                  className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+                >
+                  Back
+                </button>
+                <button
+                  onClick={handleApply}
+                  disabled={loading || changeCount === 0}
+                  className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-semibold disabled:opacity-50"
+                >
+                  {loading ? 'Importing...' : `Apply ${changeCount} ${changeCount === 1 ? 'change' : 'changes'}`}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {step === 'done' && result && (
+            <div className="text-center py-6">
+              <p className="text-lg font-semibold text-gray-900">Import complete</p>
+              <p className="text-sm text-gray-600 mt-1">
+                {result.createdCount} created, {result.updatedCount} updated. The changes are recorded in the audit log.
+              </p>
+              <button
+                onClick={handleClose}
+                className="mt-6 px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-semibold"
+              >
+                Done
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
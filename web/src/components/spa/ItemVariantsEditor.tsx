@@ -0,0 +1,100 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+
+export interface VariantDraft {
+  id?: string;
+  name: string;
+  sku: string;
+  price: string;
+  isActive: boolean;
+}
+
+interface ItemVariantsEditorProps {
+  label: string;
+  variants: VariantDraft[];
+  onLabelChange: (label: string) => void;
+  onVariantsChange: (variants: VariantDraft[]) => void;
+}
+
+export default function ItemVariantsEditor({
+  label,
+  variants,
+  onLabelChange,
+  onVariantsChange,
+}: ItemVariantsEditorProps) {
+  const updateVariant = (index: number, changes: Partial<VariantDraft>) => {
+    onVariantsChange(variants.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)));
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-700">Variants</label>
+        <button
+          type="button"
+          onClick={() => onVariantsChange([...variants, { name: '', sku: '', price: '', isActive: true }])}
+          className="inline-flex items-center gap-1 text-sm font-medium text-blue-600 hover:text-blue-700"
+        >
+          <Plus className="w-4 h-4" />
+          Add variant
+        </button>
+      </div>
+
+      {variants.length === 0 ? (
+        <p className="text-sm text-gray-500">No variants. The item is sold at its base price.</p>
+      ) : (
+        <div className="space-y-2">
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => onLabelChange(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+            placeholder="Option name, e.g. Pack size"
+          />
+          {variants.map((variant, index) => (
+            <div key={variant.id ?? `new-${index}`} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={variant.name}
+                onChange={(e) => updateVariant(index, { name: e.target.value })}
+                className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                placeholder="500g"
+              />
+              <input
+                type="text"
+                value={variant.sku}
+                onChange={(e) => updateVariant(index, { sku: e.target.value })}
+                className="w-24 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                placeholder="SKU"
+              />
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={variant.price}
+                onChange={(e) => updateVariant(index, { price: e.target.value })}
+                className="w-24 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                placeholder="0.00"
+              />
+              <input
+                type="checkbox"
+                checked={variant.isActive}
+                onChange={(e) => updateVariant(index, { isActive: e.target.checked })}
+                className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                title="Active"
+              />
+              <button
+                type="button"
+                onClick={() => onVariantsChange(variants.filter((_, i) => i !== index))}
+                className="p-1 text-gray-400 hover:text-red-600"
+                title="Remove variant"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import React from 'react';
+import { useLowStockItems } from '../../../../src/hooks/merchant/useLowStockItems';
+
+interface LowStockWidgetProps {
+  shopId?: string;
+}
+
+export default function LowStockWidget({ shopId }: LowStockWidgetProps) {
+  const { data: items = [], isLoading, latestAlert, dismissAlert } = useLowStockItems(shopId || '');
+
+  if (!shopId) {
+    return null;
+  }
+
+  const alertItem = latestAlert ? items.find((item) => item.id === latestAlert.merchantItemId) : undefined;
+  const alertQuantity = latestAlert?.changedFields.available_quantity?.to;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+      {latestAlert && (
+        <div className="mb-4 flex items-start justify-between gap-3 p-3 bg-orange-50 border border-orange-200 rounded-lg">
+          <p className="text-sm text-orange-800">
+            <span className="font-semibold">{alertItem?.name || 'An item'}</span> is running low
+            {typeof alertQuantity === 'number' ? ` (${alertQuantity} left)` : ''}.
+          </p>
+          <button
+            onClick={dismissAlert}
+            className="text-orange-600 hover:text-orange-800 text-sm font-medium"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">Low Stock</h2>
+        {items.length > 0 && (
+          <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+            {items.length} {items.length === 1 ? 'item' : 'items'}
+          </span>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : items.length === 0 ? (
+        <div className="text-center py-6">
+          <p className="text-gray-500 mb-1">All stock is above reorder levels</p>
+          <p className="text-sm text-gray-400">Set a reorder threshold on tracked items to get alerts here</p>
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {items.map((item) => (
+            <div key={item.id} className="flex items-center justify-between py-3">
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900 truncate">{item.name}</p>
+                <p className="text-xs text-gray-500 mt-0.5">SKU: {item.sku}</p>
+              </div>
+              <div className="text-right flex-shrink-0 ml-4">
+                <p className={`text-sm font-semibold ${item.availableQuantity === 0 ? 'text-red-600' : 'text-orange-600'}`}>
+                  {item.availableQuantity === 0 ? 'Sold out' : `${item.availableQuantity} left`}
+                </p>
+                <p className="text-xs text-gray-500">Reorder at {item.reorderThreshold}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
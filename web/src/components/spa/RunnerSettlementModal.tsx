@@ -0,0 +1,289 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Printer } from 'lucide-react';
+import { useRunnerShiftMutations, useRunnerShiftSettlement } from '../../../../src/hooks/merchant/useRunnerCash';
+import type { RunnerCashBalance, RunnerCashEntryType } from '../../../../src/services/merchant/runnerCashService';
+
+const ENTRY_LABELS: Record<RunnerCashEntryType, string> = {
+  cash_collected: 'Cash collected',
+  float_issued: 'Change float given',
+  handover: 'Handed over',
+};
+
+const formatRupees = (cents: number) => `Rs ${Math.round(cents / 100).toLocaleString()}`;
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+interface RunnerSettlementModalProps {
+  shopId: string;
+  runner: { id: string; name: string; phone_number: string };
+  balance?: RunnerCashBalance;
+  onClose: () => void;
+}
+
+/**
+ * Open and close a runner's shift and review the cash they owe. Closing
+ * records what was handed over against the expected balance; the settlement
+ * report for the latest shift can be printed for the runner to sign.
+ */
+export default function RunnerSettlementModal({ shopId, runner, balance, onClose }: RunnerSettlementModalProps) {
+  const { data: settlement, isLoading } = useRunnerShiftSettlement(runner.id);
+  const { openShift, closeShift } = useRunnerShiftMutations(shopId);
+  const reportRef = useRef<HTMLDivElement>(null);
+
+  const outstandingCents = balance?.balanceCents ?? 0;
+  const openShiftId = balance?.openShiftId ?? null;
+
+  const [floatRupees, setFloatRupees] = useState('0');
+  const [handedOverRupees, setHandedOverRupees] = useState(String(Math.max(0, Math.round(outstandingCents / 100))));
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Default the handover to whatever the runner currently owes
+  useEffect(() => {
+    setHandedOverRupees(String(Math.max(0, Math.round(outstandingCents / 100))));
+  }, [outstandingCents]);
+
+  const handedOverCents = Math.round(Number(handedOverRupees) * 100);
+  const previewVarianceCents = Number.isFinite(handedOverCents) ? handedOverCents - outstandingCents : 0;
+
+  const handleOpenShift = async () => {
+    const openingFloatCents = Math.round(Number(floatRupees || 0) * 100);
+    if (!Number.isFinite(openingFloatCents) || openingFloatCents < 0) {
+      setError('Enter a float of zero or more.');
+      return;
+    }
+
+    setError(null);
+    try {
+      await openShift.mutateAsync({ runnerId: runner.id, openingFloatCents });
+      setFloatRupees('0');
+    } catch (err: any) {
+      setError(err.message || 'Failed to open shift');
+    }
+  };
+
+  const handleCloseShift = async () => {
+    if (!openShiftId) return;
+    if (!Number.isFinite(handedOverCents) || handedOverCents < 0) {
+      setError('Enter the cash handed over.');
+      return;
+    }
+
+    setError(null);
+    try {
+      await closeShift.mutateAsync({ shiftId: openShiftId, handedOverCents, note });
+      setNote('');
+    } catch (err: any) {
+      setError(err.message || 'Failed to close shift');
+    }
+  };
+
+  // Print only the report, not the portal around it
+  const handlePrint = () => {
+    const printWindow = window.open('', '_blank', 'width=720,height=900');
+    if (!printWindow || !reportRef.current) return;
+
+    printWindow.document.write(`<!doctype html><html><head><title>Settlement - ${runner.name}</title>
+      <style>
+        body { font-family: system-ui, sans-serif; color: #111827; padding: 24px; }
+        table { width: 100%; border-collapse: collapse; font-size: 13px; }
+        th, td { text-align: left; padding: 6px 4px; border-bottom: 1px solid #e5e7eb; }
+        td:last-child, th:last-child { text-align: right; }
+        .summary div { display: flex; justify-content: space-between; font-size: 14px; padding: 4px 0; }
+        .signature { margin-top: 48px; display: flex; gap: 48px; font-size: 13px; }
+        .signature div { flex: 1; border-top: 1px solid #111827; padding-top: 6px; }
+      </style></head><body>${reportRef.current.innerHTML}
+      <div class="signature"><div>Runner signature</div><div>Received by</div></div>
+      </body></html>`);
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  const shift = settlement?.shift;
+  const shiftSubtotalCents = (settlement?.entries ?? [])
+    .filter((entry) => entry.entryType !== 'handover')
+    .reduce((sum, entry) => sum + entry.amountCents, 0);
+  const expectedCents = shift?.expectedCents ?? (settlement ? settlement.carriedOverCents + shiftSubtotalCents : 0);
+  const isSubmitting = openShift.isLoading || closeShift.isLoading;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Cash & Shifts</h2>
+            <p className="text-sm text-gray-500">{runner.name}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl">
+            ×
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="flex items-center justify-between p-4 bg-gray-50 rounded-xl">
+            <span className="text-sm text-gray-600">Outstanding cash</span>
+            <span className={`text-xl font-bold ${outstandingCents > 0 ? 'text-amber-700' : 'text-gray-900'}`}>
+              {formatRupees(outstandingCents)}
+            </span>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-xl p-4">
+              <p className="text-red-600 text-sm">{error}</p>
+            </div>
+          )}
+
+          {openShiftId ? (
+            <div className="space-y-3">
+              <h3 className="font-semibold text-gray-900">Close shift</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <label className="text-xs text-gray-600">
+                  Cash handed over (Rs)
+                  <input
+                    type="number"
+                    min={0}
+                    value={handedOverRupees}
+                    onChange={(e) => setHandedOverRupees(e.target.value)}
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                </label>
+                <label className="text-xs text-gray-600">
+                  Note (optional)
+                  <input
+                    type="text"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                </label>
+              </div>
+              {previewVarianceCents !== 0 && (
+                <p className={`text-sm font-medium ${previewVarianceCents < 0 ? 'text-red-600' : 'text-amber-700'}`}>
+                  {previewVarianceCents < 0
+                    ? `Short by ${formatRupees(-previewVarianceCents)}; it stays on the runner's balance.`
+                    : `Over by ${formatRupees(previewVarianceCents)}.`}
+                </p>
+              )}
+              <button
+                onClick={handleCloseShift}
+                disabled={isSubmitting}
+                className="w-full px-6 py-3 bg-blue-600 text-white rounded-xl font-semibold hover:bg-blue-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {closeShift.isLoading ? 'Closing...' : 'Close shift'}
+              </button>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <h3 className="font-semibold text-gray-900">Open shift</h3>
+              <label className="block text-xs text-gray-600">
+                Change float given to the runner (Rs)
+                <input
+                  type="number"
+                  min={0}
+                  value={floatRupees}
+                  onChange={(e) => setFloatRupees(e.target.value)}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </label>
+              <button
+                onClick={handleOpenShift}
+                disabled={isSubmitting}
+                className="w-full px-6 py-3 bg-green-600 text-white rounded-xl font-semibold hover:bg-green-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {openShift.isLoading ? 'Opening...' : 'Open shift'}
+              </button>
+            </div>
+          )}
+
+          <div className="border-t border-gray-200 pt-6">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="font-semibold text-gray-900">Settlement report</h3>
+              {settlement && (
+                <button
+                  onClick={handlePrint}
+                  className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors"
+                >
+                  <Printer size={16} />
+                  <span>Print</span>
+                </button>
+              )}
+            </div>
+
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Loading...</p>
+            ) : !settlement || !shift ? (
+              <p className="text-sm text-gray-500">No shifts recorded for this runner yet.</p>
+            ) : (
+              <div ref={reportRef} className="space-y-4">
+                <div>
+                  <h4 className="text-lg font-semibold text-gray-900">Shift settlement · {runner.name}</h4>
+                  <p className="text-xs text-gray-500">
+                    {runner.phone_number} · {formatDateTime(shift.openedAt)} –{' '}
+                    {shift.closedAt ? formatDateTime(shift.closedAt) : 'open'}
+                  </p>
+                </div>
+
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b border-gray-200">
+                      <th className="py-2 font-medium">Time</th>
+                      <th className="py-2 font-medium">Entry</th>
+                      <th className="py-2 font-medium">Order</th>
+                      <th className="py-2 font-medium text-right">Amount</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {settlement.entries.map((entry) => (
+                      <tr key={entry.id}>
+                        <td className="py-2 text-gray-600">{formatDateTime(entry.createdAt)}</td>
+                        <td className="py-2 text-gray-900">{ENTRY_LABELS[entry.entryType]}</td>
+                        <td className="py-2 text-gray-600">
+                          {entry.orderNumber ? `#${entry.orderNumber.toUpperCase()}` : '—'}
+                        </td>
+                        <td className="py-2 text-right font-medium text-gray-900">{formatRupees(entry.amountCents)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                <div className="summary space-y-1 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Carried over from earlier</span>
+                    <span className="font-medium text-gray-900">{formatRupees(settlement.carriedOverCents)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Expected</span>
+                    <span className="font-semibold text-gray-900">{formatRupees(expectedCents)}</span>
+                  </div>
+                  {shift.handedOverCents != null && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Handed over</span>
+                      <span className="font-semibold text-gray-900">{formatRupees(shift.handedOverCents)}</span>
+                    </div>
+                  )}
+                  {shift.varianceCents != null && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Variance</span>
+                      <span
+                        className={`font-semibold ${
+                          shift.varianceCents === 0 ? 'text-green-700' : shift.varianceCents < 0 ? 'text-red-600' : 'text-amber-700'
+                        }`}
+                      >
+                        {shift.varianceCents === 0
+                          ? 'Settled'
+                          : `${shift.varianceCents < 0 ? 'Short' : 'Over'} ${formatRupees(Math.abs(shift.varianceCents))}`}
+                      </span>
+                    </div>
+                  )}
+                  {shift.note && <p className="text-xs text-gray-500">Note: {shift.note}</p>}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
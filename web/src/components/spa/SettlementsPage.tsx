@@ -0,0 +1,176 @@
+import React, { useMemo, useState } from 'react';
+import { Download } from 'lucide-react';
+import { useLedgerEntries, useSettlementStatements, useShopCommissionRate } from '../../../../src/hooks/merchant/useSettlements';
+import { summariseLedgerEntries, type SettlementTotals } from '../../../../src/services/merchant/settlementService';
+import { LEDGER_ENTRY_LABELS, toSettlementCsv } from '../../../../src/utils/settlementCsv';
+
+interface SettlementsPageProps {
+  shopId: string;
+  shopName?: string;
+}
+
+const formatRupees = (cents: number) =>
+  `${cents < 0 ? '-' : ''}Rs ${Math.round(Math.abs(cents) / 100).toLocaleString()}`;
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+// Periods are UTC dates and period_end is exclusive; show the last day covered
+const formatPeriod = (start: string, end: string) => {
+  const lastDay = new Date(end);
+  lastDay.setUTCDate(lastDay.getUTCDate() - 1);
+  const formatDay = (date: Date) =>
+    date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+  return `${formatDay(new Date(start))} – ${formatDay(lastDay)}`;
+};
+
+/**
+ * Money between the platform and the shop: the current, not yet settled
+ * period and the weekly statements issued so far. Any period can be
+ * exported as CSV.
+ */
+export default function SettlementsPage({ shopId, shopName }: SettlementsPageProps) {
+  // null is the current period
+  const [selectedStatementId, setSelectedStatementId] = useState<string | null>(null);
+  const { data: statements = [], isLoading: statementsLoading } = useSettlementStatements(shopId);
+  const { data: entries = [], isLoading: entriesLoading } = useLedgerEntries(shopId, selectedStatementId);
+  const { data: commissionRate } = useShopCommissionRate(shopId);
+
+  const selectedStatement = statements.find((statement) => statement.id === selectedStatementId) ?? null;
+  const currentTotals = useMemo(() => summariseLedgerEntries(entries), [entries]);
+
+  const totals: SettlementTotals = selectedStatement ?? currentTotals;
+  // The current period opens where the last statement closed
+  const openingBalanceCents = selectedStatement
+    ? selectedStatement.openingBalanceCents
+    : statements[0]?.closingBalanceCents ?? 0;
+  const closingBalanceCents = selectedStatement
+    ? selectedStatement.closingBalanceCents
+    : openingBalanceCents + entries.reduce((sum, entry) => sum + entry.amountCents, 0);
+
+  const handleExport = () => {
+    const csv = toSettlementCsv(entries, totals, openingBalanceCents, closingBalanceCents);
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = selectedStatement
+      ? `settlement-${selectedStatement.periodStart}-${selectedStatement.periodEnd}.csv`
+      : `settlement-current-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const summaryRows: Array<{ label: string; cents: number; detail?: string }> = [
+    { label: 'Opening balance', cents: openingBalanceCents },
+    { label: LEDGER_ENTRY_LABELS.order_revenue, cents: totals.orderRevenueCents, detail: `${totals.orderCount} orders` },
+    { label: LEDGER_ENTRY_LABELS.cash_collected, cents: totals.cashCollectedCents },
+    { label: LEDGER_ENTRY_LABELS.commission, cents: totals.commissionCents },
+    { label: LEDGER_ENTRY_LABELS.refund, cents: totals.refundCents },
+    { label: LEDGER_ENTRY_LABELS.adjustment, cents: totals.adjustmentCents },
+    { label: LEDGER_ENTRY_LABELS.payout, cents: totals.payoutCents },
+  ];
+
+  return (
+    <div className="p-6 bg-gray-50 min-h-screen space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Settlements{shopName ? ` · ${shopName}` : ''}</h1>
+          {commissionRate && (
+            <p className="text-sm text-gray-500">
+              Commission: {(commissionRate.rateBps / 100).toFixed(2).replace(/\.?0+$/, '')}% of item subtotal
+              {commissionRate.fixedFeeCents > 0 && ` + ${formatRupees(commissionRate.fixedFeeCents)} per order`}
+            </p>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <select
+            value={selectedStatementId ?? ''}
+            onChange={(e) => setSelectedStatementId(e.target.value || null)}
+            disabled={statementsLoading}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+          >
+            <option value="">Current period</option>
+            {statements.map((statement) => (
+              <option key={statement.id} value={statement.id}>
+                {formatPeriod(statement.periodStart, statement.periodEnd)}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleExport}
+            disabled={entriesLoading}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            <Download size={16} />
+            <span>Export CSV</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+        <div className="text-lg font-semibold text-gray-900 mb-1">
+          {selectedStatement ? formatPeriod(selectedStatement.periodStart, selectedStatement.periodEnd) : 'Current period'}
+        </div>
+        <p className="text-sm text-gray-500 mb-4">
+          {selectedStatement
+            ? `Issued ${formatDate(selectedStatement.createdAt)}`
+            : 'Not settled yet; statements are issued every Monday for the week before.'}
+        </p>
+        <div className="space-y-2 text-sm">
+          {summaryRows.map((row) => (
+            <div key={row.label} className="flex justify-between">
+              <span className="text-gray-600">
+                {row.label}
+                {row.detail && <span className="text-gray-400"> · {row.detail}</span>}
+              </span>
+              <span className="font-medium text-gray-900">{formatRupees(row.cents)}</span>
+            </div>
+          ))}
+          <div className="flex justify-between pt-2 border-t border-gray-200">
+            <span className="font-semibold text-gray-900">
+              {closingBalanceCents >= 0 ? 'Owed to you' : 'You owe the platform'}
+            </span>
+            <span className={`text-lg font-bold ${closingBalanceCents >= 0 ? 'text-green-700' : 'text-red-600'}`}>
+              {formatRupees(Math.abs(closingBalanceCents))}
+            </span>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="bg-gray-50 border-b border-gray-200 px-6 py-4">
+          <div className="grid grid-cols-12 gap-4 items-center">
+            <div className="col-span-2 font-semibold text-gray-900">Date</div>
+            <div className="col-span-3 font-semibold text-gray-900">Type</div>
+            <div className="col-span-2 font-semibold text-gray-900">Order</div>
+            <div className="col-span-3 font-semibold text-gray-900">Description</div>
+            <div className="col-span-2 font-semibold text-gray-900 text-right">Amount</div>
+          </div>
+        </div>
+        <div className="divide-y divide-gray-100">
+          {entriesLoading ? (
+            <div className="px-6 py-12 text-center text-gray-500">Loading...</div>
+          ) : entries.length === 0 ? (
+            <div className="px-6 py-12 text-center text-gray-500">No entries in this period.</div>
+          ) : (
+            entries.map((entry) => (
+              <div key={entry.id} className="grid grid-cols-12 gap-4 items-center px-6 py-3 text-sm">
+                <div className="col-span-2 text-gray-600">{formatDate(entry.createdAt)}</div>
+                <div className="col-span-3 text-gray-900">{LEDGER_ENTRY_LABELS[entry.entryType]}</div>
+                <div className="col-span-2 text-gray-600">
+                  {entry.orderNumber ? `#${entry.orderNumber.toUpperCase()}` : '—'}
+                </div>
+                <div className="col-span-3 text-gray-500 truncate">{entry.description ?? ''}</div>
+                <div
+                  className={`col-span-2 text-right font-medium ${entry.amountCents < 0 ? 'text-red-600' : 'text-gray-900'}`}
+                >
+                  {formatRupees(entry.amountCents)}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
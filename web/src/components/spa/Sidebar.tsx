@@ -17,7 +17,8 @@ import {
   List,
   FolderTree,
   FileText,
-  User
+  User,
+  Receipt
 } from 'lucide-react';
 
 interface SidebarProps {
@@ -60,6 +61,7 @@ export default function Sidebar({
     { id: 'orders', label: 'Orders', icon: ShoppingBag },
     { id: 'analytics', label: 'Analytics', icon: BarChart3 },
     { id: 'delivery', label: 'Delivery', icon: Truck },
+    { id: 'settlements', label: 'Settlements', icon: Receipt },
     { id: 'help-center', label: 'Help Center', icon: HelpCircle },
   ];
 
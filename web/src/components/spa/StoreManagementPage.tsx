@@ -4,14 +4,26 @@ import {
   Camera, 
   Edit, 
   Trash2,
-  Plus
+  Plus,
+  Upload,
+  Download
 } from 'lucide-react';
 import { supabase } from '../../../../src/services/supabase';
-import { deleteInventoryItem, toggleInventoryItemActive, updateInventoryItem } from '../../../../src/services/merchant/inventoryService';
+import {
+  deleteInventoryItem,
+  exportInventoryItemsCsv,
+  saveInventoryItemVariants,
+  toggleInventoryItemActive,
+  updateInventoryItem,
+} from '../../../../src/services/merchant/inventoryService';
 import { useInventoryItems } from '../../../../src/hooks/merchant/useInventoryItems';
 import { useInventoryCategories } from '../../../../src/hooks/merchant/useInventoryCategories';
 import { useQueryClient } from 'react-query';
 import AddItemModal from '../AddItemModal';
+import LowStockWidget from './LowStockWidget';
+import InventoryImportModal from './InventoryImportModal';
+import ItemVariantsEditor, { VariantDraft } from './ItemVariantsEditor';
+import type { InventoryItemVariant, UnitType } from '../../../../src/types/inventory';
 
 interface Product {
   id: string;
@@ -23,6 +35,14 @@ interface Product {
   currency?: string;
   image?: string;
   isActive: boolean;
+  stockQuantity?: number | null;
+  availableQuantity?: number | null;
+  reorderThreshold?: number | null;
+  unitType?: UnitType;
+  quantityStep?: number;
+  minQuantity?: number;
+  variantLabel?: string | null;
+  variants?: InventoryItemVariant[];
 }
 
 interface StoreManagementPageProps {
@@ -34,6 +54,10 @@ interface StoreManagementPageProps {
   onBulkAction?: (action: string, productIds: string[]) => void;
 }
 
+const WHOLE_QUANTITY = /^\d+$/;
+// Weighted items can be stocked and sold to the gram / millilitre
+const DECIMAL_QUANTITY = /^\d+(\.\d{1,3})?$/;
+
 // Dummy sample data
 const dummyProducts: Product[] = [
   {
@@ -79,6 +103,8 @@ export default function StoreManagementPage({
   const [products, setProducts] = useState<Product[]>(propProducts || dummyProducts);
   const [loading, setLoading] = useState(false);
   const [showAddItemModal, setShowAddItemModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [exporting, setExporting] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedProducts, setSelectedProducts] = useState<Set<string>>(new Set());
@@ -89,7 +115,14 @@ export default function StoreManagementPage({
     price: '',
     description: '',
     isActive: true,
+    stock: '',
+    reorderThreshold: '',
+    unitType: 'piece' as UnitType,
+    quantityStep: '1',
+    minQuantity: '1',
   });
+  const [variantLabel, setVariantLabel] = useState('');
+  const [variantDrafts, setVariantDrafts] = useState<VariantDraft[]>([]);
   const [updatingProductId, setUpdatingProductId] = useState<string | null>(null);
   const [editError, setEditError] = useState<string | null>(null);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
@@ -140,6 +173,14 @@ export default function StoreManagementPage({
           currency: item.currency || 'PKR',
           image: item.imageUrl || '',
           isActive: item.isActive !== false,
+          stockQuantity: item.stockQuantity,
+          availableQuantity: item.availableQuantity,
+          reorderThreshold: item.reorderThreshold,
+          unitType: item.unitType,
+          quantityStep: item.quantityStep,
+          minQuantity: item.minQuantity,
+          variantLabel: item.variantLabel,
+          variants: item.variants,
         };
       });
       setProducts(transformedProducts);
@@ -151,6 +192,29 @@ export default function StoreManagementPage({
     setLoading(inventoryLoading);
   }, [inventoryLoading]);
 
+  const handleExport = async () => {
+    if (!shopId) return;
+
+    setExporting(true);
+    const { data, error } = await exportInventoryItemsCsv(shopId, {
+      ...inventoryParams,
+      search: searchQuery || undefined,
+    });
+    setExporting(false);
+
+    if (error || !data) {
+      alert(`Failed to export inventory: ${error?.message || 'Unknown error'}`);
+      return;
+    }
+
+    const url = URL.createObjectURL(new Blob(data.chunks, { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `inventory-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   const handleSelectAll = (checked: boolean) => {
     if (checked) {
       setSelectedProducts(new Set(products.map(p => p.id)));
@@ -172,22 +236,37 @@ export default function StoreManagementPage({
   const handleEditProduct = async (product: Product) => {
     setEditingProduct(product);
     setEditError(null);
+    setVariantLabel(product.variantLabel || '');
+    setVariantDrafts(
+      (product.variants ?? []).map((variant) => ({
+        id: variant.id,
+        name: variant.name,
+        sku: variant.sku || '',
+        price: (variant.priceCents / 100).toString(),
+        isActive: variant.isActive,
+      }))
+    );
     
     // Load full product data including description
     try {
       const { data, error } = await supabase
         .from('merchant_items')
-        .select('description, sku, price_cents, is_active')
+        .select('description, sku, price_cents, is_active, stock_quantity, reorder_threshold, unit_type, quantity_step, min_quantity')
         .eq('id', product.id)
         .maybeSingle();
 
       if (!error && data) {
-        const itemData = data as { sku: string | null; price_cents: number | null; description: string | null; is_active: boolean | null };
+        const itemData = data as { sku: string | null; price_cents: number | null; description: string | null; is_active: boolean | null; stock_quantity: number | null; reorder_threshold: number | null; unit_type: UnitType | null; quantity_step: number | null; min_quantity: number | null };
         setEditFormData({
           sku: itemData.sku || product.sku || '',
           price: ((itemData.price_cents || 0) / 100).toString(),
           description: itemData.description || '',
           isActive: itemData.is_active !== false,
+          stock: itemData.stock_quantity != null ? itemData.stock_quantity.toString() : '',
+          reorderThreshold: itemData.reorder_threshold != null ? itemData.reorder_threshold.toString() : '',
+          unitType: itemData.unit_type || 'piece',
+          quantityStep: (itemData.quantity_step ?? 1).toString(),
+          minQuantity: (itemData.min_quantity ?? 1).toString(),
         });
       } else {
         // Fallback to product data if fetch fails
@@ -196,6 +275,11 @@ export default function StoreManagementPage({
           price: product.price.toString(),
           description: '',
           isActive: product.isActive,
+          stock: product.stockQuantity != null ? product.stockQuantity.toString() : '',
+          reorderThreshold: product.reorderThreshold != null ? product.reorderThreshold.toString() : '',
+          unitType: product.unitType || 'piece',
+          quantityStep: (product.quantityStep ?? 1).toString(),
+          minQuantity: (product.minQuantity ?? 1).toString(),
         });
       }
     } catch (err) {
@@ -205,6 +289,11 @@ export default function StoreManagementPage({
         price: product.price.toString(),
         description: '',
         isActive: product.isActive,
+        stock: product.stockQuantity != null ? product.stockQuantity.toString() : '',
+        reorderThreshold: product.reorderThreshold != null ? product.reorderThreshold.toString() : '',
+        unitType: product.unitType || 'piece',
+        quantityStep: (product.quantityStep ?? 1).toString(),
+        minQuantity: (product.minQuantity ?? 1).toString(),
       });
     }
     
@@ -226,6 +315,43 @@ export default function StoreManagementPage({
       return;
     }
 
+    const isPiece = editFormData.unitType === 'piece';
+    const quantityPattern = isPiece ? WHOLE_QUANTITY : DECIMAL_QUANTITY;
+    const quantityRule = isPiece ? 'a whole number' : 'a number with up to 3 decimals';
+
+    const stockInput = editFormData.stock.trim();
+    if (stockInput && !quantityPattern.test(stockInput)) {
+      setEditError(`Stock must be ${quantityRule}`);
+      return;
+    }
+
+    const thresholdInput = editFormData.reorderThreshold.trim();
+    if (thresholdInput && !quantityPattern.test(thresholdInput)) {
+      setEditError(`Reorder threshold must be ${quantityRule}`);
+      return;
+    }
+
+    const stepInput = editFormData.quantityStep.trim();
+    const minInput = editFormData.minQuantity.trim();
+    if (!quantityPattern.test(stepInput) || parseFloat(stepInput) <= 0) {
+      setEditError(`Quantity step must be ${quantityRule} above zero`);
+      return;
+    }
+    if (!quantityPattern.test(minInput) || parseFloat(minInput) <= 0) {
+      setEditError(`Minimum quantity must be ${quantityRule} above zero`);
+      return;
+    }
+
+    if (variantDrafts.some((variant) => !variant.name.trim())) {
+      setEditError('Every variant needs a name');
+      return;
+    }
+
+    if (variantDrafts.some((variant) => !variant.price || parseFloat(variant.price) < 0)) {
+      setEditError('Every variant needs a valid price');
+      return;
+    }
+
     setUpdatingProductId(editingProduct.id);
     try {
       const priceCents = Math.round(parseFloat(editFormData.price) * 100);
@@ -234,6 +360,11 @@ export default function StoreManagementPage({
         priceCents,
         description: editFormData.description.trim() || undefined,
         isActive: editFormData.isActive,
+        stockQuantity: stockInput ? parseFloat(stockInput) : null,
+        reorderThreshold: stockInput && thresholdInput ? parseFloat(thresholdInput) : null,
+        unitType: editFormData.unitType,
+        quantityStep: parseFloat(stepInput),
+        minQuantity: parseFloat(minInput),
       });
 
       if (error) {
@@ -243,6 +374,24 @@ export default function StoreManagementPage({
         return;
       }
 
+      const { error: variantsError } = await saveInventoryItemVariants(editingProduct.id, {
+        variantLabel: variantLabel.trim() || null,
+        variants: variantDrafts.map((variant) => ({
+          id: variant.id,
+          name: variant.name.trim(),
+          sku: variant.sku.trim() || null,
+          priceCents: Math.round(parseFloat(variant.price) * 100),
+          isActive: variant.isActive,
+        })),
+      });
+
+      if (variantsError) {
+        console.error('Error saving variants:', variantsError);
+        setEditError(variantsError.message || 'Failed to save variants');
+        setUpdatingProductId(null);
+        return;
+      }
+
       // Invalidate and refetch inventory cache
       queryClient.invalidateQueries({ queryKey: ['inventory', shopId] });
       await refetchInventory();
@@ -352,6 +501,13 @@ export default function StoreManagementPage({
 
   return (
     <div className="p-6 bg-gray-50 min-h-screen">
+      {/* Low Stock */}
+      {shopId && (
+        <div className="mb-6">
+          <LowStockWidget shopId={shopId} />
+        </div>
+      )}
+
       {/* Search Bar */}
       <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 mb-6">
         <div className="flex items-center gap-4">
@@ -370,7 +526,26 @@ export default function StoreManagementPage({
             </button>
           </div>
 
-          {/* Add Item Button on the Right */}
+          {/* Export, Import and Add Item Buttons on the Right */}
+          {shopId && (
+            <button
+              onClick={handleExport}
+              disabled={exporting}
+              className="flex items-center gap-2 px-4 py-2.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-semibold whitespace-nowrap disabled:opacity-50"
+            >
+              <Download size={18} />
+              <span>{exporting ? 'Exporting...' : 'Export'}</span>
+            </button>
+          )}
+          {shopId && (
+            <button
+              onClick={() => setShowImportModal(true)}
+              className="flex items-center gap-2 px-4 py-2.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-semibold whitespace-nowrap"
+            >
+              <Upload size={18} />
+              <span>Import</span>
+            </button>
+          )}
           {shopId && (
               <button
               onClick={() => setShowAddItemModal(true)}
@@ -459,6 +634,11 @@ export default function StoreManagementPage({
                   <div className="min-w-0 flex-1">
                     <p className="font-medium text-gray-900 truncate">{product.name}</p>
                     <p className="text-xs text-gray-500 mt-0.5">SKU: {product.sku}</p>
+                    {product.availableQuantity != null && (
+                      <p className={`text-xs mt-0.5 ${product.availableQuantity === 0 ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                        {product.availableQuantity === 0 ? 'Sold out' : `${product.availableQuantity} in stock`}
+                      </p>
+                    )}
                   </div>
                 </div>
 
@@ -541,10 +721,23 @@ export default function StoreManagementPage({
         />
       )}
 
+      {/* Bulk Import Modal */}
+      {shopId && (
+        <InventoryImportModal
+          shopId={shopId}
+          isOpen={showImportModal}
+          onClose={() => setShowImportModal(false)}
+          onSuccess={() => {
+            queryClient.invalidateQueries({ queryKey: ['inventory', shopId] });
+            refetchInventory();
+          }}
+        />
+      )}
+
       {/* Edit Item Modal */}
       {showEditModal && editingProduct && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
-          <div className="bg-white rounded-2xl shadow-xl w-full max-w-md mx-4">
+          <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg mx-4 max-h-[90vh] overflow-y-auto">
             <div className="p-6">
               <div className="flex items-center justify-between mb-4">
                 <h2 className="text-2xl font-bold text-gray-900">Edit Item</h2>
@@ -595,6 +788,81 @@ export default function StoreManagementPage({
                   />
                 </div>
 
+                <div className="grid grid-cols-3 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Sold by</label>
+                    <select
+                      value={editFormData.unitType}
+                      onChange={(e) => {
+                        const unitType = e.target.value as UnitType;
+                        // Pieces can only be ordered in whole units
+                        setEditFormData({
+                          ...editFormData,
+                          unitType,
+                          ...(unitType === 'piece' ? { quantityStep: '1', minQuantity: '1' } : {}),
+                        });
+                      }}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none bg-white"
+                    >
+                      <option value="piece">Piece</option>
+                      <option value="kg">Kilogram</option>
+                      <option value="litre">Litre</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Step</label>
+                    <input
+                      type="number"
+                      step={editFormData.unitType === 'piece' ? '1' : '0.001'}
+                      min="0"
+                      value={editFormData.quantityStep}
+                      onChange={(e) => setEditFormData({ ...editFormData, quantityStep: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                      placeholder="0.25"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Minimum</label>
+                    <input
+                      type="number"
+                      step={editFormData.unitType === 'piece' ? '1' : '0.001'}
+                      min="0"
+                      value={editFormData.minQuantity}
+                      onChange={(e) => setEditFormData({ ...editFormData, minQuantity: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                      placeholder="0.5"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Stock</label>
+                  <input
+                    type="number"
+                    step={editFormData.unitType === 'piece' ? '1' : '0.001'}
+                    min="0"
+                    value={editFormData.stock}
+                    onChange={(e) => setEditFormData({ ...editFormData, stock: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                    placeholder="Leave blank to not track stock"
+                  />
+                </div>
+
+                {editFormData.stock.trim() !== '' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Reorder threshold</label>
+                    <input
+                      type="number"
+                      step={editFormData.unitType === 'piece' ? '1' : '0.001'}
+                      min="0"
+                      value={editFormData.reorderThreshold}
+                      onChange={(e) => setEditFormData({ ...editFormData, reorderThreshold: e.target.value })}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                      placeholder="Alert me when stock falls to this level"
+                    />
+                  </div>
+                )}
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
                   <textarea
@@ -606,6 +874,13 @@ export default function StoreManagementPage({
                   />
                 </div>
 
+                <ItemVariantsEditor
+                  label={variantLabel}
+                  variants={variantDrafts}
+                  onLabelChange={setVariantLabel}
+                  onVariantsChange={setVariantDrafts}
+                />
+
                 <div className="flex items-center gap-3">
                   <label className="flex items-center gap-2 cursor-pointer">
                     <input
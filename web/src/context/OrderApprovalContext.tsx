@@ -2,6 +2,7 @@ import React, { createContext, useContext, useState, useEffect, useRef, ReactNod
 import type { OrderWithAll } from '../../../src/types/orders';
 import { getOrderById, getActiveOrder, subscribeToUserOrders } from '../../../src/services/consumer/orderService';
 import { useAuth } from '../../../src/context/AuthContext';
+import { isTerminalOrderStatus } from '../../../src/utils/orderStatus';
 
 interface OrderApprovalContextType {
   activeOrder: OrderWithAll | null;
@@ -33,7 +34,7 @@ export function OrderApprovalProvider({ children }: { children: ReactNode }) {
       if (stored) {
         const order = JSON.parse(stored);
         // Only restore if order hasn't reached terminal state
-        if (order && order.status !== 'delivered' && order.status !== 'cancelled') {
+        if (order && !isTerminalOrderStatus(order.status)) {
           return order;
         } else {
           // Clear stale data
@@ -76,7 +77,7 @@ export function OrderApprovalProvider({ children }: { children: ReactNode }) {
       try {
         if (order) {
           // Only persist if order hasn't reached terminal state
-          if (order.status !== 'delivered' && order.status !== 'cancelled') {
+          if (!isTerminalOrderStatus(order.status)) {
             localStorage.setItem(STORAGE_KEY, JSON.stringify(order));
           } else {
             // Clear if terminal state
@@ -124,7 +125,7 @@ export function OrderApprovalProvider({ children }: { children: ReactNode }) {
     if (!activeOrder) return;
 
     // Check if order is still valid (not in terminal state)
-    if (activeOrder.status === 'delivered' || activeOrder.status === 'cancelled') {
+    if (isTerminalOrderStatus(activeOrder.status)) {
       // Clear stale order
       setActiveOrder(null);
       setShowModal(false);
@@ -140,7 +141,7 @@ export function OrderApprovalProvider({ children }: { children: ReactNode }) {
           setActiveOrder(refreshedOrder);
           
           // Clear if order reached terminal state while page was closed
-          if (refreshedOrder.status === 'delivered' || refreshedOrder.status === 'cancelled') {
+          if (isTerminalOrderStatus(refreshedOrder.status)) {
             setShowModal(false);
           }
         } else {
@@ -177,7 +178,7 @@ export function OrderApprovalProvider({ children }: { children: ReactNode }) {
             setActiveOrder(updatedActiveOrder);
             
             // Auto close modal if terminal state
-            if (updatedActiveOrder.status === 'delivered' || updatedActiveOrder.status === 'cancelled') {
+            if (isTerminalOrderStatus(updatedActiveOrder.status)) {
               setShowModal(false);
             }
           }
@@ -191,7 +192,7 @@ export function OrderApprovalProvider({ children }: { children: ReactNode }) {
 
       // Determine latest non-terminal active order for the bell icon
       const activeCandidates = orders
-        .filter((o) => o.status !== 'delivered' && o.status !== 'cancelled')
+        .filter((o) => !isTerminalOrderStatus(o.status))
         .sort((a, b) => {
           const aTime = new Date(a.placed_at || a.created_at || '').getTime();
           const bTime = new Date(b.placed_at || b.created_at || '').getTime();
@@ -230,7 +231,7 @@ export function OrderApprovalProvider({ children }: { children: ReactNode }) {
     getActiveOrder()
       .then((order) => {
         if (isCancelled) return;
-        if (order && order.status !== 'delivered' && order.status !== 'cancelled') {
+        if (order && !isTerminalOrderStatus(order.status)) {
           setActiveOrder(order);
         } else {
           setActiveOrder(null);
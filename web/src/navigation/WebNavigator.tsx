@@ -13,7 +13,7 @@ import { useLocationStore } from '../../../src/stores/locationStore';
 import { useCart } from '../../../src/context/CartContext';
 import { useCartStore } from '../../../src/stores/cartStore';
 import { fetchDeliveryLogic } from '../../../src/services/merchant/deliveryLogicService';
-import { calculateOrderSurcharge } from '../../../src/services/merchant/deliveryLogicService';
+import { calculateDeliveryPricing } from '../../../src/utils/deliveryPricing';
 import { useGeoapifyAutocomplete, SearchResult } from '../../../src/hooks/useLocationQueries';
 import { supabase } from '../../../src/services/supabase';
 import { getImageUrl } from '../utils/imageUtils';
@@ -25,6 +25,7 @@ import ConfirmationDialog from '../components/ConfirmationDialog';
 import { useOrderApproval } from '../context/OrderApprovalContext';
 import OrderApprovalModal from '../components/OrderApprovalModal';
 import { subscribeToOrder, getOrderById } from '../../../src/services/consumer/orderService';
+import { isTerminalOrderStatus } from '../../../src/utils/orderStatus';
 import ThankYouOrderModal from '../components/ThankYouOrderModal';
 import ReviewRatingModal from '../components/ReviewRatingModal';
 import OrderStatusScreen from '../screens/OrderStatusScreen';
@@ -895,7 +896,7 @@ function OrderNotificationButton() {
   const { activeOrder, showModal, setShowModal, setActiveOrder } = useOrderApproval();
 
   // If there is no active order in context (or it's terminal), hide the bell
-  if (!activeOrder || activeOrder.status === 'delivered' || activeOrder.status === 'cancelled') {
+  if (!activeOrder || isTerminalOrderStatus(activeOrder.status)) {
     return null;
   }
 
@@ -919,7 +920,7 @@ function OrderNotificationButton() {
           order={activeOrder}
           onClose={() => {
             setShowModal(false);
-            if (activeOrder.status === 'delivered' || activeOrder.status === 'cancelled') {
+            if (isTerminalOrderStatus(activeOrder.status)) {
               setActiveOrder(null);
             }
           }}
@@ -1024,13 +1025,12 @@ function TopNavBar() {
         const { data: deliveryLogic } = await fetchDeliveryLogic(shopId);
         const subtotal = getTotalPrice(shopId);
 
-        // Calculate small order surcharge
-        const smallOrderSurcharge = deliveryLogic
-          ? calculateOrderSurcharge(subtotal / 100, deliveryLogic) * 100
-          : 0;
-
-        // Use maxDeliveryFee as estimate for delivery fee
-        const baseDeliveryFee = deliveryLogic ? deliveryLogic.maxDeliveryFee * 100 : 0;
+        // No distance here, so the pricing engine estimates with maxDeliveryFee
+        const pricing = deliveryLogic
+          ? calculateDeliveryPricing({ subtotalCents: subtotal, distanceInMeters: null }, deliveryLogic)
+          : null;
+        const smallOrderSurcharge = pricing?.surchargeCents ?? 0;
+        const baseDeliveryFee = pricing?.deliveryFeeCents ?? 0;
         
         feesDetails[shopId] = {
           smallOrderSurcharge,
@@ -1238,7 +1238,7 @@ function TopNavBar() {
                                 {/* Product Thumbnails Row */}
                                 <div className="flex items-center gap-2 mb-3 overflow-x-auto pb-2 hide-scrollbar">
                                   {shopCart.items.map((item) => (
-                                    <div key={item.id} className="w-12 h-12 rounded-lg overflow-hidden flex-shrink-0 bg-gray-200 flex items-center justify-center">
+                                    <div key={`${item.id}:${item.variant_id ?? ''}`} className="w-12 h-12 rounded-lg overflow-hidden flex-shrink-0 bg-gray-200 flex items-center justify-center">
                                       {item.image_url ? (
                                         <img src={item.image_url} alt={item.name} className="w-full h-full object-cover" />
                                       ) : (
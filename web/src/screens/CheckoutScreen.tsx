@@ -4,20 +4,36 @@ import { useUserLocation } from '../../../src/hooks/consumer/useUserLocation';
 import { useLocationSelection } from '../../../src/context/LocationContext';
 import { useCart } from '../../../src/context/CartContext';
 import { useLocationStore } from '../../../src/stores/locationStore';
+import { countCartLine } from '../../../src/stores/cartStore';
+import type { ShopCart } from '../../../src/stores/cartStore';
 import {
   fetchDeliveryLogic,
-  calculateTotalDeliveryFee,
   calculateDistance,
 } from '../../../src/services/merchant/deliveryLogicService';
 import type { DeliveryLogic } from '../../../src/services/merchant/deliveryLogicService';
-import { placeOrder, getOrderById } from '../../../src/services/consumer/orderService';
-import type { OrderWithAll } from '../../../src/types/orders';
+import { calculateDeliveryPricing } from '../../../src/utils/deliveryPricing';
+import {
+  placeOrder,
+  placeOrderGroup,
+  getOrderById,
+  createOrderIdempotencyKey,
+  cancelOrder,
+} from '../../../src/services/consumer/orderService';
+import { authorizeOrderPayment } from '../../../src/services/payments/paymentService';
+import { getWalletBalance } from '../../../src/services/consumer/walletService';
+import type { FulfilmentType, OrderWithAll, SubstitutionPreference } from '../../../src/types/orders';
 import { createAddress, verifyAddress } from '../../../src/services/consumer/addressService';
+import { fetchDeliverySlotAvailability } from '../../../src/services/consumer/shopService';
+import type { DeliverySlotOccurrence } from '../../../src/services/consumer/shopService';
+import { cartNeedsAttention, validateShopCart } from '../../../src/services/consumer/cartValidationService';
+import { useCartValidation } from '../../../src/hooks/consumer/useCartValidation';
 import { supabase } from '../../../src/services/supabase';
 import ConfirmationDialog from '../components/ConfirmationDialog';
+import CartValidationNotice from '../components/consumer/CartValidationNotice';
 import WebMap from '../components/WebMap';
 import { loogin } from '../../../src/lib/loogin';
 import { useAuth } from '../../../src/context/AuthContext';
+import { isTerminalOrderStatus } from '../../../src/utils/orderStatus';
 import { useOrderApproval } from '../context/OrderApprovalContext';
 import OrderApprovalModal from '../components/OrderApprovalModal';
 
@@ -34,6 +50,21 @@ interface ShopFees {
   freeDeliveryApplied: boolean;
 }
 
+const SUBSTITUTION_OPTIONS: Array<{ value: SubstitutionPreference; label: string }> = [
+  { value: 'substitute', label: 'Substitute with similar' },
+  { value: 'call_me', label: 'Call me' },
+  { value: 'remove', label: 'Remove it' },
+];
+
+// pendingOrderKeys entry for the grouped checkout of every shop in the cart
+const GROUP_ORDER_KEY = 'group';
+
+const formatSlotDay = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+const formatSlotTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
 export default function CheckoutScreen() {
   const navigate = useNavigate();
   const location = useLocation();
@@ -48,6 +79,8 @@ export default function CheckoutScreen() {
     getShopCart,
     getTotalPrice,
     clearCart,
+    setShopCart,
+    setSubstitutionPreference,
   } = useCart();
 
   const CHECKOUT_STORAGE_KEY = 'aroundyou_checkout_state';
@@ -87,11 +120,24 @@ export default function CheckoutScreen() {
   });
   const [outOfZoneShopIds, setOutOfZoneShopIds] = useState<Set<string>>(new Set<string>());
   const [placingOrder, setPlacingOrder] = useState(false);
+  const [authorizingPayment, setAuthorizingPayment] = useState(false);
+  // Store credit the consumer can spend, and whether to spend it on this checkout
+  const [walletBalanceCents, setWalletBalanceCents] = useState(0);
+  const [useWalletCredit, setUseWalletCredit] = useState(false);
   const [placeOrderError, setPlaceOrderError] = useState<string | null>(null);
+  // Kept apart from placeOrderError, which resets when the grouped checkout switches shops
+  const [groupOrderError, setGroupOrderError] = useState<string | null>(null);
+  const [deliverySlots, setDeliverySlots] = useState<DeliverySlotOccurrence[]>([]);
+  const [loadingSlots, setLoadingSlots] = useState(false);
+  // Chosen slot per shop; missing means deliver as soon as possible
+  const [selectedSlots, setSelectedSlots] = useState<Record<string, DeliverySlotOccurrence>>({});
+  // Chosen fulfilment per shop; missing means delivery
+  const [fulfilmentTypes, setFulfilmentTypes] = useState<Record<string, FulfilmentType>>({});
   const [orderSuccess, setOrderSuccess] = useState<{
     orderId: string;
     orderNumber?: string | null;
     totalCents: number;
+    walletCreditCents: number;
     shopName: string;
   } | null>(null);
   const [savingAddress, setSavingAddress] = useState(false);
@@ -111,6 +157,21 @@ export default function CheckoutScreen() {
     return '';
   });
 
+  // Idempotency key per shop, reused while the submitted cart is unchanged so retries never duplicate an order
+  const [pendingOrderKeys, setPendingOrderKeys] = useState<Record<string, { key: string; signature: string }>>(() => {
+    if (typeof window === 'undefined') return {};
+    try {
+      const stored = localStorage.getItem(CHECKOUT_STORAGE_KEY);
+      if (stored) {
+        const state = JSON.parse(stored);
+        return state.pendingOrderKeys || {};
+      }
+    } catch (error) {
+      console.error('Error loading checkout state from localStorage:', error);
+    }
+    return {};
+  });
+
   const allItems = getAllItems();
   const shopIds = getShopIds();
 
@@ -135,12 +196,13 @@ export default function CheckoutScreen() {
         activeShopId,
         selectedPaymentMethod,
         deliveryInstructions,
+        pendingOrderKeys,
       };
       localStorage.setItem(CHECKOUT_STORAGE_KEY, JSON.stringify(state));
     } catch (error) {
       console.error('Error saving checkout state to localStorage:', error);
     }
-  }, [activeShopId, selectedPaymentMethod, deliveryInstructions]);
+  }, [activeShopId, selectedPaymentMethod, deliveryInstructions, pendingOrderKeys]);
 
   useEffect(() => {
     const state = location.state as { checkoutShopId?: string } | undefined;
@@ -180,6 +242,52 @@ export default function CheckoutScreen() {
     setPlaceOrderError(null);
   }, [selectedAddress?.addressId, selectedPaymentMethod]);
 
+  const refreshWalletBalance = () => {
+    getWalletBalance().then(({ data }) => setWalletBalanceCents(data ?? 0));
+  };
+
+  useEffect(() => {
+    refreshWalletBalance();
+  }, []);
+
+  const loadDeliverySlots = async (shopId: string) => {
+    setLoadingSlots(true);
+    const { data, error } = await fetchDeliverySlotAvailability(shopId);
+    setLoadingSlots(false);
+
+    if (error) {
+      log.warn('Failed to load delivery slots', { shopId, error });
+    }
+
+    const slots = data ?? [];
+    setDeliverySlots(slots);
+    // Drop a selection that has since filled up or passed
+    setSelectedSlots((prev) => {
+      const selected = prev[shopId];
+      if (!selected) return prev;
+      const current = slots.find(
+        (slot) => slot.slot_id === selected.slot_id && slot.starts_at === selected.starts_at
+      );
+      if (current && !current.is_full) return prev;
+      const { [shopId]: _dropped, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  useEffect(() => {
+    if (!activeShopId) {
+      setDeliverySlots([]);
+      return;
+    }
+    loadDeliverySlots(activeShopId);
+  }, [activeShopId]);
+
+  // Persisted carts can go stale: re-check the active one against the live catalog and shop
+  const { data: cartValidationData, refetch: refetchCartValidation } = useCartValidation(
+    activeShopId ? getShopCart(activeShopId) : null,
+    selectedAddress?.coords || confirmedLocation?.coords || coords
+  );
+
   useEffect(() => {
     if (saveAddressMessage) {
       const timer = setTimeout(() => setSaveAddressMessage(null), 4000);
@@ -264,7 +372,6 @@ export default function CheckoutScreen() {
             }
 
             const subtotal = getTotalPrice(shopId);
-            const orderValue = subtotal / 100;
 
             let baseDeliveryFee = 0;
             let smallOrderSurcharge = 0;
@@ -277,34 +384,29 @@ export default function CheckoutScreen() {
               typeof userCoords?.latitude === 'number' &&
               typeof userCoords?.longitude === 'number';
 
-            if (deliveryLogic && hasUserCoords && typeof shopLat === 'number' && typeof shopLng === 'number') {
-              distanceInMeters = calculateDistance(
-                userCoords.latitude,
-                userCoords.longitude,
-                shopLat,
-                shopLng
-              );
+            if (deliveryLogic) {
+              if (hasUserCoords && typeof shopLat === 'number' && typeof shopLng === 'number') {
+                distanceInMeters = calculateDistance(
+                  userCoords.latitude,
+                  userCoords.longitude,
+                  shopLat,
+                  shopLng
+                );
+              }
 
-              const feeCalculation = calculateTotalDeliveryFee(
-                orderValue,
-                distanceInMeters,
+              const pricing = calculateDeliveryPricing(
+                { subtotalCents: subtotal, distanceInMeters: distanceInMeters ?? null },
                 deliveryLogic
               );
 
-              baseDeliveryFee = feeCalculation.baseFee * 100;
-              smallOrderSurcharge = feeCalculation.surcharge * 100;
-              totalDeliveryFee = feeCalculation.finalFee * 100;
-              freeDeliveryApplied = feeCalculation.freeDeliveryApplied;
+              baseDeliveryFee = pricing.deliveryFeeCents;
+              smallOrderSurcharge = pricing.surchargeCents;
+              totalDeliveryFee = pricing.deliveryFeeCents + pricing.surchargeCents;
+              freeDeliveryApplied = pricing.freeDeliveryApplied;
 
-              if (feeCalculation.outOfZone) {
+              if (pricing.outOfZone) {
                 outOfZoneAccumulator.add(shopId);
               }
-            } else if (deliveryLogic) {
-              if (orderValue < deliveryLogic.minimumOrderValue) {
-                smallOrderSurcharge = deliveryLogic.smallOrderSurcharge * 100;
-              }
-              baseDeliveryFee = deliveryLogic.maxDeliveryFee * 100;
-              totalDeliveryFee = baseDeliveryFee + smallOrderSurcharge;
             }
 
             fees[shopId] = {
@@ -414,6 +516,10 @@ export default function CheckoutScreen() {
     </div>
   );
 
+  // Pickup only counts while the shop still offers it
+  const isPickupFor = (shopId: string) =>
+    fulfilmentTypes[shopId] === 'pickup' && Boolean(shopFeesMap[shopId]?.deliveryLogic?.pickupEnabled);
+
   const renderActiveCheckout = () => {
     if (!activeShopId) {
       return (
@@ -434,17 +540,24 @@ export default function CheckoutScreen() {
 
     const shopFees = shopFeesMap[activeShopId];
     const shopSubtotal = getTotalPrice(activeShopId);
+    const isPickupAvailable = Boolean(shopFees?.deliveryLogic?.pickupEnabled);
+    const isPickup = isPickupFor(activeShopId);
     const smallOrderAmount = shopFees?.smallOrderSurcharge || 0;
     const deliveryBaseAmount = shopFees?.baseDeliveryFee || 0;
-    const deliveryAmount = shopFees?.freeDeliveryApplied ? 0 : deliveryBaseAmount;
-    const shopTotal = shopSubtotal + (shopFees?.totalDeliveryFee || 0);
+    const deliveryAmount = isPickup || shopFees?.freeDeliveryApplied ? 0 : deliveryBaseAmount;
+    // Pickup orders pay no delivery fee; the small-order surcharge still applies
+    const shopTotal = shopSubtotal + (isPickup ? smallOrderAmount : shopFees?.totalDeliveryFee || 0);
     const isAddressAvailable = Boolean(selectedAddress?.coords || confirmedLocation?.coords || coords);
     const hasShopFees = Boolean(shopFees);
     const showFeesSkeleton = loadingFees && isAddressAvailable && !shopFees;
     const showFeesUnavailable = !loadingFees && !isAddressAvailable;
-    const isOutOfZone = activeShopId ? outOfZoneShopIds.has(activeShopId) : false;
-    const disablePlaceOrderCore = showFeesSkeleton || !hasShopFees || isOutOfZone;
+    const isOutOfZone = activeShopId && !isPickup ? outOfZoneShopIds.has(activeShopId) : false;
+    const isScheduled = Boolean(selectedSlots[activeShopId]);
+    const cartValidation = cartValidationData?.shopId === activeShopId ? cartValidationData : null;
+    const isCartBlocked = Boolean(cartValidation && cartNeedsAttention(cartValidation, isScheduled, isPickup));
+    const disablePlaceOrderCore = showFeesSkeleton || !hasShopFees || isOutOfZone || isCartBlocked;
     const totalDisplayCents = isOutOfZone ? shopSubtotal : hasShopFees ? shopTotal : shopSubtotal;
+    const walletCreditDisplayCents = useWalletCredit ? Math.min(walletBalanceCents, totalDisplayCents) : 0;
 
     const resolvedAddress = selectedAddress as
       | {
@@ -474,7 +587,7 @@ export default function CheckoutScreen() {
       confirmedLocation?.region ||
       '';
     const hasAddress = Boolean(selectedAddress || confirmedLocation);
-    const totalItemsCount = shopCart.items.reduce((sum, item) => sum + item.quantity, 0);
+    const totalItemsCount = shopCart.items.reduce((sum, item) => sum + countCartLine(item), 0);
     const resolvedCoords = selectedAddress?.coords || confirmedLocation?.coords || coords;
     const isAddressSaved = Boolean(selectedAddress?.addressId || confirmedLocation?.addressId);
 
@@ -579,13 +692,13 @@ export default function CheckoutScreen() {
       {
         id: 'card' as const,
         title: 'Card payment',
-        description: 'Secure checkout with your debit or credit card.',
+        description: 'Authorized now, charged when your order is delivered.',
         icon: '💳',
       },
       {
         id: 'wallet' as const,
         title: 'Mobile wallet',
-        description: 'Use your preferred mobile wallet for instant payment.',
+        description: 'Authorized from your wallet now, charged on delivery.',
         icon: '📱',
       },
     ];
@@ -599,11 +712,20 @@ export default function CheckoutScreen() {
     const shouldDisablePlaceOrder = placingOrder || disablePlaceOrderCore;
     const placeOrderButtonLabel = (() => {
       if (placingOrder) {
-        return 'Placing order…';
+        return authorizingPayment ? 'Authorizing payment…' : 'Placing order…';
       }
-      if (isOutOfZone) {
+      if (isOutOfZone || (cartValidation?.insideDeliveryArea === false && !isPickup)) {
         return 'Out of delivery zone';
       }
+      if (cartValidation && !cartValidation.shopAvailable) {
+        return 'Shop unavailable';
+      }
+      if (cartValidation && cartValidation.changes.length > 0) {
+        return 'Review cart changes';
+      }
+      if (cartValidation && !cartValidation.shopOpen && !isScheduled) {
+        return 'Shop closed – schedule a delivery time';
+      }
       if (showFeesSkeleton) {
         return 'Calculating…';
       }
@@ -675,14 +797,47 @@ export default function CheckoutScreen() {
         return;
       }
 
+      // Last check against the live catalog; the notice above the form explains what changed
+      const { data: freshValidation } = await validateShopCart(shopCartCurrent, resolvedCoords);
+      if (freshValidation && cartNeedsAttention(freshValidation, Boolean(selectedSlots[activeShopId]), isPickup)) {
+        refetchCartValidation();
+        setPlaceOrderError('Your cart needs attention before it can be ordered. Please review the changes above.');
+        return;
+      }
+
       setPlacingOrder(true);
       setPlaceOrderError(null);
 
+      const selectedSlot = selectedSlots[activeShopId] ?? null;
+      const submissionSignature = JSON.stringify({
+        addressId: ensuredAddressId,
+        paymentMethod,
+        useWalletCredit,
+        fulfilmentType: isPickup ? 'pickup' : 'delivery',
+        slot: selectedSlot ? [selectedSlot.slot_id, selectedSlot.starts_at] : null,
+        items: shopCartCurrent.items.map((item) => [
+          item.id,
+          item.variant_id ?? null,
+          item.quantity,
+          item.substitution_preference ?? 'substitute',
+        ]),
+      });
+      const pendingKey = pendingOrderKeys[activeShopId];
+      const idempotencyKey =
+        pendingKey && pendingKey.signature === submissionSignature
+          ? pendingKey.key
+          : createOrderIdempotencyKey();
+      setPendingOrderKeys((prev) => ({
+        ...prev,
+        [activeShopId]: { key: idempotencyKey, signature: submissionSignature },
+      }));
+
       log.info('Placing order', {
         shopId: activeShopId,
         paymentMethod,
         addressId: ensuredAddressId,
         items: shopCartCurrent.items.length,
+        idempotencyKey,
       });
 
       try {
@@ -691,16 +846,28 @@ export default function CheckoutScreen() {
           consumer_address_id: ensuredAddressId,
           items: shopCartCurrent.items.map((item) => ({
             merchant_item_id: item.id,
+            variant_id: item.variant_id ?? null,
             quantity: item.quantity,
+            substitution_preference: item.substitution_preference ?? 'substitute',
           })),
           payment_method: paymentMethod,
           special_instructions: deliveryInstructions.trim() || undefined,
+          idempotency_key: idempotencyKey,
+          delivery_slot_id: selectedSlot?.slot_id ?? null,
+          scheduled_for: selectedSlot?.starts_at ?? null,
+          fulfilment_type: isPickup ? 'pickup' : 'delivery',
+          wallet_credit_cents: useWalletCredit ? walletBalanceCents : 0,
         });
 
         if (!response.success || !response.order) {
           const message = response.message || 'Failed to place order. Please try again.';
-          log.warn('Place order failed', { shopId: activeShopId, message });
+          log.warn('Place order failed', { shopId: activeShopId, message, errorCode: response.error_code });
           setPlaceOrderError(message);
+          if (response.error_code === 'SLOT_FULL' || response.error_code === 'SLOT_UNAVAILABLE') {
+            loadDeliverySlots(activeShopId);
+          } else {
+            refetchCartValidation();
+          }
           return;
         }
 
@@ -709,9 +876,32 @@ export default function CheckoutScreen() {
           shopId: activeShopId,
         });
 
+        setPendingOrderKeys((prev) => {
+          const { [activeShopId]: _placed, ...rest } = prev;
+          return rest;
+        });
+
+        // Spent by place_order along with the order, capped at its total
+        const walletCreditCents = response.order.wallet_credit_cents ?? 0;
+
+        // Credit covering the whole order leaves nothing to authorize
+        if (paymentMethod !== 'cash' && walletCreditCents < response.order.total_cents) {
+          setAuthorizingPayment(true);
+          const payment = await authorizeOrderPayment(response.order.id);
+          if (!payment.success) {
+            log.warn('Payment authorization failed', { orderId: response.order.id, message: payment.message });
+            // A declined payment already cancelled the order; otherwise release it so a retry starts fresh
+            if (!payment.declined) {
+              await cancelOrder(response.order.id, 'Payment authorization failed');
+            }
+            setPlaceOrderError(payment.message || 'Payment could not be authorized. Please try again.');
+            return;
+          }
+        }
+
         // If there's already an active order in notifications, don't replace it
         // Instead, navigate to the order status screen for the new order
-        if (activeOrder && activeOrder.status !== 'delivered' && activeOrder.status !== 'cancelled') {
+        if (activeOrder && !isTerminalOrderStatus(activeOrder.status)) {
           log.info('Active order already exists in notifications, navigating to new order status screen', {
             existingOrderId: activeOrder.id,
             newOrderId: response.order.id,
@@ -733,6 +923,7 @@ export default function CheckoutScreen() {
           orderId: response.order.id,
           orderNumber: response.order.order_number,
           totalCents: response.order.total_cents,
+          walletCreditCents,
           shopName: shopCartCurrent.shopName,
         });
 
@@ -763,6 +954,199 @@ export default function CheckoutScreen() {
         );
       } finally {
         setPlacingOrder(false);
+        setAuthorizingPayment(false);
+        if (useWalletCredit) {
+          refreshWalletBalance();
+        }
+      }
+    };
+
+    const groupRows = shopIdsWithItems.map((id) => ({
+      shopId: id,
+      shopName: getShopCart(id)?.shopName || 'Shop',
+      subtotal: getTotalPrice(id),
+      fees: shopFeesMap[id] ?? null,
+      isPickup: isPickupFor(id),
+      isOutOfZone: !isPickupFor(id) && outOfZoneShopIds.has(id),
+      slot: selectedSlots[id] ?? null,
+    })).map((row) => ({
+      ...row,
+      feeCents: row.isPickup ? row.fees?.smallOrderSurcharge ?? 0 : row.fees?.totalDeliveryFee ?? 0,
+    }));
+    const groupTotalCents = groupRows.reduce((total, row) => total + row.subtotal + row.feeCents, 0);
+    const isGroupReady = !loadingFees && groupRows.every((row) => row.fees && !row.isOutOfZone);
+
+    const handlePlaceGroupOrderClick = async () => {
+      if (!user) {
+        navigate('/login', {
+          state: {
+            returnTo: 'cart',
+            returnState: { checkoutShopId: activeShopId },
+          },
+        });
+        return;
+      }
+
+      const groupCarts = shopIdsWithItems
+        .map((id) => getShopCart(id))
+        .filter((cart): cart is ShopCart => Boolean(cart && cart.items.length > 0));
+      if (groupCarts.length < 2) {
+        return;
+      }
+
+      setGroupOrderError(null);
+
+      const ensuredAddressId = await ensureAddressId();
+      if (!ensuredAddressId) {
+        setGroupOrderError('We could not save this delivery address. Please try again.');
+        return;
+      }
+
+      if (groupCarts.some((cart) => !shopFeesMap[cart.shopId])) {
+        setGroupOrderError('Delivery fees are still loading. Please wait a moment.');
+        return;
+      }
+
+      const outOfZoneCart = groupCarts.find((cart) => !isPickupFor(cart.shopId) && outOfZoneShopIds.has(cart.shopId));
+      if (outOfZoneCart) {
+        setActiveShopId(outOfZoneCart.shopId);
+        setGroupOrderError(`This address is outside ${outOfZoneCart.shopName}'s delivery zone.`);
+        return;
+      }
+
+      setPlacingOrder(true);
+
+      try {
+        // Every shop's cart must still match the live catalog before any order is placed
+        const validations = await Promise.all(groupCarts.map((cart) => validateShopCart(cart, resolvedCoords)));
+        const blockedCart = groupCarts.find((cart, index) => {
+          const validation = validations[index].data;
+          return (
+            validation &&
+            cartNeedsAttention(validation, Boolean(selectedSlots[cart.shopId]), isPickupFor(cart.shopId))
+          );
+        });
+        if (blockedCart) {
+          setActiveShopId(blockedCart.shopId);
+          setGroupOrderError(`${blockedCart.shopName}'s cart needs attention. Please review the changes above.`);
+          return;
+        }
+
+        const shopOrders = groupCarts.map((cart) => {
+          const slot = selectedSlots[cart.shopId] ?? null;
+          return {
+            shop_id: cart.shopId,
+            items: cart.items.map((item) => ({
+              merchant_item_id: item.id,
+              variant_id: item.variant_id ?? null,
+              quantity: item.quantity,
+              substitution_preference: item.substitution_preference ?? 'substitute',
+            })),
+            delivery_slot_id: slot?.slot_id ?? null,
+            scheduled_for: slot?.starts_at ?? null,
+            fulfilment_type: isPickupFor(cart.shopId) ? ('pickup' as const) : ('delivery' as const),
+          };
+        });
+        const submissionSignature = JSON.stringify({ addressId: ensuredAddressId, paymentMethod, useWalletCredit, shopOrders });
+        const pendingKey = pendingOrderKeys[GROUP_ORDER_KEY];
+        const idempotencyKey =
+          pendingKey && pendingKey.signature === submissionSignature
+            ? pendingKey.key
+            : createOrderIdempotencyKey();
+        setPendingOrderKeys((prev) => ({
+          ...prev,
+          [GROUP_ORDER_KEY]: { key: idempotencyKey, signature: submissionSignature },
+        }));
+
+        log.info('Placing order group', {
+          shopIds: groupCarts.map((cart) => cart.shopId),
+          paymentMethod,
+          addressId: ensuredAddressId,
+          idempotencyKey,
+        });
+
+        const response = await placeOrderGroup({
+          consumer_address_id: ensuredAddressId,
+          shop_orders: shopOrders,
+          payment_method: paymentMethod,
+          special_instructions: deliveryInstructions.trim() || undefined,
+          idempotency_key: idempotencyKey,
+          wallet_credit_cents: useWalletCredit ? walletBalanceCents : 0,
+        });
+
+        if (!response.success || !response.group) {
+          const failedCart = groupCarts.find((cart) => cart.shopId === response.failed_shop_id);
+          const message = response.message || 'Failed to place orders. Please try again.';
+          log.warn('Place order group failed', { message, errorCode: response.error_code, failedShopId: response.failed_shop_id });
+          if (failedCart) {
+            setActiveShopId(failedCart.shopId);
+          }
+          setGroupOrderError(failedCart ? `${failedCart.shopName}: ${message}` : message);
+          return;
+        }
+
+        const placedOrders = response.group.orders;
+        log.info('Order group placed successfully', {
+          orderGroupId: response.group.id,
+          orderIds: placedOrders.map((order) => order.id),
+        });
+
+        setPendingOrderKeys((prev) => {
+          const { [GROUP_ORDER_KEY]: _placed, ...rest } = prev;
+          return rest;
+        });
+
+        if (paymentMethod !== 'cash') {
+          setAuthorizingPayment(true);
+          // Each shop's order carries its own payment; the group only goes ahead if all are authorized
+          for (const order of placedOrders) {
+            // place_order_group spent the credit shop by shop; fully covered orders have nothing to authorize
+            if ((order.wallet_credit_cents ?? 0) >= order.total_cents) continue;
+            const payment = await authorizeOrderPayment(order.id);
+            if (!payment.success) {
+              log.warn('Payment authorization failed for order group', {
+                orderGroupId: response.group.id,
+                orderId: order.id,
+                message: payment.message,
+              });
+              await Promise.all(
+                placedOrders
+                  .filter((placed) => placed.id !== order.id || !payment.declined)
+                  .map((placed) => cancelOrder(placed.id, 'Payment authorization failed'))
+              );
+              setGroupOrderError(payment.message || 'Payment could not be authorized. Please try again.');
+              return;
+            }
+          }
+        }
+
+        setOrderSuccess({
+          orderId: placedOrders[0]?.id ?? response.group.id,
+          orderNumber: placedOrders
+            .map((order) => order.order_number || order.id.slice(0, 8))
+            .join(', '),
+          totalCents: placedOrders.reduce((total, order) => total + order.total_cents, 0),
+          walletCreditCents: placedOrders.reduce((total, order) => total + (order.wallet_credit_cents ?? 0), 0),
+          shopName: groupCarts.map((cart) => cart.shopName).join(', '),
+        });
+
+        groupCarts.forEach((cart) => clearCart(cart.shopId));
+        try {
+          localStorage.removeItem(CHECKOUT_STORAGE_KEY);
+        } catch (error) {
+          console.error('Error clearing checkout state from localStorage:', error);
+        }
+        setActiveShopId(null);
+        setDeliveryInstructions('');
+      } catch (error) {
+        log.error('Unexpected error placing order group', { error });
+        setGroupOrderError(error instanceof Error ? error.message : 'Failed to place orders. Please try again.');
+      } finally {
+        setPlacingOrder(false);
+        setAuthorizingPayment(false);
+        if (useWalletCredit) {
+          refreshWalletBalance();
+        }
       }
     };
 
@@ -822,8 +1206,118 @@ export default function CheckoutScreen() {
             </div>
           )}
 
+          {shopIdsWithItems.length > 1 && (
+            <section className="bg-white border border-gray-100 rounded-xl sm:rounded-2xl p-4 sm:p-5 shadow-sm space-y-3 sm:space-y-4">
+              <div>
+                <h2 className="text-base sm:text-lg font-bold text-gray-900">Check out all shops together</h2>
+                <p className="text-[10px] sm:text-xs text-gray-500">
+                  One order per shop, placed in a single step. Each shop delivers separately and charges its own delivery fee.
+                </p>
+              </div>
+              <div className="divide-y divide-gray-100">
+                {groupRows.map((row) => (
+                  <div key={row.shopId} className="flex items-start justify-between gap-3 py-2 text-xs sm:text-sm">
+                    <div className="min-w-0">
+                      <p className="font-semibold text-gray-900 truncate">{row.shopName}</p>
+                      <p className="text-[10px] sm:text-xs text-gray-500">
+                        Items Rs. {(row.subtotal / 100).toFixed(2)} ·{' '}
+                        {row.isPickup ? (
+                          <span className="text-teal-600">Pickup</span>
+                        ) : row.isOutOfZone ? (
+                          <span className="text-red-600">Out of delivery zone</span>
+                        ) : !row.fees ? (
+                          'Delivery fee calculating…'
+                        ) : row.fees.freeDeliveryApplied ? (
+                          <span className="text-green-600">Free delivery</span>
+                        ) : (
+                          `Delivery Rs. ${(row.fees.totalDeliveryFee / 100).toFixed(2)}`
+                        )}
+                        {row.slot && ` · ${formatSlotDay(row.slot.starts_at)}, ${formatSlotTime(row.slot.starts_at)}`}
+                      </p>
+                    </div>
+                    <span className="font-semibold text-gray-900 flex-shrink-0">
+                      {row.fees ? `Rs. ${((row.subtotal + row.feeCents) / 100).toFixed(2)}` : '...'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <div className="flex items-center justify-between border-t border-gray-200 pt-3">
+                <span className="text-sm sm:text-base font-bold text-gray-900">
+                  Total for {groupRows.length} shops
+                  <span className="block text-[10px] sm:text-xs font-normal text-gray-500">
+                    Paid with {paymentOptions.find((option) => option.id === selectedPaymentMethod)?.title.toLowerCase()}
+                    {useWalletCredit && walletBalanceCents > 0 && ' and wallet credit'}
+                  </span>
+                </span>
+                <span className="text-lg sm:text-xl font-bold text-blue-600">
+                  {isGroupReady ? `Rs. ${(groupTotalCents / 100).toFixed(2)}` : '...'}
+                </span>
+              </div>
+              {groupOrderError && (
+                <div className="rounded-xl border border-red-200 bg-red-50 px-4 py-2 text-xs text-red-600">
+                  {groupOrderError}
+                </div>
+              )}
+              <button
+                onClick={handlePlaceGroupOrderClick}
+                disabled={placingOrder || !isGroupReady}
+                className="w-full rounded-xl border border-blue-600 py-2.5 sm:py-3 text-xs sm:text-sm font-semibold text-blue-600 transition-colors hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {placingOrder
+                  ? authorizingPayment
+                    ? 'Authorizing payment…'
+                    : 'Placing orders…'
+                  : `Place all ${groupRows.length} orders`}
+              </button>
+            </section>
+          )}
+
+          {cartValidation && (
+            <CartValidationNotice
+              validation={cartValidation}
+              shopName={shopCart.shopName}
+              onAccept={() => setShopCart(activeShopId, shopCart.shopName, cartValidation.items)}
+              allowClosedShop={isScheduled}
+              allowOutsideDeliveryArea={isPickup}
+            />
+          )}
+
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-5 md:gap-6">
             <div className="lg:col-span-2 space-y-4 sm:space-y-5 md:space-y-6">
+              {isPickupAvailable && (
+                <section className="bg-white rounded-xl sm:rounded-2xl shadow-sm border border-gray-100 p-4 sm:p-5 md:p-6 space-y-3 sm:space-y-4">
+                  <div>
+                    <h2 className="text-base sm:text-lg font-bold text-gray-900">Delivery or pickup</h2>
+                    <p className="text-[10px] sm:text-xs text-gray-500">
+                      {shopCart.shopName} lets you collect your order yourself, with no delivery fee.
+                    </p>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2 sm:gap-3">
+                    {([
+                      { value: 'delivery', title: 'Delivery', description: 'A rider brings it to your address.' },
+                      { value: 'pickup', title: 'Pickup', description: 'Collect it at the shop with a pickup code.' },
+                    ] as Array<{ value: FulfilmentType; title: string; description: string }>).map((option) => {
+                      const isSelected = (isPickup ? 'pickup' : 'delivery') === option.value;
+                      return (
+                        <button
+                          key={option.value}
+                          type="button"
+                          onClick={() => setFulfilmentTypes((prev) => ({ ...prev, [shopCart.shopId]: option.value }))}
+                          className={`rounded-lg border px-3 py-2 text-left transition-colors ${
+                            isSelected ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-blue-300'
+                          }`}
+                        >
+                          <p className={`text-xs sm:text-sm font-semibold ${isSelected ? 'text-blue-700' : 'text-gray-900'}`}>
+                            {option.title}
+                          </p>
+                          <p className="text-[10px] sm:text-xs text-gray-500">{option.description}</p>
+                        </button>
+                      );
+                    })}
+                  </div>
+                </section>
+              )}
+
               <section className="bg-white rounded-xl sm:rounded-2xl shadow-sm border border-gray-100 p-4 sm:p-5 md:p-6 space-y-4 sm:space-y-5">
                 <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3 sm:gap-4">
                   <div className="flex-1 min-w-0">
@@ -935,6 +1429,115 @@ export default function CheckoutScreen() {
                 </div>
               </section>
 
+              {(loadingSlots || deliverySlots.length > 0) && (
+                <section className="bg-white rounded-xl sm:rounded-2xl shadow-sm border border-gray-100 p-4 sm:p-5 md:p-6 space-y-3 sm:space-y-4">
+                  <div>
+                    <h2 className="text-base sm:text-lg font-bold text-gray-900">Delivery time</h2>
+                    <p className="text-[10px] sm:text-xs text-gray-500">
+                      Get it as soon as possible or schedule it for a time that suits you.
+                    </p>
+                  </div>
+                  {loadingSlots ? (
+                    <p className="text-xs sm:text-sm text-gray-500">Loading delivery times…</p>
+                  ) : (
+                    <div className="space-y-3">
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setSelectedSlots((prev) => {
+                            const { [shopCart.shopId]: _cleared, ...rest } = prev;
+                            return rest;
+                          })
+                        }
+                        className={`w-full rounded-lg border px-3 py-2 text-left text-xs sm:text-sm font-semibold transition-colors ${
+                          !selectedSlots[shopCart.shopId]
+                            ? 'border-blue-500 bg-blue-50 text-blue-700'
+                            : 'border-gray-200 text-gray-700 hover:border-blue-300'
+                        }`}
+                      >
+                        As soon as possible
+                      </button>
+                      {Object.entries(
+                        deliverySlots.reduce<Record<string, DeliverySlotOccurrence[]>>((days, slot) => {
+                          const day = formatSlotDay(slot.starts_at);
+                          (days[day] = days[day] || []).push(slot);
+                          return days;
+                        }, {})
+                      ).map(([day, slots]) => (
+                        <div key={day}>
+                          <p className="text-[10px] sm:text-xs font-semibold uppercase tracking-wide text-gray-400 mb-1.5">
+                            {day}
+                          </p>
+                          <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                            {slots.map((slot) => {
+                              const selected = selectedSlots[shopCart.shopId];
+                              const isSelected =
+                                selected?.slot_id === slot.slot_id && selected?.starts_at === slot.starts_at;
+                              return (
+                                <button
+                                  key={`${slot.slot_id}:${slot.starts_at}`}
+                                  type="button"
+                                  disabled={slot.is_full}
+                                  onClick={() => setSelectedSlots((prev) => ({ ...prev, [shopCart.shopId]: slot }))}
+                                  className={`rounded-lg border px-2 py-2 text-xs sm:text-sm transition-colors disabled:cursor-not-allowed disabled:bg-gray-50 disabled:text-gray-400 ${
+                                    isSelected
+                                      ? 'border-blue-500 bg-blue-50 text-blue-700 font-semibold'
+                                      : 'border-gray-200 text-gray-700 hover:border-blue-300'
+                                  }`}
+                                >
+                                  {formatSlotTime(slot.starts_at)} – {formatSlotTime(slot.ends_at)}
+                                  {slot.is_full && <span className="block text-[10px]">Full</span>}
+                                </button>
+                              );
+                            })}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </section>
+              )}
+
+              <section className="bg-white rounded-xl sm:rounded-2xl shadow-sm border border-gray-100 p-4 sm:p-5 md:p-6 space-y-3 sm:space-y-4">
+                <div>
+                  <h2 className="text-base sm:text-lg font-bold text-gray-900">If an item is out of stock</h2>
+                  <p className="text-[10px] sm:text-xs text-gray-500">
+                    {shopCart.shopName} will follow your choice when confirming the order.
+                  </p>
+                </div>
+                <div className="divide-y divide-gray-100">
+                  {shopCart.items.map((item) => (
+                    <div
+                      key={`${item.id}:${item.variant_id ?? ''}`}
+                      className="flex items-center justify-between gap-3 py-2 sm:py-2.5"
+                    >
+                      <p className="flex-1 min-w-0 text-xs sm:text-sm text-gray-900 truncate">
+                        {item.name}
+                        {item.variant_name && <span className="text-gray-500"> · {item.variant_name}</span>}
+                      </p>
+                      <select
+                        value={item.substitution_preference ?? 'substitute'}
+                        onChange={(e) =>
+                          setSubstitutionPreference(
+                            shopCart.shopId,
+                            item.id,
+                            e.target.value as SubstitutionPreference,
+                            item.variant_id
+                          )
+                        }
+                        className="flex-shrink-0 rounded-lg border border-gray-300 px-2 py-1.5 text-xs sm:text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {SUBSTITUTION_OPTIONS.map((option) => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </section>
+
               <section className="bg-white rounded-xl sm:rounded-2xl shadow-sm border border-gray-100 p-4 sm:p-5 md:p-6 space-y-4 sm:space-y-5">
                 <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
                   <h2 className="text-base sm:text-lg font-bold text-gray-900">Payment method</h2>
@@ -973,8 +1576,29 @@ export default function CheckoutScreen() {
                     );
                   })}
                 </div>
+                {walletBalanceCents > 0 && (
+                  <label className="flex items-center justify-between gap-3 rounded-xl sm:rounded-2xl border border-green-200 bg-green-50 px-3 sm:px-4 py-2.5 sm:py-3 cursor-pointer">
+                    <div className="flex items-center gap-2 sm:gap-3 flex-1 min-w-0">
+                      <span className="text-lg sm:text-xl flex-shrink-0">💰</span>
+                      <div className="min-w-0 flex-1">
+                        <p className="text-xs sm:text-sm font-semibold text-gray-900">Use wallet balance</p>
+                        <p className="text-[10px] sm:text-xs text-gray-500">
+                          Rs {Math.round(walletBalanceCents / 100).toLocaleString()} available. Anything it doesn&apos;t
+                          cover is paid with the method above.
+                        </p>
+                      </div>
+                    </div>
+                    <input
+                      type="checkbox"
+                      checked={useWalletCredit}
+                      onChange={(e) => setUseWalletCredit(e.target.checked)}
+                      className="h-4 w-4 flex-shrink-0"
+                    />
+                  </label>
+                )}
                 <div className="rounded-xl border border-blue-100 bg-blue-50/70 px-4 py-3 text-xs text-blue-700">
-                  Riders currently support cash payments and will soon accept card and wallet payments at the door.
+                  Card and wallet payments are authorized when you place the order and only charged once it is
+                  delivered. If the shop cancels or rejects the order, the hold is released.
                 </div>
               </section>
             </div>
@@ -1023,9 +1647,11 @@ export default function CheckoutScreen() {
                       </div>
                     )}
                     <div className="flex items-center justify-between">
-                      <span>Delivery</span>
+                      <span>{isPickup ? 'Pickup' : 'Delivery'}</span>
                       <span className="font-semibold text-gray-900">
-                        {isOutOfZone
+                        {isPickup
+                          ? 'Free'
+                          : isOutOfZone
                           ? '--'
                           : hasShopFees && shopFees
                           ? shopFees.freeDeliveryApplied
@@ -1066,9 +1692,15 @@ export default function CheckoutScreen() {
                       ? '--'
                       : disablePlaceOrderCore && !hasShopFees
                       ? '...'
-                      : `Rs. ${(totalDisplayCents / 100).toFixed(2)}`}
+                      : `Rs. ${((totalDisplayCents - walletCreditDisplayCents) / 100).toFixed(2)}`}
                   </span>
                 </div>
+                {walletCreditDisplayCents > 0 && !isOutOfZone && (
+                  <div className="flex justify-between items-center gap-2 text-xs sm:text-sm text-green-700">
+                    <span>Paid from your wallet</span>
+                    <span className="font-semibold">Rs. {(walletCreditDisplayCents / 100).toFixed(2)}</span>
+                  </div>
+                )}
                 <p className="text-xs text-gray-500">
                   Includes delivery charges and any applicable surcharges.
                   {isOutOfZone ? (
@@ -1107,7 +1739,7 @@ export default function CheckoutScreen() {
                   {placingOrder ? (
                     <span className="flex items-center justify-center gap-2">
                       <span className="inline-flex h-3.5 w-3.5 sm:h-4 sm:w-4 animate-spin rounded-full border-2 border-white/80 border-t-transparent" />
-                      <span>Placing order…</span>
+                      <span>{authorizingPayment ? 'Authorizing payment…' : 'Placing order…'}</span>
                     </span>
                   ) : (
                     placeOrderButtonLabel
@@ -1165,7 +1797,7 @@ export default function CheckoutScreen() {
           order={activeOrder}
           onClose={() => {
             setShowModal(false);
-            if (activeOrder.status === 'delivered' || activeOrder.status === 'cancelled') {
+            if (isTerminalOrderStatus(activeOrder.status)) {
               setActiveOrder(null);
             }
           }}
@@ -1240,6 +1872,14 @@ export default function CheckoutScreen() {
                   Rs {Math.round(orderSuccess.totalCents / 100).toLocaleString()}
                 </span>
               </div>
+              {orderSuccess.walletCreditCents > 0 && (
+                <div className="flex items-center justify-between text-xs sm:text-sm text-gray-600">
+                  <span>From your wallet</span>
+                  <span className="font-semibold text-green-700">
+                    Rs {Math.round(orderSuccess.walletCreditCents / 100).toLocaleString()}
+                  </span>
+                </div>
+              )}
             </div>
             <div className="mt-4 sm:mt-6 space-y-2 sm:space-y-3">
               <button
@@ -1,18 +1,31 @@
 import React, { useEffect, useRef, useState, useMemo, useCallback, startTransition } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import type { OrderWithAll, OrderStatus } from '../../../src/types/orders';
-import { useOrder } from '../../../src/hooks/consumer/useOrder';
+import { useOrder, useOrderGroupOrders } from '../../../src/hooks/consumer/useOrder';
 import { cancelOrder } from '../../../src/services/consumer/orderService';
 import OrderApprovalContent from '../components/OrderApprovalContent';
+import OrderEditPanel from '../components/consumer/OrderEditPanel';
+import OrderReturnPanel from '../components/consumer/OrderReturnPanel';
 import { useOrderApproval } from '../context/OrderApprovalContext';
+import { isTerminalOrderStatus } from '../../../src/utils/orderStatus';
 
 const STATUS_STEPS: { status: OrderStatus; label: string; icon: string }[] = [
   { status: 'pending', label: 'Order Placed', icon: '📦' },
   { status: 'confirmed', label: 'Order Confirmed', icon: '✅' },
+  { status: 'preparing', label: 'Preparing', icon: '🧑‍🍳' },
+  { status: 'ready', label: 'Ready for Dispatch', icon: '🏷️' },
   { status: 'out_for_delivery', label: 'Out for Delivery', icon: '🚚' },
   { status: 'delivered', label: 'Delivered', icon: '🎉' },
 ];
 
+const PICKUP_STATUS_STEPS: { status: OrderStatus; label: string; icon: string }[] = [
+  { status: 'pending', label: 'Order Placed', icon: '📦' },
+  { status: 'confirmed', label: 'Order Confirmed', icon: '✅' },
+  { status: 'preparing', label: 'Preparing', icon: '🧑‍🍳' },
+  { status: 'ready_for_pickup', label: 'Ready for Pickup', icon: '🛍️' },
+  { status: 'delivered', label: 'Collected', icon: '🎉' },
+];
+
 export default function OrderStatusScreen() {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
@@ -20,12 +33,14 @@ export default function OrderStatusScreen() {
 
   // Use React Query hook with real-time subscription
   const { data: order, isLoading, refetch } = useOrder(orderId);
+  const { data: groupOrders = [] } = useOrderGroupOrders(order?.order_group_id);
 
   const [countdown, setCountdown] = useState('00:00');
   const [elapsedSeconds, setElapsedSeconds] = useState(0);
   const [showCancelConfirm, setShowCancelConfirm] = useState(false);
   const [cancelling, setCancelling] = useState(false);
   const [cancelError, setCancelError] = useState<string | null>(null);
+  const [editing, setEditing] = useState(false);
   
   const startTimeRef = useRef<Date | null>(null);
   const navigateRef = useRef(navigate);
@@ -119,6 +134,14 @@ export default function OrderStatusScreen() {
           navigateRef.current('/orders');
         }, 100);
       }
+
+      // A rejected order stays on screen so the customer sees the shop's reason
+      if (currentStatus === 'rejected' && previousStatus !== 'rejected') {
+        startTransition(() => {
+          setActiveOrder(null);
+          setShowModal(false);
+        });
+      }
     }
 
     // Update start time when order is first loaded
@@ -146,16 +169,18 @@ export default function OrderStatusScreen() {
     return () => clearInterval(id);
   }, [order?.placed_at, order?.created_at]);
 
+  const statusSteps = order?.fulfilment_type === 'pickup' ? PICKUP_STATUS_STEPS : STATUS_STEPS;
+
   // Calculate active step index
   const activeStepIndex = useMemo(() => {
     if (!order) return 0;
-    const statusIndex = STATUS_STEPS.findIndex((s) => s.status === order.status);
+    const statusIndex = statusSteps.findIndex((s) => s.status === order.status);
     if (statusIndex === -1) return 0;
     if (order.status === 'delivered') {
-      return STATUS_STEPS.length; // All steps completed
+      return statusSteps.length; // All steps completed
     }
     return statusIndex;
-  }, [order?.status]);
+  }, [order?.status, statusSteps]);
 
   // Loading state
   if (isLoading || !order) {
@@ -176,12 +201,20 @@ export default function OrderStatusScreen() {
         return 'text-yellow-600 bg-yellow-50 border-yellow-200';
       case 'confirmed':
         return 'text-blue-600 bg-blue-50 border-blue-200';
+      case 'preparing':
+        return 'text-sky-600 bg-sky-50 border-sky-200';
+      case 'ready':
+        return 'text-cyan-600 bg-cyan-50 border-cyan-200';
+      case 'ready_for_pickup':
+        return 'text-teal-600 bg-teal-50 border-teal-200';
       case 'out_for_delivery':
         return 'text-indigo-600 bg-indigo-50 border-indigo-200';
       case 'delivered':
         return 'text-green-600 bg-green-50 border-green-200';
       case 'cancelled':
         return 'text-red-600 bg-red-50 border-red-200';
+      case 'rejected':
+        return 'text-rose-600 bg-rose-50 border-rose-200';
       default:
         return 'text-gray-600 bg-gray-50 border-gray-200';
     }
@@ -214,7 +247,15 @@ export default function OrderStatusScreen() {
   };
 
   // Allow cancellation for any non-terminal status on the status screen
-  const canCancelOrder = order.status !== 'delivered' && order.status !== 'cancelled';
+  const canCancelOrder = !isTerminalOrderStatus(order.status);
+
+  // Items can change until the merchant starts confirming
+  // Card/wallet authorizations are sized for the original total
+  const canEditOrder =
+    order.status === 'pending' &&
+    !order.confirmation_started_at &&
+    order.payment_status !== 'pending' &&
+    order.payment_status !== 'authorized';
 
   // Note: keep this as a plain async function (no useCallback) to avoid any
   // potential Hooks ordering quirks during hot reload in dev.
@@ -260,6 +301,12 @@ export default function OrderStatusScreen() {
               <p className="text-sm text-gray-500 mt-1">
                 Tracking order #{order.order_number || order.id.slice(0, 8).toUpperCase()}
               </p>
+              {order.scheduled_for && (
+                <p className="text-sm font-medium text-indigo-700 mt-1">
+                  Scheduled for{' '}
+                  {new Date(order.scheduled_for).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+                </p>
+              )}
             </div>
             <button
               onClick={() => navigate(-1)}
@@ -273,13 +320,74 @@ export default function OrderStatusScreen() {
 
       {/* Content */}
       <div className="mx-auto max-w-3xl px-4 py-6 md:py-8">
+        {groupOrders.length > 1 && (
+          <div className="mb-4 rounded-2xl border border-gray-200 bg-white p-4">
+            <div className="flex items-center justify-between mb-3">
+              <p className="text-sm font-semibold text-gray-900">Placed together with {groupOrders.length - 1} other shop{groupOrders.length === 2 ? '' : 's'}</p>
+              <p className="text-sm font-bold text-gray-900">
+                Rs {Math.round(groupOrders.reduce((total, groupOrder) => total + groupOrder.total_cents, 0) / 100).toLocaleString()}
+              </p>
+            </div>
+            <div className="space-y-2">
+              {groupOrders.map((groupOrder) => {
+                const isCurrent = groupOrder.id === order.id;
+                // The tracked order is live; the others refresh with the query
+                const status = isCurrent ? order.status : groupOrder.status;
+                return (
+                  <button
+                    key={groupOrder.id}
+                    onClick={() => !isCurrent && navigate(`/orderstatus?orderId=${groupOrder.id}`)}
+                    disabled={isCurrent}
+                    className={`w-full flex items-center justify-between gap-3 rounded-xl border px-3 py-2 text-left transition-colors ${
+                      isCurrent ? 'border-blue-300 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    <span className="min-w-0">
+                      <span className="block text-sm font-medium text-gray-900 truncate">{groupOrder.shop?.name ?? 'Shop'}</span>
+                      <span className="block text-xs text-gray-500">
+                        #{(groupOrder.order_number || groupOrder.id.slice(0, 8)).toUpperCase()}
+                        {isCurrent && ' · Tracking'}
+                      </span>
+                    </span>
+                    <span className={`flex-shrink-0 rounded-full border px-2.5 py-0.5 text-xs font-semibold ${getStatusColor(status)}`}>
+                      {formatStatus(status)}
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+        {canEditOrder && (
+          <div className="mb-4">
+            {editing ? (
+              <OrderEditPanel
+                key={order.last_edited_at ?? order.id}
+                order={order}
+                onClose={() => setEditing(false)}
+                onSaved={() => {
+                  setEditing(false);
+                  refetch();
+                }}
+              />
+            ) : (
+              <button
+                onClick={() => setEditing(true)}
+                className="w-full px-4 py-3 rounded-xl border border-blue-200 bg-blue-50 text-blue-700 text-sm font-semibold hover:bg-blue-100 transition-colors"
+              >
+                Forgot something? Edit your order
+              </button>
+            )}
+          </div>
+        )}
+        {order.status === 'delivered' && <OrderReturnPanel order={order} />}
         <OrderApprovalContent
           key={`order-${order.id}-${order.status}`}
           order={order}
           countdown={countdown}
           elapsedSeconds={elapsedSeconds}
           activeStepIndex={activeStepIndex}
-          STATUS_STEPS={STATUS_STEPS}
+          STATUS_STEPS={statusSteps}
           formatTime={formatTime}
           getStatusColor={getStatusColor}
           formatStatus={formatStatus}
@@ -11,32 +11,48 @@ import { loogin } from '../../../src/lib/loogin';
 import LoadingSpinner from '../components/LoadingSpinner';
 import OrderCardSkeleton from '../components/skeletons/OrderCardSkeleton';
 import { useCart } from '../../../src/context/CartContext';
+import { fetchShopItemsByIds } from '../../../src/services/consumer/shopService';
+import { formatQuantity, lineSubtotalCents } from '../../../src/utils/quantity';
+import { describeCartLineChange, type CartReconciliation } from '../../../src/utils/cartReconciliation';
+import { reconcileReorder } from '../../../src/utils/reorder';
+import { describeOrderRejection } from '../../../src/utils/orderStatus';
 
 const log = loogin.scope('web/orders-screen');
 
 const statusLabels: Record<OrderStatus, string> = {
   pending: 'Pending',
   confirmed: 'Confirmed',
+  preparing: 'Preparing',
+  ready: 'Ready',
+  ready_for_pickup: 'Ready for pickup',
   out_for_delivery: 'Out for delivery',
   delivered: 'Delivered',
   cancelled: 'Cancelled',
+  rejected: 'Rejected',
 };
 
 const statusBadgeClasses: Record<OrderStatus, string> = {
   pending: 'bg-amber-100 text-amber-800',
   confirmed: 'bg-blue-100 text-blue-800',
+  preparing: 'bg-sky-100 text-sky-800',
+  ready: 'bg-cyan-100 text-cyan-800',
+  ready_for_pickup: 'bg-teal-100 text-teal-800',
   out_for_delivery: 'bg-indigo-100 text-indigo-800',
   delivered: 'bg-green-100 text-green-800',
   cancelled: 'bg-red-100 text-red-800',
+  rejected: 'bg-rose-100 text-rose-800',
 };
 
 export default function OrdersScreen() {
   const navigate = useNavigate();
   const { user } = useAuth();
-  const { addItem, updateQuantity, clearCart } = useCart();
+  const { setShopCart } = useCart();
   const [orders, setOrders] = useState<OrderWithAll[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [reorderingId, setReorderingId] = useState<string | null>(null);
+  const [reorderError, setReorderError] = useState<{ orderId: string; message: string } | null>(null);
+  const [reorderReview, setReorderReview] = useState<{ order: OrderWithAll; plan: CartReconciliation } | null>(null);
 
   const loadOrders = useCallback(async () => {
     if (!user) {
@@ -83,38 +99,53 @@ export default function OrdersScreen() {
     };
   }, [user]);
 
-  const handleOrderAgain = useCallback((order: OrderWithAll) => {
-    if (!order.order_items || order.order_items.length === 0) {
+  const applyReorder = useCallback((order: OrderWithAll, plan: CartReconciliation) => {
+    // Replace this shop's cart so the reorder doesn't pile onto earlier lines
+    setShopCart(order.shop_id, order.shop?.name ?? 'Shop', plan.items);
+    setReorderReview(null);
+    navigate('/cart', { state: { checkoutShopId: order.shop_id } });
+  }, [setShopCart, navigate]);
+
+  const handleOrderAgain = useCallback(async (order: OrderWithAll) => {
+    const orderItems = (order.order_items ?? []).filter((orderItem) => !orderItem.substitute_for_id);
+    if (orderItems.length === 0) {
       log.warn('Cannot reorder: order has no items', { orderId: order.id });
       return;
     }
 
-    const shopId = order.shop_id;
-    const shopName = order.shop?.name ?? 'Shop';
-
-    // Clear existing cart for this shop to avoid duplicates
-    clearCart(shopId);
+    setReorderingId(order.id);
+    setReorderError(null);
+    try {
+      const { data, error: itemsError } = await fetchShopItemsByIds(
+        order.shop_id,
+        Array.from(new Set(orderItems.map((orderItem) => orderItem.merchant_item_id)))
+      );
+      if (itemsError || !data) {
+        log.error('Failed to load current items for reorder', { orderId: order.id, itemsError });
+        setReorderError({ orderId: order.id, message: 'Unable to check current prices right now. Please try again.' });
+        return;
+      }
 
-    // Add all order items to cart
-    order.order_items.forEach((orderItem) => {
-      // Add item to cart (will be added with quantity 1 initially)
-      addItem({
-        id: orderItem.merchant_item_id,
-        shopId: shopId,
-        shopName: shopName,
-        name: orderItem.item_name,
-        description: orderItem.item_description ?? undefined,
-        image_url: orderItem.item_image_url ?? undefined,
-        price_cents: orderItem.item_price_cents,
-      });
+      const plan = reconcileReorder(order, data);
+      if (plan.changes.length === 0) {
+        applyReorder(order, plan);
+      } else {
+        setReorderReview({ order, plan });
+      }
+    } finally {
+      setReorderingId(null);
+    }
+  }, [applyReorder]);
 
-      // Update quantity to match the order quantity (always set to ensure correct quantity)
-      updateQuantity(shopId, orderItem.merchant_item_id, orderItem.quantity);
+  // Orders placed together in a grouped checkout, by order_group_id
+  const ordersByGroup = useMemo(() => {
+    const groups = new Map<string, OrderWithAll[]>();
+    orders.forEach((order) => {
+      if (!order.order_group_id) return;
+      groups.set(order.order_group_id, [...(groups.get(order.order_group_id) ?? []), order]);
     });
-
-    // Navigate to checkout with the shop ID
-    navigate('/cart', { state: { checkoutShopId: shopId } });
-  }, [addItem, updateQuantity, clearCart, navigate, log]);
+    return groups;
+  }, [orders]);
 
   const content = useMemo(() => {
     if (loading) {
@@ -188,9 +219,16 @@ export default function OrdersScreen() {
                 timeStyle: 'short',
               })
             : 'Unknown';
-          const itemCount = order.order_items?.reduce((count, item) => count + (item.quantity ?? 0), 0) ?? 0;
+          const itemCount =
+            order.order_items?.reduce(
+              (count, item) => (item.fulfilment_status && item.fulfilment_status !== 'fulfilled' ? count : count + (item.quantity ?? 0)),
+              0
+            ) ?? 0;
           const displayItems = order.order_items?.slice(0, 3) ?? [];
           const statusClass = statusBadgeClasses[order.status] ?? 'bg-gray-100 text-gray-800';
+          const groupSiblings = order.order_group_id
+            ? (ordersByGroup.get(order.order_group_id) ?? []).filter((sibling) => sibling.id !== order.id)
+            : [];
 
           return (
             <motion.div
@@ -205,12 +243,46 @@ export default function OrdersScreen() {
                   <p className="text-xs sm:text-sm text-gray-500">Order #{(order.order_number || order.id.slice(0, 8)).toUpperCase()}</p>
                   <h3 className="text-base sm:text-lg font-semibold text-gray-900 mt-1 truncate">{shopName}</h3>
                   <p className="text-xs text-gray-500 mt-1">Placed on {formattedDate}</p>
+                  {order.scheduled_for && (
+                    <p className="text-xs font-medium text-indigo-700 mt-0.5">
+                      Scheduled for{' '}
+                      {new Date(order.scheduled_for).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+                    </p>
+                  )}
+                  {order.fulfilment_type === 'pickup' && (
+                    <p className="text-xs font-medium text-teal-700 mt-0.5">
+                      Pickup{order.status === 'ready_for_pickup' && order.pickup_code ? ` · code ${order.pickup_code}` : ''}
+                    </p>
+                  )}
+                  {order.status === 'rejected' && order.rejection_reason_code && (
+                    <p className="text-xs font-medium text-rose-700 mt-0.5">
+                      Rejected by the shop: {describeOrderRejection(order)}
+                    </p>
+                  )}
                 </div>
                 <span className={`inline-flex items-center px-2.5 sm:px-3 py-1 rounded-full text-xs font-semibold flex-shrink-0 ${statusClass}`}>
                   {statusLabels[order.status] ?? order.status}
                 </span>
               </div>
 
+              {groupSiblings.length > 0 && (
+                <div className="mt-3 flex flex-wrap items-center gap-2 text-xs">
+                  <span className="text-gray-500">Placed together with</span>
+                  {groupSiblings.map((sibling) => (
+                    <button
+                      key={sibling.id}
+                      onClick={() => navigate(`/orderstatus?orderId=${sibling.id}`)}
+                      className="inline-flex items-center gap-1.5 rounded-full border border-gray-200 px-2.5 py-1 text-gray-700 hover:bg-gray-50 transition-colors"
+                    >
+                      {sibling.shop?.name ?? 'Shop'}
+                      <span className={`rounded-full px-2 py-0.5 font-semibold ${statusBadgeClasses[sibling.status] ?? 'bg-gray-100 text-gray-800'}`}>
+                        {statusLabels[sibling.status] ?? sibling.status}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+
               <div className="mt-4 sm:mt-5 border-t border-gray-100 pt-3 sm:pt-4">
                 <p className="text-xs sm:text-sm font-semibold text-gray-700 mb-2 sm:mb-3">
                   Items ({itemCount})
@@ -218,12 +290,17 @@ export default function OrdersScreen() {
                 <div className="space-y-2 text-xs sm:text-sm text-gray-600">
                   {displayItems.map((item) => (
                     <div key={item.id} className="flex items-center justify-between gap-2">
-                      <span className="truncate flex-1 min-w-0">
+                      <span
+                        className={`truncate flex-1 min-w-0 ${
+                          item.fulfilment_status && item.fulfilment_status !== 'fulfilled' ? 'line-through text-gray-400' : ''
+                        }`}
+                      >
                         {item.item_name || 'Item'}{' '}
-                        <span className="text-gray-400">×{item.quantity}</span>
+                        {item.variant_name && <span className="text-gray-400">({item.variant_name}) </span>}
+                        <span className="text-gray-400">×{formatQuantity(item.quantity, item.unit_type)}</span>
                       </span>
                       <span className="font-semibold text-gray-900 flex-shrink-0">
-                        Rs {(Math.round((item.item_price_cents ?? 0) / 100) * (item.quantity ?? 1)).toLocaleString()}
+                        Rs {Math.round(lineSubtotalCents(item.item_price_cents ?? 0, item.quantity ?? 1) / 100).toLocaleString()}
                       </span>
                     </div>
                   ))}
@@ -244,7 +321,7 @@ export default function OrdersScreen() {
                   <motion.button
                     whileHover={{ scale: 1.02 }}
                     whileTap={{ scale: 0.98 }}
-                    onClick={() => navigate(`/order/${order.id}`)}
+                    onClick={() => navigate(`/orderstatus?orderId=${order.id}`)}
                     className="px-3 sm:px-4 py-2 rounded-lg border border-gray-200 text-xs sm:text-sm font-semibold text-gray-700 hover:border-gray-300 hover:bg-gray-50 transition-colors"
                   >
                     View details
@@ -253,18 +330,26 @@ export default function OrdersScreen() {
                     whileHover={{ scale: 1.02 }}
                     whileTap={{ scale: 0.98 }}
                     onClick={() => handleOrderAgain(order)}
-                    className="px-3 sm:px-4 py-2 rounded-lg bg-blue-600 text-xs sm:text-sm font-semibold text-white hover:bg-blue-700 transition-colors shadow-sm"
+                    disabled={reorderingId !== null}
+                    className="px-3 sm:px-4 py-2 rounded-lg bg-blue-600 text-xs sm:text-sm font-semibold text-white hover:bg-blue-700 transition-colors shadow-sm disabled:opacity-60 disabled:cursor-not-allowed"
                   >
-                    Order again
+                    {reorderingId === order.id ? 'Checking items...' : 'Order again'}
                   </motion.button>
                 </div>
               </div>
+              {reorderError?.orderId === order.id && (
+                <p className="mt-2 text-xs sm:text-sm text-red-600 sm:text-right">{reorderError.message}</p>
+              )}
             </motion.div>
           );
         })}
       </div>
     );
-  }, [loading, error, orders, loadOrders, navigate, handleOrderAgain]);
+  }, [loading, error, orders, ordersByGroup, loadOrders, navigate, handleOrderAgain, reorderingId, reorderError]);
+
+  const reviewTotalCents = reorderReview
+    ? reorderReview.plan.items.reduce((total, item) => total + lineSubtotalCents(item.price_cents, item.quantity), 0)
+    : 0;
 
   return (
     <div className="w-full bg-gray-50 min-h-screen">
@@ -292,6 +377,59 @@ export default function OrdersScreen() {
 
         {content}
       </div>
+
+      {reorderReview && (
+        <div className="fixed inset-0 z-[120] flex items-center justify-center bg-black/50 backdrop-blur-sm px-3 sm:px-4 py-4 sm:py-6">
+          <div className="relative w-full max-w-md rounded-2xl sm:rounded-3xl bg-white p-6 sm:p-8 shadow-2xl">
+            <h3 className="text-xl sm:text-2xl font-bold text-gray-900">Some things have changed</h3>
+            <p className="mt-2 text-xs sm:text-sm text-gray-600">
+              {reorderReview.order.shop?.name ?? 'The shop'} has updated a few items since you placed this order.
+            </p>
+            <ul className="mt-4 space-y-2 max-h-64 overflow-y-auto">
+              {reorderReview.plan.changes.map((change, index) => (
+                <li
+                  key={index}
+                  className={`rounded-lg px-3 py-2 text-xs sm:text-sm ${
+                    change.kind === 'price_changed' || change.kind === 'quantity_changed'
+                      ? 'bg-amber-50 text-amber-800'
+                      : 'bg-red-50 text-red-700'
+                  }`}
+                >
+                  {describeCartLineChange(change)}
+                </li>
+              ))}
+            </ul>
+            {reorderReview.plan.items.length > 0 ? (
+              <div className="mt-4 flex items-center justify-between text-xs sm:text-sm text-gray-600">
+                <span>
+                  {reorderReview.plan.items.length} item{reorderReview.plan.items.length === 1 ? '' : 's'} in your cart
+                </span>
+                <span className="text-base sm:text-lg font-bold text-gray-900">
+                  Rs {Math.round(reviewTotalCents / 100).toLocaleString()}
+                </span>
+              </div>
+            ) : (
+              <p className="mt-4 text-xs sm:text-sm text-gray-600">Nothing from this order can be reordered right now.</p>
+            )}
+            <div className="mt-4 sm:mt-6 space-y-2 sm:space-y-3">
+              {reorderReview.plan.items.length > 0 && (
+                <button
+                  onClick={() => applyReorder(reorderReview.order, reorderReview.plan)}
+                  className="w-full rounded-xl bg-gradient-to-r from-blue-600 to-blue-500 py-2.5 sm:py-3 text-xs sm:text-sm font-semibold text-white shadow-lg transition-all duration-200 hover:from-blue-700 hover:to-blue-600"
+                >
+                  Continue to checkout
+                </button>
+              )}
+              <button
+                onClick={() => setReorderReview(null)}
+                className="w-full rounded-xl border border-gray-200 py-2.5 sm:py-3 text-xs sm:text-sm font-semibold text-gray-700 transition-all duration-200 hover:border-gray-300 hover:bg-gray-50"
+              >
+                {reorderReview.plan.items.length > 0 ? 'Cancel' : 'Close'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
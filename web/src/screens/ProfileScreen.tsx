@@ -7,6 +7,8 @@ import { supabase } from '../../../src/services/supabase';
 import OrdersIcon from '../../../src/icons/OrdersIcon';
 import AddressIcon from '../../../src/icons/AddressIcon';
 import FavoriteIcon from '../../../src/icons/FavoriteIcon';
+import SubscriptionsSection from '../components/consumer/SubscriptionsSection';
+import WalletSection from '../components/consumer/WalletSection';
 
 export default function ProfileScreen() {
   const navigate = useNavigate();
@@ -344,6 +346,12 @@ export default function ProfileScreen() {
                 </div>
               </div>
 
+              {/* Wallet Card */}
+              <WalletSection />
+
+              {/* Subscriptions Card */}
+              <SubscriptionsSection />
+
               {/* Settings Card */}
               <div className="bg-white rounded-xl sm:rounded-2xl shadow-lg border border-gray-100 overflow-hidden">
                 <div className="px-4 sm:px-5 md:px-6 py-4 sm:py-5 border-b border-gray-100 bg-gray-50">
@@ -8,6 +8,10 @@ import { useUserLocation } from '../../../../src/hooks/consumer/useUserLocation'
 import { useLocationSelection } from '../../../../src/context/LocationContext';
 import { calculateShopDeliveryFee } from '../../../../src/services/consumer/deliveryFeeService';
 import ShopRating from '../../components/ShopRating';
+import { decreaseQuantity, formatQuantity, increaseQuantity, isWeightedUnit, UNIT_LABELS } from '../../../../src/utils/quantity';
+
+// Show "only N left" once tracked stock drops to this level
+const LOW_STOCK_DISPLAY_THRESHOLD = 5;
 
 export default function ShopDetailScreen() {
   const navigate = useNavigate();
@@ -26,6 +30,8 @@ export default function ShopDetailScreen() {
   const [loadingDeliveryFee, setLoadingDeliveryFee] = useState(true);
   const [reviews, setReviews] = useState<any[]>([]);
   const [averageRating, setAverageRating] = useState<number>(0);
+  // Variant chosen on each item card, keyed by item id (defaults to the first variant)
+  const [selectedVariantIds, setSelectedVariantIds] = useState<Record<string, string>>({});
   const { addItem, removeItem, updateQuantity, getShopCart } = useCart();
   const { coords } = useUserLocation();
   const { selectedAddress } = useLocationSelection();
@@ -41,12 +47,44 @@ export default function ShopDetailScreen() {
   // Refs for category sections to enable scrolling
   const categoryRefs = useRef<Record<string, HTMLDivElement | null>>({});
   
+  const getSelectedVariant = (item: ShopItem) =>
+    item.variants.find((variant) => variant.id === selectedVariantIds[item.id]) ?? item.variants[0] ?? null;
+
   // Memoize quantity lookups for each item to prevent unnecessary recalculations
   const getItemQty = useMemo(() => {
     if (!actualShopId) return () => 0;
-    return (itemId: string) => getItemQuantity(actualShopId, itemId);
+    return (itemId: string, variantId?: string | null) => getItemQuantity(actualShopId, itemId, variantId);
   }, [actualShopId, getItemQuantity]);
 
+  // Stock is tracked per item, so every variant line draws from the same units;
+  // the limit is hit once one more step would exceed what is left
+  const isAtStockLimit = (item: ShopItem) => {
+    if (item.available_quantity == null) return false;
+    const inCart = (shopCart?.items ?? [])
+      .filter((cartItem) => cartItem.id === item.id)
+      .reduce((sum, cartItem) => sum + cartItem.quantity, 0);
+    return increaseQuantity(inCart, item) > item.available_quantity;
+  };
+
+  const addItemToCart = (item: ShopItem) => {
+    if (!actualShopId) return;
+    const variant = getSelectedVariant(item);
+    addItem({
+      id: item.id,
+      shopId: actualShopId,
+      shopName: shop.name,
+      name: item.name,
+      description: item.description || undefined,
+      image_url: item.image_url || undefined,
+      variant_id: variant?.id ?? null,
+      variant_name: variant?.name ?? null,
+      price_cents: variant?.price_cents ?? item.price_cents,
+      unit_type: item.unit_type,
+      quantity_step: item.quantity_step,
+      min_quantity: item.min_quantity,
+    });
+  };
+
   // Fetch shop details
   useEffect(() => {
     if (!actualShopId && !shopFromState) {
@@ -680,7 +718,7 @@ export default function ShopDetailScreen() {
                               <img
                                 src={item.image_url}
                                 alt={item.name}
-                                className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-200"
+                                className={`w-full h-full object-cover group-hover:scale-105 transition-transform duration-200 ${item.available_quantity === 0 ? 'opacity-50 grayscale' : ''}`}
                               />
                             ) : (
                               <div className="w-full h-full flex items-center justify-center">
@@ -688,38 +726,34 @@ export default function ShopDetailScreen() {
                               </div>
                             )}
                             {/* Add Button - Floating on Image */}
-                            {actualShopId && getItemQty(item.id) > 0 ? (
+                            {actualShopId && getItemQty(item.id, getSelectedVariant(item)?.id) > 0 ? (
                               <div className="absolute bottom-2 right-2 flex items-center gap-2 bg-white rounded-full shadow-lg border-2 border-blue-600 z-10">
                                 <button
+                                  disabled={isAtStockLimit(item)}
                                   onClick={(e) => {
                                     e.stopPropagation();
-                                    addItem({
-                                      id: item.id,
-                                      shopId: actualShopId!,
-                                      shopName: shop.name,
-                                      name: item.name,
-                                      description: item.description || undefined,
-                                      image_url: item.image_url || undefined,
-                                      price_cents: item.price_cents,
-                                    });
+                                    if (isAtStockLimit(item)) return;
+                                    addItemToCart(item);
                                   }}
-                                  className="w-8 h-8 flex items-center justify-center text-blue-600 hover:bg-blue-50 rounded-l-full transition-colors"
+                                  className="w-8 h-8 flex items-center justify-center text-blue-600 hover:bg-blue-50 rounded-l-full transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
                                 >
                                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M12 4v16m8-8H4" />
                                   </svg>
                                 </button>
                                 <span className="text-sm font-semibold text-gray-900 min-w-[24px] text-center">
-                                  {getItemQty(item.id)}
+                                  {formatQuantity(getItemQty(item.id, getSelectedVariant(item)?.id), item.unit_type)}
                                 </span>
                                 <button
                                   onClick={(e) => {
                                     e.stopPropagation();
-                                    const currentQty = getItemQty(item.id);
-                                    if (currentQty > 1) {
-                                      updateQuantity(actualShopId, item.id, currentQty - 1);
+                                    const variantId = getSelectedVariant(item)?.id ?? null;
+                                    const currentQty = getItemQty(item.id, variantId);
+                                    const nextQty = decreaseQuantity(currentQty, item);
+                                    if (nextQty > 0) {
+                                      updateQuantity(actualShopId, item.id, nextQty, variantId);
                                     } else {
-                                      removeItem(actualShopId, item.id);
+                                      removeItem(actualShopId, item.id, variantId);
                                     }
                                   }}
                                   className="w-8 h-8 flex items-center justify-center text-blue-600 hover:bg-blue-50 rounded-r-full transition-colors"
@@ -729,23 +763,19 @@ export default function ShopDetailScreen() {
                                   </svg>
                                 </button>
                               </div>
+                            ) : item.available_quantity === 0 ? (
+                              <span className="absolute bottom-2 right-2 px-3 py-1.5 bg-gray-900/80 text-white text-xs font-semibold rounded-full z-10">
+                                Sold out
+                              </span>
                             ) : (
                               <button
+                                disabled={isAtStockLimit(item)}
                                 onClick={(e) => {
                                   e.stopPropagation();
-                                  if (actualShopId) {
-                                    addItem({
-                                      id: item.id,
-                                      shopId: actualShopId,
-                                      shopName: shop.name,
-                                      name: item.name,
-                                      description: item.description || undefined,
-                                      image_url: item.image_url || undefined,
-                                      price_cents: item.price_cents,
-                                    });
-                                  }
+                                  if (isAtStockLimit(item)) return;
+                                  addItemToCart(item);
                                 }}
-                                className="absolute bottom-2 right-2 w-10 h-10 bg-blue-600 text-white rounded-full flex items-center justify-center shadow-lg hover:bg-blue-700 transition-all duration-200 hover:scale-110 z-10"
+                                className="absolute bottom-2 right-2 w-10 h-10 bg-blue-600 text-white rounded-full flex items-center justify-center shadow-lg hover:bg-blue-700 transition-all duration-200 hover:scale-110 z-10 disabled:opacity-40 disabled:cursor-not-allowed"
                                 title="Add to cart"
                               >
                                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -760,9 +790,45 @@ export default function ShopDetailScreen() {
                             <h3 className="font-semibold text-gray-900 mb-2 line-clamp-2 text-sm sm:text-base leading-tight">{item.name}</h3>
                             <div className="mt-2">
                               <span className="text-base sm:text-lg font-bold text-blue-600">
-                                Rs {(item.price_cents / 100).toFixed(0)}
+                                Rs {((getSelectedVariant(item)?.price_cents ?? item.price_cents) / 100).toFixed(0)}
                               </span>
+                              {isWeightedUnit(item.unit_type) && (
+                                <span className="text-xs sm:text-sm text-gray-500"> / {UNIT_LABELS[item.unit_type]}</span>
+                              )}
                             </div>
+                            {item.variants.length > 0 && (
+                              <div className="mt-2">
+                                {item.variant_label && (
+                                  <p className="text-xs text-gray-500 mb-1">{item.variant_label}</p>
+                                )}
+                                <div className="flex flex-wrap gap-1.5">
+                                  {item.variants.map((variant) => {
+                                    const isSelected = getSelectedVariant(item)?.id === variant.id;
+                                    return (
+                                      <button
+                                        key={variant.id}
+                                        onClick={(e) => {
+                                          e.stopPropagation();
+                                          setSelectedVariantIds((prev) => ({ ...prev, [item.id]: variant.id }));
+                                        }}
+                                        className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-colors ${
+                                          isSelected
+                                            ? 'bg-blue-600 text-white border-blue-600'
+                                            : 'bg-white text-gray-700 border-gray-300 hover:border-blue-400'
+                                        }`}
+                                      >
+                                        {variant.name}
+                                      </button>
+                                    );
+                                  })}
+                                </div>
+                              </div>
+                            )}
+                            {item.available_quantity === 0 ? (
+                              <p className="mt-1 text-xs font-medium text-red-600">Sold out</p>
+                            ) : item.available_quantity != null && item.available_quantity <= LOW_STOCK_DISPLAY_THRESHOLD ? (
+                              <p className="mt-1 text-xs font-medium text-orange-600">Only {formatQuantity(item.available_quantity, item.unit_type)} left</p>
+                            ) : null}
                           </div>
                         </div>
                       ))}
@@ -15,6 +15,7 @@ import DeliveryRunnersPage from '../../components/spa/DeliveryRunnersPage';
 import DeliveryLogicPage from '../../components/spa/DeliveryLogicPage';
 import DistanceTieringPage from '../../components/spa/DistanceTieringPage';
 import HelpCenterPage from '../../components/spa/HelpCenterPage';
+import SettlementsPage from '../../components/spa/SettlementsPage';
 import LanguageSelectionModal from '../../components/spa/LanguageSelectionModal';
 import ContactInfoModal from '../../components/spa/ContactInfoModal';
 // Using SPALayout (not SPMLayout)
@@ -314,6 +315,17 @@ export default function MerchantDashboard() {
             hideTabs={true}
           />
         );
+      case 'settlements':
+        const settlementsShop = selectedShop || (shops.length > 0 ? shops[0] : null);
+        return settlementsShop ? (
+          <SettlementsPage shopId={settlementsShop.id} shopName={settlementsShop.name} />
+        ) : (
+          <div className="p-6">
+            <div className="bg-white rounded-lg shadow p-8 text-center">
+              <p className="text-gray-600 text-lg">No shops available. Create a shop to get started.</p>
+            </div>
+          </div>
+        );
       case 'help-center':
         return <HelpCenterPage />;
       default:
@@ -336,6 +348,7 @@ export default function MerchantDashboard() {
         activeSidebarItem === 'orders' ? 'Orders' :
         activeSidebarItem === 'analytics' ? 'Analytics' :
         activeSidebarItem === 'delivery' || activeSidebarItem === 'delivery-areas' || activeSidebarItem === 'delivery-runners' || activeSidebarItem === 'delivery-logic' || activeSidebarItem === 'distance-tiering' ? 'Delivery' :
+        activeSidebarItem === 'settlements' ? 'Settlements' :
         activeSidebarItem === 'help-center' ? 'Help Center' :
         'Shops'
       }
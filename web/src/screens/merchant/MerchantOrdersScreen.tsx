@@ -4,16 +4,23 @@ import { supabase } from '../../../../src/services/supabase';
 import { getShopOrders, subscribeToShopOrders } from '../../../../src/services/merchant/orderService';
 import type { OrderStatus, OrderWithAll } from '../../../../src/types/orders';
 import { loogin } from '../../../../src/lib/loogin';
+import { formatQuantity } from '../../../../src/utils/quantity';
+import { describeOrderEditChange, getLatestOrderEdit } from '../../../../src/utils/orderEdits';
+import { isTerminalOrderStatus } from '../../../../src/utils/orderStatus';
 import LoadingSpinner from '../../components/LoadingSpinner';
 
 const log = loogin.scope('web/merchant-orders-screen');
 
+const DEFAULT_SCHEDULED_LEAD_MINUTES = 60;
+
 export default function MerchantOrdersScreen() {
   const { user } = useAuth();
   const [orders, setOrders] = useState<OrderWithAll[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [watchedShopIds, setWatchedShopIds] = useState<string[]>([]);
+  const [leadMinutesByShop, setLeadMinutesByShop] = useState<Record<string, number>>({});
+  const [now, setNow] = useState(() => Date.now());
 
   const loadOrders = useCallback(async () => {
     if (!user) {
@@ -57,6 +64,25 @@ export default function MerchantOrdersScreen() {
         name: (shop as any).name,
       }));
 
+      // Scheduled orders surface this many minutes before their slot, per shop
+      const { data: deliveryLogic, error: deliveryLogicError } = await supabase
+        .from('shop_delivery_logic')
+        .select('shop_id, scheduled_lead_minutes')
+        .in('shop_id', typedShops.map((shop) => shop.id));
+
+      if (deliveryLogicError) {
+        log.warn('Failed to fetch scheduled lead times', { error: deliveryLogicError });
+      }
+
+      setLeadMinutesByShop(
+        Object.fromEntries(
+          (deliveryLogic ?? []).map((row: any) => [
+            row.shop_id,
+            Number(row.scheduled_lead_minutes ?? DEFAULT_SCHEDULED_LEAD_MINUTES),
+          ])
+        )
+      );
+
       const ordersByShop = await Promise.all(
         typedShops.map(async (shop: { id: string; name: string }) => {
           try {
@@ -122,12 +148,41 @@ export default function MerchantOrdersScreen() {
     };
   }, [user, subscriptionsKey, loadOrders, watchedShopIds]);
 
+  // Re-evaluate which scheduled orders are due every minute
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Scheduled orders wait in their own lane until the shop's lead time before the slot
+  const { scheduledOrders, activeOrders } = useMemo(() => {
+    const surfacesAt = (order: OrderWithAll) => {
+      const leadMinutes = leadMinutesByShop[order.shop_id] ?? DEFAULT_SCHEDULED_LEAD_MINUTES;
+      return new Date(order.scheduled_for ?? '').getTime() - leadMinutes * 60 * 1000;
+    };
+    const isWaiting = (order: OrderWithAll) =>
+      Boolean(order.scheduled_for) &&
+      !isTerminalOrderStatus(order.status) &&
+      surfacesAt(order) > now;
+
+    return {
+      scheduledOrders: orders
+        .filter(isWaiting)
+        .sort((a, b) => new Date(a.scheduled_for ?? '').getTime() - new Date(b.scheduled_for ?? '').getTime()),
+      activeOrders: orders.filter((order) => !isWaiting(order)),
+    };
+  }, [orders, leadMinutesByShop, now]);
+
   const statusStyles: Record<OrderStatus, string> = {
     pending: 'bg-yellow-100 text-yellow-800',
     confirmed: 'bg-blue-100 text-blue-800',
+    preparing: 'bg-sky-100 text-sky-800',
+    ready: 'bg-cyan-100 text-cyan-800',
+    ready_for_pickup: 'bg-teal-100 text-teal-800',
     out_for_delivery: 'bg-indigo-100 text-indigo-800',
     delivered: 'bg-green-100 text-green-800',
     cancelled: 'bg-red-100 text-red-800',
+    rejected: 'bg-rose-100 text-rose-800',
   };
 
   const getStatusColor = (status: string) => {
@@ -200,79 +255,142 @@ export default function MerchantOrdersScreen() {
           </div>
         ) : (
           <div className="space-y-4">
-            {orders.map((order) => (
-              <div
-                key={order.id}
-                className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100 hover:shadow-md transition-all duration-200"
-              >
-                <div className="flex flex-row items-start justify-between mb-4">
-                  <div className="flex-1">
-                    <p className="text-sm text-gray-500 mb-1">
-                      Order #{(order.order_number || order.id.slice(0, 8)).toUpperCase()}
-                    </p>
-                    {order.shop?.name && (
-                      <p className="text-lg font-semibold text-gray-900">{order.shop?.name}</p>
-                    )}
-                    {order.order_items?.length ? (
-                      <p className="text-xs text-gray-500 mt-1">
-                        {order.order_items.length}{' '}
-                        item{order.order_items.length === 1 ? '' : 's'}
-                      </p>
-                    ) : null}
-                  </div>
-                  <span
-                    className={`px-4 py-1.5 rounded-full text-xs font-semibold ${getStatusColor(order.status)}`}
-                  >
-                    {formatStatus(order.status)}
+            {scheduledOrders.length > 0 && (
+              <div className="bg-indigo-50 border border-indigo-100 rounded-2xl p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-lg font-semibold text-indigo-900">Scheduled</h2>
+                  <span className="text-xs font-medium text-indigo-700">
+                    {scheduledOrders.length} upcoming order{scheduledOrders.length === 1 ? '' : 's'}
                   </span>
                 </div>
-
-                <div className="flex flex-row items-center justify-between pt-4 border-t border-gray-100">
-                  <div>
-                    <p className="text-xs text-gray-500 mb-1">Total Amount</p>
-                    <p className="text-xl font-bold text-gray-900">
-                      Rs {Math.round(order.total_cents / 100).toLocaleString()}
-                    </p>
-                  </div>
-                  <div className="text-right">
-                    <p className="text-xs text-gray-500 mb-1">Date</p>
-                    <p className="text-sm font-medium text-gray-700">
-                      {formatDate(order.placed_at ?? order.created_at)}
-                    </p>
-                  </div>
+                <div className="space-y-2">
+                  {scheduledOrders.map((order) => (
+                    <div
+                      key={order.id}
+                      className="flex flex-row items-center justify-between bg-white rounded-xl px-4 py-3 border border-indigo-100"
+                    >
+                      <div>
+                        <p className="text-sm font-semibold text-gray-900">
+                          #{(order.order_number || order.id.slice(0, 8)).toUpperCase()}
+                          {order.shop?.name && <span className="font-normal text-gray-500"> · {order.shop.name}</span>}
+                        </p>
+                        <p className="text-xs text-indigo-700">Deliver from {formatDate(order.scheduled_for)}</p>
+                      </div>
+                      <div className="text-right">
+                        <p className="text-sm font-bold text-gray-900">
+                          Rs {Math.round(order.total_cents / 100).toLocaleString()}
+                        </p>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${getStatusColor(order.status)}`}>
+                          {formatStatus(order.status)}
+                        </span>
+                      </div>
+                    </div>
+                  ))}
                 </div>
+              </div>
+            )}
 
-                {order.order_items && order.order_items.length > 0 && (
-                  <div className="mt-4 border-t border-gray-100 pt-4">
-                    <p className="text-xs font-semibold uppercase tracking-wide text-gray-400 mb-3">
-                      Items
-                    </p>
-                    <div className="space-y-2">
-                      {order.order_items.slice(0, 3).map((item) => (
-                        <div
-                          key={item.id}
-                          className="flex items-center justify-between text-sm text-gray-700"
-                        >
-                          <span className="truncate">
-                            {item.item_name}
-                            <span className="ml-2 text-gray-400">×{item.quantity}</span>
-                          </span>
-                          <span className="font-semibold text-gray-900">
-                            Rs {Math.round(item.subtotal_cents / 100).toLocaleString()}
-                          </span>
-                        </div>
-                      ))}
-                      {order.order_items.length > 3 && (
-                        <p className="text-xs text-gray-400">
-                          +{order.order_items.length - 3} more item
-                          {order.order_items.length - 3 === 1 ? '' : 's'}
+            {activeOrders.map((order) => {
+              const latestEdit = order.status === 'pending' ? getLatestOrderEdit(order.order_edits) : null;
+              return (
+                <div
+                  key={order.id}
+                  className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100 hover:shadow-md transition-all duration-200"
+                >
+                  <div className="flex flex-row items-start justify-between mb-4">
+                    <div className="flex-1">
+                      <p className="text-sm text-gray-500 mb-1">
+                        Order #{(order.order_number || order.id.slice(0, 8)).toUpperCase()}
+                      </p>
+                      {order.shop?.name && (
+                        <p className="text-lg font-semibold text-gray-900">{order.shop?.name}</p>
+                      )}
+                      {order.scheduled_for && (
+                        <p className="text-xs font-medium text-indigo-700 mt-1">
+                          Scheduled for {formatDate(order.scheduled_for)}
                         </p>
                       )}
+                      {order.subscription_id && (
+                        <p className="text-xs font-medium text-green-700 mt-1">Subscription order</p>
+                      )}
+                      {order.order_items?.length ? (
+                        <p className="text-xs text-gray-500 mt-1">
+                          {order.order_items.length}{' '}
+                          item{order.order_items.length === 1 ? '' : 's'}
+                        </p>
+                      ) : null}
                     </div>
+                    <span
+                      className={`px-4 py-1.5 rounded-full text-xs font-semibold ${getStatusColor(order.status)}`}
+                    >
+                      {formatStatus(order.status)}
+                    </span>
                   </div>
-                )}
-              </div>
-            ))}
+
+                  {latestEdit && (
+                    <div className="mb-4 px-4 py-3 bg-amber-50 border border-amber-200 rounded-xl">
+                      <p className="text-sm font-semibold text-amber-800">
+                        Edited by customer at {formatDate(latestEdit.created_at)}
+                      </p>
+                      <ul className="mt-1 text-xs text-amber-700 space-y-0.5">
+                        {latestEdit.changes.map((change, index) => (
+                          <li key={index}>{describeOrderEditChange(change)}</li>
+                        ))}
+                      </ul>
+                      <p className="mt-1 text-xs text-amber-700">
+                        Total Rs {Math.round(latestEdit.previous_total_cents / 100).toLocaleString()} → Rs{' '}
+                        {Math.round(latestEdit.new_total_cents / 100).toLocaleString()}
+                      </p>
+                    </div>
+                  )}
+
+                  <div className="flex flex-row items-center justify-between pt-4 border-t border-gray-100">
+                    <div>
+                      <p className="text-xs text-gray-500 mb-1">Total Amount</p>
+                      <p className="text-xl font-bold text-gray-900">
+                        Rs {Math.round(order.total_cents / 100).toLocaleString()}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className="text-xs text-gray-500 mb-1">Date</p>
+                      <p className="text-sm font-medium text-gray-700">
+                        {formatDate(order.placed_at ?? order.created_at)}
+                      </p>
+                    </div>
+                  </div>
+
+                  {order.order_items && order.order_items.length > 0 && (
+                    <div className="mt-4 border-t border-gray-100 pt-4">
+                      <p className="text-xs font-semibold uppercase tracking-wide text-gray-400 mb-3">
+                        Items
+                      </p>
+                      <div className="space-y-2">
+                        {order.order_items.slice(0, 3).map((item) => (
+                          <div
+                            key={item.id}
+                            className="flex items-center justify-between text-sm text-gray-700"
+                          >
+                            <span className="truncate">
+                              {item.item_name}
+                              <span className="ml-2 text-gray-400">×{formatQuantity(item.quantity, item.unit_type)}</span>
+                            </span>
+                            <span className="font-semibold text-gray-900">
+                              Rs {Math.round(item.subtotal_cents / 100).toLocaleString()}
+                            </span>
+                          </div>
+                        ))}
+                        {order.order_items.length > 3 && (
+                          <p className="text-xs text-gray-400">
+                            +{order.order_items.length - 3} more item
+                            {order.order_items.length - 3 === 1 ? '' : 's'}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
           </div>
         )}
       </div>
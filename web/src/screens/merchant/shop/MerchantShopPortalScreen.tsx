@@ -10,10 +10,32 @@ import { useShopAnalytics } from '../../../../../src/hooks/merchant/useAnalytics
 import { useShopOrders } from '../../../../../src/hooks/merchant/useShopOrders';
 import { useInventoryItems } from '../../../../../src/hooks/merchant/useInventoryItems';
 import { useQuery, useQueryClient } from 'react-query';
-import { getOrderById, confirmOrder, markOrderDelivered, cancelOrder, getDeliveryRunnersWithStatus, assignRunnerAndDispatch } from '../../../../../src/services/merchant/orderService';
-import type { OrderWithAll } from '../../../../../src/types/orders';
+import {
+  getOrderById,
+  confirmOrder,
+  markOrderDelivered,
+  cancelOrder,
+  getDeliveryRunnersWithStatus,
+  assignRunnerAndDispatch,
+  setOrderConfirmationStarted,
+  markOrderReadyForPickup,
+  verifyPickupCode,
+  markOrderPreparing,
+  markOrderReady,
+  rejectOrder,
+} from '../../../../../src/services/merchant/orderService';
+import type { OrderLineChange, OrderWithAll, RejectionReasonCode } from '../../../../../src/types/orders';
 import { useAuth } from '../../../../../src/context/AuthContext';
 import { useMerchantAccount } from '../../../../../src/hooks/merchant/useMerchantAccount';
+import { useOrderPaymentIssue } from '../../../../../src/hooks/merchant/useOrderPaymentIssue';
+import { formatQuantity } from '../../../../../src/utils/quantity';
+import { describeOrderEditChange, getLatestOrderEdit } from '../../../../../src/utils/orderEdits';
+import { describeOrderRejection, getNextOrderStatuses, isTerminalOrderStatus, PAYMENT_STATUS_LABELS, REJECTION_REASON_LABELS } from '../../../../../src/utils/orderStatus';
+import OrderWeightAdjustment from '../../../components/merchant/OrderWeightAdjustment';
+import OrderLineFulfilment from '../../../components/merchant/OrderLineFulfilment';
+import DeliverySlotsSection from '../../../components/merchant/DeliverySlotsSection';
+import SubscriptionVolumeCard from '../../../components/merchant/SubscriptionVolumeCard';
+import ReturnRequestsSection from '../../../components/merchant/ReturnRequestsSection';
 
 const TABS = [
   { key: 'dashboard', label: 'Dashboard' },
@@ -45,6 +67,8 @@ function DeliveryLogicSection({ shopId }: { shopId: string }) {
         beyondTierDistanceUnit: deliveryLogic.beyondTierDistanceUnit,
         freeDeliveryThreshold: deliveryLogic.freeDeliveryThreshold,
         freeDeliveryRadius: deliveryLogic.freeDeliveryRadius,
+        scheduledLeadMinutes: deliveryLogic.scheduledLeadMinutes,
+        pickupEnabled: deliveryLogic.pickupEnabled,
       });
     }
   }, [deliveryLogic]);
@@ -274,6 +298,47 @@ function DeliveryLogicSection({ shopId }: { shopId: string }) {
                 <p className="text-xs text-gray-500">*Both conditions must be met: Order value ≥ Threshold AND Distance ≤ Radius.</p>
               </div>
 
+              {/* Scheduled Orders */}
+              <div className="space-y-4 pt-4 border-t border-gray-200">
+                <h4 className="text-sm font-semibold text-gray-700 uppercase tracking-wide">Scheduled Orders</h4>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Lead Time (minutes)
+                    </label>
+                    <input
+                      type="number"
+                      step="5"
+                      min="0"
+                      value={logicForm.scheduledLeadMinutes ?? deliveryLogic?.scheduledLeadMinutes ?? 60}
+                      onChange={(e) => setLogicForm({ ...logicForm, scheduledLeadMinutes: parseInt(e.target.value, 10) || 0 })}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                      placeholder="60"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">Scheduled orders move to your active orders this long before their slot.</p>
+                  </div>
+                </div>
+              </div>
+
+              {/* Customer Pickup */}
+              <div className="space-y-4 pt-4 border-t border-gray-200">
+                <h4 className="text-sm font-semibold text-gray-700 uppercase tracking-wide">Customer Pickup</h4>
+                <label className="flex items-start gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={logicForm.pickupEnabled ?? deliveryLogic?.pickupEnabled ?? false}
+                    onChange={(e) => setLogicForm({ ...logicForm, pickupEnabled: e.target.checked })}
+                    className="mt-1 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-gray-700">Let customers collect orders from the shop</span>
+                    <span className="block text-xs text-gray-500 mt-1">
+                      Pickup orders pay no delivery fee. Customers show a pickup code, which you verify in the order before handing it over.
+                    </span>
+                  </span>
+                </label>
+              </div>
+
               {/* Save Button */}
               <button
                 onClick={async () => {
@@ -300,6 +365,7 @@ interface Order {
   id: string;
   consumer_id: string;
   status: string;
+  fulfilment_type?: string;
   total_cents?: number;
   total_amount?: number; // Legacy field for backward compatibility
   created_at: string;
@@ -375,7 +441,7 @@ export default function MerchantShopPortalScreen({
       .reduce((sum: number, o: any) => {
         // Use total_cents if available, otherwise fallback to total_amount (in rupees, convert to cents)
         const totalCents = o.total_cents || (o.total_amount ? o.total_amount * 100 : 0);
-        return sum + (Number(totalCents) || 0);
+        return sum + (Number(totalCents) || 0) - (Number(o.refunded_cents) || 0);
       }, 0) / 100; // Convert cents to rupees
     const activeItems = inventoryData?.items?.filter((i: any) => i.isActive !== false).length || 0;
     
@@ -417,7 +483,7 @@ export default function MerchantShopPortalScreen({
   // Auto-close modal when order reaches terminal state (delivered/cancelled)
   useEffect(() => {
     if (showUpdateStatus && selectedOrder) {
-      if (selectedOrder.status === 'delivered' || selectedOrder.status === 'cancelled') {
+      if (isTerminalOrderStatus(selectedOrder.status)) {
         console.log('🔄 MerchantShopPortalScreen: Order reached terminal state, auto-closing modal:', selectedOrder.status);
         setShowUpdateStatus(false);
         setSelectedOrder(null);
@@ -443,6 +509,7 @@ export default function MerchantShopPortalScreen({
       case 'pending':
         return 'bg-yellow-100 text-yellow-800';
       case 'cancelled':
+      case 'rejected':
         return 'bg-red-100 text-red-800';
       default:
         return 'bg-gray-100 text-gray-800';
@@ -589,6 +656,8 @@ export default function MerchantShopPortalScreen({
                   </div>
                 )}
               </div>
+
+              <SubscriptionVolumeCard shopId={shop?.id || ''} />
             </div>
           )}
 
@@ -700,6 +769,9 @@ export default function MerchantShopPortalScreen({
                             Rs {Math.round(((order.total_cents || order.total_amount || 0) / 100)).toLocaleString()}
                           </p>
                           <p className="text-sm text-gray-500 mt-1">{formatDate(order.created_at)}</p>
+                          {order.fulfilment_type === 'pickup' && (
+                            <p className="text-xs font-medium text-teal-700 mt-1">Customer pickup</p>
+                          )}
                         </div>
                         <span className={`px-4 py-1.5 rounded-full text-xs font-semibold ${getStatusColor(order.status)}`}>
                           {order.status}
@@ -732,7 +804,7 @@ export default function MerchantShopPortalScreen({
                         >
                           View Details
                         </button>
-                        {(order.status === 'pending' || order.status === 'confirmed' || order.status === 'out_for_delivery') && (
+                        {getNextOrderStatuses(order.status).length > 0 && (
                           <button
                             onClick={async (e) => {
                               e.preventDefault();
@@ -760,7 +832,7 @@ export default function MerchantShopPortalScreen({
                                 
                                 // Prefetch runners immediately when button is clicked (before modal opens)
                                 // This ensures runners are ready instantly when modal opens
-                                if ((order.status === 'pending' || order.status === 'confirmed') && shop.id) {
+                                if (!isTerminalOrderStatus(order.status) && order.status !== 'out_for_delivery' && order.fulfilment_type !== 'pickup' && shop.id) {
                                   console.log('⚡ Prefetching runners before opening modal...');
                                   queryClient.prefetchQuery(
                                     ['delivery-runners', shop.id],
@@ -769,6 +841,7 @@ export default function MerchantShopPortalScreen({
                                         .from('delivery_runners')
                                         .select('id, shop_id, name, phone_number, created_at, updated_at')
                                         .eq('shop_id', shop.id)
+                                        .is('archived_at', null)
                                         .limit(30);
                                       
                                       const timeoutPromise = new Promise<{ data: any[]; error: null }>((resolve) => {
@@ -824,6 +897,8 @@ export default function MerchantShopPortalScreen({
                   ))}
                 </div>
               )}
+
+              <ReturnRequestsSection shopId={shop?.id || ''} />
             </div>
           )}
 
@@ -847,6 +922,8 @@ export default function MerchantShopPortalScreen({
               </div>
               
               <DeliveryLogicSection shopId={shop?.id || ''} />
+
+              <DeliverySlotsSection shopId={shop?.id || ''} />
             </div>
           )}
 
@@ -924,7 +1001,7 @@ export default function MerchantShopPortalScreen({
 
       {/* Update Status Modal */}
       {showUpdateStatus && selectedOrder ? (
-        selectedOrder.status !== 'delivered' && selectedOrder.status !== 'cancelled' ? (
+        !isTerminalOrderStatus(selectedOrder.status) ? (
             <UpdateStatusModal
               order={selectedOrder}
               shopId={shop?.id || ''}
@@ -967,6 +1044,12 @@ export default function MerchantShopPortalScreen({
 
 // Order Details Modal Component
 function OrderDetailsModal({ order, onClose }: { order: OrderWithAll; onClose: () => void }) {
+  // A capture or void only fails while the intent is still open
+  const { data: paymentIssue } = useOrderPaymentIssue(
+    order.id,
+    order.payment_status === 'pending' || order.payment_status === 'authorized'
+  );
+
   const formatDate = (dateString?: string | null) => {
     if (!dateString) return '--';
     const date = new Date(dateString);
@@ -996,10 +1079,18 @@ function OrderDetailsModal({ order, onClose }: { order: OrderWithAll; onClose: (
         return 'bg-yellow-100 text-yellow-800';
       case 'confirmed':
         return 'bg-blue-100 text-blue-800';
+      case 'preparing':
+        return 'bg-sky-100 text-sky-800';
+      case 'ready':
+        return 'bg-cyan-100 text-cyan-800';
+      case 'ready_for_pickup':
+        return 'bg-teal-100 text-teal-800';
       case 'out_for_delivery':
         return 'bg-indigo-100 text-indigo-800';
       case 'cancelled':
         return 'bg-red-100 text-red-800';
+      case 'rejected':
+        return 'bg-rose-100 text-rose-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -1042,12 +1133,26 @@ function OrderDetailsModal({ order, onClose }: { order: OrderWithAll; onClose: (
                 {order.order_items.map((item) => (
                   <div key={item.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
                     <div>
-                      <p className="font-medium text-gray-900">{item.item_name}</p>
-                      <p className="text-sm text-gray-500">Quantity: {item.quantity}</p>
+                      <p className="font-medium text-gray-900">
+                        {item.item_name}
+                        {item.variant_name && <span className="text-gray-500 font-normal"> · {item.variant_name}</span>}
+                      </p>
+                      <p className="text-sm text-gray-500">
+                        Quantity: {formatQuantity(item.quantity, item.unit_type)}
+                        {item.substitute_for_id && ' · Substitute'}
+                        {item.substitution_preference === 'call_me' && !item.substitute_for_id && ' · Call before substituting'}
+                        {item.substitution_preference === 'remove' && !item.substitute_for_id && ' · Remove if unavailable'}
+                      </p>
                     </div>
-                    <p className="font-semibold text-gray-900">
-                      Rs {Math.round((item.subtotal_cents || 0) / 100).toLocaleString()}
-                    </p>
+                    {item.fulfilment_status === 'unavailable' || item.fulfilment_status === 'substituted' ? (
+                      <p className="text-sm font-medium text-gray-500">
+                        {item.fulfilment_status === 'unavailable' ? 'Unavailable' : 'Replaced'}
+                      </p>
+                    ) : (
+                      <p className="font-semibold text-gray-900">
+                        Rs {Math.round((item.subtotal_cents || 0) / 100).toLocaleString()}
+                      </p>
+                    )}
                   </div>
                 ))}
               </div>
@@ -1078,6 +1183,12 @@ function OrderDetailsModal({ order, onClose }: { order: OrderWithAll; onClose: (
                 <span>Total</span>
                 <span>Rs {Math.round((order.total_cents || 0) / 100).toLocaleString()}</span>
               </div>
+              {(order.refunded_cents ?? 0) > 0 && (
+                <div className="flex justify-between text-sm text-green-700">
+                  <span>Refunded</span>
+                  <span>− Rs {Math.round((order.refunded_cents ?? 0) / 100).toLocaleString()}</span>
+                </div>
+              )}
             </div>
           </div>
 
@@ -1085,32 +1196,85 @@ function OrderDetailsModal({ order, onClose }: { order: OrderWithAll; onClose: (
           <div className="border-t border-gray-200 pt-4">
             <h3 className="text-lg font-semibold text-gray-900 mb-3">Order Information</h3>
             <div className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Fulfilment</span>
+                <span className="font-medium text-gray-900">{order.fulfilment_type === 'pickup' ? 'Customer pickup' : 'Delivery'}</span>
+              </div>
               <div className="flex justify-between">
                 <span className="text-gray-600">Payment Method</span>
                 <span className="font-medium text-gray-900 capitalize">{order.payment_method || '--'}</span>
               </div>
+              {order.payment_status && order.payment_status !== 'not_required' && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Payment</span>
+                  <span className="font-medium text-gray-900">{PAYMENT_STATUS_LABELS[order.payment_status]}</span>
+                </div>
+              )}
+              {paymentIssue && (
+                <p className="text-xs text-red-600">
+                  {paymentIssue.action === 'capture' ? 'Charging the card' : 'Releasing the card hold'} failed
+                  {paymentIssue.message ? `: ${paymentIssue.message}` : ''}
+                  {paymentIssue.status === 'failed' ? '. Contact support to settle it.' : '. Retrying automatically.'}
+                </p>
+              )}
               <div className="flex justify-between">
                 <span className="text-gray-600">Placed At</span>
                 <span className="font-medium text-gray-900">{formatDate(order.placed_at || order.created_at)}</span>
               </div>
+              {order.scheduled_for && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Scheduled For</span>
+                  <span className="font-medium text-indigo-700">{formatDate(order.scheduled_for)}</span>
+                </div>
+              )}
               {order.confirmed_at && (
                 <div className="flex justify-between">
                   <span className="text-gray-600">Confirmed At</span>
                   <span className="font-medium text-gray-900">{formatDate(order.confirmed_at)}</span>
                 </div>
               )}
+              {order.preparing_at && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Preparing Since</span>
+                  <span className="font-medium text-gray-900">{formatDate(order.preparing_at)}</span>
+                </div>
+              )}
+              {order.ready_at && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Ready At</span>
+                  <span className="font-medium text-gray-900">{formatDate(order.ready_at)}</span>
+                </div>
+              )}
               {order.out_for_delivery_at && (
                 <div className="flex justify-between">
                   <span className="text-gray-600">Out for Delivery At</span>
                   <span className="font-medium text-gray-900">{formatDate(order.out_for_delivery_at)}</span>
                 </div>
               )}
+              {order.ready_for_pickup_at && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Ready for Pickup At</span>
+                  <span className="font-medium text-gray-900">{formatDate(order.ready_for_pickup_at)}</span>
+                </div>
+              )}
               {order.delivered_at && (
                 <div className="flex justify-between">
-                  <span className="text-gray-600">Delivered At</span>
+                  <span className="text-gray-600">{order.fulfilment_type === 'pickup' ? 'Collected At' : 'Delivered At'}</span>
                   <span className="font-medium text-gray-900">{formatDate(order.delivered_at)}</span>
                 </div>
               )}
+              {order.rejected_at && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Rejected At</span>
+                  <span className="font-medium text-gray-900">{formatDate(order.rejected_at)}</span>
+                </div>
+              )}
+              {order.rejection_reason_code && (
+                <div className="flex justify-between gap-4">
+                  <span className="text-gray-600">Rejection Reason</span>
+                  <span className="font-medium text-gray-900 text-right">{describeOrderRejection(order)}</span>
+                </div>
+              )}
               {order.special_instructions && (
                 <div className="pt-2">
                   <span className="text-gray-600 block mb-1">Special Instructions</span>
@@ -1121,7 +1285,7 @@ function OrderDetailsModal({ order, onClose }: { order: OrderWithAll; onClose: (
           </div>
 
           {/* Delivery Address */}
-          {order.delivery_address && (
+          {order.delivery_address && order.fulfilment_type !== 'pickup' && (
             <div className="border-t border-gray-200 pt-4">
               <h3 className="text-lg font-semibold text-gray-900 mb-3">Delivery Address</h3>
               <div className="text-sm text-gray-700">
@@ -1178,6 +1342,15 @@ function UpdateStatusModal({
   const [showCancelForm, setShowCancelForm] = useState(false);
   const [loadingRunners, setLoadingRunners] = useState(false);
   const [runnersError, setRunnersError] = useState<string | null>(null);
+  const [lineChanges, setLineChanges] = useState<OrderLineChange[]>([]);
+  const [confirmError, setConfirmError] = useState<string | null>(null);
+  const [pickupCode, setPickupCode] = useState('');
+  const [pickupError, setPickupError] = useState<string | null>(null);
+  const [showRejectForm, setShowRejectForm] = useState(false);
+  const [rejectReason, setRejectReason] = useState<RejectionReasonCode | ''>('');
+  const [rejectNote, setRejectNote] = useState('');
+  const [rejectError, setRejectError] = useState<string | null>(null);
+  const isPickup = order.fulfilment_type === 'pickup';
   // Removed waitForStatusConfirmation polling - WebSocket will handle real-time updates
   // WebSocket subscription in useShopOrders will update cache automatically
   // No need for polling confirmation - trust WebSocket!
@@ -1191,8 +1364,31 @@ function UpdateStatusModal({
     setCancelReason('');
     setShowCancelForm(false);
     setRunnersError(null);
+    setLineChanges([]);
+    setConfirmError(null);
+    setPickupCode('');
+    setPickupError(null);
+    setShowRejectForm(false);
+    setRejectReason('');
+    setRejectNote('');
+    setRejectError(null);
     // Don't clear runners here - let the status-based effect handle it
   }, [order.id, order.status]);
+
+  // Opening a pending order locks it against customer edits until the modal closes
+  const isPending = order.status === 'pending';
+  // Card/wallet orders can only be confirmed once the customer's payment is authorized
+  const awaitingPayment = order.payment_status === 'pending' || order.payment_status === 'failed';
+  useEffect(() => {
+    if (!isPending || !isReady) return;
+    setOrderConfirmationStarted(order.id, true);
+    return () => {
+      // No-op once the order has been confirmed, rejected or cancelled
+      setOrderConfirmationStarted(order.id, false);
+    };
+  }, [order.id, isPending, isReady]);
+
+  const latestEdit = getLatestOrderEdit(order.order_edits);
   
   // Additional safety: Reset loading state when modal is opened/closed
   useEffect(() => {
@@ -1210,7 +1406,9 @@ function UpdateStatusModal({
 
   // Prefetch runners early - when order is pending or confirmed (not just confirmed)
   // This ensures runners are ready when modal opens for confirmed orders
-  const shouldPrefetchRunners = (order.status === 'pending' || order.status === 'confirmed') && !!shopId;
+  // Pickup orders never need a runner
+  const awaitingDispatch = order.status === 'confirmed' || order.status === 'preparing' || order.status === 'ready';
+  const shouldPrefetchRunners = (order.status === 'pending' || awaitingDispatch) && !isPickup && !!shopId;
   
   // Use React Query to share cache with DeliveryRunnersPage
   // React Query automatically uses cached data if available (same query key)
@@ -1226,6 +1424,7 @@ function UpdateStatusModal({
         .from('delivery_runners')
         .select('id, shop_id, name, phone_number, created_at, updated_at')
         .eq('shop_id', shopId)
+        .is('archived_at', null)
         .limit(30); // Smaller limit for faster response
 
       // Very short timeout - fail fast and use cache if available
@@ -1297,7 +1496,7 @@ function UpdateStatusModal({
     prevCachedRunnersRef.current = currentRunnersKey;
     prevStatusRef.current = currentStatus;
     
-    if (order.status === 'confirmed' && shopId) {
+    if (awaitingDispatch && !isPickup && shopId) {
       if (cachedRunners.length > 0) {
         // Runners available - use them immediately
         setRunners(cachedRunners);
@@ -1329,12 +1528,12 @@ function UpdateStatusModal({
         }
       }
     } else {
-      // Clear runners if order is not confirmed
+      // Clear runners until the order is confirmed
       setRunners([]);
       setRunnersError(null);
       setLoadingRunners(false);
     }
-  }, [cachedRunners, loadingRunnersQuery, order.status, shopId]);
+  }, [cachedRunners, loadingRunnersQuery, order.status, awaitingDispatch, isPickup, shopId]);
 
   const handleConfirm = async () => {
     if (loading) {
@@ -1347,15 +1546,22 @@ function UpdateStatusModal({
       return;
     }
     
+    if (lineChanges.some((change) => change.action === 'substitute' && (!change.substitute_item_id || !change.quantity))) {
+      setConfirmError('Choose a substitute and quantity for every substituted item.');
+      return;
+    }
+    
     console.log('🔵 UpdateStatusModal: handleConfirm called for order:', order.id);
     setLoading(true);
+    setConfirmError(null);
     
     try {
       // Database update - WebSocket will automatically update UI
-      const result = await confirmOrder(order.id);
+      const result = await confirmOrder(order.id, lineChanges);
       
       if (!result.success) {
         console.error('❌ UpdateStatusModal: Order confirmation failed:', result.message);
+        setConfirmError(result.message || 'Failed to confirm order');
         setLoading(false);
         return; // Keep modal open for retry
       }
@@ -1446,6 +1652,148 @@ function UpdateStatusModal({
     }
   };
 
+  const handleStatusStep = async (nextStatus: 'preparing' | 'ready') => {
+    if (loading) {
+      console.warn('UpdateStatusModal: Handler already in progress, ignoring duplicate call');
+      return;
+    }
+
+    if (!isReady) {
+      console.warn('UpdateStatusModal: auth/merchant not ready yet, ignoring status step click');
+      return;
+    }
+
+    console.log('🔵 UpdateStatusModal: handleStatusStep called for order:', order.id, 'next:', nextStatus);
+    setLoading(true);
+
+    try {
+      // Database update - WebSocket will automatically update UI
+      const result = nextStatus === 'preparing' ? await markOrderPreparing(order.id) : await markOrderReady(order.id);
+
+      if (!result.success) {
+        console.error('❌ UpdateStatusModal: Status step failed:', result.message);
+        setLoading(false);
+        return; // Keep modal open for retry
+      }
+
+      setLoading(false);
+      setTimeout(() => {
+        onClose(); // WebSocket will update the order status in real-time
+      }, 0);
+    } catch (error: any) {
+      console.error('❌ UpdateStatusModal: Error updating order status:', error);
+      setLoading(false);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!isReady) {
+      console.warn('UpdateStatusModal: auth/merchant not ready yet, ignoring reject click');
+      return;
+    }
+    if (!rejectReason) {
+      setRejectError('Choose a reason for rejecting the order.');
+      return;
+    }
+
+    console.log('🔵 UpdateStatusModal: handleReject called for order:', order.id, 'reason:', rejectReason);
+    setLoading(true);
+    setRejectError(null);
+
+    try {
+      const result = await rejectOrder(order.id, rejectReason, rejectNote);
+
+      if (!result.success) {
+        console.error('❌ UpdateStatusModal: Order rejection failed:', result.message);
+        setRejectError(result.message || 'Failed to reject order');
+        setLoading(false);
+        return; // Keep modal open for retry
+      }
+
+      try {
+        await onSuccess();
+      } catch (onSuccessError) {
+        console.error('❌ UpdateStatusModal: Error in onSuccess callback:', onSuccessError);
+      }
+      setLoading(false);
+      // Close modal for rejected status (terminal state)
+      onClose();
+    } catch (error: any) {
+      console.error('❌ UpdateStatusModal: Error rejecting order:', error);
+      setLoading(false);
+    }
+  };
+
+  const handleReadyForPickup = async () => {
+    if (loading) {
+      console.warn('UpdateStatusModal: Handler already in progress, ignoring duplicate call');
+      return;
+    }
+
+    if (!isReady) {
+      console.warn('UpdateStatusModal: auth/merchant not ready yet, ignoring ready-for-pickup click');
+      return;
+    }
+
+    console.log('🔵 UpdateStatusModal: handleReadyForPickup called for order:', order.id);
+    setLoading(true);
+
+    try {
+      // Database update - WebSocket will automatically update UI
+      const result = await markOrderReadyForPickup(order.id);
+
+      if (!result.success) {
+        console.error('❌ UpdateStatusModal: Mark ready for pickup failed:', result.message);
+        setLoading(false);
+        return; // Keep modal open for retry
+      }
+
+      setLoading(false);
+      setTimeout(() => {
+        onClose(); // WebSocket will update the order status in real-time
+      }, 0);
+    } catch (error: any) {
+      console.error('❌ UpdateStatusModal: Error marking order ready for pickup:', error);
+      setLoading(false);
+    }
+  };
+
+  const handleVerifyPickup = async () => {
+    if (loading) {
+      console.warn('UpdateStatusModal: Handler already in progress, ignoring duplicate call');
+      return;
+    }
+
+    if (!isReady) {
+      console.warn('UpdateStatusModal: auth/merchant not ready yet, ignoring pickup verification');
+      return;
+    }
+
+    console.log('🔵 UpdateStatusModal: handleVerifyPickup called for order:', order.id);
+    setLoading(true);
+    setPickupError(null);
+
+    try {
+      const result = await verifyPickupCode(order.id, pickupCode);
+
+      if (!result.success) {
+        console.error('❌ UpdateStatusModal: Pickup verification failed:', result.message);
+        setPickupError(result.message || 'Failed to verify pickup code');
+        setLoading(false);
+        return; // Keep modal open so the code can be re-entered
+      }
+
+      console.log('✅ UpdateStatusModal: Pickup verified, WebSocket will update UI');
+      setLoading(false);
+      setTimeout(() => {
+        onClose(); // WebSocket will update the order status in real-time
+      }, 0);
+    } catch (error: any) {
+      console.error('❌ UpdateStatusModal: Error verifying pickup code:', error);
+      setLoading(false);
+    }
+  };
+
   const handleCancel = async () => {
     if (!isReady) {
       console.warn('UpdateStatusModal: auth/merchant not ready yet, ignoring cancel click');
@@ -1497,7 +1845,7 @@ function UpdateStatusModal({
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-      <div className="bg-white rounded-2xl shadow-xl max-w-md w-full">
+      <div className="bg-white rounded-2xl shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
         <div className="border-b border-gray-200 px-6 py-4 flex items-center justify-between">
           <h2 className="text-2xl font-bold text-gray-900">Update Order Status</h2>
           <button
@@ -1523,26 +1871,99 @@ function UpdateStatusModal({
 
           {order.status === 'pending' && (
             <div className="space-y-3">
-              <p className="text-sm text-gray-600">Confirm this order to start preparation.</p>
+              {latestEdit && (
+                <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg">
+                  <p className="text-sm font-semibold text-amber-800">Edited by the customer</p>
+                  <ul className="mt-1 text-xs text-amber-700 space-y-0.5">
+                    {latestEdit.changes.map((change, index) => (
+                      <li key={index}>{describeOrderEditChange(change)}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              <OrderLineFulfilment
+                order={order}
+                changes={lineChanges}
+                onChange={setLineChanges}
+                disabled={loading || !isReady}
+              />
+              <p className="text-sm text-gray-600">
+                {awaitingPayment
+                  ? "Awaiting payment: the customer's card or wallet hasn't been authorized yet."
+                  : 'Confirm this order to start preparation.'}
+              </p>
+              {confirmError && <p className="text-sm text-red-600">{confirmError}</p>}
               <button
                 onClick={handleConfirm}
-                disabled={loading || !isReady}
+                disabled={loading || !isReady || awaitingPayment}
                 className="w-full px-4 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                {loading ? 'Confirming...' : !isReady ? 'Preparing account...' : 'Confirm Order'}
+                {loading
+                  ? 'Confirming...'
+                  : !isReady
+                  ? 'Preparing account...'
+                  : awaitingPayment
+                  ? 'Awaiting payment'
+                  : 'Confirm Order'}
               </button>
               <button
-                onClick={() => setShowCancelForm(true)}
+                onClick={() => setShowRejectForm(true)}
                 disabled={loading || !isReady}
                 className="w-full px-4 py-3 bg-red-600 text-white rounded-lg font-semibold hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                Cancel Order
+                Reject Order
+              </button>
+            </div>
+          )}
+
+          {(order.status === 'confirmed' || order.status === 'preparing') && isPickup && (
+            <div className="space-y-3">
+              <OrderWeightAdjustment order={order} disabled={loading || !isReady} />
+              <p className="text-sm text-gray-600">
+                The customer is collecting this order. Mark it ready once it is packed and waiting at the counter.
+              </p>
+              {order.status === 'confirmed' && (
+                <button
+                  onClick={() => handleStatusStep('preparing')}
+                  disabled={loading || !isReady}
+                  className="w-full px-4 py-3 bg-sky-600 text-white rounded-lg font-semibold hover:bg-sky-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {loading ? 'Updating...' : !isReady ? 'Preparing account...' : 'Start Preparing'}
+                </button>
+              )}
+              <button
+                onClick={handleReadyForPickup}
+                disabled={loading || !isReady}
+                className="w-full px-4 py-3 bg-teal-600 text-white rounded-lg font-semibold hover:bg-teal-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loading ? 'Updating...' : !isReady ? 'Preparing account...' : 'Mark Ready for Pickup'}
               </button>
             </div>
           )}
 
-          {order.status === 'confirmed' && (
+          {awaitingDispatch && !isPickup && (
             <div className="space-y-3">
+              {order.status !== 'ready' && <OrderWeightAdjustment order={order} disabled={loading || !isReady} />}
+              {order.status !== 'ready' && (
+                <div className="flex gap-2">
+                  {order.status === 'confirmed' && (
+                    <button
+                      onClick={() => handleStatusStep('preparing')}
+                      disabled={loading || !isReady}
+                      className="flex-1 px-4 py-3 bg-sky-600 text-white rounded-lg font-semibold hover:bg-sky-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {loading ? 'Updating...' : 'Start Preparing'}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleStatusStep('ready')}
+                    disabled={loading || !isReady}
+                    className="flex-1 px-4 py-3 bg-cyan-600 text-white rounded-lg font-semibold hover:bg-cyan-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {loading ? 'Updating...' : 'Mark Ready'}
+                  </button>
+                </div>
+              )}
               <p className="text-sm text-gray-600">Assign a delivery runner and mark as out for delivery.</p>
               {loadingRunners ? (
                 <div className="flex items-center justify-center py-4">
@@ -1613,6 +2034,45 @@ function UpdateStatusModal({
             </div>
           )}
 
+          {order.status === 'ready_for_pickup' && (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-600">
+                Ask the customer for the pickup code shown on their order screen, then hand the order over.
+              </p>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Pickup Code</label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  maxLength={4}
+                  value={pickupCode}
+                  onChange={(e) => {
+                    setPickupCode(e.target.value.replace(/\D/g, ''));
+                    setPickupError(null);
+                  }}
+                  placeholder="0000"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg text-center text-2xl font-mono tracking-widest focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+                />
+              </div>
+              {pickupError && <p className="text-sm text-red-600">{pickupError}</p>}
+              <button
+                onClick={handleVerifyPickup}
+                disabled={loading || pickupCode.length !== 4 || !isReady}
+                className="w-full px-4 py-3 bg-green-600 text-white rounded-lg font-semibold hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loading ? 'Verifying...' : !isReady ? 'Preparing account...' : 'Verify & Hand Over'}
+              </button>
+              <button
+                onClick={() => setShowCancelForm(true)}
+                disabled={loading || !isReady}
+                className="w-full px-4 py-3 bg-red-600 text-white rounded-lg font-semibold hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Cancel Order
+              </button>
+            </div>
+          )}
+
           {order.status === 'out_for_delivery' && (
             <div className="space-y-4">
               {order.delivery_runner ? (
@@ -1638,6 +2098,63 @@ function UpdateStatusModal({
             </div>
           )}
 
+          {showRejectForm && (
+            <div className="space-y-3 pt-4 border-t border-gray-200">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Rejection Reason <span className="text-red-500">*</span>
+                </label>
+                <select
+                  value={rejectReason}
+                  onChange={(e) => {
+                    setRejectReason(e.target.value as RejectionReasonCode | '');
+                    setRejectError(null);
+                  }}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                >
+                  <option value="">Select a reason...</option>
+                  {(Object.keys(REJECTION_REASON_LABELS) as RejectionReasonCode[]).map((code) => (
+                    <option key={code} value={code}>
+                      {REJECTION_REASON_LABELS[code]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Note to the customer</label>
+                <textarea
+                  value={rejectNote}
+                  onChange={(e) => setRejectNote(e.target.value)}
+                  placeholder="Optional"
+                  rows={2}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                />
+              </div>
+              {rejectError && <p className="text-sm text-red-600">{rejectError}</p>}
+              <div className="flex gap-2">
+                <button
+                  onClick={handleReject}
+                  disabled={loading || !rejectReason || !isReady}
+                  className="flex-1 px-4 py-3 bg-red-600 text-white rounded-lg font-semibold hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {loading ? 'Rejecting...' : !isReady ? 'Preparing account...' : 'Confirm Rejection'}
+                </button>
+                <button
+                  onClick={() => {
+                    setShowRejectForm(false);
+                    setRejectReason('');
+                    setRejectNote('');
+                    setRejectError(null);
+                  }}
+                  disabled={loading || !isReady}
+                  className="flex-1 px-4 py-3 bg-gray-200 text-gray-700 rounded-lg font-semibold hover:bg-gray-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
           {showCancelForm && (
             <div className="space-y-3 pt-4 border-t border-gray-200">
               <div>
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseCsv } from '../spreadsheetParser';
+
+describe('parseCsv', () => {
+  it('keeps delimiters, quotes and line breaks inside quoted fields', () => {
+    const rows = parseCsv('Name,SKU,Price\r\n"Milk, full cream",MLK-1,120\r\n"12"" pizza","PZ\n12",950\r\n');
+
+    expect(rows).toEqual([
+      ['Name', 'SKU', 'Price'],
+      ['Milk, full cream', 'MLK-1', '120'],
+      ['12" pizza', 'PZ\n12', '950'],
+    ]);
+  });
+
+  it('reads empty quoted and unquoted cells as empty strings', () => {
+    expect(parseCsv('Name,SKU,Barcode\nBread,"",\n')).toEqual([
+      ['Name', 'SKU', 'Barcode'],
+      ['Bread', '', ''],
+    ]);
+  });
+
+  it('drops a byte order mark and keeps a last row without a line break', () => {
+    expect(parseCsv('\uFEFFName,SKU\nEggs,EGG-12')).toEqual([
+      ['Name', 'SKU'],
+      ['Eggs', 'EGG-12'],
+    ]);
+  });
+
+  it('detects semicolon-separated files from the header row', () => {
+    expect(parseCsv('Name;SKU;Price\n"Tea; green";TEA-1;4,50\n')).toEqual([
+      ['Name', 'SKU', 'Price'],
+      ['Tea; green', 'TEA-1', '4,50'],
+    ]);
+  });
+});
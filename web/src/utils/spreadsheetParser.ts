@@ -0,0 +1,263 @@
+/**
+ * Minimal CSV and XLSX reader for inventory imports.
+ * Only the first worksheet of an XLSX file is read, and every cell is
+ * returned as a string (numbers keep their stored representation).
+ */
+
+export interface ParsedSpreadsheet {
+  headers: string[];
+  rows: string[][];
+}
+
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP_CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50;
+
+export async function parseSpreadsheetFile(file: File): Promise<ParsedSpreadsheet> {
+  const lowerName = file.name.toLowerCase();
+  let table: string[][];
+
+  if (lowerName.endsWith('.xlsx')) {
+    table = await parseXlsx(await file.arrayBuffer());
+  } else if (lowerName.endsWith('.csv') || lowerName.endsWith('.txt')) {
+    table = parseCsv(await file.text());
+  } else {
+    throw new Error('Unsupported file type. Upload a .csv or .xlsx file.');
+  }
+
+  if (!table.some((row) => row.some((cell) => cell.trim() !== ''))) {
+    throw new Error('The file is empty.');
+  }
+
+  const [headers = [], ...rows] = table;
+  if (headers.every((header) => header.trim() === '')) {
+    throw new Error('The first row must contain column headers.');
+  }
+
+  return { headers: headers.map((header) => header.trim()), rows };
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+function detectDelimiter(firstLine: string) {
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+}
+
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(content.split(/\r?\n/, 1)[0] ?? '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let index = 0; index < content.length; index += 1) {
+    const char = content[index];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (content[index + 1] === '"') {
+          cell += '"';
+          index += 1;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[index + 1] === '\n') {
+        index += 1;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// ============================================================================
+// XLSX (zip container + SpreadsheetML)
+// ============================================================================
+
+async function inflateRaw(data: ArrayBuffer): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function readZipEntries(buffer: ArrayBuffer): Promise<Map<string, () => Promise<string>>> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  let endOffset = -1;
+  for (let offset = buffer.byteLength - 22; offset >= 0; offset -= 1) {
+    if (view.getUint32(offset, true) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      endOffset = offset;
+      break;
+    }
+  }
+  if (endOffset === -1) {
+    throw new Error('The file is not a valid .xlsx workbook.');
+  }
+
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+  const entries = new Map<string, () => Promise<string>>();
+
+  for (let entry = 0; entry < entryCount; entry += 1) {
+    if (view.getUint32(offset, true) !== ZIP_CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('The file is not a valid .xlsx workbook.');
+    }
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    entries.set(name, async () => {
+      if (view.getUint32(localOffset, true) !== ZIP_LOCAL_FILE_HEADER) {
+        throw new Error('The file is not a valid .xlsx workbook.');
+      }
+      const dataStart =
+        localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const raw = buffer.slice(dataStart, dataStart + compressedSize);
+
+      if (method === 0) {
+        return decoder.decode(raw);
+      }
+      if (method === 8) {
+        return decoder.decode(await inflateRaw(raw));
+      }
+      throw new Error('The workbook uses an unsupported compression method.');
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+function parseXml(text: string) {
+  return new DOMParser().parseFromString(text, 'application/xml');
+}
+
+function elements(parent: Document | Element, localName: string) {
+  return Array.from(parent.getElementsByTagNameNS('*', localName));
+}
+
+function columnIndex(reference: string) {
+  const letters = reference.replace(/[^A-Z]/gi, '').toUpperCase();
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+async function resolveFirstSheetPath(entries: Map<string, () => Promise<string>>) {
+  const workbookEntry = entries.get('xl/workbook.xml');
+  const relsEntry = entries.get('xl/_rels/workbook.xml.rels');
+
+  if (workbookEntry && relsEntry) {
+    const firstSheet = elements(parseXml(await workbookEntry()), 'sheet')[0];
+    const relationId =
+      firstSheet?.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id') ??
+      firstSheet?.getAttribute('r:id');
+
+    const relationship = elements(parseXml(await relsEntry()), 'Relationship').find(
+      (element) => element.getAttribute('Id') === relationId
+    );
+    const target = relationship?.getAttribute('Target');
+    if (target) {
+      return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    }
+  }
+
+  return 'xl/worksheets/sheet1.xml';
+}
+
+async function parseXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+  const entries = await readZipEntries(buffer);
+
+  const sharedStringsEntry = entries.get('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsEntry
+    ? elements(parseXml(await sharedStringsEntry()), 'si').map((item) =>
+        elements(item, 't')
+          .map((text) => text.textContent ?? '')
+          .join('')
+      )
+    : [];
+
+  const sheetEntry = entries.get(await resolveFirstSheetPath(entries));
+  if (!sheetEntry) {
+    throw new Error('The workbook has no worksheets.');
+  }
+
+  const rows: string[][] = [];
+  elements(parseXml(await sheetEntry()), 'row').forEach((rowElement) => {
+    const row: string[] = [];
+
+    elements(rowElement, 'c').forEach((cellElement, position) => {
+      const reference = cellElement.getAttribute('r');
+      const index = reference ? columnIndex(reference) : position;
+      const type = cellElement.getAttribute('t');
+      const value = elements(cellElement, 'v')[0]?.textContent ?? '';
+
+      let text: string;
+      if (type === 's') {
+        text = sharedStrings[Number(value)] ?? '';
+      } else if (type === 'inlineStr') {
+        text = elements(cellElement, 't')
+          .map((element) => element.textContent ?? '')
+          .join('');
+      } else if (type === 'b') {
+        text = value === '1' ? 'TRUE' : 'FALSE';
+      } else {
+        text = value;
+      }
+
+      while (row.length < index) {
+        row.push('');
+      }
+      row[index] = text;
+    });
+
+    const rowNumber = Number(rowElement.getAttribute('r'));
+    if (Number.isInteger(rowNumber) && rowNumber > 0) {
+      // Keep blank spreadsheet rows so row numbers in the preview line up
+      while (rows.length < rowNumber - 1) {
+        rows.push([]);
+      }
+    }
+    rows.push(row);
+  });
+
+  return rows;
+}